@@ -5,7 +5,9 @@
  * expected arguments for various option combinations.
  */
 
-import { type AgentBuilder, GadgetRegistry, SkillRegistry } from "llmist";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { type AgentBuilder, FileMemoryStore, GadgetRegistry, SkillRegistry } from "llmist";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { type AgentBuilderConfig, configureAgentBuilder } from "./agent-builder-config.js";
 import type { CLIAgentOptions } from "./option-helpers.js";
@@ -43,6 +45,7 @@ function createMockBuilder(): AgentBuilder {
     withBudget: vi.fn().mockReturnThis(),
     withTemperature: vi.fn().mockReturnThis(),
     withSkills: vi.fn().mockReturnThis(),
+    withMemory: vi.fn().mockReturnThis(),
     withReasoning: vi.fn().mockReturnThis(),
     withoutReasoning: vi.fn().mockReturnThis(),
     onHumanInput: vi.fn().mockReturnThis(),
@@ -307,6 +310,61 @@ describe("configureAgentBuilder", () => {
     });
   });
 
+  // ── Memory ───────────────────────────────────────────────────────────────
+
+  describe("memory", () => {
+    it("does not call withMemory without a memory config", async () => {
+      await configureAgentBuilder(builder, createOptions(), createConfig());
+      expect(builder.withMemory).not.toHaveBeenCalled();
+    });
+
+    it("uses the default memory file scoped to the working directory", async () => {
+      await configureAgentBuilder(builder, createOptions({ memory: {} }), createConfig());
+
+      const [store, options] = vi.mocked(builder.withMemory).mock.calls[0];
+      expect(store).toBeInstanceOf(FileMemoryStore);
+      expect((store as FileMemoryStore).path).toBe(join(homedir(), ".llmist", "memory.json"));
+      expect(options).toEqual({
+        scope: { project: process.cwd(), user: undefined },
+        autoRecall: undefined,
+        maxTokens: undefined,
+      });
+    });
+
+    it("applies the profile's memory settings", async () => {
+      await configureAgentBuilder(
+        builder,
+        createOptions({
+          memory: {
+            path: "/tmp/memory.json",
+            project: "webapp",
+            user: "alice",
+            "auto-recall": false,
+            "max-tokens": 500,
+          },
+        }),
+        createConfig(),
+      );
+
+      const [store, options] = vi.mocked(builder.withMemory).mock.calls[0];
+      expect((store as FileMemoryStore).path).toBe("/tmp/memory.json");
+      expect(options).toEqual({
+        scope: { project: "webapp", user: "alice" },
+        autoRecall: false,
+        maxTokens: 500,
+      });
+    });
+
+    it("does not call withMemory when memory is disabled", async () => {
+      await configureAgentBuilder(
+        builder,
+        createOptions({ memory: { enabled: false } }),
+        createConfig(),
+      );
+      expect(builder.withMemory).not.toHaveBeenCalled();
+    });
+  });
+
   // ── Reasoning ────────────────────────────────────────────────────────────
 
   describe("reasoning", () => {
@@ -14,13 +14,18 @@ import type {
   SkillRegistry,
   SubagentConfigMap,
 } from "llmist";
+import { FileMemoryStore } from "llmist";
 import type { CLIConfig } from "./config.js";
 import type { CLIEnvironment } from "./environment.js";
 import { readSystemPromptFile } from "./file-utils.js";
 import type { CLIAgentOptions } from "./option-helpers.js";
+import { expandTildePath } from "./paths.js";
 import { resolveRateLimitConfig, resolveRetryConfig } from "./rate-limit-resolver.js";
 import type { TUIApp } from "./tui/index.js";
 
+/** Memory file used when `[agent.memory]` doesn't set a path. */
+const DEFAULT_MEMORY_PATH = "~/.llmist/memory.json";
+
 /**
  * Configuration context passed to configureAgentBuilder.
  * Contains all resolved, pre-computed values the builder wiring needs.
@@ -55,6 +60,7 @@ export interface AgentBuilderConfig {
  *   - System prompt (inline or from file)
  *   - Max iterations, budget, temperature
  *   - Skills
+ *   - Long-term memory
  *   - Reasoning (enabled/disabled/effort/budget)
  *   - Human-input handler (TUI mode only)
  *   - Abort signal
@@ -139,6 +145,17 @@ export async function configureAgentBuilder(
     builder.withSkills(skillRegistry);
   }
 
+  // ─── Memory ────────────────────────────────────────────────────────────────
+  // Memories are scoped to the working directory unless the profile names a project
+  if (options.memory && options.memory.enabled !== false) {
+    const cfg = options.memory;
+    builder.withMemory(new FileMemoryStore(expandTildePath(cfg.path ?? DEFAULT_MEMORY_PATH)), {
+      scope: { project: cfg.project ?? process.cwd(), user: cfg.user },
+      autoRecall: cfg["auto-recall"],
+      maxTokens: cfg["max-tokens"],
+    });
+  }
+
   // ─── Reasoning ─────────────────────────────────────────────────────────────
   // Precedence: --no-reasoning > --reasoning/--reasoning-budget > config > auto-detect
   if (options.reasoning === false) {
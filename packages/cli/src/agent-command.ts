@@ -1,11 +1,11 @@
 import type { Command } from "commander";
-import type { AgentHooks, TokenUsage } from "llmist";
+import type { AgentHooks, ModelRoute, RoutingFeature, TokenUsage } from "llmist";
 import { AgentBuilder, GadgetRegistry, HookPresets } from "llmist";
 import { configureAgentBuilder } from "./agent-builder-config.js";
 import { runAgentLoop } from "./agent-runner.js";
 import type { ApprovalConfig } from "./approval/index.js";
 import { getBuiltinGadgets } from "./builtin-gadgets.js";
-import type { AgentConfig, CLIConfig, GlobalSubagentConfig } from "./config.js";
+import type { AgentConfig, CLIConfig, GlobalSubagentConfig, ModelRouteConfig } from "./config.js";
 import { getCustomCommandNames, loadConfig } from "./config.js";
 import { COMMANDS } from "./constants.js";
 import type { CLIEnvironment } from "./environment.js";
@@ -29,6 +29,23 @@ function loadConfigSafe(): CLIConfig | null {
   }
 }
 
+/**
+ * Converts validated `[[model-routes]]` entries into llmist model routes.
+ */
+function toModelRoutes(routes: ModelRouteConfig[]): ModelRoute[] {
+  return routes.map((route) => ({
+    model: route.model,
+    requires: route.requires as RoutingFeature[] | undefined,
+    minIteration: route["min-iteration"],
+    maxIteration: route["max-iteration"],
+    minGadgetFailures: route["min-gadget-failures"],
+    minBudgetUsed: route["min-budget-used"],
+    maxBudgetUsed: route["max-budget-used"],
+    minContextTokens: route["min-context-tokens"],
+    maxContextTokens: route["max-context-tokens"],
+  }));
+}
+
 /**
  * Executes the agent command.
  *
@@ -230,15 +247,27 @@ export async function executeAgent(
   });
 
   // Combine TUI hooks with file logging (if enabled via --log-llm-requests flag)
-  const finalHooks = llmLogDir
+  const loggedHooks = llmLogDir
     ? HookPresets.merge(HookPresets.fileLogging({ directory: llmLogDir }), tuiHooks)
     : tuiHooks;
 
+  // Route LLM calls between models when the profile defines model-routes
+  const finalHooks =
+    options.modelRoutes && options.modelRoutes.length > 0
+      ? HookPresets.merge(
+          HookPresets.modelRouter({
+            routes: toModelRoutes(options.modelRoutes),
+            modelRegistry: client.modelRegistry,
+          }),
+          loggedHooks,
+        )
+      : loggedHooks;
+
   const builder = new AgentBuilder(client);
 
   // Configure the builder with all settings via the extracted helper.
   // This covers: model, subagent config, logger, hooks, rate limits, retry,
-  // system prompt, iterations, budget, temperature, reasoning, skills,
+  // system prompt, iterations, budget, temperature, reasoning, skills, memory,
   // human-input handler, abort signal, gadgets, MCP servers, gadget markers,
   // synthetic gadget calls, text handlers, and trailing message.
   await configureAgentBuilder(builder, options, {
@@ -296,6 +325,8 @@ export function registerAgentCommand(
         subagents: config?.subagents,
         globalSubagents,
         initialGadgets: config?.["initial-gadgets"],
+        modelRoutes: config?.["model-routes"],
+        memory: config?.memory,
         globalRateLimits,
         globalRetry,
         profileRateLimits: config?.["rate-limits"],
@@ -0,0 +1,257 @@
+import { Writable } from "node:stream";
+import { BatchNotReadyError, type BatchResultItem } from "llmist";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { executeBatchFetch, executeBatchStatus, executeBatchSubmit } from "./batch-command.js";
+import type { CLIEnvironment } from "./environment.js";
+
+vi.mock("node:fs", () => ({
+  existsSync: vi.fn((path: string) => path.endsWith(".json")),
+  writeFileSync: vi.fn(),
+}));
+
+vi.mock("./file-utils.js", () => ({
+  readFileBuffer: vi.fn(),
+}));
+
+import { writeFileSync } from "node:fs";
+import { readFileBuffer } from "./file-utils.js";
+
+const REF = {
+  provider: "openai",
+  model: "gpt-5-mini",
+  batchId: "batch_1",
+  requestCount: 2,
+};
+
+/**
+ * Mock writable stream that captures output and has optional TTY flag.
+ */
+class MockWritableStream extends Writable {
+  public output = "";
+  isTTY: boolean;
+
+  constructor(isTTY = false) {
+    super();
+    this.isTTY = isTTY;
+  }
+
+  _write(chunk: Buffer | string, _encoding: string, callback: () => void): void {
+    this.output += chunk.toString();
+    callback();
+  }
+}
+
+/**
+ * Creates a mock LLMist client whose batch jobs yield the given results.
+ */
+function createMockClient(results: BatchResultItem[] = [], notReady = false) {
+  const job = {
+    provider: REF.provider,
+    model: REF.model,
+    batchId: REF.batchId,
+    toRef: () => REF,
+    wait: vi.fn(async (options: { onStatus?: (s: unknown) => void }) => {
+      options.onStatus?.({ status: "completed", counts: { total: 2, succeeded: 2, failed: 0 } });
+      return { status: "completed" };
+    }),
+    async *[Symbol.asyncIterator]() {
+      if (notReady) {
+        throw new BatchNotReadyError(REF.batchId, "in_progress");
+      }
+      yield* results;
+    },
+  };
+  return {
+    job,
+    batch: {
+      submit: vi.fn(async () => job),
+      attach: vi.fn(() => job),
+      get: vi.fn(async () => ({
+        status: "in_progress",
+        counts: { total: 100, succeeded: 40, failed: 2 },
+      })),
+    },
+  };
+}
+
+/**
+ * Creates a mock CLI environment.
+ */
+function createMockEnv(
+  mockClient: ReturnType<typeof createMockClient>,
+  options: { stderrTTY?: boolean } = {},
+): CLIEnvironment & { stdout: MockWritableStream; stderr: MockWritableStream } {
+  const stdout = new MockWritableStream();
+  const stderr = new MockWritableStream(options.stderrTTY ?? false);
+
+  return {
+    stdin: process.stdin,
+    stdout: stdout as unknown as NodeJS.WriteStream,
+    stderr: stderr as unknown as NodeJS.WriteStream,
+    isTTY: false,
+    createClient: () => mockClient,
+    setExitCode: vi.fn(),
+  } as unknown as CLIEnvironment & {
+    stdout: MockWritableStream;
+    stderr: MockWritableStream;
+  };
+}
+
+function mockFile(content: string) {
+  vi.mocked(readFileBuffer).mockResolvedValue(Buffer.from(content));
+}
+
+describe("batch-command", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.mocked(readFileBuffer).mockReset();
+  });
+
+  describe("executeBatchSubmit", () => {
+    it("submits JSONL requests and prints the ref", async () => {
+      mockFile(
+        [
+          JSON.stringify({ id: "a", prompt: "Classify: refund" }),
+          "",
+          JSON.stringify({
+            id: "b",
+            messages: [{ role: "user", content: "Classify: crash" }],
+            maxTokens: 5,
+          }),
+        ].join("\n"),
+      );
+      const mockClient = createMockClient();
+      const env = createMockEnv(mockClient);
+
+      await executeBatchSubmit(
+        "tickets.jsonl",
+        { model: "openai:gpt-5-mini", system: "Reply with one word.", maxTokens: 10 },
+        env,
+      );
+
+      expect(mockClient.batch.submit).toHaveBeenCalledWith(
+        [
+          {
+            id: "a",
+            messages: [
+              { role: "system", content: "Reply with one word." },
+              { role: "user", content: "Classify: refund" },
+            ],
+            maxTokens: 10,
+          },
+          {
+            id: "b",
+            messages: [
+              { role: "system", content: "Reply with one word." },
+              { role: "user", content: "Classify: crash" },
+            ],
+            maxTokens: 5,
+          },
+        ],
+        { model: "openai:gpt-5-mini" },
+      );
+      expect(JSON.parse(env.stdout.output)).toEqual(REF);
+    });
+
+    it("reports invalid lines by number", async () => {
+      mockFile(`${JSON.stringify({ id: "a", prompt: "x" })}\n{not json`);
+      const env = createMockEnv(createMockClient());
+
+      await expect(
+        executeBatchSubmit("bad.jsonl", { model: "openai:gpt-5-mini" }, env),
+      ).rejects.toThrow("Line 2 is not valid JSON");
+    });
+
+    it("requires messages or a prompt", async () => {
+      mockFile(JSON.stringify({ id: "a" }));
+      const env = createMockEnv(createMockClient());
+
+      await expect(
+        executeBatchSubmit("bad.jsonl", { model: "openai:gpt-5-mini" }, env),
+      ).rejects.toThrow('Line 1 needs "messages" or "prompt"');
+    });
+  });
+
+  describe("executeBatchStatus", () => {
+    it("prints a one-line status from a ref file", async () => {
+      mockFile(JSON.stringify(REF));
+      const mockClient = createMockClient();
+      const env = createMockEnv(mockClient);
+
+      await executeBatchStatus("batch.json", {}, env);
+
+      expect(readFileBuffer).toHaveBeenCalledWith("batch.json");
+      expect(mockClient.batch.get).toHaveBeenCalledWith(REF);
+      expect(env.stdout.output).toBe("in_progress (40/100 succeeded, 2 failed)\n");
+    });
+
+    it("accepts inline ref JSON and prints JSON with --json", async () => {
+      const env = createMockEnv(createMockClient());
+
+      await executeBatchStatus(JSON.stringify(REF), { json: true }, env);
+
+      expect(readFileBuffer).not.toHaveBeenCalled();
+      expect(JSON.parse(env.stdout.output).status).toBe("in_progress");
+    });
+
+    it("rejects refs without a batch id", async () => {
+      const env = createMockEnv(createMockClient());
+      await expect(
+        executeBatchStatus(JSON.stringify({ provider: "openai" }), {}, env),
+      ).rejects.toThrow('must include "provider", "model" and "batchId"');
+    });
+  });
+
+  describe("executeBatchFetch", () => {
+    const results: BatchResultItem[] = [
+      { id: "a", status: "succeeded", text: "billing", cost: 0.0001, raw: { big: true } },
+      { id: "b", status: "failed", text: "", error: { message: "Expired" } },
+    ];
+
+    it("writes results as JSON Lines without raw payloads", async () => {
+      const env = createMockEnv(createMockClient(results));
+
+      await executeBatchFetch(JSON.stringify(REF), {}, env);
+
+      const lines = env.stdout.output
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(lines).toEqual([
+        { id: "a", status: "succeeded", text: "billing", cost: 0.0001 },
+        { id: "b", status: "failed", text: "", error: { message: "Expired" } },
+      ]);
+    });
+
+    it("waits, saves to a file and shows a summary on a TTY", async () => {
+      const mockClient = createMockClient(results);
+      const env = createMockEnv(mockClient, { stderrTTY: true });
+
+      await executeBatchFetch(
+        JSON.stringify(REF),
+        { wait: true, pollInterval: 5, output: "/tmp/results.jsonl" },
+        env,
+      );
+
+      expect(mockClient.job.wait).toHaveBeenCalledWith(
+        expect.objectContaining({ pollIntervalMs: 5000 }),
+      );
+      expect(writeFileSync).toHaveBeenCalledWith("/tmp/results.jsonl", expect.any(String));
+      expect(env.stdout.output).toBe("");
+      expect(env.stderr.output).toContain("completed (2/2 succeeded, 0 failed)");
+      expect(env.stderr.output).toContain("Results saved to /tmp/results.jsonl");
+      expect(env.stderr.output).toContain("1 succeeded | 1 failed | cost:");
+    });
+
+    it("suggests --wait while the batch is still running", async () => {
+      const env = createMockEnv(createMockClient([], true));
+
+      await expect(executeBatchFetch(JSON.stringify(REF), {}, env)).rejects.toThrow(
+        "Re-run with --wait",
+      );
+    });
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Batch command for bulk offline jobs at batch pricing.
+ *
+ * `submit` reads requests from a JSON Lines file and prints the batch ref as
+ * JSON; `status` and `fetch` take that ref (a file path or inline JSON), so a
+ * batch can be checked on from another shell or machine.
+ *
+ * Each input line is a batch request: `{"id": "...", "messages": [...]}`, or
+ * `{"id": "...", "prompt": "..."}` as a shorthand for a single user message.
+ * Any other generation option (`maxTokens`, `temperature`, `model`, ...) may
+ * be set per line.
+ *
+ * @example
+ * ```bash
+ * llmist batch submit tickets.jsonl -m openai:gpt-5-mini > batch.json
+ * llmist batch status batch.json
+ * llmist batch fetch batch.json --wait -o results.jsonl
+ * ```
+ */
+
+import { existsSync, writeFileSync } from "node:fs";
+import type { Command } from "commander";
+import {
+  type BatchJobRef,
+  BatchNotReadyError,
+  type BatchRequest,
+  type BatchResultItem,
+  type BatchStatusSnapshot,
+} from "llmist";
+import {
+  COMMANDS,
+  DEFAULT_MODEL,
+  OPTION_DESCRIPTIONS,
+  OPTION_FLAGS,
+  SUMMARY_PREFIX,
+} from "./constants.js";
+import type { CLIEnvironment } from "./environment.js";
+import { readFileBuffer } from "./file-utils.js";
+import { formatCost } from "./ui/formatters.js";
+import { createNumericParser, executeAction } from "./utils.js";
+
+/**
+ * Options for `batch submit`.
+ */
+export interface BatchSubmitCommandOptions {
+  model: string;
+  system?: string;
+  maxTokens?: number;
+  quiet?: boolean;
+}
+
+/**
+ * Options for `batch status`.
+ */
+export interface BatchStatusCommandOptions {
+  json?: boolean;
+}
+
+/**
+ * Options for `batch fetch`.
+ */
+export interface BatchFetchCommandOptions {
+  wait?: boolean;
+  pollInterval?: number;
+  output?: string;
+  quiet?: boolean;
+}
+
+/**
+ * Parses one JSONL line into a batch request, expanding the `prompt`
+ * shorthand and applying the command-level defaults.
+ */
+function parseRequestLine(
+  line: string,
+  lineNumber: number,
+  options: BatchSubmitCommandOptions,
+): BatchRequest {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(line);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Line ${lineNumber} is not valid JSON: ${message}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Line ${lineNumber} must be a JSON object.`);
+  }
+
+  const { prompt, ...rest } = parsed;
+  const request = rest as unknown as BatchRequest;
+  if (typeof prompt === "string") {
+    request.messages = [{ role: "user", content: prompt }];
+  }
+  if (!Array.isArray(request.messages) || request.messages.length === 0) {
+    throw new Error(`Line ${lineNumber} needs "messages" or "prompt".`);
+  }
+  if (options.system && !request.messages.some((message) => message.role === "system")) {
+    request.messages = [{ role: "system", content: options.system }, ...request.messages];
+  }
+  if (options.maxTokens !== undefined && request.maxTokens === undefined) {
+    request.maxTokens = options.maxTokens;
+  }
+  return request;
+}
+
+/**
+ * Resolves a `<ref>` argument: a path to a saved ref file, or the ref JSON itself.
+ */
+async function readBatchRef(refArg: string): Promise<BatchJobRef> {
+  const source = existsSync(refArg) ? (await readFileBuffer(refArg)).toString("utf-8") : refArg;
+  let ref: Partial<BatchJobRef>;
+  try {
+    ref = JSON.parse(source);
+  } catch {
+    throw new Error(
+      `"${refArg}" is neither a batch ref file nor ref JSON. Pass the output of "llmist batch submit".`,
+    );
+  }
+  if (!ref?.provider || !ref.model || !ref.batchId) {
+    throw new Error('Batch ref must include "provider", "model" and "batchId".');
+  }
+  return ref as BatchJobRef;
+}
+
+/** One-line status summary, e.g. "in_progress (40/100 succeeded, 2 failed)". */
+function formatSnapshot(snapshot: BatchStatusSnapshot): string {
+  const counts = snapshot.counts
+    ? ` (${snapshot.counts.succeeded}/${snapshot.counts.total} succeeded, ${snapshot.counts.failed} failed)`
+    : "";
+  const error = snapshot.error ? ` - ${snapshot.error}` : "";
+  return `${snapshot.status}${counts}${error}`;
+}
+
+/** Result line written by `fetch` (the provider's raw payload is dropped). */
+function toOutputLine({ raw: _raw, ...item }: BatchResultItem): string {
+  return `${JSON.stringify(item)}\n`;
+}
+
+/**
+ * Executes `batch submit`: validates and uploads the requests, then prints the
+ * batch ref as JSON on stdout.
+ *
+ * @param file - Path to the JSON Lines request file
+ * @param options - Submit options
+ * @param env - CLI environment for I/O operations
+ */
+export async function executeBatchSubmit(
+  file: string,
+  options: BatchSubmitCommandOptions,
+  env: CLIEnvironment,
+): Promise<void> {
+  const content = (await readFileBuffer(file)).toString("utf-8");
+  const requests = content
+    .split("\n")
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, lineNumber }) => parseRequestLine(line, lineNumber, options));
+
+  const client = env.createClient();
+  const job = await client.batch.submit(requests, { model: options.model });
+
+  env.stdout.write(`${JSON.stringify(job.toRef(), null, 2)}\n`);
+
+  const stderrTTY = (env.stderr as NodeJS.WriteStream).isTTY === true;
+  if (!options.quiet && stderrTTY) {
+    env.stderr.write(
+      `${SUMMARY_PREFIX} Submitted ${requests.length} requests to ${job.provider}:${job.model} as ${job.batchId}\n`,
+    );
+  }
+}
+
+/**
+ * Executes `batch status`: prints a one-line status, or the snapshot as JSON.
+ *
+ * @param refArg - Ref file path or ref JSON
+ * @param options - Status options
+ * @param env - CLI environment for I/O operations
+ */
+export async function executeBatchStatus(
+  refArg: string,
+  options: BatchStatusCommandOptions,
+  env: CLIEnvironment,
+): Promise<void> {
+  const ref = await readBatchRef(refArg);
+  const snapshot = await env.createClient().batch.get(ref);
+  env.stdout.write(
+    options.json ? `${JSON.stringify(snapshot, null, 2)}\n` : `${formatSnapshot(snapshot)}\n`,
+  );
+}
+
+/**
+ * Executes `batch fetch`: writes per-request results as JSON Lines, optionally
+ * waiting for the batch to finish first.
+ *
+ * @param refArg - Ref file path or ref JSON
+ * @param options - Fetch options
+ * @param env - CLI environment for I/O operations
+ */
+export async function executeBatchFetch(
+  refArg: string,
+  options: BatchFetchCommandOptions,
+  env: CLIEnvironment,
+): Promise<void> {
+  const ref = await readBatchRef(refArg);
+  const job = env.createClient().batch.attach(ref);
+  const stderrTTY = (env.stderr as NodeJS.WriteStream).isTTY === true;
+  const showProgress = !options.quiet && stderrTTY;
+
+  if (options.wait) {
+    await job.wait({
+      pollIntervalMs: options.pollInterval === undefined ? undefined : options.pollInterval * 1000,
+      onStatus: showProgress
+        ? (snapshot) => env.stderr.write(`${SUMMARY_PREFIX} ${formatSnapshot(snapshot)}\n`)
+        : undefined,
+    });
+  }
+
+  const lines: string[] = [];
+  let succeeded = 0;
+  let totalCost = 0;
+  let hasCost = false;
+  try {
+    for await (const item of job) {
+      lines.push(toOutputLine(item));
+      if (item.status === "succeeded") {
+        succeeded += 1;
+      }
+      if (item.cost !== undefined) {
+        totalCost += item.cost;
+        hasCost = true;
+      }
+    }
+  } catch (error) {
+    if (error instanceof BatchNotReadyError) {
+      throw new Error(
+        `Batch "${ref.batchId}" is still ${error.status.replace("_", " ")}. ` +
+          "Re-run with --wait, or check on it with `llmist batch status`.",
+      );
+    }
+    throw error;
+  }
+  const jsonLines = lines.join("");
+
+  if (options.output) {
+    writeFileSync(options.output, jsonLines);
+    if (!options.quiet) {
+      env.stderr.write(`${SUMMARY_PREFIX} Results saved to ${options.output}\n`);
+    }
+  } else {
+    env.stdout.write(jsonLines);
+  }
+
+  if (showProgress) {
+    const parts = [`${succeeded} succeeded`, `${lines.length - succeeded} failed`];
+    if (hasCost) {
+      parts.push(`cost: ${formatCost(totalCost)}`);
+    }
+    env.stderr.write(`${SUMMARY_PREFIX} ${parts.join(" | ")}\n`);
+  }
+}
+
+/**
+ * Registers the `batch` command group with submit/status/fetch subcommands.
+ *
+ * @param program - Commander program to register on
+ * @param env - CLI environment for I/O
+ */
+export function registerBatchCommand(program: Command, env: CLIEnvironment): void {
+  const batchCmd = program
+    .command(COMMANDS.batch)
+    .description("Run bulk offline jobs through provider Batch APIs at discounted pricing.");
+
+  // Subcommand: submit
+  batchCmd
+    .command("submit <file>")
+    .description("Submit a JSON Lines file of requests and print the batch ref.")
+    .option(OPTION_FLAGS.model, OPTION_DESCRIPTIONS.model, DEFAULT_MODEL)
+    .option(OPTION_FLAGS.systemPrompt, OPTION_DESCRIPTIONS.batchSystemPrompt)
+    .option(
+      OPTION_FLAGS.maxTokens,
+      OPTION_DESCRIPTIONS.maxTokens,
+      createNumericParser({ label: "Max tokens", integer: true, min: 1 }),
+    )
+    .option(OPTION_FLAGS.quiet, OPTION_DESCRIPTIONS.quiet)
+    .action((file: string, options: BatchSubmitCommandOptions) =>
+      executeAction(() => executeBatchSubmit(file, options, env), env),
+    );
+
+  // Subcommand: status
+  batchCmd
+    .command("status <ref>")
+    .description("Show the status of a batch (ref file path or ref JSON).")
+    .option("--json", "Output the status snapshot as JSON")
+    .action((ref: string, options: BatchStatusCommandOptions) =>
+      executeAction(() => executeBatchStatus(ref, options, env), env),
+    );
+
+  // Subcommand: fetch
+  batchCmd
+    .command("fetch <ref>")
+    .description("Write batch results as JSON Lines (ref file path or ref JSON).")
+    .option(OPTION_FLAGS.batchWait, OPTION_DESCRIPTIONS.batchWait)
+    .option(
+      OPTION_FLAGS.batchPollInterval,
+      OPTION_DESCRIPTIONS.batchPollInterval,
+      createNumericParser({ label: "Poll interval", min: 1 }),
+    )
+    .option(OPTION_FLAGS.batchOutput, OPTION_DESCRIPTIONS.batchOutput)
+    .option(OPTION_FLAGS.quiet, OPTION_DESCRIPTIONS.quiet)
+    .action((ref: string, options: BatchFetchCommandOptions) =>
+      executeAction(() => executeBatchFetch(ref, options, env), env),
+    );
+}
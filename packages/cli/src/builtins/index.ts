@@ -4,7 +4,7 @@
  * with the explicit "builtin:" prefix (e.g., "builtin:ListDirectory").
  */
 
-import type { AbstractGadget } from "llmist";
+import { type AbstractGadget, deepResearch } from "llmist";
 import { deleteFile } from "./filesystem/delete-file.js";
 import { editFile } from "./filesystem/edit-file.js";
 import { listDirectory } from "./filesystem/list-directory.js";
@@ -29,6 +29,7 @@ export const builtinGadgetRegistry: Record<string, AbstractGadget> = {
   DeleteFile: deleteFile,
   RunCommand: runCommand,
   TextToSpeech: textToSpeech,
+  DeepResearch: deepResearch,
 };
 
 /**
@@ -55,6 +55,7 @@ vi.mock("./utils.js", async (importOriginal) => {
       endCall: vi.fn(),
       complete: vi.fn(),
       getTotalCost: vi.fn().mockReturnValue(0.001),
+      getCacheStats: vi.fn().mockReturnValue(undefined),
     })),
     executeAction: vi.fn(async (fn: () => Promise<void>, _env: CLIEnvironment) => {
       await fn();
@@ -195,6 +196,7 @@ describe("complete-command", () => {
           endCall: vi.fn(),
           complete: vi.fn(),
           getTotalCost: vi.fn().mockReturnValue(0.001),
+          getCacheStats: vi.fn().mockReturnValue(undefined),
         }) as any,
     );
     vi.mocked(StreamPrinter).mockImplementation(
@@ -683,6 +685,7 @@ describe("complete-command", () => {
         endCall: vi.fn(),
         complete: vi.fn(),
         getTotalCost: vi.fn().mockReturnValue(0),
+        getCacheStats: vi.fn().mockReturnValue(undefined),
       };
       vi.mocked(StreamProgress).mockImplementation(() => progressInstance as any);
 
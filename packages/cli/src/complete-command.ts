@@ -178,7 +178,12 @@ export async function executeComplete(
 
   // Only show summary if stderr is a TTY (not redirected) and not in quiet mode
   if (stderrTTY && !options.quiet) {
-    const summary = renderSummary({ finishReason, usage, cost: progress.getTotalCost() });
+    const summary = renderSummary({
+      finishReason,
+      usage,
+      cost: progress.getTotalCost(),
+      cache: progress.getCacheStats(),
+    });
     if (summary) {
       env.stderr.write(`${summary}\n`);
     }
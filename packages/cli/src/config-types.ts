@@ -141,6 +141,34 @@ export interface InitialGadget {
   result: string;
 }
 
+/**
+ * A model routing rule from TOML config (`[[agent.model-routes]]`).
+ * Maps to llmist's `ModelRoute`; routes are tried in order.
+ */
+export interface ModelRouteConfig {
+  model: string;
+  requires?: string[]; // "vision" | "reasoning"
+  "min-iteration"?: number;
+  "max-iteration"?: number;
+  "min-gadget-failures"?: number;
+  "min-budget-used"?: number;
+  "max-budget-used"?: number;
+  "min-context-tokens"?: number;
+  "max-context-tokens"?: number;
+}
+
+/**
+ * Long-term memory configuration from TOML config (`[agent.memory]`).
+ */
+export interface MemoryConfigCLI {
+  enabled?: boolean;
+  path?: string; // Memory file (default: ~/.llmist/memory.json)
+  project?: string; // Scope (default: current directory)
+  user?: string;
+  "auto-recall"?: boolean;
+  "max-tokens"?: number;
+}
+
 /**
  * Configuration for the agent command.
  */
@@ -160,6 +188,10 @@ export interface AgentConfig extends SharedCommandConfig {
   subagents?: import("llmist").SubagentConfigMap;
   /** Pre-seeded gadget results to inject into conversation history */
   "initial-gadgets"?: InitialGadget[];
+  /** Rules for picking the model per LLM call */
+  "model-routes"?: ModelRouteConfig[];
+  /** Long-term memory shared across runs */
+  memory?: MemoryConfigCLI;
   quiet?: boolean;
   "log-level"?: LogLevel;
   "log-llm-requests"?: boolean;
@@ -209,6 +241,34 @@ export interface McpConfig {
   servers?: Record<string, McpServerToml>;
 }
 
+/** TOML schema for a `[[providers.<name>.models]]` entry. */
+export interface ProviderModelToml {
+  id: string;
+  "display-name"?: string;
+  "context-window"?: number;
+  "max-output-tokens"?: number;
+  /** Price per 1M tokens in USD */
+  pricing?: {
+    input: number;
+    output: number;
+    "cached-input"?: number;
+  };
+  vision?: boolean;
+  "function-calling"?: boolean;
+  reasoning?: boolean;
+}
+
+/** TOML schema for a `[providers.<name>]` block (OpenAI-compatible endpoint). */
+export interface ProviderToml {
+  "base-url": string;
+  "api-key-env"?: string;
+  headers?: Record<string, string>;
+  "timeout-ms"?: number;
+  models?: ProviderModelToml[];
+}
+
+export type ProvidersConfig = Record<string, ProviderToml>;
+
 export interface CLIConfig {
   global?: GlobalConfig;
   complete?: CompleteConfig;
@@ -226,6 +286,8 @@ export interface CLIConfig {
   skills?: import("./skills/config-types.js").SkillsConfig;
   /** MCP servers configuration (plan 2). */
   mcp?: McpConfig;
+  /** Custom OpenAI-compatible providers */
+  providers?: ProvidersConfig;
   [customCommand: string]:
     | CustomCommandConfig
     | CompleteConfig
@@ -239,6 +301,7 @@ export interface CLIConfig {
     | RetryConfigCLI
     | import("./skills/config-types.js").SkillsConfig
     | McpConfig
+    | ProvidersConfig
     | undefined;
 }
 
@@ -290,6 +353,8 @@ export const AGENT_CONFIG_KEYS = new Set([
   "gadget-approval",
   "subagents", // Per-subagent configuration overrides
   "initial-gadgets", // Pre-seeded gadget results
+  "model-routes", // Per-call model routing rules
+  "memory", // Long-term memory
   "quiet",
   "inherits",
   "log-level",
@@ -338,5 +403,31 @@ export const RETRY_CONFIG_KEYS = new Set([
 /** Valid keys for reasoning configuration section. */
 export const REASONING_CONFIG_KEYS = new Set(["enabled", "effort", "budget-tokens"]);
 
+/** Valid keys for memory configuration section. */
+export const MEMORY_CONFIG_KEYS = new Set([
+  "enabled",
+  "path",
+  "project",
+  "user",
+  "auto-recall",
+  "max-tokens",
+]);
+
+/** Valid keys for a model-routes entry. */
+export const MODEL_ROUTE_CONFIG_KEYS = new Set([
+  "model",
+  "requires",
+  "min-iteration",
+  "max-iteration",
+  "min-gadget-failures",
+  "min-budget-used",
+  "max-budget-used",
+  "min-context-tokens",
+  "max-context-tokens",
+]);
+
+/** Valid features a model route can require. */
+export const VALID_ROUTING_FEATURES = new Set(["vision", "reasoning"]);
+
 /** Valid effort levels for reasoning. */
 export const VALID_REASONING_EFFORTS = new Set(["none", "low", "medium", "high", "maximum"]);
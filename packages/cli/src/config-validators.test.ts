@@ -14,6 +14,8 @@ import {
   validateInherits,
   validateInitialGadgets,
   validateLoggingConfig,
+  validateMemoryConfig,
+  validateModelRoutes,
   validateNumber,
   validatePathString,
   validatePromptsConfig,
@@ -814,6 +816,71 @@ describe("config-validators", () => {
     });
   });
 
+  describe("validateMemoryConfig", () => {
+    it("should accept all fields together", () => {
+      const memory = {
+        enabled: true,
+        path: "~/.llmist/memory.json",
+        project: "webapp",
+        user: "alice",
+        "auto-recall": false,
+        "max-tokens": 500,
+      };
+      expect(validateMemoryConfig(memory, "agent.memory")).toEqual(memory);
+    });
+
+    it("should reject unknown keys", () => {
+      expect(() => validateMemoryConfig({ limit: 5 }, "agent.memory")).toThrow(
+        "[agent.memory].limit is not a valid option",
+      );
+    });
+
+    it("should throw when max-tokens is not a positive integer", () => {
+      expect(() => validateMemoryConfig({ "max-tokens": 0 }, "agent.memory")).toThrow(ConfigError);
+    });
+  });
+
+  describe("validateModelRoutes", () => {
+    it("should accept routes with conditions", () => {
+      const routes = [
+        { model: "opus", "min-gadget-failures": 2 },
+        { model: "flash", "min-budget-used": 0.8 },
+        { model: "haiku", "max-iteration": 1, requires: ["vision"] },
+      ];
+      expect(validateModelRoutes(routes, "agent")).toEqual(routes);
+    });
+
+    it("should throw when value is not an array", () => {
+      expect(() => validateModelRoutes({ model: "opus" }, "agent")).toThrow(
+        "[agent].model-routes must be an array",
+      );
+    });
+
+    it("should throw when entry is missing model", () => {
+      expect(() => validateModelRoutes([{ "min-iteration": 2 }], "s")).toThrow(
+        "[s.model-routes[0]] is missing required field 'model'",
+      );
+    });
+
+    it("should reject unknown keys", () => {
+      expect(() => validateModelRoutes([{ model: "opus", iteration: 2 }], "s")).toThrow(
+        "[s.model-routes[0]].iteration is not a valid option",
+      );
+    });
+
+    it("should reject unknown features", () => {
+      expect(() => validateModelRoutes([{ model: "opus", requires: ["audio"] }], "s")).toThrow(
+        '[s.model-routes[0]].requires must only contain: vision, reasoning (got "audio")',
+      );
+    });
+
+    it("should reject budget shares above 1", () => {
+      expect(() => validateModelRoutes([{ model: "opus", "min-budget-used": 80 }], "s")).toThrow(
+        ConfigError,
+      );
+    });
+  });
+
   // ─────────────────────────────────────────────────────────────────────────────
   // validateLoggingConfig
   // ─────────────────────────────────────────────────────────────────────────────
@@ -1156,6 +1223,19 @@ describe("config-validators", () => {
       expect(result["initial-gadgets"]?.[0].gadget).toBe("ListDirectory");
     });
 
+    it("should validate model-routes array", () => {
+      const result = validateAgentConfig(
+        { "model-routes": [{ model: "opus", "min-gadget-failures": 1 }] },
+        "agent",
+      );
+      expect(result["model-routes"]).toEqual([{ model: "opus", "min-gadget-failures": 1 }]);
+    });
+
+    it("should validate memory sub-config", () => {
+      const result = validateAgentConfig({ memory: { user: "alice" } }, "agent");
+      expect(result.memory).toEqual({ user: "alice" });
+    });
+
     it("should throw when max-iterations is not an integer", () => {
       expect(() => validateAgentConfig({ "max-iterations": 5.5 }, "agent")).toThrow(ConfigError);
     });
@@ -9,6 +9,8 @@ import type {
   ImageConfig,
   InitialGadget,
   LogLevel,
+  MemoryConfigCLI,
+  ModelRouteConfig,
   RateLimitsConfig,
   ReasoningConfigCLI,
   RetryConfigCLI,
@@ -21,6 +23,8 @@ import {
   CUSTOM_CONFIG_KEYS,
   GLOBAL_CONFIG_KEYS,
   IMAGE_CONFIG_KEYS,
+  MEMORY_CONFIG_KEYS,
+  MODEL_ROUTE_CONFIG_KEYS,
   RATE_LIMITS_CONFIG_KEYS,
   REASONING_CONFIG_KEYS,
   RETRY_CONFIG_KEYS,
@@ -28,6 +32,7 @@ import {
   VALID_LOG_LEVELS,
   VALID_PERMISSION_LEVELS,
   VALID_REASONING_EFFORTS,
+  VALID_ROUTING_FEATURES,
 } from "./config-types.js";
 import { expandTildePath } from "./paths.js";
 import type { GlobalSubagentConfig } from "./subagent-config.js";
@@ -279,6 +284,40 @@ const REASONING_SCHEMA: FieldSchemaMap = {
   "budget-tokens": { type: "number", integer: true, min: 1 },
 };
 
+const MEMORY_SCHEMA: FieldSchemaMap = {
+  enabled: { type: "boolean" },
+  path: { type: "string" },
+  project: { type: "string" },
+  user: { type: "string" },
+  "auto-recall": { type: "boolean" },
+  "max-tokens": { type: "number", integer: true, min: 1 },
+};
+
+const MODEL_ROUTE_SCHEMA: FieldSchemaMap = {
+  model: { type: "string" },
+  requires: {
+    type: "custom",
+    validate: (value, key, section) => {
+      const features = validateStringArray(value, key, section);
+      for (const feature of features) {
+        if (!VALID_ROUTING_FEATURES.has(feature)) {
+          throw new ConfigError(
+            `[${section}].${key} must only contain: ${[...VALID_ROUTING_FEATURES].join(", ")} (got "${feature}")`,
+          );
+        }
+      }
+      return features;
+    },
+  },
+  "min-iteration": { type: "number", integer: true, min: 1 },
+  "max-iteration": { type: "number", integer: true, min: 1 },
+  "min-gadget-failures": { type: "number", integer: true, min: 0 },
+  "min-budget-used": { type: "number", min: 0, max: 1 },
+  "max-budget-used": { type: "number", min: 0, max: 1 },
+  "min-context-tokens": { type: "number", integer: true, min: 0 },
+  "max-context-tokens": { type: "number", integer: true, min: 1 },
+};
+
 const IMAGE_SCHEMA: FieldSchemaMap = {
   model: { type: "string" },
   size: { type: "string" },
@@ -553,6 +592,37 @@ export function validateInitialGadgets(value: unknown, section: string): Initial
   return result;
 }
 
+/**
+ * Validates memory configuration.
+ */
+export function validateMemoryConfig(value: unknown, section: string): MemoryConfigCLI {
+  const raw = validateTable(value, section, MEMORY_CONFIG_KEYS);
+  return validateFields(raw, section, MEMORY_SCHEMA) as MemoryConfigCLI;
+}
+
+/**
+ * Validates that a value is a model-routes array.
+ * Each entry must have a model; all conditions are optional.
+ */
+export function validateModelRoutes(value: unknown, section: string): ModelRouteConfig[] {
+  if (!Array.isArray(value)) {
+    throw new ConfigError(`[${section}].model-routes must be an array`);
+  }
+
+  return value.map((entry, i) => {
+    const entrySection = `${section}.model-routes[${i}]`;
+    const entryObj = validateTable(entry, entrySection, MODEL_ROUTE_CONFIG_KEYS);
+    if (!("model" in entryObj)) {
+      throw new ConfigError(`[${entrySection}] is missing required field 'model'`);
+    }
+    return validateFields(
+      entryObj,
+      entrySection,
+      MODEL_ROUTE_SCHEMA,
+    ) as unknown as ModelRouteConfig;
+  });
+}
+
 /**
  * Validates and extracts logging config fields from a raw object.
  */
@@ -625,6 +695,12 @@ export function validateAgentFields(
   if ("initial-gadgets" in rawObj) {
     result["initial-gadgets"] = validateInitialGadgets(rawObj["initial-gadgets"], section);
   }
+  if ("model-routes" in rawObj) {
+    result["model-routes"] = validateModelRoutes(rawObj["model-routes"], section);
+  }
+  if ("memory" in rawObj) {
+    result.memory = validateMemoryConfig(rawObj.memory, `${section}.memory`);
+  }
 }
 
 /**
@@ -1,5 +1,5 @@
 import { homedir } from "node:os";
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
   type CLIConfig,
   ConfigError,
@@ -187,6 +187,26 @@ describe("config", () => {
         expect(() => validateConfig(42)).toThrow(ConfigError);
       });
 
+      it("should skip profiles named like a built-in command with a warning", () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const raw = {
+          research: { model: "test" },
+          embed: { model: "test" },
+          transcribe: { model: "test" },
+          batch: { model: "test" },
+          translate: { model: "test" },
+        };
+
+        const result = validateConfig(raw);
+
+        expect(Object.keys(result)).toEqual(["translate"]);
+        expect(warn).toHaveBeenCalledTimes(4);
+        expect(warn).toHaveBeenCalledWith(
+          expect.stringContaining("[research] is a built-in command"),
+        );
+        warn.mockRestore();
+      });
+
       it("should reject unknown keys in complete section", () => {
         const raw = {
           complete: {
@@ -804,6 +824,18 @@ describe("config", () => {
       expect(result).not.toContain("complete");
       expect(result).not.toContain("agent");
     });
+
+    it("should exclude built-in command names", () => {
+      const config: CLIConfig = {
+        embed: { model: "test" },
+        transcribe: { model: "test" },
+        batch: { model: "test" },
+        research: { model: "test" },
+        translate: { model: "test" },
+      };
+
+      expect(getCustomCommandNames(config)).toEqual(["translate"]);
+    });
   });
 
   describe("resolveInheritance", () => {
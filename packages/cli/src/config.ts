@@ -18,6 +18,7 @@ import {
   validateSpeechConfig,
 } from "./config-validators.js";
 import { validateMcpServersConfig } from "./mcp-toml.js";
+import { validateProvidersConfig } from "./providers-toml.js";
 import { validateSkillsConfig } from "./skills/config-types.js";
 
 // ---------------------------------------------------------------------------
@@ -39,6 +40,8 @@ export type {
   InitialGadget,
   LogLevel,
   McpConfig,
+  MemoryConfigCLI,
+  ModelRouteConfig,
   RateLimitsConfig,
   ReasoningConfigCLI,
   RetryConfigCLI,
@@ -54,6 +57,23 @@ export type { PromptsConfig } from "./templates.js";
 // Utility helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * Built-in commands without a config section of their own. A profile with
+ * one of these names would clash with the command, so it is skipped.
+ */
+const BUILTIN_COMMAND_NAMES = new Set([
+  "vision",
+  "embed",
+  "transcribe",
+  "batch",
+  "research",
+  "models",
+  "gadget",
+  "skill",
+  "init",
+  "config",
+]);
+
 /**
  * Returns the default config file path: ~/.llmist/cli.toml
  */
@@ -98,6 +118,12 @@ export function validateConfig(raw: unknown, configPath?: string): CLIConfig {
         result.skills = validateSkillsConfig(value, key);
       } else if (key === "mcp") {
         result.mcp = validateMcpServersConfig(value, key);
+      } else if (key === "providers") {
+        result.providers = validateProvidersConfig(value, key);
+      } else if (BUILTIN_COMMAND_NAMES.has(key)) {
+        console.warn(
+          `⚠️  Warning: [${key}] is a built-in command, so this profile is ignored. Rename it to use it.`,
+        );
       } else {
         // Custom command section
         result[key] = validateCustomConfig(value, key);
@@ -152,7 +178,8 @@ export function loadConfig(): CLIConfig {
 }
 
 /**
- * Gets list of custom command names from config (excludes built-in sections).
+ * Gets list of custom command names from config (excludes built-in sections
+ * and built-in command names).
  */
 export function getCustomCommandNames(config: CLIConfig): string[] {
   const reserved = new Set([
@@ -166,6 +193,7 @@ export function getCustomCommandNames(config: CLIConfig): string[] {
     "rate-limits",
     "retry",
     "mcp",
+    "providers",
   ]);
-  return Object.keys(config).filter((key) => !reserved.has(key));
+  return Object.keys(config).filter((key) => !reserved.has(key) && !BUILTIN_COMMAND_NAMES.has(key));
 }
@@ -13,6 +13,10 @@ export const COMMANDS = {
   image: "image",
   speech: "speech",
   vision: "vision",
+  embed: "embed",
+  transcribe: "transcribe",
+  batch: "batch",
+  research: "research",
   init: "init",
   config: "config",
 } as const;
@@ -47,11 +51,32 @@ export const OPTION_FLAGS = {
   imageQuality: "--quality <quality>",
   imageCount: "-n, --count <number>",
   imageOutput: "-o, --output <path>",
+  imageInput: "--input <paths...>",
+  imageMask: "--mask <path>",
+  imageVariations: "--variations",
   // Speech generation options
   voice: "--voice <name>",
   speechFormat: "--format <format>",
   speechSpeed: "--speed <value>",
   speechOutput: "-o, --output <path>",
+  // Embedding options
+  embedDimensions: "--dimensions <count>",
+  embedLines: "--lines",
+  embedOutput: "-o, --output <path>",
+  // Transcription options
+  transcribeLanguage: "--language <code>",
+  transcribePrompt: "--prompt <text>",
+  transcribeTimestamps: "--timestamps <granularity>",
+  transcribeFormat: "--format <format>",
+  transcribeChunkMinutes: "--chunk-minutes <minutes>",
+  transcribeOutput: "-o, --output <path>",
+  // Batch options
+  batchWait: "--wait",
+  batchPollInterval: "--poll-interval <seconds>",
+  batchOutput: "-o, --output <path>",
+  // Research options
+  researchMaxToolCalls: "--max-tool-calls <count>",
+  researchOutput: "-o, --output <path>",
   // Rate limiting options
   rateLimitRpm: "--rate-limit-rpm <count>",
   rateLimitTpm: "--rate-limit-tpm <count>",
@@ -96,11 +121,37 @@ export const OPTION_DESCRIPTIONS = {
   imageQuality: "Image quality: 'standard', 'hd', 'low', 'medium', 'high'.",
   imageCount: "Number of images to generate (model dependent, usually 1-4).",
   imageOutput: "Output path for the generated image. Defaults to stdout if not specified.",
+  imageInput: "Image file(s) to edit instead of generating from scratch.",
+  imageMask: "PNG mask whose transparent areas mark the region to edit (requires --input).",
+  imageVariations: "Create variations of the --input image. The prompt is optional.",
   // Speech generation descriptions
   voice: "Voice name for speech generation, e.g. 'nova', 'alloy', 'Zephyr'.",
   speechFormat: "Audio format: 'mp3', 'opus', 'aac', 'flac', 'wav', 'pcm'.",
   speechSpeed: "Speech speed multiplier (0.25 to 4.0, default 1.0).",
   speechOutput: "Output path for audio file. Defaults to stdout if not specified.",
+  // Embedding descriptions
+  embedDimensions: "Output dimensions, for models that support shortened embeddings.",
+  embedLines: "Embed each non-empty line of the input separately.",
+  embedOutput: "Output path for the embeddings (JSON Lines). Defaults to stdout.",
+  // Transcription descriptions
+  transcribeLanguage: "Spoken language as an ISO-639-1 code, e.g. 'en'. Improves accuracy.",
+  transcribePrompt: "Context to guide the transcription (names, jargon, spelling).",
+  transcribeTimestamps: "Timestamp granularity: 'segment' or 'word' (model dependent).",
+  transcribeFormat:
+    "Output format: 'text', 'json', 'srt', 'vtt'. Subtitles imply --timestamps segment.",
+  transcribeChunkMinutes: "Split recordings longer than this many minutes with ffmpeg.",
+  transcribeOutput: "Output path for the transcript. Defaults to stdout.",
+  // Batch descriptions
+  batchSystemPrompt: "System prompt added to requests that don't include one.",
+  batchWait: "Wait for the batch to finish instead of failing while it is still running.",
+  batchPollInterval: "Seconds between status checks with --wait (default 30).",
+  batchOutput: "Output path for the results (JSON Lines). Defaults to stdout.",
+  // Research descriptions
+  researchModel: "Research model or agent, e.g. openai:gpt-5.5-pro.",
+  researchSystemPrompt: "Guidance for the research run (scope, tone, report format).",
+  researchMaxToolCalls: "Cap on tool calls (searches, page opens) to control cost.",
+  researchOutput: "Also write the finished report as markdown with footnoted citations.",
+  researchExportOutput: "Output path for the markdown report. Defaults to stdout.",
   // Rate limiting descriptions
   rateLimitRpm: "Maximum requests per minute (RPM). Overrides config and defaults.",
   rateLimitTpm: "Maximum tokens per minute (TPM). Overrides config and defaults.",
@@ -0,0 +1,157 @@
+import { Writable } from "node:stream";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type EmbedCommandOptions, executeEmbed } from "./embed-command.js";
+import type { CLIEnvironment } from "./environment.js";
+
+// Mock fs.writeFileSync
+vi.mock("node:fs", () => ({
+  writeFileSync: vi.fn(),
+}));
+
+import { writeFileSync } from "node:fs";
+
+/**
+ * Mock writable stream that captures output and has optional TTY flag.
+ */
+class MockWritableStream extends Writable {
+  public output = "";
+  isTTY: boolean;
+
+  constructor(isTTY = false) {
+    super();
+    this.isTTY = isTTY;
+  }
+
+  _write(chunk: Buffer | string, _encoding: string, callback: () => void): void {
+    this.output += chunk.toString();
+    callback();
+  }
+}
+
+/**
+ * Creates a mock LLMist client that returns one 2-dimensional embedding per input.
+ */
+function createMockClient(cost?: number) {
+  return {
+    embeddings: {
+      create: vi.fn(async (options: { model: string; input: string[] }) => ({
+        embeddings: options.input.map((_, i) => [i, 0.5]),
+        model: options.model,
+        dimensions: 2,
+        usage: { inputTokens: options.input.length * 4 },
+        cost,
+      })),
+    },
+  };
+}
+
+/**
+ * Creates a mock CLI environment.
+ */
+function createMockEnv(
+  mockClient: ReturnType<typeof createMockClient>,
+  options: { stderrTTY?: boolean } = {},
+): CLIEnvironment & { stdout: MockWritableStream; stderr: MockWritableStream } {
+  const stdout = new MockWritableStream();
+  const stderr = new MockWritableStream(options.stderrTTY ?? false);
+
+  return {
+    stdin: process.stdin,
+    stdout: stdout as unknown as NodeJS.WriteStream,
+    stderr: stderr as unknown as NodeJS.WriteStream,
+    isTTY: false,
+    createClient: () => mockClient,
+    setExitCode: vi.fn(),
+  } as unknown as CLIEnvironment & {
+    stdout: MockWritableStream;
+    stderr: MockWritableStream;
+  };
+}
+
+describe("embed-command", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("executeEmbed", () => {
+    it("embeds the whole text and writes one JSON line to stdout", async () => {
+      const mockClient = createMockClient();
+      const env = createMockEnv(mockClient);
+
+      const options: EmbedCommandOptions = { model: "text-embedding-3-small", quiet: true };
+
+      await executeEmbed("Hello world\nSecond line", options, env);
+
+      expect(mockClient.embeddings.create).toHaveBeenCalledWith({
+        model: "text-embedding-3-small",
+        input: ["Hello world\nSecond line"],
+        dimensions: undefined,
+      });
+      expect(env.stdout.output).toBe("[0,0.5]\n");
+    });
+
+    it("embeds each non-empty line separately with --lines", async () => {
+      const mockClient = createMockClient();
+      const env = createMockEnv(mockClient);
+
+      const options: EmbedCommandOptions = {
+        model: "gemini-embedding-001",
+        lines: true,
+        dimensions: 768,
+        quiet: true,
+      };
+
+      await executeEmbed("first\n\n  second  \nthird", options, env);
+
+      expect(mockClient.embeddings.create).toHaveBeenCalledWith({
+        model: "gemini-embedding-001",
+        input: ["first", "second", "third"],
+        dimensions: 768,
+      });
+      expect(env.stdout.output).toBe("[0,0.5]\n[1,0.5]\n[2,0.5]\n");
+    });
+
+    it("saves embeddings to a file when output option specified", async () => {
+      const mockClient = createMockClient();
+      const env = createMockEnv(mockClient);
+
+      const options: EmbedCommandOptions = {
+        model: "text-embedding-3-small",
+        output: "/tmp/embeddings.jsonl",
+      };
+
+      await executeEmbed("Save this", options, env);
+
+      expect(writeFileSync).toHaveBeenCalledWith("/tmp/embeddings.jsonl", "[0,0.5]\n");
+      expect(env.stdout.output).toBe("");
+      expect(env.stderr.output).toContain("Embeddings saved to /tmp/embeddings.jsonl");
+    });
+
+    it("shows a summary with tokens and cost on a TTY", async () => {
+      const mockClient = createMockClient(0.00002);
+      const env = createMockEnv(mockClient, { stderrTTY: true });
+
+      const options: EmbedCommandOptions = { model: "text-embedding-3-small", lines: true };
+
+      await executeEmbed("a\nb", options, env);
+
+      expect(env.stderr.output).toContain("Embedding 2 inputs with text-embedding-3-small");
+      expect(env.stderr.output).toContain("2 embeddings | 2 dimensions | 8 tokens | cost:");
+    });
+
+    it("suppresses progress and summary messages in quiet mode", async () => {
+      const mockClient = createMockClient(0.00002);
+      const env = createMockEnv(mockClient, { stderrTTY: true });
+
+      const options: EmbedCommandOptions = { model: "text-embedding-3-small", quiet: true };
+
+      await executeEmbed("Quiet text", options, env);
+
+      expect(env.stderr.output).toBe("");
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Embed command for text embeddings.
+ *
+ * Writes one embedding per input as JSON Lines, ready to load into a vector store.
+ *
+ * @example
+ * ```bash
+ * llmist embed "What is llmist?"
+ * cat docs.txt | llmist embed --lines --model gemini-embedding-001 -o docs.jsonl
+ * ```
+ */
+
+import { writeFileSync } from "node:fs";
+import type { Command } from "commander";
+import { COMMANDS, OPTION_DESCRIPTIONS, OPTION_FLAGS, SUMMARY_PREFIX } from "./constants.js";
+import type { CLIEnvironment } from "./environment.js";
+import { formatCost } from "./ui/formatters.js";
+import { createNumericParser, executeAction, resolvePrompt } from "./utils.js";
+
+/**
+ * Default embedding model.
+ */
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+/**
+ * Options for the embed command.
+ */
+export interface EmbedCommandOptions {
+  model: string;
+  dimensions?: number;
+  lines?: boolean;
+  output?: string;
+  quiet?: boolean;
+}
+
+/**
+ * Executes the embed command.
+ * Embeds the input text (or each of its lines) and writes the vectors as JSON Lines.
+ *
+ * @param textArg - Text from command line argument (optional if using stdin)
+ * @param options - Embed command options
+ * @param env - CLI environment for I/O operations
+ */
+export async function executeEmbed(
+  textArg: string | undefined,
+  options: EmbedCommandOptions,
+  env: CLIEnvironment,
+): Promise<void> {
+  const text = await resolvePrompt(textArg, env);
+  const inputs = options.lines
+    ? text
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+    : [text];
+  const client = env.createClient();
+
+  const stderrTTY = (env.stderr as NodeJS.WriteStream).isTTY === true;
+
+  if (!options.quiet && stderrTTY) {
+    const label = inputs.length === 1 ? "input" : "inputs";
+    env.stderr.write(
+      `${SUMMARY_PREFIX} Embedding ${inputs.length} ${label} with ${options.model}...\n`,
+    );
+  }
+
+  const result = await client.embeddings.create({
+    model: options.model,
+    input: inputs,
+    dimensions: options.dimensions,
+  });
+
+  const jsonLines = result.embeddings.map((embedding) => `${JSON.stringify(embedding)}\n`).join("");
+
+  if (options.output) {
+    writeFileSync(options.output, jsonLines);
+    if (!options.quiet) {
+      env.stderr.write(`${SUMMARY_PREFIX} Embeddings saved to ${options.output}\n`);
+    }
+  } else {
+    env.stdout.write(jsonLines);
+  }
+
+  // Show summary
+  if (!options.quiet && stderrTTY) {
+    const parts = [
+      `${result.embeddings.length} embeddings`,
+      `${result.dimensions} dimensions`,
+      `${result.usage.inputTokens} tokens`,
+    ];
+    if (result.cost !== undefined) {
+      parts.push(`cost: ${formatCost(result.cost)}`);
+    }
+    env.stderr.write(`${SUMMARY_PREFIX} ${parts.join(" | ")}\n`);
+  }
+}
+
+/**
+ * Registers the embed command with the CLI program.
+ *
+ * @param program - Commander program to register the command with
+ * @param env - CLI environment for dependencies and I/O
+ */
+export function registerEmbedCommand(program: Command, env: CLIEnvironment): void {
+  program
+    .command(COMMANDS.embed)
+    .description("Generate text embeddings as JSON Lines.")
+    .argument("[text]", "Text to embed. If omitted, stdin is used when available.")
+    .option(OPTION_FLAGS.model, OPTION_DESCRIPTIONS.model, DEFAULT_EMBEDDING_MODEL)
+    .option(
+      OPTION_FLAGS.embedDimensions,
+      OPTION_DESCRIPTIONS.embedDimensions,
+      createNumericParser({ label: "Dimensions", integer: true, min: 1 }),
+    )
+    .option(OPTION_FLAGS.embedLines, OPTION_DESCRIPTIONS.embedLines)
+    .option(OPTION_FLAGS.embedOutput, OPTION_DESCRIPTIONS.embedOutput)
+    .option(OPTION_FLAGS.quiet, OPTION_DESCRIPTIONS.quiet)
+    .action((text, options) =>
+      executeAction(() => executeEmbed(text, options as EmbedCommandOptions, env), env),
+    );
+}
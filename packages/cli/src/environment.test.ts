@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, test } from "vitest";
 import { createDefaultEnvironment, createLoggerFactory } from "./environment.js";
+import { providersTomlToConfigs } from "./providers-toml.js";
 
 describe("createLoggerFactory", () => {
   describe("log level mapping", () => {
@@ -236,6 +237,21 @@ describe("createDefaultEnvironment", () => {
       const env = createDefaultEnvironment();
       expect(env.loggerConfig).toBeUndefined();
     });
+
+    test("createClient works when a custom provider's api-key-env is unset", () => {
+      const customProviders = providersTomlToConfigs({
+        mygateway: {
+          "base-url": "https://llm.example.com/v1",
+          "api-key-env": "LLMIST_TEST_UNSET_GATEWAY_KEY",
+          models: [{ id: "llama-70b" }],
+        },
+      });
+      const env = createDefaultEnvironment(undefined, undefined, { customProviders });
+
+      const client = env.createClient();
+
+      expect(client.modelRegistry.getModelSpec("llama-70b")?.provider).toBe("mygateway");
+    });
   });
 
   describe("TTY detection", () => {
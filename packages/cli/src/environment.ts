@@ -1,7 +1,7 @@
 import { join } from "node:path";
 import readline from "node:readline";
 import chalk from "chalk";
-import type { ILogObj, Logger, LoggerOptions } from "llmist";
+import type { ILogObj, LLMistOptions, Logger, LoggerOptions } from "llmist";
 import { createLogger, LLMist } from "llmist";
 import type { Session } from "./session.js";
 
@@ -127,11 +127,13 @@ function createPromptFunction(
  *
  * @param loggerConfig - Optional logger configuration from CLI options
  * @param sessionLogDir - Optional session log directory for automatic log file
+ * @param clientOptions - Optional LLMist options (e.g., custom providers from config)
  * @returns Default CLI environment
  */
 export function createDefaultEnvironment(
   loggerConfig?: CLILoggerConfig,
   sessionLogDir?: string,
+  clientOptions?: LLMistOptions,
 ): CLIEnvironment {
   const isTTY = Boolean(process.stdin.isTTY);
 
@@ -140,7 +142,7 @@ export function createDefaultEnvironment(
     stdin: process.stdin,
     stdout: process.stdout,
     stderr: process.stderr,
-    createClient: () => new LLMist(),
+    createClient: () => new LLMist(clientOptions ?? {}),
     setExitCode: (code: number) => {
       process.exitCode = code;
     },
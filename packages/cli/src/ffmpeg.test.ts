@@ -1,8 +1,17 @@
 import { type ChildProcess, spawn as nodeSpawn } from "node:child_process";
 import { EventEmitter } from "node:events";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { Readable, Writable } from "node:stream";
 import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
-import { convertToMp3, isFFmpegAvailable, resetFFmpegCache } from "./ffmpeg.js";
+import {
+  convertToMp3,
+  getAudioDuration,
+  isFFmpegAvailable,
+  resetFFmpegCache,
+  splitAudio,
+} from "./ffmpeg.js";
 
 // Mock child_process
 vi.mock("node:child_process", () => ({
@@ -351,6 +360,120 @@ describe("ffmpeg utilities", () => {
     });
   });
 
+  describe("getAudioDuration", () => {
+    function createMockProcess() {
+      const stderr = new Readable({ read() {} });
+      const mockProcess = new EventEmitter() as ChildProcess & { stderr: Readable };
+      mockProcess.stderr = stderr;
+      return mockProcess;
+    }
+
+    test("parses the duration from ffmpeg's input info", async () => {
+      const mockProcess = createMockProcess();
+      vi.mocked(nodeSpawn).mockReturnValue(mockProcess as unknown as ChildProcess);
+
+      const promise = getAudioDuration("talk.m4a");
+
+      process.nextTick(() => {
+        mockProcess.stderr.emit(
+          "data",
+          Buffer.from("Input #0, mov,mp4,m4a, from 'talk.m4a':\n  Duration: 01:02:03.50, start: 0"),
+        );
+        mockProcess.emit("close", 1);
+      });
+
+      expect(await promise).toBeCloseTo(3723.5);
+      expect(nodeSpawn).toHaveBeenCalledWith("ffmpeg", ["-hide_banner", "-i", "talk.m4a"], {
+        stdio: ["ignore", "ignore", "pipe"],
+      });
+    });
+
+    test("returns null when no duration is reported", async () => {
+      const mockProcess = createMockProcess();
+      vi.mocked(nodeSpawn).mockReturnValue(mockProcess as unknown as ChildProcess);
+
+      const promise = getAudioDuration("missing.mp3");
+
+      process.nextTick(() => {
+        mockProcess.stderr.emit("data", Buffer.from("missing.mp3: No such file or directory"));
+        mockProcess.emit("close", 1);
+      });
+
+      expect(await promise).toBeNull();
+    });
+
+    test("returns null when spawn errors", async () => {
+      const mockProcess = createMockProcess();
+      vi.mocked(nodeSpawn).mockReturnValue(mockProcess as unknown as ChildProcess);
+
+      const promise = getAudioDuration("talk.mp3");
+      process.nextTick(() => mockProcess.emit("error", new Error("ENOENT")));
+
+      expect(await promise).toBeNull();
+    });
+  });
+
+  describe("splitAudio", () => {
+    let outputDir: string;
+
+    beforeEach(() => {
+      outputDir = mkdtempSync(join(tmpdir(), "llmist-ffmpeg-test-"));
+    });
+
+    afterEach(() => {
+      rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    test("returns chunk paths in order after ffmpeg succeeds", async () => {
+      const mockProcess = new EventEmitter() as ChildProcess;
+      vi.mocked(nodeSpawn).mockReturnValue(mockProcess);
+
+      const promise = splitAudio("talk.m4a", 600, outputDir);
+
+      process.nextTick(() => {
+        // Simulate ffmpeg writing segments
+        writeFileSync(join(outputDir, "chunk-001.mp3"), "b");
+        writeFileSync(join(outputDir, "chunk-000.mp3"), "a");
+        mockProcess.emit("close", 0);
+      });
+
+      expect(await promise).toEqual([
+        join(outputDir, "chunk-000.mp3"),
+        join(outputDir, "chunk-001.mp3"),
+      ]);
+      expect(nodeSpawn).toHaveBeenCalledWith(
+        "ffmpeg",
+        expect.arrayContaining(["-i", "talk.m4a", "-segment_time", "600"]),
+        { stdio: "ignore" },
+      );
+    });
+
+    test("returns null when ffmpeg fails", async () => {
+      const mockProcess = new EventEmitter() as ChildProcess;
+      vi.mocked(nodeSpawn).mockReturnValue(mockProcess);
+
+      const promise = splitAudio("talk.m4a", 600, outputDir);
+      process.nextTick(() => mockProcess.emit("close", 1));
+
+      expect(await promise).toBeNull();
+    });
+
+    test("returns null on timeout", async () => {
+      const mockProcess = new EventEmitter() as ChildProcess;
+      let killed = false;
+      mockProcess.kill = () => {
+        killed = true;
+        return true;
+      };
+      vi.mocked(nodeSpawn).mockReturnValue(mockProcess);
+
+      const result = await splitAudio("talk.m4a", 600, outputDir, 50);
+
+      expect(result).toBeNull();
+      expect(killed).toBe(true);
+    });
+  });
+
   describe("resetFFmpegCache", () => {
     test("allows re-checking ffmpeg availability", async () => {
       const mockProcess1 = new EventEmitter() as ChildProcess;
@@ -3,14 +3,23 @@
  *
  * Provides functions to check ffmpeg availability and convert audio to MP3.
  * Used by the TextToSpeech gadget to normalize output to MP3 format when
- * the LLM provider doesn't support MP3 natively.
+ * the LLM provider doesn't support MP3 natively, and by `llmist transcribe`
+ * to measure and split long recordings.
  */
 
 import { spawn } from "node:child_process";
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
 
 /** Timeout for audio conversion (30 seconds) */
 const CONVERSION_TIMEOUT_MS = 30_000;
 
+/** Timeout for reading audio metadata (10 seconds) */
+const PROBE_TIMEOUT_MS = 10_000;
+
+/** Timeout for splitting a recording into chunks (10 minutes) */
+const SPLIT_TIMEOUT_MS = 600_000;
+
 /**
  * Cached ffmpeg availability check Promise.
  * We cache the Promise (not the boolean result) to prevent race conditions
@@ -114,3 +123,121 @@ export async function convertToMp3(
     proc.stdin.end();
   });
 }
+
+/**
+ * Read the duration of an audio file using ffmpeg.
+ *
+ * Parses the `Duration: HH:MM:SS.xx` line ffmpeg prints for the input.
+ *
+ * @param inputPath - Path to the audio file
+ * @param timeout - Timeout in milliseconds (default: 10 seconds)
+ * @returns Duration in seconds, or null if it cannot be determined
+ */
+export async function getAudioDuration(
+  inputPath: string,
+  timeout: number = PROBE_TIMEOUT_MS,
+): Promise<number | null> {
+  return new Promise((resolve) => {
+    let timeoutId: NodeJS.Timeout | undefined;
+    let stderr = "";
+
+    // Without an output file ffmpeg exits non-zero, but still prints the input info
+    const proc = spawn("ffmpeg", ["-hide_banner", "-i", inputPath], {
+      stdio: ["ignore", "ignore", "pipe"],
+    });
+
+    proc.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+
+    proc.on("error", () => {
+      clearTimeout(timeoutId);
+      resolve(null);
+    });
+
+    proc.on("close", () => {
+      clearTimeout(timeoutId);
+      const match = /Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/.exec(stderr);
+      if (!match) {
+        resolve(null);
+        return;
+      }
+      resolve(Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]));
+    });
+
+    timeoutId = setTimeout(() => {
+      proc.kill();
+      resolve(null);
+    }, timeout);
+  });
+}
+
+/**
+ * Split an audio file into fixed-length MP3 chunks using ffmpeg.
+ *
+ * Chunks are re-encoded as 16kHz mono MP3, which keeps them well under
+ * transcription upload limits while preserving speech quality.
+ *
+ * @param inputPath - Path to the audio file
+ * @param segmentSeconds - Length of each chunk in seconds
+ * @param outputDir - Directory to write `chunk-NNN.mp3` files into
+ * @param timeout - Timeout in milliseconds (default: 10 minutes)
+ * @returns Chunk paths in playback order, or null if splitting fails or times out
+ */
+export async function splitAudio(
+  inputPath: string,
+  segmentSeconds: number,
+  outputDir: string,
+  timeout: number = SPLIT_TIMEOUT_MS,
+): Promise<string[] | null> {
+  const succeeded = await new Promise<boolean>((resolve) => {
+    let timeoutId: NodeJS.Timeout | undefined;
+
+    const proc = spawn(
+      "ffmpeg",
+      [
+        "-hide_banner",
+        "-i",
+        inputPath,
+        "-vn", // Drop video streams
+        "-ac",
+        "1",
+        "-ar",
+        "16000",
+        "-b:a",
+        "64k",
+        "-f",
+        "segment",
+        "-segment_time",
+        String(segmentSeconds),
+        "-reset_timestamps",
+        "1",
+        join(outputDir, "chunk-%03d.mp3"),
+      ],
+      { stdio: "ignore" },
+    );
+
+    proc.on("error", () => {
+      clearTimeout(timeoutId);
+      resolve(false);
+    });
+
+    proc.on("close", (code) => {
+      clearTimeout(timeoutId);
+      resolve(code === 0);
+    });
+
+    timeoutId = setTimeout(() => {
+      proc.kill();
+      resolve(false);
+    }, timeout);
+  });
+
+  if (!succeeded) return null;
+
+  const files = await readdir(outputDir);
+  return files
+    .filter((file) => /^chunk-\d+\.mp3$/.test(file))
+    .sort()
+    .map((file) => join(outputDir, file));
+}
@@ -1,3 +1,6 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { Writable } from "node:stream";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { CLIEnvironment } from "./environment.js";
@@ -10,6 +13,9 @@ vi.mock("node:fs", () => ({
 
 import { writeFileSync } from "node:fs";
 
+/** Minimal buffer recognized as PNG */
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
 /**
  * Mock writable stream that captures output and has optional TTY flag.
  */
@@ -43,6 +49,8 @@ function createMockClient(result: {
   return {
     image: {
       generate: vi.fn().mockResolvedValue(result),
+      edit: vi.fn().mockResolvedValue(result),
+      variations: vi.fn().mockResolvedValue(result),
     },
   };
 }
@@ -278,4 +286,117 @@ describe("image-command", () => {
       expect(env.stderr.output).toBe("");
     });
   });
+
+  describe("editing and variations", () => {
+    let workDir: string;
+    let photoPath: string;
+    let maskPath: string;
+    const urlResult = {
+      images: [{ url: "https://example.com/edited.png" }],
+      usage: { size: "1024x1024", quality: "low" },
+      cost: 0.02,
+    };
+
+    beforeEach(async () => {
+      workDir = await mkdtemp(join(tmpdir(), "llmist-image-test-"));
+      photoPath = join(workDir, "photo.png");
+      maskPath = join(workDir, "mask.png");
+      await writeFile(photoPath, PNG_BYTES);
+      await writeFile(maskPath, PNG_BYTES);
+    });
+
+    afterEach(async () => {
+      await rm(workDir, { recursive: true, force: true });
+    });
+
+    it("edits the input image with a mask", async () => {
+      const mockClient = createMockClient(urlResult);
+      const env = createMockEnv(mockClient);
+
+      await executeImage(
+        "Add a hat",
+        { model: "gpt-image-1", input: [photoPath], mask: maskPath, quality: "low" },
+        env,
+      );
+
+      expect(mockClient.image.generate).not.toHaveBeenCalled();
+      expect(mockClient.image.edit).toHaveBeenCalledWith({
+        model: "gpt-image-1",
+        image: PNG_BYTES,
+        mask: PNG_BYTES,
+        prompt: "Add a hat",
+        size: undefined,
+        quality: "low",
+        n: 1,
+        responseFormat: "url",
+      });
+      expect(env.stdout.output).toBe("https://example.com/edited.png\n");
+    });
+
+    it("passes several input images as an array", async () => {
+      const mockClient = createMockClient(urlResult);
+      const env = createMockEnv(mockClient);
+
+      await executeImage(
+        "Combine these",
+        { model: "gpt-image-1", input: [photoPath, maskPath] },
+        env,
+      );
+
+      expect(mockClient.image.edit).toHaveBeenCalledWith(
+        expect.objectContaining({ image: [PNG_BYTES, PNG_BYTES] }),
+      );
+    });
+
+    it("creates variations without requiring a prompt", async () => {
+      const mockClient = createMockClient(urlResult);
+      const env = createMockEnv(mockClient, { stderrTTY: true });
+
+      await executeImage(
+        undefined,
+        { model: "dall-e-2", input: [photoPath], variations: true, count: "2" },
+        env,
+      );
+
+      expect(mockClient.image.variations).toHaveBeenCalledWith({
+        model: "dall-e-2",
+        image: PNG_BYTES,
+        prompt: undefined,
+        size: undefined,
+        n: 2,
+        responseFormat: "url",
+      });
+      expect(env.stderr.output).toContain("Creating variations with dall-e-2");
+    });
+
+    it("rejects a mask without an input image", async () => {
+      const env = createMockEnv(createMockClient(urlResult));
+
+      await expect(
+        executeImage("Add a hat", { model: "gpt-image-1", mask: maskPath }, env),
+      ).rejects.toThrow("--mask requires an image to edit");
+    });
+
+    it("rejects variations of more than one image", async () => {
+      const env = createMockEnv(createMockClient(urlResult));
+
+      await expect(
+        executeImage(
+          undefined,
+          { model: "dall-e-2", input: [photoPath, maskPath], variations: true },
+          env,
+        ),
+      ).rejects.toThrow("--variations requires exactly one --input image");
+    });
+
+    it("rejects input files that are not images", async () => {
+      const textPath = join(workDir, "notes.txt");
+      await writeFile(textPath, "not an image");
+      const env = createMockEnv(createMockClient(urlResult));
+
+      await expect(
+        executeImage("Add a hat", { model: "gpt-image-1", input: [textPath] }, env),
+      ).rejects.toThrow(`File "${textPath}" is not a supported image format`);
+    });
+  });
 });
@@ -1,9 +1,11 @@
 import { writeFileSync } from "node:fs";
 import type { Command } from "commander";
+import { detectImageMimeType, type ImageGenerationResult } from "llmist";
 
 import type { ImageConfig } from "./config.js";
 import { COMMANDS, OPTION_DESCRIPTIONS, OPTION_FLAGS, SUMMARY_PREFIX } from "./constants.js";
 import type { CLIEnvironment } from "./environment.js";
+import { readFileBuffer } from "./file-utils.js";
 import { formatCost } from "./ui/formatters.js";
 import { executeAction, resolvePrompt } from "./utils.js";
 
@@ -21,12 +23,30 @@ export interface ImageCommandOptions {
   quality?: string;
   count?: string;
   output?: string;
+  input?: string[];
+  mask?: string;
+  variations?: boolean;
   quiet?: boolean;
 }
 
+/**
+ * Reads an input image for editing and checks that it is a supported format.
+ */
+async function readInputImage(path: string): Promise<Buffer> {
+  const buffer = await readFileBuffer(path);
+  if (!detectImageMimeType(buffer)) {
+    throw new Error(
+      `File "${path}" is not a supported image format. Supported formats: JPEG, PNG, GIF, WebP`,
+    );
+  }
+  return buffer;
+}
+
 /**
  * Executes the image command.
- * Generates images from a text prompt using the specified model.
+ * Generates images from a text prompt using the specified model. With
+ * `--input`, edits the given images instead (optionally within a `--mask`);
+ * with `--variations`, creates variations of a single input image.
  *
  * @param promptArg - Prompt from command line argument (optional if using stdin)
  * @param options - Image command options
@@ -37,26 +57,67 @@ export async function executeImage(
   options: ImageCommandOptions,
   env: CLIEnvironment,
 ): Promise<void> {
-  const prompt = await resolvePrompt(promptArg, env);
+  const inputs = options.input ?? [];
+  if (options.mask && inputs.length === 0) {
+    throw new Error("--mask requires an image to edit. Pass it with --input <path>.");
+  }
+  if (options.variations && inputs.length !== 1) {
+    throw new Error("--variations requires exactly one --input image.");
+  }
+
+  // Variations take an optional prompt, so don't wait on stdin for one
+  const prompt = options.variations ? promptArg : await resolvePrompt(promptArg, env);
   const client = env.createClient();
 
   const model = options.model;
   const n = options.count ? Number.parseInt(options.count, 10) : 1;
+  const responseFormat = options.output ? "b64_json" : "url";
 
   const stderrTTY = (env.stderr as NodeJS.WriteStream).isTTY === true;
 
-  if (!options.quiet && stderrTTY) {
-    env.stderr.write(`${SUMMARY_PREFIX} Generating image with ${model}...\n`);
-  }
+  let result: ImageGenerationResult;
+  if (inputs.length === 0) {
+    if (!options.quiet && stderrTTY) {
+      env.stderr.write(`${SUMMARY_PREFIX} Generating image with ${model}...\n`);
+    }
+
+    result = await client.image.generate({
+      model,
+      prompt: prompt as string,
+      size: options.size,
+      quality: options.quality,
+      n,
+      responseFormat,
+    });
+  } else {
+    const images = await Promise.all(inputs.map(readInputImage));
+    const mask = options.mask ? await readInputImage(options.mask) : undefined;
+
+    if (!options.quiet && stderrTTY) {
+      const action = options.variations ? "Creating variations" : "Editing image";
+      env.stderr.write(`${SUMMARY_PREFIX} ${action} with ${model}...\n`);
+    }
 
-  const result = await client.image.generate({
-    model,
-    prompt,
-    size: options.size,
-    quality: options.quality,
-    n,
-    responseFormat: options.output ? "b64_json" : "url",
-  });
+    result = options.variations
+      ? await client.image.variations({
+          model,
+          image: images[0] as Buffer,
+          prompt,
+          size: options.size,
+          n,
+          responseFormat,
+        })
+      : await client.image.edit({
+          model,
+          image: images.length === 1 ? (images[0] as Buffer) : images,
+          mask,
+          prompt: prompt as string,
+          size: options.size,
+          quality: options.quality,
+          n,
+          responseFormat,
+        });
+  }
 
   // Handle output
   if (options.output) {
@@ -112,13 +173,16 @@ export function registerImageCommand(
 ): void {
   program
     .command(COMMANDS.image)
-    .description("Generate images from a text prompt.")
+    .description("Generate images from a text prompt, or edit and vary existing images.")
     .argument("[prompt]", "Image generation prompt. If omitted, stdin is used when available.")
     .option(OPTION_FLAGS.model, OPTION_DESCRIPTIONS.model, config?.model ?? DEFAULT_IMAGE_MODEL)
     .option(OPTION_FLAGS.imageSize, OPTION_DESCRIPTIONS.imageSize, config?.size)
     .option(OPTION_FLAGS.imageQuality, OPTION_DESCRIPTIONS.imageQuality, config?.quality)
     .option(OPTION_FLAGS.imageCount, OPTION_DESCRIPTIONS.imageCount, config?.count?.toString())
     .option(OPTION_FLAGS.imageOutput, OPTION_DESCRIPTIONS.imageOutput, config?.output)
+    .option(OPTION_FLAGS.imageInput, OPTION_DESCRIPTIONS.imageInput)
+    .option(OPTION_FLAGS.imageMask, OPTION_DESCRIPTIONS.imageMask)
+    .option(OPTION_FLAGS.imageVariations, OPTION_DESCRIPTIONS.imageVariations)
     .option(OPTION_FLAGS.quiet, OPTION_DESCRIPTIONS.quiet, config?.quiet ?? false)
     .action((prompt, options) =>
       executeAction(() => executeImage(prompt, options as ImageCommandOptions, env), env),
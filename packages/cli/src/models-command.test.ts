@@ -100,6 +100,7 @@ function createTestClient(models: ModelSpec[]): LLMist {
 
   return {
     modelRegistry: registry,
+    waitForModelDiscovery: async () => {},
     // Mock image and speech namespaces for multimodal support
     image: {
       listModels: () => [],
@@ -509,6 +510,7 @@ describe("models command", () => {
 
       return {
         modelRegistry: registry,
+        waitForModelDiscovery: async () => {},
         image: {
           listModels: () => testImageModels,
         },
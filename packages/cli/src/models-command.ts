@@ -23,6 +23,9 @@ async function handleModelsCommand(
 ): Promise<void> {
   const client = env.createClient();
 
+  // Local providers (Ollama, llama.cpp) list their models from the server at startup
+  await client.waitForModelDiscovery();
+
   // Determine which model types to show
   // Default: text models if no specific flag is set
   const showText = options.all || options.text || (!options.image && !options.speech);
@@ -335,6 +335,19 @@ describe("configToAgentOptions", () => {
       expect(result.initialGadgets).toEqual(initialGadgets);
     });
 
+    it("maps model-routes (kebab) → modelRoutes (camel)", () => {
+      const modelRoutes = [{ model: "opus", "min-gadget-failures": 2 }];
+      const config: CustomCommandConfig = { "model-routes": modelRoutes };
+      const result = configToAgentOptions(config);
+      expect(result.modelRoutes).toEqual(modelRoutes);
+    });
+
+    it("passes the memory config through", () => {
+      const memory = { project: "webapp", "max-tokens": 500 };
+      const result = configToAgentOptions({ memory });
+      expect(result.memory).toEqual(memory);
+    });
+
     it("maps show-hints (kebab) → showHints (camel)", () => {
       const config: CustomCommandConfig = { "show-hints": false };
       const result = configToAgentOptions(config);
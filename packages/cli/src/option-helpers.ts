@@ -109,6 +109,10 @@ export interface CLIAgentOptions {
   profileRateLimits?: import("./config.js").RateLimitsConfig;
   profileRetry?: import("./config.js").RetryConfigCLI;
   profileReasoning?: import("./config.js").ReasoningConfigCLI;
+  /** Model routing rules from the profile (config-only, no CLI flag) */
+  modelRoutes?: import("./config.js").ModelRouteConfig[];
+  /** Long-term memory from the profile (config-only, no CLI flag) */
+  memory?: import("./config.js").MemoryConfigCLI;
   // TUI options
   /** Show keyboard shortcuts hints bar (default: true) */
   showHints?: boolean;
@@ -387,6 +391,8 @@ export function configToAgentOptions(config: CustomCommandConfig): Partial<CLIAg
   if (config["log-llm-requests"] !== undefined) result.logLlmRequests = config["log-llm-requests"];
   if (config.subagents !== undefined) result.subagents = config.subagents;
   if (config["initial-gadgets"] !== undefined) result.initialGadgets = config["initial-gadgets"];
+  if (config["model-routes"] !== undefined) result.modelRoutes = config["model-routes"];
+  if (config.memory !== undefined) result.memory = config.memory;
   // Rate limiting config
   if (config["rate-limits"]) {
     const rl = config["rate-limits"];
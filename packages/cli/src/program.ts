@@ -3,6 +3,7 @@ import { Command, InvalidArgumentError } from "commander";
 import packageJson from "../package.json";
 
 import { registerAgentCommand } from "./agent-command.js";
+import { registerBatchCommand } from "./batch-command.js";
 import { registerCompleteCommand } from "./complete-command.js";
 import {
   type CLIConfig,
@@ -20,6 +21,7 @@ import {
   OPTION_FLAGS,
 } from "./constants.js";
 import { registerCustomCommand } from "./custom-command.js";
+import { registerEmbedCommand } from "./embed-command.js";
 import type { CLIEnvironment, CLILoggerConfig } from "./environment.js";
 import { createDefaultEnvironment } from "./environment.js";
 import { registerGadgetCommand } from "./gadget-command.js";
@@ -27,9 +29,12 @@ import { registerImageCommand } from "./image-command.js";
 import { registerInitCommand } from "./init-command.js";
 import { registerMcpCommand } from "./mcp-command.js";
 import { registerModelsCommand } from "./models-command.js";
+import { providersTomlToConfigs } from "./providers-toml.js";
+import { registerResearchCommand } from "./research-command.js";
 import { initSession } from "./session.js";
 import { registerSkillCommand } from "./skills/skill-command.js";
 import { registerSpeechCommand } from "./speech-command.js";
+import { registerTranscribeCommand } from "./transcribe-command.js";
 import { registerVisionCommand } from "./vision-command.js";
 
 /**
@@ -83,6 +88,10 @@ export function createProgram(env: CLIEnvironment, config?: CLIConfig): Command
   registerImageCommand(program, env, config?.image);
   registerSpeechCommand(program, env, config?.speech);
   registerVisionCommand(program, env);
+  registerEmbedCommand(program, env);
+  registerTranscribeCommand(program, env);
+  registerBatchCommand(program, env);
+  registerResearchCommand(program, env);
   registerModelsCommand(program, env);
   registerGadgetCommand(program, env);
   registerSkillCommand(program, env);
@@ -160,7 +169,9 @@ export async function runCLI(
     logLevel: globalOpts.logLevel ?? config.global?.["log-level"],
   };
 
-  const defaultEnv = createDefaultEnvironment(loggerConfig, session.logDir);
+  const defaultEnv = createDefaultEnvironment(loggerConfig, session.logDir, {
+    customProviders: providersTomlToConfigs(config.providers),
+  });
   const env: CLIEnvironment = {
     ...defaultEnv,
     ...envOverrides,
@@ -45,6 +45,12 @@ class MockModelRegistry implements Partial<ModelRegistry> {
     };
   }
 
+  getModelSpec(model: string): { pricing: { input: number; cachedInput: number } } | undefined {
+    const costs = this.costs[model];
+    if (!costs) return undefined;
+    return { pricing: { input: costs.inputCost, cachedInput: costs.inputCost / 10 } };
+  }
+
   getModelLimits(model: string): { contextWindow: number } | undefined {
     const contextWindow = this.contextWindows[model];
     if (!contextWindow) return undefined;
@@ -197,6 +203,26 @@ describe("CallStatsTracker", () => {
       expect(tracker.totalCost).toBeCloseTo(0.06, 5);
     });
 
+    test("accumulates prompt cache stats across calls", () => {
+      const registry = new MockModelRegistry();
+      registry.setCost("gpt-4", 10, 30);
+
+      const tracker = new CallStatsTracker(registry as unknown as ModelRegistry);
+      tracker.startCall("openai:gpt-4", 1000);
+      tracker.endCall({
+        inputTokens: 1_000_000,
+        outputTokens: 10,
+        totalTokens: 1_000_010,
+        cachedInputTokens: 500_000,
+      });
+      tracker.startCall("openai:gpt-4", 1000);
+      tracker.endCall({ inputTokens: 1_000_000, outputTokens: 10, totalTokens: 1_000_010 });
+
+      expect(tracker.totalCacheStats.hitRatio).toBeCloseTo(0.25);
+      // 500k cached tokens at $9/1M below the input price
+      expect(tracker.totalCacheStats.savingsUSD).toBeCloseTo(4.5);
+    });
+
     test("accumulates costs across multiple calls", () => {
       const registry = new MockModelRegistry();
       registry.setCost("gpt-4", 30, 60);
@@ -1,4 +1,5 @@
-import type { ModelRegistry, TokenUsage } from "llmist";
+import type { CacheStats, ModelRegistry, TokenUsage } from "llmist";
+import { computeCacheStats, mergeCacheStats } from "llmist";
 import { stripProviderPrefix } from "../ui/formatters.js";
 
 export type ProgressMode = "streaming" | "cumulative";
@@ -9,7 +10,7 @@ export type ProgressMode = "streaming" | "cumulative";
  *
  * Manages:
  * - Per-call state: mode, model, call start time, token counts, cache tracking
- * - Cumulative state: total tokens, total cost, iteration count
+ * - Cumulative state: total tokens, total cost, prompt cache stats, iteration count
  * - Methods for updating stats during and after each call
  */
 export class CallStatsTracker {
@@ -32,6 +33,7 @@ export class CallStatsTracker {
   totalStartTime = Date.now();
   totalTokens = 0;
   totalCost = 0;
+  totalCacheStats: CacheStats = mergeCacheStats([]);
   iterations = 0;
   currentIteration = 0;
 
@@ -69,13 +71,17 @@ export class CallStatsTracker {
     this.iterations++;
     if (usage) {
       this.totalTokens += usage.totalTokens;
+      // Strip provider prefix if present (e.g., "openai:gpt-5-nano" -> "gpt-5-nano")
+      const modelName = stripProviderPrefix(this.model);
+
+      this.totalCacheStats = mergeCacheStats([
+        this.totalCacheStats,
+        computeCacheStats(usage, this.modelRegistry?.getModelSpec?.(modelName)?.pricing),
+      ]);
 
       // Calculate and accumulate cost if model registry is available
       if (this.modelRegistry && this.model) {
         try {
-          // Strip provider prefix if present (e.g., "openai:gpt-5-nano" -> "gpt-5-nano")
-          const modelName = stripProviderPrefix(this.model);
-
           const cost = this.modelRegistry.estimateCost(
             modelName,
             usage.inputTokens,
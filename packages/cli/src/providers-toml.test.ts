@@ -0,0 +1,116 @@
+/**
+ * Tests for translating TOML `[providers.<name>]` blocks into CustomProviderConfig.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { ConfigError, getCustomCommandNames, validateConfig } from "./config.js";
+import { providersTomlToConfigs, validateProvidersConfig } from "./providers-toml.js";
+
+describe("validateProvidersConfig", () => {
+  it("accepts a provider with models", () => {
+    const config = validateProvidersConfig({
+      mygateway: {
+        "base-url": "https://gw.example.com/v1",
+        "api-key-env": "MYGATEWAY_API_KEY",
+        headers: { "X-Team": "search" },
+        "timeout-ms": 60000,
+        models: [
+          {
+            id: "llama-70b",
+            "context-window": 131072,
+            pricing: { input: 0.6, output: 0.8, "cached-input": 0.3 },
+            vision: false,
+          },
+        ],
+      },
+    });
+
+    expect(config.mygateway?.["base-url"]).toBe("https://gw.example.com/v1");
+    expect(config.mygateway?.models?.[0]?.pricing?.["cached-input"]).toBe(0.3);
+  });
+
+  it("rejects a provider missing base-url", () => {
+    expect(() => validateProvidersConfig({ gw: {} })).toThrow(ConfigError);
+    expect(() => validateProvidersConfig({ gw: {} })).toThrow(
+      "[providers.gw].base-url must be a string",
+    );
+  });
+
+  it("rejects provider names containing a colon", () => {
+    expect(() => validateProvidersConfig({ "a:b": { "base-url": "http://x/v1" } })).toThrow(
+      'must not contain ":"',
+    );
+  });
+
+  it("rejects unknown keys, bad models and bad pricing", () => {
+    expect(() =>
+      validateProvidersConfig({ gw: { "base-url": "http://x/v1", "api-key": "secret" } }),
+    ).toThrow("[providers.gw].api-key is not a valid option");
+    expect(() =>
+      validateProvidersConfig({ gw: { "base-url": "http://x/v1", models: { id: "m" } } }),
+    ).toThrow("[providers.gw].models must be an array of tables");
+    expect(() =>
+      validateProvidersConfig({ gw: { "base-url": "http://x/v1", models: [{ name: "m" }] } }),
+    ).toThrow("[providers.gw.models.0].name is not a valid option");
+    expect(() =>
+      validateProvidersConfig({
+        gw: { "base-url": "http://x/v1", models: [{ id: "m", pricing: { input: 1 } }] },
+      }),
+    ).toThrow("[providers.gw.models.0.pricing].output must be a number");
+  });
+});
+
+describe("providersTomlToConfigs", () => {
+  it("returns an empty list when no providers are configured", () => {
+    expect(providersTomlToConfigs(undefined)).toEqual([]);
+  });
+
+  it("maps kebab-case keys to CustomProviderConfig", () => {
+    const configs = providersTomlToConfigs({
+      mygateway: {
+        "base-url": "https://gw.example.com/v1",
+        "api-key-env": "MYGATEWAY_API_KEY",
+        "timeout-ms": 60000,
+        models: [
+          {
+            id: "llama-70b",
+            "display-name": "Llama 70B",
+            "max-output-tokens": 8192,
+            pricing: { input: 0.6, output: 0.8, "cached-input": 0.3 },
+            "function-calling": true,
+          },
+        ],
+      },
+    });
+
+    expect(configs).toEqual([
+      {
+        providerId: "mygateway",
+        baseURL: "https://gw.example.com/v1",
+        apiKeyEnv: "MYGATEWAY_API_KEY",
+        timeoutMs: 60000,
+        models: [
+          {
+            modelId: "llama-70b",
+            displayName: "Llama 70B",
+            maxOutputTokens: 8192,
+            pricing: { input: 0.6, output: 0.8, cachedInput: 0.3 },
+            features: { functionCalling: true },
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("validateConfig with [providers]", () => {
+  it("treats providers as a reserved section, not a custom command", () => {
+    const config = validateConfig({
+      providers: { gw: { "base-url": "http://localhost:8000/v1" } },
+    });
+
+    expect(config.providers?.gw?.["base-url"]).toBe("http://localhost:8000/v1");
+    expect(getCustomCommandNames(config)).toEqual([]);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Translate `[providers.<name>]` TOML blocks into runtime
+ * `CustomProviderConfig` values for OpenAI-compatible endpoints.
+ *
+ * @example
+ * ```toml
+ * [providers.mygateway]
+ * base-url = "https://llm.internal.example.com/v1"
+ * api-key-env = "MYGATEWAY_API_KEY"
+ *
+ * [[providers.mygateway.models]]
+ * id = "llama-70b"
+ * context-window = 131072
+ * pricing = { input = 0.6, output = 0.8 }
+ * ```
+ *
+ * @module cli/providers-toml
+ */
+
+import type { CustomProviderConfig, CustomProviderModel } from "llmist";
+import type { ProviderModelToml, ProvidersConfig, ProviderToml } from "./config-types.js";
+import {
+  ConfigError,
+  validateBoolean,
+  validateNumber,
+  validateString,
+  validateTable,
+} from "./config-validators.js";
+
+const PROVIDER_KEYS = new Set(["base-url", "api-key-env", "headers", "timeout-ms", "models"]);
+
+const MODEL_KEYS = new Set([
+  "id",
+  "display-name",
+  "context-window",
+  "max-output-tokens",
+  "pricing",
+  "vision",
+  "function-calling",
+  "reasoning",
+]);
+
+const PRICING_KEYS = new Set(["input", "output", "cached-input"]);
+
+/**
+ * Validate and normalize a `[providers]` config block.
+ */
+export function validateProvidersConfig(raw: unknown, section = "providers"): ProvidersConfig {
+  const rawObj = validateTable(raw, section);
+  const result: ProvidersConfig = {};
+
+  for (const [name, providerRaw] of Object.entries(rawObj)) {
+    if (name.includes(":")) {
+      throw new ConfigError(`[${section}.${name}] provider name must not contain ":"`);
+    }
+    result[name] = validateProviderBlock(providerRaw, `${section}.${name}`);
+  }
+
+  return result;
+}
+
+/**
+ * Convert validated `[providers.*]` blocks into runtime `CustomProviderConfig`s.
+ *
+ * - The block name becomes the provider id (`mygateway` → `mygateway:<model>`).
+ * - Maps kebab-case keys to their camelCase counterparts.
+ */
+export function providersTomlToConfigs(
+  config: ProvidersConfig | undefined,
+): CustomProviderConfig[] {
+  if (!config) return [];
+
+  return Object.entries(config).map(([name, block]) => {
+    const timeoutMs = block["timeout-ms"];
+    return {
+      providerId: name,
+      baseURL: block["base-url"],
+      ...(block["api-key-env"] ? { apiKeyEnv: block["api-key-env"] } : {}),
+      ...(block.headers ? { headers: block.headers } : {}),
+      ...(typeof timeoutMs === "number" ? { timeoutMs } : {}),
+      ...(block.models ? { models: block.models.map(modelTomlToModel) } : {}),
+    };
+  });
+}
+
+function modelTomlToModel(model: ProviderModelToml): CustomProviderModel {
+  const features: CustomProviderModel["features"] = {
+    ...(model.vision !== undefined ? { vision: model.vision } : {}),
+    ...(model["function-calling"] !== undefined
+      ? { functionCalling: model["function-calling"] }
+      : {}),
+    ...(model.reasoning !== undefined ? { reasoning: model.reasoning } : {}),
+  };
+  const cachedInput = model.pricing?.["cached-input"];
+
+  return {
+    modelId: model.id,
+    ...(model["display-name"] ? { displayName: model["display-name"] } : {}),
+    ...(model["context-window"] ? { contextWindow: model["context-window"] } : {}),
+    ...(model["max-output-tokens"] ? { maxOutputTokens: model["max-output-tokens"] } : {}),
+    ...(model.pricing
+      ? {
+          pricing: {
+            input: model.pricing.input,
+            output: model.pricing.output,
+            ...(cachedInput !== undefined ? { cachedInput } : {}),
+          },
+        }
+      : {}),
+    ...(Object.keys(features).length > 0 ? { features } : {}),
+  };
+}
+
+function validateProviderBlock(raw: unknown, section: string): ProviderToml {
+  const rawObj = validateTable(raw, section, PROVIDER_KEYS);
+
+  const baseUrl = validateString(rawObj["base-url"], "base-url", section);
+  if (baseUrl.length === 0) {
+    throw new ConfigError(`[${section}].base-url must be a non-empty string`);
+  }
+
+  return {
+    "base-url": baseUrl,
+    ...("api-key-env" in rawObj
+      ? { "api-key-env": validateString(rawObj["api-key-env"], "api-key-env", section) }
+      : {}),
+    ...("headers" in rawObj
+      ? { headers: validateStringMap(rawObj.headers, "headers", section) }
+      : {}),
+    ...("timeout-ms" in rawObj
+      ? {
+          "timeout-ms": validateNumber(rawObj["timeout-ms"], "timeout-ms", section, {
+            integer: true,
+            min: 0,
+          }),
+        }
+      : {}),
+    ...("models" in rawObj ? { models: validateModels(rawObj.models, section) } : {}),
+  };
+}
+
+function validateModels(value: unknown, section: string): ProviderModelToml[] {
+  if (!Array.isArray(value)) {
+    throw new ConfigError(`[${section}].models must be an array of tables`);
+  }
+  return value.map((entry, index) => validateModelEntry(entry, `${section}.models.${index}`));
+}
+
+function validateModelEntry(raw: unknown, section: string): ProviderModelToml {
+  const rawObj = validateTable(raw, section, MODEL_KEYS);
+
+  const id = validateString(rawObj.id, "id", section);
+  if (id.length === 0) {
+    throw new ConfigError(`[${section}].id must be a non-empty string`);
+  }
+
+  const result: ProviderModelToml = { id };
+  if ("display-name" in rawObj) {
+    result["display-name"] = validateString(rawObj["display-name"], "display-name", section);
+  }
+  for (const key of ["context-window", "max-output-tokens"] as const) {
+    if (key in rawObj) {
+      result[key] = validateNumber(rawObj[key], key, section, { integer: true, min: 1 });
+    }
+  }
+  if ("pricing" in rawObj) {
+    result.pricing = validatePricing(rawObj.pricing, `${section}.pricing`);
+  }
+  for (const key of ["vision", "function-calling", "reasoning"] as const) {
+    if (key in rawObj) {
+      result[key] = validateBoolean(rawObj[key], key, section);
+    }
+  }
+  return result;
+}
+
+function validatePricing(raw: unknown, section: string): NonNullable<ProviderModelToml["pricing"]> {
+  const rawObj = validateTable(raw, section, PRICING_KEYS);
+  return {
+    input: validateNumber(rawObj.input, "input", section, { min: 0 }),
+    output: validateNumber(rawObj.output, "output", section, { min: 0 }),
+    ...("cached-input" in rawObj
+      ? {
+          "cached-input": validateNumber(rawObj["cached-input"], "cached-input", section, {
+            min: 0,
+          }),
+        }
+      : {}),
+  };
+}
+
+function validateStringMap(value: unknown, key: string, section: string): Record<string, string> {
+  const raw = validateTable(value, `${section}.${key}`);
+  const result: Record<string, string> = {};
+  for (const [entryKey, entryValue] of Object.entries(raw)) {
+    if (typeof entryValue !== "string") {
+      throw new ConfigError(`[${section}].${key}.${entryKey} must be a string`);
+    }
+    result[entryKey] = entryValue;
+  }
+  return result;
+}
@@ -0,0 +1,249 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Writable } from "node:stream";
+import { createMockClient, getMockManager, mockLLM } from "@llmist/testing";
+import { type ResearchEvent, ResearchJobRegistry } from "llmist";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CLIEnvironment } from "./environment.js";
+import {
+  executeResearchAttach,
+  executeResearchCancel,
+  executeResearchExport,
+  executeResearchList,
+  executeResearchStart,
+  renderResearchMarkdown,
+} from "./research-command.js";
+
+const EVENTS: ResearchEvent[] = [
+  { type: "created", jobId: "job-1" },
+  { type: "status", status: "in_progress" },
+  { type: "search", action: "search", status: "started", query: "solid-state batteries" },
+  { type: "text", delta: "Prototypes exist." },
+  {
+    type: "citation",
+    citation: { url: "https://a.example", title: "Lab A", startIndex: 0, endIndex: 17 },
+  },
+  { type: "text", delta: " Mass production lags." },
+  { type: "citation", citation: { url: "https://b.example" } },
+  {
+    type: "done",
+    result: {
+      status: "completed",
+      report: "",
+      usage: { inputTokens: 10, outputTokens: 20, totalTokens: 30, searches: 3 },
+    },
+  },
+];
+
+/**
+ * Mock writable stream that captures output and has optional TTY flag.
+ */
+class MockWritableStream extends Writable {
+  public output = "";
+  isTTY: boolean;
+
+  constructor(isTTY = false) {
+    super();
+    this.isTTY = isTTY;
+  }
+
+  _write(chunk: Buffer | string, _encoding: string, callback: () => void): void {
+    this.output += chunk.toString();
+    callback();
+  }
+}
+
+/**
+ * Creates a mock CLI environment backed by the @llmist/testing mock client.
+ */
+function createMockEnv(
+  options: { stderrTTY?: boolean } = {},
+): CLIEnvironment & { stdout: MockWritableStream; stderr: MockWritableStream } {
+  const stdout = new MockWritableStream();
+  const stderr = new MockWritableStream(options.stderrTTY ?? false);
+
+  return {
+    stdin: process.stdin,
+    stdout: stdout as unknown as NodeJS.WriteStream,
+    stderr: stderr as unknown as NodeJS.WriteStream,
+    isTTY: false,
+    createClient: () => createMockClient(),
+    setExitCode: vi.fn(),
+  } as unknown as CLIEnvironment & {
+    stdout: MockWritableStream;
+    stderr: MockWritableStream;
+  };
+}
+
+describe("research-command", () => {
+  let dir: string;
+  let registry: ResearchJobRegistry;
+
+  beforeEach(async () => {
+    getMockManager().clear();
+    mockLLM().whenMessageContains("batteries").withResearchEvents(EVENTS).register();
+    dir = await mkdtemp(join(tmpdir(), "llmist-research-cli-"));
+    registry = new ResearchJobRegistry({ dir: join(dir, "registry") });
+  });
+
+  afterEach(async () => {
+    getMockManager().clear();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("renderResearchMarkdown", () => {
+    it("anchors citations with offsets and lists the rest as sources", () => {
+      const markdown = renderResearchMarkdown(
+        "Battery outlook\nextra detail",
+        "Fact one. Fact two.",
+        [
+          { url: "https://a.example", title: "A", endIndex: 9 },
+          { url: "https://b.example" },
+          { url: "https://a.example", endIndex: 19 },
+        ],
+      );
+
+      expect(markdown).toBe(
+        [
+          "# Battery outlook",
+          "",
+          "Fact one.[^1] Fact two.[^1]",
+          "",
+          "Sources: [^2]",
+          "",
+          "[^1]: [A](https://a.example)",
+          "[^2]: <https://b.example>",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("ignores offsets beyond the report", () => {
+      const markdown = renderResearchMarkdown("Q", "Short.", [
+        { url: "https://a.example", endIndex: 500 },
+      ]);
+      expect(markdown).toContain("Short.\n\nSources: [^1]");
+    });
+  });
+
+  describe("executeResearchStart", () => {
+    it("streams the report, records the run and writes the markdown export", async () => {
+      const env = createMockEnv({ stderrTTY: true });
+      const output = join(dir, "report.md");
+
+      await executeResearchStart(
+        "solid-state batteries",
+        { model: "mock:deep-research", output },
+        env,
+        registry,
+      );
+
+      expect(env.stdout.output).toBe(
+        "Prototypes exist. Mass production lags.\n\nSources:\n1. https://a.example\n2. https://b.example\n",
+      );
+      expect(env.stderr.output).toContain("resume with: llmist research attach");
+      expect(env.stderr.output).toContain("Searching: solid-state batteries");
+      expect(env.stderr.output).toContain("completed | 3 searches");
+
+      const [entry] = await registry.list();
+      expect(entry).toMatchObject({
+        model: "mock:deep-research",
+        query: "solid-state batteries",
+        status: "completed",
+        ref: { jobId: "job-1" },
+      });
+      expect(await readFile(output, "utf-8")).toContain("Prototypes exist.[^1]");
+    });
+  });
+
+  describe("executeResearchAttach", () => {
+    it("replays saved text and resumes after the saved cursor", async () => {
+      const entry = await registry.create({ model: "mock:deep-research", query: "batteries" });
+      const job = createMockClient().research.start({
+        model: "mock:deep-research",
+        query: "batteries",
+      });
+      // Terminal closes after the first citation.
+      for await (const event of registry.track(entry, job)) {
+        if (event.type === "citation") break;
+      }
+      const env = createMockEnv();
+
+      await executeResearchAttach(entry.id, {}, env, registry);
+
+      expect(env.stdout.output).toMatch(/^Prototypes exist\. Mass production lags\.\n/);
+      const saved = await registry.get(entry.id);
+      expect(saved?.status).toBe("completed");
+      expect(saved?.result?.report).toBe("Prototypes exist. Mass production lags.");
+    });
+
+    it("prints the stored report for finished runs", async () => {
+      await executeResearchStart(
+        "batteries",
+        { model: "mock:deep-research" },
+        createMockEnv(),
+        registry,
+      );
+      const [entry] = await registry.list();
+      const env = createMockEnv();
+
+      await executeResearchAttach(entry.id, {}, env, registry);
+
+      expect(env.stdout.output).toContain("# batteries\n\nPrototypes exist.[^1]");
+    });
+
+    it("rejects unknown ids", async () => {
+      await expect(
+        executeResearchAttach("deadbeef", {}, createMockEnv(), registry),
+      ).rejects.toThrow('Unknown research job "deadbeef"');
+    });
+  });
+
+  describe("executeResearchList", () => {
+    it("prints one line per run", async () => {
+      await executeResearchStart(
+        "batteries",
+        { model: "mock:deep-research" },
+        createMockEnv(),
+        registry,
+      );
+      const env = createMockEnv();
+
+      await executeResearchList({}, env, registry);
+
+      expect(env.stdout.output).toMatch(
+        /^[0-9a-f]{8} {2}completed\s+.* {2}mock:deep-research {2}batteries\n$/,
+      );
+    });
+
+    it("reports an empty registry", async () => {
+      const env = createMockEnv();
+      await executeResearchList({}, env, registry);
+      expect(env.stdout.output).toContain("No research jobs recorded");
+    });
+  });
+
+  describe("executeResearchCancel", () => {
+    it("cancels an unfinished run and records it", async () => {
+      const entry = await registry.create({ model: "mock:deep-research", query: "batteries" });
+      entry.ref = { provider: "mock", model: "deep-research", jobId: "job-1" };
+      await registry.save(entry);
+      const env = createMockEnv();
+
+      await executeResearchCancel(entry.id, env, registry);
+
+      expect((await registry.get(entry.id))?.status).toBe("cancelled");
+      expect(env.stderr.output).toContain(`Cancelled research ${entry.id}`);
+    });
+  });
+
+  describe("executeResearchExport", () => {
+    it("refuses unfinished runs", async () => {
+      const entry = await registry.create({ model: "mock:deep-research", query: "batteries" });
+      await expect(executeResearchExport(entry.id, {}, createMockEnv(), registry)).rejects.toThrow(
+        `Run "llmist research attach ${entry.id}"`,
+      );
+    });
+  });
+});
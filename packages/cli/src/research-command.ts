@@ -0,0 +1,439 @@
+/**
+ * Research command for long-running deep research jobs.
+ *
+ * Every run is recorded in the local research registry (`~/.llmist/research/`)
+ * under a short id, together with its job ref, stream cursor and — once it
+ * finishes — the final report. A run interrupted by a closed terminal or a
+ * dropped connection keeps going server-side and can be picked up again with
+ * `attach`, which resumes the stream from the last saved cursor.
+ *
+ * @example
+ * ```bash
+ * llmist research start "State of solid-state batteries in 2026"
+ * llmist research list
+ * llmist research attach 3f9a1c2e
+ * llmist research export 3f9a1c2e -o batteries.md
+ * ```
+ */
+
+import { writeFileSync } from "node:fs";
+import type { Command } from "commander";
+import {
+  RESEARCH_DEFAULT_MODEL,
+  type ResearchCitation,
+  type ResearchJob,
+  ResearchJobRegistry,
+  type ResearchRegistryEntry,
+} from "llmist";
+import { COMMANDS, OPTION_DESCRIPTIONS, OPTION_FLAGS, SUMMARY_PREFIX } from "./constants.js";
+import type { CLIEnvironment } from "./environment.js";
+import { formatCost, truncateValue } from "./ui/formatters.js";
+import { createNumericParser, executeAction, resolvePrompt, StreamPrinter } from "./utils.js";
+
+/** Query column width in `research list`. */
+const LIST_QUERY_WIDTH = 60;
+
+/**
+ * Options for `research start`.
+ */
+export interface ResearchStartCommandOptions {
+  model: string;
+  system?: string;
+  maxToolCalls?: number;
+  output?: string;
+  quiet?: boolean;
+}
+
+/**
+ * Options for `research attach`.
+ */
+export interface ResearchAttachCommandOptions {
+  output?: string;
+  quiet?: boolean;
+}
+
+/**
+ * Options for `research list`.
+ */
+export interface ResearchListCommandOptions {
+  json?: boolean;
+}
+
+/**
+ * Options for `research export`.
+ */
+export interface ResearchExportCommandOptions {
+  output?: string;
+}
+
+/**
+ * Renders a finished research run as markdown, with citations as footnotes.
+ *
+ * Citations with a known end offset get a `[^n]` marker right after the
+ * cited span; the rest are referenced from a trailing "Sources" line so every
+ * footnote definition is reachable. Repeated URLs share one footnote.
+ *
+ * @param query - The research question, used as the document title
+ * @param report - Report text
+ * @param citations - Citations for the report
+ */
+export function renderResearchMarkdown(
+  query: string,
+  report: string,
+  citations: ResearchCitation[],
+): string {
+  const numbers = new Map<string, number>();
+  const definitions: string[] = [];
+  for (const citation of citations) {
+    if (!numbers.has(citation.url)) {
+      numbers.set(citation.url, numbers.size + 1);
+      const label = citation.title ? `[${citation.title}](${citation.url})` : `<${citation.url}>`;
+      definitions.push(`[^${numbers.size}]: ${label}`);
+    }
+  }
+
+  const anchored = citations
+    .filter((citation) => citation.endIndex !== undefined && citation.endIndex <= report.length)
+    .sort((a, b) => (b.endIndex ?? 0) - (a.endIndex ?? 0));
+  let body = report;
+  const referenced = new Set<number>();
+  for (const citation of anchored) {
+    const number = numbers.get(citation.url) ?? 0;
+    const end = citation.endIndex ?? 0;
+    if (body.slice(end).startsWith(`[^${number}]`)) {
+      continue;
+    }
+    body = `${body.slice(0, end)}[^${number}]${body.slice(end)}`;
+    referenced.add(number);
+  }
+
+  const unreferenced = [...numbers.values()].filter((number) => !referenced.has(number));
+  const sections = [`# ${query.split("\n")[0].trim()}`, body.trim()];
+  if (unreferenced.length > 0) {
+    sections.push(`Sources: ${unreferenced.map((number) => `[^${number}]`).join(" ")}`);
+  }
+  if (definitions.length > 0) {
+    sections.push(definitions.join("\n"));
+  }
+  return `${sections.join("\n\n")}\n`;
+}
+
+/** Looks up a registry entry, with a pointer to `research list` when unknown. */
+async function requireEntry(
+  registry: ResearchJobRegistry,
+  id: string,
+): Promise<ResearchRegistryEntry> {
+  const entry = await registry.get(id);
+  if (!entry) {
+    throw new Error(
+      `Unknown research job "${id}". Run "llmist research list" to see recorded jobs.`,
+    );
+  }
+  return entry;
+}
+
+/** Writes the markdown export of a finished entry to `path`. */
+function writeExport(entry: ResearchRegistryEntry, path: string, env: CLIEnvironment): void {
+  if (!entry.result) {
+    return;
+  }
+  writeFileSync(
+    path,
+    renderResearchMarkdown(entry.query, entry.result.report, entry.result.citations),
+  );
+  env.stderr.write(`${SUMMARY_PREFIX} Report saved to ${path}\n`);
+}
+
+/**
+ * Streams a (started or attached) job to stdout while the registry records
+ * its progress, then prints the sources and a summary.
+ */
+async function streamResearch(
+  registry: ResearchJobRegistry,
+  entry: ResearchRegistryEntry,
+  job: ResearchJob,
+  options: ResearchAttachCommandOptions,
+  env: CLIEnvironment,
+): Promise<void> {
+  const stderrTTY = (env.stderr as NodeJS.WriteStream).isTTY === true;
+  const showProgress = !options.quiet && stderrTTY;
+  const printer = new StreamPrinter(env.stdout);
+  const progress = (message: string) => {
+    if (showProgress) {
+      printer.ensureNewline();
+      env.stderr.write(`${SUMMARY_PREFIX} ${message}\n`);
+    }
+  };
+
+  // On attach, replay what was already streamed; the job continues after the saved cursor.
+  let streamed = entry.progress?.report ?? "";
+  printer.write(streamed);
+  for await (const event of registry.track(entry, job)) {
+    switch (event.type) {
+      case "created":
+        if (event.jobId !== null) {
+          progress(
+            `Research ${entry.id} running (resume with: llmist research attach ${entry.id})`,
+          );
+        }
+        break;
+      case "status":
+        progress(`Status: ${event.status.replace("_", " ")}`);
+        break;
+      case "search":
+        if (event.status === "started" && event.query) {
+          progress(`Searching: ${event.query}`);
+        }
+        break;
+      case "text":
+        streamed += event.delta;
+        printer.write(event.delta);
+        break;
+      default:
+        break;
+    }
+  }
+
+  const result = entry.result;
+  if (!result) {
+    printer.ensureNewline();
+    throw new Error(entry.error ?? `Research ${entry.id} ended without a result.`);
+  }
+  // Some providers deliver the report only with the terminal event.
+  if (streamed === "") {
+    printer.write(result.report);
+  }
+  printer.ensureNewline();
+  if (result.citations.length > 0) {
+    const sources = [...new Set(result.citations.map((citation) => citation.url))];
+    env.stdout.write(
+      `\nSources:\n${sources.map((url, index) => `${index + 1}. ${url}`).join("\n")}\n`,
+    );
+  }
+  if (options.output) {
+    writeExport(entry, options.output, env);
+  }
+  if (showProgress) {
+    const parts = [result.status.replace("_", " ")];
+    if (result.usage.searches !== undefined) {
+      parts.push(`${result.usage.searches} searches`);
+    }
+    if (result.usage.costUSD !== undefined) {
+      parts.push(`cost: ${formatCost(result.usage.costUSD)}`);
+    }
+    env.stderr.write(`${SUMMARY_PREFIX} ${parts.join(" | ")}\n`);
+  }
+  if (result.status !== "completed") {
+    throw new Error(`Research ${entry.id} ${result.status.replace("_", " ")}.`);
+  }
+}
+
+/**
+ * Executes `research start`: starts a run, records it in the registry and
+ * streams the report to stdout.
+ *
+ * @param queryArg - Research question (optional if piped via stdin)
+ * @param options - Start options
+ * @param env - CLI environment for I/O operations
+ * @param registry - Job registry (defaults to `~/.llmist/research`)
+ */
+export async function executeResearchStart(
+  queryArg: string | undefined,
+  options: ResearchStartCommandOptions,
+  env: CLIEnvironment,
+  registry: ResearchJobRegistry = new ResearchJobRegistry(),
+): Promise<void> {
+  const query = await resolvePrompt(queryArg, env);
+  const job = env.createClient().research.start({
+    model: options.model,
+    query,
+    systemPrompt: options.system,
+    maxToolCalls: options.maxToolCalls,
+  });
+  const entry = await registry.create({ model: options.model, query });
+  await streamResearch(registry, entry, job, options, env);
+}
+
+/**
+ * Executes `research attach`: resumes a recorded run from its saved cursor,
+ * or prints the report when the run already finished.
+ *
+ * @param id - Registry id
+ * @param options - Attach options
+ * @param env - CLI environment for I/O operations
+ * @param registry - Job registry (defaults to `~/.llmist/research`)
+ */
+export async function executeResearchAttach(
+  id: string,
+  options: ResearchAttachCommandOptions,
+  env: CLIEnvironment,
+  registry: ResearchJobRegistry = new ResearchJobRegistry(),
+): Promise<void> {
+  const entry = await requireEntry(registry, id);
+  if (entry.result) {
+    env.stdout.write(
+      renderResearchMarkdown(entry.query, entry.result.report, entry.result.citations),
+    );
+    if (options.output) {
+      writeExport(entry, options.output, env);
+    }
+    return;
+  }
+  if (!entry.ref) {
+    throw new Error(
+      `Research ${id} has no server-side job to attach to (the provider does not run background jobs).`,
+    );
+  }
+
+  const job = env.createClient().research.attach(entry.ref);
+  await streamResearch(registry, entry, job, options, env);
+}
+
+/**
+ * Executes `research list`: prints recorded runs, newest first.
+ *
+ * @param options - List options
+ * @param env - CLI environment for I/O operations
+ * @param registry - Job registry (defaults to `~/.llmist/research`)
+ */
+export async function executeResearchList(
+  options: ResearchListCommandOptions,
+  env: CLIEnvironment,
+  registry: ResearchJobRegistry = new ResearchJobRegistry(),
+): Promise<void> {
+  const entries = await registry.list();
+  if (options.json) {
+    env.stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
+    return;
+  }
+  if (entries.length === 0) {
+    env.stdout.write(`No research jobs recorded in ${registry.dir}\n`);
+    return;
+  }
+  for (const entry of entries) {
+    const query = truncateValue(entry.query.replace(/\s+/g, " "), LIST_QUERY_WIDTH);
+    env.stdout.write(
+      `${entry.id}  ${entry.status.padEnd(15)}  ${entry.createdAt.slice(0, 16).replace("T", " ")}  ${entry.model}  ${query}\n`,
+    );
+  }
+}
+
+/**
+ * Executes `research cancel`: cancels a recorded run server-side.
+ *
+ * @param id - Registry id
+ * @param env - CLI environment for I/O operations
+ * @param registry - Job registry (defaults to `~/.llmist/research`)
+ */
+export async function executeResearchCancel(
+  id: string,
+  env: CLIEnvironment,
+  registry: ResearchJobRegistry = new ResearchJobRegistry(),
+): Promise<void> {
+  const entry = await requireEntry(registry, id);
+  if (entry.result) {
+    throw new Error(`Research ${id} already finished (${entry.result.status}).`);
+  }
+  if (!entry.ref) {
+    throw new Error(`Research ${id} has no server-side job to cancel.`);
+  }
+  await env.createClient().research.cancel(entry.ref);
+  entry.status = "cancelled";
+  await registry.save(entry);
+  env.stderr.write(`${SUMMARY_PREFIX} Cancelled research ${id}\n`);
+}
+
+/**
+ * Executes `research export`: writes a finished report as markdown with
+ * footnoted citations.
+ *
+ * @param id - Registry id
+ * @param options - Export options
+ * @param env - CLI environment for I/O operations
+ * @param registry - Job registry (defaults to `~/.llmist/research`)
+ */
+export async function executeResearchExport(
+  id: string,
+  options: ResearchExportCommandOptions,
+  env: CLIEnvironment,
+  registry: ResearchJobRegistry = new ResearchJobRegistry(),
+): Promise<void> {
+  const entry = await requireEntry(registry, id);
+  if (!entry.result) {
+    throw new Error(
+      `Research ${id} has not finished (${entry.status.replace("_", " ")}). ` +
+        `Run "llmist research attach ${id}" to follow it.`,
+    );
+  }
+  if (options.output) {
+    writeExport(entry, options.output, env);
+  } else {
+    env.stdout.write(
+      renderResearchMarkdown(entry.query, entry.result.report, entry.result.citations),
+    );
+  }
+}
+
+/**
+ * Registers the `research` command group with start/list/attach/cancel/export
+ * subcommands.
+ *
+ * @param program - Commander program to register on
+ * @param env - CLI environment for I/O
+ */
+export function registerResearchCommand(program: Command, env: CLIEnvironment): void {
+  const researchCmd = program
+    .command(COMMANDS.research)
+    .description("Run deep research jobs that survive disconnects and export cited reports.");
+
+  // Subcommand: start
+  researchCmd
+    .command("start [query]")
+    .description("Start a research run and stream the report (query as argument or stdin).")
+    .option(OPTION_FLAGS.model, OPTION_DESCRIPTIONS.researchModel, RESEARCH_DEFAULT_MODEL)
+    .option(OPTION_FLAGS.systemPrompt, OPTION_DESCRIPTIONS.researchSystemPrompt)
+    .option(
+      OPTION_FLAGS.researchMaxToolCalls,
+      OPTION_DESCRIPTIONS.researchMaxToolCalls,
+      createNumericParser({ label: "Max tool calls", integer: true, min: 1 }),
+    )
+    .option(OPTION_FLAGS.researchOutput, OPTION_DESCRIPTIONS.researchOutput)
+    .option(OPTION_FLAGS.quiet, OPTION_DESCRIPTIONS.quiet)
+    .action((query: string | undefined, options: ResearchStartCommandOptions) =>
+      executeAction(() => executeResearchStart(query, options, env), env),
+    );
+
+  // Subcommand: list
+  researchCmd
+    .command("list")
+    .description("List recorded research jobs, newest first.")
+    .option("--json", "Output the registry entries as JSON")
+    .action((options: ResearchListCommandOptions) =>
+      executeAction(() => executeResearchList(options, env), env),
+    );
+
+  // Subcommand: attach
+  researchCmd
+    .command("attach <id>")
+    .description("Resume streaming a research job, or print it if already finished.")
+    .option(OPTION_FLAGS.researchOutput, OPTION_DESCRIPTIONS.researchOutput)
+    .option(OPTION_FLAGS.quiet, OPTION_DESCRIPTIONS.quiet)
+    .action((id: string, options: ResearchAttachCommandOptions) =>
+      executeAction(() => executeResearchAttach(id, options, env), env),
+    );
+
+  // Subcommand: cancel
+  researchCmd
+    .command("cancel <id>")
+    .description("Cancel a running research job server-side.")
+    .action((id: string) => executeAction(() => executeResearchCancel(id, env), env));
+
+  // Subcommand: export
+  researchCmd
+    .command("export <id>")
+    .description("Export a finished report as markdown with footnoted citations.")
+    .option(OPTION_FLAGS.researchOutput, OPTION_DESCRIPTIONS.researchExportOutput)
+    .action((id: string, options: ResearchExportCommandOptions) =>
+      executeAction(() => executeResearchExport(id, options, env), env),
+    );
+}
@@ -1,4 +1,4 @@
-import type { ModelRegistry, TokenUsage } from "llmist";
+import type { CacheStats, ModelRegistry, TokenUsage } from "llmist";
 import { CallStatsTracker, type ProgressMode } from "./progress/call-stats-tracker.js";
 import { GadgetTracker } from "./progress/gadget-tracker.js";
 import { NestedOperationTracker } from "./progress/nested-operation-tracker.js";
@@ -213,6 +213,10 @@ export class StreamProgress {
     return this.callStatsTracker.totalCost;
   }
 
+  getCacheStats(): CacheStats {
+    return this.callStatsTracker.totalCacheStats;
+  }
+
   formatStats(): string {
     return this.renderer.formatStats();
   }
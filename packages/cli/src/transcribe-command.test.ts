@@ -0,0 +1,246 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Writable } from "node:stream";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CLIEnvironment } from "./environment.js";
+import { executeTranscribe, type TranscribeCommandOptions } from "./transcribe-command.js";
+
+// Mock fs.writeFileSync
+vi.mock("node:fs", () => ({
+  writeFileSync: vi.fn(),
+}));
+
+// Mock ffmpeg so tests don't depend on a system install
+vi.mock("./ffmpeg.js", () => ({
+  isFFmpegAvailable: vi.fn(),
+  getAudioDuration: vi.fn(),
+  splitAudio: vi.fn(),
+}));
+
+import { writeFileSync } from "node:fs";
+import { getAudioDuration, isFFmpegAvailable, splitAudio } from "./ffmpeg.js";
+
+/** Minimal buffer recognized as MP3 (ID3 tag) */
+const MP3_BYTES = Buffer.from([0x49, 0x44, 0x33, 0x04, 0x00, 0x00]);
+
+/**
+ * Mock writable stream that captures output and has optional TTY flag.
+ */
+class MockWritableStream extends Writable {
+  public output = "";
+  isTTY: boolean;
+
+  constructor(isTTY = false) {
+    super();
+    this.isTTY = isTTY;
+  }
+
+  _write(chunk: Buffer | string, _encoding: string, callback: () => void): void {
+    this.output += chunk.toString();
+    callback();
+  }
+}
+
+/**
+ * Creates a mock LLMist client whose transcripts contain one 5-second segment per chunk.
+ */
+function createMockClient(maxFileSizeBytes = 25 * 1024 * 1024) {
+  let call = 0;
+  return {
+    transcription: {
+      listModels: () => [{ modelId: "whisper-1", maxFileSizeBytes }],
+      transcribe: vi.fn(async (options: { model: string; durationSeconds?: number }) => {
+        call++;
+        return {
+          text: ` Part ${call}. `,
+          model: options.model,
+          language: "english",
+          segments: [{ start: 0, end: 5, text: `Part ${call}.` }],
+          usage: { durationSeconds: options.durationSeconds },
+          cost: 0.01,
+        };
+      }),
+    },
+  };
+}
+
+/**
+ * Creates a mock CLI environment.
+ */
+function createMockEnv(
+  mockClient: ReturnType<typeof createMockClient>,
+  options: { stderrTTY?: boolean } = {},
+): CLIEnvironment & { stdout: MockWritableStream; stderr: MockWritableStream } {
+  const stdout = new MockWritableStream();
+  const stderr = new MockWritableStream(options.stderrTTY ?? false);
+
+  return {
+    stdin: process.stdin,
+    stdout: stdout as unknown as NodeJS.WriteStream,
+    stderr: stderr as unknown as NodeJS.WriteStream,
+    isTTY: false,
+    createClient: () => mockClient,
+    setExitCode: vi.fn(),
+  } as unknown as CLIEnvironment & {
+    stdout: MockWritableStream;
+    stderr: MockWritableStream;
+  };
+}
+
+describe("transcribe-command", () => {
+  let workDir: string;
+  let audioPath: string;
+  const defaultOptions: TranscribeCommandOptions = { model: "whisper-1", chunkMinutes: 10 };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    workDir = await mkdtemp(join(tmpdir(), "llmist-transcribe-test-"));
+    audioPath = join(workDir, "meeting.mp3");
+    await writeFile(audioPath, MP3_BYTES);
+    vi.mocked(isFFmpegAvailable).mockResolvedValue(true);
+    vi.mocked(getAudioDuration).mockResolvedValue(90);
+  });
+
+  afterEach(async () => {
+    vi.resetAllMocks();
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  describe("executeTranscribe", () => {
+    it("transcribes a short file in one request and prints plain text", async () => {
+      const client = createMockClient();
+      const env = createMockEnv(client);
+
+      await executeTranscribe(audioPath, defaultOptions, env);
+
+      expect(splitAudio).not.toHaveBeenCalled();
+      expect(client.transcription.transcribe).toHaveBeenCalledWith({
+        model: "whisper-1",
+        audio: MP3_BYTES,
+        mimeType: "audio/mp3",
+        language: undefined,
+        prompt: undefined,
+        timestamps: undefined,
+        durationSeconds: 90,
+      });
+      expect(env.stdout.output).toBe("Part 1.\n");
+    });
+
+    it("passes language and prompt through", async () => {
+      const client = createMockClient();
+      const env = createMockEnv(client);
+
+      await executeTranscribe(
+        audioPath,
+        { ...defaultOptions, language: "de", prompt: "llmist", timestamps: "word" },
+        env,
+      );
+
+      expect(client.transcription.transcribe).toHaveBeenCalledWith(
+        expect.objectContaining({ language: "de", prompt: "llmist", timestamps: "word" }),
+      );
+    });
+
+    it("requests segment timestamps and writes SRT for subtitle formats", async () => {
+      const client = createMockClient();
+      const env = createMockEnv(client);
+
+      await executeTranscribe(audioPath, { ...defaultOptions, format: "srt" }, env);
+
+      expect(client.transcription.transcribe).toHaveBeenCalledWith(
+        expect.objectContaining({ timestamps: "segment" }),
+      );
+      expect(env.stdout.output).toBe("1\n00:00:00,000 --> 00:00:05,000\nPart 1.\n");
+    });
+
+    it("splits long recordings and shifts timestamps onto the original timeline", async () => {
+      vi.mocked(getAudioDuration).mockResolvedValue(1000);
+      const chunkPaths = [join(workDir, "chunk-000.mp3"), join(workDir, "chunk-001.mp3")];
+      for (const path of chunkPaths) {
+        await writeFile(path, MP3_BYTES);
+      }
+      vi.mocked(splitAudio).mockResolvedValue(chunkPaths);
+
+      const client = createMockClient();
+      const env = createMockEnv(client);
+
+      await executeTranscribe(audioPath, { ...defaultOptions, format: "json" }, env);
+
+      expect(splitAudio).toHaveBeenCalledWith(audioPath, 600, expect.any(String));
+      expect(client.transcription.transcribe.mock.calls.map(([o]) => o.durationSeconds)).toEqual([
+        600, 400,
+      ]);
+
+      const transcript = JSON.parse(env.stdout.output);
+      expect(transcript.text).toBe("Part 1. Part 2.");
+      expect(transcript.segments).toEqual([
+        { start: 0, end: 5, text: "Part 1." },
+        { start: 600, end: 605, text: "Part 2." },
+      ]);
+      expect(transcript.usage.durationSeconds).toBe(1000);
+      expect(transcript.cost).toBeCloseTo(0.02);
+    });
+
+    it("converts unrecognized formats with ffmpeg", async () => {
+      const m4aPath = join(workDir, "memo.m4a");
+      await writeFile(m4aPath, Buffer.from("....ftypM4A"));
+      const chunkPath = join(workDir, "chunk-000.mp3");
+      await writeFile(chunkPath, MP3_BYTES);
+      vi.mocked(splitAudio).mockResolvedValue([chunkPath]);
+
+      const client = createMockClient();
+      const env = createMockEnv(client);
+
+      await executeTranscribe(m4aPath, defaultOptions, env);
+
+      expect(splitAudio).toHaveBeenCalled();
+      expect(client.transcription.transcribe).toHaveBeenCalledWith(
+        expect.objectContaining({ audio: MP3_BYTES, durationSeconds: 90 }),
+      );
+    });
+
+    it("fails with a hint when a file must be split but ffmpeg is missing", async () => {
+      vi.mocked(isFFmpegAvailable).mockResolvedValue(false);
+      const client = createMockClient(2);
+      const env = createMockEnv(client);
+
+      await expect(executeTranscribe(audioPath, defaultOptions, env)).rejects.toThrow(
+        "ffmpeg is not installed",
+      );
+      expect(client.transcription.transcribe).not.toHaveBeenCalled();
+    });
+
+    it("rejects unknown output formats", async () => {
+      const client = createMockClient();
+      const env = createMockEnv(client);
+
+      await expect(
+        executeTranscribe(audioPath, { ...defaultOptions, format: "docx" }, env),
+      ).rejects.toThrow('Unsupported transcript format "docx"');
+    });
+
+    it("saves to a file and prints a summary when stderr is a TTY", async () => {
+      const client = createMockClient();
+      const env = createMockEnv(client, { stderrTTY: true });
+
+      await executeTranscribe(audioPath, { ...defaultOptions, output: "meeting.txt" }, env);
+
+      expect(writeFileSync).toHaveBeenCalledWith("meeting.txt", "Part 1.\n");
+      expect(env.stdout.output).toBe("");
+      expect(env.stderr.output).toContain("Transcript saved to meeting.txt");
+      expect(env.stderr.output).toContain("1.5 min");
+      expect(env.stderr.output).toContain("language: english");
+      expect(env.stderr.output).toContain("cost:");
+    });
+
+    it("stays silent on stderr in quiet mode", async () => {
+      const client = createMockClient();
+      const env = createMockEnv(client, { stderrTTY: true });
+
+      await executeTranscribe(audioPath, { ...defaultOptions, quiet: true }, env);
+
+      expect(env.stderr.output).toBe("");
+    });
+  });
+});
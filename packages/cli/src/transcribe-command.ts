@@ -0,0 +1,283 @@
+/**
+ * Transcribe command for speech-to-text.
+ *
+ * Recordings longer than `--chunk-minutes`, larger than the model's upload
+ * limit, or in a container the providers don't accept (e.g. M4A) are split
+ * and re-encoded with ffmpeg, then transcribed chunk by chunk with timestamps
+ * shifted back onto the original timeline.
+ *
+ * @example
+ * ```bash
+ * llmist transcribe meeting.mp3
+ * llmist transcribe lecture.m4a --format srt -o lecture.srt
+ * llmist transcribe interview.wav --model gemini-2.5-flash --language de --format json
+ * ```
+ */
+
+import { writeFileSync } from "node:fs";
+import { mkdtemp, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Command } from "commander";
+import {
+  detectAudioMimeType,
+  formatSubtitles,
+  type TranscriptionResult,
+  type TranscriptionTimestamps,
+} from "llmist";
+import { COMMANDS, OPTION_DESCRIPTIONS, OPTION_FLAGS, SUMMARY_PREFIX } from "./constants.js";
+import type { CLIEnvironment } from "./environment.js";
+import { getAudioDuration, isFFmpegAvailable, splitAudio } from "./ffmpeg.js";
+import { DEFAULT_MAX_FILE_SIZE, formatFileSize, readFileBuffer } from "./file-utils.js";
+import { formatCost } from "./ui/formatters.js";
+import { createNumericParser, executeAction } from "./utils.js";
+
+/**
+ * Default transcription model.
+ */
+const DEFAULT_TRANSCRIPTION_MODEL = "whisper-1";
+
+/**
+ * Default chunk length for long recordings, in minutes.
+ */
+const DEFAULT_CHUNK_MINUTES = 10;
+
+/**
+ * Supported transcript output formats.
+ */
+const TRANSCRIPT_FORMATS = ["text", "json", "srt", "vtt"] as const;
+type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+/**
+ * Options for the transcribe command.
+ */
+export interface TranscribeCommandOptions {
+  model: string;
+  language?: string;
+  prompt?: string;
+  timestamps?: string;
+  format?: string;
+  chunkMinutes?: number;
+  output?: string;
+  quiet?: boolean;
+}
+
+/**
+ * Executes the transcribe command.
+ * Transcribes an audio file, splitting it with ffmpeg when needed, and writes
+ * the transcript as plain text, JSON, SRT or WebVTT.
+ *
+ * @param audioPath - Path to the audio file
+ * @param options - Transcribe command options
+ * @param env - CLI environment for I/O operations
+ */
+export async function executeTranscribe(
+  audioPath: string,
+  options: TranscribeCommandOptions,
+  env: CLIEnvironment,
+): Promise<void> {
+  const format = (options.format ?? "text") as TranscriptFormat;
+  if (!TRANSCRIPT_FORMATS.includes(format)) {
+    throw new Error(
+      `Unsupported transcript format "${options.format}". Use one of: ${TRANSCRIPT_FORMATS.join(", ")}`,
+    );
+  }
+  if (options.timestamps && options.timestamps !== "segment" && options.timestamps !== "word") {
+    throw new Error(`Timestamps must be "segment" or "word", got "${options.timestamps}"`);
+  }
+
+  // Subtitles are built from segments, so they imply segment timestamps
+  const timestamps =
+    (options.timestamps as TranscriptionTimestamps | undefined) ??
+    (format === "srt" || format === "vtt" ? "segment" : undefined);
+
+  const client = env.createClient();
+  const model = options.model;
+  const spec = client.transcription.listModels().find((m) => m.modelId === model);
+  const maxFileSize = spec?.maxFileSizeBytes ?? DEFAULT_MAX_FILE_SIZE;
+  const chunkSeconds = (options.chunkMinutes ?? DEFAULT_CHUNK_MINUTES) * 60;
+
+  const ffmpegAvailable = await isFFmpegAvailable();
+  const totalDuration = ffmpegAvailable
+    ? ((await getAudioDuration(audioPath)) ?? undefined)
+    : undefined;
+
+  let fileSize: number;
+  try {
+    fileSize = (await stat(audioPath)).size;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read audio file "${audioPath}": ${message}`);
+  }
+
+  let audio: Buffer | undefined;
+  let splitReason: string | undefined;
+  if (fileSize > maxFileSize) {
+    splitReason = `${formatFileSize(fileSize)} exceeds the ${formatFileSize(maxFileSize)} limit of ${model}`;
+  } else if (totalDuration !== undefined && totalDuration > chunkSeconds) {
+    splitReason = `it is longer than ${chunkSeconds / 60} minutes`;
+  } else {
+    audio = await readFileBuffer(audioPath, { maxFileSize });
+    if (!detectAudioMimeType(audio)) {
+      splitReason = "its format must be converted to MP3";
+      audio = undefined;
+    }
+  }
+
+  const stderrTTY = (env.stderr as NodeJS.WriteStream).isTTY === true;
+  const progress = (message: string) => {
+    if (!options.quiet && stderrTTY) {
+      env.stderr.write(`${SUMMARY_PREFIX} ${message}\n`);
+    }
+  };
+
+  let tempDir: string | undefined;
+  try {
+    let chunkPaths: string[] = [];
+    if (splitReason) {
+      if (!ffmpegAvailable) {
+        throw new Error(
+          `"${audioPath}" must be split before transcription (${splitReason}), ` +
+            "but ffmpeg is not installed. Install ffmpeg or split the file manually.",
+        );
+      }
+      tempDir = await mkdtemp(join(tmpdir(), "llmist-transcribe-"));
+      progress(`Splitting ${audioPath} with ffmpeg (${splitReason})...`);
+      chunkPaths = (await splitAudio(audioPath, chunkSeconds, tempDir)) ?? [];
+      if (chunkPaths.length === 0) {
+        throw new Error(`ffmpeg failed to split "${audioPath}" into chunks.`);
+      }
+    }
+
+    const chunkCount = Math.max(chunkPaths.length, 1);
+    progress(
+      chunkCount === 1
+        ? `Transcribing with ${model}...`
+        : `Transcribing ${chunkCount} chunks with ${model}...`,
+    );
+
+    const transcript: TranscriptionResult = { text: "", model, usage: {} };
+    const texts: string[] = [];
+
+    for (let index = 0; index < chunkCount; index++) {
+      const chunkAudio =
+        audio ?? (await readFileBuffer(chunkPaths[index] as string, { maxFileSize }));
+      const offset = index * chunkSeconds;
+      const chunkDuration =
+        totalDuration === undefined
+          ? undefined
+          : chunkPaths.length > 0
+            ? Math.min(chunkSeconds, totalDuration - offset)
+            : totalDuration;
+
+      if (chunkCount > 1) {
+        progress(`Chunk ${index + 1}/${chunkCount}...`);
+      }
+
+      const result = await client.transcription.transcribe({
+        model,
+        audio: chunkAudio,
+        mimeType: detectAudioMimeType(chunkAudio) ?? undefined,
+        language: options.language,
+        prompt: options.prompt,
+        timestamps,
+        durationSeconds: chunkDuration,
+      });
+
+      texts.push(result.text.trim());
+      transcript.language ??= result.language;
+      if (result.segments) {
+        transcript.segments = [
+          ...(transcript.segments ?? []),
+          ...result.segments.map((s) => ({ ...s, start: s.start + offset, end: s.end + offset })),
+        ];
+      }
+      if (result.words) {
+        transcript.words = [
+          ...(transcript.words ?? []),
+          ...result.words.map((w) => ({ ...w, start: w.start + offset, end: w.end + offset })),
+        ];
+      }
+      if (result.usage.durationSeconds !== undefined) {
+        transcript.usage.durationSeconds =
+          (transcript.usage.durationSeconds ?? 0) + result.usage.durationSeconds;
+      }
+      if (result.cost !== undefined) {
+        transcript.cost = (transcript.cost ?? 0) + result.cost;
+      }
+    }
+
+    transcript.text = texts.filter((text) => text.length > 0).join(" ");
+
+    let output: string;
+    if (format === "json") {
+      output = `${JSON.stringify(transcript, null, 2)}\n`;
+    } else if (format === "srt" || format === "vtt") {
+      output = formatSubtitles(transcript.segments ?? [], format);
+    } else {
+      output = `${transcript.text}\n`;
+    }
+
+    if (options.output) {
+      writeFileSync(options.output, output);
+      if (!options.quiet) {
+        env.stderr.write(`${SUMMARY_PREFIX} Transcript saved to ${options.output}\n`);
+      }
+    } else {
+      env.stdout.write(output);
+    }
+
+    // Show summary
+    if (!options.quiet && stderrTTY) {
+      const parts: string[] = [];
+      if (transcript.usage.durationSeconds !== undefined) {
+        parts.push(`${(transcript.usage.durationSeconds / 60).toFixed(1)} min`);
+      }
+      if (transcript.language) {
+        parts.push(`language: ${transcript.language}`);
+      }
+      if (transcript.segments) {
+        parts.push(`${transcript.segments.length} segments`);
+      }
+      if (transcript.cost !== undefined) {
+        parts.push(`cost: ${formatCost(transcript.cost)}`);
+      }
+      if (parts.length > 0) {
+        env.stderr.write(`${SUMMARY_PREFIX} ${parts.join(" | ")}\n`);
+      }
+    }
+  } finally {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Registers the transcribe command with the CLI program.
+ *
+ * @param program - Commander program to register the command with
+ * @param env - CLI environment for dependencies and I/O
+ */
+export function registerTranscribeCommand(program: Command, env: CLIEnvironment): void {
+  program
+    .command(COMMANDS.transcribe)
+    .description("Transcribe speech in an audio file to text or subtitles.")
+    .argument("<audio>", "Path to the audio file.")
+    .option(OPTION_FLAGS.model, OPTION_DESCRIPTIONS.model, DEFAULT_TRANSCRIPTION_MODEL)
+    .option(OPTION_FLAGS.transcribeLanguage, OPTION_DESCRIPTIONS.transcribeLanguage)
+    .option(OPTION_FLAGS.transcribePrompt, OPTION_DESCRIPTIONS.transcribePrompt)
+    .option(OPTION_FLAGS.transcribeTimestamps, OPTION_DESCRIPTIONS.transcribeTimestamps)
+    .option(OPTION_FLAGS.transcribeFormat, OPTION_DESCRIPTIONS.transcribeFormat, "text")
+    .option(
+      OPTION_FLAGS.transcribeChunkMinutes,
+      OPTION_DESCRIPTIONS.transcribeChunkMinutes,
+      createNumericParser({ label: "Chunk length", min: 1 }),
+      DEFAULT_CHUNK_MINUTES,
+    )
+    .option(OPTION_FLAGS.transcribeOutput, OPTION_DESCRIPTIONS.transcribeOutput)
+    .option(OPTION_FLAGS.quiet, OPTION_DESCRIPTIONS.quiet)
+    .action((audio, options) =>
+      executeAction(() => executeTranscribe(audio, options as TranscribeCommandOptions, env), env),
+    );
+}
@@ -12,6 +12,7 @@ import {
 import type {
   GadgetNode,
   LLMCallNode,
+  PlanNode,
   SystemMessageNode,
   TextNode,
   ThinkingNode,
@@ -93,6 +94,28 @@ function makeSystemMessageNode(overrides: Partial<SystemMessageNode> = {}): Syst
   };
 }
 
+function makePlanNode(overrides: Partial<PlanNode> = {}): PlanNode {
+  return {
+    id: "plan_1",
+    type: "plan",
+    depth: 0,
+    parentId: null,
+    sessionId: 0,
+    tasks: [
+      { id: "1", title: "Read the config", status: "done", subtasks: [] },
+      {
+        id: "2",
+        title: "Fix the parser",
+        status: "in_progress",
+        subtasks: [{ id: "2.1", title: "Add tests", status: "pending", subtasks: [] }],
+      },
+    ],
+    revision: 1,
+    children: [] as never[],
+    ...overrides,
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // abbreviateToLines
 // ─────────────────────────────────────────────────────────────────────────────
@@ -208,6 +231,10 @@ describe("isNodeVisibleInFilterMode", () => {
     }
   });
 
+  it("keeps plans visible in focused mode", () => {
+    expect(isNodeVisibleInFilterMode(makePlanNode(), "focused")).toBe(true);
+  });
+
   it("hides llm and non user-facing gadget nodes in focused mode", () => {
     expect(isNodeVisibleInFilterMode(makeLLMCallNode(), "focused")).toBe(false);
     expect(isNodeVisibleInFilterMode(makeGadgetNode({ name: "ReadFile" }), "focused")).toBe(false);
@@ -404,6 +431,26 @@ describe("formatBlockContent", () => {
     });
   });
 
+  describe("plan nodes", () => {
+    it("formats collapsed plan with progress and the task in progress", () => {
+      const result = formatBlockContent(makePlanNode(), false, false);
+      expect(result).toContain("📋 Plan");
+      expect(result).toContain("(1/3 done)");
+      expect(result).toContain("2. Fix the parser");
+      expect(result.split("\n")).toHaveLength(1);
+    });
+
+    it("formats expanded plan with all tasks", () => {
+      const result = formatBlockContent(makePlanNode(), false, true);
+      const lines = result.split("\n");
+      expect(lines).toHaveLength(4);
+      expect(lines[1]).toContain("✓");
+      expect(lines[2]).toContain("⏵");
+      expect(lines[3]).toContain("○");
+      expect(lines[3]).toContain("  2.1. Add tests");
+    });
+  });
+
   describe("indentation", () => {
     it("applies indentation based on depth", () => {
       const shallow = makeLLMCallNode({ depth: 0 });
@@ -24,6 +24,7 @@ import type {
   BlockNode,
   ContentFilterMode,
   GadgetNode,
+  PlanNode,
   SystemMessageNode,
   ThinkingNode,
 } from "./types.js";
@@ -83,6 +84,10 @@ export function formatBlockContent(node: BlockNode, selected: boolean, expanded:
       return formatThinkingContent(node, indent, expanded);
     }
 
+    case "plan": {
+      return formatPlanContent(node, indent, expanded);
+    }
+
     case "system_message": {
       const icon = getSystemMessageIcon(node.category);
       const color = getSystemMessageColor(node.category);
@@ -118,6 +123,50 @@ function formatThinkingContent(node: ThinkingNode, indent: string, expanded: boo
   return [header, ...contentLines].join("\n");
 }
 
+/**
+ * Format plan block content.
+ *
+ * Collapsed: progress and the task in progress. Expanded: all tasks.
+ */
+function formatPlanContent(node: PlanNode, indent: string, expanded: boolean): string {
+  const CYAN = "\x1b[36m";
+  const GREEN = "\x1b[32m";
+  const DIM = "\x1b[2m";
+  const RESET = "\x1b[0m";
+
+  const tasks: PlanNode["tasks"] = [];
+  const collect = (list: PlanNode["tasks"]) => {
+    for (const task of list) {
+      tasks.push(task);
+      collect(task.subtasks);
+    }
+  };
+  collect(node.tasks);
+
+  const done = tasks.filter((task) => task.status === "done").length;
+  const header = `${CYAN}📋 Plan${RESET} ${DIM}(${done}/${tasks.length} done)${RESET}`;
+
+  if (!expanded) {
+    const current = tasks.find((task) => task.status === "in_progress");
+    return `${indent}${header}${current ? ` ${current.id}. ${current.title}` : ""}`;
+  }
+
+  const contIndent = getContinuationIndent(node.depth);
+  const taskLines = tasks.map((task) => {
+    const nesting = "  ".repeat(task.id.split(".").length - 1);
+    const line = `${nesting}${task.id}. ${task.title}`;
+    switch (task.status) {
+      case "done":
+        return `${contIndent}${GREEN}✓${RESET} ${DIM}${line}${RESET}`;
+      case "in_progress":
+        return `${contIndent}${CYAN}⏵${RESET} ${line}`;
+      default:
+        return `${contIndent}${DIM}○${RESET} ${line}`;
+    }
+  });
+  return [`${indent}▼ ${header}`, ...taskLines].join("\n");
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // System Message Helpers
 // ─────────────────────────────────────────────────────────────────────────────
@@ -209,7 +258,7 @@ export function abbreviateToLines(text: string, maxLines: number, selected: bool
  * Check if a node is visible in the current content filter mode.
  *
  * In focused mode, we keep only user-facing content visible:
- * plain text plus TellUser/AskUser/Finish gadget output.
+ * plain text, plans, and TellUser/AskUser/Finish gadget output.
  */
 export function isNodeVisibleInFilterMode(
   node: BlockNode,
@@ -221,6 +270,7 @@ export function isNodeVisibleInFilterMode(
 
   switch (node.type) {
     case "text":
+    case "plan":
       return true;
     case "gadget":
       return shouldRenderAsText(node, contentFilterMode);
@@ -119,6 +119,9 @@ export class BlockRenderer {
         this.addGadget(invocationId, name, parameters),
       onCompleteGadget: (invocationId, options) => this.completeGadget(invocationId, options),
       onSkipGadget: (invocationId, reason) => this.skipGadget(invocationId, reason),
+      onAddPlan: (tasks, revision, parentGadgetId) =>
+        this.nodeStore.addPlan(tasks, revision, parentGadgetId),
+      onUpdatePlan: (id, tasks, revision) => this.nodeStore.updatePlan(id, tasks, revision),
       onGetCurrentLLMCallId: () => this.getCurrentLLMCallId(),
     });
   }
@@ -203,6 +203,42 @@ describe("NodeStore", () => {
     });
   });
 
+  describe("addPlan", () => {
+    const tasks = [{ id: "1", title: "Read", status: "pending" as const, subtasks: [] }];
+
+    it("creates a top-level plan node", () => {
+      const store = new NodeStore();
+      const id = store.addPlan(tasks, 1);
+
+      expect(id).toMatch(/^plan_/);
+      expect(store.rootIds).toEqual([id]);
+      expect(store.nodes.get(id)).toMatchObject({ type: "plan", depth: 0, tasks, revision: 1 });
+    });
+
+    it("nests a subagent's plan under its gadget", () => {
+      const store = new NodeStore();
+      store.addLLMCall(1, "model");
+      const gadgetId = store.addGadget("inv_1", "Subagent");
+
+      const id = store.addPlan(tasks, 1, gadgetId);
+
+      expect(store.nodes.get(gadgetId)?.children).toEqual([id]);
+      expect(store.nodes.get(id)).toMatchObject({ parentId: gadgetId, depth: 2 });
+    });
+
+    it("updates the tasks in place", () => {
+      const store = new NodeStore();
+      const onNodeUpdated = vi.fn();
+      store.setCallbacks({ onNodeUpdated });
+      const id = store.addPlan(tasks, 1);
+
+      store.updatePlan(id, [{ ...tasks[0], status: "done" }], 2);
+
+      expect(store.nodes.get(id)).toMatchObject({ revision: 2, tasks: [{ status: "done" }] });
+      expect(onNodeUpdated).toHaveBeenCalledWith(id);
+    });
+  });
+
   describe("addThinking", () => {
     it("creates a new thinking node on first chunk", () => {
       const store = new NodeStore();
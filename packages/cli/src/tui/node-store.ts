@@ -14,6 +14,7 @@ import type {
   BlockNode,
   GadgetNode,
   LLMCallNode,
+  PlanNode,
   SystemMessageNode,
   TextNode,
   ThinkingNode,
@@ -319,6 +320,49 @@ export class NodeStore {
     return id;
   }
 
+  /**
+   * Add a plan node, as a child of a subagent's gadget or top-level.
+   */
+  addPlan(tasks: PlanNode["tasks"], revision: number, parentGadgetId?: string): string {
+    const id = this.generateId("plan");
+    const parentNode = parentGadgetId ? this.getNode(parentGadgetId) : undefined;
+    const parent = parentNode?.type === "gadget" ? parentNode : undefined;
+
+    const node: PlanNode = {
+      id,
+      type: "plan",
+      depth: parent ? parent.depth + 1 : 0,
+      parentId: parent ? parent.id : null,
+      sessionId: this.currentSessionId,
+      tasks,
+      revision,
+      children: [] as never[],
+    };
+
+    this.nodes.set(id, node);
+
+    if (parent) {
+      parent.children.push(id);
+    } else {
+      this.rootIds.push(id);
+    }
+
+    this.callbacks.onNodeAdded?.();
+    return id;
+  }
+
+  /**
+   * Replace the tasks of a plan node.
+   */
+  updatePlan(id: string, tasks: PlanNode["tasks"], revision: number): void {
+    const node = this.getNode(id);
+    if (!node || node.type !== "plan") return;
+
+    node.tasks = tasks;
+    node.revision = revision;
+    this.callbacks.onNodeUpdated?.(id);
+  }
+
   /**
    * Add thinking content from a reasoning model.
    * Creates a new thinking block on first chunk, appends to existing on subsequent.
@@ -199,6 +199,42 @@ describe("StatusBar", () => {
     });
   });
 
+  describe("prompt cache", () => {
+    test("shows cache hit ratio and savings", () => {
+      const renderCallback = vi.fn(() => {});
+      const bar = new StatusBar(statusBox, "test-model", renderCallback);
+
+      bar.endCall(1000, 50, 750, 0.01, 0, 0.002);
+
+      expect(bar.getMetrics().cacheSavings).toBe(0.002);
+      const content = statusBox.getContent();
+      expect(content).toContain("75%");
+      expect(content).toContain("saved $0.0020");
+    });
+
+    test("accumulates savings from tree events", () => {
+      const renderCallback = vi.fn(() => {});
+      const bar = new StatusBar(statusBox, "test-model", renderCallback);
+      const tree = new ExecutionTree();
+      bar.subscribeToTree(tree);
+
+      const node = tree.addLLMCall({ iteration: 1, model: "sonnet" });
+      tree.completeLLMCall(node.id, {
+        usage: { inputTokens: 1000, outputTokens: 10, totalTokens: 1010, cachedInputTokens: 500 },
+        cache: {
+          inputTokens: 1000,
+          cachedInputTokens: 500,
+          cacheCreationInputTokens: 0,
+          hitRatio: 0.5,
+          reusedPrefixBytes: 2000,
+          savingsUSD: 0.001,
+        },
+      });
+
+      expect(bar.getMetrics().cacheSavings).toBe(0.001);
+    });
+  });
+
   describe("streaming updates", () => {
     test("updateStreaming uses immediate render", () => {
       const renderCallback = vi.fn(() => {});
@@ -629,6 +665,17 @@ describe("StatusBar", () => {
       expect(content).toContain("(TPM)");
     });
 
+    test("showThrottling displays server quota countdown with reason", () => {
+      const renderCallback = vi.fn(() => {});
+      const bar = new StatusBar(statusBox, "test-model", renderCallback);
+
+      bar.showThrottling(4000, { server: { tokens: { remaining: 0, resetMs: 4000 } } });
+
+      const content = statusBox.getContent();
+      expect(content).toContain("Throttled 4s");
+      expect(content).toContain("(server quota)");
+    });
+
     test("showThrottling with no specific reason shows no reason suffix", () => {
       const renderCallback = vi.fn(() => {});
       const bar = new StatusBar(statusBox, "test-model", renderCallback);
@@ -1,7 +1,7 @@
 /**
  * TUI status bar for displaying real-time metrics.
  *
- * Shows accumulated token counts, elapsed time, and cost.
+ * Shows accumulated token counts, prompt cache hit ratio, elapsed time, and cost.
  * Also displays currently active LLM calls and gadgets with a spinner.
  * Updates on LLM call lifecycle events.
  */
@@ -100,6 +100,7 @@ export class StatusBar {
       inputTokens: 0,
       outputTokens: 0,
       cachedTokens: 0,
+      cacheSavings: 0,
       reasoningTokens: 0,
       cost: 0,
       startTime: Date.now(),
@@ -146,11 +147,13 @@ export class StatusBar {
     cachedTokens: number,
     cost: number,
     reasoningTokens = 0,
+    cacheSavings = 0,
   ): void {
     // Add actual values to accumulated totals
     this.metrics.inputTokens += inputTokens;
     this.metrics.outputTokens += outputTokens;
     this.metrics.cachedTokens += cachedTokens;
+    this.metrics.cacheSavings += cacheSavings;
     this.metrics.reasoningTokens += reasoningTokens;
     this.metrics.cost += cost;
     // Clear streaming state
@@ -387,6 +390,7 @@ export class StatusBar {
               event.usage?.cachedInputTokens ?? 0,
               event.cost ?? 0,
               event.usage?.reasoningTokens ?? 0,
+              event.cache?.savingsUSD ?? 0,
             );
           }
           this.nodeIdToLabel.delete(event.nodeId);
@@ -599,9 +603,18 @@ export class StatusBar {
       parts.push(`${YELLOW}↑${inputPrefix}${formatTokens(displayInputTokens)}${RESET}`);
     }
 
-    // Cached tokens (blue) - only show if present
+    // Cached tokens (blue) with hit ratio and savings - only show if present
     if (this.metrics.cachedTokens > 0) {
-      parts.push(`${BLUE}⤿${formatTokens(this.metrics.cachedTokens)}${RESET}`);
+      let cachePart = `${BLUE}⤿${formatTokens(this.metrics.cachedTokens)}`;
+      if (this.metrics.inputTokens > 0) {
+        const hitPercent = Math.round((this.metrics.cachedTokens / this.metrics.inputTokens) * 100);
+        cachePart += ` ${hitPercent}%`;
+      }
+      cachePart += RESET;
+      if (this.metrics.cacheSavings > 0) {
+        cachePart += ` ${GRAY}saved $${formatCost(this.metrics.cacheSavings)}${RESET}`;
+      }
+      parts.push(cachePart);
     }
 
     // Output tokens (green) - only show if > 0
@@ -646,9 +659,15 @@ export class StatusBar {
         // Daily limit shows a more descriptive message instead of countdown
         parts.push(`${YELLOW}⏸ Daily limit, resets midnight UTC${RESET}`);
       } else {
-        // RPM/TPM show countdown with optional reason
+        // RPM/TPM/server quotas show countdown with optional reason
         const seconds = Math.ceil(this.rateLimitState.delayMs / 1000);
-        const reason = triggeredBy?.rpm ? " (RPM)" : triggeredBy?.tpm ? " (TPM)" : "";
+        const reason = triggeredBy?.rpm
+          ? " (RPM)"
+          : triggeredBy?.tpm
+            ? " (TPM)"
+            : triggeredBy?.server
+              ? " (server quota)"
+              : "";
         parts.push(`${YELLOW}⏸ Throttled ${seconds}s${reason}${RESET}`);
       }
     }
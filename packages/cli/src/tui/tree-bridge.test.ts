@@ -20,6 +20,8 @@ function createMockCallbacks(overrides: Partial<TreeBridgeCallbacks> = {}): Tree
     onCompleteGadget: vi.fn(),
     onSkipGadget: vi.fn(),
     onGetCurrentLLMCallId: vi.fn().mockReturnValue(null),
+    onAddPlan: vi.fn().mockReturnValue("plan_mock_id"),
+    onUpdatePlan: vi.fn(),
     ...overrides,
   };
 }
@@ -409,6 +411,43 @@ describe("TreeBridge", () => {
     });
   });
 
+  describe("plan_updated event", () => {
+    const tasks = [{ id: "1", title: "Read", status: "pending", subtasks: [] }];
+
+    it("adds the plan block once and updates it afterwards", () => {
+      const callbacks = createMockCallbacks();
+      const bridge = new TreeBridge(callbacks);
+      const { tree, emit } = createMockTree();
+      bridge.subscribeToTree(tree as never);
+
+      emit({ type: "plan_updated", nodeId: "plan", parentId: null, tasks, revision: 1 });
+      emit({ type: "plan_updated", nodeId: "plan", parentId: null, tasks, revision: 2 });
+
+      expect(callbacks.onAddPlan).toHaveBeenCalledTimes(1);
+      expect(callbacks.onAddPlan).toHaveBeenCalledWith(tasks, 1, undefined);
+      expect(callbacks.onUpdatePlan).toHaveBeenCalledWith("plan_mock_id", tasks, 2);
+      expect(bridge.getBlockIdForTreeNode("plan")).toBe("plan_mock_id");
+    });
+
+    it("puts a subagent's plan under its gadget block", () => {
+      const callbacks = createMockCallbacks();
+      const bridge = new TreeBridge(callbacks);
+      const { tree, emit } = createMockTree();
+      bridge.subscribeToTree(tree as never);
+
+      emit({ type: "gadget_call", nodeId: "gadget_1", invocationId: "inv_1", name: "Agent" });
+      emit({
+        type: "plan_updated",
+        nodeId: "plan_gadget_1",
+        parentId: "gadget_1",
+        tasks,
+        revision: 1,
+      });
+
+      expect(callbacks.onAddPlan).toHaveBeenCalledWith(tasks, 1, "gadget_mock_id");
+    });
+  });
+
   describe("getBlockIdForTreeNode", () => {
     it("returns undefined for unknown tree nodes", () => {
       const callbacks = createMockCallbacks();
@@ -9,7 +9,7 @@
 
 import type { ExecutionEvent, ExecutionTree } from "llmist";
 import type { CompleteGadgetOptions } from "./node-store.js";
-import type { LLMCallNode } from "./types.js";
+import type { LLMCallNode, PlanNode } from "./types.js";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // TreeBridge Types
@@ -49,6 +49,10 @@ export interface TreeBridgeCallbacks {
   onCompleteGadget: (invocationId: string, options: CompleteGadgetOptions) => void;
   /** Mark a gadget as skipped */
   onSkipGadget: (invocationId: string, reason: string) => void;
+  /** Create a plan block */
+  onAddPlan: (tasks: PlanNode["tasks"], revision: number, parentGadgetId?: string) => string;
+  /** Update a plan block */
+  onUpdatePlan: (id: string, tasks: PlanNode["tasks"], revision: number) => void;
   /** Get the current LLM call ID */
   onGetCurrentLLMCallId: () => string | null;
 }
@@ -263,6 +267,24 @@ export class TreeBridge {
         break;
       }
 
+      case "plan_updated": {
+        // One plan node per agent, updated in place
+        const blockId = this.treeNodeToBlockId.get(event.nodeId);
+        if (blockId) {
+          this.callbacks.onUpdatePlan(blockId, event.tasks, event.revision);
+          break;
+        }
+
+        const parentBlockId = event.parentId
+          ? this.treeNodeToBlockId.get(event.parentId)
+          : undefined;
+        this.treeNodeToBlockId.set(
+          event.nodeId,
+          this.callbacks.onAddPlan(event.tasks, event.revision, parentBlockId),
+        );
+        break;
+      }
+
       // text events are handled separately (not part of tree structure)
       // llm_call_stream and llm_call_error are informational
     }
@@ -3,7 +3,7 @@
  */
 
 import type { Box, Screen, ScrollableBox, Text, Textbox } from "@unblessed/node";
-import type { MediaKind } from "llmist";
+import type { MediaKind, PlanTask } from "llmist";
 
 // Note: Box is imported for SelectableBlock.box type
 
@@ -31,6 +31,8 @@ export interface TUIMetrics {
   outputTokens: number;
   /** Total cached input tokens */
   cachedTokens: number;
+  /** Total USD saved by prompt caching (negative when cache writes cost more) */
+  cacheSavings: number;
   /** Total reasoning/thinking tokens across all LLM calls */
   reasoningTokens: number;
   /** Total cost in USD */
@@ -151,7 +153,7 @@ export type CtrlCCallback = () => void;
 /**
  * Node type discriminator.
  */
-export type BlockNodeType = "llm_call" | "gadget" | "text" | "thinking" | "system_message";
+export type BlockNodeType = "llm_call" | "gadget" | "text" | "thinking" | "system_message" | "plan";
 
 /**
  * Base properties shared by all block nodes.
@@ -285,10 +287,30 @@ export interface SystemMessageNode extends BaseBlockNode {
   children: never[];
 }
 
+/**
+ * Plan node - the plan of an agent in planning mode.
+ * Updated in place as tasks progress.
+ */
+export interface PlanNode extends BaseBlockNode {
+  type: "plan";
+  /** Current tasks of the plan */
+  tasks: PlanTask[];
+  /** Number of changes made to the plan, starting at 1 */
+  revision: number;
+  /** Plans have no children */
+  children: never[];
+}
+
 /**
  * Union of all block node types.
  */
-export type BlockNode = LLMCallNode | GadgetNode | TextNode | ThinkingNode | SystemMessageNode;
+export type BlockNode =
+  | LLMCallNode
+  | GadgetNode
+  | TextNode
+  | ThinkingNode
+  | SystemMessageNode
+  | PlanNode;
 
 /**
  * A rendered block with UI state.
@@ -21,7 +21,7 @@
  */
 
 import chalk from "chalk";
-import type { StoredMedia, TokenUsage } from "llmist";
+import type { CacheStats, StoredMedia, TokenUsage } from "llmist";
 import { format } from "llmist";
 import { formatCallNumber } from "./call-number.js";
 import { formatExecutionTime } from "./format-time.js";
@@ -46,6 +46,7 @@ import { renderMarkdownWithSeparators } from "./markdown-renderer.js";
 import { formatTokens } from "./metric-formatters.js";
 import {
   buildTokenMetrics,
+  cacheHitPart,
   costPart,
   finishReasonPart,
   joinParts,
@@ -228,6 +229,9 @@ export interface SummaryMetadata {
   /** Total cost in USD (calculated via ModelRegistry) */
   cost?: number;
 
+  /** Prompt cache statistics (shown when any input was served from cache) */
+  cache?: CacheStats;
+
   /** Elapsed time in seconds */
   elapsedSeconds?: number;
 }
@@ -238,7 +242,7 @@ export interface SummaryMetadata {
  * Formats agent/LLM execution metrics in a consistent format used across CLI commands.
  * Only includes fields that have values, making the output clean and concise.
  *
- * **Format:** `#N | ↑ input │ ↓ output │ time | cost | finish`
+ * **Format:** `#N | ↑ input │ ↓ output │ cache hit │ time | cost | finish`
  *
  * **Color scheme:**
  * - Cyan: Iteration number and cost (highlights key metrics)
@@ -298,6 +302,11 @@ export function renderSummary(metadata: SummaryMetadata): string | null {
     );
   }
 
+  // Cache hit ratio and savings - how well prompt caching worked
+  if (metadata.cache && metadata.cache.cachedInputTokens > 0) {
+    parts.push(cacheHitPart(metadata.cache.hitRatio, metadata.cache.savingsUSD));
+  }
+
   // Elapsed time - performance metric
   if (metadata.elapsedSeconds !== undefined && metadata.elapsedSeconds > 0) {
     parts.push(timePart(metadata.elapsedSeconds));
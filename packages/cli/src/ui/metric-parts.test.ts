@@ -2,6 +2,7 @@ import chalk from "chalk";
 import { beforeAll, describe, expect, it } from "vitest";
 import {
   buildTokenMetrics,
+  cacheHitPart,
   costPart,
   finishReasonPart,
   joinParts,
@@ -152,6 +153,24 @@ describe("costPart", () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// cacheHitPart
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("cacheHitPart", () => {
+  it("renders the hit ratio as a rounded percentage", () => {
+    expect(stripAnsi(cacheHitPart(0.634))).toBe("63% cached");
+  });
+
+  it("appends positive savings", () => {
+    expect(stripAnsi(cacheHitPart(0.8, 0.0041))).toBe("80% cached (saved $0.0041)");
+  });
+
+  it("omits zero or negative savings", () => {
+    expect(stripAnsi(cacheHitPart(0.1, -0.002))).toBe("10% cached");
+  });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // timePart
 // ─────────────────────────────────────────────────────────────────────────────
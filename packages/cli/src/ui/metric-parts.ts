@@ -13,7 +13,7 @@
  *
  * **Color scheme:**
  * - Yellow: Input tokens (↑)
- * - Blue: Cached tokens (⟳)
+ * - Blue: Cached tokens (⟳) and cache hit ratio
  * - Green: Output tokens (↓)
  * - Magenta: Reasoning tokens (💭) and cache-creation tokens (✎)
  * - Cyan: Cost ($)
@@ -120,6 +120,28 @@ export function costPart(cost: number): string {
   return chalk.cyan(`$${formatCost(cost)}`);
 }
 
+/**
+ * Renders prompt cache effectiveness as a blue hit percentage, followed by
+ * the dollars caching saved when that is positive.
+ *
+ * @param hitRatio - Share of input tokens served from cache (0–1).
+ * @param savingsUSD - USD saved by caching (omitted when ≤ 0).
+ * @returns Terminal string, e.g. `"63% cached (saved $0.0041)"`.
+ *
+ * @example
+ * ```typescript
+ * cacheHitPart(0.63, 0.0041)  // "63% cached (saved $0.0041)" (blue %, cyan cost)
+ * cacheHitPart(0.2)           // "20% cached"
+ * ```
+ */
+export function cacheHitPart(hitRatio: number, savingsUSD = 0): string {
+  const hit = chalk.blue(`${Math.round(hitRatio * 100)}%`) + chalk.dim(" cached");
+  if (savingsUSD <= 0) {
+    return hit;
+  }
+  return `${hit} ${chalk.dim("(saved ")}${costPart(savingsUSD)}${chalk.dim(")")}`;
+}
+
 /**
  * Renders an elapsed-time value as a dim seconds string.
  *
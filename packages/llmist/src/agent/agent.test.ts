@@ -5,7 +5,10 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { z } from "zod";
 import type { LLMist } from "../core/client.js";
-import { BudgetPricingUnavailableError } from "../gadgets/exceptions.js";
+import { GADGET_ARG_PREFIX, GADGET_END_PREFIX, GADGET_START_PREFIX } from "../core/constants.js";
+import { toolCall, toolResult } from "../core/input-content.js";
+import { ModelRegistry } from "../core/model-registry.js";
+import { BudgetExceededError, BudgetPricingUnavailableError } from "../gadgets/exceptions.js";
 import { GadgetRegistry } from "../gadgets/registry.js";
 import { Gadget } from "../gadgets/typed-gadget.js";
 import { AgentBuilder } from "./builder.js";
@@ -125,6 +128,329 @@ describe("Agent Architecture", () => {
 
       expect(agent).toBeDefined();
     });
+
+    it("should throw BudgetExceededError when the next call could exceed the budget", async () => {
+      const modelRegistry = new ModelRegistry();
+      modelRegistry.registerModel({
+        provider: "test",
+        modelId: "model",
+        displayName: "Test Model",
+        contextWindow: 200_000,
+        maxOutputTokens: 4096,
+        pricing: { input: 3.0, output: 15.0 },
+        knowledgeCutoff: "2025-01",
+        features: { streaming: true, functionCalling: true, vision: false },
+      });
+      const clientWithPricing = {
+        stream: vi.fn(),
+        modelRegistry,
+        tokens: { count: vi.fn(async () => 100_000), countLocal: vi.fn(() => 100_000) },
+      } as unknown as LLMist;
+      const afterLLMError = vi.fn();
+
+      const agent = new AgentBuilder(clientWithPricing)
+        .withModel("test:model")
+        .withGadgets(...registry.getAll())
+        .withBudget(0.1, { onExceed: "refuse" })
+        .withHooks({ controllers: { afterLLMError } })
+        .ask("Test prompt");
+
+      await expect(async () => {
+        for await (const _event of agent.run()) {
+          // drain
+        }
+      }).rejects.toThrow(BudgetExceededError);
+      expect(clientWithPricing.stream).not.toHaveBeenCalled();
+      // A refused call is not an LLM error, so error controllers can't recover it
+      expect(afterLLMError).not.toHaveBeenCalled();
+    });
+
+    it("makes no pre-flight check without a budget policy", async () => {
+      const modelRegistry = new ModelRegistry();
+      modelRegistry.registerModel({
+        provider: "test",
+        modelId: "model",
+        displayName: "Test Model",
+        contextWindow: 200_000,
+        maxOutputTokens: 4096,
+        pricing: { input: 3.0, output: 15.0 },
+        knowledgeCutoff: "2025-01",
+        features: { streaming: true, functionCalling: true, vision: false },
+      });
+      const clientWithPricing = {
+        stream: vi.fn(async function* () {
+          yield { text: "Done" };
+        }),
+        modelRegistry,
+        tokens: { count: vi.fn(async () => 100_000), countLocal: vi.fn(() => 100_000) },
+      } as unknown as LLMist;
+
+      const agent = new AgentBuilder(clientWithPricing)
+        .withModel("test:model")
+        .withBudget(0.1)
+        .ask("Test prompt");
+      for await (const _event of agent.run()) {
+        // drain
+      }
+
+      expect(clientWithPricing.stream).toHaveBeenCalledWith(
+        expect.objectContaining({ maxTokens: 4096 }),
+      );
+      expect(clientWithPricing.tokens.countLocal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Gadget transport", () => {
+    async function runOnce(
+      builder: AgentBuilder,
+    ): Promise<{ messages: Array<{ role: string; content: unknown }>; tools?: unknown }> {
+      for await (const _event of builder.withMaxIterations(1).ask("Add 1 and 2").run()) {
+        // drain
+      }
+      return vi.mocked(mockClient.stream).mock.calls[0][0] as never;
+    }
+
+    it("describes gadgets in the system prompt by default", async () => {
+      const options = await runOnce(
+        new AgentBuilder(mockClient).withModel("test:model").withGadgets(...registry.getAll()),
+      );
+
+      expect(options.tools).toBeUndefined();
+      expect(JSON.stringify(options.messages)).toContain("TestCalculator");
+    });
+
+    it("sends gadgets as tool definitions with the native transport", async () => {
+      const options = await runOnce(
+        new AgentBuilder(mockClient)
+          .withModel("test:model")
+          .withGadgets(...registry.getAll())
+          .withGadgetTransport("native"),
+      );
+
+      expect(options.tools).toContainEqual(
+        expect.objectContaining({
+          name: "TestCalculator",
+          description: "A test calculator",
+          parameters: expect.objectContaining({ required: ["a", "b"] }),
+        }),
+      );
+      expect(JSON.stringify(options.messages)).not.toContain("TestCalculator");
+    });
+
+    it("executes native tool calls and records the result", async () => {
+      vi.mocked(mockClient.stream)
+        .mockImplementationOnce(async function* () {
+          yield {
+            text: "",
+            toolCalls: [
+              { index: 0, id: "call_1", name: "TestCalculator", argumentsDelta: '{"a":1,"b":2}' },
+            ],
+          };
+        })
+        .mockImplementationOnce(async function* () {
+          yield { text: "The sum is 3." };
+        });
+
+      const agent = new AgentBuilder(mockClient)
+        .withModel("test:model")
+        .withGadgets(...registry.getAll())
+        .withGadgetTransport("native")
+        .withMaxIterations(2)
+        .ask("Add 1 and 2");
+
+      const results = [];
+      for await (const event of agent.run()) {
+        if (event.type === "gadget_result") results.push(event.result);
+      }
+
+      expect(results).toEqual([
+        expect.objectContaining({ invocationId: "call_1", result: "Result: 3" }),
+      ]);
+      const secondCall = vi.mocked(mockClient.stream).mock.calls[1][0];
+      expect(secondCall.messages.at(-1)?.content).toEqual([
+        toolResult("call_1", "TestCalculator", "Result: 3"),
+      ]);
+    });
+
+    it("records native calls in the history as tool call and result parts", async () => {
+      vi.mocked(mockClient.stream).mockImplementationOnce(async function* () {
+        yield {
+          text: "",
+          toolCalls: [
+            { index: 0, id: "call_1", name: "TestCalculator", argumentsDelta: '{"a":1,"b":2}' },
+          ],
+        };
+      });
+
+      const agent = new AgentBuilder(mockClient)
+        .withModel("test:model")
+        .withGadgets(...registry.getAll())
+        .withGadgetTransport("native")
+        .withMaxIterations(1)
+        .ask("Add 1 and 2");
+      for await (const _event of agent.run()) {
+        // drain
+      }
+
+      const history = agent.getConversation().getHistoryMessages();
+      expect(history.slice(1)).toMatchObject([
+        { role: "assistant", content: [toolCall("call_1", "TestCalculator", { a: 1, b: 2 })] },
+        { role: "user", content: [toolResult("call_1", "TestCalculator", "Result: 3")] },
+      ]);
+      expect(JSON.stringify(history)).not.toContain(GADGET_START_PREFIX);
+    });
+
+    it("does not parse block markers in text with the native transport", async () => {
+      vi.mocked(mockClient.stream).mockImplementationOnce(async function* () {
+        yield {
+          text: `${GADGET_START_PREFIX}TestCalculator\n${GADGET_ARG_PREFIX}a\n1\n${GADGET_ARG_PREFIX}b\n2\n${GADGET_END_PREFIX}`,
+        };
+      });
+
+      const agent = new AgentBuilder(mockClient)
+        .withModel("test:model")
+        .withGadgets(...registry.getAll())
+        .withGadgetTransport("native")
+        .withMaxIterations(1)
+        .ask("Add 1 and 2");
+      const types = [];
+      for await (const event of agent.run()) {
+        types.push(event.type);
+      }
+
+      expect(types).not.toContain("gadget_call");
+    });
+
+    it("uses the native transport in auto mode when the provider supports tools", async () => {
+      const supportsNativeTools = vi.fn().mockReturnValue(true);
+      (mockClient as unknown as { supportsNativeTools: unknown }).supportsNativeTools =
+        supportsNativeTools;
+
+      const options = await runOnce(
+        new AgentBuilder(mockClient)
+          .withModel("test:model")
+          .withGadgets(...registry.getAll())
+          .withGadgetTransport("auto"),
+      );
+
+      expect(supportsNativeTools).toHaveBeenCalledWith("test:model");
+      expect(options.tools).toContainEqual(expect.objectContaining({ name: "TestCalculator" }));
+    });
+  });
+
+  describe("Fallback models", () => {
+    it("switches to the fallback model and prices the call with it", async () => {
+      const estimateCost = vi.fn().mockReturnValue({ totalCost: 0.01 });
+      const getModelLimits = vi.fn((model: string) => ({
+        maxOutputTokens: model === "test:backup" ? 2048 : 4096,
+      }));
+      mockClient = {
+        stream: vi
+          .fn()
+          // biome-ignore lint/correctness/useYield: intentionally throwing generator
+          .mockImplementationOnce(async function* () {
+            throw Object.assign(new Error("overloaded"), { status: 529 });
+          })
+          .mockImplementation(async function* () {
+            yield { text: "Backup response", usage: { inputTokens: 10, outputTokens: 5 } };
+          }),
+        modelRegistry: { getModelLimits, estimateCost },
+      } as unknown as LLMist;
+      const onModelFallback = vi.fn();
+
+      const agent = new AgentBuilder(mockClient)
+        .withModel("test:primary")
+        .withFallbackModels(["test:backup"])
+        .withoutRetry()
+        .withHooks({ observers: { onModelFallback } })
+        .withMaxIterations(1)
+        .ask("Hello");
+      for await (const _event of agent.run()) {
+        // drain
+      }
+
+      const calls = vi.mocked(mockClient.stream).mock.calls.map(([options]) => options);
+      expect(calls.map((options) => [options.model, options.maxTokens])).toEqual([
+        ["test:primary", 4096],
+        ["test:backup", 2048],
+      ]);
+      // The agent owns the fallback chain, so the client must not apply its own
+      expect(calls[0].fallbackModels).toEqual([]);
+      expect(onModelFallback).toHaveBeenCalledWith(
+        expect.objectContaining({ fromModel: "test:primary", toModel: "test:backup" }),
+      );
+      expect(estimateCost).toHaveBeenCalledWith("test:backup", 10, 5, 0, 0, 0);
+
+      const [node] = agent.getTree().getRoots();
+      expect(node.type === "llm_call" && node.model).toBe("test:backup");
+      expect(node.type === "llm_call" && node.fallbacks).toHaveLength(1);
+    });
+
+    it("keeps a controller's output limit for the fallback model", async () => {
+      mockClient = {
+        stream: vi
+          .fn()
+          // biome-ignore lint/correctness/useYield: intentionally throwing generator
+          .mockImplementationOnce(async function* () {
+            throw Object.assign(new Error("overloaded"), { status: 529 });
+          })
+          .mockImplementation(async function* () {
+            yield { text: "Backup response" };
+          }),
+        modelRegistry: { getModelLimits: vi.fn().mockReturnValue({ maxOutputTokens: 2048 }) },
+      } as unknown as LLMist;
+
+      const agent = new AgentBuilder(mockClient)
+        .withModel("test:primary")
+        .withFallbackModels(["test:backup"])
+        .withoutRetry()
+        .withHooks({
+          controllers: {
+            beforeLLMCall: async () => ({
+              action: "proceed",
+              modifiedOptions: { maxTokens: 1000 },
+            }),
+          },
+        })
+        .withMaxIterations(1)
+        .ask("Hello");
+      for await (const _event of agent.run()) {
+        // drain
+      }
+
+      const calls = vi.mocked(mockClient.stream).mock.calls.map(([options]) => options);
+      expect(calls.map((options) => [options.model, options.maxTokens])).toEqual([
+        ["test:primary", 1000],
+        ["test:backup", 1000],
+      ]);
+    });
+
+    it("uses the client's fallbacks by default", async () => {
+      mockClient = {
+        stream: vi
+          .fn()
+          // biome-ignore lint/correctness/useYield: intentionally throwing generator
+          .mockImplementationOnce(async function* () {
+            throw Object.assign(new Error("overloaded"), { status: 529 });
+          })
+          .mockImplementation(async function* () {
+            yield { text: "Backup response" };
+          }),
+        modelRegistry: { getModelLimits: vi.fn() },
+        fallbacks: ["test:backup"],
+      } as unknown as LLMist;
+
+      const agent = new AgentBuilder(mockClient)
+        .withModel("test:primary")
+        .withoutRetry()
+        .withMaxIterations(1)
+        .ask("Hello");
+      for await (const _event of agent.run()) {
+        // drain
+      }
+
+      expect(vi.mocked(mockClient.stream).mock.calls[1][0].model).toBe("test:backup");
+    });
   });
 
   describe("Architecture Benefits", () => {
@@ -12,16 +12,23 @@ import type { ContentPart } from "../core/input-content.js";
 import type { MessageContent } from "../core/messages.js";
 import { LLMMessageBuilder } from "../core/messages.js";
 import { resolveModel } from "../core/model-shortcuts.js";
-import type { CachingConfig, LLMGenerationOptions, ReasoningConfig } from "../core/options.js";
+import type {
+  CachingConfig,
+  LLMGenerationOptions,
+  ProviderCredentialsMap,
+  ReasoningConfig,
+} from "../core/options.js";
 import type { PromptTemplateConfig } from "../core/prompt-config.js";
 import type { RateLimitConfig } from "../core/rate-limit.js";
 import { RateLimitTracker, resolveRateLimitConfig } from "../core/rate-limit.js";
 import type { ResolvedRetryConfig, RetryConfig } from "../core/retry.js";
 import { isLikelyContextOverflow, resolveRetryConfig } from "../core/retry.js";
-import { BudgetPricingUnavailableError } from "../gadgets/exceptions.js";
+import { BudgetExceededError, BudgetPricingUnavailableError } from "../gadgets/exceptions.js";
 import { MediaStore } from "../gadgets/media-store.js";
+import { type GadgetTransport, gadgetToToolDefinition } from "../gadgets/native-tools.js";
 import type { GadgetRegistry } from "../gadgets/registry.js";
 import type {
+  AgentSuspendedEvent,
   GadgetExecutionMode,
   StreamCompletionEvent,
   StreamEvent,
@@ -29,7 +36,16 @@ import type {
   TextOnlyHandler,
 } from "../gadgets/types.js";
 import { createLogger } from "../logging/logger.js";
+import { LOAD_SKILL_GADGET_NAME } from "../skills/load-skill-gadget.js";
 import { type AGENT_INTERNAL_KEY, isValidAgentKey } from "./agent-internal-key.js";
+import type { BudgetPolicy } from "./budget-guard.js";
+import {
+  AGENT_CHECKPOINT_VERSION,
+  type AgentCheckpoint,
+  assertSupportedCheckpoint,
+  type CheckpointingConfig,
+  type CheckpointSuspension,
+} from "./checkpoint.js";
 import type { CompactionConfig, CompactionEvent, CompactionStats } from "./compaction/config.js";
 import { CompactionManager } from "./compaction/manager.js";
 import { ConversationManager } from "./conversation-manager.js";
@@ -38,6 +54,7 @@ import { type EventHandlers, runWithHandlers } from "./event-handlers.js";
 import type {
   AgentHooks,
   ObserveAbortContext,
+  ObserveOutputValidationContext,
   ObserveRateLimitThrottleContext,
   Observers,
 } from "./hooks.js";
@@ -45,6 +62,13 @@ import type { IConversationManager } from "./interfaces.js";
 import { LLMCallLifecycle } from "./llm-call-lifecycle.js";
 import type { OutputLimitConfig } from "./output-limit-manager.js";
 import { OutputLimitManager } from "./output-limit-manager.js";
+import {
+  formatOutputRepairMessage,
+  type OutputValidationConfig,
+  OutputValidationError,
+  validateOutput,
+} from "./output-validation.js";
+import type { AgentPlan } from "./planning.js";
 import { RetryOrchestrator } from "./retry-orchestrator.js";
 import { safeObserve } from "./safe-observe.js";
 import type { StreamProcessor } from "./stream-processor.js";
@@ -116,6 +140,12 @@ export interface AgentOptions {
   /** The model ID */
   model: string;
 
+  /**
+   * Models to switch to, in order, once retries for the current model are
+   * exhausted on a retryable error. Defaults to the client's `fallbacks`.
+   */
+  fallbackModels?: string[];
+
   /** System prompt */
   systemPrompt?: string;
 
@@ -128,6 +158,9 @@ export interface AgentOptions {
   /** Budget limit in USD. Agent loop stops when cumulative cost reaches this limit. */
   budget?: number;
 
+  /** Pre-flight enforcement of `budget` before each LLM call; off when unset */
+  budgetPolicy?: BudgetPolicy;
+
   /** Temperature */
   temperature?: number;
 
@@ -173,6 +206,9 @@ export interface AgentOptions {
   /** Gadget execution mode: 'parallel' (default) or 'sequential' */
   gadgetExecutionMode?: GadgetExecutionMode;
 
+  /** How gadget calls are transported: 'block' (default), 'native' or 'auto' */
+  gadgetTransport?: GadgetTransport;
+
   /** Custom prompt configuration for gadget system prompts */
   promptConfig?: PromptTemplateConfig;
 
@@ -199,12 +235,42 @@ export interface AgentOptions {
   /** Context caching configuration for supported providers */
   caching?: CachingConfig;
 
+  /** Per-request provider credentials for all LLM calls (inherited by subagents) */
+  credentials?: ProviderCredentialsMap;
+
   /** Subagent-specific configuration overrides (from CLI config) */
   subagentConfig?: SubagentConfigMap;
 
   /** Maximum gadgets to execute per LLM response (0 = unlimited) */
   maxGadgetsPerResponse?: number;
 
+  /** Names of the skills activated before the run (reported in checkpoints) */
+  preActivatedSkills?: string[];
+
+  /**
+   * Checkpoint to continue from. Its conversation replaces `systemPrompt` and
+   * `initialMessages`; the loop continues at its next iteration.
+   */
+  resumeFrom?: AgentCheckpoint;
+
+  /** Save a checkpoint to this store after each iteration */
+  checkpointing?: CheckpointingConfig;
+
+  /**
+   * End the run with a `suspended` event when a gadget asks for human input,
+   * instead of calling `requestHumanInput`
+   */
+  suspendOnHumanInput?: boolean;
+
+  /** Answer to the first pending request of a suspended `resumeFrom` checkpoint */
+  humanInputAnswer?: string;
+
+  /** Plan of the agent in planning mode, shown in the execution tree and checkpoints */
+  plan?: AgentPlan;
+
+  /** Validators the final answer must pass (see `AgentBuilder.withOutputValidator`) */
+  outputValidation?: OutputValidationConfig;
+
   // ==========================================================================
   // Execution Tree Context (for shared tree model with subagents)
   // ==========================================================================
@@ -269,11 +335,31 @@ export class Agent {
   private readonly hooks: AgentHooks;
   private readonly conversation: ConversationManager;
   private readonly registry: GadgetRegistry;
+  private readonly nativeGadgetTools: boolean;
   private readonly prefixConfig?: PrefixConfig;
   private readonly conversationUpdater: ConversationUpdater;
   private readonly defaultMaxTokens?: number;
+  private readonly fallbackModels: string[];
   private hasUserPrompt: boolean;
 
+  // Next iteration of the agent loop (non-zero when resumed from a checkpoint)
+  private iteration: number;
+  private readonly checkpointing?: CheckpointingConfig;
+  private readonly preActivatedSkills: string[];
+
+  // Gadgets waiting for human input (suspend mode) and the answer to resume with
+  private suspension?: CheckpointSuspension;
+  private humanInputAnswer?: string;
+
+  // Plan in planning mode (see AgentBuilder.withPlanning)
+  private readonly plan?: AgentPlan;
+
+  // Final answer, its validators and the last rejected answer
+  private readonly outputValidation?: OutputValidationConfig;
+  private output?: unknown;
+  private outputAttempts = 0;
+  private rejectedOutput?: { output: string; issues: string[] };
+
   // Gadget output limiting
   private readonly outputLimitManager: OutputLimitManager;
 
@@ -329,6 +415,9 @@ export class Agent {
 
     this.client = options.client;
     this.model = resolveModel(options.model);
+    this.fallbackModels = (options.fallbackModels ?? options.client.fallbacks ?? []).map((model) =>
+      resolveModel(model),
+    );
     this.maxIterations = options.maxIterations ?? 10;
     this.budget = options.budget;
     this.temperature = options.temperature;
@@ -368,11 +457,19 @@ export class Agent {
       baseBuilder.addSystem(options.systemPrompt);
     }
 
-    baseBuilder.addGadgets(this.registry.getAll(), {
-      startPrefix: this.prefixConfig?.gadgetStartPrefix,
-      endPrefix: this.prefixConfig?.gadgetEndPrefix,
-      argPrefix: this.prefixConfig?.gadgetArgPrefix,
-    });
+    // Native transport sends gadgets as tool definitions with every request
+    // instead of describing the block format in the system prompt
+    const transport = options.gadgetTransport ?? "block";
+    this.nativeGadgetTools =
+      transport === "native" ||
+      (transport === "auto" && this.client.supportsNativeTools(this.model));
+    if (!this.nativeGadgetTools) {
+      baseBuilder.addGadgets(this.registry.getAll(), {
+        startPrefix: this.prefixConfig?.gadgetStartPrefix,
+        endPrefix: this.prefixConfig?.gadgetEndPrefix,
+        argPrefix: this.prefixConfig?.gadgetArgPrefix,
+      });
+    }
     const baseMessages = baseBuilder.build();
 
     const initialMessages = (options.initialMessages ?? []).map((message) => ({
@@ -380,12 +477,34 @@ export class Agent {
       content: message.content,
     }));
 
-    this.conversation = new ConversationManager(baseMessages, initialMessages, {
-      startPrefix: this.prefixConfig?.gadgetStartPrefix,
-      endPrefix: this.prefixConfig?.gadgetEndPrefix,
-      argPrefix: this.prefixConfig?.gadgetArgPrefix,
-    });
-    this.hasUserPrompt = !!options.userPrompt;
+    // A resumed agent continues the checkpoint's conversation as it was
+    const resume = options.resumeFrom;
+    if (resume) {
+      assertSupportedCheckpoint(resume);
+      if (options.treeConfig?.tree) {
+        throw new Error(
+          "A subagent sharing its parent's execution tree cannot resume from a checkpoint",
+        );
+      }
+    }
+    if (options.humanInputAnswer !== undefined && !resume?.suspension) {
+      throw new Error("Cannot answer a checkpoint that is not suspended on human input");
+    }
+
+    this.conversation = new ConversationManager(
+      resume?.conversation.base ?? baseMessages,
+      resume?.conversation.initial ?? initialMessages,
+      {
+        startPrefix: this.prefixConfig?.gadgetStartPrefix,
+        endPrefix: this.prefixConfig?.gadgetEndPrefix,
+        argPrefix: this.prefixConfig?.gadgetArgPrefix,
+        nativeGadgetCalls: this.nativeGadgetTools,
+      },
+    );
+    if (resume) {
+      this.conversation.restoreHistory(resume.conversation.history);
+    }
+    this.hasUserPrompt = !!options.userPrompt || !!resume;
     if (options.userPrompt) {
       this.conversation.addUserMessage(options.userPrompt);
     }
@@ -406,12 +525,34 @@ export class Agent {
         this.model,
         options.compactionConfig,
         this.logger,
+        options.credentials,
       );
     }
 
     // Store abort signal for cancellation
     this.signal = options.signal;
 
+    this.iteration = resume?.iteration ?? 0;
+    this.checkpointing = options.checkpointing;
+    this.preActivatedSkills = [
+      ...new Set([...(resume?.activeSkills ?? []), ...(options.preActivatedSkills ?? [])]),
+    ];
+    if (resume) {
+      if (resume.compaction) {
+        this.compactionManager?.restoreStats(resume.compaction);
+      }
+      this.outputLimitManager.getOutputStore().restore(
+        resume.gadgetOutputs.map((output) => ({
+          ...output,
+          timestamp: new Date(output.timestamp),
+        })),
+      );
+      for (const id of resume.invocations.completed) this.completedInvocationIds.add(id);
+      for (const id of resume.invocations.failed) this.failedInvocationIds.add(id);
+      this.suspension = resume.suspension;
+    }
+    this.humanInputAnswer = options.humanInputAnswer;
+
     // Capture MCP server specs (only honored when non-empty — zero-overhead
     // when no MCP servers were configured).
     this.mcpSpecs = options.mcpSpecs ?? [];
@@ -439,9 +580,21 @@ export class Agent {
 
     // Initialize Execution Tree from treeConfig (or create a new one for root agents)
     const treeConfig = options.treeConfig;
-    this.tree = treeConfig?.tree ?? new ExecutionTree();
+    this.tree =
+      treeConfig?.tree ?? (resume ? ExecutionTree.fromSnapshot(resume.tree) : new ExecutionTree());
     this.parentNodeId = treeConfig?.parentNodeId ?? null;
 
+    // Keep the plan node of the tree in step with the plan
+    this.plan = options.plan;
+    if (this.plan) {
+      if (resume?.plan) {
+        this.plan.restore(resume.plan);
+      }
+      this.plan.onChange((tasks) => this.tree.setPlan(tasks, this.parentNodeId));
+    }
+
+    this.outputValidation = options.outputValidation;
+
     // Initialize StreamProcessor factory — encapsulates all pass-through StreamProcessor config
     this.streamProcessorFactory = new StreamProcessorFactory({
       registry: this.registry,
@@ -449,6 +602,7 @@ export class Agent {
       hooks: this.hooks,
       logger: this.logger,
       requestHumanInput: options.requestHumanInput,
+      suspendOnHumanInput: options.suspendOnHumanInput,
       defaultGadgetTimeoutMs: options.defaultGadgetTimeoutMs,
       gadgetExecutionMode: options.gadgetExecutionMode ?? "parallel",
       client: this.client,
@@ -463,7 +617,9 @@ export class Agent {
       parentObservers: treeConfig?.parentObservers,
       rateLimitTracker: this.rateLimitTracker,
       retryConfig: this.retryConfig,
+      credentials: options.credentials,
       maxGadgetsPerResponse: options.maxGadgetsPerResponse ?? 0,
+      nativeGadgetTools: this.nativeGadgetTools,
     });
 
     // Initialize LLM call lifecycle helper
@@ -478,11 +634,17 @@ export class Agent {
       temperature: this.temperature,
       reasoning: this.reasoning,
       caching: this.caching,
+      credentials: options.credentials,
       model: this.model,
       defaultMaxTokens: this.defaultMaxTokens,
       maxIterations: this.maxIterations,
       budget: this.budget,
+      budgetPolicy: options.budgetPolicy,
       parentNodeId: this.parentNodeId,
+      // Read from the registry per call so gadgets registered later (MCP) are included
+      gadgetTools: this.nativeGadgetTools
+        ? () => this.registry.getAll().map(gadgetToToolDefinition)
+        : undefined,
     });
 
     // Validate budget against model pricing
@@ -590,6 +752,26 @@ export class Agent {
     return this.tree;
   }
 
+  /**
+   * Get the plan of an agent in planning mode (`AgentBuilder.withPlanning()`).
+   *
+   * @returns The plan, or undefined when planning is not enabled
+   */
+  getPlan(): AgentPlan | undefined {
+    return this.plan;
+  }
+
+  /**
+   * Get the final answer of the run: the text of the last response, or the
+   * message of a `TaskCompletionSignal`. With a schema output validator
+   * (`AgentBuilder.withOutputValidator()`), the parsed and validated value.
+   *
+   * @returns The final answer, or undefined until the run has given a valid one
+   */
+  getOutput(): unknown {
+    return this.output;
+  }
+
   /**
    * Manually trigger context compaction.
    *
@@ -657,6 +839,63 @@ export class Agent {
     return this.conversation;
   }
 
+  /**
+   * Take a snapshot of the agent that a new agent can continue from, e.g.
+   * after the process running this one restarts.
+   *
+   * The snapshot is plain JSON data: the conversation, the next iteration,
+   * the execution tree, stored gadget outputs, active skills and compaction
+   * stats. Taken between iterations it captures a consistent state; with
+   * `AgentBuilder.withCheckpointing()` the agent saves one after each
+   * iteration.
+   *
+   * @returns Versioned checkpoint for `AgentBuilder.resumeFrom()`
+   *
+   * @example
+   * ```typescript
+   * const checkpoint = agent.checkpoint();
+   * await writeFile("run.json", JSON.stringify(checkpoint));
+   *
+   * // Later, in another process
+   * const saved = JSON.parse(await readFile("run.json", "utf-8"));
+   * const resumed = LLMist.createAgent()
+   *   .withModel("sonnet")
+   *   .withGadgets(ReadFile, WriteFile)
+   *   .resumeFrom(saved)
+   *   .build();
+   * ```
+   */
+  checkpoint(): AgentCheckpoint {
+    const tree = this.tree.snapshot();
+    const loadedSkills = tree.nodes.flatMap((node) =>
+      node.type === "gadget" && node.name === LOAD_SKILL_GADGET_NAME && node.state === "completed"
+        ? ((node.parameters.skills as string[] | undefined) ?? [])
+        : [],
+    );
+
+    return structuredClone({
+      version: AGENT_CHECKPOINT_VERSION,
+      createdAt: new Date().toISOString(),
+      model: this.model,
+      iteration: this.iteration,
+      totalCost: this.tree.getTotalCost(),
+      conversation: this.conversation.snapshot(),
+      tree,
+      gadgetOutputs: this.outputLimitManager
+        .getOutputStore()
+        .list()
+        .map((output) => ({ ...output, timestamp: output.timestamp.toISOString() })),
+      activeSkills: [...new Set([...this.preActivatedSkills, ...loadedSkills])],
+      compaction: this.compactionManager?.getStats() ?? null,
+      invocations: {
+        completed: [...this.completedInvocationIds],
+        failed: [...this.failedInvocationIds],
+      },
+      ...(this.suspension && { suspension: this.suspension }),
+      ...(this.plan && { plan: this.plan.snapshot() }),
+    });
+  }
+
   /**
    * Inject a user message to be processed in the next iteration.
    * Used by REPL mode to allow user input during a running session.
@@ -724,11 +963,12 @@ export class Agent {
       });
     }
 
-    let currentIteration = 0;
+    let currentIteration = this.iteration;
 
     this.logger.info("Starting agent loop", {
       model: this.model,
       maxIterations: this.maxIterations,
+      ...(currentIteration > 0 && { resumedAtIteration: currentIteration }),
       ...(this.budget !== undefined && { budget: this.budget }),
     });
 
@@ -742,6 +982,12 @@ export class Agent {
     let hasAttemptedOverflowRecovery = false;
 
     try {
+      // A suspended run records the answer and runs the gadgets waiting on it
+      // before the next LLM call; it ends here if it is still suspended
+      if (this.suspension && (yield* this.resumeSuspension(this.suspension))) {
+        return;
+      }
+
       while (currentIteration < this.maxIterations) {
         // Check abort signal at start of each iteration
         if (await this.checkAbortAndNotify(currentIteration)) {
@@ -770,7 +1016,8 @@ export class Agent {
           // Prepare LLM call (creates tree node and calls onLLMCallStart/Ready hooks)
           const prepared = await this.llmCallLifecycle.prepareLLMCall(currentIteration);
           llmOptions = prepared.options;
-          currentLLMNodeId = prepared.llmNodeId;
+          const llmNodeId = prepared.llmNodeId;
+          currentLLMNodeId = llmNodeId;
 
           // Handle skip action from beforeLLMCall controller
           if (prepared.skipWithSynthetic !== undefined) {
@@ -813,6 +1060,8 @@ export class Agent {
           }
 
           const { streamMetadata, textOutputs, gadgetResults, gadgetCallCount } = retryResult;
+          // The successful attempt may have used a fallback model
+          llmOptions = retryResult.llmOptions;
 
           // Use streamMetadata as the result for remaining logic
           const result = streamMetadata;
@@ -836,20 +1085,35 @@ export class Agent {
             gadgetCallCount,
           );
 
+          // Gadgets waiting for human input suspend the run: completed results
+          // join the conversation now, the waiting ones once they are answered
+          if (result.suspension) {
+            this.conversationUpdater.updateWithGadgetResults(textOutputs, gadgetResults);
+            this.suspension = {
+              ...result.suspension,
+              iteration: currentIteration,
+              llmNodeId,
+            };
+            break;
+          }
+
           // Update conversation with results (gadgets or text-only)
           const shouldBreakFromTextOnly = this.conversationUpdater.updateWithResults(
             textOutputs,
             gadgetResults,
             finalMessage,
           );
-          if (shouldBreakFromTextOnly) {
-            break;
-          }
-
-          // Check if loop should break
-          if (result.shouldBreakLoop) {
-            this.logger.info("Loop terminated by gadget or processor");
-            break;
+          // A rejected final answer gets a corrective message and another iteration
+          if (shouldBreakFromTextOnly || result.shouldBreakLoop) {
+            const output = shouldBreakFromTextOnly
+              ? finalMessage || textOutputs.join("")
+              : completionMessage(gadgetResults);
+            if (!(await this.checkOutput(output, currentIteration, llmNodeId))) {
+              if (result.shouldBreakLoop) {
+                this.logger.info("Loop terminated by gadget or processor");
+              }
+              break;
+            }
           }
 
           // Reactive compaction: use API-reported input tokens (ground truth) to check
@@ -886,6 +1150,11 @@ export class Agent {
             }
           }
         } catch (error) {
+          // A refused call is not an LLM error: no recovery, no error controller
+          if (error instanceof BudgetExceededError) {
+            throw error;
+          }
+
           // Attempt context overflow recovery: if the error looks like context overflow
           // and we haven't already tried recovery, force compaction and retry the iteration.
           // Minimum history of 4 messages (2 conversation turns) ensures there's meaningful
@@ -944,10 +1213,21 @@ export class Agent {
         }
 
         currentIteration++;
+        this.iteration = currentIteration;
+        await this.saveCheckpoint();
+      }
+
+      // A loop that ended early (text-only response, gadget, budget) still
+      // finished the iteration it broke out of
+      if (currentIteration < this.maxIterations) {
+        this.iteration = currentIteration + 1;
+        await this.saveCheckpoint();
       }
 
       let reason: string;
-      if (this.budget !== undefined && this.tree.getTotalCost() >= this.budget) {
+      if (this.suspension) {
+        reason = "suspended";
+      } else if (this.budget !== undefined && this.tree.getTotalCost() >= this.budget) {
         reason = "budget_exceeded";
       } else if (currentIteration >= this.maxIterations) {
         reason = "max_iterations";
@@ -963,6 +1243,15 @@ export class Agent {
           budget: this.budget,
         }),
       });
+
+      if (this.suspension) {
+        yield this.suspendedEvent(this.suspension);
+      } else if (this.rejectedOutput) {
+        throw new OutputValidationError({
+          ...this.rejectedOutput,
+          attempts: this.outputAttempts,
+        });
+      }
     } finally {
       // Safety net: Complete any in-flight LLM call if generator terminated early
       // This handles cases where consumers break from for-await loop prematurely
@@ -1008,6 +1297,140 @@ export class Agent {
     }
   }
 
+  /**
+   * Continue a suspended run: record the answer to the first pending request
+   * and run the gadgets that waited on it, as the rest of the suspended
+   * iteration. Without an answer the run stays suspended.
+   *
+   * @returns Whether the run ends here: still suspended, or a gadget broke the loop
+   */
+  private async *resumeSuspension(
+    suspension: CheckpointSuspension,
+  ): AsyncGenerator<StreamEvent, boolean> {
+    const answer = this.humanInputAnswer;
+    this.humanInputAnswer = undefined;
+    if (answer === undefined) {
+      yield this.suspendedEvent(suspension);
+      return true;
+    }
+
+    this.logger.info("Resuming suspended agent with human input", {
+      gadgetName: suspension.requests[0].gadgetName,
+      invocationId: suspension.requests[0].invocationId,
+    });
+
+    const processor = this.createStreamProcessor(suspension.iteration, suspension.llmNodeId);
+    const gadgetResults: StreamEvent[] = [];
+    let shouldBreakLoop = false;
+    for await (const event of processor.resumeSuspension(suspension, answer)) {
+      if (event.type === "gadget_result") {
+        gadgetResults.push(event);
+        shouldBreakLoop ||= event.result.breaksLoop === true;
+      }
+      yield event;
+    }
+
+    for (const id of processor.getCompletedInvocationIds()) {
+      this.completedInvocationIds.add(id);
+    }
+    for (const id of processor.getFailedInvocationIds()) {
+      this.failedInvocationIds.add(id);
+    }
+    this.conversationUpdater.updateWithResults([], gadgetResults, "");
+
+    const remaining = processor.getSuspension();
+    this.suspension = remaining && {
+      ...remaining,
+      iteration: suspension.iteration,
+      llmNodeId: suspension.llmNodeId,
+    };
+    await this.saveCheckpoint();
+
+    if (this.suspension) {
+      yield this.suspendedEvent(this.suspension);
+      return true;
+    }
+    if (shouldBreakLoop) {
+      this.logger.info("Loop terminated by gadget or processor");
+    }
+    return shouldBreakLoop;
+  }
+
+  /**
+   * Validate a final answer. While repairs are left, a rejected answer gets
+   * a corrective user message and the run continues.
+   *
+   * @returns Whether the run continues to repair the answer
+   */
+  private async checkOutput(
+    output: string,
+    iteration: number,
+    llmNodeId: string,
+  ): Promise<boolean> {
+    if (!this.outputValidation) {
+      this.output = output;
+      return false;
+    }
+
+    const attempt = ++this.outputAttempts;
+    const { valid, issues, value } = await validateOutput(this.outputValidation.validators, output);
+    const willRepair = !valid && attempt <= this.outputValidation.maxRepairs;
+
+    this.tree.recordOutputValidation(llmNodeId, { valid, issues, attempt });
+    await safeObserve(async () => {
+      if (this.hooks.observers?.onOutputValidation) {
+        const context: ObserveOutputValidationContext = {
+          iteration,
+          output,
+          valid,
+          issues,
+          attempt,
+          willRepair,
+          logger: this.logger,
+          subagentContext: getSubagentContextForNode(this.tree, llmNodeId),
+        };
+        await this.hooks.observers.onOutputValidation(context);
+      }
+    }, this.logger);
+
+    if (valid) {
+      this.output = value;
+      this.rejectedOutput = undefined;
+      return false;
+    }
+
+    this.logger.warn("Final answer failed validation", { attempt, issues, willRepair });
+    this.rejectedOutput = { output, issues };
+    if (willRepair) {
+      this.conversation.addUserMessage(formatOutputRepairMessage(issues));
+    }
+    return willRepair;
+  }
+
+  /**
+   * Build the event a suspended run ends with.
+   */
+  private suspendedEvent(suspension: CheckpointSuspension): AgentSuspendedEvent {
+    return { type: "suspended", token: this.checkpoint(), request: suspension.requests[0] };
+  }
+
+  /**
+   * Save a checkpoint to the configured store. A failing store doesn't stop
+   * the run: losing a checkpoint is cheaper than losing the run.
+   */
+  private async saveCheckpoint(): Promise<void> {
+    if (!this.checkpointing) return;
+    try {
+      await this.checkpointing.store.save(this.checkpointing.id, this.checkpoint());
+    } catch (error) {
+      this.logger.warn("Failed to save agent checkpoint", {
+        id: this.checkpointing.id,
+        iteration: this.iteration,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Execute a single LLM call attempt with full retry orchestration.
    *
@@ -1028,6 +1451,7 @@ export class Agent {
       textOutputs: string[];
       gadgetResults: StreamEvent[];
       gadgetCallCount: number;
+      llmOptions: LLMGenerationOptions;
     } | null
   > {
     const orchestrator = new RetryOrchestrator({
@@ -1036,6 +1460,9 @@ export class Agent {
       hooks: this.hooks,
       tree: this.tree,
       sleep: (ms) => this.sleep(ms),
+      fallbackModels: this.fallbackModels,
+      prepareFallback: (options, model, iteration, nodeId) =>
+        this.llmCallLifecycle.prepareFallbackCall(options, model, iteration, nodeId),
     });
 
     const result = yield* orchestrator.orchestrate(
@@ -1097,7 +1524,8 @@ export class Agent {
       this.rateLimitTracker.reserveRequest();
     }
 
-    return this.client.stream(llmOptions);
+    // Fallbacks are handled by the retry orchestrator once retries are exhausted
+    return this.client.stream({ ...llmOptions, fallbackModels: [] });
   }
 
   /**
@@ -1239,3 +1667,15 @@ export class Agent {
     return runWithHandlers(this.run(), handlers);
   }
 }
+
+/**
+ * Message of the `TaskCompletionSignal` that ended the loop.
+ */
+function completionMessage(gadgetResults: StreamEvent[]): string {
+  for (const event of gadgetResults) {
+    if (event.type === "gadget_result" && event.result.breaksLoop) {
+      return event.result.result ?? "";
+    }
+  }
+  return "";
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it, vi } from "vitest";
+import type { LLMist } from "../core/client.js";
+import type { ModelSpec } from "../core/model-catalog.js";
+import { ModelRegistry } from "../core/model-registry.js";
+import type { LLMGenerationOptions } from "../core/options.js";
+import { BudgetGuard } from "./budget-guard.js";
+
+function spec(modelId: string, overrides: Partial<ModelSpec> = {}): ModelSpec {
+  return {
+    provider: "test",
+    modelId,
+    displayName: modelId,
+    contextWindow: 100_000,
+    maxOutputTokens: 8_000,
+    pricing: { input: 10, output: 100 },
+    knowledgeCutoff: "2025-01",
+    features: { streaming: true, functionCalling: true, vision: true },
+    ...overrides,
+  };
+}
+
+/** Client whose messages always count as 1000 input tokens. */
+function createClient(): LLMist {
+  const modelRegistry = new ModelRegistry();
+  modelRegistry.registerModel(spec("big"));
+  modelRegistry.registerModel(
+    spec("cheap", { maxOutputTokens: 4_000, pricing: { input: 1, output: 2 } }),
+  );
+  return {
+    modelRegistry,
+    tokens: { count: vi.fn(async () => 1000), countLocal: vi.fn(() => 1000) },
+  } as unknown as LLMist;
+}
+
+function options(overrides: Partial<LLMGenerationOptions> = {}): LLMGenerationOptions {
+  return {
+    model: "test:big",
+    messages: [{ role: "user", content: "Hello" }],
+    maxTokens: 6000,
+    ...overrides,
+  };
+}
+
+// Worst case of test:big: 1000 input tokens at $10/M + 6000 output tokens at $100/M = $0.61
+
+describe("BudgetGuard", () => {
+  it("proceeds when the worst case fits the remaining budget", async () => {
+    const guard = new BudgetGuard(createClient(), 1);
+
+    const decision = await guard.check(options(), 0.1);
+
+    expect(decision.action).toBe("proceed");
+    expect(decision.remainingBudget).toBeCloseTo(0.9);
+    expect(decision.estimate).toMatchObject({
+      model: "test:big",
+      inputTokens: 1000,
+      maxTokens: 6000,
+    });
+    expect(decision.estimate?.worstCaseCost).toBeCloseTo(0.61);
+  });
+
+  it("proceeds when the model has no pricing", async () => {
+    const guard = new BudgetGuard(createClient(), 0.01, { onExceed: "refuse" });
+
+    const decision = await guard.check(options({ model: "test:unknown" }), 0);
+
+    expect(decision).toEqual({ action: "proceed", estimate: undefined, remainingBudget: 0.01 });
+  });
+
+  it("clamps maxTokens to what the remaining budget pays for", async () => {
+    const guard = new BudgetGuard(createClient(), 0.5);
+
+    const decision = await guard.check(options(), 0);
+
+    expect(decision.action).toBe("clamp");
+    // ($0.50 - $0.01 input) / $100 per 1M output tokens
+    expect(decision.modifiedOptions?.model).toBe("test:big");
+    expect(decision.modifiedOptions?.maxTokens).toBeGreaterThanOrEqual(4899);
+    expect(decision.modifiedOptions?.maxTokens).toBeLessThanOrEqual(4900);
+  });
+
+  it("prices a call without maxTokens at the model's limit", async () => {
+    const guard = new BudgetGuard(createClient(), 1);
+
+    const decision = await guard.check(options({ maxTokens: undefined }), 0);
+
+    expect(decision.action).toBe("proceed");
+    expect(decision.estimate?.maxTokens).toBe(8000);
+    expect(decision.modifiedOptions).toEqual({ model: "test:big", maxTokens: 8000 });
+  });
+
+  it("limits a call at the model's limit to the output the budget pays for", async () => {
+    const guard = new BudgetGuard(createClient(), 0.45, { onExceed: "refuse" });
+
+    const decision = await guard.check(options({ maxTokens: 100_000 }), 0);
+
+    // ($0.45 - $0.01 input) / $100 per 1M output tokens
+    expect(decision.action).toBe("proceed");
+    expect(decision.estimate?.maxTokens).toBeGreaterThanOrEqual(4399);
+    expect(decision.estimate?.maxTokens).toBeLessThanOrEqual(4400);
+    expect(decision.modifiedOptions?.maxTokens).toBe(decision.estimate?.maxTokens);
+  });
+
+  it("applies the policy when the budget pays for less than expectedOutputTokens", async () => {
+    const guard = new BudgetGuard(createClient(), 0.4, {
+      onExceed: "refuse",
+      expectedOutputTokens: 5000,
+    });
+
+    const decision = await guard.check(options({ maxTokens: undefined }), 0);
+
+    expect(decision.action).toBe("refuse");
+    expect(decision.estimate?.maxTokens).toBe(5000);
+    expect(decision.estimate?.worstCaseCost).toBeCloseTo(0.51);
+  });
+
+  it("refuses instead of clamping below minOutputTokens", async () => {
+    const guard = new BudgetGuard(createClient(), 0.5, { minOutputTokens: 5000 });
+
+    const decision = await guard.check(options(), 0);
+
+    expect(decision.action).toBe("refuse");
+    expect(decision.modifiedOptions).toBeUndefined();
+  });
+
+  it("downgrades to the first model whose worst case fits", async () => {
+    const guard = new BudgetGuard(createClient(), 0.5, {
+      onExceed: "downgrade",
+      downgradeModels: ["test:big", "test:cheap"],
+    });
+
+    const decision = await guard.check(options(), 0);
+
+    expect(decision.action).toBe("downgrade");
+    expect(decision.estimate?.model).toBe("test:big");
+    expect(decision.modifiedOptions).toEqual({ model: "test:cheap", maxTokens: 4000 });
+  });
+
+  it("refuses when no downgrade model fits", async () => {
+    const guard = new BudgetGuard(createClient(), 0.005, {
+      onExceed: "downgrade",
+      downgradeModels: ["test:cheap"],
+    });
+
+    expect((await guard.check(options(), 0)).action).toBe("refuse");
+  });
+
+  it("refuses with the refuse policy", async () => {
+    const guard = new BudgetGuard(createClient(), 1, { onExceed: "refuse" });
+
+    const decision = await guard.check(options(), 0.5);
+
+    expect(decision.action).toBe("refuse");
+    expect(decision.remainingBudget).toBeCloseTo(0.5);
+  });
+
+  it("counts input tokens with the local tokenizer", async () => {
+    const client = createClient();
+    const guard = new BudgetGuard(client, 1);
+
+    const decision = await guard.check(options(), 0);
+
+    expect(decision.estimate?.inputTokens).toBe(1000);
+    expect(client.tokens.countLocal).toHaveBeenCalledWith(options().messages, "test:big");
+    expect(client.tokens.count).not.toHaveBeenCalled();
+  });
+
+  it("requires models for the downgrade policy", () => {
+    expect(() => new BudgetGuard(createClient(), 1, { onExceed: "downgrade" })).toThrow(
+      "downgradeModels",
+    );
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Pre-flight budget enforcement for agent LLM calls.
+ *
+ * A budget alone only stops the agent once the spent cost has crossed it, so
+ * a single large call can overshoot it by a lot. With a {@link BudgetPolicy}
+ * the {@link BudgetGuard} prices the worst case of each call before it is
+ * made: the input tokens, counted locally, plus the output limit
+ * (`maxTokens`), at the model's `ModelSpec.pricing`. A call left at the
+ * model's own output limit that the budget can't pay for in full is limited
+ * to the output the budget pays for, as long as that is at least
+ * `expectedOutputTokens`. Calls are always made with the output limit that
+ * was priced. When the worst case could exceed the remaining budget the call
+ * is changed according to the policy:
+ *
+ * - `"clamp"` (default): lower `maxTokens` to what the remaining budget pays for
+ * - `"downgrade"`: switch to the first `downgradeModels` entry whose worst case fits
+ * - `"refuse"`: don't make the call; the agent throws `BudgetExceededError`
+ *
+ * Clamping and downgrading fall back to refusing when nothing fits.
+ *
+ * ```typescript
+ * const agent = LLMist.createAgent()
+ *   .withModel("opus")
+ *   .withBudget(1.0, { onExceed: "downgrade", downgradeModels: ["sonnet", "haiku"] })
+ *   .withHooks({
+ *     observers: {
+ *       onBudgetWarning: (ctx) => console.warn(`${ctx.action}: $${ctx.estimatedCost.toFixed(4)}`),
+ *     },
+ *   })
+ *   .ask("...");
+ * ```
+ *
+ * @module agent/budget-guard
+ */
+
+import type { LLMist } from "../core/client.js";
+import type { LLMMessage } from "../core/messages.js";
+import { resolveModel } from "../core/model-shortcuts.js";
+import type { LLMGenerationOptions } from "../core/options.js";
+
+/** What to do with a call whose worst-case cost exceeds the remaining budget. */
+export type BudgetExceedAction = "clamp" | "downgrade" | "refuse";
+
+/** Default smallest output limit a call is clamped to before it is refused. */
+export const DEFAULT_MIN_OUTPUT_TOKENS = 256;
+
+/** Default output tokens assumed for a call left at the model's output limit. */
+export const DEFAULT_EXPECTED_OUTPUT_TOKENS = 4096;
+
+/**
+ * How the agent enforces its budget before each LLM call. Without a policy
+ * the budget is only checked after each call.
+ */
+export interface BudgetPolicy {
+  /** Action when a call could exceed the remaining budget (default: `"clamp"`) */
+  onExceed?: BudgetExceedAction;
+  /** Models to switch to for `"downgrade"`, in order of preference */
+  downgradeModels?: string[];
+  /**
+   * Smallest output limit worth making a call with. A call that can't afford
+   * this many output tokens is refused (default: 256).
+   */
+  minOutputTokens?: number;
+  /**
+   * Smallest output limit a call without `maxTokens`, or with the model's own
+   * output limit, is lowered to without applying the policy; most responses
+   * stay far below the model's limit (default: 4096)
+   */
+  expectedOutputTokens?: number;
+}
+
+/**
+ * Worst-case cost of an LLM call.
+ */
+export interface BudgetEstimate {
+  /** Model the estimate is for */
+  model: string;
+  /** Input tokens counted with the local tokenizer */
+  inputTokens: number;
+  /** Output token limit the estimate assumes are all used */
+  maxTokens: number;
+  /** Cost in USD if all `maxTokens` are generated */
+  worstCaseCost: number;
+}
+
+/**
+ * Result of a pre-flight budget check.
+ */
+export interface BudgetDecision {
+  /** `"proceed"` when the call fits the remaining budget as planned */
+  action: "proceed" | BudgetExceedAction;
+  /** Worst case of the call as planned; undefined when the model has no pricing */
+  estimate?: BudgetEstimate;
+  /** Budget left before the call in USD */
+  remainingBudget: number;
+  /**
+   * Model and output limit to use instead. Set for `"clamp"` and
+   * `"downgrade"`, and for `"proceed"` when the priced output limit is below
+   * the call's `maxTokens`.
+   */
+  modifiedOptions?: { model: string; maxTokens: number };
+}
+
+/**
+ * Checks each LLM call against the remaining budget before it is made.
+ */
+export class BudgetGuard {
+  private readonly onExceed: BudgetExceedAction;
+  private readonly downgradeModels: string[];
+  private readonly minOutputTokens: number;
+  private readonly expectedOutputTokens: number;
+
+  constructor(
+    private readonly client: LLMist,
+    readonly budget: number,
+    policy: BudgetPolicy = {},
+  ) {
+    this.onExceed = policy.onExceed ?? "clamp";
+    this.downgradeModels = (policy.downgradeModels ?? []).map((model) => resolveModel(model));
+    this.minOutputTokens = policy.minOutputTokens ?? DEFAULT_MIN_OUTPUT_TOKENS;
+    this.expectedOutputTokens = policy.expectedOutputTokens ?? DEFAULT_EXPECTED_OUTPUT_TOKENS;
+
+    if (this.onExceed === "downgrade" && this.downgradeModels.length === 0) {
+      throw new Error('Budget policy "downgrade" needs at least one model in downgradeModels');
+    }
+  }
+
+  /**
+   * Check a call against the budget.
+   *
+   * @param options - Options of the call about to be made
+   * @param totalCost - Cost spent so far in USD
+   */
+  async check(options: LLMGenerationOptions, totalCost: number): Promise<BudgetDecision> {
+    const remainingBudget = this.budget - totalCost;
+    const estimate = this.estimate(
+      options.messages,
+      options.model,
+      options.maxTokens,
+      remainingBudget,
+    );
+
+    // Without pricing there is nothing to enforce (the agent requires pricing
+    // for its own model; controllers may route to models without it)
+    if (!estimate) {
+      return { action: "proceed", estimate, remainingBudget };
+    }
+
+    if (estimate.worstCaseCost <= remainingBudget) {
+      // Make the call with the output limit that was priced
+      return estimate.maxTokens < (options.maxTokens ?? Number.POSITIVE_INFINITY)
+        ? {
+            action: "proceed",
+            estimate,
+            remainingBudget,
+            modifiedOptions: { model: estimate.model, maxTokens: estimate.maxTokens },
+          }
+        : { action: "proceed", estimate, remainingBudget };
+    }
+
+    if (this.onExceed === "clamp") {
+      const maxTokens = this.clampedOutputTokens(estimate, remainingBudget);
+      if (maxTokens !== undefined) {
+        return {
+          action: "clamp",
+          estimate,
+          remainingBudget,
+          modifiedOptions: { model: estimate.model, maxTokens },
+        };
+      }
+    }
+
+    if (this.onExceed === "downgrade") {
+      for (const model of this.downgradeModels) {
+        const candidate = this.estimate(
+          options.messages,
+          model,
+          options.maxTokens,
+          remainingBudget,
+        );
+        if (candidate && candidate.worstCaseCost <= remainingBudget) {
+          return {
+            action: "downgrade",
+            estimate,
+            remainingBudget,
+            modifiedOptions: { model, maxTokens: candidate.maxTokens },
+          };
+        }
+      }
+    }
+
+    return { action: "refuse", estimate, remainingBudget };
+  }
+
+  /**
+   * Worst-case cost of sending `messages` to `model`. The output limit is
+   * `maxTokens`, capped at the model's own limit. A call at the model's limit
+   * that doesn't fit the remaining budget is priced at the output the budget
+   * pays for instead, but at no less than `expectedOutputTokens`.
+   */
+  private estimate(
+    messages: LLMMessage[],
+    model: string,
+    maxTokens: number | undefined,
+    remainingBudget: number,
+  ): BudgetEstimate | undefined {
+    const registry = this.client.modelRegistry;
+    const spec = registry.getModelSpec(model);
+    if (!spec || (spec.pricing.input === 0 && spec.pricing.output === 0)) {
+      return undefined;
+    }
+
+    const inputTokens = this.client.tokens.countLocal(messages, model);
+    let outputLimit = Math.min(maxTokens ?? spec.maxOutputTokens, spec.maxOutputTokens);
+    let cost = registry.estimateCost(model, inputTokens, outputLimit);
+    if (!cost) return undefined;
+
+    if (cost.totalCost > remainingBudget && outputLimit === spec.maxOutputTokens) {
+      const affordable = this.affordableOutputTokens(model, inputTokens, remainingBudget) ?? 0;
+      outputLimit = Math.min(Math.max(affordable, this.expectedOutputTokens), spec.maxOutputTokens);
+      cost = registry.estimateCost(model, inputTokens, outputLimit);
+      if (!cost) return undefined;
+    }
+
+    return { model, inputTokens, maxTokens: outputLimit, worstCaseCost: cost.totalCost };
+  }
+
+  /**
+   * Output limit to clamp a call to: the output the remaining budget pays
+   * for, capped at the planned limit. Undefined when that is below
+   * `minOutputTokens`.
+   */
+  private clampedOutputTokens(
+    estimate: BudgetEstimate,
+    remainingBudget: number,
+  ): number | undefined {
+    const affordable = this.affordableOutputTokens(
+      estimate.model,
+      estimate.inputTokens,
+      remainingBudget,
+    );
+    if (affordable === undefined) return undefined;
+
+    const maxTokens = Math.min(affordable, estimate.maxTokens);
+    return maxTokens >= this.minOutputTokens ? maxTokens : undefined;
+  }
+
+  /**
+   * Output tokens the remaining budget pays for after the input. Undefined
+   * when the model has no output pricing.
+   */
+  private affordableOutputTokens(
+    model: string,
+    inputTokens: number,
+    remainingBudget: number,
+  ): number | undefined {
+    const registry = this.client.modelRegistry;
+    const spec = registry.getModelSpec(model);
+    const inputCost = registry.estimateCost(model, inputTokens, 0)?.totalCost;
+    if (!spec || inputCost === undefined || spec.pricing.output <= 0) return undefined;
+
+    const affordable = Math.floor(
+      ((remainingBudget - inputCost) / spec.pricing.output) * 1_000_000,
+    );
+    // Rounding in the cost calculation can price the last token just over the budget
+    const cost = registry.estimateCost(model, inputTokens, affordable)?.totalCost ?? 0;
+    return cost > remainingBudget ? affordable - 1 : affordable;
+  }
+}
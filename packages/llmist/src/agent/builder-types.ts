@@ -3,15 +3,21 @@ import type { LLMist } from "../core/client.js";
 import type { ExecutionTree, NodeId } from "../core/execution-tree.js";
 import type { ContentPart } from "../core/input-content.js";
 import type { MessageContent } from "../core/messages.js";
-import type { CachingConfig, ReasoningConfig } from "../core/options.js";
+import type { CachingConfig, ProviderCredentialsMap, ReasoningConfig } from "../core/options.js";
 import type { PromptTemplateConfig } from "../core/prompt-config.js";
 import type { RateLimitConfig, RateLimitTracker } from "../core/rate-limit.js";
 import type { ResolvedRetryConfig, RetryConfig } from "../core/retry.js";
+import type { GadgetTransport } from "../gadgets/native-tools.js";
 import type { GadgetOrClass } from "../gadgets/registry.js";
 import type { GadgetExecutionMode, SubagentConfigMap, TextOnlyHandler } from "../gadgets/types.js";
+import type { MemoryConfig } from "../memory/types.js";
+import type { BudgetPolicy } from "./budget-guard.js";
+import type { AgentCheckpoint, CheckpointingConfig } from "./checkpoint.js";
 import type { CompactionConfig } from "./compaction/config.js";
 import type { TrailingMessage } from "./hook-composer.js";
 import type { AgentHooks, Observers } from "./hooks.js";
+import type { OutputValidationConfig } from "./output-validation.js";
+import type { PlanningOptions } from "./planning.js";
 
 /**
  * Message for conversation history.
@@ -25,10 +31,12 @@ export type HistoryMessage =
 export interface CoreState {
   client?: LLMist;
   model?: string;
+  fallbackModels?: string[];
   systemPrompt?: string;
   temperature?: number;
   maxIterations?: number;
   budget?: number;
+  budgetPolicy?: BudgetPolicy;
   logger?: Logger<ILogObj>;
   hooks?: AgentHooks;
   promptConfig?: PromptTemplateConfig;
@@ -37,10 +45,14 @@ export interface CoreState {
     content: MessageContent;
   }>;
   requestHumanInput?: (question: string) => Promise<string>;
+  suspendOnHumanInput?: boolean;
+  humanInputAnswer?: string;
   signal?: AbortSignal;
   trailingMessage?: TrailingMessage;
   reasoningConfig?: ReasoningConfig;
   cachingConfig?: CachingConfig;
+  credentials?: ProviderCredentialsMap;
+  resumeFrom?: AgentCheckpoint;
 }
 
 export interface McpState {
@@ -61,6 +73,7 @@ export interface GadgetState {
   };
   defaultGadgetTimeoutMs?: number;
   gadgetExecutionMode?: GadgetExecutionMode;
+  gadgetTransport?: GadgetTransport;
   maxGadgetsPerResponse?: number;
   gadgetOutputLimit?: boolean;
   gadgetOutputLimitPercent?: number;
@@ -95,6 +108,10 @@ export interface SubagentState {
 
 export interface PolicyState {
   compactionConfig?: CompactionConfig;
+  checkpointing?: CheckpointingConfig;
+  memory?: MemoryConfig;
+  planning?: PlanningOptions;
+  outputValidation?: OutputValidationConfig;
 }
 
 export interface SkillState {
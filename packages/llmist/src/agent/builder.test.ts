@@ -453,6 +453,21 @@ describe("AgentBuilder", () => {
       expect(agent.getTree()).toBe(parentTree);
     });
 
+    it("inherits credentials unless the subagent sets its own", () => {
+      const parentCredentials = { openai: { apiKey: "tenant-key" } };
+      const ctx = { reportCost: () => {}, credentials: parentCredentials };
+      const credentialsOf = (builder: AgentBuilder) =>
+        (builder as unknown as { core: { credentials?: unknown } }).core.credentials;
+
+      const inherited = new AgentBuilder().withParentContext(ctx as never);
+      const own = new AgentBuilder()
+        .withCredentials({ openai: { apiKey: "own-key" } })
+        .withParentContext(ctx as never);
+
+      expect(credentialsOf(inherited)).toBe(parentCredentials);
+      expect(credentialsOf(own)).toEqual({ openai: { apiKey: "own-key" } });
+    });
+
     it("creates new tree when ctx.tree is not provided", async () => {
       const { ExecutionTree } = await import("../core/execution-tree.js");
       const mockClient = createMockClient();
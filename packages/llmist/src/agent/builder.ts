@@ -3,13 +3,20 @@
  */
 
 import type { ILogObj, Logger } from "tslog";
+import type { ZodType } from "zod";
 import type { LLMist } from "../core/client.js";
 import type { ContentPart, ImageMimeType } from "../core/input-content.js";
 import { resolveModel } from "../core/model-shortcuts.js";
-import type { CachingConfig, ReasoningConfig, ReasoningEffort } from "../core/options.js";
+import type {
+  CachingConfig,
+  ProviderCredentialsMap,
+  ReasoningConfig,
+  ReasoningEffort,
+} from "../core/options.js";
 import type { PromptTemplateConfig } from "../core/prompt-config.js";
 import type { RateLimitConfig } from "../core/rate-limit.js";
 import type { RetryConfig } from "../core/retry.js";
+import type { GadgetTransport } from "../gadgets/native-tools.js";
 import type { GadgetOrClass } from "../gadgets/registry.js";
 import { GadgetRegistry } from "../gadgets/registry.js";
 import type {
@@ -18,6 +25,8 @@ import type {
   SubagentConfigMap,
   TextOnlyHandler,
 } from "../gadgets/types.js";
+import { createMemoryGadgets } from "../memory/gadgets.js";
+import type { MemoryOptions, MemoryStore } from "../memory/types.js";
 import { resolveInstructions } from "../skills/activation.js";
 import { createLoadSkillGadget } from "../skills/load-skill-gadget.js";
 import { loadSkillsFromDirectory } from "../skills/loader.js";
@@ -25,6 +34,7 @@ import { parseFrontmatter } from "../skills/parser.js";
 import type { SkillRegistry } from "../skills/registry.js";
 import { Agent, type AgentOptions } from "./agent.js";
 import { AGENT_INTERNAL_KEY } from "./agent-internal-key.js";
+import type { BudgetPolicy } from "./budget-guard.js";
 import type {
   CoreState,
   GadgetState,
@@ -41,10 +51,19 @@ import {
   formatGadgetCall,
   normalizeHistory,
 } from "./builder-utils.js";
+import type { AgentCheckpoint, CheckpointStore } from "./checkpoint.js";
 import type { CompactionConfig } from "./compaction/config.js";
 import { collectText, type EventHandlers } from "./event-handlers.js";
 import { HookComposer, type TrailingMessage } from "./hook-composer.js";
 import type { AgentHooks } from "./hooks.js";
+import {
+  DEFAULT_MAX_OUTPUT_REPAIRS,
+  formatOutputSchemaInstructions,
+  OutputMissingError,
+  type OutputValidatorFn,
+  type OutputValidatorOptions,
+} from "./output-validation.js";
+import { AgentPlan, createPlanningGadgets, type PlanningOptions } from "./planning.js";
 
 export type { HistoryMessage } from "./builder-types.js";
 
@@ -53,8 +72,10 @@ export type { HistoryMessage } from "./builder-types.js";
  *
  * Provides a chainable API for configuring and creating agents,
  * making the code more expressive and easier to read.
+ *
+ * @typeParam TOutput - Type of the final answer returned by `askAndCollect()`
  */
-export class AgentBuilder {
+export class AgentBuilder<TOutput = string> {
   private core: CoreState;
   private gadgets: GadgetState;
   private retry: RetryState;
@@ -79,6 +100,23 @@ export class AgentBuilder {
     return this;
   }
 
+  /**
+   * Set models to switch to, in order, when the current model keeps failing
+   * with retryable errors (overloaded, rate limited, unavailable). Each model
+   * gets the full retry budget before the agent moves on to the next one.
+   * Overrides the client's `fallbacks`; pass `[]` to disable them.
+   *
+   * @example
+   * ```typescript
+   * .withModel("opus")
+   * .withFallbackModels(["sonnet", "gpt-4o", "flash"])
+   * ```
+   */
+  withFallbackModels(models: string[]): this {
+    this.core.fallbackModels = models.map((model) => resolveModel(model));
+    return this;
+  }
+
   /** Set the system prompt. */
   withSystem(prompt: string): this {
     this.core.systemPrompt = prompt;
@@ -97,9 +135,17 @@ export class AgentBuilder {
     return this;
   }
 
-  /** Set the budget limit in USD. */
-  withBudget(amountUSD: number): this {
+  /**
+   * Set the budget limit in USD.
+   *
+   * The agent stops once the spent cost crosses the budget. With a `policy`,
+   * each LLM call's worst-case cost is also checked against the remaining
+   * budget before it is made, and calls that could exceed it are clamped
+   * (default), downgraded to a cheaper model or refused.
+   */
+  withBudget(amountUSD: number, policy?: BudgetPolicy): this {
     this.core.budget = amountUSD;
+    this.core.budgetPolicy = policy;
     return this;
   }
 
@@ -192,12 +238,104 @@ export class AgentBuilder {
     return this;
   }
 
+  /**
+   * Continue a run from a checkpoint taken with `agent.checkpoint()`.
+   *
+   * The checkpoint's conversation, iteration, execution tree (and cost),
+   * gadget outputs and compaction stats are restored; the system prompt and
+   * history configured here are not used. Gadgets, hooks and other settings
+   * are not part of a checkpoint — configure them as for the original run.
+   * The model defaults to the checkpoint's model.
+   *
+   * Start the resumed agent with `build()`, or with `ask()` to add a new
+   * user message first.
+   *
+   * @example
+   * ```typescript
+   * const saved = await store.load(jobId);
+   * const agent = LLMist.createAgent()
+   *   .withGadgets(ReadFile, WriteFile)
+   *   .resumeFrom(saved)
+   *   .build();
+   * ```
+   */
+  resumeFrom(checkpoint: AgentCheckpoint): this {
+    this.core.resumeFrom = checkpoint;
+    return this;
+  }
+
+  /**
+   * Save a checkpoint of the agent after each iteration, replacing the
+   * previous one, so the run can continue with `resumeFrom()` if the process
+   * dies.
+   *
+   * @param store - Where to save checkpoints (`FileCheckpointStore`, `InMemoryCheckpointStore`)
+   * @param id - ID to save this run's checkpoints under
+   */
+  withCheckpointing(store: CheckpointStore, id: string): this {
+    this.policies.checkpointing = { store, id };
+    return this;
+  }
+
   /** Set the human input handler for interactive conversations. */
   onHumanInput(handler: (question: string) => Promise<string>): this {
     this.core.requestHumanInput = handler;
     return this;
   }
 
+  /**
+   * Suspend the run when a gadget asks for human input instead of waiting on
+   * an `onHumanInput()` handler — for answers that take hours, like Slack or
+   * email approvals.
+   *
+   * Gadgets that don't depend on the pending answer still execute; the run
+   * then ends with a `suspended` event whose token holds the question and
+   * everything needed to continue with `resumeWithAnswer()`, including
+   * gadgets that wait on the answer.
+   *
+   * @example
+   * ```typescript
+   * for await (const event of agent.run()) {
+   *   if (event.type === "suspended") {
+   *     await jobs.save(jobId, event.token);
+   *     await slack.ask(event.request.question);
+   *   }
+   * }
+   * ```
+   */
+  withSuspendOnHumanInput(): this {
+    this.core.suspendOnHumanInput = true;
+    return this;
+  }
+
+  /**
+   * Continue a suspended run with the answer to its pending question.
+   *
+   * The answer becomes the result of the gadget that asked; gadgets that
+   * waited on it run next, then the loop continues. Like `resumeFrom()`,
+   * configure gadgets and hooks as for the original run and start the
+   * agent with `build()`. The resumed run suspends again on further
+   * questions, including other questions still pending from the same
+   * response.
+   *
+   * @param token - The `token` of the run's `suspended` event
+   * @param answer - The human's answer to `event.request.question`
+   *
+   * @example
+   * ```typescript
+   * const agent = LLMist.createAgent()
+   *   .withGadgets(AskUser, Deploy)
+   *   .resumeWithAnswer(await jobs.load(jobId), "Approved")
+   *   .build();
+   * ```
+   */
+  resumeWithAnswer(token: AgentCheckpoint, answer: string): this {
+    this.core.resumeFrom = token;
+    this.core.humanInputAnswer = answer;
+    this.core.suspendOnHumanInput = true;
+    return this;
+  }
+
   /** Set custom gadget marker prefix. */
   withGadgetStartPrefix(prefix: string): this {
     this.gadgets.gadgetStartPrefix = prefix;
@@ -245,6 +383,18 @@ export class AgentBuilder {
     return this;
   }
 
+  /**
+   * Set how gadget calls are transported ('block', 'native' or 'auto').
+   *
+   * 'native' sends gadgets as provider tool definitions instead of block-format
+   * instructions; 'auto' does so only when the provider supports tool calling
+   * for the model. Either way the same gadget events and hooks fire.
+   */
+  withGadgetTransport(transport: GadgetTransport): this {
+    this.gadgets.gadgetTransport = transport;
+    return this;
+  }
+
   /** Set the maximum number of gadgets to execute per LLM response. */
   withMaxGadgetsPerResponse(max: number): this {
     if (max < 0) throw new Error("maxGadgetsPerResponse must be a non-negative number");
@@ -279,6 +429,92 @@ export class AgentBuilder {
     return this;
   }
 
+  /**
+   * Give the agent long-term memory that persists across runs.
+   *
+   * Adds the Remember, Recall and Forget gadgets. With `autoRecall` (the
+   * default), memories relevant to the latest user message are injected
+   * before each LLM call as an ephemeral user message of at most `maxTokens`.
+   *
+   * @example
+   * ```typescript
+   * .withMemory(new FileMemoryStore(".llmist/memory.json"), {
+   *   scope: { project: process.cwd(), user: "alice" },
+   *   maxTokens: 500,
+   * })
+   * ```
+   *
+   * @param store - Where memories are kept (`FileMemoryStore`, `InMemoryMemoryStore`)
+   * @param options - Scope and recall options
+   */
+  withMemory(store: MemoryStore, options: MemoryOptions = {}): this {
+    this.policies.memory = { ...options, store };
+    return this;
+  }
+
+  /**
+   * Run the agent in planning mode: plan first, then work through the plan.
+   *
+   * Adds the Plan and UpdatePlan gadgets. Before each LLM call the agent is
+   * shown its plan (or asked to make one); the plan is tracked as a `plan`
+   * node in the execution tree and kept in checkpoints. Use `agent.getPlan()`
+   * to read it.
+   *
+   * @example
+   * ```typescript
+   * .withPlanning({ model: "opus", replanOnFailure: true })
+   * ```
+   *
+   * @param options - Planning model and whether to replan when a gadget fails
+   */
+  withPlanning(options: PlanningOptions = {}): this {
+    this.policies.planning = {
+      ...options,
+      model: options.model === undefined ? undefined : resolveModel(options.model),
+    };
+    return this;
+  }
+
+  /**
+   * Check the agent's final answer before the run ends: the text of a
+   * response without gadget calls, or the message of a `TaskCompletionSignal`.
+   *
+   * A validator is a function returning `true` or nothing when the answer
+   * passes, and `false` or the issues when it doesn't; or a Zod schema the
+   * answer must match as JSON (the schema is described in the system prompt,
+   * and `askAndCollect()` returns the parsed value). All validators must pass.
+   * A rejected answer gets a corrective message listing the issues, at most
+   * `maxRepairs` times; after that the run throws an `OutputValidationError`.
+   * Results are reported to `onOutputValidation` and recorded on the LLM
+   * call node of the execution tree.
+   *
+   * @example
+   * ```typescript
+   * const release = await LLMist.createAgent()
+   *   .withOutputValidator(z.object({ version: z.string(), notes: z.array(z.string()) }))
+   *   .withOutputValidator((output) => !output.includes("@") || "Remove email addresses", {
+   *     maxRepairs: 3,
+   *   })
+   *   .askAndCollect("Draft the release notes");
+   * ```
+   *
+   * @param validator - Validator function or Zod schema
+   * @param options - Repairs allowed before the run fails (the last value set wins)
+   */
+  withOutputValidator<T>(validator: ZodType<T>, options?: OutputValidatorOptions): AgentBuilder<T>;
+  withOutputValidator(validator: OutputValidatorFn, options?: OutputValidatorOptions): this;
+  withOutputValidator(
+    validator: OutputValidatorFn | ZodType,
+    options: OutputValidatorOptions = {},
+  ): AgentBuilder<unknown> {
+    const current = this.policies.outputValidation;
+    this.policies.outputValidation = {
+      validators: [...(current?.validators ?? []), validator],
+      maxRepairs: options.maxRepairs ?? current?.maxRepairs ?? DEFAULT_MAX_OUTPUT_REPAIRS,
+    };
+    return this;
+  }
+
   // ─── Skills ──────────────────────────────────────────────────────────────────
 
   /** Register a skill registry for this agent. */
@@ -371,6 +607,24 @@ export class AgentBuilder {
     return this;
   }
 
+  /**
+   * Make all LLM calls with these API keys instead of the providers' own,
+   * e.g. to bill each customer's own key. Keyed by provider ID; subagents
+   * created with `withParentContext()` inherit them.
+   *
+   * @example
+   * ```typescript
+   * LLMist.createAgent()
+   *   .withModel("sonnet")
+   *   .withCredentials({ anthropic: { apiKey: tenant.anthropicKey } })
+   *   .ask("...");
+   * ```
+   */
+  withCredentials(credentials: ProviderCredentialsMap): this {
+    this.core.credentials = credentials;
+    return this;
+  }
+
   /** Set subagent configuration overrides. */
   withSubagentConfig(config: SubagentConfigMap): this {
     this.subagents.subagentConfig = config;
@@ -393,6 +647,9 @@ export class AgentBuilder {
     if (ctx.retryConfig && !this.retry.sharedRetryConfig) {
       this.retry.sharedRetryConfig = ctx.retryConfig;
     }
+    if (ctx.credentials && !this.core.credentials) {
+      this.core.credentials = ctx.credentials;
+    }
     return this;
   }
 
@@ -423,8 +680,18 @@ export class AgentBuilder {
     return this;
   }
 
-  private composeHooks(): AgentHooks | undefined {
-    return HookComposer.compose(this.core.hooks, this.core.trailingMessage);
+  private composeHooks(plan?: AgentPlan): AgentHooks | undefined {
+    const planning = plan && {
+      ...this.policies.planning,
+      plan,
+      modelRegistry: this.core.client?.modelRegistry,
+    };
+    return HookComposer.compose(
+      this.core.hooks,
+      this.core.trailingMessage,
+      this.policies.memory,
+      planning,
+    );
   }
 
   private resolveSkillRegistry(): SkillRegistry | undefined {
@@ -484,6 +751,21 @@ export class AgentBuilder {
 
     const registry = GadgetRegistry.from(this.gadgets.gadgets);
 
+    const memory = this.policies.memory;
+    if (memory) {
+      for (const gadget of createMemoryGadgets(memory.store, memory.scope)) {
+        registry.registerByClass(gadget);
+      }
+    }
+
+    // Each agent gets its own plan
+    const plan = this.policies.planning ? new AgentPlan() : undefined;
+    if (plan) {
+      for (const gadget of createPlanningGadgets(plan)) {
+        registry.registerByClass(gadget);
+      }
+    }
+
     // ─── Skills integration ────────────────────────────────────────────────
     let systemPrompt = this.core.systemPrompt;
     const skillRegistry = this.resolveSkillRegistry();
@@ -499,17 +781,27 @@ export class AgentBuilder {
       }
     }
 
+    // Tell the LLM the shape of the answer its schema validators expect
+    for (const validator of this.policies.outputValidation?.validators ?? []) {
+      if (typeof validator !== "function") {
+        const instructions = formatOutputSchemaInstructions(validator);
+        systemPrompt = systemPrompt ? `${systemPrompt}\n\n${instructions}` : instructions;
+      }
+    }
+
     return {
       client: this.core.client as LLMist,
-      model: this.core.model ?? "openai:gpt-5-nano",
+      model: this.core.model ?? this.core.resumeFrom?.model ?? "openai:gpt-5-nano",
+      fallbackModels: this.core.fallbackModels,
       systemPrompt,
       userPrompt,
       registry,
       maxIterations: this.core.maxIterations,
       budget: this.core.budget,
+      budgetPolicy: this.core.budgetPolicy,
       temperature: this.core.temperature,
       logger: this.core.logger,
-      hooks: this.composeHooks(),
+      hooks: this.composeHooks(plan),
       promptConfig: this.core.promptConfig,
       initialMessages: this.core.initialMessages,
       requestHumanInput: this.core.requestHumanInput,
@@ -522,6 +814,7 @@ export class AgentBuilder {
       textWithGadgetsHandler: this.gadgets.textWithGadgetsHandler,
       defaultGadgetTimeoutMs: this.gadgets.defaultGadgetTimeoutMs,
       gadgetExecutionMode: this.gadgets.gadgetExecutionMode,
+      gadgetTransport: this.gadgets.gadgetTransport,
       maxGadgetsPerResponse: this.gadgets.maxGadgetsPerResponse,
       outputLimitConfig: {
         enabled: this.gadgets.gadgetOutputLimit,
@@ -533,6 +826,7 @@ export class AgentBuilder {
       signal: this.core.signal,
       reasoning: this.core.reasoningConfig,
       caching: this.core.cachingConfig,
+      credentials: this.core.credentials,
       subagentConfig: this.subagents.subagentConfig,
       treeConfig: {
         tree: this.subagents.parentContext?.tree,
@@ -543,6 +837,13 @@ export class AgentBuilder {
       sharedRateLimitTracker: this.subagents.sharedRateLimitTracker,
       sharedRetryConfig: this.retry.sharedRetryConfig,
       mcpSpecs: this.mcp.servers.length > 0 ? [...this.mcp.servers] : undefined,
+      preActivatedSkills: this.skills.preActivated.map(({ name }) => name),
+      resumeFrom: this.core.resumeFrom,
+      suspendOnHumanInput: this.core.suspendOnHumanInput,
+      humanInputAnswer: this.core.humanInputAnswer,
+      checkpointing: this.policies.checkpointing,
+      plan,
+      outputValidation: this.policies.outputValidation,
     };
   }
 
@@ -566,9 +867,27 @@ export class AgentBuilder {
     return new Agent(AGENT_INTERNAL_KEY, this.buildAgentOptions(content));
   }
 
-  /** Run agent and collect text response. */
-  async askAndCollect(userPrompt: string): Promise<string> {
-    return collectText(this.ask(userPrompt).run());
+  /**
+   * Run agent and collect text response. With output validators, returns the
+   * validated final answer instead (parsed when a schema validator is set).
+   *
+   * @throws OutputMissingError with output validators, when the run ends
+   *   without a final answer
+   */
+  async askAndCollect(userPrompt: string): Promise<TOutput> {
+    if (!this.policies.outputValidation) {
+      return (await collectText(this.ask(userPrompt).run())) as TOutput;
+    }
+    const agent = this.ask(userPrompt);
+    for await (const _event of agent.run()) {
+      // drain
+    }
+    const output = agent.getOutput();
+    if (output === undefined) {
+      throw new OutputMissingError();
+    }
+    // Validators passed, so a schema validator's parsed value has its type
+    return output as TOutput;
   }
 
   /** Run agent with event handlers. */
@@ -576,7 +895,7 @@ export class AgentBuilder {
     await this.ask(userPrompt).runWith(handlers);
   }
 
-  /** Build agent without a prompt (useful for testing/inspection). */
+  /** Build agent without a prompt (useful for testing/inspection, or to resume a checkpoint). */
   build(): Agent {
     return new Agent(AGENT_INTERNAL_KEY, this.buildAgentOptions());
   }
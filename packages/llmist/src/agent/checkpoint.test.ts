@@ -0,0 +1,218 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import type { LLMist } from "../core/client.js";
+import { toolCall, toolResult } from "../core/input-content.js";
+import { Gadget } from "../gadgets/typed-gadget.js";
+import { AgentBuilder } from "./builder.js";
+import {
+  AGENT_CHECKPOINT_VERSION,
+  type AgentCheckpoint,
+  type CheckpointStore,
+  FileCheckpointStore,
+  InMemoryCheckpointStore,
+} from "./checkpoint.js";
+
+class Add extends Gadget({
+  name: "Add",
+  description: "Adds two numbers",
+  schema: z.object({ a: z.number(), b: z.number() }),
+}) {
+  execute(params: this["params"]): string {
+    return String(params.a + params.b);
+  }
+}
+
+/** Client whose calls return the given chunks in turn. */
+function createClient(...responses: Array<Record<string, unknown>>): LLMist {
+  const stream = vi.fn();
+  for (const chunk of responses) {
+    stream.mockImplementationOnce(async function* () {
+      yield chunk;
+    });
+  }
+  return {
+    stream,
+    modelRegistry: { getModelLimits: vi.fn().mockReturnValue({ maxOutputTokens: 4096 }) },
+  } as unknown as LLMist;
+}
+
+const addCall = {
+  text: "",
+  toolCalls: [{ index: 0, id: "call_1", name: "Add", argumentsDelta: '{"a":1,"b":2}' }],
+};
+
+function agentBuilder(client: LLMist): AgentBuilder {
+  return new AgentBuilder(client)
+    .withModel("test:model")
+    .withGadgets(Add)
+    .withGadgetTransport("native");
+}
+
+async function drain(events: AsyncIterable<unknown>): Promise<void> {
+  for await (const _event of events) {
+    // drain
+  }
+}
+
+function checkpoint(overrides: Partial<AgentCheckpoint> = {}): AgentCheckpoint {
+  return {
+    version: AGENT_CHECKPOINT_VERSION,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    model: "test:model",
+    iteration: 1,
+    totalCost: 0,
+    conversation: { base: [], initial: [], history: [{ role: "user", content: "Hi" }] },
+    tree: { nodes: [], rootIds: [], gadgetIdCounter: 0 },
+    gadgetOutputs: [],
+    activeSkills: [],
+    compaction: null,
+    invocations: { completed: [], failed: [] },
+    ...overrides,
+  };
+}
+
+describe("Agent checkpoints", () => {
+  it("saves a checkpoint after each iteration", async () => {
+    const store = new InMemoryCheckpointStore();
+    const agent = agentBuilder(createClient(addCall))
+      .withCheckpointing(store, "job")
+      .withMaxIterations(1)
+      .ask("Add 1 and 2");
+
+    await drain(agent.run());
+
+    const saved = await store.load("job");
+    expect(saved).toMatchObject({ version: AGENT_CHECKPOINT_VERSION, iteration: 1 });
+    expect(saved?.conversation.history.map((message) => message.role)).toEqual([
+      "user",
+      "assistant",
+      "user",
+    ]);
+    expect(saved?.invocations.completed).toEqual(["call_1"]);
+    expect(saved?.tree.nodes.map((node) => node.type)).toEqual(["llm_call", "gadget"]);
+  });
+
+  it("resumes the loop where the checkpoint left off", async () => {
+    const store = new InMemoryCheckpointStore();
+    await drain(
+      agentBuilder(createClient(addCall))
+        .withCheckpointing(store, "job")
+        .withMaxIterations(1)
+        .ask("Add 1 and 2")
+        .run(),
+    );
+    const saved = (await store.load("job")) as AgentCheckpoint;
+
+    const client = createClient({ text: "The sum is 3." });
+    const agent = agentBuilder(client)
+      .withCheckpointing(store, "job")
+      .withMaxIterations(5)
+      .resumeFrom(JSON.parse(JSON.stringify(saved)))
+      .build();
+    await drain(agent.run());
+
+    const { messages } = vi.mocked(client.stream).mock.calls[0][0];
+    expect(messages.map((message) => message.content)).toEqual([
+      "Add 1 and 2",
+      [toolCall("call_1", "Add", { a: 1, b: 2 })],
+      [toolResult("call_1", "Add", "3")],
+    ]);
+    expect(
+      agent
+        .getTree()
+        .getRoots()
+        .map((node) => node.type === "llm_call" && node.iteration),
+    ).toEqual([0, 1]);
+    expect((await store.load("job"))?.iteration).toBe(2);
+  });
+
+  it("adds the prompt of ask() to the resumed conversation", async () => {
+    const client = createClient({ text: "Done." });
+
+    await drain(agentBuilder(client).resumeFrom(checkpoint()).ask("Go on").run());
+
+    const { messages } = vi.mocked(client.stream).mock.calls[0][0];
+    expect(messages.map((message) => message.content)).toEqual(["Hi", "Go on"]);
+  });
+
+  it("defaults to the checkpoint's model", () => {
+    const agent = new AgentBuilder(createClient())
+      .resumeFrom(checkpoint({ model: "test:saved" }))
+      .build();
+
+    expect(agent.checkpoint().model).toBe("test:saved");
+  });
+
+  it("rejects checkpoints of other versions", () => {
+    const builder = agentBuilder(createClient()).resumeFrom(checkpoint({ version: 99 }));
+
+    expect(() => builder.build()).toThrow("Unsupported agent checkpoint version 99");
+  });
+
+  it("keeps running when saving a checkpoint fails", async () => {
+    const store: CheckpointStore = {
+      save: vi.fn().mockRejectedValue(new Error("disk full")),
+      load: vi.fn(),
+      delete: vi.fn(),
+    };
+    const client = createClient(addCall, { text: "The sum is 3." });
+
+    await drain(
+      agentBuilder(client).withCheckpointing(store, "job").withMaxIterations(2).ask("Add").run(),
+    );
+
+    expect(client.stream).toHaveBeenCalledTimes(2);
+    expect(store.save).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("InMemoryCheckpointStore", () => {
+  it("returns copies of saved checkpoints", async () => {
+    const store = new InMemoryCheckpointStore();
+    const saved = checkpoint();
+    await store.save("job", saved);
+    saved.iteration = 7;
+
+    expect((await store.load("job"))?.iteration).toBe(1);
+
+    await store.delete("job");
+    expect(await store.load("job")).toBeUndefined();
+  });
+});
+
+describe("FileCheckpointStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "llmist-checkpoints-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips checkpoints through JSON files", async () => {
+    const store = new FileCheckpointStore(join(dir, "nested"));
+
+    await store.save("job-1", checkpoint());
+
+    expect(await store.load("job-1")).toEqual(checkpoint());
+    expect(await readdir(join(dir, "nested"))).toEqual(["job-1.json"]);
+  });
+
+  it("returns undefined for unknown IDs and ignores deleting them", async () => {
+    const store = new FileCheckpointStore(dir);
+
+    expect(await store.load("missing")).toBeUndefined();
+    await expect(store.delete("missing")).resolves.toBeUndefined();
+  });
+
+  it("rejects IDs that would leave the directory", async () => {
+    const store = new FileCheckpointStore(dir);
+
+    await expect(store.save("../escape", checkpoint())).rejects.toThrow("Invalid checkpoint ID");
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Agent checkpoints: serializable snapshots of a running agent.
+ *
+ * A checkpoint holds everything the agent loop needs to continue after the
+ * process that ran it is gone: the conversation (base messages, initial
+ * history and the history of the run), the next iteration, the execution tree
+ * with its costs, stored gadget outputs, active skills and compaction stats.
+ * Gadgets, hooks and the client are code, not state — the resuming process
+ * configures them on the builder as before.
+ *
+ * A run that suspended to wait for human input ends with a checkpoint that
+ * also holds the pending requests; `AgentBuilder.resumeWithAnswer()` continues
+ * it with the answer.
+ *
+ * ```typescript
+ * const store = new FileCheckpointStore("./checkpoints");
+ * const builder = LLMist.createAgent()
+ *   .withModel("sonnet")
+ *   .withGadgets(ReadFile, WriteFile)
+ *   .withCheckpointing(store, jobId);
+ *
+ * // Continue the run if a previous process saved one, else start it
+ * const saved = await store.load(jobId);
+ * const agent = saved ? builder.resumeFrom(saved).build() : builder.ask(task);
+ *
+ * for await (const event of agent.run()) { ... }
+ * ```
+ *
+ * @module agent/checkpoint
+ */
+
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { ExecutionTreeSnapshot } from "../core/execution-tree.js";
+import type { LLMMessage } from "../core/messages.js";
+import type { GadgetSuspension } from "../gadgets/types.js";
+import type { CompactionStats } from "./compaction/config.js";
+import type { StoredOutput } from "./gadget-output-store.js";
+import type { PlanSnapshot } from "./planning.js";
+
+/** Version of the checkpoint format written by this release. */
+export const AGENT_CHECKPOINT_VERSION = 1;
+
+/** Stored gadget output as saved in a checkpoint. */
+export interface CheckpointGadgetOutput extends Omit<StoredOutput, "timestamp"> {
+  /** When the output was stored (ISO 8601) */
+  timestamp: string;
+}
+
+/**
+ * Gadgets a suspended run waits on, with the LLM response they belong to.
+ */
+export interface CheckpointSuspension extends GadgetSuspension {
+  /** Iteration whose response asked for human input */
+  iteration: number;
+  /** Execution tree node of that response's LLM call */
+  llmNodeId: string;
+}
+
+/**
+ * Versioned snapshot of an agent, taken with `agent.checkpoint()` and
+ * continued with `AgentBuilder.resumeFrom()`. Plain JSON data.
+ */
+export interface AgentCheckpoint {
+  /** Format version ({@link AGENT_CHECKPOINT_VERSION}) */
+  version: number;
+  /** When the checkpoint was taken (ISO 8601) */
+  createdAt: string;
+  /** Model the agent runs with */
+  model: string;
+  /** Next iteration of the agent loop to run */
+  iteration: number;
+  /** Cost of the run so far in USD */
+  totalCost: number;
+  /** The conversation, split the way the agent builds its requests */
+  conversation: {
+    /** System prompt and gadget instructions */
+    base: LLMMessage[];
+    /** History the agent started with (`withHistory()`) */
+    initial: LLMMessage[];
+    /** Messages added during the run */
+    history: LLMMessage[];
+  };
+  /** LLM calls and gadget executions of the run */
+  tree: ExecutionTreeSnapshot;
+  /** Large gadget outputs kept for GadgetOutputViewer */
+  gadgetOutputs: CheckpointGadgetOutput[];
+  /** Names of the skills activated before or during the run */
+  activeSkills: string[];
+  /** Compaction statistics; null when compaction is disabled */
+  compaction: CompactionStats | null;
+  /** Invocation IDs of finished gadget calls, for dependency resolution */
+  invocations: {
+    completed: string[];
+    failed: string[];
+  };
+  /** Gadgets waiting for human input, when the run is suspended */
+  suspension?: CheckpointSuspension;
+  /** The agent's plan, when planning is enabled */
+  plan?: PlanSnapshot;
+}
+
+/**
+ * Where an agent saves its checkpoints. The agent saves under a fixed ID
+ * after each iteration, replacing the previous checkpoint.
+ */
+export interface CheckpointStore {
+  /** Save a checkpoint, replacing any previous one with the same ID. */
+  save(id: string, checkpoint: AgentCheckpoint): Promise<void>;
+  /** Load a checkpoint. Returns `undefined` when there is none. */
+  load(id: string): Promise<AgentCheckpoint | undefined>;
+  /** Delete a checkpoint. No-op when there is none. */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Automatic checkpointing of an agent run.
+ */
+export interface CheckpointingConfig {
+  /** Store to save checkpoints in */
+  store: CheckpointStore;
+  /** ID to save the run's checkpoints under */
+  id: string;
+}
+
+/**
+ * Throw unless `value` is a checkpoint this release can resume from.
+ */
+export function assertSupportedCheckpoint(value: unknown): asserts value is AgentCheckpoint {
+  const version = (value as { version?: unknown } | null)?.version;
+  if (typeof version !== "number") {
+    throw new Error("Not an agent checkpoint: missing version");
+  }
+  if (version !== AGENT_CHECKPOINT_VERSION) {
+    throw new Error(
+      `Unsupported agent checkpoint version ${version} (supported: ${AGENT_CHECKPOINT_VERSION})`,
+    );
+  }
+}
+
+/**
+ * Checkpoint store that keeps checkpoints in memory, e.g. for tests or to
+ * hand a run over between agents of one process.
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private readonly checkpoints = new Map<string, AgentCheckpoint>();
+
+  async save(id: string, checkpoint: AgentCheckpoint): Promise<void> {
+    // Copy so later changes on either side don't leak into the other
+    this.checkpoints.set(id, structuredClone(checkpoint));
+  }
+
+  async load(id: string): Promise<AgentCheckpoint | undefined> {
+    const checkpoint = this.checkpoints.get(id);
+    return checkpoint ? structuredClone(checkpoint) : undefined;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.checkpoints.delete(id);
+  }
+}
+
+/**
+ * Checkpoint store that writes one JSON file per checkpoint ID. Files are
+ * replaced atomically, so a crash while saving leaves the previous
+ * checkpoint intact.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(readonly dir: string) {}
+
+  async save(id: string, checkpoint: AgentCheckpoint): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const path = this.pathFor(id);
+    const tmpPath = `${path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(checkpoint));
+    await rename(tmpPath, path);
+  }
+
+  async load(id: string): Promise<AgentCheckpoint | undefined> {
+    let content: string;
+    try {
+      content = await readFile(this.pathFor(id), "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+    const checkpoint: unknown = JSON.parse(content);
+    assertSupportedCheckpoint(checkpoint);
+    return checkpoint;
+  }
+
+  async delete(id: string): Promise<void> {
+    await rm(this.pathFor(id), { force: true });
+  }
+
+  private pathFor(id: string): string {
+    // IDs become file names: keep them from escaping the directory
+    if (!/^[\w.-]+$/.test(id) || id.startsWith(".")) {
+      throw new Error(
+        `Invalid checkpoint ID "${id}": use letters, digits, "_", "-" and "." (not leading)`,
+      );
+    }
+    return join(this.dir, `${id}.json`);
+  }
+}
@@ -9,7 +9,7 @@ import { CompactionManager } from "./manager.js";
 describe("CompactionManager", () => {
   // Helper to create a mock client with model limits configured
   const createClientWithLimits = (
-    options: { countTokens?: (model: string, messages: LLMMessage[]) => Promise<number> } = {},
+    options: { countTokens?: LLMist["countTokens"] } = {},
   ): LLMist => {
     const client = createMockClient();
     // Mock the model registry to return proper limits
@@ -207,6 +207,33 @@ describe("CompactionManager", () => {
       expect(result?.summary).toBe("This is a summary");
     });
 
+    it("counts and summarizes with the agent's credentials", async () => {
+      mockLLM().forAnyModel().returns("Summary").register();
+
+      const countTokens = vi.fn(async () => 500);
+      const client = createClientWithLimits({ countTokens });
+      const complete = vi.spyOn(client, "complete");
+      const credentials = { anthropic: { apiKey: "tenant-key" } };
+      const manager = new CompactionManager(
+        client,
+        "mock:test",
+        { strategy: "summarization", preserveRecentTurns: 1 },
+        undefined,
+        credentials,
+      );
+
+      await manager.compact(createMockConversation([], createConversation(5)), 2);
+
+      expect(countTokens).toHaveBeenCalled();
+      for (const call of countTokens.mock.calls) {
+        expect(call[2]).toBe(credentials);
+      }
+      expect(complete).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ credentials }),
+      );
+    });
+
     it("should update statistics after compaction", async () => {
       mockLLM().forAnyModel().returns("Summary").register();
 
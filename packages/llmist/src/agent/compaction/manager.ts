@@ -9,6 +9,7 @@ import type { ILogObj, Logger } from "tslog";
 import type { LLMist } from "../../core/client.js";
 import type { LLMMessage } from "../../core/messages.js";
 import type { ModelLimits } from "../../core/model-catalog.js";
+import type { ProviderCredentialsMap } from "../../core/options.js";
 import { createLogger } from "../../logging/logger.js";
 import type { IConversationManager } from "../interfaces.js";
 import {
@@ -68,6 +69,7 @@ export class CompactionManager {
   private readonly config: ResolvedCompactionConfig;
   private readonly strategy: CompactionStrategy;
   private readonly logger: Logger<ILogObj>;
+  private readonly credentials?: ProviderCredentialsMap;
   private modelLimits?: ModelLimits;
   private hasWarnedModelNotFound = false;
   private hasWarnedNoTokenCounting = false;
@@ -82,11 +84,13 @@ export class CompactionManager {
     model: string,
     config: CompactionConfig = {},
     logger?: Logger<ILogObj>,
+    credentials?: ProviderCredentialsMap,
   ) {
     this.client = client;
     this.model = model;
     this.config = resolveCompactionConfig(config);
     this.logger = logger ?? createLogger({ name: "llmist:compaction" });
+    this.credentials = credentials;
 
     // Create strategy instance (support both string name and custom instance)
     if (typeof config.strategy === "object" && "compact" in config.strategy) {
@@ -127,7 +131,7 @@ export class CompactionManager {
       return null;
     }
     const messages = conversation.getMessages();
-    const currentTokens = await this.client.countTokens(this.model, messages);
+    const currentTokens = await this.client.countTokens(this.model, messages, this.credentials);
     this.lastTokenCount = currentTokens;
 
     // Calculate usage percentage (modelLimits guaranteed by resolveModelLimits above)
@@ -141,8 +145,12 @@ export class CompactionManager {
     // Perform compaction with precomputed token counts to avoid redundant counting
     const historyMessages = conversation.getHistoryMessages();
     const baseMessages = conversation.getBaseMessages();
-    const historyTokens = await this.client.countTokens(this.model, historyMessages);
-    const baseTokens = await this.client.countTokens(this.model, baseMessages);
+    const historyTokens = await this.client.countTokens(
+      this.model,
+      historyMessages,
+      this.credentials,
+    );
+    const baseTokens = await this.client.countTokens(this.model, baseMessages, this.credentials);
 
     return this.compact(conversation, iteration, {
       historyMessages,
@@ -174,9 +182,11 @@ export class CompactionManager {
     const historyMessages = precomputed?.historyMessages ?? conversation.getHistoryMessages();
     const baseMessages = precomputed?.baseMessages ?? conversation.getBaseMessages();
     const historyTokens =
-      precomputed?.historyTokens ?? (await this.client.countTokens(this.model, historyMessages));
+      precomputed?.historyTokens ??
+      (await this.client.countTokens(this.model, historyMessages, this.credentials));
     const baseTokens =
-      precomputed?.baseTokens ?? (await this.client.countTokens(this.model, baseMessages));
+      precomputed?.baseTokens ??
+      (await this.client.countTokens(this.model, baseMessages, this.credentials));
     const currentTokens = precomputed?.currentTokens ?? historyTokens + baseTokens;
 
     // Calculate target tokens for history (leaving room for base messages and output)
@@ -193,13 +203,18 @@ export class CompactionManager {
       modelLimits: this.modelLimits!,
       client: this.client,
       model: this.config.summarizationModel ?? this.model,
+      credentials: this.credentials,
     });
 
     // Replace the conversation history
     conversation.replaceHistory(result.messages);
 
     // Count tokens after compaction
-    const afterTokens = await this.client.countTokens(this.model, conversation.getMessages());
+    const afterTokens = await this.client.countTokens(
+      this.model,
+      conversation.getMessages(),
+      this.credentials,
+    );
     const tokensSaved = currentTokens - afterTokens;
 
     // Update statistics
@@ -287,6 +302,16 @@ export class CompactionManager {
     };
   }
 
+  /**
+   * Continue the statistics of a previous run, e.g. when resuming an agent
+   * from a checkpoint.
+   */
+  restoreStats(stats: CompactionStats): void {
+    this.totalCompactions = stats.totalCompactions;
+    this.totalTokensSaved = stats.totalTokensSaved;
+    this.lastTokenCount = stats.currentUsage.tokens;
+  }
+
   /**
    * Check if compaction is enabled.
    */
@@ -8,7 +8,7 @@
  * - When accuracy is more important than speed
  */
 
-import type { LLMMessage } from "../../../core/messages.js";
+import { extractMessageText, type LLMMessage } from "../../../core/messages.js";
 import type { ResolvedCompactionConfig } from "../config.js";
 import {
   type CompactionContext,
@@ -118,7 +118,7 @@ export class SummarizationStrategy implements CompactionStrategy {
     return messages
       .map((msg) => {
         const role = msg.role.charAt(0).toUpperCase() + msg.role.slice(1);
-        return `${role}: ${msg.content}`;
+        return `${role}: ${extractMessageText(msg.content)}`;
       })
       .join("\n\n");
   }
@@ -138,6 +138,7 @@ export class SummarizationStrategy implements CompactionStrategy {
     const response = await context.client.complete(prompt, {
       model,
       temperature: 0.3, // Low temperature for factual summarization
+      credentials: context.credentials,
     });
 
     return response.trim();
@@ -11,6 +11,7 @@
 import type { LLMist } from "../../core/client.js";
 import type { LLMMessage } from "../../core/messages.js";
 import type { ModelLimits } from "../../core/model-catalog.js";
+import type { ProviderCredentialsMap } from "../../core/options.js";
 import type { ResolvedCompactionConfig } from "./config.js";
 
 /**
@@ -27,6 +28,8 @@ export interface CompactionContext {
   client: LLMist;
   /** Model identifier for token counting and summarization */
   model: string;
+  /** Per-request credentials to make summarization calls with */
+  credentials?: ProviderCredentialsMap;
 }
 
 /**
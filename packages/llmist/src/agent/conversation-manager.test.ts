@@ -285,6 +285,30 @@ describe("ConversationManager", () => {
     });
   });
 
+  describe("snapshot and restoreHistory", () => {
+    it("should split the conversation into base, initial and history", () => {
+      const manager = new ConversationManager(createBaseMessages(), createInitialMessages());
+      manager.addUserMessage("Follow-up");
+
+      expect(manager.snapshot()).toEqual({
+        base: createBaseMessages(),
+        initial: createInitialMessages(),
+        history: [{ role: "user", content: "Follow-up" }],
+      });
+    });
+
+    it("should keep message metadata when restoring", () => {
+      const manager = new ConversationManager(createBaseMessages(), []);
+
+      manager.restoreHistory([
+        { role: "assistant", content: "Loading skill" },
+        { role: "user", content: "Result (gc_1): skill body", metadata: { sticky: true } },
+      ]);
+
+      expect(manager.getHistoryMessages()[1].metadata).toEqual({ sticky: true });
+    });
+  });
+
   describe("integration", () => {
     it("should support full conversation flow", () => {
       const manager = new ConversationManager(createBaseMessages(), createInitialMessages());
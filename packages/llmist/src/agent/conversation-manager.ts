@@ -3,6 +3,7 @@
  * Extracted from AgentLoop to follow Single Responsibility Principle.
  */
 
+import { isToolCallPart } from "../core/input-content.js";
 import type { MessageContent } from "../core/messages.js";
 import { extractMessageText, type LLMMessage, LLMMessageBuilder } from "../core/messages.js";
 import type { GadgetMediaOutput, StoredMedia } from "../gadgets/types.js";
@@ -18,6 +19,8 @@ export interface ConversationManagerOptions {
   endPrefix?: string;
   /** Custom argument prefix for block format */
   argPrefix?: string;
+  /** Record gadget calls without block markers (native gadget transport) */
+  nativeGadgetCalls?: boolean;
 }
 
 /**
@@ -31,6 +34,7 @@ export class ConversationManager implements IConversationManager {
   private readonly startPrefix?: string;
   private readonly endPrefix?: string;
   private readonly argPrefix?: string;
+  private readonly nativeGadgetCalls: boolean;
 
   constructor(
     baseMessages: LLMMessage[],
@@ -39,17 +43,14 @@ export class ConversationManager implements IConversationManager {
   ) {
     this.baseMessages = baseMessages;
     this.initialMessages = initialMessages;
-    this.historyBuilder = new LLMMessageBuilder();
 
     // Store prefixes for history replacement
     this.startPrefix = options.startPrefix;
     this.endPrefix = options.endPrefix;
     this.argPrefix = options.argPrefix;
+    this.nativeGadgetCalls = options.nativeGadgetCalls ?? false;
 
-    // Apply custom prefixes if provided (must match system prompt markers)
-    if (options.startPrefix && options.endPrefix) {
-      this.historyBuilder.withPrefixes(options.startPrefix, options.endPrefix, options.argPrefix);
-    }
+    this.historyBuilder = this.createHistoryBuilder();
   }
 
   addUserMessage(content: MessageContent): void {
@@ -106,27 +107,73 @@ export class ConversationManager implements IConversationManager {
   }
 
   replaceHistory(newHistory: LLMMessage[]): void {
-    // Create a new builder with the same prefixes
-    this.historyBuilder = new LLMMessageBuilder();
-    if (this.startPrefix && this.endPrefix) {
-      this.historyBuilder.withPrefixes(this.startPrefix, this.endPrefix, this.argPrefix);
-    }
+    this.historyBuilder = this.createHistoryBuilder();
 
     // Add each message from the new history
     for (const msg of newHistory) {
       if (msg.role === "user") {
         this.historyBuilder.addUser(msg.content);
       } else if (msg.role === "assistant") {
-        // Assistant messages are always text, extract if multimodal
-        this.historyBuilder.addAssistant(extractMessageText(msg.content));
+        this.historyBuilder.addAssistant(assistantContent(msg.content));
       }
       // System messages are not added to history (they're in baseMessages)
     }
   }
 
+  /**
+   * Copy of the conversation split into base, initial and history messages,
+   * e.g. for an agent checkpoint.
+   */
+  snapshot(): { base: LLMMessage[]; initial: LLMMessage[]; history: LLMMessage[] } {
+    return {
+      base: [...this.baseMessages],
+      initial: [...this.initialMessages],
+      history: this.historyBuilder.build(),
+    };
+  }
+
+  /**
+   * Restore history messages as they were, including their metadata (e.g.
+   * sticky skill results). Used when resuming an agent from a checkpoint.
+   */
+  restoreHistory(messages: LLMMessage[]): void {
+    this.historyBuilder = this.createHistoryBuilder();
+    for (const msg of messages) {
+      if (msg.role === "user") {
+        this.historyBuilder.addUser(msg.content, msg.metadata);
+      } else if (msg.role === "assistant") {
+        this.historyBuilder.addAssistant(assistantContent(msg.content), msg.metadata);
+      }
+    }
+  }
+
   getConversationHistory(): LLMMessage[] {
     // Returns full conversation history: initial messages (from previous sessions via withHistory())
     // plus runtime history (from current session). Excludes base messages (system prompt, gadget instructions).
     return [...this.initialMessages, ...this.historyBuilder.build()];
   }
+
+  /** Create an empty history builder with the same prefixes and call format. */
+  private createHistoryBuilder(): LLMMessageBuilder {
+    const builder = new LLMMessageBuilder();
+    // Custom prefixes must match the system prompt markers
+    if (this.startPrefix && this.endPrefix) {
+      builder.withPrefixes(this.startPrefix, this.endPrefix, this.argPrefix);
+    }
+    if (this.nativeGadgetCalls) {
+      builder.withNativeGadgetCalls();
+    }
+    return builder;
+  }
+}
+
+/**
+ * Content of an assistant message added back to history: text, plus the
+ * native tool calls it holds.
+ */
+function assistantContent(content: MessageContent): MessageContent {
+  if (typeof content === "string" || !content.some(isToolCallPart)) {
+    return extractMessageText(content);
+  }
+  return content.filter((part) => part.type === "text" || isToolCallPart(part));
 }
@@ -95,6 +95,62 @@ export class ConversationUpdater {
     return "terminate";
   }
 
+  /**
+   * Update conversation history with a response that called gadgets.
+   *
+   * - Optionally wraps accompanying text as a synthetic gadget call (if textWithGadgetsHandler is set)
+   * - Adds the gadget results available so far to conversation
+   *
+   * Also used for a response suspended on human input, whose completed
+   * results may be empty; the waiting gadgets are added once answered.
+   *
+   * @param textOutputs - Array of text chunks from the LLM response
+   * @param gadgetResults - Array of gadget_result stream events from this response
+   */
+  updateWithGadgetResults(textOutputs: string[], gadgetResults: StreamEvent[]): void {
+    // If configured, wrap accompanying text as a synthetic gadget call
+    if (this.textWithGadgetsHandler) {
+      const textContent = textOutputs.join("");
+
+      if (textContent.trim()) {
+        const { gadgetName, parameterMapping, resultMapping } = this.textWithGadgetsHandler;
+        const syntheticId = this.createSyntheticInvocation();
+        this.conversation.addGadgetCallResult(
+          gadgetName,
+          parameterMapping(textContent),
+          resultMapping ? resultMapping(textContent) : textContent,
+          syntheticId,
+        );
+      }
+    }
+
+    // Add all gadget results to conversation
+    for (const output of gadgetResults) {
+      if (output.type === "gadget_result") {
+        const gadgetResult = output.result;
+        // Sticky-result wiring: if the gadget definition opted in via
+        // `stickyResult: true` AND the execution succeeded (no error), mark
+        // the persisted user-message sticky so the compaction layer keeps
+        // it past truncation. Failed runs stay non-sticky so a bad LoadSkill
+        // doesn't pin itself in context.
+        const metadata =
+          gadgetResult.stickyResult === true && gadgetResult.error === undefined
+            ? { sticky: true }
+            : undefined;
+        this.conversation.addGadgetCallResult(
+          gadgetResult.gadgetName,
+          gadgetResult.parameters,
+          gadgetResult.error ?? gadgetResult.result ?? "",
+          gadgetResult.invocationId,
+          gadgetResult.media,
+          gadgetResult.mediaIds,
+          gadgetResult.storedMedia,
+          metadata,
+        );
+      }
+    }
+  }
+
   /**
    * Update conversation history with LLM response results.
    *
@@ -119,48 +175,7 @@ export class ConversationUpdater {
     const didExecuteGadgets = gadgetResults.some((e) => e.type === "gadget_result");
 
     if (didExecuteGadgets) {
-      // If configured, wrap accompanying text as a synthetic gadget call
-      if (this.textWithGadgetsHandler) {
-        const textContent = textOutputs.join("");
-
-        if (textContent.trim()) {
-          const { gadgetName, parameterMapping, resultMapping } = this.textWithGadgetsHandler;
-          const syntheticId = this.createSyntheticInvocation();
-          this.conversation.addGadgetCallResult(
-            gadgetName,
-            parameterMapping(textContent),
-            resultMapping ? resultMapping(textContent) : textContent,
-            syntheticId,
-          );
-        }
-      }
-
-      // Add all gadget results to conversation
-      for (const output of gadgetResults) {
-        if (output.type === "gadget_result") {
-          const gadgetResult = output.result;
-          // Sticky-result wiring: if the gadget definition opted in via
-          // `stickyResult: true` AND the execution succeeded (no error), mark
-          // the persisted user-message sticky so the compaction layer keeps
-          // it past truncation. Failed runs stay non-sticky so a bad LoadSkill
-          // doesn't pin itself in context.
-          const metadata =
-            gadgetResult.stickyResult === true && gadgetResult.error === undefined
-              ? { sticky: true }
-              : undefined;
-          this.conversation.addGadgetCallResult(
-            gadgetResult.gadgetName,
-            gadgetResult.parameters,
-            gadgetResult.error ?? gadgetResult.result ?? "",
-            gadgetResult.invocationId,
-            gadgetResult.media,
-            gadgetResult.mediaIds,
-            gadgetResult.storedMedia,
-            metadata,
-          );
-        }
-      }
-
+      this.updateWithGadgetResults(textOutputs, gadgetResults);
       return false; // Don't break loop
     }
 
@@ -13,7 +13,7 @@
  * ```
  */
 
-import type { StreamEvent } from "../gadgets/types.js";
+import type { AgentSuspendedEvent, StreamEvent } from "../gadgets/types.js";
 
 /**
  * Named event handlers for different event types.
@@ -57,6 +57,9 @@ export interface EventHandlers {
   /** Called when human input is required */
   onHumanInputRequired?: (data: { question: string; gadgetName: string }) => void | Promise<void>;
 
+  /** Called when the run suspends to wait for human input (`withSuspendOnHumanInput()`) */
+  onSuspended?: (event: AgentSuspendedEvent) => void | Promise<void>;
+
   /** Called for any other event type */
   onOther?: (event: StreamEvent) => void | Promise<void>;
 }
@@ -127,6 +130,12 @@ export async function runWithHandlers(
         }
         break;
 
+      case "suspended":
+        if (handlers.onSuspended) {
+          await handlers.onSuspended(event);
+        }
+        break;
+
       default:
         if (handlers.onOther) {
           await handlers.onOther(event);
@@ -177,6 +177,46 @@ describe("GadgetDependencyResolver", () => {
     });
   });
 
+  describe("markSuspended", () => {
+    const request = {
+      question: "Deploy?",
+      gadgetName: "AskUser",
+      invocationId: "ask",
+      parameters: {},
+    };
+
+    it("keeps dependents of a suspended gadget waiting", () => {
+      const resolver = new GadgetDependencyResolver();
+      resolver.markSuspended(request);
+      resolver.addPending(makeCall("deploy", ["ask"]));
+      resolver.addPending(makeCall("notify", ["deploy"]));
+      resolver.addPending(makeCall("other", ["missing"]));
+
+      expect(resolver.getSuspendedRequests()).toEqual([request]);
+      expect(resolver.getReadyCalls()).toEqual({ readyToExecute: [], readyToSkip: [] });
+      expect(
+        resolver.getPendingEntries().map(([id, call]) => [id, resolver.isAwaitingHumanInput(call)]),
+      ).toEqual([
+        ["deploy", true],
+        ["notify", true],
+        ["other", false],
+      ]);
+    });
+
+    it("releases dependents once the answer is recorded", () => {
+      const resolver = new GadgetDependencyResolver();
+      resolver.markSuspended(request);
+      resolver.addPending(makeCall("deploy", ["ask"]));
+
+      resolver.markComplete(makeResult("ask", { gadgetName: "AskUser" }));
+
+      expect(resolver.getSuspendedRequests()).toEqual([]);
+      expect(resolver.getReadyCalls().readyToExecute.map((call) => call.invocationId)).toEqual([
+        "deploy",
+      ]);
+    });
+  });
+
   // =========================================================================
   // Queries: isCompleted / isFailed (mixed prior + current state)
   // =========================================================================
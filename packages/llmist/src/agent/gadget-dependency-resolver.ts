@@ -8,10 +8,15 @@
  * - Gadgets awaiting their dependencies
  * - Completed gadget results (for dependency satisfaction checks)
  * - Failed invocations (for dependency skip propagation)
+ * - Gadgets waiting for human input (suspend mode)
  * - Cross-iteration dependency state (prior completed/failed invocations)
  */
 
-import type { GadgetExecutionResult, ParsedGadgetCall } from "../gadgets/types.js";
+import type {
+  GadgetExecutionResult,
+  HumanInputRequest,
+  ParsedGadgetCall,
+} from "../gadgets/types.js";
 
 /**
  * Options for constructing a GadgetDependencyResolver.
@@ -60,6 +65,8 @@ export class GadgetDependencyResolver {
   private completedResults: Map<string, GadgetExecutionResult> = new Map();
   /** Invocation IDs of gadgets that have failed (error or skipped due to dependency) */
   private failedInvocations: Set<string> = new Set();
+  /** Requests of gadgets waiting for human input, keyed by invocation ID */
+  private suspendedRequests: Map<string, HumanInputRequest> = new Map();
 
   /** Invocation IDs completed in previous iterations (read-only) */
   private readonly priorCompletedInvocations: Set<string>;
@@ -94,6 +101,7 @@ export class GadgetDependencyResolver {
    * @param result - The completed gadget execution result
    */
   markComplete(result: GadgetExecutionResult): void {
+    this.suspendedRequests.delete(result.invocationId);
     this.completedResults.set(result.invocationId, result);
     if (result.error) {
       this.failedInvocations.add(result.invocationId);
@@ -111,6 +119,16 @@ export class GadgetDependencyResolver {
     this.failedInvocations.add(invocationId);
   }
 
+  /**
+   * Record that a gadget is waiting for human input. Its dependents stay
+   * pending until {@link markComplete} records the answer.
+   *
+   * @param request - The gadget's request for human input
+   */
+  markSuspended(request: HumanInputRequest): void {
+    this.suspendedRequests.set(request.invocationId, request);
+  }
+
   /**
    * Remove a gadget from the pending queue (called just before execution).
    *
@@ -166,6 +184,28 @@ export class GadgetDependencyResolver {
     );
   }
 
+  /**
+   * Get the requests of gadgets waiting for human input, in the order they were made.
+   */
+  getSuspendedRequests(): HumanInputRequest[] {
+    return Array.from(this.suspendedRequests.values());
+  }
+
+  /**
+   * Check whether a pending gadget call waits for human input, through a
+   * suspended dependency or a pending dependency that does.
+   *
+   * @param call - The gadget call to check
+   */
+  isAwaitingHumanInput(call: ParsedGadgetCall, visited: Set<string> = new Set()): boolean {
+    visited.add(call.invocationId);
+    return call.dependencies.some((dep) => {
+      if (this.suspendedRequests.has(dep)) return true;
+      const pending = this.gadgetsAwaitingDependencies.get(dep);
+      return !!pending && !visited.has(dep) && this.isAwaitingHumanInput(pending, visited);
+    });
+  }
+
   /**
    * Get the execution result for a completed invocation, if available.
    * Only returns results from the current iteration; prior iterations
@@ -557,6 +557,24 @@ describe("GadgetDispatcher", () => {
     });
   });
 
+  describe("processPendingGadgets: suspended dependencies", () => {
+    it("keeps gadgets waiting on human input pending instead of skipping them", async () => {
+      const { dispatcher, resolver } = createDispatcher({ gadgetExecutionMode: "sequential" });
+      resolver.markSuspended({
+        question: "Deploy?",
+        gadgetName: "AskUser",
+        invocationId: "ask",
+        parameters: {},
+      });
+
+      await collectDispatch(dispatcher, makeCall("g1", "TestGadget", ["ask"]));
+      const pendingEvents = await collectPending(dispatcher);
+
+      expect(pendingEvents.filter((e) => e.type === "gadget_skipped")).toEqual([]);
+      expect(resolver.getPendingEntries().map(([id]) => id)).toEqual(["g1"]);
+    });
+  });
+
   // =========================================================================
   // maxGadgetsPerResponse limit: marks skipped as failed in resolver
   // =========================================================================
@@ -355,10 +355,13 @@ export class GadgetDispatcher {
       }
     }
 
-    // Warn about any remaining unresolved gadgets (circular or missing dependencies)
-    if (this.dependencyResolver.pendingCount > 0) {
+    // Warn about any remaining unresolved gadgets (circular or missing dependencies).
+    // Gadgets waiting on human input stay pending until the agent is resumed.
+    const pendingEntries = this.dependencyResolver
+      .getPendingEntries()
+      .filter(([, call]) => !this.dependencyResolver.isAwaitingHumanInput(call));
+    if (pendingEntries.length > 0) {
       // Collect all pending invocation IDs to detect circular dependencies
-      const pendingEntries = this.dependencyResolver.getPendingEntries();
       const pendingIds = new Set(pendingEntries.map(([id]) => id));
 
       for (const [invocationId, call] of pendingEntries) {
@@ -391,9 +394,9 @@ export class GadgetDispatcher {
         });
 
         // Mark as failed and emit skip event
+        this.dependencyResolver.removePending(invocationId);
         yield* this.emitGadgetSkipEvents(call, missingDeps[0], errorMessage);
       }
-      this.dependencyResolver.clearPending();
     }
   }
 
@@ -16,6 +16,10 @@
  *  10. Mark complete in dependency resolver
  *  11. Yield gadget_result event
  *
+ * A gadget that asks for human input while the agent suspends on it stops
+ * after step 5: it is marked suspended and yields `human_input_required`.
+ * Steps 6-11 run with the answer once the agent is resumed ({@link GadgetHookLifecycle.complete}).
+ *
  * @module agent/gadget-hook-lifecycle
  */
 
@@ -194,6 +198,34 @@ export class GadgetHookLifecycle {
       result = await this.executor.execute(call);
     }
 
+    if (result.humanInputQuestion !== undefined) {
+      const request = {
+        question: result.humanInputQuestion,
+        gadgetName: result.gadgetName,
+        invocationId: result.invocationId,
+        parameters,
+      };
+      this.dependencyResolver.markSuspended(request);
+      yield { type: "human_input_required", ...request };
+      return;
+    }
+
+    yield* this.complete(result, parameters);
+  }
+
+  /**
+   * Run the hooks that follow a gadget's execution (steps 6-11) for its result.
+   * Used directly to record the answer of a gadget that waited for human input.
+   *
+   * @param initialResult - The gadget's execution result
+   * @param parameters - The gadget's (intercepted) parameters
+   */
+  async *complete(
+    initialResult: GadgetExecutionResult,
+    parameters: Record<string, unknown> = initialResult.parameters,
+  ): AsyncGenerator<StreamEvent> {
+    let result = initialResult;
+
     // Step 5: Interceptor - Transform result and/or error text
     if ((result.result || result.error) && this.hooks.interceptors?.interceptGadgetResult) {
       const context: GadgetResultInterceptorContext = {
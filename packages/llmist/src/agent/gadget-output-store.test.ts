@@ -137,6 +137,19 @@ describe("GadgetOutputStore", () => {
     });
   });
 
+  describe("list() and restore()", () => {
+    it("should restore outputs under their original IDs", () => {
+      const original = new GadgetOutputStore();
+      const id = original.store("Search", "line 1\nline 2");
+
+      const restored = new GadgetOutputStore();
+      restored.restore(original.list());
+
+      expect(restored.getIds()).toEqual([id]);
+      expect(restored.get(id)).toEqual(original.get(id));
+    });
+  });
+
   describe("timestamp", () => {
     it("should record timestamp when storing", () => {
       const store = new GadgetOutputStore();
@@ -104,6 +104,28 @@ export class GadgetOutputStore {
     return Array.from(this.outputs.keys());
   }
 
+  /**
+   * Get all stored outputs, in the order they were stored.
+   *
+   * @returns Array of stored outputs
+   */
+  list(): StoredOutput[] {
+    return Array.from(this.outputs.values());
+  }
+
+  /**
+   * Put back outputs from a previous run, e.g. when resuming an agent from a
+   * checkpoint. Outputs keep their IDs so references in the conversation
+   * still resolve.
+   *
+   * @param outputs - Outputs previously returned by {@link list}
+   */
+  restore(outputs: StoredOutput[]): void {
+    for (const output of outputs) {
+      this.outputs.set(output.id, output);
+    }
+  }
+
   /**
    * Get the number of stored outputs.
    */
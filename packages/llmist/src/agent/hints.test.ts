@@ -8,9 +8,11 @@ import {
   iterationProgressHint,
   type ParallelGadgetHintOptions,
   parallelGadgetHint,
+  planHint,
 } from "./hints.js";
 import { HookPresets } from "./hook-presets.js";
 import type { AfterLLMCallControllerContext, LLMCallControllerContext } from "./hooks.js";
+import { AgentPlan } from "./planning.js";
 
 const logger = createLogger({ name: "test", minLevel: 6 }); // Silent
 
@@ -304,6 +306,56 @@ describe("parallelGadgetHint", () => {
   });
 });
 
+describe("planHint", () => {
+  async function hintFor(plan: AgentPlan): Promise<string | undefined> {
+    const hooks = planHint(plan);
+    const result = await hooks.controllers?.beforeLLMCall?.(
+      createBeforeLLMCallContext(0, 10, [{ role: "user", content: "Fix the bug" }]),
+    );
+    const messages = result?.action === "proceed" ? result.modifiedOptions?.messages : undefined;
+    return messages?.[1]?.content as string | undefined;
+  }
+
+  it("asks for a plan while there is none", async () => {
+    expect(await hintFor(new AgentPlan())).toBe(
+      "[System Hint] Before working on the task, call Plan with the steps you will take to complete it.",
+    );
+  });
+
+  it("shows the plan with its progress", async () => {
+    const plan = new AgentPlan();
+    plan.replace([{ title: "Reproduce" }, { title: "Fix" }]);
+    plan.update([{ id: "1", status: "done" }]);
+
+    const hint = await hintFor(plan);
+
+    expect(hint).toContain("Call UpdatePlan when you start or finish a task.");
+    expect(hint).toContain("Current plan (1/2 done):\n[x] 1. Reproduce\n[ ] 2. Fix");
+  });
+
+  it("asks for a revision with the reason", async () => {
+    const plan = new AgentPlan();
+    plan.replace([{ title: "Fix" }]);
+    plan.requestReplan("RunTests failed: 3 tests failed");
+
+    const hint = await hintFor(plan);
+
+    expect(hint).toContain("The plan needs revising.");
+    expect(hint).toContain("Reason: RunTests failed: 3 tests failed");
+  });
+
+  it("supports custom messages", async () => {
+    const hooks = planHint(new AgentPlan(), { createMessage: "Plan first!" });
+
+    const result = await hooks.controllers?.beforeLLMCall?.(createBeforeLLMCallContext(0, 10));
+
+    expect(result).toEqual({
+      action: "proceed",
+      modifiedOptions: { messages: [{ role: "user", content: "[System Hint] Plan first!" }] },
+    });
+  });
+});
+
 describe("createHints", () => {
   it("creates empty hooks structure when no hints enabled", () => {
     const hooks = createHints({});
@@ -8,6 +8,7 @@
  *
  * 1. **Proactive (beforeLLMCall)**: Inject context before LLM generates response
  *    - Example: Iteration progress ("You're on iteration 3/10")
+ *    - Example: The current plan in planning mode
  *
  * 2. **Reactive (afterLLMCall)**: Coach based on what LLM did
  *    - Example: "Tip: You can call multiple gadgets in parallel"
@@ -37,6 +38,7 @@
  * @module agent/hints
  */
 
+import type { LLMMessage } from "../core/messages.js";
 import {
   DEFAULT_HINTS,
   type HintContext,
@@ -45,6 +47,10 @@ import {
 } from "../core/prompt-config.js";
 import { HookPresets } from "./hook-presets.js";
 import type { AgentHooks } from "./hooks.js";
+import type { AgentPlan } from "./planning.js";
+
+/** Prefix of the user messages hints are inserted as. */
+export const SYSTEM_HINT_PREFIX = "[System Hint]";
 
 // ============================================================================
 // CONFIGURATION TYPES
@@ -102,6 +108,29 @@ export interface ParallelGadgetHintOptions {
   enabled?: boolean;
 }
 
+/**
+ * Options for the plan hint.
+ */
+export interface PlanHintOptions {
+  /**
+   * Message shown while there is no plan yet.
+   * @default DEFAULT_HINTS.planCreateHint
+   */
+  createMessage?: string;
+
+  /**
+   * Message shown when the plan needs revising, followed by the reason.
+   * @default DEFAULT_HINTS.planReviseHint
+   */
+  reviseMessage?: string;
+
+  /**
+   * Message shown with the current plan.
+   * @default DEFAULT_HINTS.planProgressHint
+   */
+  progressMessage?: string;
+}
+
 /**
  * Combined hints configuration for createHints().
  */
@@ -185,41 +214,86 @@ export function iterationProgressHint(options?: IterationHintOptions): AgentHook
           hint += " ⚠️ Running low on iterations - focus on completing the task.";
         }
 
-        // Inject as system-level context in messages
-        const messages = [...ctx.options.messages];
+        return {
+          action: "proceed",
+          modifiedOptions: { messages: insertHint(ctx.options.messages, hint) },
+        };
+      },
+    },
+  };
+}
 
-        // Find last user message index (compatible with older ES targets)
-        let lastUserIndex = -1;
-        for (let i = messages.length - 1; i >= 0; i--) {
-          if (messages[i].role === "user") {
-            lastUserIndex = i;
-            break;
-          }
-        }
+/**
+ * Creates a proactive hint that shows the LLM its plan (planning mode).
+ *
+ * Before the plan exists, the hint asks the LLM to make one. Afterwards it
+ * shows the tasks with their status and progress, and asks for a revision
+ * when the plan needs one. Added by `AgentBuilder.withPlanning()`.
+ *
+ * @param plan - The agent's plan
+ * @param options - Configuration options
+ * @returns AgentHooks that can be merged with other hooks
+ *
+ * @example
+ * ```typescript
+ * const hooks = planHint(plan, {
+ *   progressMessage: "Stick to the plan. Mark tasks done with UpdatePlan.",
+ * });
+ * ```
+ */
+export function planHint(plan: AgentPlan, options?: PlanHintOptions): AgentHooks {
+  const {
+    createMessage = DEFAULT_HINTS.planCreateHint,
+    reviseMessage = DEFAULT_HINTS.planReviseHint,
+    progressMessage = DEFAULT_HINTS.planProgressHint,
+  } = options ?? {};
 
-        if (lastUserIndex >= 0) {
-          // Insert hint after the last user message
-          messages.splice(lastUserIndex + 1, 0, {
-            role: "user",
-            content: `[System Hint] ${hint}`,
-          });
+  return {
+    controllers: {
+      beforeLLMCall: async (ctx) => {
+        let hint: string;
+        if (!plan.hasPlan()) {
+          hint = createMessage;
         } else {
-          // No user messages found - append hint at the end
-          messages.push({
-            role: "user",
-            content: `[System Hint] ${hint}`,
-          });
+          const { done, total } = plan.progress;
+          const status = plan.needsReplan
+            ? `${reviseMessage} Reason: ${plan.replanReason}`
+            : progressMessage;
+          hint = `${status}\nCurrent plan (${done}/${total} done):\n${plan.format()}`;
         }
 
         return {
           action: "proceed",
-          modifiedOptions: { messages },
+          modifiedOptions: { messages: insertHint(ctx.options.messages, hint) },
         };
       },
     },
   };
 }
 
+/**
+ * Insert a hint as a user message after the last user message
+ * (or at the end when there is none).
+ */
+function insertHint(original: LLMMessage[], hint: string): LLMMessage[] {
+  const messages = [...original];
+
+  // Find last user message index (compatible with older ES targets)
+  let lastUserIndex = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "user") {
+      lastUserIndex = i;
+      break;
+    }
+  }
+
+  messages.splice(lastUserIndex >= 0 ? lastUserIndex + 1 : messages.length, 0, {
+    role: "user",
+    content: `${SYSTEM_HINT_PREFIX} ${hint}`,
+  });
+  return messages;
+}
+
 /**
  * Creates a reactive hint that encourages parallel gadget usage.
  *
@@ -262,7 +336,7 @@ export function parallelGadgetHint(options?: ParallelGadgetHintOptions): AgentHo
             messages: [
               {
                 role: "user",
-                content: `[System Hint] ${message}`,
+                content: `${SYSTEM_HINT_PREFIX} ${message}`,
               },
             ],
           };
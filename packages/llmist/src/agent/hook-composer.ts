@@ -1,6 +1,9 @@
+import { createMemoryRecallController } from "../memory/recall.js";
+import type { MemoryConfig } from "../memory/types.js";
 import { getEnvFileLoggingHooks } from "./file-logging.js";
 import { HookPresets } from "./hook-presets.js";
 import type { AgentHooks, BeforeLLMCallAction, LLMCallControllerContext } from "./hooks.js";
+import { createPlanningHooks, type PlanningConfig } from "./planning.js";
 
 /**
  * Context available to trailing message functions.
@@ -22,7 +25,7 @@ export type TrailingMessage = string | ((ctx: TrailingMessageContext) => string)
  *
  * Encapsulates:
  * 1. Merging user hooks with environment-based logging
- * 2. Injecting trailing message controllers
+ * 2. Injecting recalled memories, the plan and trailing message controllers
  * 3. Future hook augmentation (e.g. debugging, metrics)
  */
 export class HookComposer {
@@ -31,11 +34,15 @@ export class HookComposer {
    *
    * @param userHooks - User-provided hooks
    * @param trailingMessage - Optional trailing message configuration
+   * @param memory - Optional memory whose relevant entries are recalled before each call
+   * @param planning - Optional plan to show before each call (planning mode)
    * @returns Final composed hooks or undefined
    */
   static compose(
     userHooks?: AgentHooks,
     trailingMessage?: TrailingMessage,
+    memory?: MemoryConfig,
+    planning?: PlanningConfig,
   ): AgentHooks | undefined {
     let hooks = userHooks;
 
@@ -46,6 +53,21 @@ export class HookComposer {
       hooks = hooks ? HookPresets.merge(envFileLogging, hooks) : envFileLogging;
     }
 
+    // Inject recalled memories before the trailing message, which stays last
+    if (memory && memory.autoRecall !== false) {
+      hooks = {
+        ...hooks,
+        controllers: {
+          ...hooks?.controllers,
+          beforeLLMCall: createMemoryRecallController(memory, hooks?.controllers?.beforeLLMCall),
+        },
+      };
+    }
+
+    if (planning) {
+      hooks = createPlanningHooks(planning, hooks);
+    }
+
     // Handle trailing message injection
     if (!trailingMessage) {
       return hooks;
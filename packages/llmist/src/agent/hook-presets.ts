@@ -13,6 +13,7 @@
  * - **errorLogging()** - Log detailed error information
  * - **silent()** - No output (useful for testing)
  * - **monitoring(options?)** - All-in-one preset combining logging, timing, tokens, and errors
+ * - **modelRouter(options)** - Pick the model per LLM call from routing rules
  * - **merge(...hookSets)** - Combine multiple hook configurations
  *
  * ## Quick Start
@@ -56,6 +57,7 @@ import type { ModelRegistry } from "../core/model-registry.js";
 import { stripProviderPrefix } from "../core/model-shortcuts.js";
 import { createFileLoggingHooks, type FileLoggingOptions } from "./file-logging.js";
 import type { AgentHooks } from "./hooks.js";
+import { ModelRouter, type ModelRouterOptions } from "./model-router.js";
 
 /**
  * Options for logging preset.
@@ -821,6 +823,38 @@ export class HookPresets {
     return createFileLoggingHooks(options);
   }
 
+  /**
+   * Routes each LLM call to a model chosen by ordered rules.
+   *
+   * Routes match on the features the call needs (vision, reasoning), the
+   * iteration, gadget failures so far, the share of the budget spent and the
+   * estimated context size. The first matching route whose model supports the
+   * call wins; otherwise the agent's model is used. See {@link ModelRouter}.
+   *
+   * **Note:** Routing runs as a `beforeLLMCall` controller, so when merged it
+   * replaces (or is replaced by) other `beforeLLMCall` controllers.
+   *
+   * @param options - Routes and an optional model registry for capability checks
+   * @returns Hook configuration that can be passed to .withHooks()
+   *
+   * @example
+   * ```typescript
+   * await LLMist.createAgent()
+   *   .withModel("sonnet")
+   *   .withHooks(HookPresets.modelRouter({
+   *     modelRegistry: client.modelRegistry,
+   *     routes: [
+   *       { model: "opus", minGadgetFailures: 2 },
+   *       { model: "haiku", maxIteration: 1 },
+   *     ],
+   *   }))
+   *   .ask("Refactor the parser");
+   * ```
+   */
+  static modelRouter(options: ModelRouterOptions): AgentHooks {
+    return new ModelRouter(options).toHooks();
+  }
+
   /**
    * Returns empty hook configuration for clean output without any logging.
    *
@@ -94,6 +94,7 @@
  * LLM CALL LIFECYCLE:
  * 1. onLLMCallStart (observer)
  * 2. beforeLLMCall (controller) - can skip/modify
+ *    onBudgetWarning (observer) - only if the call could exceed the budget
  * 3. onLLMCallReady (observer) - final state before API call
  * 4. [LLM API Call]
  * 5. For each stream chunk:
@@ -124,8 +125,10 @@
  */
 
 import type { ILogObj, Logger } from "tslog";
+import type { CacheStats } from "../core/cache-stats.js";
 import type { LLMMessage } from "../core/messages.js";
 import type { LLMGenerationOptions, TokenUsage } from "../core/options.js";
+import type { BudgetExceedAction } from "./budget-guard.js";
 import type { CompactionEvent, CompactionStats } from "./compaction/config.js";
 
 // ============================================================================
@@ -212,6 +215,8 @@ export interface ObserveLLMCompleteContext {
   finalMessage: string;
   /** Accumulated thinking/reasoning content from reasoning models */
   thinkingContent?: string;
+  /** Prompt cache hit ratio, reused prefix and savings (when usage is reported) */
+  cache?: CacheStats;
   logger: Logger<ILogObj>;
   /** Present when event is from a subagent (undefined for top-level agent) */
   subagentContext?: SubagentContext;
@@ -384,8 +389,17 @@ export interface Observers {
   /** Called when a retry attempt is made after a failed LLM call */
   onRetryAttempt?: (context: ObserveRetryAttemptContext) => void | Promise<void>;
 
+  /** Called when an LLM call switches to a fallback model after retries are exhausted */
+  onModelFallback?: (context: ObserveModelFallbackContext) => void | Promise<void>;
+
+  /** Called when an LLM call could exceed the remaining budget, before it is clamped, downgraded or refused */
+  onBudgetWarning?: (context: ObserveBudgetWarningContext) => void | Promise<void>;
+
   /** Called when a skill is activated (via LoadSkill gadget or pre-activation) */
   onSkillActivated?: (context: ObserveSkillActivatedContext) => void | Promise<void>;
+
+  /** Called when the final answer has been checked by the output validators */
+  onOutputValidation?: (context: ObserveOutputValidationContext) => void | Promise<void>;
 }
 
 /**
@@ -458,6 +472,77 @@ export interface ObserveRetryAttemptContext {
   subagentContext?: SubagentContext;
 }
 
+/**
+ * Context provided when an LLM call switches to a fallback model.
+ * Read-only observation point.
+ */
+export interface ObserveModelFallbackContext {
+  /** Current iteration */
+  iteration: number;
+  /** Model that failed */
+  fromModel: string;
+  /** Model the call continues with */
+  toModel: string;
+  /** The error that exhausted retries for `fromModel` */
+  error: Error;
+  /** Logger instance */
+  logger: Logger<ILogObj>;
+  /** Present when event is from a subagent (undefined for top-level agent) */
+  subagentContext?: SubagentContext;
+}
+
+/**
+ * Context provided when the final answer has been checked by the output
+ * validators. Read-only observation point.
+ */
+export interface ObserveOutputValidationContext {
+  /** Current iteration */
+  iteration: number;
+  /** The final answer that was checked */
+  output: string;
+  /** Whether every validator passed */
+  valid: boolean;
+  /** Problems found by the validators (empty when valid) */
+  issues: string[];
+  /** Number of the answer within the run, starting at 1 */
+  attempt: number;
+  /** Whether the agent is asked to repair the answer (false when it passed or no repairs are left) */
+  willRepair: boolean;
+  /** Logger instance */
+  logger: Logger<ILogObj>;
+  /** Present when event is from a subagent (undefined for top-level agent) */
+  subagentContext?: SubagentContext;
+}
+
+/**
+ * Context provided when the worst-case cost of an LLM call exceeds the
+ * remaining budget. Read-only observation point.
+ */
+export interface ObserveBudgetWarningContext {
+  /** Current iteration */
+  iteration: number;
+  /** What the agent does about it (see `BudgetPolicy`) */
+  action: BudgetExceedAction;
+  /** Model the call was planned with */
+  model: string;
+  /** Counted input tokens of the call */
+  inputTokens: number;
+  /** Output token limit the estimate assumes */
+  maxTokens: number;
+  /** Worst-case cost of the call as planned, in USD */
+  estimatedCost: number;
+  /** Budget limit in USD */
+  budget: number;
+  /** Cumulative cost so far in USD */
+  totalCost: number;
+  /** Model and output limit the call continues with (`"clamp"` and `"downgrade"`) */
+  modifiedOptions?: { model: string; maxTokens: number };
+  /** Logger instance */
+  logger: Logger<ILogObj>;
+  /** Present when event is from a subagent (undefined for top-level agent) */
+  subagentContext?: SubagentContext;
+}
+
 // ============================================================================
 // SKILL HOOK CONTEXTS
 // ============================================================================
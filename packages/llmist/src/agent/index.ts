@@ -32,7 +32,9 @@ export {
   type IterationHintOptions,
   iterationProgressHint,
   type ParallelGadgetHintOptions,
+  type PlanHintOptions,
   parallelGadgetHint,
+  planHint,
 } from "./hints.js";
 // New clean hooks system
 export type {
@@ -59,6 +61,7 @@ export type {
   LLMCallControllerContext,
   LLMErrorControllerContext,
   MessageInterceptorContext,
+  ObserveBudgetWarningContext,
   ObserveChunkContext,
   ObserveCompactionContext,
   ObserveGadgetArgsPartialContext,
@@ -70,6 +73,8 @@ export type {
   ObserveLLMCallContext,
   ObserveLLMCompleteContext,
   ObserveLLMErrorContext,
+  ObserveModelFallbackContext,
+  ObserveOutputValidationContext,
   ObserveRateLimitThrottleContext,
   ObserveRetryAttemptContext,
   Observers,
@@ -7,8 +7,10 @@
  * - prepareLLMCall: beforeLLMCall controller "proceed" modifies options
  * - prepareLLMCall: returns llmNodeId from execution tree
  * - prepareLLMCall: no controller invocation when no controller defined
+ * - budget enforcement: onBudgetWarning, clamping and refusing over-budget calls
  * - completeLLMCall: fires onLLMCallComplete observer
  * - completeLLMCall: updates execution tree via completeLLMCall
+ * - completeLLMCall: reports prompt cache stats to the observer and tree
  * - completeLLMCall: afterLLMCall controller "modify_and_continue" modifies message
  * - completeLLMCall: afterLLMCall controller "append_messages" adds messages to conversation
  * - completeLLMCall: afterLLMCall controller "append_and_modify" does both
@@ -24,8 +26,10 @@ import type { ILogObj, Logger } from "tslog";
 import { describe, expect, it, vi } from "vitest";
 import type { LLMist } from "../core/client.js";
 import { ExecutionTree } from "../core/execution-tree.js";
-import type { ModelRegistry } from "../core/model-registry.js";
+import type { ModelSpec } from "../core/model-catalog.js";
+import { ModelRegistry } from "../core/model-registry.js";
 import type { LLMGenerationOptions } from "../core/options.js";
+import { BudgetExceededError } from "../gadgets/exceptions.js";
 import type { StreamCompletionEvent } from "../gadgets/types.js";
 import type { ConversationManager } from "./conversation-manager.js";
 import type {
@@ -33,6 +37,7 @@ import type {
   AfterLLMErrorAction,
   AgentHooks,
   BeforeLLMCallAction,
+  ObserveBudgetWarningContext,
   ObserveLLMCallContext,
   ObserveLLMCallReadyContext,
   ObserveLLMCompleteContext,
@@ -128,6 +133,14 @@ describe("LLMCallLifecycle", () => {
       expect(options.model).toBe("claude-3-5-sonnet");
     });
 
+    it("should pass per-request credentials to the call", async () => {
+      const credentials = { anthropic: { apiKey: "tenant-key" } };
+      const lifecycle = createLifecycle({ credentials });
+      const { options } = await lifecycle.prepareLLMCall(1);
+
+      expect(options.credentials).toBe(credentials);
+    });
+
     it("should return a non-empty llmNodeId", async () => {
       const lifecycle = createLifecycle();
       const { llmNodeId } = await lifecycle.prepareLLMCall(1);
@@ -315,6 +328,196 @@ describe("LLMCallLifecycle", () => {
     });
   });
 
+  // =========================================================================
+  // budget enforcement
+  // =========================================================================
+
+  describe("budget enforcement", () => {
+    /** Client pricing "test:model" at $10/M input and $100/M output, 1000 input tokens per call */
+    function createPricedClient(): LLMist {
+      const modelRegistry = new ModelRegistry();
+      modelRegistry.registerModel({
+        provider: "test",
+        modelId: "model",
+        displayName: "Test Model",
+        contextWindow: 100_000,
+        maxOutputTokens: 8_000,
+        pricing: { input: 10, output: 100 },
+        knowledgeCutoff: "2025-01",
+        features: { streaming: true, functionCalling: true, vision: false },
+      });
+      return {
+        modelRegistry,
+        tokens: { count: vi.fn(async () => 1000), countLocal: vi.fn(() => 1000) },
+      } as unknown as LLMist;
+    }
+
+    it("leaves calls that fit the budget unchanged", async () => {
+      const onBudgetWarning = vi.fn();
+      const lifecycle = createLifecycle({
+        client: createPricedClient(),
+        model: "test:model",
+        defaultMaxTokens: 6000,
+        budget: 1,
+        budgetPolicy: {},
+        hooks: { observers: { onBudgetWarning } },
+      });
+
+      const { options } = await lifecycle.prepareLLMCall(1);
+
+      expect(options.maxTokens).toBe(6000);
+      expect(onBudgetWarning).not.toHaveBeenCalled();
+    });
+
+    it("makes calls with the output limit the budget was checked for", async () => {
+      const onBudgetWarning = vi.fn();
+      const lifecycle = createLifecycle({
+        client: createPricedClient(),
+        model: "test:model",
+        budget: 0.45,
+        budgetPolicy: { onExceed: "refuse" },
+        hooks: { observers: { onBudgetWarning } },
+      });
+
+      const { options } = await lifecycle.prepareLLMCall(1);
+
+      // ($0.45 - $0.01 input) / $100 per 1M output tokens
+      expect(options.maxTokens).toBeGreaterThanOrEqual(4399);
+      expect(options.maxTokens).toBeLessThanOrEqual(4400);
+      expect(onBudgetWarning).not.toHaveBeenCalled();
+    });
+
+    it("makes no pre-flight check without a budget policy", async () => {
+      const client = createPricedClient();
+      const onBudgetWarning = vi.fn();
+      const lifecycle = createLifecycle({
+        client,
+        model: "test:model",
+        defaultMaxTokens: 6000,
+        budget: 0.01,
+        hooks: { observers: { onBudgetWarning } },
+      });
+
+      const { options } = await lifecycle.prepareLLMCall(1);
+
+      expect(options.maxTokens).toBe(6000);
+      expect(onBudgetWarning).not.toHaveBeenCalled();
+      expect(client.tokens.countLocal).not.toHaveBeenCalled();
+    });
+
+    it("clamps maxTokens and notifies onBudgetWarning before onLLMCallReady", async () => {
+      const calls: string[] = [];
+      const warnings: ObserveBudgetWarningContext[] = [];
+      const lifecycle = createLifecycle({
+        client: createPricedClient(),
+        model: "test:model",
+        defaultMaxTokens: 6000,
+        budget: 0.5,
+        budgetPolicy: {},
+        hooks: {
+          observers: {
+            onBudgetWarning: (ctx) => {
+              calls.push("warning");
+              warnings.push(ctx);
+            },
+            onLLMCallReady: () => {
+              calls.push("ready");
+            },
+          },
+        },
+      });
+
+      const { options } = await lifecycle.prepareLLMCall(1);
+
+      expect(calls).toEqual(["warning", "ready"]);
+      expect(warnings[0]).toMatchObject({
+        iteration: 1,
+        action: "clamp",
+        model: "test:model",
+        inputTokens: 1000,
+        maxTokens: 6000,
+        budget: 0.5,
+        totalCost: 0,
+      });
+      expect(warnings[0].estimatedCost).toBeCloseTo(0.61);
+      expect(options.maxTokens).toBe(warnings[0].modifiedOptions?.maxTokens);
+      expect(options.maxTokens).toBeLessThan(6000);
+    });
+
+    it("refuses the call with BudgetExceededError and marks its node failed", async () => {
+      const tree = new ExecutionTree();
+      const onLLMCallReady = vi.fn();
+      const lifecycle = createLifecycle({
+        client: createPricedClient(),
+        tree,
+        model: "test:model",
+        defaultMaxTokens: 6000,
+        budget: 0.5,
+        budgetPolicy: { onExceed: "refuse" },
+        hooks: { observers: { onLLMCallReady } },
+      });
+
+      const error = await lifecycle.prepareLLMCall(1).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(BudgetExceededError);
+      expect(error).toMatchObject({ budget: 0.5, totalCost: 0, model: "test:model", tree });
+      expect(onLLMCallReady).not.toHaveBeenCalled();
+      const [node] = tree.getRoots();
+      expect(node.completedAt).toBeDefined();
+    });
+
+    it("checks fallback calls against the budget", async () => {
+      const tree = new ExecutionTree();
+      const lifecycle = createLifecycle({
+        client: createPricedClient(),
+        tree,
+        model: "test:model",
+        budget: 0.5,
+        budgetPolicy: { onExceed: "refuse" },
+      });
+      const node = tree.addLLMCall({ iteration: 1, model: "test:primary", parentId: null });
+
+      const error = await lifecycle
+        .prepareFallbackCall(
+          { model: "test:primary", messages: [], maxTokens: 6000 },
+          "test:model",
+          1,
+          node.id,
+        )
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(BudgetExceededError);
+      expect(error).toMatchObject({ model: "test:model", estimatedCost: 0.61 });
+    });
+  });
+
+  // =========================================================================
+  // prepareFallbackCall
+  // =========================================================================
+
+  describe("prepareFallbackCall", () => {
+    it("caps the output limit at the fallback model's limit", async () => {
+      const lifecycle = createLifecycle();
+      const options = { model: "test:primary", messages: [], maxTokens: 1000 };
+
+      expect(await lifecycle.prepareFallbackCall(options, "test:backup", 1, "node")).toEqual({
+        ...options,
+        model: "test:backup",
+        maxTokens: 1000,
+      });
+      expect(
+        (
+          await lifecycle.prepareFallbackCall(
+            { ...options, maxTokens: 8000 },
+            "test:backup",
+            1,
+            "node",
+          )
+        ).maxTokens,
+      ).toBe(4096);
+    });
+  });
+
   // =========================================================================
   // completeLLMCall
   // =========================================================================
@@ -375,6 +578,38 @@ describe("LLMCallLifecycle", () => {
       expect(node.completedAt).not.toBeNull();
     });
 
+    it("should report prompt cache stats to the observer and the tree", async () => {
+      const capturedContexts: ObserveLLMCompleteContext[] = [];
+      const hooks: AgentHooks = {
+        observers: {
+          onLLMCallComplete: (ctx) => capturedContexts.push(ctx),
+        },
+      };
+      const client = createMockClient();
+      vi.mocked(client.modelRegistry.getModelSpec).mockReturnValue({
+        pricing: { input: 2, output: 8, cachedInput: 0.5 },
+      } as ModelSpec);
+
+      const tree = new ExecutionTree();
+      const lifecycle = createLifecycle({ client, hooks, tree });
+      const { llmNodeId, options } = await lifecycle.prepareLLMCall(1);
+      const result = makeStreamCompletionEvent({
+        usage: {
+          inputTokens: 1_000_000,
+          outputTokens: 10,
+          totalTokens: 1_000_010,
+          cachedInputTokens: 800_000,
+        },
+      });
+
+      await lifecycle.completeLLMCall(llmNodeId, result, 1, options, 0);
+
+      const cache = capturedContexts[0].cache;
+      expect(cache?.hitRatio).toBeCloseTo(0.8);
+      expect(cache?.savingsUSD).toBeCloseTo(1.2);
+      expect(tree.getTotalCacheStats()).toEqual(cache);
+    });
+
     it("should return finalMessage from result when no afterLLMCall controller", async () => {
       const lifecycle = createLifecycle();
       const { llmNodeId, options } = await lifecycle.prepareLLMCall(1);
@@ -11,6 +11,7 @@
  * ## Observer Call Order (preserved from Agent)
  * 1. `onLLMCallStart`  — fires when tree node is created, before controller
  * 2. `beforeLLMCall` controller — can skip or modify options
+ *    `onBudgetWarning` — fires when the call could exceed the budget (clamp, downgrade or refuse)
  * 3. `onLLMCallReady` — fires after controller modifications, before API call
  * 4. [LLM API Call + Stream]
  * 5. `onLLMCallComplete` — fires after stream completes
@@ -21,13 +22,22 @@
  */
 
 import type { ILogObj, Logger } from "tslog";
+import { type CacheStats, computeCacheStats } from "../core/cache-stats.js";
 import type { LLMist } from "../core/client.js";
 import type { ExecutionTree, NodeId } from "../core/execution-tree.js";
 import { extractMessageText } from "../core/messages.js";
 import type { ModelSpec } from "../core/model-catalog.js";
-import type { CachingConfig, LLMGenerationOptions, ReasoningConfig } from "../core/options.js";
+import type {
+  CachingConfig,
+  LLMGenerationOptions,
+  ProviderCredentialsMap,
+  ReasoningConfig,
+  ToolDefinition,
+} from "../core/options.js";
 import type { RateLimitTracker } from "../core/rate-limit.js";
+import { BudgetExceededError } from "../gadgets/exceptions.js";
 import type { StreamCompletionEvent } from "../gadgets/types.js";
+import { BudgetGuard, type BudgetPolicy } from "./budget-guard.js";
 import type { ConversationManager } from "./conversation-manager.js";
 import {
   validateAfterLLMCallAction,
@@ -42,6 +52,7 @@ import type {
   BeforeLLMCallAction,
   LLMCallControllerContext,
   LLMErrorControllerContext,
+  ObserveBudgetWarningContext,
   ObserveLLMCallContext,
   ObserveLLMCallReadyContext,
   ObserveLLMCompleteContext,
@@ -81,6 +92,8 @@ export interface LLMCallLifecycleOptions {
   reasoning?: ReasoningConfig;
   /** Caching configuration */
   caching?: CachingConfig;
+  /** Per-request provider credentials */
+  credentials?: ProviderCredentialsMap;
   /** Model ID (resolved) */
   model: string;
   /** Default max tokens from model catalog */
@@ -89,8 +102,12 @@ export interface LLMCallLifecycleOptions {
   maxIterations: number;
   /** Budget limit in USD (optional) */
   budget?: number;
+  /** Pre-flight budget enforcement; off without a policy (used when `budget` is set) */
+  budgetPolicy?: BudgetPolicy;
   /** Parent node ID for tree hierarchy (null for root agent) */
   parentNodeId: NodeId | null;
+  /** Native tool definitions for the gadgets (native gadget transport only) */
+  gadgetTools?: () => ToolDefinition[];
 }
 
 // ============================================================================
@@ -126,11 +143,14 @@ export class LLMCallLifecycle {
   private readonly temperature?: number;
   private readonly reasoning?: ReasoningConfig;
   private readonly caching?: CachingConfig;
+  private readonly credentials?: ProviderCredentialsMap;
   private readonly model: string;
   private readonly defaultMaxTokens?: number;
   private readonly maxIterations: number;
   private readonly budget?: number;
+  private readonly budgetGuard?: BudgetGuard;
   private readonly parentNodeId: NodeId | null;
+  private readonly gadgetTools?: () => ToolDefinition[];
 
   constructor(options: LLMCallLifecycleOptions) {
     this.client = options.client;
@@ -143,11 +163,17 @@ export class LLMCallLifecycle {
     this.temperature = options.temperature;
     this.reasoning = options.reasoning;
     this.caching = options.caching;
+    this.credentials = options.credentials;
     this.model = options.model;
     this.defaultMaxTokens = options.defaultMaxTokens;
     this.maxIterations = options.maxIterations;
     this.budget = options.budget;
+    this.budgetGuard =
+      options.budget !== undefined && options.budgetPolicy
+        ? new BudgetGuard(options.client, options.budget, options.budgetPolicy)
+        : undefined;
     this.parentNodeId = options.parentNodeId;
+    this.gadgetTools = options.gadgetTools;
   }
 
   // ==========================================================================
@@ -173,6 +199,8 @@ export class LLMCallLifecycle {
     // Resolve caching config: explicit config > default enabled
     const caching = this.resolveCachingConfig();
 
+    const tools = this.gadgetTools?.();
+
     let llmOptions: LLMGenerationOptions = {
       model: this.model,
       messages: this.conversation.getMessages(),
@@ -181,6 +209,8 @@ export class LLMCallLifecycle {
       signal: this.signal,
       reasoning,
       caching,
+      ...(this.credentials ? { credentials: this.credentials } : {}),
+      ...(tools && tools.length > 0 ? { tools } : {}),
     };
 
     // Create LLM call node in execution tree BEFORE hooks
@@ -230,9 +260,17 @@ export class LLMCallLifecycle {
         };
       } else if (action.action === "proceed" && action.modifiedOptions) {
         llmOptions = { ...llmOptions, ...action.modifiedOptions };
+        // Controllers may route the call to another model (e.g. ModelRouter)
+        llmNode.model = llmOptions.model;
       }
     }
 
+    // Pre-flight budget check on the final model and output limit
+    if (this.budgetGuard) {
+      llmOptions = await this.enforceBudget(this.budgetGuard, iteration, llmNode.id, llmOptions);
+      llmNode.model = llmOptions.model;
+    }
+
     // Observer: LLM call ready (after controller modifications)
     await safeObserve(async () => {
       if (this.hooks.observers?.onLLMCallReady) {
@@ -253,6 +291,47 @@ export class LLMCallLifecycle {
     return { options: llmOptions, llmNodeId: llmNode.id };
   }
 
+  /**
+   * Adapt the options of a call to a fallback model: cap the output limit at
+   * the model's own limit and check the call against the budget again.
+   *
+   * @param llmOptions - Options of the call that failed
+   * @param model - Fallback model to switch to
+   * @param iteration - Current agent iteration number
+   * @param nodeId - The execution tree node ID for this call
+   * @returns Options to make the fallback call with
+   * @throws BudgetExceededError when the budget guard refuses the fallback call
+   */
+  async prepareFallbackCall(
+    llmOptions: LLMGenerationOptions,
+    model: string,
+    iteration: number,
+    nodeId: NodeId,
+  ): Promise<LLMGenerationOptions> {
+    const limit = this.client.modelRegistry.getModelLimits(model)?.maxOutputTokens;
+    const configured = llmOptions.maxTokens;
+    const maxTokens =
+      configured !== undefined && limit !== undefined
+        ? Math.min(configured, limit)
+        : (configured ?? limit);
+    let fallbackOptions: LLMGenerationOptions = { ...llmOptions, model, maxTokens };
+
+    if (this.budgetGuard) {
+      fallbackOptions = await this.enforceBudget(
+        this.budgetGuard,
+        iteration,
+        nodeId,
+        fallbackOptions,
+      );
+      const node = this.tree.getNode(nodeId);
+      if (node?.type === "llm_call") {
+        node.model = fallbackOptions.model;
+      }
+    }
+
+    return fallbackOptions;
+  }
+
   /**
    * Complete an LLM call: fire `onLLMCallComplete` observer, update the execution
    * tree with cost, and process the `afterLLMCall` controller.
@@ -271,6 +350,8 @@ export class LLMCallLifecycle {
     llmOptions: LLMGenerationOptions,
     gadgetCallCount: number,
   ): Promise<string> {
+    const cache = this.computeCallCacheStats(result, llmOptions.model);
+
     // Observer: LLM call complete
     await safeObserve(async () => {
       if (this.hooks.observers?.onLLMCallComplete) {
@@ -283,6 +364,7 @@ export class LLMCallLifecycle {
           rawResponse: result.rawResponse,
           finalMessage: result.finalMessage,
           thinkingContent: result.thinkingContent,
+          cache,
           logger: this.logger,
           subagentContext,
         };
@@ -291,7 +373,7 @@ export class LLMCallLifecycle {
     }, this.logger);
 
     // Complete LLM call in execution tree (with cost calculation)
-    this.completeLLMCallInTree(nodeId, result);
+    this.completeLLMCallInTree(nodeId, result, llmOptions.model, cache);
 
     // Process afterLLMCall controller (may modify finalMessage or append messages)
     return this.processAfterLLMCallController(iteration, llmOptions, result, gadgetCallCount);
@@ -429,22 +511,107 @@ export class LLMCallLifecycle {
     return { enabled: true };
   }
 
+  /**
+   * Check the call's worst-case cost against the remaining budget, notify
+   * `onBudgetWarning` when it doesn't fit, and clamp, downgrade or refuse it.
+   *
+   * @returns Options to make the call with
+   * @throws BudgetExceededError when the call is refused (its node is marked failed)
+   */
+  private async enforceBudget(
+    guard: BudgetGuard,
+    iteration: number,
+    nodeId: NodeId,
+    llmOptions: LLMGenerationOptions,
+  ): Promise<LLMGenerationOptions> {
+    const totalCost = this.tree.getTotalCost();
+    const decision = await guard.check(llmOptions, totalCost);
+    const { action, estimate } = decision;
+    if (action === "proceed" || !estimate) {
+      return { ...llmOptions, ...decision.modifiedOptions };
+    }
+
+    this.logger.warn("LLM call could exceed the budget", {
+      action,
+      model: estimate.model,
+      estimatedCost: estimate.worstCaseCost,
+      remainingBudget: decision.remainingBudget,
+    });
+
+    await safeObserve(async () => {
+      if (this.hooks.observers?.onBudgetWarning) {
+        const context: ObserveBudgetWarningContext = {
+          iteration,
+          action,
+          model: estimate.model,
+          inputTokens: estimate.inputTokens,
+          maxTokens: estimate.maxTokens,
+          estimatedCost: estimate.worstCaseCost,
+          budget: guard.budget,
+          totalCost,
+          modifiedOptions: decision.modifiedOptions,
+          logger: this.logger,
+          subagentContext: getSubagentContextForNode(this.tree, nodeId),
+        };
+        await this.hooks.observers.onBudgetWarning(context);
+      }
+    }, this.logger);
+
+    if (action === "refuse") {
+      const error = new BudgetExceededError({
+        budget: guard.budget,
+        totalCost,
+        model: estimate.model,
+        estimatedCost: estimate.worstCaseCost,
+        tree: this.tree,
+      });
+      this.tree.failLLMCall(nodeId, error, false);
+      throw error;
+    }
+
+    return { ...llmOptions, ...decision.modifiedOptions };
+  }
+
+  /**
+   * Prompt cache statistics for a call, priced by the model that served it.
+   * Undefined when the provider reported no usage.
+   */
+  private computeCallCacheStats(
+    result: StreamCompletionEvent,
+    model: string,
+  ): CacheStats | undefined {
+    if (!result.usage) return undefined;
+    return computeCacheStats(
+      result.usage,
+      this.client.modelRegistry?.getModelSpec?.(model)?.pricing,
+    );
+  }
+
   /**
    * Calculate cost and complete LLM call in execution tree.
    * Also records usage to rate limit tracker for proactive throttling.
    */
-  private completeLLMCallInTree(nodeId: NodeId, result: StreamCompletionEvent): void {
+  private completeLLMCallInTree(
+    nodeId: NodeId,
+    result: StreamCompletionEvent,
+    model: string,
+    cache: CacheStats | undefined,
+  ): void {
     const inputTokens = result.usage?.inputTokens ?? 0;
     const outputTokens = result.usage?.outputTokens ?? 0;
 
-    // Record usage to rate limit tracker for proactive throttling
+    // Record usage (and server-reported quotas) to rate limit tracker for proactive throttling
     if (this.rateLimitTracker) {
       this.rateLimitTracker.recordUsage(inputTokens, outputTokens);
+      if (result.rateLimits) {
+        this.rateLimitTracker.recordServerLimits(result.rateLimits);
+      }
     }
 
     // Calculate cost using ModelRegistry (if available)
+    // Priced by the model that served the call, which may be a fallback
     const llmCost = this.client.modelRegistry?.estimateCost?.(
-      this.model,
+      model,
       inputTokens,
       outputTokens,
       result.usage?.cachedInputTokens ?? 0,
@@ -458,6 +625,7 @@ export class LLMCallLifecycle {
       usage: result.usage,
       finishReason: result.finishReason,
       cost: llmCost,
+      cache,
       thinkingContent: result.thinkingContent,
     });
   }
@@ -0,0 +1,261 @@
+import type { ILogObj, Logger } from "tslog";
+import { describe, expect, it, vi } from "vitest";
+import type { ModelSpec } from "../core/model-catalog.js";
+import { ModelRegistry } from "../core/model-registry.js";
+import type { LLMGenerationOptions } from "../core/options.js";
+import type { LLMCallControllerContext, ObserveGadgetCompleteContext } from "./hooks.js";
+import { ModelRouter, type RoutingRequest } from "./model-router.js";
+
+function spec(modelId: string, overrides: Partial<ModelSpec> = {}): ModelSpec {
+  return {
+    provider: "test",
+    modelId,
+    displayName: modelId,
+    contextWindow: 100_000,
+    maxOutputTokens: 8_000,
+    pricing: { input: 1, output: 2 },
+    knowledgeCutoff: "2025-01",
+    features: { streaming: true, functionCalling: true, vision: true },
+    ...overrides,
+  };
+}
+
+function request(overrides: Partial<RoutingRequest> = {}): RoutingRequest {
+  return {
+    iteration: 1,
+    totalCost: 0,
+    gadgetFailures: 0,
+    options: { model: "test:base", messages: [{ role: "user", content: "Hello" }] },
+    ...overrides,
+  };
+}
+
+describe("ModelRouter", () => {
+  describe("route()", () => {
+    it("returns undefined when no route matches", () => {
+      const router = new ModelRouter({ routes: [{ model: "test:strong", minIteration: 3 }] });
+
+      expect(router.route(request())).toBeUndefined();
+    });
+
+    it("uses the first matching route", () => {
+      const router = new ModelRouter({
+        routes: [
+          { model: "test:cheap", maxIteration: 1 },
+          { model: "test:strong", minIteration: 2 },
+        ],
+      });
+
+      expect(router.route(request({ iteration: 1 }))?.model).toBe("test:cheap");
+      expect(router.route(request({ iteration: 2 }))?.model).toBe("test:strong");
+    });
+
+    it("resolves model aliases", () => {
+      const router = new ModelRouter({ routes: [{ model: "sonnet" }] });
+
+      expect(router.route(request())?.model).toBe("anthropic:claude-sonnet-4-5");
+    });
+
+    it("matches on gadget failures", () => {
+      const router = new ModelRouter({ routes: [{ model: "test:strong", minGadgetFailures: 2 }] });
+
+      expect(router.route(request({ gadgetFailures: 1 }))).toBeUndefined();
+      expect(router.route(request({ gadgetFailures: 2 }))?.model).toBe("test:strong");
+    });
+
+    it("matches on the share of the budget spent", () => {
+      const router = new ModelRouter({
+        routes: [
+          { model: "test:cheap", minBudgetUsed: 0.8 },
+          { model: "test:strong", maxBudgetUsed: 0.5 },
+        ],
+      });
+
+      expect(router.route(request({ budget: 1, totalCost: 0.9 }))?.model).toBe("test:cheap");
+      expect(router.route(request({ budget: 1, totalCost: 0.2 }))?.model).toBe("test:strong");
+      expect(router.route(request({ budget: 1, totalCost: 0.6 }))).toBeUndefined();
+    });
+
+    it("never matches minBudgetUsed without a budget", () => {
+      const router = new ModelRouter({ routes: [{ model: "test:cheap", minBudgetUsed: 0 }] });
+
+      expect(router.route(request({ totalCost: 5 }))).toBeUndefined();
+    });
+
+    it("matches on the estimated context size", () => {
+      const router = new ModelRouter({
+        routes: [{ model: "test:long", minContextTokens: 1_000 }],
+      });
+      const long: LLMGenerationOptions = {
+        model: "test:base",
+        messages: [{ role: "user", content: "x".repeat(10_000) }],
+      };
+
+      expect(router.route(request())).toBeUndefined();
+      expect(router.route(request({ options: long }))?.model).toBe("test:long");
+    });
+
+    it("matches on required features", () => {
+      const router = new ModelRouter({
+        routes: [
+          { model: "test:vision", requires: ["vision"] },
+          { model: "test:thinker", requires: ["reasoning"] },
+        ],
+      });
+      const withImage: LLMGenerationOptions = {
+        model: "test:base",
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: "What is this?" },
+              { type: "image", source: { type: "url", url: "https://example.com/cat.png" } },
+            ],
+          },
+        ],
+      };
+      const withReasoning: LLMGenerationOptions = {
+        ...request().options,
+        reasoning: { enabled: true },
+      };
+
+      expect(router.route(request())).toBeUndefined();
+      expect(router.route(request({ options: withImage }))?.model).toBe("test:vision");
+      expect(router.route(request({ options: withReasoning }))?.model).toBe("test:thinker");
+    });
+
+    it("skips models that cannot serve the call", () => {
+      const modelRegistry = new ModelRegistry();
+      modelRegistry.registerModels([
+        spec("blind", { features: { streaming: true, functionCalling: true, vision: false } }),
+        spec("small", { contextWindow: 1_000 }),
+        spec("big", { maxOutputTokens: 32_000 }),
+      ]);
+      const router = new ModelRouter({
+        modelRegistry,
+        routes: [{ model: "test:blind" }, { model: "test:small" }, { model: "test:big" }],
+      });
+      const options: LLMGenerationOptions = {
+        model: "test:base",
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: "x".repeat(4_000) },
+              { type: "image", source: { type: "url", url: "https://example.com/cat.png" } },
+            ],
+          },
+        ],
+      };
+
+      expect(router.route(request({ options }))).toMatchObject({
+        model: "test:big",
+        maxTokens: 32_000,
+      });
+    });
+
+    it("skips models without reasoning for calls that need it", () => {
+      const modelRegistry = new ModelRegistry();
+      modelRegistry.registerModels([
+        spec("plain"),
+        spec("thinker", {
+          features: { streaming: true, functionCalling: true, vision: true, reasoning: true },
+        }),
+      ]);
+      const router = new ModelRouter({
+        modelRegistry,
+        routes: [{ model: "test:plain" }, { model: "test:thinker" }],
+      });
+      const options: LLMGenerationOptions = {
+        model: "test:base",
+        messages: [{ role: "user", content: "Think" }],
+        reasoning: { enabled: true },
+      };
+
+      expect(router.route(request())?.model).toBe("test:plain");
+      expect(router.route(request({ options }))?.model).toBe("test:thinker");
+    });
+
+    it("caps the call's output limit at the model's limit", () => {
+      const modelRegistry = new ModelRegistry();
+      modelRegistry.registerModels([spec("cheap")]);
+      const router = new ModelRouter({ modelRegistry, routes: [{ model: "test:cheap" }] });
+      const withLimit = (maxTokens: number) =>
+        request({ options: { ...request().options, maxTokens } });
+
+      expect(router.route(withLimit(2_000))?.maxTokens).toBe(2_000);
+      expect(router.route(withLimit(50_000))?.maxTokens).toBe(8_000);
+    });
+  });
+
+  describe("toHooks()", () => {
+    const logger = { debug: vi.fn() } as unknown as Logger<ILogObj>;
+
+    function controllerContext(
+      overrides: Partial<LLMCallControllerContext> = {},
+    ): LLMCallControllerContext {
+      return {
+        iteration: 0,
+        maxIterations: 10,
+        totalCost: 0,
+        options: { model: "test:base", messages: [], maxTokens: 4_000 },
+        logger,
+        ...overrides,
+      };
+    }
+
+    it("switches the model and keeps the configured output limit without a spec", async () => {
+      const hooks = new ModelRouter({ routes: [{ model: "test:cheap" }] }).toHooks();
+
+      const action = await hooks.controllers?.beforeLLMCall?.(controllerContext());
+
+      expect(action).toEqual({
+        action: "proceed",
+        modifiedOptions: { model: "test:cheap", maxTokens: 4_000 },
+      });
+    });
+
+    it("lowers the output limit to the new model's limit", async () => {
+      const modelRegistry = new ModelRegistry();
+      modelRegistry.registerModels([spec("cheap", { maxOutputTokens: 2_000 })]);
+      const hooks = new ModelRouter({ modelRegistry, routes: [{ model: "test:cheap" }] }).toHooks();
+
+      const action = await hooks.controllers?.beforeLLMCall?.(controllerContext());
+
+      expect(action).toEqual({
+        action: "proceed",
+        modifiedOptions: { model: "test:cheap", maxTokens: 2_000 },
+      });
+    });
+
+    it("proceeds unchanged when no route matches", async () => {
+      const hooks = new ModelRouter({
+        routes: [{ model: "test:strong", minIteration: 2 }],
+      }).toHooks();
+
+      const action = await hooks.controllers?.beforeLLMCall?.(controllerContext());
+
+      expect(action).toEqual({ action: "proceed" });
+    });
+
+    it("counts failed gadget executions of the agent itself", async () => {
+      const hooks = new ModelRouter({
+        routes: [{ model: "test:strong", minGadgetFailures: 1 }],
+      }).toHooks();
+      const failure = { error: "boom" } as ObserveGadgetCompleteContext;
+
+      await hooks.observers?.onGadgetExecutionComplete?.({
+        ...failure,
+        subagentContext: { parentGadgetInvocationId: "gc_1", depth: 1 },
+      });
+      expect(await hooks.controllers?.beforeLLMCall?.(controllerContext())).toEqual({
+        action: "proceed",
+      });
+
+      await hooks.observers?.onGadgetExecutionComplete?.(failure);
+      expect(await hooks.controllers?.beforeLLMCall?.(controllerContext())).toMatchObject({
+        modifiedOptions: { model: "test:strong" },
+      });
+    });
+  });
+});
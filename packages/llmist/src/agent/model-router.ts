@@ -0,0 +1,246 @@
+/**
+ * Rule-based model routing for agent LLM calls.
+ *
+ * A {@link ModelRouter} picks the model for each LLM call from an ordered list
+ * of routes. Each route names a model and the conditions under which it
+ * applies: the features the call needs, the iteration, the gadget failures so
+ * far, the share of the budget already spent and the size of the context.
+ * The first matching route whose model can serve the call wins; when none
+ * matches, the agent's own model is used.
+ *
+ * The router plugs into the agent as a `beforeLLMCall` controller:
+ *
+ * ```typescript
+ * const agent = LLMist.createAgent()
+ *   .withModel("sonnet")
+ *   .withBudget(2)
+ *   .withHooks(HookPresets.modelRouter({
+ *     modelRegistry: client.modelRegistry,
+ *     routes: [
+ *       { model: "opus", minGadgetFailures: 2 },   // strong model once gadgets fail
+ *       { model: "flash", minBudgetUsed: 0.8 },    // save money near the budget
+ *       { model: "haiku", maxIteration: 1 },       // cheap first planning pass
+ *     ],
+ *   }))
+ *   .ask("...");
+ * ```
+ *
+ * @module agent/model-router
+ */
+
+import { CHARS_PER_TOKEN } from "../core/constants.js";
+import { extractMessageText, type LLMMessage, normalizeMessageContent } from "../core/messages.js";
+import type { ModelRegistry } from "../core/model-registry.js";
+import { resolveModel, stripProviderPrefix } from "../core/model-shortcuts.js";
+import type { LLMGenerationOptions } from "../core/options.js";
+import type { AgentHooks } from "./hooks.js";
+
+/**
+ * Capabilities a call can require from its model (see `ModelSpec.features`):
+ * - `"vision"`: the messages contain images
+ * - `"reasoning"`: reasoning is enabled for the call
+ */
+export type RoutingFeature = "vision" | "reasoning";
+
+/**
+ * A routing rule. All conditions that are set must hold for the route to match.
+ */
+export interface ModelRoute {
+  /** Model to use (alias or `provider:model`) */
+  model: string;
+  /** Only match calls that need all of these features */
+  requires?: RoutingFeature[];
+  /** Only match from this iteration on (1 = first LLM call) */
+  minIteration?: number;
+  /** Only match up to this iteration (1 = first LLM call) */
+  maxIteration?: number;
+  /** Only match once at least this many gadget executions have failed */
+  minGadgetFailures?: number;
+  /** Only match once this share of the budget (0-1) has been spent; needs a budget */
+  minBudgetUsed?: number;
+  /** Only match while less than this share of the budget (0-1) has been spent */
+  maxBudgetUsed?: number;
+  /** Only match when the estimated context is at least this many tokens */
+  minContextTokens?: number;
+  /** Only match when the estimated context is at most this many tokens */
+  maxContextTokens?: number;
+}
+
+/**
+ * Options for {@link ModelRouter}.
+ */
+export interface ModelRouterOptions {
+  /** Routes, in priority order */
+  routes: ModelRoute[];
+  /**
+   * Model registry used to check that a route's model supports the features
+   * the call needs and fits its context, and to pick its output token limit.
+   * Without it, routes are matched on their conditions alone.
+   */
+  modelRegistry?: ModelRegistry;
+}
+
+/**
+ * The state of the agent a routing decision is based on.
+ */
+export interface RoutingRequest {
+  /** Current iteration (1 = first LLM call) */
+  iteration: number;
+  /** Cumulative cost so far in USD */
+  totalCost: number;
+  /** Budget limit in USD, if configured */
+  budget?: number;
+  /** Gadget executions that failed so far */
+  gadgetFailures: number;
+  /** Options of the call being routed */
+  options: LLMGenerationOptions;
+}
+
+/**
+ * Result of routing a call.
+ */
+export interface RoutingDecision {
+  /** Selected model */
+  model: string;
+  /** The route that selected it */
+  route: ModelRoute;
+  /** Output token limit of the call, capped at the selected model's limit when known */
+  maxTokens?: number;
+}
+
+/**
+ * Picks a model per LLM call from ordered routing rules.
+ *
+ * The router counts gadget failures through its hooks, so use one router
+ * (or one `HookPresets.modelRouter()` call) per agent.
+ */
+export class ModelRouter {
+  private readonly routes: ModelRoute[];
+  private readonly modelRegistry?: ModelRegistry;
+  private gadgetFailures = 0;
+
+  constructor(options: ModelRouterOptions) {
+    this.routes = options.routes.map((route) => ({ ...route, model: resolveModel(route.model) }));
+    this.modelRegistry = options.modelRegistry;
+  }
+
+  /**
+   * Select the model for a call.
+   *
+   * @returns The decision of the first matching route, or `undefined` to keep
+   * the call's model
+   */
+  route(request: RoutingRequest): RoutingDecision | undefined {
+    const features = requiredFeatures(request.options);
+    const contextTokens = estimateContextTokens(request.options.messages);
+    const budgetUsed =
+      request.budget !== undefined && request.budget > 0
+        ? request.totalCost / request.budget
+        : undefined;
+
+    for (const route of this.routes) {
+      if (route.requires?.some((feature) => !features.has(feature))) continue;
+      if (route.minIteration !== undefined && request.iteration < route.minIteration) continue;
+      if (route.maxIteration !== undefined && request.iteration > route.maxIteration) continue;
+      if (
+        route.minGadgetFailures !== undefined &&
+        request.gadgetFailures < route.minGadgetFailures
+      ) {
+        continue;
+      }
+      if (
+        route.minBudgetUsed !== undefined &&
+        (budgetUsed === undefined || budgetUsed < route.minBudgetUsed)
+      ) {
+        continue;
+      }
+      if (
+        route.maxBudgetUsed !== undefined &&
+        budgetUsed !== undefined &&
+        budgetUsed >= route.maxBudgetUsed
+      ) {
+        continue;
+      }
+      if (route.minContextTokens !== undefined && contextTokens < route.minContextTokens) continue;
+      if (route.maxContextTokens !== undefined && contextTokens > route.maxContextTokens) continue;
+
+      const spec = this.modelRegistry?.getModelSpec(stripProviderPrefix(route.model));
+      if (spec) {
+        // Skip models that cannot serve the call
+        if (features.has("vision") && !spec.features.vision) continue;
+        if (features.has("reasoning") && !spec.features.reasoning) continue;
+        if (contextTokens > spec.contextWindow) continue;
+      }
+
+      const configured = request.options.maxTokens;
+      const maxTokens =
+        configured !== undefined && spec
+          ? Math.min(configured, spec.maxOutputTokens)
+          : (configured ?? spec?.maxOutputTokens);
+      return { model: route.model, route, maxTokens };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Hooks that apply the router to an agent: a `beforeLLMCall` controller
+   * that switches the model, and an observer that counts gadget failures.
+   */
+  toHooks(): AgentHooks {
+    return {
+      observers: {
+        onGadgetExecutionComplete: (ctx) => {
+          if (ctx.error && !ctx.subagentContext) {
+            this.gadgetFailures++;
+          }
+        },
+      },
+      controllers: {
+        beforeLLMCall: async (ctx) => {
+          const decision = this.route({
+            iteration: ctx.iteration + 1,
+            totalCost: ctx.totalCost,
+            budget: ctx.budget,
+            gadgetFailures: this.gadgetFailures,
+            options: ctx.options,
+          });
+
+          if (!decision || decision.model === ctx.options.model) {
+            return { action: "proceed" };
+          }
+
+          ctx.logger.debug("Routing LLM call", {
+            iteration: ctx.iteration,
+            from: ctx.options.model,
+            to: decision.model,
+          });
+
+          // The output limit may exceed what the new model supports
+          return {
+            action: "proceed",
+            modifiedOptions: { model: decision.model, maxTokens: decision.maxTokens },
+          };
+        },
+      },
+    };
+  }
+}
+
+function requiredFeatures(options: LLMGenerationOptions): Set<RoutingFeature> {
+  const features = new Set<RoutingFeature>();
+  const hasImages = options.messages.some((message) =>
+    normalizeMessageContent(message.content).some((part) => part.type === "image"),
+  );
+  if (hasImages) features.add("vision");
+  if (options.reasoning?.enabled) features.add("reasoning");
+  return features;
+}
+
+function estimateContextTokens(messages: LLMMessage[]): number {
+  const chars = messages.reduce(
+    (total, message) => total + extractMessageText(message.content).length,
+    0,
+  );
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
@@ -0,0 +1,185 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import type { LLMist } from "../core/client.js";
+import { GADGET_ARG_PREFIX, GADGET_END_PREFIX, GADGET_START_PREFIX } from "../core/constants.js";
+import type { LLMCallNode } from "../core/execution-tree.js";
+import type { LLMMessage } from "../core/messages.js";
+import { createGadget } from "../gadgets/create-gadget.js";
+import { TaskCompletionSignal } from "../gadgets/exceptions.js";
+import { AgentBuilder } from "./builder.js";
+import type { ObserveOutputValidationContext } from "./hooks.js";
+import {
+  formatOutputRepairMessage,
+  OutputMissingError,
+  OutputValidationError,
+  validateOutput,
+} from "./output-validation.js";
+
+const recipe = z.object({ title: z.string(), minutes: z.number() });
+
+describe("validateOutput", () => {
+  it("passes when validators return true or nothing", async () => {
+    const result = await validateOutput([() => true, () => undefined], "Done");
+
+    expect(result).toEqual({ valid: true, issues: [], value: "Done" });
+  });
+
+  it("collects the issues of all validators", async () => {
+    const result = await validateOutput(
+      [
+        () => false,
+        async () => "Cite your sources",
+        () => ["No emails", "No phone numbers"],
+        () => {
+          throw new Error("Validator crashed");
+        },
+      ],
+      "Done",
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      "The answer was rejected by a validator",
+      "Cite your sources",
+      "No emails",
+      "No phone numbers",
+      "Validator crashed",
+    ]);
+  });
+
+  it("parses answers matching a schema", async () => {
+    const result = await validateOutput(
+      [recipe],
+      '```json\n{ "title": "Pancakes", "minutes": 20 }\n```',
+    );
+
+    expect(result).toEqual({ valid: true, issues: [], value: { title: "Pancakes", minutes: 20 } });
+  });
+
+  it("reports schema mismatches and invalid JSON", async () => {
+    const mismatch = await validateOutput([recipe], '{ "title": "Pancakes" }');
+    const notJson = await validateOutput([recipe], "Pancakes!");
+
+    expect(mismatch.issues).toEqual([expect.stringMatching(/^minutes: /)]);
+    expect(notJson.issues).toEqual([expect.stringContaining("Response is not valid JSON")]);
+  });
+});
+
+describe("formatOutputRepairMessage", () => {
+  it("lists the issues", () => {
+    expect(formatOutputRepairMessage(["No emails", "Cite your sources"])).toBe(
+      "Your final answer did not pass validation:\n- No emails\n- Cite your sources\n\n" +
+        "Fix these problems and give your final answer again.",
+    );
+  });
+});
+
+describe("AgentBuilder.withOutputValidator", () => {
+  function createClient(...responses: string[]): LLMist {
+    const stream = vi.fn();
+    for (const text of responses) {
+      stream.mockImplementationOnce(async function* () {
+        yield { text };
+      });
+    }
+    return {
+      stream,
+      modelRegistry: {
+        getModelLimits: vi.fn().mockReturnValue({ maxOutputTokens: 4096 }),
+        getModelSpec: vi.fn().mockReturnValue(undefined),
+      },
+    } as unknown as LLMist;
+  }
+
+  function requests(client: LLMist): Array<{ messages: LLMMessage[] }> {
+    return vi.mocked(client.stream).mock.calls.map(([options]) => options);
+  }
+
+  it("repairs a rejected answer and returns the typed value", async () => {
+    const client = createClient("Pancakes take 20 minutes.", '{"title":"Pancakes","minutes":20}');
+    const observed: ObserveOutputValidationContext[] = [];
+
+    const result = await new AgentBuilder(client)
+      .withModel("test:model")
+      .withHooks({ observers: { onOutputValidation: (ctx) => void observed.push(ctx) } })
+      .withOutputValidator(recipe)
+      .askAndCollect("A pancake recipe");
+
+    expect(result).toEqual({ title: "Pancakes", minutes: 20 });
+    const [first, repair] = requests(client);
+    expect(first.messages[0].content).toContain('"minutes"');
+    expect(repair.messages.at(-1)?.content).toContain("Your final answer did not pass validation");
+    expect(
+      observed.map(({ valid, attempt, willRepair }) => ({ valid, attempt, willRepair })),
+    ).toEqual([
+      { valid: false, attempt: 1, willRepair: true },
+      { valid: true, attempt: 2, willRepair: false },
+    ]);
+  });
+
+  it("fails once the repairs are used up", async () => {
+    const agent = new AgentBuilder(createClient("No JSON.", "Still no JSON."))
+      .withModel("test:model")
+      .withOutputValidator(recipe, { maxRepairs: 1 })
+      .ask("A pancake recipe");
+
+    const error = await (async () => {
+      for await (const _event of agent.run()) {
+        // drain
+      }
+    })().catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(OutputValidationError);
+    expect(error).toMatchObject({ output: "Still no JSON.", attempts: 2 });
+    const llmCalls = agent.getTree().getRoots() as LLMCallNode[];
+    expect(llmCalls.map((node) => node.outputValidation?.attempt)).toEqual([1, 2]);
+    expect(agent.getOutput()).toBeUndefined();
+  });
+
+  it("validates the message of a TaskCompletionSignal", async () => {
+    const finish = createGadget({
+      name: "Finish",
+      description: "Finish with an answer",
+      schema: z.object({ answer: z.string() }),
+      execute: ({ answer }) => {
+        throw new TaskCompletionSignal(answer);
+      },
+    });
+    const finishWith = (answer: string) =>
+      `${GADGET_START_PREFIX}Finish\n${GADGET_ARG_PREFIX}answer\n${answer}\n${GADGET_END_PREFIX}\n`;
+
+    const result = await new AgentBuilder(
+      createClient(finishWith("Paris"), finishWith("Paris [1]")),
+    )
+      .withModel("test:model")
+      .withGadgets(finish)
+      .withGadgetTransport("block")
+      .withOutputValidator((output) => output.includes("[1]") || "Cite your sources")
+      .askAndCollect("What is the capital of France?");
+
+    expect(result).toBe("Paris [1]");
+  });
+
+  it("throws from askAndCollect when the run ends without a final answer", async () => {
+    const lookup = createGadget({
+      name: "Lookup",
+      description: "Look something up",
+      schema: z.object({ query: z.string() }),
+      execute: () => "Nothing found",
+    });
+
+    const collect = new AgentBuilder(
+      createClient(
+        `${GADGET_START_PREFIX}Lookup\n${GADGET_ARG_PREFIX}query\npancakes\n${GADGET_END_PREFIX}\n`,
+      ),
+    )
+      .withModel("test:model")
+      .withGadgets(lookup)
+      .withGadgetTransport("block")
+      .withMaxIterations(1)
+      .withOutputValidator(recipe)
+      .askAndCollect("A pancake recipe");
+
+    await expect(collect).rejects.toBeInstanceOf(OutputMissingError);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Output validation: checks an agent's final answer before the run ends.
+ *
+ * The final answer is the text of a response without gadget calls, or the
+ * message of a `TaskCompletionSignal`. When a validator rejects it, the
+ * agent gets a corrective user message listing the issues and continues,
+ * at most `maxRepairs` times; after that the run fails with an
+ * {@link OutputValidationError}.
+ *
+ * ```typescript
+ * const report = await LLMist.createAgent()
+ *   .withModel("sonnet")
+ *   .withGadgets(Search, FetchPage)
+ *   .withOutputValidator(z.object({ summary: z.string(), sources: z.array(z.url()) }))
+ *   .withOutputValidator((output) => !/\b\d{3}-\d{2}-\d{4}\b/.test(output) || "Remove SSNs")
+ *   .askAndCollect("Summarize the latest release notes");
+ * ```
+ *
+ * @module agent/output-validation
+ */
+
+import type { ZodType } from "zod";
+import { validateText } from "../core/structured-output.js";
+import { schemaToJSONSchema } from "../gadgets/schema-to-json.js";
+
+/** Repairs allowed after a rejected final answer when none are configured. */
+export const DEFAULT_MAX_OUTPUT_REPAIRS = 2;
+
+/**
+ * What an output validator function returns: `true` or nothing when the
+ * output passes; `false`, an issue or a list of issues when it doesn't.
+ */
+export type OutputCheckResult = boolean | string | string[] | undefined;
+
+/**
+ * Check of an agent's final answer. A thrown error counts as a failed check
+ * with the error message as the issue.
+ */
+export type OutputValidatorFn = (output: string) => OutputCheckResult | Promise<OutputCheckResult>;
+
+/**
+ * Validator of an agent's final answer: a function, or a Zod schema the
+ * answer must match as JSON.
+ */
+export type OutputValidator = OutputValidatorFn | ZodType;
+
+/**
+ * Options of `AgentBuilder.withOutputValidator()`.
+ */
+export interface OutputValidatorOptions {
+  /** Corrective messages sent before the run fails (default: 2) */
+  maxRepairs?: number;
+}
+
+/**
+ * Output validators of an agent, all of which must pass.
+ */
+export interface OutputValidationConfig {
+  validators: OutputValidator[];
+  /** Corrective messages sent before the run fails */
+  maxRepairs: number;
+}
+
+/**
+ * Result of validating a final answer.
+ */
+export interface OutputValidationResult {
+  valid: boolean;
+  /** Problems found by the validators (empty when valid) */
+  issues: string[];
+  /** The answer parsed by the last schema validator, otherwise the answer itself */
+  value: unknown;
+}
+
+/**
+ * Thrown by `agent.run()` when the final answer is still rejected after all
+ * repairs, or the run ended before a valid answer was given.
+ */
+export class OutputValidationError extends Error {
+  /** The last rejected answer */
+  readonly output: string;
+  /** Problems found in the last rejected answer */
+  readonly issues: string[];
+  /** Number of answers validated, including repairs */
+  readonly attempts: number;
+
+  constructor(params: { output: string; issues: string[]; attempts: number }) {
+    super(
+      `Agent output failed validation after ${params.attempts} attempt(s): ${params.issues.join("; ")}`,
+    );
+    this.name = "OutputValidationError";
+    this.output = params.output;
+    this.issues = params.issues;
+    this.attempts = params.attempts;
+  }
+}
+
+/**
+ * Thrown by `AgentBuilder.askAndCollect()` with output validators when the run
+ * ended without a final answer, e.g. at `maxIterations` or suspended on
+ * human input.
+ */
+export class OutputMissingError extends Error {
+  constructor() {
+    super("Agent run ended without a final answer");
+    this.name = "OutputMissingError";
+  }
+}
+
+/**
+ * Run all validators on a final answer.
+ */
+export async function validateOutput(
+  validators: OutputValidator[],
+  output: string,
+): Promise<OutputValidationResult> {
+  const issues: string[] = [];
+  let value: unknown = output;
+
+  for (const validator of validators) {
+    if (typeof validator !== "function") {
+      const result = validateText(validator, output);
+      if (result.success) {
+        value = result.data;
+      } else {
+        issues.push(...result.issues);
+      }
+      continue;
+    }
+
+    let result: OutputCheckResult;
+    try {
+      result = await validator(output);
+    } catch (error) {
+      result = error instanceof Error ? error.message : String(error);
+    }
+    if (result === false) {
+      issues.push("The answer was rejected by a validator");
+    } else if (typeof result === "string") {
+      issues.push(result);
+    } else if (Array.isArray(result)) {
+      issues.push(...result);
+    }
+  }
+
+  return { valid: issues.length === 0, issues, value };
+}
+
+/**
+ * Corrective user message sent after a rejected final answer.
+ */
+export function formatOutputRepairMessage(issues: string[]): string {
+  return [
+    "Your final answer did not pass validation:",
+    ...issues.map((issue) => `- ${issue}`),
+    "",
+    "Fix these problems and give your final answer again.",
+  ].join("\n");
+}
+
+/**
+ * System prompt instructions describing the JSON Schema a final answer must
+ * match.
+ */
+export function formatOutputSchemaInstructions(schema: ZodType): string {
+  const { $schema: _ignored, ...jsonSchema } = schemaToJSONSchema(schema);
+  return [
+    "Give your final answer as a single JSON value that conforms to the JSON Schema below.",
+    "The final answer must contain only the JSON: no prose, no markdown code fences.",
+    "",
+    JSON.stringify(jsonSchema, null, 2),
+  ].join("\n");
+}
@@ -0,0 +1,338 @@
+import { describe, expect, it, vi } from "vitest";
+import type { LLMist } from "../core/client.js";
+import { GADGET_ARG_PREFIX, GADGET_END_PREFIX, GADGET_START_PREFIX } from "../core/constants.js";
+import type { LLMMessage } from "../core/messages.js";
+import type { ModelRegistry } from "../core/model-registry.js";
+import { createLogger } from "../logging/logger.js";
+import { AgentBuilder } from "./builder.js";
+import type { LLMCallControllerContext, ObserveGadgetCompleteContext } from "./hooks.js";
+import { AgentPlan, createPlanningGadgets, createPlanningHooks } from "./planning.js";
+
+const logger = createLogger({ name: "test", minLevel: 6 }); // Silent
+
+function planWith(...titles: string[]): AgentPlan {
+  const plan = new AgentPlan();
+  plan.replace(titles.map((title) => ({ title })));
+  return plan;
+}
+
+function context(model = "test:model"): LLMCallControllerContext {
+  return {
+    iteration: 0,
+    maxIterations: 10,
+    totalCost: 0,
+    options: { model, messages: [{ role: "user", content: "Fix the bug" }] },
+    logger,
+  };
+}
+
+function gadgetComplete(
+  gadgetName: string,
+  extra: Partial<ObserveGadgetCompleteContext> = {},
+): ObserveGadgetCompleteContext {
+  return {
+    iteration: 0,
+    gadgetName,
+    invocationId: "1",
+    parameters: {},
+    executionTimeMs: 1,
+    logger,
+    ...extra,
+  };
+}
+
+describe("AgentPlan", () => {
+  it("numbers tasks and subtasks by position", () => {
+    const plan = new AgentPlan();
+
+    plan.replace([{ title: "Read" }, { title: "Fix", subtasks: ["Parser", "Tests"] }]);
+
+    expect(plan.format()).toBe("[ ] 1. Read\n[ ] 2. Fix\n  [ ] 2.1. Parser\n  [ ] 2.2. Tests");
+    expect(plan.progress).toEqual({ done: 0, total: 4 });
+  });
+
+  it("updates tasks and reports progress", () => {
+    const plan = planWith("Read", "Fix");
+
+    plan.update([
+      { id: "1", status: "done" },
+      { id: "2", status: "in_progress", title: "Fix the parser" },
+    ]);
+
+    expect(plan.format()).toBe("[x] 1. Read\n[~] 2. Fix the parser");
+    expect(plan.progress).toEqual({ done: 1, total: 2 });
+  });
+
+  it("rejects updates of unknown tasks without changing any", () => {
+    const plan = planWith("Read");
+
+    expect(() =>
+      plan.update([
+        { id: "1", status: "done" },
+        { id: "7", status: "done" },
+      ]),
+    ).toThrow('No task with id "7" in the plan');
+    expect(plan.progress.done).toBe(0);
+  });
+
+  it("edits the plan at once or not at all", () => {
+    const plan = new AgentPlan();
+    plan.replace([{ title: "Read" }, { title: "Fix", subtasks: ["Parser"] }]);
+    const listener = vi.fn();
+    plan.onChange(listener);
+
+    expect(() =>
+      plan.edit({
+        updates: [{ id: "1", status: "done" }],
+        add: [{ title: "Test" }],
+        remove: ["7"],
+      }),
+    ).toThrow('No task with id "7" in the plan');
+    expect(plan.format()).toBe("[ ] 1. Read\n[ ] 2. Fix\n  [ ] 2.1. Parser");
+
+    plan.edit({
+      updates: [{ id: "1", status: "done" }],
+      add: [{ title: "Tests", parent: "2" }],
+      remove: ["2", "2.1"],
+    });
+    expect(plan.format()).toBe("[x] 1. Read");
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it("keeps task IDs stable when adding and removing", () => {
+    const plan = planWith("Read", "Fix", "Test");
+
+    plan.remove("2");
+    plan.add("Release");
+    plan.add("Changelog", "4");
+
+    expect(plan.format()).toBe("[ ] 1. Read\n[ ] 3. Test\n[ ] 4. Release\n  [ ] 4.1. Changelog");
+  });
+
+  it("asks for a revision until the plan changes", () => {
+    const plan = planWith("Fix");
+
+    plan.requestReplan("RunTests failed: timeout");
+    expect(plan.needsReplan).toBe(true);
+    expect(plan.replanReason).toBe("RunTests failed: timeout");
+
+    plan.update([{ id: "1", title: "Fix the timeout" }]);
+    expect(plan.needsReplan).toBe(false);
+  });
+
+  it("notifies listeners of changes but not of restores", () => {
+    const plan = new AgentPlan();
+    const listener = vi.fn();
+    const unsubscribe = plan.onChange(listener);
+
+    plan.replace([{ title: "Read" }]);
+    plan.restore({ tasks: [], replanReason: "Read failed" });
+    unsubscribe();
+    plan.add("Write");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith([
+      { id: "1", title: "Read", status: "pending", subtasks: [] },
+    ]);
+    expect(plan.snapshot()).toEqual({
+      tasks: [{ id: "1", title: "Write", status: "pending", subtasks: [] }],
+      replanReason: "Read failed",
+    });
+  });
+});
+
+describe("createPlanningGadgets", () => {
+  it("creates and updates the plan", async () => {
+    const plan = new AgentPlan();
+    const [create, update] = createPlanningGadgets(plan);
+
+    expect(await create.execute({ tasks: [{ title: "Read" }, { title: "Fix" }] })).toBe(
+      "Plan created:\n[ ] 1. Read\n[ ] 2. Fix",
+    );
+    expect(
+      await update.execute({
+        updates: [{ id: "1", status: "done" }],
+        add: [{ title: "Test" }],
+        remove: ["2"],
+      }),
+    ).toBe("Plan updated:\n[x] 1. Read\n[ ] 3. Test");
+  });
+
+  it("asks for a plan before updates", () => {
+    const [, update] = createPlanningGadgets(new AgentPlan());
+
+    expect(() => update.execute({ updates: [{ id: "1", status: "done" }] })).toThrow(
+      "There is no plan yet. Call Plan first.",
+    );
+  });
+});
+
+describe("createPlanningHooks", () => {
+  const modelRegistry = {
+    getModelSpec: vi.fn().mockReturnValue({ maxOutputTokens: 32000 }),
+  } as unknown as ModelRegistry;
+
+  it("uses the planning model until there is a plan", async () => {
+    const plan = new AgentPlan();
+    const hooks = createPlanningHooks({ plan, model: "anthropic:opus", modelRegistry });
+    const beforeLLMCall = hooks.controllers?.beforeLLMCall;
+
+    const planning = await beforeLLMCall?.(context());
+    plan.replace([{ title: "Fix" }]);
+    const working = await beforeLLMCall?.(context());
+
+    expect(planning).toMatchObject({
+      action: "proceed",
+      modifiedOptions: { model: "anthropic:opus", maxTokens: 32000 },
+    });
+    expect(working?.action === "proceed" && working.modifiedOptions?.model).toBeUndefined();
+  });
+
+  it("keeps the configured output limit within the planning model's", async () => {
+    const beforeLLMCall = createPlanningHooks({
+      plan: new AgentPlan(),
+      model: "anthropic:opus",
+      modelRegistry,
+    }).controllers?.beforeLLMCall;
+    const withLimit = (maxTokens: number): LLMCallControllerContext => {
+      const ctx = context();
+      return { ...ctx, options: { ...ctx.options, maxTokens } };
+    };
+
+    const lower = await beforeLLMCall?.(withLimit(4000));
+    const higher = await beforeLLMCall?.(withLimit(64_000));
+    const unknown = await createPlanningHooks({
+      plan: new AgentPlan(),
+      model: "test:planner",
+      modelRegistry: { getModelSpec: vi.fn() } as unknown as ModelRegistry,
+    }).controllers?.beforeLLMCall?.(withLimit(4000));
+
+    expect(lower).toMatchObject({ modifiedOptions: { maxTokens: 4000 } });
+    expect(higher).toMatchObject({ modifiedOptions: { maxTokens: 32000 } });
+    expect(unknown).toMatchObject({ modifiedOptions: { model: "test:planner", maxTokens: 4000 } });
+  });
+
+  it("hints after the existing controller and respects its skip", async () => {
+    const plan = new AgentPlan();
+    const existing = vi
+      .fn()
+      .mockResolvedValueOnce({
+        action: "proceed",
+        modifiedOptions: { messages: [{ role: "user", content: "Rewritten" }] },
+      })
+      .mockResolvedValueOnce({ action: "skip", syntheticResponse: "Cached" });
+    const hooks = createPlanningHooks({ plan }, { controllers: { beforeLLMCall: existing } });
+
+    const hinted = await hooks.controllers?.beforeLLMCall?.(context());
+    const skipped = await hooks.controllers?.beforeLLMCall?.(context());
+
+    const messages = hinted?.action === "proceed" ? hinted.modifiedOptions?.messages : [];
+    expect(messages?.map((message) => message.content)).toEqual([
+      "Rewritten",
+      expect.stringContaining("call Plan"),
+    ]);
+    expect(skipped).toEqual({ action: "skip", syntheticResponse: "Cached" });
+  });
+
+  it("requests a replan when a gadget fails", async () => {
+    const plan = planWith("Fix");
+    const observer = vi.fn();
+    const hooks = createPlanningHooks(
+      { plan, replanOnFailure: true },
+      { observers: { onGadgetExecutionComplete: observer } },
+    );
+    const onComplete = hooks.observers?.onGadgetExecutionComplete;
+
+    await onComplete?.(gadgetComplete("UpdatePlan", { error: "No task" }));
+    await onComplete?.(gadgetComplete("RunTests", { finalResult: "ok" }));
+    expect(plan.needsReplan).toBe(false);
+
+    await onComplete?.(gadgetComplete("RunTests", { error: "3 tests failed" }));
+    expect(plan.replanReason).toBe("RunTests failed: 3 tests failed");
+    expect(observer).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("AgentBuilder.withPlanning", () => {
+  const planCall =
+    `${GADGET_START_PREFIX}Plan:plan\n` +
+    `${GADGET_ARG_PREFIX}tasks/0/title\nReproduce\n` +
+    `${GADGET_ARG_PREFIX}tasks/1/title\nFix\n` +
+    `${GADGET_END_PREFIX}\n`;
+
+  function createClient(...responses: string[]): LLMist {
+    const stream = vi.fn();
+    for (const text of responses) {
+      stream.mockImplementationOnce(async function* () {
+        yield { text };
+      });
+    }
+    return {
+      stream,
+      modelRegistry: {
+        getModelLimits: vi.fn().mockReturnValue({ maxOutputTokens: 4096 }),
+        getModelSpec: vi.fn().mockReturnValue(undefined),
+      },
+    } as unknown as LLMist;
+  }
+
+  function requests(client: LLMist): Array<{ model: string; messages: LLMMessage[] }> {
+    return vi.mocked(client.stream).mock.calls.map(([options]) => options);
+  }
+
+  it("plans with the planning model, then works with the agent's model", async () => {
+    const client = createClient(planCall, "Done.");
+    const agent = new AgentBuilder(client)
+      .withModel("test:worker")
+      .withPlanning({ model: "test:planner" })
+      .withGadgetTransport("block")
+      .ask("Fix the bug");
+
+    for await (const _event of agent.run()) {
+      // drain
+    }
+
+    const [planning, working] = requests(client);
+    expect(planning.model).toBe("test:planner");
+    expect(working.model).toBe("test:worker");
+    expect(working.messages.at(-1)?.content).toContain(
+      "Current plan (0/2 done):\n[ ] 1. Reproduce\n[ ] 2. Fix",
+    );
+    expect(agent.getPlan()?.progress).toEqual({ done: 0, total: 2 });
+  });
+
+  it("tracks the plan in the execution tree and checkpoints", async () => {
+    const agent = new AgentBuilder(createClient(planCall, "Done."))
+      .withModel("test:worker")
+      .withPlanning()
+      .withGadgetTransport("block")
+      .ask("Fix the bug");
+
+    for await (const _event of agent.run()) {
+      // drain
+    }
+
+    const node = agent.getTree().getNode("plan");
+    expect(node).toMatchObject({ type: "plan", revision: 1, tasks: [{ title: "Reproduce" }, {}] });
+    const checkpoint = agent.checkpoint();
+    expect(checkpoint.plan?.tasks.map((task) => task.title)).toEqual(["Reproduce", "Fix"]);
+
+    const resumed = new AgentBuilder(createClient())
+      .withModel("test:worker")
+      .withPlanning()
+      .resumeFrom(checkpoint)
+      .build();
+    expect(resumed.getPlan()?.format()).toBe("[ ] 1. Reproduce\n[ ] 2. Fix");
+  });
+
+  it("gives each agent its own plan", () => {
+    const builder = new AgentBuilder(createClient()).withModel("test:worker").withPlanning();
+
+    const first = builder.ask("One");
+    const second = builder.ask("Two");
+
+    expect(first.getPlan()).toBeInstanceOf(AgentPlan);
+    expect(first.getPlan()).not.toBe(second.getPlan());
+    expect(new AgentBuilder(createClient()).ask("Three").getPlan()).toBeUndefined();
+  });
+});
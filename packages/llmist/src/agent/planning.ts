@@ -0,0 +1,472 @@
+/**
+ * Planning mode: the agent first breaks its task into a plan with the Plan
+ * gadget, then works through it, keeping task statuses current with the
+ * UpdatePlan gadget. The plan is shown to the LLM before each call and
+ * tracked as a `plan` node in the execution tree.
+ *
+ * ```typescript
+ * const agent = LLMist.createAgent()
+ *   .withModel("sonnet")
+ *   .withPlanning({ model: "opus", replanOnFailure: true })
+ *   .withGadgets(ReadFile, WriteFile, RunTests)
+ *   .ask("Migrate the tests to vitest");
+ * ```
+ *
+ * @module agent/planning
+ */
+
+import { z } from "zod";
+import type { PlanTask, PlanTaskStatus } from "../core/execution-tree.js";
+import type { ModelRegistry } from "../core/model-registry.js";
+import { stripProviderPrefix } from "../core/model-shortcuts.js";
+import { createGadget } from "../gadgets/create-gadget.js";
+import type { AbstractGadget } from "../gadgets/gadget.js";
+import { planHint } from "./hints.js";
+import { HookPresets } from "./hook-presets.js";
+import type { AgentHooks, BeforeLLMCallAction } from "./hooks.js";
+
+export type { PlanTask, PlanTaskStatus } from "../core/execution-tree.js";
+
+/** Name of the gadget that creates (or replaces) the plan. */
+export const PLAN_GADGET_NAME = "Plan";
+
+/** Name of the gadget that changes tasks of the plan. */
+export const UPDATE_PLAN_GADGET_NAME = "UpdatePlan";
+
+/**
+ * Planning options of an agent, configured with `AgentBuilder.withPlanning()`.
+ */
+export interface PlanningOptions {
+  /**
+   * Model that writes and revises the plan (default: the agent's model).
+   * The agent's model does the work once the plan exists.
+   */
+  model?: string;
+  /**
+   * Ask the LLM to revise the plan when a gadget fails (default: false)
+   */
+  replanOnFailure?: boolean;
+}
+
+/**
+ * Plan of an agent with its planning options.
+ */
+export interface PlanningConfig extends PlanningOptions {
+  plan: AgentPlan;
+  /** Looks up the output limit of the planning model */
+  modelRegistry?: ModelRegistry;
+}
+
+/**
+ * A task to add to a plan: a title and optionally the titles of its subtasks.
+ */
+export interface PlanTaskDraft {
+  title: string;
+  subtasks?: string[];
+}
+
+/**
+ * A change to a task of a plan.
+ */
+export interface PlanTaskUpdate {
+  id: string;
+  status?: PlanTaskStatus;
+  title?: string;
+}
+
+/**
+ * Changes to a plan made at once: updates first, then additions, then removals.
+ */
+export interface PlanEdit {
+  updates?: PlanTaskUpdate[];
+  /** Tasks to add, with the ID of the task to add each to as a subtask */
+  add?: Array<{ title: string; parent?: string }>;
+  /** IDs of tasks to remove */
+  remove?: string[];
+}
+
+/**
+ * State of a plan as plain JSON data, e.g. for checkpoints.
+ */
+export interface PlanSnapshot {
+  tasks: PlanTask[];
+  /** Why the plan needs revising, when it does */
+  replanReason?: string;
+}
+
+const STATUS_MARKERS: Record<PlanTaskStatus, string> = {
+  pending: "[ ]",
+  in_progress: "[~]",
+  done: "[x]",
+};
+
+/**
+ * The plan of an agent: a tree of tasks, each pending, in progress or done.
+ *
+ * Changes made through the planning gadgets are reported to the `onChange`
+ * listeners; the agent uses them to keep the plan node of its execution
+ * tree current.
+ */
+export class AgentPlan {
+  private tasks: PlanTask[] = [];
+  private reason?: string;
+  private readonly listeners = new Set<(tasks: PlanTask[]) => void>();
+
+  /** The tasks of the plan (a copy). */
+  getTasks(): PlanTask[] {
+    return structuredClone(this.tasks);
+  }
+
+  /** Whether a plan has been made. */
+  hasPlan(): boolean {
+    return this.tasks.length > 0;
+  }
+
+  /** Whether the plan has to be revised before work continues. */
+  get needsReplan(): boolean {
+    return this.reason !== undefined;
+  }
+
+  /** Why the plan has to be revised, when it does. */
+  get replanReason(): string | undefined {
+    return this.reason;
+  }
+
+  /** Number of tasks (including subtasks) and how many of them are done. */
+  get progress(): { done: number; total: number } {
+    const all = flatten(this.tasks);
+    return { done: all.filter((task) => task.status === "done").length, total: all.length };
+  }
+
+  /**
+   * Replace the plan with new, pending tasks.
+   */
+  replace(drafts: PlanTaskDraft[]): void {
+    this.tasks = drafts.map((draft, index) => {
+      const id = String(index + 1);
+      return {
+        id,
+        title: draft.title,
+        status: "pending",
+        subtasks: (draft.subtasks ?? []).map((title, subIndex) => ({
+          id: `${id}.${subIndex + 1}`,
+          title,
+          status: "pending",
+          subtasks: [],
+        })),
+      };
+    });
+    this.reason = undefined;
+    this.notify();
+  }
+
+  /**
+   * Change the status or title of tasks.
+   *
+   * @throws Error if a task does not exist; no task is changed then
+   */
+  update(updates: PlanTaskUpdate[]): void {
+    const targets = updates.map((update) => this.find(update.id));
+    updates.forEach((update, index) => {
+      if (update.status) targets[index].status = update.status;
+      if (update.title) targets[index].title = update.title;
+    });
+    this.reason = undefined;
+    this.notify();
+  }
+
+  /**
+   * Add a pending task at the end of the plan, or of a task's subtasks.
+   *
+   * @returns The new task
+   * @throws Error if the parent task does not exist
+   */
+  add(title: string, parentId?: string): PlanTask {
+    const task = this.addTask(title, parentId);
+    this.notify();
+    return structuredClone(task);
+  }
+
+  /**
+   * Remove a task with its subtasks. IDs of the other tasks stay the same.
+   *
+   * @throws Error if the task does not exist
+   */
+  remove(id: string): void {
+    this.find(id);
+    this.removeTask(id);
+    this.notify();
+  }
+
+  /**
+   * Update, add and remove tasks in one change. Removing a task also removes
+   * its subtasks, so these need not be listed.
+   *
+   * @throws Error if a task or parent does not exist; the plan is not changed then
+   */
+  edit({ updates = [], add = [], remove = [] }: PlanEdit): void {
+    const ids = [
+      ...updates.map((update) => update.id),
+      ...add.flatMap((task) => (task.parent ? [task.parent] : [])),
+      ...remove,
+    ];
+    for (const id of ids) this.find(id);
+
+    for (const update of updates) {
+      const task = this.find(update.id);
+      if (update.status) task.status = update.status;
+      if (update.title) task.title = update.title;
+    }
+    for (const task of add) this.addTask(task.title, task.parent);
+    for (const id of remove) {
+      // Skip subtasks already removed with their parent
+      if (flatten(this.tasks).some((task) => task.id === id)) this.removeTask(id);
+    }
+    if (updates.length > 0) this.reason = undefined;
+    this.notify();
+  }
+
+  /**
+   * Ask for the plan to be revised, e.g. because a step failed. The request
+   * stands until the plan is replaced or updated.
+   */
+  requestReplan(reason: string): void {
+    this.reason = reason;
+  }
+
+  /**
+   * The plan as one line per task, e.g. `[x] 1. Read the config`.
+   * In-progress tasks are marked `[~]`, subtasks are indented.
+   */
+  format(): string {
+    const lines: string[] = [];
+    const visit = (tasks: PlanTask[], indent: string) => {
+      for (const task of tasks) {
+        lines.push(`${indent}${STATUS_MARKERS[task.status]} ${task.id}. ${task.title}`);
+        visit(task.subtasks, `${indent}  `);
+      }
+    };
+    visit(this.tasks, "");
+    return lines.join("\n");
+  }
+
+  /** State of the plan as plain JSON data. */
+  snapshot(): PlanSnapshot {
+    return structuredClone({
+      tasks: this.tasks,
+      ...(this.reason !== undefined && { replanReason: this.reason }),
+    });
+  }
+
+  /**
+   * Restore a state taken with {@link snapshot}. Listeners are not notified:
+   * a resumed execution tree already holds the plan.
+   */
+  restore(snapshot: PlanSnapshot): void {
+    this.tasks = structuredClone(snapshot.tasks);
+    this.reason = snapshot.replanReason;
+  }
+
+  /**
+   * Call `listener` with the tasks after each change.
+   *
+   * @returns Function that removes the listener
+   */
+  onChange(listener: (tasks: PlanTask[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private addTask(title: string, parentId?: string): PlanTask {
+    const siblings = parentId ? this.find(parentId).subtasks : this.tasks;
+    const last = Math.max(0, ...siblings.map((task) => Number(task.id.split(".").at(-1))));
+    const task: PlanTask = {
+      id: parentId ? `${parentId}.${last + 1}` : String(last + 1),
+      title,
+      status: "pending",
+      subtasks: [],
+    };
+    siblings.push(task);
+    return task;
+  }
+
+  private removeTask(id: string): void {
+    const parentId = id.includes(".") ? id.slice(0, id.lastIndexOf(".")) : undefined;
+    const siblings = parentId ? this.find(parentId).subtasks : this.tasks;
+    siblings.splice(
+      siblings.findIndex((task) => task.id === id),
+      1,
+    );
+  }
+
+  private find(id: string): PlanTask {
+    const task = flatten(this.tasks).find((candidate) => candidate.id === id);
+    if (!task) {
+      throw new Error(`No task with id "${id}" in the plan`);
+    }
+    return task;
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener(this.getTasks());
+    }
+  }
+}
+
+function flatten(tasks: PlanTask[]): PlanTask[] {
+  return tasks.flatMap((task) => [task, ...flatten(task.subtasks)]);
+}
+
+/**
+ * Create the Plan and UpdatePlan gadgets for a plan.
+ */
+export function createPlanningGadgets(plan: AgentPlan): AbstractGadget[] {
+  const statusSchema = z.enum(["pending", "in_progress", "done"]);
+
+  const create = createGadget({
+    name: PLAN_GADGET_NAME,
+    description:
+      "Break the task into an ordered list of steps before working on it. " +
+      "Calling Plan again replaces the whole plan.",
+    schema: z.object({
+      tasks: z
+        .array(
+          z.object({
+            title: z.string().min(1).describe("What to do in this step"),
+            subtasks: z.array(z.string().min(1)).optional().describe("Titles of smaller steps"),
+          }),
+        )
+        .min(1)
+        .describe("Steps in the order they will be done"),
+    }),
+    examples: [
+      {
+        params: {
+          tasks: [
+            { title: "Find the failing tests" },
+            { title: "Fix the parser", subtasks: ["Handle empty input", "Add tests"] },
+          ],
+        },
+        comment: "Plan a bug fix",
+      },
+    ],
+    execute: ({ tasks }) => {
+      plan.replace(tasks);
+      return `Plan created:\n${plan.format()}`;
+    },
+  });
+
+  const update = createGadget({
+    name: UPDATE_PLAN_GADGET_NAME,
+    description:
+      "Change the plan: mark tasks in_progress when starting and done when finished, " +
+      "rename, add or remove tasks.",
+    schema: z.object({
+      updates: z
+        .array(
+          z.object({
+            id: z.string().describe("Task ID, e.g. '2' or '2.1'"),
+            status: statusSchema.optional(),
+            title: z.string().min(1).optional(),
+          }),
+        )
+        .optional()
+        .describe("Changes to existing tasks"),
+      add: z
+        .array(
+          z.object({
+            title: z.string().min(1),
+            parent: z.string().optional().describe("ID of the task to add a subtask to"),
+          }),
+        )
+        .optional()
+        .describe("Tasks to add at the end of the plan or of a task's subtasks"),
+      remove: z.array(z.string()).optional().describe("IDs of tasks to remove"),
+    }),
+    examples: [
+      {
+        params: {
+          updates: [
+            { id: "1", status: "done" },
+            { id: "2", status: "in_progress" },
+          ],
+        },
+        comment: "Finish the first task and start the second",
+      },
+    ],
+    execute: ({ updates, add, remove }) => {
+      if (!plan.hasPlan()) {
+        throw new Error(`There is no plan yet. Call ${PLAN_GADGET_NAME} first.`);
+      }
+      plan.edit({ updates, add, remove });
+      return `Plan updated:\n${plan.format()}`;
+    },
+  });
+
+  return [create, update];
+}
+
+/**
+ * Hooks that run an agent in planning mode: the plan hint before each LLM
+ * call, the planning model while the plan is written or revised, and (with
+ * `replanOnFailure`) a replan request when a gadget fails.
+ *
+ * @param config - Plan and planning options
+ * @param existing - Hooks to keep; their `beforeLLMCall` runs first and its skip is respected
+ */
+export function createPlanningHooks(config: PlanningConfig, existing?: AgentHooks): AgentHooks {
+  const { plan, model, modelRegistry } = config;
+  const hint = planHint(plan).controllers?.beforeLLMCall;
+  const existingBeforeLLMCall = existing?.controllers?.beforeLLMCall;
+
+  const hooks = config.replanOnFailure
+    ? HookPresets.merge(existing ?? {}, {
+        observers: {
+          onGadgetExecutionComplete: (ctx) => {
+            const planningGadget =
+              ctx.gadgetName === PLAN_GADGET_NAME || ctx.gadgetName === UPDATE_PLAN_GADGET_NAME;
+            if (ctx.error && !ctx.subagentContext && !planningGadget) {
+              plan.requestReplan(`${ctx.gadgetName} failed: ${ctx.error}`);
+            }
+          },
+        },
+      })
+    : existing;
+
+  return {
+    ...hooks,
+    controllers: {
+      ...hooks?.controllers,
+      beforeLLMCall: async (ctx) => {
+        const result: BeforeLLMCallAction = existingBeforeLLMCall
+          ? await existingBeforeLLMCall(ctx)
+          : { action: "proceed" };
+        if (result.action === "skip") {
+          return result;
+        }
+
+        const options = { ...ctx.options, ...result.modifiedOptions };
+        const hinted = hint ? await hint({ ...ctx, options }) : result;
+        const modifiedOptions = {
+          ...result.modifiedOptions,
+          ...(hinted.action === "proceed" && hinted.modifiedOptions),
+        };
+
+        const planning = !plan.hasPlan() || plan.needsReplan;
+        if (planning && model && model !== options.model) {
+          // The output limit may exceed what the planning model supports
+          const spec = modelRegistry?.getModelSpec(stripProviderPrefix(model));
+          const configured = modifiedOptions.maxTokens ?? options.maxTokens;
+          modifiedOptions.model = model;
+          modifiedOptions.maxTokens =
+            configured !== undefined && spec
+              ? Math.min(configured, spec.maxOutputTokens)
+              : (configured ?? spec?.maxOutputTokens);
+        }
+
+        return { action: "proceed", modifiedOptions };
+      },
+    },
+  };
+}
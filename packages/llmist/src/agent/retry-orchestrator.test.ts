@@ -12,6 +12,7 @@
  * - State reset between retry attempts
  * - Cross-iteration invocation ID accumulation
  * - Retry disabled via config
+ * - Fallback models after retries are exhausted
  */
 
 import type { ILogObj, Logger } from "tslog";
@@ -1148,4 +1149,175 @@ describe("RetryOrchestrator", () => {
       expect(result?.streamMetadata).toBe(toolTurn);
     });
   });
+
+  // =========================================================================
+  // Fallback models
+  // =========================================================================
+
+  describe("fallback models", () => {
+    const overloaded = () => Object.assign(new Error("overloaded"), { status: 529 });
+
+    async function runWithFallbacks(
+      orchestrator: RetryOrchestrator,
+      tree: ExecutionTree,
+      createStreamFn: ReturnType<typeof createMockCreateStream>,
+      createProcessorFn: (_iter: number, _nodeId: string) => StreamProcessor,
+    ): Promise<RetryResult | null> {
+      const node = tree.addLLMCall({ iteration: 1, model: "anthropic:claude-sonnet-4-5" });
+      const llmOptions: LLMGenerationOptions = {
+        model: "anthropic:claude-sonnet-4-5",
+        messages: [],
+        maxTokens: 64_000,
+      };
+      const gen = orchestrator.orchestrate(
+        llmOptions,
+        1,
+        node.id,
+        createStreamFn,
+        createProcessorFn,
+      );
+      let next = await gen.next();
+      while (!next.done) {
+        next = await gen.next();
+      }
+      return next.value;
+    }
+
+    it("switches to the next model after retries are exhausted", async () => {
+      const tree = new ExecutionTree();
+      const createStreamFn = createMockCreateStream();
+      const onModelFallback = vi.fn();
+      const orchestrator = new RetryOrchestrator({
+        retryConfig: createRetryConfig({ retries: 1 }),
+        logger: createMockLogger(),
+        hooks: { observers: { onModelFallback } },
+        tree,
+        sleep: vi.fn(async () => {}),
+        fallbackModels: ["openai:gpt-4o"],
+      });
+
+      const result = await runWithFallbacks(orchestrator, tree, createStreamFn, () =>
+        vi.mocked(createStreamFn).mock.calls.length <= 2
+          ? createErrorProcessor(overloaded())
+          : createMockProcessor([], makeMockStreamCompletionEvent()),
+      );
+
+      expect(vi.mocked(createStreamFn).mock.calls.map(([opts]) => opts.model)).toEqual([
+        "anthropic:claude-sonnet-4-5",
+        "anthropic:claude-sonnet-4-5",
+        "openai:gpt-4o",
+      ]);
+      expect(result?.llmOptions.model).toBe("openai:gpt-4o");
+      expect(onModelFallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          iteration: 1,
+          fromModel: "anthropic:claude-sonnet-4-5",
+          toModel: "openai:gpt-4o",
+          error: expect.objectContaining({ message: "overloaded" }),
+        }),
+      );
+    });
+
+    it("records the switch on the LLM call node", async () => {
+      const tree = new ExecutionTree();
+      const events: string[] = [];
+      tree.on("llm_call_fallback", (event) => events.push(event.type));
+      const createStreamFn = createMockCreateStream();
+      const orchestrator = new RetryOrchestrator({
+        retryConfig: createRetryConfig({ enabled: false }),
+        logger: createMockLogger(),
+        hooks: {},
+        tree,
+        sleep: vi.fn(async () => {}),
+        fallbackModels: ["openai:gpt-4o", "gemini:gemini-2.5-flash"],
+      });
+
+      await runWithFallbacks(orchestrator, tree, createStreamFn, () =>
+        vi.mocked(createStreamFn).mock.calls.length <= 2
+          ? createErrorProcessor(overloaded())
+          : createMockProcessor([], makeMockStreamCompletionEvent()),
+      );
+
+      const node = tree.getRoots()[0];
+      expect(node.type === "llm_call" && node.model).toBe("gemini:gemini-2.5-flash");
+      expect(node.type === "llm_call" && node.fallbacks).toEqual([
+        expect.objectContaining({
+          fromModel: "anthropic:claude-sonnet-4-5",
+          toModel: "openai:gpt-4o",
+          error: "overloaded",
+        }),
+        expect.objectContaining({
+          fromModel: "openai:gpt-4o",
+          toModel: "gemini:gemini-2.5-flash",
+        }),
+      ]);
+      expect(events).toEqual(["llm_call_fallback", "llm_call_fallback"]);
+    });
+
+    it("adapts the options with prepareFallback", async () => {
+      const tree = new ExecutionTree();
+      const createStreamFn = createMockCreateStream();
+      const orchestrator = new RetryOrchestrator({
+        retryConfig: createRetryConfig({ enabled: false }),
+        logger: createMockLogger(),
+        hooks: {},
+        tree,
+        sleep: vi.fn(async () => {}),
+        fallbackModels: ["openai:gpt-4o"],
+        prepareFallback: (options, model) => ({ ...options, model, maxTokens: 16_384 }),
+      });
+
+      const result = await runWithFallbacks(orchestrator, tree, createStreamFn, () =>
+        vi.mocked(createStreamFn).mock.calls.length === 1
+          ? createErrorProcessor(overloaded())
+          : createMockProcessor([], makeMockStreamCompletionEvent()),
+      );
+
+      expect(vi.mocked(createStreamFn).mock.calls[1][0]).toMatchObject({
+        model: "openai:gpt-4o",
+        maxTokens: 16_384,
+      });
+      expect(result?.llmOptions.maxTokens).toBe(16_384);
+    });
+
+    it("does not switch on non-retryable errors", async () => {
+      const tree = new ExecutionTree();
+      const createStreamFn = createMockCreateStream();
+      const orchestrator = new RetryOrchestrator({
+        retryConfig: createRetryConfig(),
+        logger: createMockLogger(),
+        hooks: {},
+        tree,
+        sleep: vi.fn(async () => {}),
+        fallbackModels: ["openai:gpt-4o"],
+      });
+
+      await expect(
+        runWithFallbacks(orchestrator, tree, createStreamFn, () =>
+          createErrorProcessor(Object.assign(new Error("bad request"), { status: 400 })),
+        ),
+      ).rejects.toThrow("bad request");
+      expect(createStreamFn).toHaveBeenCalledOnce();
+    });
+
+    it("throws the last error when every model fails", async () => {
+      const tree = new ExecutionTree();
+      const createStreamFn = createMockCreateStream();
+      const orchestrator = new RetryOrchestrator({
+        retryConfig: createRetryConfig({ enabled: false }),
+        logger: createMockLogger(),
+        hooks: {},
+        tree,
+        sleep: vi.fn(async () => {}),
+        fallbackModels: ["openai:gpt-4o"],
+      });
+
+      await expect(
+        runWithFallbacks(orchestrator, tree, createStreamFn, () =>
+          createErrorProcessor(overloaded()),
+        ),
+      ).rejects.toThrow("overloaded");
+      expect(createStreamFn).toHaveBeenCalledTimes(2);
+    });
+  });
 });
@@ -16,7 +16,11 @@ import type { LLMGenerationOptions } from "../core/options.js";
 import type { ResolvedRetryConfig } from "../core/retry.js";
 import { extractRetryAfterMs, isRetryableError } from "../core/retry.js";
 import type { StreamCompletionEvent, StreamEvent } from "../gadgets/types.js";
-import type { AgentHooks, ObserveRetryAttemptContext } from "./hooks.js";
+import type {
+  AgentHooks,
+  ObserveModelFallbackContext,
+  ObserveRetryAttemptContext,
+} from "./hooks.js";
 import { safeObserve } from "./safe-observe.js";
 import type { StreamProcessor } from "./stream-processor.js";
 import { getSubagentContextForNode } from "./tree-hook-bridge.js";
@@ -51,6 +55,8 @@ export interface RetryResult {
   gadgetResults: StreamEvent[];
   /** Total number of gadget calls during the final successful attempt */
   gadgetCallCount: number;
+  /** Options of the successful attempt (`model` differs from the input after a fallback) */
+  llmOptions: LLMGenerationOptions;
 }
 
 /**
@@ -68,6 +74,17 @@ export type CreateStreamFn = (
  */
 export type CreateStreamProcessorFn = (iteration: number, llmNodeId: string) => StreamProcessor;
 
+/**
+ * Callback type for adapting the options of a failed call to a fallback model.
+ * May reject to stop the fallback (e.g. with `BudgetExceededError`).
+ */
+export type PrepareFallbackFn = (
+  llmOptions: LLMGenerationOptions,
+  model: string,
+  iteration: number,
+  llmNodeId: string,
+) => LLMGenerationOptions | Promise<LLMGenerationOptions>;
+
 /**
  * Options for constructing a RetryOrchestrator.
  */
@@ -82,6 +99,10 @@ export interface RetryOrchestratorOptions {
   tree: ExecutionTree;
   /** Sleep function (injectable for testing) */
   sleep: (ms: number) => Promise<void>;
+  /** Models to switch to, in order, once retries for the current model are exhausted */
+  fallbackModels?: string[];
+  /** Adapt the options to a fallback model (defaults to swapping `model`) */
+  prepareFallback?: PrepareFallbackFn;
 }
 
 /**
@@ -93,6 +114,7 @@ export interface RetryOrchestratorOptions {
  * - Accumulated outputs (`textOutputs`, `gadgetResults`, `gadgetCallCount`)
  * - Backoff calculation: exponential factor, capping, Retry-After extraction, jitter
  * - Observer hook emission (`onRetryAttempt`) with correct context
+ * - Switching to fallback models once retries are exhausted (`onModelFallback`)
  * - Cross-iteration invocation ID tracking (`completedInvocationIds`, `failedInvocationIds`)
  *
  * @example
@@ -120,6 +142,8 @@ export class RetryOrchestrator {
   private readonly hooks: AgentHooks;
   private readonly tree: ExecutionTree;
   private readonly sleep: (ms: number) => Promise<void>;
+  private readonly fallbackModels: string[];
+  private readonly prepareFallback: PrepareFallbackFn;
 
   /** Invocation IDs that completed in the last orchestrate() call */
   private completedInvocationIds: Set<string> = new Set();
@@ -132,6 +156,9 @@ export class RetryOrchestrator {
     this.hooks = options.hooks;
     this.tree = options.tree;
     this.sleep = options.sleep;
+    this.fallbackModels = options.fallbackModels ?? [];
+    this.prepareFallback =
+      options.prepareFallback ?? ((llmOptions, model) => ({ ...llmOptions, model }));
   }
 
   // ==========================================================================
@@ -168,6 +195,10 @@ export class RetryOrchestrator {
    * (textOutputs, gadgetResults, gadgetCallCount) from the final successful attempt only.
    * State is reset between retry attempts to prevent accumulation of partial data.
    *
+   * When the retries for a model are exhausted on a retryable error, the call
+   * switches to the next fallback model with a fresh retry budget. The switch is
+   * recorded on the LLM call node and reported to `onModelFallback`.
+   *
    * @param llmOptions - LLM generation options to pass to the stream
    * @param iteration - Current agent iteration number
    * @param llmNodeId - Node ID in the execution tree for this LLM call
@@ -185,6 +216,52 @@ export class RetryOrchestrator {
     this.completedInvocationIds = new Set();
     this.failedInvocationIds = new Set();
 
+    const fallbackModels = this.fallbackModels.filter((model) => model !== llmOptions.model);
+    let currentOptions = llmOptions;
+
+    while (true) {
+      try {
+        const result = yield* this.attemptWithRetries(
+          currentOptions,
+          iteration,
+          llmNodeId,
+          createStream,
+          createStreamProcessor,
+        );
+        return result ? { ...result, llmOptions: currentOptions } : null;
+      } catch (error) {
+        const nextModel = fallbackModels.shift();
+        if (!nextModel || !this.shouldRetryError(error as Error)) {
+          throw error;
+        }
+        await this.switchToFallback(
+          currentOptions.model,
+          nextModel,
+          error as Error,
+          iteration,
+          llmNodeId,
+        );
+        currentOptions = await this.prepareFallback(
+          currentOptions,
+          nextModel,
+          iteration,
+          llmNodeId,
+        );
+      }
+    }
+  }
+
+  /**
+   * Run the stream for a single model, retrying with backoff per the retry config.
+   * Throws the last error once retries are exhausted.
+   */
+  private async *attemptWithRetries(
+    llmOptions: LLMGenerationOptions,
+    iteration: number,
+    llmNodeId: string,
+    createStream: CreateStreamFn,
+    createStreamProcessor: CreateStreamProcessorFn,
+  ): AsyncGenerator<StreamEvent, Omit<RetryResult, "llmOptions"> | null> {
     const maxStreamAttempts = this.retryConfig.enabled ? this.retryConfig.retries + 1 : 1;
     let streamAttempt = 0;
     let streamMetadata: StreamCompletionEvent | null = null;
@@ -310,11 +387,8 @@ export class RetryOrchestrator {
         // Check if this is a retryable error and we have attempts remaining
         const error = streamError as Error;
         const canRetry = this.retryConfig.enabled && streamAttempt < maxStreamAttempts;
-        const shouldRetryError = this.retryConfig.shouldRetry
-          ? this.retryConfig.shouldRetry(error)
-          : isRetryableError(error);
 
-        if (canRetry && shouldRetryError) {
+        if (canRetry && this.shouldRetryError(error)) {
           await this.backoffBeforeRetry(
             error,
             streamAttempt,
@@ -359,6 +433,45 @@ export class RetryOrchestrator {
       : null;
   }
 
+  private shouldRetryError(error: Error): boolean {
+    return this.retryConfig.shouldRetry
+      ? this.retryConfig.shouldRetry(error)
+      : isRetryableError(error);
+  }
+
+  /**
+   * Record a model switch on the LLM call node and notify `onModelFallback`.
+   */
+  private async switchToFallback(
+    fromModel: string,
+    toModel: string,
+    error: Error,
+    iteration: number,
+    llmNodeId: string,
+  ): Promise<void> {
+    this.logger.warn(`Model ${fromModel} failed, switching to fallback ${toModel}`, {
+      error: error.message,
+      iteration,
+    });
+
+    this.tree.recordModelFallback(llmNodeId, toModel, error);
+
+    await safeObserve(async () => {
+      if (this.hooks.observers?.onModelFallback) {
+        const subagentContext = getSubagentContextForNode(this.tree, llmNodeId);
+        const hookContext: ObserveModelFallbackContext = {
+          iteration,
+          fromModel,
+          toModel,
+          error,
+          logger: this.logger,
+          subagentContext,
+        };
+        await this.hooks.observers.onModelFallback(hookContext);
+      }
+    }, this.logger);
+  }
+
   /**
    * Apply the configured backoff before a retry attempt: compute the delay
    * (Retry-After hint or exponential backoff, with optional jitter), emit the
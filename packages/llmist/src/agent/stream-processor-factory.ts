@@ -22,6 +22,7 @@
 import type { ILogObj, Logger } from "tslog";
 import type { LLMist } from "../core/client.js";
 import type { ExecutionTree, NodeId } from "../core/execution-tree.js";
+import type { ProviderCredentialsMap } from "../core/options.js";
 import type { RateLimitTracker } from "../core/rate-limit.js";
 import type { ResolvedRetryConfig } from "../core/retry.js";
 import type { MediaStore } from "../gadgets/media-store.js";
@@ -61,6 +62,9 @@ export interface StreamProcessorFactoryOptions {
   /** Callback for requesting human input during execution */
   requestHumanInput?: (question: string) => Promise<string>;
 
+  /** Suspend gadgets that ask for human input instead of calling requestHumanInput */
+  suspendOnHumanInput?: boolean;
+
   /** Default gadget timeout in milliseconds */
   defaultGadgetTimeoutMs?: number;
 
@@ -97,8 +101,14 @@ export interface StreamProcessorFactoryOptions {
   /** Shared retry config for consistent backoff behavior across subagents */
   retryConfig: ResolvedRetryConfig;
 
+  /** Per-request provider credentials inherited by subagents */
+  credentials?: ProviderCredentialsMap;
+
   /** Maximum gadgets to execute per LLM response (0 = unlimited) */
   maxGadgetsPerResponse: number;
+
+  /** Gadgets are called as native tools; responses are not parsed for block calls */
+  nativeGadgetTools?: boolean;
 }
 
 /**
@@ -142,6 +152,7 @@ export class StreamProcessorFactory {
   private readonly hooks: AgentHooks;
   private readonly logger: Logger<ILogObj>;
   private readonly requestHumanInput?: (question: string) => Promise<string>;
+  private readonly suspendOnHumanInput?: boolean;
   private readonly defaultGadgetTimeoutMs?: number;
   private readonly inFlightTimeoutMs?: number;
   private readonly gadgetExecutionMode: GadgetExecutionMode;
@@ -154,7 +165,9 @@ export class StreamProcessorFactory {
   private readonly parentObservers?: Observers;
   private readonly rateLimitTracker?: RateLimitTracker;
   private readonly retryConfig: ResolvedRetryConfig;
+  private readonly credentials?: ProviderCredentialsMap;
   private readonly maxGadgetsPerResponse: number;
+  private readonly nativeGadgetTools?: boolean;
 
   constructor(options: StreamProcessorFactoryOptions) {
     this.registry = options.registry;
@@ -162,6 +175,7 @@ export class StreamProcessorFactory {
     this.hooks = options.hooks;
     this.logger = options.logger;
     this.requestHumanInput = options.requestHumanInput;
+    this.suspendOnHumanInput = options.suspendOnHumanInput;
     this.defaultGadgetTimeoutMs = options.defaultGadgetTimeoutMs;
     this.inFlightTimeoutMs = options.inFlightTimeoutMs;
     this.gadgetExecutionMode = options.gadgetExecutionMode;
@@ -174,7 +188,9 @@ export class StreamProcessorFactory {
     this.parentObservers = options.parentObservers;
     this.rateLimitTracker = options.rateLimitTracker;
     this.retryConfig = options.retryConfig;
+    this.credentials = options.credentials;
     this.maxGadgetsPerResponse = options.maxGadgetsPerResponse;
+    this.nativeGadgetTools = options.nativeGadgetTools;
   }
 
   /**
@@ -199,6 +215,7 @@ export class StreamProcessorFactory {
       hooks: this.hooks,
       logger: this.logger.getSubLogger({ name: "stream-processor" }),
       requestHumanInput: this.requestHumanInput,
+      suspendOnHumanInput: this.suspendOnHumanInput,
       defaultGadgetTimeoutMs: this.defaultGadgetTimeoutMs,
       inFlightTimeoutMs: this.inFlightTimeoutMs,
       gadgetExecutionMode: this.gadgetExecutionMode,
@@ -218,8 +235,10 @@ export class StreamProcessorFactory {
       // Shared rate limit tracker and retry config for subagents
       rateLimitTracker: this.rateLimitTracker,
       retryConfig: this.retryConfig,
+      credentials: this.credentials,
       // Gadget limiting
       maxGadgetsPerResponse: this.maxGadgetsPerResponse,
+      nativeGadgetTools: this.nativeGadgetTools,
     });
   }
 }
@@ -429,6 +429,66 @@ describe("StreamProcessor", () => {
     });
   });
 
+  describe("Native Tool Call Processing", () => {
+    it("executes native tool calls like parsed gadget calls", async () => {
+      const testGadget = createMockGadget({ name: "TestGadget", result: "native result" });
+      registry.registerByClass(testGadget);
+
+      const processor = new StreamProcessor({ iteration: 1, registry });
+      const stream = createTestStream([
+        { text: "Checking. " },
+        { text: "", toolCalls: [{ index: 0, id: "call_1", name: "TestGadget" }] },
+        { text: "", toolCalls: [{ index: 0, argumentsDelta: '{"message": "hi"}' }] },
+        { text: "", finishReason: "tool_calls" },
+      ]);
+
+      const result = await consumeStream(processor, stream);
+
+      const gadgetCall = result.outputs.find((e) => e.type === "gadget_call");
+      expect(gadgetCall).toMatchObject({
+        call: {
+          gadgetName: "TestGadget",
+          invocationId: "call_1",
+          parameters: { message: "hi" },
+          dependencies: [],
+        },
+      });
+      const gadgetResult = result.outputs.find((e) => e.type === "gadget_result");
+      expect(gadgetResult?.type === "gadget_result" && gadgetResult.result.result).toBe(
+        "native result",
+      );
+      expect(result.didExecuteGadgets).toBe(true);
+      expect(result.finalMessage).toBe("Checking. ");
+    });
+
+    it("notifies onGadgetArgsPartial for native tool call arguments", async () => {
+      const testGadget = createMockGadget({ name: "TestGadget", result: "done" });
+      registry.registerByClass(testGadget);
+      const onGadgetArgsPartial = vi.fn();
+
+      const processor = new StreamProcessor({
+        iteration: 1,
+        registry,
+        hooks: { observers: { onGadgetArgsPartial } },
+      });
+      const stream = createTestStream([
+        { text: "", toolCalls: [{ index: 0, id: "call_1", name: "TestGadget" }] },
+        { text: "", toolCalls: [{ index: 0, argumentsDelta: '{"message": "Hel' }] },
+        { text: "", toolCalls: [{ index: 0, argumentsDelta: 'lo"}' }] },
+      ]);
+
+      await consumeStream(processor, stream);
+
+      const partials = onGadgetArgsPartial.mock.calls.map(([ctx]) => ctx);
+      expect(partials.map((ctx) => [ctx.value, ctx.delta, ctx.isFieldComplete])).toEqual([
+        ["Hel", "Hel", false],
+        ["Hello", "lo", false],
+        ["Hello", "", true],
+      ]);
+      expect(partials[0]).toMatchObject({ invocationId: "call_1", fieldPath: "message" });
+    });
+  });
+
   describe("Interceptor: interceptGadgetParameters", () => {
     it("transforms parameters before execution", async () => {
       const testGadget = createMockGadget({
@@ -20,16 +20,18 @@
 import type { ILogObj, Logger } from "tslog";
 import type { LLMist } from "../core/client.js";
 import type { ExecutionTree, NodeId } from "../core/execution-tree.js";
-import type { LLMStreamChunk, TokenUsage } from "../core/options.js";
-import type { RateLimitTracker } from "../core/rate-limit.js";
+import type { LLMStreamChunk, ProviderCredentialsMap, TokenUsage } from "../core/options.js";
+import type { RateLimitTracker, ServerRateLimits } from "../core/rate-limit.js";
 import type { ResolvedRetryConfig } from "../core/retry.js";
 import { GadgetExecutor } from "../gadgets/executor.js";
 import type { MediaStore } from "../gadgets/media-store.js";
+import { NativeToolCallParser } from "../gadgets/native-tools.js";
 import { GadgetCallParser } from "../gadgets/parser.js";
 import type { GadgetRegistry } from "../gadgets/registry.js";
 import type {
   AgentContextConfig,
   GadgetExecutionMode,
+  GadgetSuspension,
   StreamCompletionEvent,
   StreamEvent,
   SubagentConfigMap,
@@ -81,6 +83,9 @@ export interface StreamProcessorOptions {
   /** Callback for requesting human input during execution */
   requestHumanInput?: (question: string) => Promise<string>;
 
+  /** Suspend gadgets that ask for human input instead of calling requestHumanInput */
+  suspendOnHumanInput?: boolean;
+
   /** Default gadget timeout */
   defaultGadgetTimeoutMs?: number;
 
@@ -154,8 +159,14 @@ export interface StreamProcessorOptions {
   /** Shared retry config for consistent backoff behavior across subagents */
   retryConfig?: ResolvedRetryConfig;
 
+  /** Per-request provider credentials inherited by subagents */
+  credentials?: ProviderCredentialsMap;
+
   /** Maximum gadgets to execute per response (0 = unlimited) */
   maxGadgetsPerResponse?: number;
+
+  /** Gadgets are called as native tools only; text is not parsed for block calls */
+  nativeGadgetTools?: boolean;
 }
 
 /**
@@ -208,7 +219,10 @@ export class StreamProcessor {
   private readonly iteration: number;
   private readonly hooks: AgentHooks;
   private readonly logger: Logger<ILogObj>;
-  private readonly parser: GadgetCallParser;
+  /** Parses block gadget calls from text; absent with the native gadget transport */
+  private readonly parser?: GadgetCallParser;
+  /** Turns native tool call chunks into gadget events (native gadget transport) */
+  private readonly nativeToolParser = new NativeToolCallParser();
 
   // Execution Tree context
   private readonly tree?: ExecutionTree;
@@ -226,6 +240,7 @@ export class StreamProcessor {
   private completedResultsQueue: StreamEvent[] = [];
 
   // Extracted orchestrators
+  private readonly hookLifecycle: GadgetHookLifecycle;
   private readonly dispatcher: GadgetDispatcher;
   private readonly limitGuard: GadgetLimitGuard;
 
@@ -258,15 +273,18 @@ export class StreamProcessor {
       logger: this.logger.getSubLogger({ name: "limit-guard" }),
     });
 
-    this.parser = new GadgetCallParser({
-      startPrefix: options.gadgetStartPrefix,
-      endPrefix: options.gadgetEndPrefix,
-      argPrefix: options.gadgetArgPrefix,
-    });
+    if (!options.nativeGadgetTools) {
+      this.parser = new GadgetCallParser({
+        startPrefix: options.gadgetStartPrefix,
+        endPrefix: options.gadgetEndPrefix,
+        argPrefix: options.gadgetArgPrefix,
+      });
+    }
 
     const executor = new GadgetExecutor({
       registry: options.registry,
       requestHumanInput: options.requestHumanInput,
+      suspendOnHumanInput: options.suspendOnHumanInput,
       logger: this.logger.getSubLogger({ name: "executor" }),
       defaultGadgetTimeoutMs: options.defaultGadgetTimeoutMs,
       errorFormatterOptions: { argPrefix: options.gadgetArgPrefix },
@@ -286,9 +304,11 @@ export class StreamProcessor {
       rateLimitTracker: options.rateLimitTracker,
       // Shared retry config for consistent backoff behavior across subagents
       retryConfig: options.retryConfig,
+      // Tenant credentials so subagents bill the same keys
+      credentials: options.credentials,
     });
 
-    const hookLifecycle = new GadgetHookLifecycle({
+    this.hookLifecycle = new GadgetHookLifecycle({
       iteration: options.iteration,
       hooks: this.hooks,
       logger: this.logger,
@@ -300,7 +320,7 @@ export class StreamProcessor {
 
     this.dispatcher = new GadgetDispatcher({
       iteration: options.iteration,
-      hookLifecycle,
+      hookLifecycle: this.hookLifecycle,
       dependencyResolver: this.dependencyResolver,
       concurrencyManager,
       limitGuard: this.limitGuard,
@@ -333,6 +353,7 @@ export class StreamProcessor {
   async *process(stream: AsyncIterable<LLMStreamChunk>): AsyncGenerator<StreamEvent> {
     let finishReason: string | null = null;
     let usage: TokenUsage | undefined;
+    let rateLimits: ServerRateLimits | undefined;
     let thinkingContent = "";
 
     // Mutable state for gadget result tracking (passed to trackGadgetResult helper)
@@ -343,6 +364,7 @@ export class StreamProcessor {
       // Capture metadata
       if (chunk.finishReason) finishReason = chunk.finishReason;
       if (chunk.usage) usage = chunk.usage;
+      if (chunk.rateLimits) rateLimits = chunk.rateLimits;
 
       // Emit thinking content as a thinking event
       if (chunk.thinking?.content) {
@@ -396,13 +418,17 @@ export class StreamProcessor {
         await this.runObserversInParallel(chunkObservers);
       }
 
-      // Skip further processing if no text
-      if (!processedChunk) {
+      // Skip further processing if there is neither text nor a native tool call
+      if (!processedChunk && !chunk.toolCalls) {
         continue;
       }
 
       // Step 3: Parse and process events - yield immediately
-      for (const event of this.parser.feed(processedChunk)) {
+      const events = [
+        ...(processedChunk ? this.parseText(processedChunk) : []),
+        ...(chunk.toolCalls ? this.nativeToolParser.feed(chunk.toolCalls) : []),
+      ];
+      for (const event of events) {
         for await (const processedEvent of this.processEventGenerator(event)) {
           yield processedEvent;
 
@@ -434,7 +460,7 @@ export class StreamProcessor {
     yield { type: "llm_response_end", finishReason, usage } as StreamEvent;
 
     // Finalize parsing
-    for (const event of this.parser.finalize()) {
+    for (const event of [...(this.parser?.finalize() ?? []), ...this.nativeToolParser.finalize()]) {
       for await (const processedEvent of this.processEventGenerator(event)) {
         yield processedEvent;
 
@@ -478,6 +504,7 @@ export class StreamProcessor {
     }
 
     // Yield completion event with all metadata
+    const suspension = this.getSuspension();
     const completionEvent: StreamCompletionEvent = {
       type: "stream_complete",
       shouldBreakLoop: state.shouldBreakLoop,
@@ -487,10 +514,48 @@ export class StreamProcessor {
       rawResponse: this.responseText,
       finalMessage,
       thinkingContent: thinkingContent || undefined,
+      ...(rateLimits ? { rateLimits } : {}),
+      ...(suspension ? { suspension } : {}),
     };
     yield completionEvent;
   }
 
+  /**
+   * Continue the gadgets of a suspended response: record `answer` as the
+   * result of the first request, then run the deferred gadgets it unblocks.
+   * The other requests stay suspended; {@link getSuspension} reports what is
+   * still waiting afterwards.
+   */
+  async *resumeSuspension(
+    suspension: GadgetSuspension,
+    answer: string,
+  ): AsyncGenerator<StreamEvent> {
+    const [request, ...waiting] = suspension.requests;
+    for (const other of waiting) {
+      this.dependencyResolver.markSuspended(other);
+    }
+    for (const call of suspension.deferredCalls) {
+      this.dependencyResolver.addPending(call);
+    }
+
+    yield* this.hookLifecycle.complete({
+      gadgetName: request.gadgetName,
+      invocationId: request.invocationId,
+      parameters: request.parameters,
+      result: answer,
+      executionTimeMs: 0,
+    });
+    yield* this.dispatcher.processPendingGadgets();
+  }
+
+  /**
+   * Turn a text chunk into events: parsed for block gadget calls, or passed
+   * through as text with the native gadget transport.
+   */
+  private parseText(text: string): StreamEvent[] {
+    return this.parser ? [...this.parser.feed(text)] : [{ type: "text", content: text }];
+  }
+
   /**
    * Process a single parsed event, yielding events in real-time.
    */
@@ -610,4 +675,19 @@ export class StreamProcessor {
   getFailedInvocationIds(): Set<string> {
     return this.dependencyResolver.getFailedInvocationIds();
   }
+
+  /**
+   * Get the gadgets waiting for human input, if any asked for it in suspend mode.
+   */
+  getSuspension(): GadgetSuspension | undefined {
+    const requests = this.dependencyResolver.getSuspendedRequests();
+    if (requests.length === 0) {
+      return undefined;
+    }
+    const deferredCalls = this.dependencyResolver
+      .getPendingEntries()
+      .map(([, call]) => call)
+      .filter((call) => this.dependencyResolver.isAwaitingHumanInput(call));
+    return { requests, deferredCalls };
+  }
 }
@@ -0,0 +1,250 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import type { LLMist } from "../core/client.js";
+import { GADGET_ARG_PREFIX, GADGET_END_PREFIX, GADGET_START_PREFIX } from "../core/constants.js";
+import { HumanInputRequiredException } from "../gadgets/exceptions.js";
+import { Gadget } from "../gadgets/typed-gadget.js";
+import type { AgentSuspendedEvent, StreamEvent } from "../gadgets/types.js";
+import { AgentBuilder } from "./builder.js";
+import { InMemoryCheckpointStore } from "./checkpoint.js";
+
+class AskUser extends Gadget({
+  name: "AskUser",
+  description: "Asks the user a question",
+  schema: z.object({ question: z.string() }),
+}) {
+  execute(params: this["params"]): string {
+    throw new HumanInputRequiredException(params.question);
+  }
+}
+
+const deployed = vi.fn();
+
+class Deploy extends Gadget({
+  name: "Deploy",
+  description: "Deploys to an environment",
+  schema: z.object({ env: z.string() }),
+}) {
+  execute(params: this["params"]): string {
+    deployed(params.env);
+    return `Deployed to ${params.env}`;
+  }
+}
+
+class Echo extends Gadget({
+  name: "Echo",
+  description: "Echoes text",
+  schema: z.object({ text: z.string() }),
+}) {
+  execute(params: this["params"]): string {
+    return params.text;
+  }
+}
+
+function gadgetCall(header: string, params: Record<string, string>): string {
+  const args = Object.entries(params).map(
+    ([key, value]) => `${GADGET_ARG_PREFIX}${key}\n${value}\n`,
+  );
+  return `${GADGET_START_PREFIX}${header}\n${args.join("")}${GADGET_END_PREFIX}\n`;
+}
+
+/** Client whose calls return the given texts in turn. */
+function createClient(...responses: string[]): LLMist {
+  const stream = vi.fn();
+  for (const text of responses) {
+    stream.mockImplementationOnce(async function* () {
+      yield { text };
+    });
+  }
+  return {
+    stream,
+    modelRegistry: { getModelLimits: vi.fn().mockReturnValue({ maxOutputTokens: 4096 }) },
+  } as unknown as LLMist;
+}
+
+function agentBuilder(client: LLMist): AgentBuilder {
+  return new AgentBuilder(client)
+    .withModel("test:model")
+    .withGadgets(AskUser, Deploy, Echo)
+    .withGadgetTransport("block");
+}
+
+async function collect(events: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+  const collected: StreamEvent[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+}
+
+const askThenDeploy =
+  gadgetCall("AskUser:ask", { question: "Deploy to prod?" }) +
+  gadgetCall("Deploy:deploy:ask", { env: "prod" }) +
+  gadgetCall("Echo:echo", { text: "Preparing" });
+
+async function suspendedRun(response = askThenDeploy): Promise<AgentSuspendedEvent> {
+  const events = await collect(
+    agentBuilder(createClient(response)).withSuspendOnHumanInput().ask("Ship it").run(),
+  );
+  const last = events.at(-1);
+  if (last?.type !== "suspended") throw new Error("Run did not suspend");
+  // Tokens travel as JSON between processes
+  return JSON.parse(JSON.stringify(last));
+}
+
+describe("Suspending on human input", () => {
+  it("ends the run with the pending question and defers dependent gadgets", async () => {
+    deployed.mockClear();
+    const client = createClient(askThenDeploy);
+
+    const events = await collect(
+      agentBuilder(client).withSuspendOnHumanInput().ask("Ship it").run(),
+    );
+
+    expect(events.filter((event) => event.type === "human_input_required")).toEqual([
+      {
+        type: "human_input_required",
+        question: "Deploy to prod?",
+        gadgetName: "AskUser",
+        invocationId: "ask",
+        parameters: { question: "Deploy to prod?" },
+      },
+    ]);
+    expect(
+      events.flatMap((event) => (event.type === "gadget_result" ? [event.result.result] : [])),
+    ).toEqual(["Preparing"]);
+    expect(deployed).not.toHaveBeenCalled();
+    expect(client.stream).toHaveBeenCalledTimes(1);
+
+    const suspended = events.at(-1) as AgentSuspendedEvent;
+    expect(suspended.type).toBe("suspended");
+    expect(suspended.request).toMatchObject({ question: "Deploy to prod?", invocationId: "ask" });
+    expect(suspended.token.iteration).toBe(1);
+    expect(suspended.token.suspension?.deferredCalls.map((call) => call.invocationId)).toEqual([
+      "deploy",
+    ]);
+  });
+
+  it("saves the suspended state with checkpointing", async () => {
+    const store = new InMemoryCheckpointStore();
+
+    await collect(
+      agentBuilder(createClient(askThenDeploy))
+        .withSuspendOnHumanInput()
+        .withCheckpointing(store, "job")
+        .ask("Ship it")
+        .run(),
+    );
+
+    expect((await store.load("job"))?.suspension?.requests).toHaveLength(1);
+  });
+
+  it("continues with the answer and the gadgets that waited on it", async () => {
+    deployed.mockClear();
+    const { token } = await suspendedRun();
+    const client = createClient("Deployed.");
+
+    const events = await collect(agentBuilder(client).resumeWithAnswer(token, "yes").build().run());
+
+    expect(
+      events.flatMap((event) => (event.type === "gadget_result" ? [event.result.result] : [])),
+    ).toEqual(["yes", "Deployed to prod"]);
+    expect(deployed).toHaveBeenCalledWith("prod");
+    expect(events.some((event) => event.type === "suspended")).toBe(false);
+
+    const { messages } = vi.mocked(client.stream).mock.calls[0][0];
+    const contents = messages.map((message) => message.content).join("\n");
+    expect(contents).toContain("Preparing");
+    expect(contents).toContain("yes");
+    expect(contents).toContain("Deployed to prod");
+  });
+
+  it("records the text of a response that only asked a question", async () => {
+    const textWithGadgets = {
+      gadgetName: "TellUser",
+      parameterMapping: (text: string) => ({ message: text }),
+    };
+    const events = await collect(
+      agentBuilder(
+        createClient(`Checking first.\n${gadgetCall("AskUser:ask", { question: "Deploy?" })}`),
+      )
+        .withTextWithGadgetsHandler(textWithGadgets)
+        .withSuspendOnHumanInput()
+        .ask("Ship it")
+        .run(),
+    );
+    const { token } = events.at(-1) as AgentSuspendedEvent;
+    const client = createClient("Deployed.");
+
+    await collect(
+      agentBuilder(client)
+        .withTextWithGadgetsHandler(textWithGadgets)
+        .resumeWithAnswer(token, "yes")
+        .build()
+        .run(),
+    );
+
+    const { messages } = vi.mocked(client.stream).mock.calls[0][0];
+    const contents = messages.map((message) => message.content).join("\n");
+    expect(contents).toContain("TellUser");
+    expect(contents).toContain("Checking first.");
+    expect(contents).toContain("yes");
+  });
+
+  it("completes the suspended gadget in the execution tree", async () => {
+    const { token } = await suspendedRun();
+    const agent = agentBuilder(createClient("Done.")).resumeWithAnswer(token, "yes").build();
+
+    await collect(agent.run());
+
+    const gadgets = agent
+      .checkpoint()
+      .tree.nodes.filter((node) => node.type === "gadget")
+      .map((node) => [node.type === "gadget" && node.invocationId, node.state]);
+    expect(gadgets).toEqual([
+      ["ask", "completed"],
+      ["deploy", "completed"],
+      ["echo", "completed"],
+    ]);
+  });
+
+  it("suspends again on the next pending question of the same response", async () => {
+    const { token } = await suspendedRun(
+      gadgetCall("AskUser:first", { question: "Which region?" }) +
+        gadgetCall("AskUser:second", { question: "Which size?" }),
+    );
+    expect(token.suspension?.requests.map((request) => request.invocationId)).toEqual([
+      "first",
+      "second",
+    ]);
+    const client = createClient();
+
+    const events = await collect(
+      agentBuilder(client).resumeWithAnswer(token, "eu-west").build().run(),
+    );
+
+    const suspended = events.at(-1) as AgentSuspendedEvent;
+    expect(suspended).toMatchObject({ type: "suspended", request: { question: "Which size?" } });
+    expect(suspended.token.invocations.completed).toContain("first");
+    expect(client.stream).not.toHaveBeenCalled();
+  });
+
+  it("stays suspended when resumed without an answer", async () => {
+    const { token } = await suspendedRun();
+    const client = createClient();
+
+    const events = await collect(agentBuilder(client).resumeFrom(token).build().run());
+
+    expect(events).toEqual([
+      expect.objectContaining({ type: "suspended", request: token.suspension?.requests[0] }),
+    ]);
+    expect(client.stream).not.toHaveBeenCalled();
+  });
+
+  it("rejects answers for checkpoints that are not suspended", async () => {
+    const agent = agentBuilder(createClient()).ask("Hi");
+    const builder = agentBuilder(createClient()).resumeWithAnswer(agent.checkpoint(), "yes");
+
+    expect(() => builder.build()).toThrow("not suspended on human input");
+  });
+});
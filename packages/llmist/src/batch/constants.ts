@@ -0,0 +1,24 @@
+/**
+ * Batch constants.
+ */
+
+/**
+ * Default delay between status polls in `BatchJob.wait()`. Batches take
+ * minutes to hours, so there is no point polling more often.
+ */
+export const BATCH_DEFAULT_POLL_INTERVAL_MS = 30_000;
+
+/**
+ * Default `BatchJob.wait()` budget: 24 hours, the completion window of all
+ * supported providers (unfinished requests expire after it).
+ */
+export const BATCH_DEFAULT_WAIT_TIMEOUT_MS = 86_400_000;
+
+/** OpenAI Batch API completion window (the only value OpenAI accepts). */
+export const OPENAI_BATCH_COMPLETION_WINDOW = "24h";
+
+/** Decimal places for cost estimates (avoids float noise in reported USD). */
+export const BATCH_COST_DECIMALS = 8;
+
+/** Tokens per million — denominator for per-1M-token pricing. */
+export const TOKENS_PER_MILLION = 1_000_000;
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import type { ModelPricing } from "../core/model-catalog.js";
+import { estimateBatchCost } from "./cost.js";
+
+const PRICING: ModelPricing = {
+  input: 2,
+  output: 8,
+  cachedInput: 0.5,
+  batchInput: 1,
+  batchOutput: 4,
+};
+
+describe("estimateBatchCost", () => {
+  it("prices input and output at batch rates", () => {
+    const cost = estimateBatchCost(PRICING, {
+      inputTokens: 1_000_000,
+      outputTokens: 500_000,
+      totalTokens: 1_500_000,
+    });
+    expect(cost).toBe(3);
+  });
+
+  it("scales cached input by the batch discount", () => {
+    const cost = estimateBatchCost(PRICING, {
+      inputTokens: 1_000_000,
+      outputTokens: 0,
+      totalTokens: 1_000_000,
+      cachedInputTokens: 1_000_000,
+    });
+    // cachedInput 0.5 at half price
+    expect(cost).toBe(0.25);
+  });
+
+  it("scales cache writes and reasoning by the batch discount", () => {
+    const cost = estimateBatchCost(
+      { ...PRICING, cacheWriteInput: 2.5, reasoningOutput: 10 },
+      {
+        inputTokens: 1_000_000,
+        outputTokens: 1_000_000,
+        totalTokens: 2_000_000,
+        cacheCreationInputTokens: 1_000_000,
+        reasoningTokens: 1_000_000,
+      },
+    );
+    expect(cost).toBe(1.25 + 5);
+  });
+
+  it("returns undefined without batch rates", () => {
+    expect(
+      estimateBatchCost(
+        { input: 2, output: 8 },
+        { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+      ),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Batch cost estimation.
+ *
+ * Separate from `ModelRegistry.estimateCost` because batch rates replace the
+ * interactive ones: the batch discount applies to every token class, so
+ * cached, cache-write and reasoning rates are scaled by the same ratio as the
+ * base input/output rates.
+ */
+
+import type { ModelPricing } from "../core/model-catalog.js";
+import type { TokenUsage } from "../core/options.js";
+import { BATCH_COST_DECIMALS, TOKENS_PER_MILLION } from "./constants.js";
+
+/**
+ * Estimate the USD cost of one batch request.
+ *
+ * @returns The cost, or `undefined` when the pricing has no batch rates.
+ */
+export function estimateBatchCost(pricing: ModelPricing, usage: TokenUsage): number | undefined {
+  if (pricing.batchInput === undefined || pricing.batchOutput === undefined) {
+    return undefined;
+  }
+
+  const inputScale = pricing.input > 0 ? pricing.batchInput / pricing.input : 0;
+  const outputScale = pricing.output > 0 ? pricing.batchOutput / pricing.output : 0;
+
+  const cachedTokens = usage.cachedInputTokens ?? 0;
+  const cacheWriteTokens = usage.cacheCreationInputTokens ?? 0;
+  const freshInputTokens = Math.max(0, usage.inputTokens - cachedTokens - cacheWriteTokens);
+  const cachedRate = (pricing.cachedInput ?? pricing.input) * inputScale;
+  const cacheWriteRate = (pricing.cacheWriteInput ?? pricing.input) * inputScale;
+
+  const reasoningTokens = usage.reasoningTokens ?? 0;
+  const plainOutputTokens = Math.max(0, usage.outputTokens - reasoningTokens);
+  const reasoningRate = (pricing.reasoningOutput ?? pricing.output) * outputScale;
+
+  const total =
+    (freshInputTokens * pricing.batchInput +
+      cachedTokens * cachedRate +
+      cacheWriteTokens * cacheWriteRate +
+      plainOutputTokens * pricing.batchOutput +
+      reasoningTokens * reasoningRate) /
+    TOKENS_PER_MILLION;
+
+  return Number(total.toFixed(BATCH_COST_DECIMALS));
+}
@@ -0,0 +1,55 @@
+/**
+ * Typed errors for the batch surface.
+ *
+ * Follows the core error convention (plain `Error` subclasses with `name`
+ * set) — see `core/errors.ts`.
+ */
+
+import type { BatchStatus } from "./types.js";
+
+/** Thrown when no registered provider supports batches for the given model. */
+export class BatchNotSupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchNotSupportedError";
+  }
+}
+
+/** Thrown when batch requests fail validation before anything is uploaded. */
+export class BatchValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchValidationError";
+  }
+}
+
+/** Thrown when results are requested before the batch reached a terminal status. */
+export class BatchNotReadyError extends Error {
+  readonly status: BatchStatus;
+
+  constructor(batchId: string, status: BatchStatus) {
+    super(
+      `Batch "${batchId}" is still ${status.replace("_", " ")}. ` +
+        "Call wait() (or check status()) before reading results.",
+    );
+    this.name = "BatchNotReadyError";
+    this.status = status;
+  }
+}
+
+/**
+ * Thrown when `wait()` gives up before the batch finishes. The batch keeps
+ * running server-side and its ref stays valid.
+ */
+export class BatchTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(batchId: string, timeoutMs: number) {
+    super(
+      `Batch "${batchId}" did not finish within ${timeoutMs}ms. ` +
+        "It keeps running server-side — check on it later via its ref.",
+    );
+    this.name = "BatchTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
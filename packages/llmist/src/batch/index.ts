@@ -0,0 +1,26 @@
+/**
+ * Batch API module.
+ */
+
+export * from "./constants.js";
+export { estimateBatchCost } from "./cost.js";
+export {
+  BatchNotReadyError,
+  BatchNotSupportedError,
+  BatchTimeoutError,
+  BatchValidationError,
+} from "./errors.js";
+export { BatchJobImpl } from "./job.js";
+export { BatchNamespace } from "./namespace.js";
+export type {
+  BatchJob,
+  BatchJobRef,
+  BatchRequest,
+  BatchRequestCounts,
+  BatchResultItem,
+  BatchStatus,
+  BatchStatusSnapshot,
+  BatchSubmitOptions,
+  BatchWaitOptions,
+} from "./types.js";
+export { BATCH_TERMINAL_STATUSES } from "./types.js";
@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ModelSpec } from "../core/model-catalog.js";
+import type { ProviderAdapter } from "../providers/provider.js";
+import { BatchNotReadyError, BatchNotSupportedError, BatchTimeoutError } from "./errors.js";
+import { BatchJobImpl } from "./job.js";
+import type { BatchJobRef, BatchResultItem, BatchStatus } from "./types.js";
+
+const REF: BatchJobRef = { provider: "fake", model: "fake-model", batchId: "batch-1" };
+
+const SPEC = {
+  provider: "fake",
+  modelId: "fake-model",
+  pricing: { input: 2, output: 8, batchInput: 1, batchOutput: 4 },
+} as ModelSpec;
+
+function batchAdapter(
+  statuses: BatchStatus[],
+  results: BatchResultItem[] = [],
+  overrides: Partial<ProviderAdapter> = {},
+): ProviderAdapter {
+  let poll = 0;
+  return {
+    providerId: "fake",
+    supports: () => true,
+    stream: () => {
+      throw new Error("not used");
+    },
+    getBatchStatus: vi.fn(async () => ({
+      status: statuses[Math.min(poll++, statuses.length - 1)],
+    })),
+    getBatchResults: async function* () {
+      yield* results;
+    },
+    cancelBatch: vi.fn(async () => {}),
+    ...overrides,
+  } as ProviderAdapter;
+}
+
+async function collect(job: BatchJobImpl): Promise<BatchResultItem[]> {
+  const items: BatchResultItem[] = [];
+  for await (const item of job) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe("BatchJobImpl", () => {
+  it("exposes ref fields and returns a copy from toRef()", () => {
+    const job = new BatchJobImpl({ adapter: batchAdapter(["completed"]), ref: REF });
+    expect(job.batchId).toBe("batch-1");
+    expect(job.provider).toBe("fake");
+    expect(job.model).toBe("fake-model");
+
+    const ref = job.toRef();
+    expect(ref).toEqual(REF);
+    expect(ref).not.toBe(REF);
+    expect(JSON.parse(JSON.stringify(ref))).toEqual(REF);
+  });
+
+  describe("wait", () => {
+    it("polls until a terminal status", async () => {
+      const adapter = batchAdapter(["validating", "in_progress", "completed"]);
+      const job = new BatchJobImpl({ adapter, ref: REF });
+      const seen: BatchStatus[] = [];
+
+      const snapshot = await job.wait({
+        pollIntervalMs: 1,
+        onStatus: (s) => seen.push(s.status),
+      });
+
+      expect(snapshot.status).toBe("completed");
+      expect(seen).toEqual(["validating", "in_progress", "completed"]);
+    });
+
+    it("throws BatchTimeoutError when the budget elapses", async () => {
+      const job = new BatchJobImpl({ adapter: batchAdapter(["in_progress"]), ref: REF });
+      await expect(job.wait({ pollIntervalMs: 1, timeoutMs: 5 })).rejects.toBeInstanceOf(
+        BatchTimeoutError,
+      );
+    });
+
+    it("stops when the signal aborts", async () => {
+      const job = new BatchJobImpl({ adapter: batchAdapter(["in_progress"]), ref: REF });
+      const controller = new AbortController();
+      const waiting = job.wait({ pollIntervalMs: 60_000, signal: controller.signal });
+      controller.abort(new Error("stop"));
+      await expect(waiting).rejects.toThrow("stop");
+    });
+  });
+
+  describe("results", () => {
+    it("throws BatchNotReadyError while the batch is running", async () => {
+      const job = new BatchJobImpl({ adapter: batchAdapter(["in_progress"]), ref: REF });
+      await expect(collect(job)).rejects.toBeInstanceOf(BatchNotReadyError);
+    });
+
+    it("adds cost at batch rates when the provider leaves it unset", async () => {
+      const adapter = batchAdapter(
+        ["completed"],
+        [
+          {
+            id: "a",
+            status: "succeeded",
+            text: "hi",
+            usage: { inputTokens: 1_000_000, outputTokens: 0, totalTokens: 1_000_000 },
+          },
+          { id: "b", status: "succeeded", text: "priced", cost: 42 },
+          { id: "c", status: "failed", text: "", error: { message: "boom" } },
+        ],
+      );
+      const job = new BatchJobImpl({ adapter, ref: REF, spec: SPEC });
+
+      const items = await collect(job);
+
+      expect(items.map((item) => item.cost)).toEqual([1, 42, undefined]);
+    });
+
+    it("returns partial results of cancelled batches", async () => {
+      const adapter = batchAdapter(["cancelled"], [{ id: "a", status: "succeeded", text: "x" }]);
+      const job = new BatchJobImpl({ adapter, ref: REF });
+      expect(await collect(job)).toHaveLength(1);
+    });
+  });
+
+  it("throws BatchNotSupportedError when the adapter lacks batch methods", async () => {
+    const adapter = batchAdapter(["completed"], [], {
+      getBatchStatus: undefined,
+      cancelBatch: undefined,
+    });
+    const job = new BatchJobImpl({ adapter, ref: REF });
+    await expect(job.status()).rejects.toBeInstanceOf(BatchNotSupportedError);
+    await expect(job.cancel()).rejects.toBeInstanceOf(BatchNotSupportedError);
+  });
+
+  it("delegates cancel to the adapter", async () => {
+    const adapter = batchAdapter(["in_progress"]);
+    const job = new BatchJobImpl({ adapter, ref: REF });
+    await job.cancel();
+    expect(adapter.cancelBatch).toHaveBeenCalledWith(REF);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Batch job handle implementation.
+ *
+ * A thin stateful wrapper over a provider's batch methods:
+ * - status polls and `wait()` with a client-side time budget (the batch itself
+ *   keeps running server-side when waiting stops)
+ * - result iteration with per-request cost at the model's batch rates
+ * - a serializable ref for attaching from another process
+ */
+
+import type { ModelSpec } from "../core/model-catalog.js";
+import type { ProviderAdapter } from "../providers/provider.js";
+import { BATCH_DEFAULT_POLL_INTERVAL_MS, BATCH_DEFAULT_WAIT_TIMEOUT_MS } from "./constants.js";
+import { estimateBatchCost } from "./cost.js";
+import { BatchNotReadyError, BatchNotSupportedError, BatchTimeoutError } from "./errors.js";
+import type {
+  BatchJob,
+  BatchJobRef,
+  BatchResultItem,
+  BatchStatusSnapshot,
+  BatchWaitOptions,
+} from "./types.js";
+import { BATCH_TERMINAL_STATUSES } from "./types.js";
+
+interface BatchJobInit {
+  adapter: ProviderAdapter;
+  ref: BatchJobRef;
+  spec?: ModelSpec;
+}
+
+/** Resolves after `ms`, or rejects with the signal's reason when aborted. */
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export class BatchJobImpl implements BatchJob {
+  private readonly adapter: ProviderAdapter;
+  private readonly ref: BatchJobRef;
+  private readonly spec?: ModelSpec;
+
+  constructor(init: BatchJobInit) {
+    this.adapter = init.adapter;
+    this.ref = init.ref;
+    this.spec = init.spec;
+  }
+
+  get batchId(): string {
+    return this.ref.batchId;
+  }
+
+  get provider(): string {
+    return this.ref.provider;
+  }
+
+  get model(): string {
+    return this.ref.model;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<BatchResultItem> {
+    return this.results()[Symbol.asyncIterator]();
+  }
+
+  async status(): Promise<BatchStatusSnapshot> {
+    if (!this.adapter.getBatchStatus) {
+      throw new BatchNotSupportedError(
+        `Provider "${this.provider}" does not support batch status polling.`,
+      );
+    }
+    return this.adapter.getBatchStatus(this.ref);
+  }
+
+  async wait(options: BatchWaitOptions = {}): Promise<BatchStatusSnapshot> {
+    const pollIntervalMs = options.pollIntervalMs ?? BATCH_DEFAULT_POLL_INTERVAL_MS;
+    const timeoutMs = options.timeoutMs ?? BATCH_DEFAULT_WAIT_TIMEOUT_MS;
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      const snapshot = await this.status();
+      options.onStatus?.(snapshot);
+      if (BATCH_TERMINAL_STATUSES.includes(snapshot.status)) {
+        return snapshot;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new BatchTimeoutError(this.batchId, timeoutMs);
+      }
+      await abortableSleep(Math.min(pollIntervalMs, remaining), options.signal);
+    }
+  }
+
+  results(): AsyncIterable<BatchResultItem> {
+    return this.streamResults();
+  }
+
+  async cancel(): Promise<void> {
+    if (!this.adapter.cancelBatch) {
+      throw new BatchNotSupportedError(
+        `Provider "${this.provider}" does not support cancelling batches.`,
+      );
+    }
+    await this.adapter.cancelBatch(this.ref);
+  }
+
+  toRef(): BatchJobRef {
+    return { ...this.ref };
+  }
+
+  private async *streamResults(): AsyncGenerator<BatchResultItem> {
+    if (!this.adapter.getBatchResults) {
+      throw new BatchNotSupportedError(
+        `Provider "${this.provider}" does not support fetching batch results.`,
+      );
+    }
+
+    const snapshot = await this.status();
+    if (!BATCH_TERMINAL_STATUSES.includes(snapshot.status)) {
+      throw new BatchNotReadyError(this.batchId, snapshot.status);
+    }
+
+    for await (const item of this.adapter.getBatchResults(this.ref)) {
+      yield this.withCost(item);
+    }
+  }
+
+  private withCost(item: BatchResultItem): BatchResultItem {
+    if (item.cost !== undefined || !item.usage || !this.spec) {
+      return item;
+    }
+    const cost = estimateBatchCost(this.spec.pricing, item.usage);
+    return cost === undefined ? item : { ...item, cost };
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ModelSpec } from "../core/model-catalog.js";
+import { ModelIdentifierParser } from "../core/options.js";
+import type { ProviderAdapter } from "../providers/provider.js";
+import { BatchNotSupportedError, BatchValidationError } from "./errors.js";
+import { BatchNamespace } from "./namespace.js";
+import type { BatchRequest } from "./types.js";
+
+const PARSER = new ModelIdentifierParser("openai");
+const NOW = Date.parse("2026-01-01T00:00:00Z");
+
+function spec(modelId: string, batch = true): ModelSpec {
+  return {
+    provider: "fake",
+    modelId,
+    displayName: modelId,
+    contextWindow: 1000,
+    maxOutputTokens: 100,
+    pricing: batch
+      ? { input: 2, output: 8, batchInput: 1, batchOutput: 4 }
+      : { input: 2, output: 8 },
+    knowledgeCutoff: "2025-01",
+    features: { streaming: true, functionCalling: false, vision: false },
+  };
+}
+
+function batchAdapter(specs: ModelSpec[], overrides: Partial<ProviderAdapter> = {}) {
+  return {
+    providerId: "fake",
+    supports: (descriptor) => descriptor.provider === "fake",
+    stream: () => {
+      throw new Error("not used");
+    },
+    getModelSpecs: () => specs,
+    supportsBatch: (modelId: string) =>
+      specs.some((s) => s.modelId === modelId && s.pricing.batchInput !== undefined),
+    submitBatch: vi.fn(async () => "batch-1"),
+    getBatchStatus: vi.fn(async () => ({ status: "in_progress" as const })),
+    cancelBatch: vi.fn(async () => {}),
+    ...overrides,
+  } as ProviderAdapter;
+}
+
+function request(id: string, overrides: Partial<BatchRequest> = {}): BatchRequest {
+  return { id, messages: [{ role: "user", content: `q-${id}` }], ...overrides };
+}
+
+describe("BatchNamespace", () => {
+  describe("submit", () => {
+    it("dispatches to the batch-capable adapter and returns a job", async () => {
+      const models = [spec("fast")];
+      const adapter = batchAdapter(models);
+      const ns = new BatchNamespace([adapter], PARSER, () => NOW);
+      const requests = [request("a"), request("b")];
+
+      const job = await ns.submit(requests, { model: "fake:fast" });
+
+      expect(adapter.submitBatch).toHaveBeenCalledWith(
+        requests,
+        expect.objectContaining({ provider: "fake", name: "fast" }),
+        models[0],
+        undefined,
+      );
+      expect(job.toRef()).toEqual({
+        provider: "fake",
+        model: "fast",
+        batchId: "batch-1",
+        requestCount: 2,
+        submittedAt: "2026-01-01T00:00:00.000Z",
+      });
+    });
+
+    it("accepts a per-request model", async () => {
+      const ns = new BatchNamespace([batchAdapter([spec("fast")])], PARSER);
+      const job = await ns.submit([request("a", { model: "fake:fast" })]);
+      expect(job.model).toBe("fast");
+    });
+
+    it.each([
+      ["an empty batch", [], "at least one request"],
+      ["a missing id", [request("")], "non-empty id"],
+      ["duplicate ids", [request("a"), request("a")], 'Duplicate batch request id "a"'],
+      [
+        "mixed models",
+        [request("a"), request("b", { model: "fake:other" })],
+        "must use the same model",
+      ],
+    ])("rejects %s", async (_label, requests, message) => {
+      const adapter = batchAdapter([spec("fast"), spec("other")]);
+      const ns = new BatchNamespace([adapter], PARSER);
+
+      const submission = ns.submit(requests as BatchRequest[], { model: "fake:fast" });
+
+      await expect(submission).rejects.toBeInstanceOf(BatchValidationError);
+      await expect(submission).rejects.toThrow(message);
+      expect(adapter.submitBatch).not.toHaveBeenCalled();
+    });
+
+    it("rejects requests without any model", async () => {
+      const ns = new BatchNamespace([batchAdapter([spec("fast")])], PARSER);
+      await expect(ns.submit([request("a")])).rejects.toThrow('Batch request "a" has no model');
+    });
+
+    it("throws BatchNotSupportedError listing batch-capable models", async () => {
+      const ns = new BatchNamespace([batchAdapter([spec("fast"), spec("live", false)])], PARSER);
+      const submission = ns.submit([request("a")], { model: "fake:live" });
+      await expect(submission).rejects.toBeInstanceOf(BatchNotSupportedError);
+      await expect(submission).rejects.toThrow("fake:fast");
+    });
+  });
+
+  describe("attach", () => {
+    it("re-attaches from a serialized ref", async () => {
+      const adapter = batchAdapter([spec("fast")]);
+      const ns = new BatchNamespace([adapter], PARSER);
+      const ref = { provider: "fake", model: "fast", batchId: "batch-9" };
+
+      const job = ns.attach(JSON.parse(JSON.stringify(ref)));
+
+      expect(job.batchId).toBe("batch-9");
+      expect(await ns.get(ref)).toEqual({ status: "in_progress" });
+      await ns.cancel(ref);
+      expect(adapter.cancelBatch).toHaveBeenCalledWith(ref);
+    });
+
+    it("throws for an unknown provider", () => {
+      const ns = new BatchNamespace([batchAdapter([spec("fast")])], PARSER);
+      expect(() => ns.attach({ provider: "gone", model: "fast", batchId: "b" })).toThrow(
+        BatchNotSupportedError,
+      );
+    });
+  });
+
+  it("lists and checks batch-capable models", () => {
+    const ns = new BatchNamespace([batchAdapter([spec("fast"), spec("live", false)])], PARSER);
+    expect(ns.listModels().map((s) => s.modelId)).toEqual(["fast"]);
+    expect(ns.supportsModel("fake:fast")).toBe(true);
+    expect(ns.supportsModel("fake:live")).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Batch namespace — `client.batch`.
+ *
+ * Mirrors the research namespace: dispatches to the first adapter (in
+ * priority order) that supports batches for the model, after validating the
+ * requests. Providers plug in via the optional batch methods on
+ * {@link ProviderAdapter}; batch support and pricing are catalog-driven
+ * (`ModelPricing.batchInput` / `batchOutput`).
+ *
+ * @example
+ * ```typescript
+ * const job = await client.batch.submit(
+ *   tickets.map((ticket) => ({
+ *     id: ticket.id,
+ *     messages: [{ role: "user", content: `Classify: ${ticket.text}` }],
+ *     maxTokens: 10,
+ *   })),
+ *   { model: "openai:gpt-5-mini" },
+ * );
+ * await saveRef(job.toRef());
+ *
+ * // Later, possibly in another process:
+ * const batch = client.batch.attach(await loadRef());
+ * await batch.wait();
+ * for await (const item of batch) {
+ *   console.log(item.id, item.text, item.cost);
+ * }
+ * ```
+ */
+
+import type { ModelSpec } from "../core/model-catalog.js";
+import type { ModelDescriptor, ModelIdentifierParser } from "../core/options.js";
+import type { ProviderAdapter } from "../providers/provider.js";
+import { BatchNotSupportedError, BatchValidationError } from "./errors.js";
+import { BatchJobImpl } from "./job.js";
+import type {
+  BatchJob,
+  BatchJobRef,
+  BatchRequest,
+  BatchStatusSnapshot,
+  BatchSubmitOptions,
+} from "./types.js";
+
+export class BatchNamespace {
+  constructor(
+    private readonly adapters: ProviderAdapter[],
+    private readonly parser: ModelIdentifierParser,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Validate and upload a batch of requests.
+   *
+   * @returns A handle to the created batch
+   * @throws BatchValidationError for empty batches, missing or duplicate ids, or mixed models
+   * @throws BatchNotSupportedError when no provider supports batches for the model
+   */
+  async submit(requests: BatchRequest[], options: BatchSubmitOptions = {}): Promise<BatchJob> {
+    const model = this.validate(requests, options);
+    const descriptor = this.parser.parse(model);
+    const adapter = this.findBatchAdapter(descriptor);
+    if (!adapter?.submitBatch) {
+      throw new BatchNotSupportedError(
+        `No provider supports batches for model "${model}". ` +
+          `Batch-capable models: ${this.describeAvailableModels()}`,
+      );
+    }
+
+    const spec = this.findSpec(adapter, descriptor.name);
+    const batchId = await adapter.submitBatch(requests, descriptor, spec, options.signal);
+
+    return new BatchJobImpl({
+      adapter,
+      spec,
+      ref: {
+        provider: adapter.providerId,
+        model: descriptor.name,
+        batchId,
+        requestCount: requests.length,
+        submittedAt: new Date(this.now()).toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Re-attach to a batch from a serialized ref. No network happens until the
+   * returned job is polled or iterated.
+   */
+  attach(ref: BatchJobRef): BatchJob {
+    const adapter = this.findAdapterByProviderId(ref.provider);
+    if (!adapter) {
+      throw new BatchNotSupportedError(
+        `No registered provider with id "${ref.provider}" to attach batch "${ref.batchId}".`,
+      );
+    }
+    return new BatchJobImpl({ adapter, ref, spec: this.findSpec(adapter, ref.model) });
+  }
+
+  /** One-shot status poll for a batch ref. */
+  async get(ref: BatchJobRef): Promise<BatchStatusSnapshot> {
+    return this.attach(ref).status();
+  }
+
+  /** Cancel a batch server-side. */
+  async cancel(ref: BatchJobRef): Promise<void> {
+    return this.attach(ref).cancel();
+  }
+
+  /** All models with batch support across registered providers. */
+  listModels(): ModelSpec[] {
+    const specs: ModelSpec[] = [];
+    for (const adapter of this.adapters) {
+      if (!adapter.supportsBatch) {
+        continue;
+      }
+      for (const spec of adapter.getModelSpecs?.() ?? []) {
+        if (adapter.supportsBatch(spec.modelId)) {
+          specs.push(spec);
+        }
+      }
+    }
+    return specs;
+  }
+
+  /** Whether any registered provider supports batches for this model. */
+  supportsModel(model: string): boolean {
+    try {
+      return this.findBatchAdapter(this.parser.parse(model)) !== undefined;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Checks ids and models before anything is uploaded.
+   * @returns The single model shared by all requests
+   */
+  private validate(requests: BatchRequest[], options: BatchSubmitOptions): string {
+    if (requests.length === 0) {
+      throw new BatchValidationError("A batch needs at least one request.");
+    }
+
+    const ids = new Set<string>();
+    let model: string | undefined;
+    for (const request of requests) {
+      if (!request.id) {
+        throw new BatchValidationError("Every batch request needs a non-empty id.");
+      }
+      if (ids.has(request.id)) {
+        throw new BatchValidationError(`Duplicate batch request id "${request.id}".`);
+      }
+      ids.add(request.id);
+
+      const requestModel = request.model ?? options.model;
+      if (!requestModel) {
+        throw new BatchValidationError(
+          `Batch request "${request.id}" has no model. Set it on the request or pass { model } to submit().`,
+        );
+      }
+      if (model !== undefined && requestModel !== model) {
+        throw new BatchValidationError(
+          `All requests in a batch must use the same model, got "${model}" and "${requestModel}". ` +
+            "Submit one batch per model.",
+        );
+      }
+      model = requestModel;
+    }
+
+    return model as string;
+  }
+
+  private findBatchAdapter(descriptor: ModelDescriptor): ProviderAdapter | undefined {
+    return this.adapters.find(
+      (adapter) =>
+        adapter.supports(descriptor) && (adapter.supportsBatch?.(descriptor.name) ?? false),
+    );
+  }
+
+  private findAdapterByProviderId(providerId: string): ProviderAdapter | undefined {
+    return this.adapters.find((adapter) => adapter.providerId === providerId);
+  }
+
+  private findSpec(adapter: ProviderAdapter, modelId: string): ModelSpec | undefined {
+    return adapter.getModelSpecs?.().find((spec) => spec.modelId === modelId);
+  }
+
+  private describeAvailableModels(): string {
+    const models = this.listModels();
+    if (models.length === 0) {
+      return "(none registered)";
+    }
+    return models.map((spec) => `${spec.provider}:${spec.modelId}`).join(", ");
+  }
+}
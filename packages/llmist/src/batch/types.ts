@@ -0,0 +1,168 @@
+/**
+ * Batch API — normalized types.
+ *
+ * Batch jobs run many independent completions offline (typically within 24
+ * hours) at a discount over interactive pricing. This module defines the
+ * provider-independent surface: the request shape, status snapshots, per-request
+ * results, and the serializable job reference used to check on a batch from
+ * another process (e.g. a nightly cron that submits and a morning one that
+ * fetches).
+ */
+
+import type { LLMGenerationOptions, TokenUsage } from "../core/options.js";
+
+/**
+ * Lifecycle status of a batch job.
+ *
+ * Superset of provider statuses:
+ * - OpenAI: `validating | in_progress | finalizing | completed | failed | expired | cancelling | cancelled`
+ * - Anthropic `processing_status`: `in_progress | canceling | ended`
+ * - Gemini `JobState`: `PENDING | RUNNING | SUCCEEDED | FAILED | CANCELLED | EXPIRED`
+ */
+export type BatchStatus =
+  | "validating"
+  | "in_progress"
+  | "finalizing"
+  | "completed"
+  | "failed"
+  | "expired"
+  | "cancelling"
+  | "cancelled";
+
+/** Statuses after which a batch no longer changes. */
+export const BATCH_TERMINAL_STATUSES: readonly BatchStatus[] = [
+  "completed",
+  "failed",
+  "expired",
+  "cancelled",
+];
+
+/**
+ * One request in a batch.
+ *
+ * Accepts the same generation options as `client.stream()`, plus a
+ * caller-chosen `id` used to match results back to requests (results are not
+ * guaranteed to come back in submission order).
+ */
+export interface BatchRequest extends Omit<LLMGenerationOptions, "model" | "signal"> {
+  /** Unique id within the batch (OpenAI `custom_id`, Anthropic `custom_id`). */
+  id: string;
+  /**
+   * Model identifier, optionally provider-prefixed. Optional when
+   * {@link BatchSubmitOptions.model} is set. All requests in a batch must use
+   * the same model.
+   */
+  model?: string;
+}
+
+/**
+ * Options for submitting a batch.
+ */
+export interface BatchSubmitOptions {
+  /** Default model for requests that don't set one. */
+  model?: string;
+  /** Aborts the submission upload. Has no effect once the batch is created. */
+  signal?: AbortSignal;
+}
+
+/** Per-request counts reported by the provider. */
+export interface BatchRequestCounts {
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+/** Snapshot returned by status polls. */
+export interface BatchStatusSnapshot {
+  status: BatchStatus;
+  /** Request counts, when the provider reports them. */
+  counts?: BatchRequestCounts;
+  /** ISO timestamp of batch creation, when known. */
+  createdAt?: string;
+  /** ISO timestamp the batch reached a terminal status, when known. */
+  endedAt?: string;
+  /** Provider error message for failed batches. */
+  error?: string;
+}
+
+/** Result of one request in a batch. */
+export interface BatchResultItem {
+  /** The request's {@link BatchRequest.id}. */
+  id: string;
+  /** Whether this request produced a completion. */
+  status: "succeeded" | "failed";
+  /** Completion text (empty for failed requests). */
+  text: string;
+  finishReason?: string | null;
+  usage?: TokenUsage;
+  /** Cost in USD at batch pricing, when the model's batch rates are cataloged. */
+  cost?: number;
+  /** Present when `status` is `"failed"`. */
+  error?: { message: string; code?: string };
+  /** Provider's original result payload. */
+  raw?: unknown;
+}
+
+/**
+ * JSON-serializable reference to a batch job.
+ *
+ * Round-trip contract: `JSON.parse(JSON.stringify(ref))` is a valid ref, and
+ * `client.batch.attach(ref)` returns a handle to the same batch — across
+ * process restarts.
+ */
+export interface BatchJobRef {
+  /** Adapter provider id (e.g. "openai", "anthropic", "mock"). */
+  provider: string;
+  /** Model id (unprefixed). */
+  model: string;
+  /** Server-side batch id. */
+  batchId: string;
+  /** Number of requests submitted, when known. */
+  requestCount?: number;
+  /** ISO timestamp of submission, when known. */
+  submittedAt?: string;
+}
+
+/** Options for {@link BatchJob.wait}. */
+export interface BatchWaitOptions {
+  /** Delay between status polls. Defaults to `BATCH_DEFAULT_POLL_INTERVAL_MS`. */
+  pollIntervalMs?: number;
+  /** Give up after this long. Defaults to `BATCH_DEFAULT_WAIT_TIMEOUT_MS`. */
+  timeoutMs?: number;
+  /** Stops waiting. The batch keeps running server-side. */
+  signal?: AbortSignal;
+  /** Called with every status snapshot (e.g. for progress output). */
+  onStatus?: (snapshot: BatchStatusSnapshot) => void;
+}
+
+/**
+ * Handle to a submitted batch.
+ *
+ * The job is itself async-iterable (equivalent to iterating
+ * {@link BatchJob.results}).
+ */
+export interface BatchJob extends AsyncIterable<BatchResultItem> {
+  /** Server-side batch id. */
+  readonly batchId: string;
+  /** Adapter provider id. */
+  readonly provider: string;
+  /** Model id (unprefixed). */
+  readonly model: string;
+  /** One-shot status poll. */
+  status(): Promise<BatchStatusSnapshot>;
+  /**
+   * Poll until the batch reaches a terminal status.
+   * @throws BatchTimeoutError when `timeoutMs` elapses first.
+   */
+  wait(options?: BatchWaitOptions): Promise<BatchStatusSnapshot>;
+  /**
+   * Per-request results, with cost at batch pricing. Available once the batch
+   * is terminal; partial results of cancelled or expired batches are included.
+   * @throws BatchNotReadyError while the batch is still running.
+   */
+  results(): AsyncIterable<BatchResultItem>;
+  /** Cancel the batch server-side. Requests already processed are still billed. */
+  cancel(): Promise<void>;
+  /** Serializable reference for a later `client.batch.attach(ref)`. */
+  toRef(): BatchJobRef;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { CACHE_BYTES_PER_TOKEN, computeCacheStats, mergeCacheStats } from "./cache-stats.js";
+
+describe("computeCacheStats", () => {
+  it("computes hit ratio, reused prefix and read savings", () => {
+    const stats = computeCacheStats(
+      { inputTokens: 10_000, cachedInputTokens: 7_500 },
+      { input: 3, cachedInput: 0.3 },
+    );
+
+    expect(stats).toEqual({
+      inputTokens: 10_000,
+      cachedInputTokens: 7_500,
+      cacheCreationInputTokens: 0,
+      hitRatio: 0.75,
+      reusedPrefixBytes: 7_500 * CACHE_BYTES_PER_TOKEN,
+      savingsUSD: expect.closeTo((7_500 * 2.7) / 1_000_000, 10),
+    });
+  });
+
+  it("subtracts the cache write premium from savings", () => {
+    const stats = computeCacheStats(
+      { inputTokens: 2_000_000, cacheCreationInputTokens: 1_000_000 },
+      { input: 3, cachedInput: 0.3, cacheWriteInput: 3.75 },
+    );
+
+    expect(stats.hitRatio).toBe(0);
+    expect(stats.savingsUSD).toBeCloseTo(-0.75);
+  });
+
+  it("reports no savings without pricing or input", () => {
+    expect(computeCacheStats({ inputTokens: 100, cachedInputTokens: 50 }).savingsUSD).toBe(0);
+    expect(computeCacheStats({ inputTokens: 0 }).hitRatio).toBe(0);
+  });
+});
+
+describe("mergeCacheStats", () => {
+  it("sums calls and weights the hit ratio by input tokens", () => {
+    const merged = mergeCacheStats([
+      computeCacheStats(
+        { inputTokens: 1_000, cachedInputTokens: 900 },
+        { input: 1, cachedInput: 0 },
+      ),
+      computeCacheStats({ inputTokens: 9_000 }, { input: 1 }),
+    ]);
+
+    expect(merged.inputTokens).toBe(10_000);
+    expect(merged.cachedInputTokens).toBe(900);
+    expect(merged.hitRatio).toBeCloseTo(0.09);
+    expect(merged.savingsUSD).toBeCloseTo(0.0009);
+  });
+
+  it("returns zeros for no calls", () => {
+    expect(mergeCacheStats([]).hitRatio).toBe(0);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Prompt cache statistics.
+ *
+ * Providers report how many input tokens were served from (or written to)
+ * their prompt cache in {@link TokenUsage}. This module turns those counts
+ * into numbers that say how well caching works: the hit ratio, roughly how
+ * much prompt prefix was reused, and what it saved compared to sending the
+ * same input uncached.
+ *
+ * @module core/cache-stats
+ */
+
+import type { ModelPricing } from "./model-catalog.js";
+import type { TokenUsage } from "./options.js";
+
+/** Typical bytes of prompt text per token, for estimating reused prefix size. */
+export const CACHE_BYTES_PER_TOKEN = 4;
+
+/** Prompt cache effectiveness for one LLM call, or summed over many. */
+export interface CacheStats {
+  /** Input tokens, including cached and cache-written ones */
+  inputTokens: number;
+  /** Input tokens served from cache */
+  cachedInputTokens: number;
+  /** Input tokens written to cache (Anthropic) */
+  cacheCreationInputTokens: number;
+  /** Share of input tokens served from cache (0–1) */
+  hitRatio: number;
+  /** Estimated bytes of prompt prefix reused from cache */
+  reusedPrefixBytes: number;
+  /**
+   * USD saved compared to uncached input: the cache-read discount minus the
+   * cache-write premium. Negative when writes cost more than reads saved;
+   * 0 when pricing is unknown.
+   */
+  savingsUSD: number;
+}
+
+/** Usage counts cache statistics are computed from. */
+export type CacheUsage = Pick<
+  TokenUsage,
+  "inputTokens" | "cachedInputTokens" | "cacheCreationInputTokens"
+>;
+
+/** Pricing fields cache savings are computed from (USD per 1M tokens). */
+export type CachePricing = Pick<ModelPricing, "input" | "cachedInput" | "cacheWriteInput">;
+
+/**
+ * Cache statistics for one call.
+ *
+ * @param usage - Token usage reported by the provider
+ * @param pricing - Model pricing; without it `savingsUSD` is 0
+ */
+export function computeCacheStats(usage: CacheUsage, pricing?: CachePricing): CacheStats {
+  const cachedInputTokens = usage.cachedInputTokens ?? 0;
+  const cacheCreationInputTokens = usage.cacheCreationInputTokens ?? 0;
+
+  let savingsUSD = 0;
+  if (pricing) {
+    const readDiscount = pricing.input - (pricing.cachedInput ?? pricing.input);
+    const writePremium = (pricing.cacheWriteInput ?? pricing.input) - pricing.input;
+    savingsUSD =
+      (cachedInputTokens * readDiscount - cacheCreationInputTokens * writePremium) / 1_000_000;
+  }
+
+  return {
+    inputTokens: usage.inputTokens,
+    cachedInputTokens,
+    cacheCreationInputTokens,
+    hitRatio: usage.inputTokens > 0 ? cachedInputTokens / usage.inputTokens : 0,
+    reusedPrefixBytes: cachedInputTokens * CACHE_BYTES_PER_TOKEN,
+    savingsUSD,
+  };
+}
+
+/**
+ * Sum cache statistics over several calls. The hit ratio is recomputed from
+ * the summed tokens, so large calls weigh more than small ones.
+ */
+export function mergeCacheStats(stats: Iterable<CacheStats>): CacheStats {
+  let inputTokens = 0;
+  let cachedInputTokens = 0;
+  let cacheCreationInputTokens = 0;
+  let reusedPrefixBytes = 0;
+  let savingsUSD = 0;
+
+  for (const entry of stats) {
+    inputTokens += entry.inputTokens;
+    cachedInputTokens += entry.cachedInputTokens;
+    cacheCreationInputTokens += entry.cacheCreationInputTokens;
+    reusedPrefixBytes += entry.reusedPrefixBytes;
+    savingsUSD += entry.savingsUSD;
+  }
+
+  return {
+    inputTokens,
+    cachedInputTokens,
+    cacheCreationInputTokens,
+    hitRatio: inputTokens > 0 ? cachedInputTokens / inputTokens : 0,
+    reusedPrefixBytes,
+    savingsUSD,
+  };
+}
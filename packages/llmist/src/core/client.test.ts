@@ -143,6 +143,58 @@ describe("LLMist Client", () => {
       expect(openaiModels[0].modelId).toBe("explicit-model");
     });
 
+    it("should create adapters for declared custom providers", () => {
+      const client = new LLMist({
+        autoDiscoverProviders: false,
+        customProviders: [
+          {
+            providerId: "mygateway",
+            baseURL: "https://gw.example.com/v1",
+            models: [{ modelId: "llama-70b", pricing: { input: 0.6, output: 0.8 } }],
+          },
+        ],
+      });
+
+      const cost = client.modelRegistry.estimateCost("mygateway:llama-70b", 1_000_000, 1_000_000);
+      expect(cost?.totalCost).toBeCloseTo(1.4);
+      expect(client.modelRegistry.listModels("mygateway")).toHaveLength(1);
+    });
+
+    it("should give adapters their configured key pools", () => {
+      const adapter = { ...createMockAdapter("test"), useKeyPool: vi.fn() };
+
+      new LLMist({
+        adapters: [adapter],
+        autoDiscoverProviders: false,
+        keyPools: { test: { keys: ["key-a", "key-b"], strategy: "least-throttled" } },
+      });
+
+      expect(adapter.useKeyPool).toHaveBeenCalledWith(
+        expect.objectContaining({ size: 2, strategy: "least-throttled" }),
+      );
+    });
+
+    it("should reject key pools for unknown or unsupported providers", () => {
+      const adapter = createMockAdapter("test");
+
+      expect(
+        () =>
+          new LLMist({
+            adapters: [adapter],
+            autoDiscoverProviders: false,
+            keyPools: { other: { keys: ["key"] } },
+          }),
+      ).toThrow("Key pool configured for provider other, which is not registered");
+      expect(
+        () =>
+          new LLMist({
+            adapters: [adapter],
+            autoDiscoverProviders: false,
+            keyPools: { test: { keys: ["key"] } },
+          }),
+      ).toThrow("Provider test does not support key pools");
+    });
+
     it("should throw error when no providers available", () => {
       expect(() => {
         new LLMist({
@@ -170,6 +222,97 @@ describe("LLMist Client", () => {
     });
   });
 
+  describe("supportsStructuredOutput()", () => {
+    it("should ask the resolved adapter with the model spec", () => {
+      const adapter: ProviderAdapter = {
+        ...createMockAdapter("mock"),
+        supportsStructuredOutput: vi.fn(() => true),
+      };
+      const client = new LLMist({ adapters: [adapter], autoDiscoverProviders: false });
+
+      expect(client.supportsStructuredOutput("mock:some-model")).toBe(true);
+      expect(adapter.supportsStructuredOutput).toHaveBeenCalledWith(
+        { provider: "mock", name: "some-model" },
+        undefined,
+      );
+    });
+
+    it("should return false when the adapter does not implement it", () => {
+      const client = new LLMist({
+        adapters: [createMockAdapter("mock")],
+        autoDiscoverProviders: false,
+      });
+
+      expect(client.supportsStructuredOutput("mock:some-model")).toBe(false);
+    });
+  });
+
+  describe("waitForModelDiscovery()", () => {
+    it("should register models discovered at runtime", async () => {
+      const discovered: ModelSpec = { ...mockModelSpec, provider: "local", modelId: "llama3.1:8b" };
+      const adapter: ProviderAdapter = {
+        ...createMockAdapter("local"),
+        discoverModelSpecs: vi.fn(async () => [discovered]),
+      };
+
+      const client = new LLMist({ adapters: [adapter], autoDiscoverProviders: false });
+      await client.waitForModelDiscovery();
+
+      expect(adapter.discoverModelSpecs).toHaveBeenCalledTimes(1);
+      expect(client.modelRegistry.getModelSpec("local:llama3.1:8b")).toEqual(discovered);
+    });
+
+    it("should keep custom models over discovered ones", async () => {
+      const custom: ModelSpec = { ...mockModelSpec, provider: "local", modelId: "shared" };
+      const adapter: ProviderAdapter = {
+        ...createMockAdapter("local"),
+        discoverModelSpecs: async () => [{ ...custom, displayName: "Discovered" }],
+      };
+
+      const client = new LLMist({
+        adapters: [adapter],
+        autoDiscoverProviders: false,
+        customModels: [{ ...custom, displayName: "Custom" }],
+      });
+      await client.waitForModelDiscovery();
+
+      expect(client.modelRegistry.getModelSpec("shared")?.displayName).toBe("Custom");
+    });
+
+    it("should pass discovered specs to the first stream() call", async () => {
+      const discovered: ModelSpec = { ...mockModelSpec, provider: "local", modelId: "llama3.1:8b" };
+      const adapter: ProviderAdapter = {
+        ...createMockAdapter("local"),
+        discoverModelSpecs: async () => [discovered],
+      };
+
+      const client = new LLMist({ adapters: [adapter], autoDiscoverProviders: false });
+      for await (const _chunk of client.stream({ model: "local:llama3.1:8b", messages: [] })) {
+        // consume
+      }
+
+      expect(adapter.stream).toHaveBeenCalledWith(
+        expect.any(Object),
+        { provider: "local", name: "llama3.1:8b" },
+        discovered,
+      );
+    });
+
+    it("should resolve even when discovery fails", async () => {
+      const adapter: ProviderAdapter = {
+        ...createMockAdapter("local"),
+        discoverModelSpecs: async () => {
+          throw new Error("connect ECONNREFUSED");
+        },
+      };
+
+      const client = new LLMist({ adapters: [adapter], autoDiscoverProviders: false });
+
+      await expect(client.waitForModelDiscovery()).resolves.toBeUndefined();
+      expect(client.modelRegistry.listModels("local")).toEqual([]);
+    });
+  });
+
   describe("stream()", () => {
     let client: LLMist;
     let mockAdapter: ProviderAdapter;
@@ -270,6 +413,128 @@ describe("LLMist Client", () => {
     });
   });
 
+  describe("stream() with fallbacks", () => {
+    const overloaded = () => Object.assign(new Error("overloaded"), { status: 529 });
+
+    const createFailingAdapter = (providerId: string, error: Error): ProviderAdapter => ({
+      providerId,
+      supports: (descriptor: ModelDescriptor) => descriptor.provider === providerId,
+      stream: vi.fn(() => {
+        // biome-ignore lint/correctness/useYield: intentionally throwing generator
+        return (async function* () {
+          throw error;
+        })() as LLMStream;
+      }),
+    });
+
+    const collect = async (stream: LLMStream) => {
+      const chunks = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    const messages: LLMMessage[] = [{ role: "user", content: "Hello" }];
+
+    it("should switch to the next model on a retryable error", async () => {
+      const primary = createFailingAdapter("primary", overloaded());
+      const backup = createMockAdapter("backup");
+      const client = new LLMist({
+        adapters: [primary, backup],
+        autoDiscoverProviders: false,
+        fallbacks: ["backup:model-b"],
+      });
+
+      const chunks = await collect(client.stream({ model: "primary:model-a", messages }));
+
+      expect(chunks).toEqual([{ type: "content_delta", text: "Hello" }]);
+      expect(backup.stream).toHaveBeenCalledWith(
+        expect.objectContaining({ model: "backup:model-b" }),
+        expect.objectContaining({ provider: "backup", name: "model-b" }),
+        undefined,
+      );
+    });
+
+    it("should not pass fallbackModels on to the adapter", async () => {
+      const backup = createMockAdapter("backup");
+      const client = new LLMist({ adapters: [backup], autoDiscoverProviders: false });
+
+      await collect(
+        client.stream({ model: "backup:model-b", messages, fallbackModels: ["backup:model-c"] }),
+      );
+
+      expect(vi.mocked(backup.stream).mock.calls[0][0]).not.toHaveProperty("fallbackModels");
+    });
+
+    it("should prefer per-request fallbackModels over client fallbacks", async () => {
+      const primary = createFailingAdapter("primary", overloaded());
+      const backup = createMockAdapter("backup");
+      const client = new LLMist({
+        adapters: [primary, backup],
+        autoDiscoverProviders: false,
+        fallbacks: ["backup:model-b"],
+      });
+
+      await expect(
+        collect(client.stream({ model: "primary:model-a", messages, fallbackModels: [] })),
+      ).rejects.toThrow("overloaded");
+      expect(backup.stream).not.toHaveBeenCalled();
+    });
+
+    it("should not switch on non-retryable errors", async () => {
+      const primary = createFailingAdapter(
+        "primary",
+        Object.assign(new Error("invalid api key"), { status: 401 }),
+      );
+      const backup = createMockAdapter("backup");
+      const client = new LLMist({
+        adapters: [primary, backup],
+        autoDiscoverProviders: false,
+        fallbacks: ["backup:model-b"],
+      });
+
+      await expect(collect(client.stream({ model: "primary:model-a", messages }))).rejects.toThrow(
+        "invalid api key",
+      );
+      expect(backup.stream).not.toHaveBeenCalled();
+    });
+
+    it("should not switch once output has been streamed", async () => {
+      const primary: ProviderAdapter = {
+        providerId: "primary",
+        supports: (descriptor: ModelDescriptor) => descriptor.provider === "primary",
+        stream: vi.fn(() => {
+          return (async function* () {
+            yield { text: "Hel" };
+            throw overloaded();
+          })() as LLMStream;
+        }),
+      };
+      const backup = createMockAdapter("backup");
+      const client = new LLMist({
+        adapters: [primary, backup],
+        autoDiscoverProviders: false,
+        fallbacks: ["backup:model-b"],
+      });
+
+      await expect(collect(client.stream({ model: "primary:model-a", messages }))).rejects.toThrow(
+        "overloaded",
+      );
+      expect(backup.stream).not.toHaveBeenCalled();
+    });
+
+    it("should resolve fallback aliases", () => {
+      const client = new LLMist({
+        adapters: [createMockAdapter("openai")],
+        autoDiscoverProviders: false,
+        fallbacks: ["gpt-4o"],
+      });
+
+      expect(client.fallbacks).toEqual(["openai:gpt-4o"]);
+    });
+  });
+
   describe("countTokens()", () => {
     it("should use provider token counting when available", async () => {
       const adapter = createMockAdapter("test", true, [mockModelSpec]);
@@ -385,18 +650,26 @@ describe("LLMist Client", () => {
       expect(mockGetEncoding).toHaveBeenCalled();
     });
 
-    it("should fall back to character-based estimation when tiktoken is unavailable", async () => {
-      // Force tiktoken to throw so the char-based branch is exercised
+    /**
+     * Client from fresh modules whose first tiktoken load throws, since loaded
+     * encodings are cached for the life of the module.
+     */
+    async function createClientWithoutTiktoken(): Promise<LLMist> {
+      vi.resetModules();
       mockGetEncoding.mockImplementationOnce(() => {
         throw new Error("tiktoken not available");
       });
+      const fresh = await import("./client.js");
 
-      const adapter = createMockAdapter("test", false, [mockModelSpec]);
-      const client = new LLMist({
-        adapters: [adapter],
+      return new fresh.LLMist({
+        adapters: [createMockAdapter("test", false, [mockModelSpec])],
         defaultProvider: "test",
         autoDiscoverProviders: false,
       });
+    }
+
+    it("should fall back to character-based estimation when tiktoken is unavailable", async () => {
+      const client = await createClientWithoutTiktoken();
 
       // CHARS_PER_TOKEN = 2, so 10 chars → Math.ceil(10 / 2) = 5
       const messages: LLMMessage[] = [{ role: "user", content: "HelloWorld" }];
@@ -407,16 +680,7 @@ describe("LLMist Client", () => {
     });
 
     it("should fall back to char-based estimation for array content when tiktoken is unavailable", async () => {
-      mockGetEncoding.mockImplementationOnce(() => {
-        throw new Error("tiktoken not available");
-      });
-
-      const adapter = createMockAdapter("test", false, [mockModelSpec]);
-      const client = new LLMist({
-        adapters: [adapter],
-        defaultProvider: "test",
-        autoDiscoverProviders: false,
-      });
+      const client = await createClientWithoutTiktoken();
 
       // "Hi" (2 chars) + "ok" (2 chars) = 4 chars → Math.ceil(4 / 2) = 2
       const messages: LLMMessage[] = [
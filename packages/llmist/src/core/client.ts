@@ -1,22 +1,37 @@
 import { AgentBuilder } from "../agent/builder.js";
+import { BatchNamespace } from "../batch/namespace.js";
+import { createLogger } from "../logging/logger.js";
+import { type CustomProviderConfig, createCustomProvider } from "../providers/custom-provider.js";
 import { discoverProviderAdapters } from "../providers/discovery.js";
+import { KeyPool, type KeyPoolConfig } from "../providers/key-pool.js";
 import type { ProviderAdapter } from "../providers/provider.js";
+import { AgenticResearch } from "../research/agentic.js";
 import { ResearchNamespace } from "../research/namespace.js";
-import { CHARS_PER_TOKEN } from "./constants.js";
+import type { ResearchSearchProvider } from "../research/web-search.js";
 import type { LLMMessage } from "./messages.js";
 import type { ModelSpec } from "./model-catalog.js";
 import { ModelRegistry } from "./model-registry.js";
+import { resolveModel } from "./model-shortcuts.js";
+import { EmbeddingNamespace } from "./namespaces/embeddings.js";
 import { ImageNamespace } from "./namespaces/image.js";
 import { SpeechNamespace } from "./namespaces/speech.js";
 import { TextNamespace } from "./namespaces/text.js";
+import { TokensNamespace } from "./namespaces/tokens.js";
+import { TranscriptionNamespace } from "./namespaces/transcription.js";
 import { VisionNamespace } from "./namespaces/vision.js";
-import type { LLMGenerationOptions, LLMStream, ModelDescriptor } from "./options.js";
+import type {
+  LLMGenerationOptions,
+  LLMStream,
+  ModelDescriptor,
+  ProviderCredentialsMap,
+} from "./options.js";
 import { ModelIdentifierParser } from "./options.js";
 import {
   complete as completeHelper,
   stream as streamHelper,
   type TextGenerationOptions,
 } from "./quick-methods.js";
+import { isRetryableError } from "./retry.js";
 
 export interface LLMistOptions {
   /**
@@ -56,6 +71,62 @@ export interface LLMistOptions {
    * ```
    */
   customModels?: ModelSpec[];
+  /**
+   * OpenAI-compatible providers to declare without writing an adapter
+   * (vLLM, LM Studio, Together, in-house gateways, ...).
+   * Declared models are registered with their pricing for cost tracking.
+   *
+   * @example
+   * ```ts
+   * new LLMist({
+   *   customProviders: [{
+   *     providerId: "mygateway",
+   *     baseURL: "https://llm.internal.example.com/v1",
+   *     apiKeyEnv: "MYGATEWAY_API_KEY",
+   *     models: [{ modelId: "llama-70b", contextWindow: 128_000, pricing: { input: 0.6, output: 0.8 } }]
+   *   }]
+   * });
+   * // then: .withModel("mygateway:llama-70b")
+   * ```
+   */
+  customProviders?: CustomProviderConfig[];
+  /**
+   * Models to switch to, in order, when a request fails with a retryable error
+   * (rate limits, overloaded or unavailable providers, timeouts).
+   * Accepts aliases and may span providers.
+   *
+   * `stream()` switches before any output has been streamed; agents switch
+   * after their retries for the current model are exhausted.
+   *
+   * @example
+   * ```ts
+   * new LLMist({ fallbacks: ["gpt-4o", "flash"] });
+   * ```
+   */
+  fallbacks?: string[];
+  /**
+   * Web search backend for agentic research. With it, `client.research`
+   * also works on models whose provider has no native research API
+   * (e.g. `research.start({ model: "sonnet", ... })`): an llmist agent
+   * searches, reads pages and writes the cited report.
+   */
+  researchSearch?: ResearchSearchProvider;
+  /**
+   * API keys to spread each provider's requests over, keyed by provider ID.
+   * Each key's rate limits are tracked separately, so a throttled key is
+   * skipped instead of slowing down every request. Requests with their own
+   * `credentials` for a provider bypass its pool.
+   *
+   * @example
+   * ```ts
+   * new LLMist({
+   *   keyPools: {
+   *     openai: { keys: [keyA, keyB, keyC], strategy: "least-throttled" },
+   *   },
+   * });
+   * ```
+   */
+  keyPools?: Record<string, KeyPoolConfig>;
 }
 
 export class LLMist {
@@ -63,17 +134,26 @@ export class LLMist {
   private readonly defaultProvider: string;
   readonly modelRegistry: ModelRegistry;
   private readonly adapters: ProviderAdapter[];
+  private readonly modelDiscovery: Promise<void>;
+  /** Fallback chain applied to requests that don't set `fallbackModels` */
+  readonly fallbacks: string[];
 
   // Namespaces for different generation types
   readonly text: TextNamespace;
   readonly image: ImageNamespace;
   readonly speech: SpeechNamespace;
+  readonly transcription: TranscriptionNamespace;
   readonly vision: VisionNamespace;
+  readonly embeddings: EmbeddingNamespace;
+  /** Token counting — provider-native with an offline tokenizer fallback. */
+  readonly tokens: TokensNamespace;
   /**
    * Deep research — long-running, server-side research jobs with cited reports.
    * @experimental Until all v1 provider tracks land (spec 002-deep-research).
    */
   readonly research: ResearchNamespace;
+  /** Batch API — bulk offline jobs at discounted pricing. */
+  readonly batch: BatchNamespace;
 
   constructor();
   constructor(adapters: ProviderAdapter[]);
@@ -84,6 +164,9 @@ export class LLMist {
     let defaultProvider: string | undefined;
     let autoDiscoverProviders = true;
     let customModels: ModelSpec[] = [];
+    let fallbacks: string[] = [];
+    let researchSearch: ResearchSearchProvider | undefined;
+    let keyPools: Record<string, KeyPoolConfig> = {};
 
     if (args.length === 0) {
       // Use defaults
@@ -94,9 +177,15 @@ export class LLMist {
       }
     } else if (typeof args[0] === "object" && args[0] !== null) {
       const options = args[0];
-      adapters = options.adapters ?? [];
+      adapters = [
+        ...(options.adapters ?? []),
+        ...(options.customProviders ?? []).map((config) => createCustomProvider(config)),
+      ];
       defaultProvider = options.defaultProvider;
       customModels = options.customModels ?? [];
+      fallbacks = options.fallbacks ?? [];
+      researchSearch = options.researchSearch;
+      keyPools = options.keyPools ?? {};
       if (typeof options.autoDiscoverProviders === "boolean") {
         autoDiscoverProviders = options.autoDiscoverProviders;
       }
@@ -128,6 +217,18 @@ export class LLMist {
     this.defaultProvider = resolvedDefaultProvider;
     this.parser = new ModelIdentifierParser(resolvedDefaultProvider);
     this.modelRegistry = new ModelRegistry();
+    this.fallbacks = fallbacks.map((model) => resolveModel(model));
+
+    for (const [providerId, config] of Object.entries(keyPools)) {
+      const adapter = this.adapters.find((candidate) => candidate.providerId === providerId);
+      if (!adapter) {
+        throw new Error(`Key pool configured for provider ${providerId}, which is not registered`);
+      }
+      if (!adapter.useKeyPool) {
+        throw new Error(`Provider ${providerId} does not support key pools`);
+      }
+      adapter.useKeyPool(new KeyPool(config));
+    }
 
     // Register all providers with the model registry
     for (const adapter of this.adapters) {
@@ -139,15 +240,74 @@ export class LLMist {
       this.modelRegistry.registerModels(customModels);
     }
 
+    // Discover runtime models (e.g., models pulled on a local Ollama server) in the background
+    this.modelDiscovery = this.discoverRuntimeModels();
+
     // Initialize generation namespaces
     this.text = new TextNamespace(this);
     this.image = new ImageNamespace(this.adapters, this.defaultProvider);
     this.speech = new SpeechNamespace(this.adapters, this.defaultProvider);
+    this.transcription = new TranscriptionNamespace(this.adapters);
     this.vision = new VisionNamespace(this);
-    this.research = new ResearchNamespace(this.adapters, this.parser);
+    this.embeddings = new EmbeddingNamespace(this.adapters);
+    this.tokens = new TokensNamespace(this.adapters, this.parser, this.modelRegistry);
+    this.research = new ResearchNamespace(
+      this.adapters,
+      this.parser,
+      Date.now,
+      undefined,
+      new AgenticResearch(this, researchSearch),
+    );
+    this.batch = new BatchNamespace(this.adapters, this.parser);
   }
 
   stream(options: LLMGenerationOptions): LLMStream {
+    const { fallbackModels, ...requestOptions } = options;
+    const fallbacks = (fallbackModels ?? this.fallbacks)
+      .map((model) => resolveModel(model))
+      .filter((model) => model !== options.model);
+
+    if (fallbacks.length === 0) {
+      return this.streamModel(requestOptions);
+    }
+
+    return this.streamWithFallbacks(requestOptions, fallbacks);
+  }
+
+  /**
+   * Stream from each model of the chain in turn until one starts producing output.
+   * Once a chunk has been yielded the stream is committed to that model, so later
+   * errors propagate as usual.
+   */
+  private async *streamWithFallbacks(
+    options: LLMGenerationOptions,
+    fallbacks: string[],
+  ): LLMStream {
+    const models = [options.model, ...fallbacks];
+
+    for (const [index, model] of models.entries()) {
+      let streamed = false;
+      try {
+        for await (const chunk of this.streamModel({ ...options, model })) {
+          streamed = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        const nextModel = models[index + 1];
+        if (streamed || !nextModel || !isRetryableError(error as Error)) {
+          throw error;
+        }
+        createLogger({ name: "llmist:client" }).warn("Model failed, switching to fallback", {
+          model,
+          fallback: nextModel,
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+
+  private streamModel(options: LLMGenerationOptions): LLMStream {
     const descriptor = this.parser.parse(options.model);
     const spec = this.modelRegistry.getModelSpec(descriptor.name);
     const adapter = this.resolveAdapter(descriptor);
@@ -158,9 +318,53 @@ export class LLMist {
       temperature: options.temperature ?? 0,
     };
 
+    // Models of discovering adapters may not be registered yet on the first call
+    if (!spec && adapter.discoverModelSpecs) {
+      return this.streamAfterDiscovery(adapter, optionsWithDefaults, descriptor);
+    }
+
     return adapter.stream(optionsWithDefaults, descriptor, spec);
   }
 
+  private async *streamAfterDiscovery(
+    adapter: ProviderAdapter,
+    options: LLMGenerationOptions,
+    descriptor: ModelDescriptor,
+  ): LLMStream {
+    await this.modelDiscovery;
+    yield* adapter.stream(options, descriptor, this.modelRegistry.getModelSpec(descriptor.name));
+  }
+
+  /**
+   * Check whether a model accepts `responseFormat: { type: "json_schema" }` natively.
+   *
+   * Used by `text.generateObject()` to choose between native structured output
+   * and schema instructions in the prompt.
+   *
+   * @param model - Model identifier (e.g., "openai:gpt-4o")
+   */
+  supportsStructuredOutput(model: string): boolean {
+    const descriptor = this.parser.parse(model);
+    const adapter = this.resolveAdapter(descriptor);
+    const spec = this.modelRegistry.getModelSpec(descriptor.name);
+    return adapter.supportsStructuredOutput?.(descriptor, spec) ?? false;
+  }
+
+  /**
+   * Check whether a model accepts native `tools` and streams back tool calls.
+   *
+   * Used by the `"auto"` gadget transport to choose between native function
+   * calling and the block format.
+   *
+   * @param model - Model identifier (e.g., "openai:gpt-4o")
+   */
+  supportsNativeTools(model: string): boolean {
+    const descriptor = this.parser.parse(model);
+    const adapter = this.resolveAdapter(descriptor);
+    const spec = this.modelRegistry.getModelSpec(descriptor.name);
+    return adapter.supportsNativeTools?.(descriptor, spec) ?? false;
+  }
+
   /**
    * Count tokens in messages for a given model.
    *
@@ -169,8 +373,11 @@ export class LLMist {
    * - Anthropic: Native messages.countTokens() API
    * - Gemini: SDK's countTokens() method
    *
-   * Falls back to character-based estimation (4 chars/token) if the provider
-   * doesn't support native token counting or if counting fails.
+   * Falls back to the bundled local tokenizer for the model (see
+   * `tokens.countLocal()`) if the provider doesn't support native token
+   * counting or if counting fails. With `credentials` for the model's
+   * provider, the local tokenizer is used so no request is made with the
+   * client's own key.
    *
    * This is useful for:
    * - Pre-request cost estimation
@@ -179,6 +386,7 @@ export class LLMist {
    *
    * @param model - Model identifier (e.g., "openai:gpt-4", "anthropic:claude-3-5-sonnet-20241022")
    * @param messages - Array of messages to count tokens for
+   * @param credentials - Per-request credentials the counted request will be made with
    * @returns Promise resolving to the estimated input token count
    *
    * @example
@@ -193,55 +401,60 @@ export class LLMist {
    * console.log(`Estimated tokens: ${tokenCount}`);
    * ```
    */
-  async countTokens(model: string, messages: LLMMessage[]): Promise<number> {
-    const descriptor = this.parser.parse(model);
-    const spec = this.modelRegistry.getModelSpec(descriptor.name);
-    const adapter = this.resolveAdapter(descriptor);
+  async countTokens(
+    model: string,
+    messages: LLMMessage[],
+    credentials?: ProviderCredentialsMap,
+  ): Promise<number> {
+    return this.tokens.count(messages, model, credentials);
+  }
+
+  /**
+   * Wait for runtime model discovery to finish.
+   *
+   * Adapters such as Ollama and llama.cpp list their models from the server
+   * after the client is created. Await this before reading `modelRegistry`
+   * when those models must be present (e.g., when listing models).
+   * Discovery failures are logged and never reject.
+   *
+   * @example
+   * ```typescript
+   * const client = new LLMist();
+   * await client.waitForModelDiscovery();
+   * console.log(client.modelRegistry.listModels("ollama"));
+   * ```
+   */
+  waitForModelDiscovery(): Promise<void> {
+    return this.modelDiscovery;
+  }
 
-    // Check if the provider supports token counting
-    if (adapter.countTokens) {
-      return adapter.countTokens(messages, descriptor, spec);
+  private async discoverRuntimeModels(): Promise<void> {
+    const discovering = this.adapters.filter((adapter) => adapter.discoverModelSpecs);
+    if (discovering.length === 0) {
+      return;
     }
 
-    // Fallback: use tiktoken o200k_base for approximate counting
-    try {
-      const { get_encoding } = await import("tiktoken");
-      const encoding = get_encoding("o200k_base");
-      try {
-        let tokenCount = 0;
-        for (const msg of messages) {
-          const content = msg.content;
-          if (typeof content === "string") {
-            tokenCount += encoding.encode(content).length;
-          } else if (Array.isArray(content)) {
-            for (const part of content) {
-              if (part.type === "text") {
-                tokenCount += encoding.encode(part.text).length;
-              }
-            }
-          }
-        }
-        return tokenCount;
-      } finally {
-        encoding.free();
+    const results = await Promise.allSettled(
+      discovering.map((adapter) => adapter.discoverModelSpecs?.() ?? Promise.resolve([])),
+    );
+
+    results.forEach((result, index) => {
+      const providerId = discovering[index].providerId;
+      if (result.status === "rejected") {
+        createLogger({ name: "llmist:client" }).warn("Model discovery failed", {
+          provider: providerId,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
+        return;
       }
-    } catch {
-      // Ultimate fallback if tiktoken isn't available: extract text and estimate
-      let totalChars = 0;
-      for (const msg of messages) {
-        const content = msg.content;
-        if (typeof content === "string") {
-          totalChars += content.length;
-        } else if (Array.isArray(content)) {
-          for (const part of content) {
-            if (part.type === "text") {
-              totalChars += part.text.length;
-            }
-          }
+
+      for (const spec of result.value) {
+        // Custom models take precedence over discovered ones
+        if (!this.modelRegistry.getModelSpec(spec.modelId)) {
+          this.modelRegistry.registerModel(spec);
         }
       }
-      return Math.ceil(totalChars / CHARS_PER_TOKEN);
-    }
+    });
   }
 
   private resolveAdapter(descriptor: ModelDescriptor): ProviderAdapter {
@@ -9,6 +9,8 @@
  */
 
 import type { GadgetMediaOutput, StoredMedia } from "../gadgets/types.js";
+import type { CacheStats } from "./cache-stats.js";
+import type { PlanTask } from "./execution-tree.js";
 import type { LLMMessage } from "./messages.js";
 import type { TokenUsage } from "./options.js";
 
@@ -94,6 +96,8 @@ export interface LLMCallCompleteEvent extends BaseExecutionEvent {
   finishReason?: string | null;
   /** Cost in USD */
   cost?: number;
+  /** Prompt cache statistics */
+  cache?: CacheStats;
   /** Accumulated thinking/reasoning content from reasoning models */
   thinkingContent?: string;
 }
@@ -109,6 +113,22 @@ export interface LLMCallErrorEvent extends BaseExecutionEvent {
   recovered: boolean;
 }
 
+/**
+ * Emitted when an LLM call switches to a fallback model after the current
+ * model failed with a retryable error.
+ */
+export interface LLMCallFallbackEvent extends BaseExecutionEvent {
+  type: "llm_call_fallback";
+  /** Iteration number within agent loop */
+  iteration: number;
+  /** Model that failed */
+  fromModel: string;
+  /** Model the call continues with */
+  toModel: string;
+  /** The error that triggered the switch */
+  error: Error;
+}
+
 // =============================================================================
 // Gadget Events
 // =============================================================================
@@ -255,6 +275,32 @@ export interface HumanInputRequiredEvent extends BaseExecutionEvent {
   invocationId: string;
 }
 
+/**
+ * Emitted when an agent creates or changes its plan.
+ */
+export interface PlanUpdatedEvent extends BaseExecutionEvent {
+  type: "plan_updated";
+  /** Tasks of the plan after the change */
+  tasks: PlanTask[];
+  /** Revision of the plan, starting at 1 */
+  revision: number;
+}
+
+/**
+ * Emitted when the final answer of an agent has been validated.
+ */
+export interface OutputValidationEvent extends BaseExecutionEvent {
+  type: "output_validation";
+  /** Iteration number within agent loop */
+  iteration: number;
+  /** Whether every validator passed */
+  valid: boolean;
+  /** Problems found by the validators (empty when valid) */
+  issues: string[];
+  /** Number of the answer within the run, starting at 1 */
+  attempt: number;
+}
+
 /**
  * Emitted when the execution stream completes.
  */
@@ -280,7 +326,8 @@ export type LLMEvent =
   | LLMCallStreamEvent
   | LLMResponseEndEvent
   | LLMCallCompleteEvent
-  | LLMCallErrorEvent;
+  | LLMCallErrorEvent
+  | LLMCallFallbackEvent;
 
 /**
  * All gadget-related events.
@@ -301,6 +348,7 @@ export type ExecutionEvent =
   | LLMResponseEndEvent
   | LLMCallCompleteEvent
   | LLMCallErrorEvent
+  | LLMCallFallbackEvent
   | GadgetCallEvent
   | GadgetStartEvent
   | GadgetCompleteEvent
@@ -310,6 +358,8 @@ export type ExecutionEvent =
   | ThinkingEvent
   | CompactionEvent
   | HumanInputRequiredEvent
+  | PlanUpdatedEvent
+  | OutputValidationEvent
   | StreamCompleteEvent;
 
 /**
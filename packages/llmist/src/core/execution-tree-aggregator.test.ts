@@ -4,6 +4,7 @@
 
 import { describe, expect, test } from "vitest";
 import type { GadgetMediaOutput } from "../gadgets/types.js";
+import { type CacheStats, computeCacheStats } from "./cache-stats.js";
 import { ExecutionTreeAggregator } from "./execution-tree-aggregator.js";
 
 // ---------------------------------------------------------------------------
@@ -18,6 +19,7 @@ interface MockNode {
   children: string[];
   cost?: number;
   usage?: { inputTokens: number; outputTokens: number; cachedInputTokens?: number };
+  cache?: CacheStats;
   media?: GadgetMediaOutput[];
 }
 
@@ -185,6 +187,66 @@ describe("ExecutionTreeAggregator", () => {
     });
   });
 
+  describe("getTotalCacheStats", () => {
+    test("merges per-call stats and falls back to usage without savings", () => {
+      const priced = computeCacheStats(
+        { inputTokens: 1_000, cachedInputTokens: 600 },
+        { input: 2, cachedInput: 1 },
+      );
+      const agg = buildAggregator({
+        llm_1: {
+          type: "llm_call",
+          completedAt: 1,
+          children: [],
+          usage: { inputTokens: 1_000, outputTokens: 10, cachedInputTokens: 600 },
+          cache: priced,
+        },
+        llm_2: {
+          type: "llm_call",
+          completedAt: 1,
+          children: [],
+          usage: { inputTokens: 1_000, outputTokens: 10, cachedInputTokens: 200 },
+        },
+        gadget_1: { type: "gadget", completedAt: 1, children: [] },
+      });
+
+      const stats = agg.getTotalCacheStats();
+      expect(stats.cachedInputTokens).toBe(800);
+      expect(stats.hitRatio).toBeCloseTo(0.4);
+      expect(stats.savingsUSD).toBeCloseTo(priced.savingsUSD);
+    });
+  });
+
+  describe("getSubtreeCacheStats", () => {
+    test("returns zeros for non-existent node", () => {
+      const agg = buildAggregator({});
+      expect(agg.getSubtreeCacheStats("missing").inputTokens).toBe(0);
+    });
+
+    test("only includes the node and its descendants", () => {
+      const agg = buildAggregator(
+        {
+          gadget_1: { type: "gadget", completedAt: 1, children: ["llm_2"] },
+          llm_1: {
+            type: "llm_call",
+            completedAt: 1,
+            children: [],
+            usage: { inputTokens: 500, outputTokens: 5, cachedInputTokens: 500 },
+          },
+          llm_2: {
+            type: "llm_call",
+            completedAt: 1,
+            children: [],
+            usage: { inputTokens: 100, outputTokens: 5, cachedInputTokens: 25 },
+          },
+        },
+        { gadget_1: ["llm_2"] },
+      );
+
+      expect(agg.getSubtreeCacheStats("gadget_1").hitRatio).toBeCloseTo(0.25);
+    });
+  });
+
   describe("getSubtreeMedia", () => {
     test("returns empty array for non-existent node", () => {
       const agg = buildAggregator({});
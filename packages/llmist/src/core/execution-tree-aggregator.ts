@@ -12,6 +12,7 @@
  */
 
 import type { GadgetMediaOutput } from "../gadgets/types.js";
+import { type CacheStats, computeCacheStats, mergeCacheStats } from "./cache-stats.js";
 
 // ---------------------------------------------------------------------------
 // Minimal node interfaces (structural — actual ExecutionNode objects satisfy these)
@@ -21,6 +22,7 @@ interface UsageSnapshot {
   inputTokens: number;
   outputTokens: number;
   cachedInputTokens?: number;
+  cacheCreationInputTokens?: number;
 }
 
 interface AggregableNode {
@@ -31,6 +33,8 @@ interface AggregableNode {
   cost?: number;
   /** Present only on llm_call nodes */
   usage?: UsageSnapshot;
+  /** Present only on completed llm_call nodes with usage */
+  cache?: CacheStats;
   /** Present only on gadget nodes */
   media?: GadgetMediaOutput[];
 }
@@ -93,6 +97,21 @@ export class ExecutionTreeAggregator {
     return { input, output, cached };
   }
 
+  /**
+   * Merge prompt cache statistics from an iterable of nodes.
+   * Calls completed without stats (e.g. recorded without pricing) count
+   * their usage with no savings.
+   */
+  private accumulateCacheStats(nodes: Iterable<AggregableNode>): CacheStats {
+    const stats: CacheStats[] = [];
+    for (const node of nodes) {
+      if (node.type === "llm_call" && node.usage) {
+        stats.push(node.cache ?? computeCacheStats(node.usage));
+      }
+    }
+    return mergeCacheStats(stats);
+  }
+
   // ===========================================================================
   // Cost
   // ===========================================================================
@@ -143,6 +162,27 @@ export class ExecutionTreeAggregator {
     return this.accumulateTokens([node, ...this.getDescendants(nodeId)]);
   }
 
+  // ===========================================================================
+  // Prompt cache
+  // ===========================================================================
+
+  /**
+   * Aggregate prompt cache statistics across the entire tree.
+   */
+  getTotalCacheStats(): CacheStats {
+    return this.accumulateCacheStats(this.nodes.values());
+  }
+
+  /**
+   * Aggregate prompt cache statistics for a subtree.
+   */
+  getSubtreeCacheStats(nodeId: string): CacheStats {
+    const node = this.nodes.get(nodeId);
+    if (!node) return mergeCacheStats([]);
+
+    return this.accumulateCacheStats([node, ...this.getDescendants(nodeId)]);
+  }
+
   // ===========================================================================
   // Media
   // ===========================================================================
@@ -4,7 +4,7 @@
 
 import { beforeEach, describe, expect, test } from "vitest";
 import type { ExecutionEvent } from "./execution-events.js";
-import { ExecutionTree } from "./execution-tree.js";
+import { ExecutionTree, type LLMCallNode } from "./execution-tree.js";
 
 describe("ExecutionTree", () => {
   let tree: ExecutionTree;
@@ -697,6 +697,116 @@ describe("ExecutionTree", () => {
     });
   });
 
+  describe("Snapshots", () => {
+    test("fromSnapshot restores nodes, lookups and costs", () => {
+      const llm = tree.addLLMCall({
+        iteration: 0,
+        model: "sonnet",
+        request: [{ role: "user", content: "Hi" }],
+      });
+      tree.completeLLMCall(llm.id, { response: "Calling", cost: 0.01 });
+      const gadget = tree.addGadget({
+        invocationId: "gc_1",
+        name: "Test",
+        parameters: { a: 1 },
+        parentId: llm.id,
+      });
+      tree.completeGadget(gadget.id, { result: "done", cost: 0.005 });
+
+      const restored = ExecutionTree.fromSnapshot(JSON.parse(JSON.stringify(tree.snapshot())));
+
+      expect(restored.getRoots().map((node) => node.id)).toEqual([llm.id]);
+      expect(restored.getChildren(llm.id).map((node) => node.id)).toEqual([gadget.id]);
+      expect(restored.getNodeByInvocationId("gc_1")?.result).toBe("done");
+      expect(restored.getTotalCost()).toBeCloseTo(0.015);
+    });
+
+    test("snapshot leaves out request messages", () => {
+      tree.addLLMCall({
+        iteration: 0,
+        model: "sonnet",
+        request: [{ role: "user", content: "Hi" }],
+      });
+
+      const [node] = tree.snapshot().nodes;
+
+      expect(node).not.toHaveProperty("request");
+      expect(tree.getRoots()[0]).toHaveProperty("request");
+    });
+
+    test("restored tree continues gadget node IDs", () => {
+      const first = tree.addGadget({ invocationId: "gc_1", name: "Test", parameters: {} });
+
+      const restored = ExecutionTree.fromSnapshot(tree.snapshot());
+      const next = restored.addGadget({ invocationId: "gc_1", name: "Test", parameters: {} });
+
+      expect(next.id).not.toBe(first.id);
+      expect(restored.getNode(first.id)).toBeDefined();
+    });
+  });
+
+  describe("Plans", () => {
+    const tasks = [
+      { id: "1", title: "Read", status: "done" as const, subtasks: [] },
+      { id: "2", title: "Write", status: "pending" as const, subtasks: [] },
+    ];
+
+    test("setPlan adds one root plan node and updates it in place", () => {
+      const events: ExecutionEvent[] = [];
+      tree.on("plan_updated", (event) => events.push(event));
+
+      tree.setPlan(tasks);
+      const node = tree.setPlan(tasks.map((task) => ({ ...task, status: "done" as const })));
+
+      expect(tree.getRoots().map((root) => root.id)).toEqual(["plan"]);
+      expect(node).toMatchObject({ id: "plan", type: "plan", depth: 0, revision: 2 });
+      expect(node.completedAt).not.toBeNull();
+      expect(events.map((event) => event.type === "plan_updated" && event.revision)).toEqual([
+        1, 2,
+      ]);
+    });
+
+    test("setPlan puts a subagent's plan under its gadget", () => {
+      const gadget = tree.addGadget({ invocationId: "gc_1", name: "Agent", parameters: {} });
+
+      const node = tree.setPlan(tasks, gadget.id);
+
+      expect(node).toMatchObject({ id: `plan_${gadget.id}`, parentId: gadget.id, depth: 1 });
+      expect(node.completedAt).toBeNull();
+      expect(tree.getChildren(gadget.id)).toEqual([node]);
+      expect(tree.getNodeCount()).toEqual({ llmCalls: 0, gadgets: 1 });
+    });
+  });
+
+  describe("Output Validation", () => {
+    test("recordOutputValidation stores the result on the LLM call and emits it", () => {
+      const events: ExecutionEvent[] = [];
+      tree.on("output_validation", (event) => events.push(event));
+      const llm = tree.addLLMCall({ iteration: 2, model: "sonnet" });
+
+      tree.recordOutputValidation(llm.id, {
+        valid: false,
+        issues: ["summary: Required"],
+        attempt: 1,
+      });
+
+      expect((tree.getNode(llm.id) as LLMCallNode).outputValidation).toEqual({
+        valid: false,
+        issues: ["summary: Required"],
+        attempt: 1,
+      });
+      expect(events).toMatchObject([
+        { type: "output_validation", nodeId: llm.id, iteration: 2, valid: false, attempt: 1 },
+      ]);
+    });
+
+    test("recordOutputValidation rejects unknown nodes", () => {
+      expect(() =>
+        tree.recordOutputValidation("nonexistent", { valid: true, issues: [], attempt: 1 }),
+      ).toThrow("LLM call node not found: nonexistent");
+    });
+  });
+
   describe("Edge Cases", () => {
     test("operations on non-existent node return gracefully", () => {
       expect(tree.getNode("nonexistent")).toBeUndefined();
@@ -9,6 +9,7 @@
  */
 
 import type { GadgetMediaOutput, StoredMedia } from "../gadgets/types.js";
+import type { CacheStats } from "./cache-stats.js";
 import type { LLMMessage } from "./messages.js";
 import type { TokenUsage } from "./options.js";
 
@@ -25,7 +26,7 @@ export type NodeId = string;
 /**
  * Node type discriminator.
  */
-export type ExecutionNodeType = "llm_call" | "gadget";
+export type ExecutionNodeType = "llm_call" | "gadget" | "plan";
 
 // =============================================================================
 // Execution Node Types
@@ -58,8 +59,10 @@ export interface LLMCallNode extends BaseExecutionNode {
   type: "llm_call";
   /** Iteration number within the agent loop (1-indexed for display) */
   iteration: number;
-  /** Model identifier */
+  /** Model identifier (the model that served the call, after any fallbacks) */
   model: string;
+  /** Fallback switches made during this call, in order */
+  fallbacks?: LLMCallFallback[];
   /** Request messages (set when call starts) */
   request?: LLMMessage[];
   /** Accumulated response text */
@@ -70,10 +73,40 @@ export interface LLMCallNode extends BaseExecutionNode {
   finishReason?: string | null;
   /** Cost in USD */
   cost?: number;
+  /** Prompt cache statistics (set on completion when usage is reported) */
+  cache?: CacheStats;
+  /** Validation of the final answer given by this call (see `withOutputValidator`) */
+  outputValidation?: LLMCallOutputValidation;
   /** Child node IDs (gadgets spawned by this LLM call) */
   children: NodeId[];
 }
 
+/**
+ * A switch from a failing model to a fallback model during an LLM call.
+ */
+export interface LLMCallFallback {
+  /** Model that failed */
+  fromModel: string;
+  /** Model the call continued with */
+  toModel: string;
+  /** Message of the error that triggered the switch */
+  error: string;
+  /** When the switch happened */
+  timestamp: number;
+}
+
+/**
+ * Validation of a final answer given by an LLM call.
+ */
+export interface LLMCallOutputValidation {
+  /** Whether every validator passed */
+  valid: boolean;
+  /** Problems found by the validators (empty when valid) */
+  issues: string[];
+  /** Number of the answer within the run, starting at 1 */
+  attempt: number;
+}
+
 /**
  * Gadget execution state.
  */
@@ -112,10 +145,40 @@ export interface GadgetNode extends BaseExecutionNode {
   isSubagent: boolean;
 }
 
+/**
+ * Status of a plan task.
+ */
+export type PlanTaskStatus = "pending" | "in_progress" | "done";
+
+/**
+ * A task of an agent's plan. IDs follow the position in the plan:
+ * "1", "2", ... for tasks and "1.1", "1.2", ... for their subtasks.
+ */
+export interface PlanTask {
+  id: string;
+  title: string;
+  status: PlanTaskStatus;
+  subtasks: PlanTask[];
+}
+
+/**
+ * The plan of an agent with planning enabled. There is one plan node per
+ * agent; it is updated in place whenever the plan changes.
+ */
+export interface PlanNode extends BaseExecutionNode {
+  type: "plan";
+  /** Current tasks of the plan */
+  tasks: PlanTask[];
+  /** Number of changes made to the plan, starting at 1 */
+  revision: number;
+  /** Plans have no children */
+  children: NodeId[];
+}
+
 /**
  * Union of all execution node types.
  */
-export type ExecutionNode = LLMCallNode | GadgetNode;
+export type ExecutionNode = LLMCallNode | GadgetNode | PlanNode;
 
 // =============================================================================
 // Node Creation Parameters
@@ -154,6 +217,8 @@ export interface CompleteLLMCallParams {
   finishReason?: string | null;
   /** Cost in USD */
   cost?: number;
+  /** Prompt cache statistics */
+  cache?: CacheStats;
   /** Accumulated thinking/reasoning content from reasoning models */
   thinkingContent?: string;
 }
@@ -175,6 +240,22 @@ export interface CompleteGadgetParams {
   storedMedia?: StoredMedia[];
 }
 
+/**
+ * Serializable state of an {@link ExecutionTree}, used by agent checkpoints.
+ *
+ * LLM call nodes don't carry their `request` messages: each request repeats
+ * the conversation up to that call, so keeping them would grow a checkpoint
+ * quadratically with the length of the run.
+ */
+export interface ExecutionTreeSnapshot {
+  /** All nodes, in the order they were added */
+  nodes: ExecutionNode[];
+  /** IDs of the root nodes */
+  rootIds: NodeId[];
+  /** Counter of generated gadget node IDs */
+  gadgetIdCounter: number;
+}
+
 // =============================================================================
 // Event Types (imported from execution-events.ts)
 // =============================================================================
@@ -250,6 +331,42 @@ export class ExecutionTree {
     );
   }
 
+  /**
+   * Recreate a tree from a snapshot taken with {@link snapshot}.
+   *
+   * The restored tree continues where the original left off: costs and token
+   * totals include the restored nodes, and new gadget node IDs don't collide
+   * with restored ones. Event listeners are not part of a snapshot.
+   */
+  static fromSnapshot(
+    snapshot: ExecutionTreeSnapshot,
+    options?: { baseDepth?: number; parentNodeId?: NodeId | null },
+  ): ExecutionTree {
+    const tree = new ExecutionTree(options);
+    for (const node of structuredClone(snapshot.nodes)) {
+      tree.nodes.set(node.id, node);
+      if (node.type === "gadget") {
+        tree.invocationIdToNodeId.set(node.invocationId, node.id);
+      }
+    }
+    tree.rootIds = [...snapshot.rootIds];
+    tree.gadgetIdCounter = snapshot.gadgetIdCounter;
+    return tree;
+  }
+
+  /**
+   * Take a serializable copy of all nodes, e.g. to checkpoint an agent.
+   * Request messages of LLM calls are left out (see {@link ExecutionTreeSnapshot}).
+   */
+  snapshot(): ExecutionTreeSnapshot {
+    const nodes = Array.from(this.nodes.values(), (node) => {
+      if (node.type !== "llm_call") return structuredClone(node);
+      const { request: _request, ...rest } = node;
+      return structuredClone(rest);
+    });
+    return { nodes, rootIds: [...this.rootIds], gadgetIdCounter: this.gadgetIdCounter };
+  }
+
   // ===========================================================================
   // Node ID Generation
   // ===========================================================================
@@ -395,6 +512,7 @@ export class ExecutionTree {
     if (params.usage) llmNode.usage = params.usage;
     if (params.finishReason !== undefined) llmNode.finishReason = params.finishReason;
     if (params.cost !== undefined) llmNode.cost = params.cost;
+    if (params.cache) llmNode.cache = params.cache;
 
     this.emit({
       type: "llm_call_complete",
@@ -403,6 +521,7 @@ export class ExecutionTree {
       usage: llmNode.usage,
       finishReason: llmNode.finishReason,
       cost: llmNode.cost,
+      cache: llmNode.cache,
       thinkingContent: params.thinkingContent,
     });
   }
@@ -427,6 +546,55 @@ export class ExecutionTree {
     });
   }
 
+  /**
+   * Record that an LLM call switched to a fallback model.
+   * The node's `model` is updated so cost and usage are attributed to the
+   * model that actually served the call.
+   */
+  recordModelFallback(nodeId: NodeId, toModel: string, error: Error): void {
+    const node = this.nodes.get(nodeId);
+    if (!node || node.type !== "llm_call") {
+      throw new Error(`LLM call node not found: ${nodeId}`);
+    }
+
+    const llmNode = node as LLMCallNode;
+    const fromModel = llmNode.model;
+    llmNode.model = toModel;
+    llmNode.fallbacks = [
+      ...(llmNode.fallbacks ?? []),
+      { fromModel, toModel, error: error.message, timestamp: Date.now() },
+    ];
+
+    this.emit({
+      type: "llm_call_fallback",
+      ...this.createBaseEventProps(node),
+      iteration: llmNode.iteration,
+      fromModel,
+      toModel,
+      error,
+    });
+  }
+
+  /**
+   * Record the validation of the final answer an LLM call gave.
+   */
+  recordOutputValidation(nodeId: NodeId, validation: LLMCallOutputValidation): void {
+    const node = this.nodes.get(nodeId);
+    if (!node || node.type !== "llm_call") {
+      throw new Error(`LLM call node not found: ${nodeId}`);
+    }
+
+    const llmNode = node as LLMCallNode;
+    llmNode.outputValidation = { ...validation, issues: [...validation.issues] };
+
+    this.emit({
+      type: "output_validation",
+      ...this.createBaseEventProps(node),
+      iteration: llmNode.iteration,
+      ...validation,
+    });
+  }
+
   /**
    * Add a new gadget node to the tree.
    */
@@ -597,6 +765,56 @@ export class ExecutionTree {
     });
   }
 
+  // ===========================================================================
+  // Plans
+  // ===========================================================================
+
+  /**
+   * Create or update the plan node of an agent. The plan node of a subagent
+   * is a child of its gadget; a root agent's plan is a root node.
+   * Completed once every task is done.
+   */
+  setPlan(tasks: PlanTask[], parentId: NodeId | null = this.parentNodeId): PlanNode {
+    const id = parentId ? `plan_${parentId}` : "plan";
+    const allDone = tasks.length > 0 && tasks.every((task) => task.status === "done");
+    let node = this.nodes.get(id) as PlanNode | undefined;
+
+    if (node) {
+      node.tasks = structuredClone(tasks);
+      node.revision++;
+    } else {
+      const parent = parentId ? this.nodes.get(parentId) : null;
+      node = {
+        id,
+        type: "plan",
+        parentId,
+        depth: parent ? parent.depth + 1 : this.baseDepth,
+        path: [...(parent?.path ?? []), id],
+        createdAt: Date.now(),
+        completedAt: null,
+        tasks: structuredClone(tasks),
+        revision: 1,
+        children: [],
+      };
+      this.nodes.set(id, node);
+      if (!parentId) {
+        this.rootIds.push(id);
+      } else if (parent) {
+        parent.children.push(id);
+      }
+    }
+    node.completedAt = allDone ? (node.completedAt ?? Date.now()) : null;
+
+    this.emit({
+      type: "plan_updated",
+      ...this.createBaseEventProps(node),
+      tasks: structuredClone(node.tasks),
+      revision: node.revision,
+    });
+
+    return node;
+  }
+
   // ===========================================================================
   // Text Events (pure notifications, not tree nodes)
   // ===========================================================================
@@ -749,6 +967,20 @@ export class ExecutionTree {
     return this.aggregator.getSubtreeTokens(nodeId);
   }
 
+  /**
+   * Get prompt cache statistics for entire tree (hit ratio, reused prefix, savings).
+   */
+  getTotalCacheStats(): CacheStats {
+    return this.aggregator.getTotalCacheStats();
+  }
+
+  /**
+   * Get prompt cache statistics for a subtree.
+   */
+  getSubtreeCacheStats(nodeId: NodeId): CacheStats {
+    return this.aggregator.getSubtreeCacheStats(nodeId);
+  }
+
   /**
    * Collect all media from a subtree.
    */
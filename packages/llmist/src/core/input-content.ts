@@ -64,10 +64,45 @@ export interface AudioContentPart extends BaseContentPart {
   source: AudioSource;
 }
 
+/**
+ * Native tool call made by the model, in assistant messages.
+ * Recorded by the native gadget transport and sent as the provider's own
+ * tool call block (`tool_use`, `tool_calls`, `functionCall`).
+ */
+export interface ToolCallContentPart extends BaseContentPart {
+  type: "tool_call";
+  /** Call ID, matched by the result's `toolCallId` */
+  id: string;
+  /** Tool (gadget) name */
+  name: string;
+  /** Arguments the tool was called with */
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Result of a native tool call, in user messages.
+ * Sent as the provider's own tool result block (`tool_result`, `tool`
+ * message, `functionResponse`).
+ */
+export interface ToolResultContentPart extends BaseContentPart {
+  type: "tool_result";
+  /** ID of the call this answers */
+  toolCallId: string;
+  /** Tool (gadget) name */
+  name: string;
+  /** Result text */
+  content: string;
+}
+
 /**
  * Union of all supported content part types.
  */
-export type ContentPart = TextContentPart | ImageContentPart | AudioContentPart;
+export type ContentPart =
+  | TextContentPart
+  | ImageContentPart
+  | AudioContentPart
+  | ToolCallContentPart
+  | ToolResultContentPart;
 
 // ============================================================================
 // Source Types
@@ -132,6 +167,20 @@ export function isAudioPart(part: ContentPart): part is AudioContentPart {
   return part.type === "audio";
 }
 
+/**
+ * Check if a content part is a native tool call.
+ */
+export function isToolCallPart(part: ContentPart): part is ToolCallContentPart {
+  return part.type === "tool_call";
+}
+
+/**
+ * Check if a content part is a native tool result.
+ */
+export function isToolResultPart(part: ContentPart): part is ToolResultContentPart {
+  return part.type === "tool_result";
+}
+
 /**
  * Check if an image source is base64.
  */
@@ -162,6 +211,38 @@ export function text(content: string): TextContentPart {
   return { type: "text", text: content };
 }
 
+/**
+ * Create a native tool call part.
+ *
+ * @example
+ * ```typescript
+ * const part = toolCall("call_1", "Calculator", { a: 5, b: 3 });
+ * ```
+ */
+export function toolCall(
+  id: string,
+  name: string,
+  args: Record<string, unknown>,
+): ToolCallContentPart {
+  return { type: "tool_call", id, name, arguments: args };
+}
+
+/**
+ * Create a native tool result part.
+ *
+ * @example
+ * ```typescript
+ * const part = toolResult("call_1", "Calculator", "8");
+ * ```
+ */
+export function toolResult(
+  toolCallId: string,
+  name: string,
+  content: string,
+): ToolResultContentPart {
+  return { type: "tool_result", toolCallId, name, content };
+}
+
 /**
  * Create an image content part from base64-encoded data.
  *
@@ -1,10 +1,13 @@
 /**
- * Types and interfaces for multimodal generation (image, speech).
+ * Types and interfaces for multimodal generation (image, speech), transcription
+ * and embeddings.
  *
  * These types support non-token-based billing models where costs are calculated
  * per-image, per-character, or per-second rather than per-token.
  */
 
+import type { AudioMimeType } from "./input-content.js";
+
 // ============================================================================
 // Image Generation Types
 // ============================================================================
@@ -46,6 +49,73 @@ export interface ImageGenerationOptions {
   responseFormat?: "url" | "b64_json";
 }
 
+/**
+ * Options for image editing requests.
+ *
+ * Edits an existing image from a text prompt. With a mask, only the
+ * transparent areas of the mask are repainted (inpainting).
+ */
+export interface ImageEditOptions {
+  /** Model to use (e.g., "gpt-image-1", "gemini-2.5-flash-image") */
+  model: string;
+
+  /**
+   * Source image(s) to edit.
+   * GPT Image and Gemini models accept several reference images; DALL-E 2 accepts one square PNG.
+   */
+  image: Buffer | Uint8Array | Array<Buffer | Uint8Array>;
+
+  /**
+   * PNG mask with the same dimensions as the first image.
+   * Fully transparent pixels mark the area to repaint.
+   * Only supported by models with `features.masking`.
+   */
+  mask?: Buffer | Uint8Array;
+
+  /** Text prompt describing the desired edit */
+  prompt: string;
+
+  /** Output size (same values as for generation) */
+  size?: string;
+
+  /** Image quality level (GPT Image: "low", "medium", "high") */
+  quality?: string;
+
+  /** Number of images to generate */
+  n?: number;
+
+  /** Response format (DALL-E 2 only; other models always return base64) */
+  responseFormat?: "url" | "b64_json";
+}
+
+/**
+ * Options for image variation requests.
+ *
+ * Creates new images that resemble the source image.
+ */
+export interface ImageVariationOptions {
+  /** Model to use (e.g., "dall-e-2", "gpt-image-1", "gemini-2.5-flash-image") */
+  model: string;
+
+  /** Source image to create variations of */
+  image: Buffer | Uint8Array;
+
+  /**
+   * Optional guidance for the variation.
+   * Ignored by DALL-E 2, which only creates unguided variations.
+   */
+  prompt?: string;
+
+  /** Output size (same values as for generation) */
+  size?: string;
+
+  /** Number of variations to generate */
+  n?: number;
+
+  /** Response format (DALL-E 2 only; other models always return base64) */
+  responseFormat?: "url" | "b64_json";
+}
+
 /**
  * A single generated image.
  */
@@ -155,6 +225,153 @@ export interface SpeechGenerationResult {
   format: AudioFormat;
 }
 
+// ============================================================================
+// Transcription (Speech-to-Text) Types
+// ============================================================================
+
+/**
+ * Timestamp detail for transcriptions.
+ * - "segment": start/end times per phrase (enough for subtitles)
+ * - "word": start/end times per word, in addition to segments
+ */
+export type TranscriptionTimestamps = "segment" | "word";
+
+/**
+ * Options for transcription requests.
+ */
+export interface TranscriptionOptions {
+  /** Model to use (e.g., "whisper-1", "gpt-4o-transcribe", "gemini-2.5-flash") */
+  model: string;
+
+  /** Audio data to transcribe */
+  audio: Buffer | Uint8Array;
+
+  /** MIME type of the audio (auto-detected from the data if omitted) */
+  mimeType?: AudioMimeType;
+
+  /** Spoken language as an ISO-639-1 code (e.g., "en", "de"). Detected if omitted. */
+  language?: string;
+
+  /** Optional text to guide style or vocabulary (names, jargon) */
+  prompt?: string;
+
+  /** Request timestamps. Omit for plain text only. */
+  timestamps?: TranscriptionTimestamps;
+
+  /**
+   * Audio duration in seconds, if known.
+   * Used for per-minute pricing when the provider doesn't report the duration.
+   */
+  durationSeconds?: number;
+}
+
+/**
+ * A transcribed segment (phrase) with its time range in seconds.
+ */
+export interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * A transcribed word with its time range in seconds.
+ */
+export interface TranscriptionWord {
+  start: number;
+  end: number;
+  word: string;
+}
+
+/**
+ * Usage information for a transcription.
+ */
+export interface TranscriptionUsage {
+  /** Duration of the transcribed audio in seconds, when known */
+  durationSeconds?: number;
+}
+
+/**
+ * Result of a transcription request.
+ */
+export interface TranscriptionResult {
+  /** Full transcript text */
+  text: string;
+
+  /** Model used for transcription */
+  model: string;
+
+  /** Detected or requested language, when the provider reports it */
+  language?: string;
+
+  /** Segment timestamps (when `timestamps` was requested) */
+  segments?: TranscriptionSegment[];
+
+  /** Word timestamps (when `timestamps: "word"` was requested) */
+  words?: TranscriptionWord[];
+
+  /** Usage information */
+  usage: TranscriptionUsage;
+
+  /** Estimated cost in USD (requires a known duration) */
+  cost?: number;
+}
+
+// ============================================================================
+// Embedding Types
+// ============================================================================
+
+/**
+ * Options for embedding requests.
+ */
+export interface EmbeddingOptions {
+  /** Model to use (e.g., "text-embedding-3-small", "gemini-embedding-001") */
+  model: string;
+
+  /** Text or texts to embed. Embeddings are returned in input order. */
+  input: string | string[];
+
+  /**
+   * Output dimensions, for models that support shortened embeddings.
+   * Defaults to the model's native dimensions.
+   */
+  dimensions?: number;
+
+  /**
+   * Maximum inputs per provider request.
+   * Larger inputs are split into batches automatically (default: model's `maxBatchSize`).
+   */
+  batchSize?: number;
+}
+
+/**
+ * Usage information for an embedding request.
+ */
+export interface EmbeddingUsage {
+  /** Number of input tokens (estimated when the provider doesn't report it) */
+  inputTokens: number;
+}
+
+/**
+ * Result of an embedding request.
+ */
+export interface EmbeddingResult {
+  /** One embedding vector per input, in input order */
+  embeddings: number[][];
+
+  /** Model used for embedding */
+  model: string;
+
+  /** Dimensions of each embedding vector */
+  dimensions: number;
+
+  /** Usage information */
+  usage: EmbeddingUsage;
+
+  /** Estimated cost in USD */
+  cost?: number;
+}
+
 // ============================================================================
 // Model Specification Types
 // ============================================================================
@@ -172,6 +389,12 @@ export interface ImageModelPricing {
    * Maps size (e.g., "1024x1024") to quality-based pricing or flat price.
    */
   bySize?: Record<string, Record<string, number> | number>;
+
+  /**
+   * Approximate cost per source image sent to an edit or variation
+   * (billed as input image tokens), on top of the output image price.
+   */
+  perInputImage?: number;
 }
 
 /**
@@ -230,8 +453,12 @@ export interface ImageModelSpec {
     textRendering?: boolean;
     /** Supports transparency */
     transparency?: boolean;
-    /** Supports image editing/inpainting */
+    /** Supports image editing (`image.edit()`) */
     editing?: boolean;
+    /** Accepts a mask for inpainting edits */
+    masking?: boolean;
+    /** Supports image variations (`image.variations()`) */
+    variations?: boolean;
     /** Supports video generation (Sora) */
     videoGeneration?: boolean;
     /** Supports extended duration video */
@@ -280,3 +507,75 @@ export interface SpeechModelSpec {
     voiceInstructions?: boolean;
   };
 }
+
+/**
+ * Specification for a transcription (speech-to-text) model.
+ */
+export interface TranscriptionModelSpec {
+  /** Provider identifier (e.g., "openai", "gemini") */
+  provider: string;
+
+  /** Model identifier */
+  modelId: string;
+
+  /** Human-readable display name */
+  displayName: string;
+
+  /** Pricing information (`perMinute` of input audio) */
+  pricing: SpeechModelPricing;
+
+  /** Maximum audio size per request in bytes */
+  maxFileSizeBytes: number;
+
+  /** Additional feature flags */
+  features?: {
+    /** Supports segment timestamps */
+    timestamps?: boolean;
+    /** Supports word timestamps */
+    wordTimestamps?: boolean;
+    /** Accepts a prompt to guide vocabulary and style */
+    prompt?: boolean;
+  };
+}
+
+/**
+ * Pricing structure for embedding models.
+ */
+export interface EmbeddingModelPricing {
+  /** Price per 1M input tokens in USD */
+  input: number;
+}
+
+/**
+ * Specification for an embedding model.
+ */
+export interface EmbeddingModelSpec {
+  /** Provider identifier (e.g., "openai", "gemini") */
+  provider: string;
+
+  /** Model identifier */
+  modelId: string;
+
+  /** Human-readable display name */
+  displayName: string;
+
+  /** Pricing information */
+  pricing: EmbeddingModelPricing;
+
+  /** Native output dimensions */
+  dimensions: number;
+
+  /** Maximum tokens per input text */
+  maxInputTokens: number;
+
+  /** Maximum number of inputs per request */
+  maxBatchSize: number;
+
+  /** Additional feature flags */
+  features?: {
+    /** Supports shortened embeddings via `dimensions` */
+    customDimensions?: boolean;
+    /** Number of supported languages (multilingual models) */
+    languages?: number;
+  };
+}
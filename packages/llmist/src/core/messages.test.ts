@@ -4,12 +4,21 @@ import { MathGadget, TestGadget } from "../../../testing/src/helpers.js";
 import { Gadget } from "../gadgets/typed-gadget.js";
 import type { GadgetMediaOutput, StoredMedia } from "../gadgets/types.js";
 import { GADGET_ARG_PREFIX, GADGET_END_PREFIX, GADGET_START_PREFIX } from "./constants.js";
-import { audioFromBase64, imageFromBase64, imageFromUrl, text } from "./input-content.js";
+import {
+  audioFromBase64,
+  imageFromBase64,
+  imageFromUrl,
+  text,
+  toolCall,
+  toolResult,
+} from "./input-content.js";
 import {
   extractMessageText,
   isLLMMessage,
+  type LLMMessage,
   LLMMessageBuilder,
   normalizeMessageContent,
+  replaceUnpairedToolParts,
 } from "./messages.js";
 import type { PromptTemplateConfig } from "./prompt-config.js";
 
@@ -466,6 +475,42 @@ describe("LLMMessageBuilder", () => {
       expect(typeof resultMessage?.content).toBe("string");
       expect(resultMessage?.content).toBe("Result (gc_empty): empty media result");
     });
+
+    it("records native gadget calls as tool call and result parts", () => {
+      const builder = new LLMMessageBuilder().withNativeGadgetCalls();
+      builder.addGadgetCallResult(
+        "MathGadget",
+        { a: 5, b: 3 },
+        "8",
+        "call_1",
+        undefined,
+        undefined,
+        undefined,
+        {
+          sticky: true,
+        },
+      );
+
+      expect(builder.build()).toEqual([
+        { role: "assistant", content: [toolCall("call_1", "MathGadget", { a: 5, b: 3 })] },
+        {
+          role: "user",
+          content: [toolResult("call_1", "MathGadget", "8")],
+          metadata: { sticky: true },
+        },
+      ]);
+    });
+
+    it("adds native result media after the tool result part", () => {
+      const builder = new LLMMessageBuilder().withNativeGadgetCalls();
+      const media: GadgetMediaOutput[] = [{ kind: "image", data: "abc", mimeType: "image/png" }];
+      builder.addGadgetCallResult("Screenshot", {}, "Captured", "call_2", media, ["media_1"]);
+
+      expect(builder.build()[1]?.content).toEqual([
+        toolResult("call_2", "Screenshot", "Captured\n[Media: media_1 (image)]"),
+        imageFromBase64("abc", "image/png"),
+      ]);
+    });
   });
 
   describe("formatBlockParameters (via addGadgetCallResult)", () => {
@@ -941,6 +986,37 @@ describe("extractText", () => {
   it("handles empty string", () => {
     expect(extractMessageText("")).toBe("");
   });
+
+  it("includes native tool calls and results as text", () => {
+    expect(extractMessageText([toolCall("call_1", "Add", { a: 1 })])).toBe(
+      'Called Add (call_1) with {"a":1}',
+    );
+    expect(extractMessageText([toolResult("call_1", "Add", "2")])).toBe("Result (call_1): 2");
+  });
+});
+
+describe("replaceUnpairedToolParts", () => {
+  const call: LLMMessage = { role: "assistant", content: [toolCall("call_1", "Add", { a: 1 })] };
+  const result: LLMMessage = { role: "user", content: [toolResult("call_1", "Add", "2")] };
+
+  it("keeps calls answered in the next message", () => {
+    const messages = [{ role: "user" as const, content: "Add" }, call, result];
+
+    expect(replaceUnpairedToolParts(messages)).toEqual(messages);
+  });
+
+  it("turns results without their call into text", () => {
+    expect(replaceUnpairedToolParts([result])).toEqual([
+      { role: "user", content: [text("Result (call_1): 2")] },
+    ]);
+  });
+
+  it("turns calls without their result into text", () => {
+    expect(replaceUnpairedToolParts([call, { role: "user", content: "Next" }])).toEqual([
+      { role: "assistant", content: [text('Called Add (call_1) with {"a":1}')] },
+      { role: "user", content: "Next" },
+    ]);
+  });
 });
 
 describe("normalizeContent", () => {
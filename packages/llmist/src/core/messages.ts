@@ -5,7 +5,8 @@ import type {
   AudioMimeType,
   ContentPart,
   ImageMimeType,
-  TextContentPart,
+  ToolCallContentPart,
+  ToolResultContentPart,
 } from "./input-content.js";
 import {
   audioFromBase64,
@@ -14,8 +15,12 @@ import {
   imageFromBase64,
   imageFromBuffer,
   imageFromUrl,
+  isToolCallPart,
+  isToolResultPart,
   text,
   toBase64,
+  toolCall,
+  toolResult,
 } from "./input-content.js";
 import type { PromptTemplateConfig } from "./prompt-config.js";
 import { DEFAULT_PROMPTS, resolvePromptTemplate, resolveRulesTemplate } from "./prompt-config.js";
@@ -51,7 +56,8 @@ export function normalizeMessageContent(content: MessageContent): ContentPart[]
 
 /**
  * Extract text from message content.
- * Concatenates all text parts in the content.
+ * Concatenates all text parts in the content; native tool calls and results
+ * are included as text.
  *
  * @param content - Message content (string or ContentPart[])
  * @returns Combined text from all text parts
@@ -61,16 +67,69 @@ export function extractMessageText(content: MessageContent): string {
     return content;
   }
   return content
-    .filter((part): part is TextContentPart => part.type === "text")
-    .map((part) => part.text)
+    .map((part) => {
+      if (part.type === "text") return part.text;
+      if (isToolCallPart(part) || isToolResultPart(part)) return toolPartText(part);
+      return "";
+    })
     .join("");
 }
 
+/**
+ * Turn native tool calls and results whose counterpart is not in the adjacent
+ * message into text. Providers reject a call that is not answered by the next
+ * message and a result whose call is not in the previous one, which
+ * compaction can leave behind.
+ *
+ * @param messages - Messages to send
+ * @returns The messages, with unpaired tool parts as text parts
+ */
+export function replaceUnpairedToolParts(messages: LLMMessage[]): LLMMessage[] {
+  return messages.map((message, index) => {
+    if (typeof message.content === "string") {
+      return message;
+    }
+
+    const previous = messages[index - 1];
+    const next = messages[index + 1];
+    const isPaired = (part: ToolCallContentPart | ToolResultContentPart): boolean =>
+      part.type === "tool_call"
+        ? message.role === "assistant" &&
+          next?.role === "user" &&
+          normalizeMessageContent(next.content).some(
+            (other) => isToolResultPart(other) && other.toolCallId === part.id,
+          )
+        : message.role === "user" &&
+          previous?.role === "assistant" &&
+          normalizeMessageContent(previous.content).some(
+            (other) => isToolCallPart(other) && other.id === part.toolCallId,
+          );
+    const isUnpaired = (part: ContentPart): part is ToolCallContentPart | ToolResultContentPart =>
+      (isToolCallPart(part) || isToolResultPart(part)) && !isPaired(part);
+
+    if (!message.content.some(isUnpaired)) {
+      return message;
+    }
+    return {
+      ...message,
+      content: message.content.map((part) => (isUnpaired(part) ? text(toolPartText(part)) : part)),
+    };
+  });
+}
+
+/** Text form of a native tool call or result. */
+function toolPartText(part: ToolCallContentPart | ToolResultContentPart): string {
+  return part.type === "tool_call"
+    ? `Called ${part.name} (${part.id}) with ${JSON.stringify(part.arguments)}`
+    : `Result (${part.toolCallId}): ${part.content}`;
+}
+
 export class LLMMessageBuilder {
   private readonly messages: LLMMessage[] = [];
   private startPrefix: string = GADGET_START_PREFIX;
   private endPrefix: string = GADGET_END_PREFIX;
   private argPrefix: string = GADGET_ARG_PREFIX;
+  private nativeGadgetCalls = false;
   private promptConfig: PromptTemplateConfig;
 
   constructor(promptConfig?: PromptTemplateConfig) {
@@ -90,6 +149,16 @@ export class LLMMessageBuilder {
     return this;
   }
 
+  /**
+   * Record gadget calls as native tool calls and results instead of block
+   * markers. Used with the native gadget transport, where the model calls
+   * gadgets as tools and must not pick up the block format from its history.
+   */
+  withNativeGadgetCalls(): this {
+    this.nativeGadgetCalls = true;
+    return this;
+  }
+
   addSystem(content: string, metadata?: Record<string, unknown>): this {
     this.messages.push({ role: "system", content, metadata });
     return this;
@@ -367,7 +436,7 @@ Produces: { "items": ["first", "second"] }`);
     return this;
   }
 
-  addAssistant(content: string, metadata?: Record<string, unknown>): this {
+  addAssistant(content: MessageContent, metadata?: Record<string, unknown>): this {
     this.messages.push({ role: "assistant", content, metadata });
     return this;
   }
@@ -491,6 +560,7 @@ Produces: { "items": ["first", "second"] }`);
   /**
    * Record a gadget execution result in the message history.
    * Creates an assistant message with the gadget invocation and a user message with the result.
+   * With native gadget calls, these hold a tool call and a tool result part.
    *
    * The invocationId is shown to the LLM so it can reference previous calls when building dependencies.
    *
@@ -516,38 +586,46 @@ Produces: { "items": ["first", "second"] }`);
     // history serializers ignore `LLMMessage.metadata` by design.
     metadata?: Record<string, unknown>,
   ) {
-    const paramStr = this.formatBlockParameters(parameters, "");
+    const hasMedia = media !== undefined && media.length > 0 && mediaIds && mediaIds.length > 0;
+    // Build text with ID references, including file paths if available
+    const idRefs = hasMedia
+      ? media
+          .map((m, i) => {
+            const path = storedMedia?.[i]?.path;
+            const pathInfo = path ? ` → saved to: ${path}` : "";
+            return `[Media: ${mediaIds[i]} (${m.kind})${pathInfo}]`;
+          })
+          .join("\n")
+      : undefined;
+    const mediaParts = hasMedia ? this.mediaParts(media) : [];
+
+    if (this.nativeGadgetCalls) {
+      // Tool call and tool result blocks, sent in the provider's own format
+      const content = idRefs ? `${result}\n${idRefs}` : result;
+      this.messages.push({
+        role: "assistant",
+        content: [toolCall(invocationId, gadget, parameters)],
+      });
+      this.messages.push({
+        role: "user",
+        content: [toolResult(invocationId, gadget, content), ...mediaParts],
+        metadata,
+      });
+      return this;
+    }
 
-    // Assistant message with gadget markers and invocation ID
+    // Assistant message with the call and its invocation ID
     this.messages.push({
       role: "assistant",
-      content: `${this.startPrefix}${gadget}:${invocationId}\n${paramStr}\n${this.endPrefix}`,
+      content: `${this.startPrefix}${gadget}:${invocationId}\n${this.formatBlockParameters(parameters, "")}\n${this.endPrefix}`,
     });
 
     // User message with result, including invocation ID so LLM can reference it
-    if (media && media.length > 0 && mediaIds && mediaIds.length > 0) {
-      // Build text with ID references, including file paths if available
-      const idRefs = media
-        .map((m, i) => {
-          const path = storedMedia?.[i]?.path;
-          const pathInfo = path ? ` → saved to: ${path}` : "";
-          return `[Media: ${mediaIds[i]} (${m.kind})${pathInfo}]`;
-        })
-        .join("\n");
+    if (idRefs) {
       const textWithIds = `Result (${invocationId}): ${result}\n${idRefs}`;
 
       // Build multimodal content: text + media content parts
-      const parts: ContentPart[] = [text(textWithIds)];
-      for (const item of media) {
-        // Convert based on media kind
-        if (item.kind === "image") {
-          parts.push(imageFromBase64(item.data, item.mimeType as ImageMimeType));
-        } else if (item.kind === "audio") {
-          parts.push(audioFromBase64(item.data, item.mimeType as AudioMimeType));
-        }
-        // Note: video and file types are stored but not included in LLM context
-        // as most providers don't support them yet
-      }
+      const parts: ContentPart[] = [text(textWithIds), ...mediaParts];
       this.messages.push({ role: "user", content: parts, metadata });
     } else {
       // Simple text result
@@ -561,6 +639,24 @@ Produces: { "items": ["first", "second"] }`);
     return this;
   }
 
+  /**
+   * Convert gadget media outputs to content parts.
+   * Video and file types are stored but not included in LLM context,
+   * as most providers don't support them yet.
+   */
+  private mediaParts(media: GadgetMediaOutput[]): ContentPart[] {
+    const parts: ContentPart[] = [];
+    for (const item of media) {
+      // Convert based on media kind
+      if (item.kind === "image") {
+        parts.push(imageFromBase64(item.data, item.mimeType as ImageMimeType));
+      } else if (item.kind === "audio") {
+        parts.push(audioFromBase64(item.data, item.mimeType as AudioMimeType));
+      }
+    }
+    return parts;
+  }
+
   /**
    * Format parameters as Block format with JSON Pointer paths.
    * Uses the configured argPrefix for consistency with system prompt.
@@ -5,6 +5,8 @@
  * context windows, pricing, features, and capabilities.
  */
 
+import type { TokenizerName } from "./tokenizer.js";
+
 export interface ModelPricing {
   /** Price per 1 million input tokens in USD */
   input: number;
@@ -16,6 +18,10 @@ export interface ModelPricing {
   cacheWriteInput?: number;
   /** Price per 1 million reasoning/thinking output tokens in USD (defaults to output price if unset) */
   reasoningOutput?: number;
+  /** Price per 1 million input tokens via the Batch API in USD (unset if the model has no batch support) */
+  batchInput?: number;
+  /** Price per 1 million output tokens via the Batch API in USD */
+  batchOutput?: number;
 }
 
 export interface ModelFeatures {
@@ -56,6 +62,8 @@ export interface ModelSpec {
   knowledgeCutoff: string;
   /** Supported features and capabilities */
   features: ModelFeatures;
+  /** Local tokenizer for offline token counting (inferred from the model name when unset) */
+  tokenizer?: TokenizerName;
   /** Additional metadata */
   metadata?: {
     /** Model family/series */
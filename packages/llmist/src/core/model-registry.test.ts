@@ -126,6 +126,13 @@ describe("ModelRegistry", () => {
 
       expect(spec).toBeUndefined();
     });
+
+    it("should match model IDs that contain colons", () => {
+      registry.registerModel(createModelSpec("llama3.1:8b", "ollama"));
+
+      expect(registry.getModelSpec("llama3.1:8b")?.provider).toBe("ollama");
+      expect(registry.getModelSpec("ollama:llama3.1:8b")?.provider).toBe("ollama");
+    });
   });
 
   describe("listModels()", () => {
@@ -116,6 +116,11 @@ export class ModelRegistry {
    * @returns ModelSpec if found, undefined otherwise
    */
   getModelSpec(modelId: string): ModelSpec | undefined {
+    // Model IDs may themselves contain colons (e.g., Ollama's "llama3.1:8b"),
+    // so try an exact match before treating the first segment as a provider
+    const exact = this.modelSpecs.find((model) => model.modelId === modelId);
+    if (exact) return exact;
+
     // Support provider-prefixed model IDs (e.g., "anthropic:claude-sonnet-4-5")
     // Strip the prefix to match against the registry's model IDs
     const normalizedId = stripProviderPrefix(modelId);
@@ -0,0 +1,195 @@
+/**
+ * Tests for EmbeddingNamespace
+ *
+ * Verifies embedding routing to providers, automatic batching and model listing.
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import type { ProviderAdapter } from "../../providers/provider.js";
+import type { EmbeddingModelSpec, EmbeddingOptions, EmbeddingResult } from "../media-types.js";
+import { EmbeddingNamespace } from "./embeddings.js";
+
+const mockEmbeddingSpec: EmbeddingModelSpec = {
+  provider: "test",
+  modelId: "test-embed",
+  displayName: "Test Embedding Model",
+  pricing: { input: 0.02 },
+  dimensions: 3,
+  maxInputTokens: 512,
+  maxBatchSize: 2,
+};
+
+/**
+ * Creates a mock provider adapter whose embeddings encode each input's length.
+ */
+function createMockAdapter(opts: {
+  providerId: string;
+  embeddingModels?: EmbeddingModelSpec[];
+}): ProviderAdapter & {
+  generateEmbeddings: ReturnType<typeof vi.fn>;
+} {
+  const { providerId, embeddingModels = [] } = opts;
+
+  return {
+    providerId,
+    supports: () => false,
+    stream: () => (async function* () {})(),
+    supportsEmbeddings: (modelId: string) => embeddingModels.some((m) => m.modelId === modelId),
+    getEmbeddingModelSpecs: () => embeddingModels,
+    generateEmbeddings: vi.fn(async (options: EmbeddingOptions): Promise<EmbeddingResult> => {
+      const inputs = options.input as string[];
+      return {
+        embeddings: inputs.map((input) => [input.length, 0, 1]),
+        model: options.model,
+        dimensions: 3,
+        usage: { inputTokens: inputs.length * 10 },
+        cost: inputs.length * 0.001,
+      };
+    }),
+  };
+}
+
+describe("EmbeddingNamespace", () => {
+  describe("create()", () => {
+    it("routes a single input to the provider as a one-element batch", async () => {
+      const adapter = createMockAdapter({
+        providerId: "test",
+        embeddingModels: [mockEmbeddingSpec],
+      });
+      const namespace = new EmbeddingNamespace([adapter]);
+
+      const result = await namespace.create({ model: "test-embed", input: "hello" });
+
+      expect(adapter.generateEmbeddings).toHaveBeenCalledWith({
+        model: "test-embed",
+        input: ["hello"],
+        dimensions: undefined,
+      });
+      expect(result).toEqual({
+        embeddings: [[5, 0, 1]],
+        model: "test-embed",
+        dimensions: 3,
+        usage: { inputTokens: 10 },
+        cost: 0.001,
+      });
+    });
+
+    it("splits inputs into batches of the model's maxBatchSize", async () => {
+      const adapter = createMockAdapter({
+        providerId: "test",
+        embeddingModels: [mockEmbeddingSpec],
+      });
+      const namespace = new EmbeddingNamespace([adapter]);
+
+      const result = await namespace.create({
+        model: "test-embed",
+        input: ["a", "bb", "ccc", "dddd", "eeeee"],
+      });
+
+      expect(adapter.generateEmbeddings).toHaveBeenCalledTimes(3);
+      expect(adapter.generateEmbeddings.mock.calls.map(([options]) => options.input)).toEqual([
+        ["a", "bb"],
+        ["ccc", "dddd"],
+        ["eeeee"],
+      ]);
+      expect(result.embeddings.map((embedding) => embedding[0])).toEqual([1, 2, 3, 4, 5]);
+      expect(result.usage.inputTokens).toBe(50);
+      expect(result.cost).toBeCloseTo(0.005);
+    });
+
+    it("uses batchSize over the model's limit", async () => {
+      const adapter = createMockAdapter({
+        providerId: "test",
+        embeddingModels: [mockEmbeddingSpec],
+      });
+      const namespace = new EmbeddingNamespace([adapter]);
+
+      await namespace.create({ model: "test-embed", input: ["a", "b", "c"], batchSize: 1 });
+
+      expect(adapter.generateEmbeddings).toHaveBeenCalledTimes(3);
+    });
+
+    it("passes dimensions through to every batch", async () => {
+      const adapter = createMockAdapter({
+        providerId: "test",
+        embeddingModels: [mockEmbeddingSpec],
+      });
+      const namespace = new EmbeddingNamespace([adapter]);
+
+      await namespace.create({ model: "test-embed", input: ["a", "b", "c"], dimensions: 256 });
+
+      for (const [options] of adapter.generateEmbeddings.mock.calls) {
+        expect(options.dimensions).toBe(256);
+      }
+    });
+
+    it("returns an empty result without calling the provider for empty input", async () => {
+      const adapter = createMockAdapter({
+        providerId: "test",
+        embeddingModels: [mockEmbeddingSpec],
+      });
+      const namespace = new EmbeddingNamespace([adapter]);
+
+      const result = await namespace.create({ model: "test-embed", input: [] });
+
+      expect(adapter.generateEmbeddings).not.toHaveBeenCalled();
+      expect(result.embeddings).toEqual([]);
+      expect(result.dimensions).toBe(3);
+      expect(result.cost).toBeUndefined();
+    });
+
+    it("rejects an invalid batchSize", async () => {
+      const adapter = createMockAdapter({
+        providerId: "test",
+        embeddingModels: [mockEmbeddingSpec],
+      });
+      const namespace = new EmbeddingNamespace([adapter]);
+
+      await expect(
+        namespace.create({ model: "test-embed", input: ["a"], batchSize: 0 }),
+      ).rejects.toThrow("batchSize must be a positive integer");
+    });
+
+    it("throws with available models when no provider supports the model", async () => {
+      const adapter = createMockAdapter({
+        providerId: "test",
+        embeddingModels: [mockEmbeddingSpec],
+      });
+      const namespace = new EmbeddingNamespace([adapter]);
+
+      await expect(namespace.create({ model: "unknown-embed", input: "hello" })).rejects.toThrow(
+        'No provider supports embeddings for model "unknown-embed". Available embedding models: test-embed',
+      );
+    });
+  });
+
+  describe("listModels()", () => {
+    it("combines embedding models from all providers", () => {
+      const namespace = new EmbeddingNamespace([
+        createMockAdapter({ providerId: "a", embeddingModels: [mockEmbeddingSpec] }),
+        createMockAdapter({
+          providerId: "b",
+          embeddingModels: [{ ...mockEmbeddingSpec, provider: "b", modelId: "b-embed" }],
+        }),
+        {
+          providerId: "c",
+          supports: () => false,
+          stream: () => (async function* () {})(),
+        },
+      ]);
+
+      expect(namespace.listModels().map((m) => m.modelId)).toEqual(["test-embed", "b-embed"]);
+    });
+  });
+
+  describe("supportsModel()", () => {
+    it("checks provider support for the model", () => {
+      const namespace = new EmbeddingNamespace([
+        createMockAdapter({ providerId: "test", embeddingModels: [mockEmbeddingSpec] }),
+      ]);
+
+      expect(namespace.supportsModel("test-embed")).toBe(true);
+      expect(namespace.supportsModel("gpt-4o")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Embeddings Namespace
+ *
+ * Provides text embedding methods for retrieval (RAG), clustering and similarity search.
+ *
+ * @example
+ * ```typescript
+ * const llmist = new LLMist();
+ *
+ * const result = await llmist.embeddings.create({
+ *   model: "text-embedding-3-small",
+ *   input: ["First document", "Second document"],
+ * });
+ *
+ * console.log(result.embeddings.length); // 2
+ * console.log("Cost:", result.cost);
+ * ```
+ */
+
+import type { ProviderAdapter } from "../../providers/provider.js";
+import type { EmbeddingModelSpec, EmbeddingOptions, EmbeddingResult } from "../media-types.js";
+
+export class EmbeddingNamespace {
+  constructor(private readonly adapters: ProviderAdapter[]) {}
+
+  /**
+   * Embed one or more texts.
+   *
+   * Inputs larger than the model's batch limit (or `options.batchSize`) are
+   * split into sequential provider requests; embeddings, usage and cost are
+   * combined in input order.
+   *
+   * @param options - Embedding options
+   * @returns Promise resolving to the embeddings with usage and cost
+   * @throws Error if no provider supports embeddings for the model
+   */
+  async create(options: EmbeddingOptions): Promise<EmbeddingResult> {
+    const modelId = options.model;
+
+    const adapter = this.findEmbeddingAdapter(modelId);
+    if (!adapter || !adapter.generateEmbeddings) {
+      throw new Error(
+        `No provider supports embeddings for model "${modelId}". ` +
+          `Available embedding models: ${this.listModels()
+            .map((m) => m.modelId)
+            .join(", ")}`,
+      );
+    }
+
+    const inputs = Array.isArray(options.input) ? options.input : [options.input];
+    const spec = adapter.getEmbeddingModelSpecs?.().find((m) => m.modelId === modelId);
+    const batchSize = options.batchSize ?? spec?.maxBatchSize ?? inputs.length;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`Embedding batchSize must be a positive integer, got ${batchSize}`);
+    }
+
+    const result: EmbeddingResult = {
+      embeddings: [],
+      model: modelId,
+      dimensions: options.dimensions ?? spec?.dimensions ?? 0,
+      usage: { inputTokens: 0 },
+    };
+
+    for (let start = 0; start < inputs.length; start += batchSize) {
+      const batch = await adapter.generateEmbeddings({
+        model: modelId,
+        input: inputs.slice(start, start + batchSize),
+        dimensions: options.dimensions,
+      });
+
+      result.embeddings.push(...batch.embeddings);
+      result.dimensions = batch.dimensions;
+      result.usage.inputTokens += batch.usage.inputTokens;
+      if (batch.cost !== undefined) {
+        result.cost = (result.cost ?? 0) + batch.cost;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * List all available embedding models.
+   */
+  listModels(): EmbeddingModelSpec[] {
+    const models: EmbeddingModelSpec[] = [];
+    for (const adapter of this.adapters) {
+      if (adapter.getEmbeddingModelSpecs) {
+        models.push(...adapter.getEmbeddingModelSpecs());
+      }
+    }
+    return models;
+  }
+
+  /**
+   * Check if a model is supported for embeddings.
+   */
+  supportsModel(modelId: string): boolean {
+    return this.findEmbeddingAdapter(modelId) !== undefined;
+  }
+
+  private findEmbeddingAdapter(modelId: string): ProviderAdapter | undefined {
+    return this.adapters.find((adapter) => adapter.supportsEmbeddings?.(modelId) ?? false);
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Tests for ImageNamespace
  *
- * Verifies image generation routing to providers and model listing.
+ * Verifies image generation, editing and variation routing to providers and model listing.
  */
 
 import { describe, expect, it, vi } from "vitest";
@@ -193,6 +193,100 @@ describe("ImageNamespace", () => {
     });
   });
 
+  describe("edit()", () => {
+    const editSpec: ImageModelSpec = {
+      ...mockImageSpec,
+      modelId: "test-edit-model",
+      features: { editing: true, variations: true },
+    };
+    const result: ImageGenerationResult = {
+      images: [{ b64Json: "aW1n" }],
+      model: "test-edit-model",
+      usage: { imagesGenerated: 1, size: "1024x1024", quality: "standard" },
+      cost: 0.05,
+    };
+
+    function createEditAdapter(specs: ImageModelSpec[]): ProviderAdapter & {
+      editImage: ReturnType<typeof vi.fn>;
+      generateImageVariations: ReturnType<typeof vi.fn>;
+    } {
+      return {
+        ...createMockAdapter({ providerId: "test", supportsImage: true, imageModels: specs }),
+        editImage: vi.fn(async () => result),
+        generateImageVariations: vi.fn(async () => result),
+      };
+    }
+
+    it("routes edits to models that support editing", async () => {
+      const adapter = createEditAdapter([editSpec]);
+      const namespace = new ImageNamespace([adapter], "test");
+      const options = { model: "test-edit-model", image: Buffer.from("png"), prompt: "Add a hat" };
+
+      await expect(namespace.edit(options)).resolves.toBe(result);
+      expect(adapter.editImage).toHaveBeenCalledWith(options);
+    });
+
+    it("rejects edits for models without editing support", async () => {
+      const adapter = createEditAdapter([editSpec, mockImageSpec]);
+      const namespace = new ImageNamespace([adapter], "test");
+
+      await expect(
+        namespace.edit({
+          model: "test-image-model",
+          image: Buffer.from("png"),
+          prompt: "Add a hat",
+        }),
+      ).rejects.toThrow(
+        'Model "test-image-model" does not support image editing. Models with editing: test-edit-model',
+      );
+      expect(adapter.editImage).not.toHaveBeenCalled();
+    });
+
+    it("rejects masks for models without masking support", async () => {
+      const adapter = createEditAdapter([editSpec]);
+      const namespace = new ImageNamespace([adapter], "test");
+
+      await expect(
+        namespace.edit({
+          model: "test-edit-model",
+          image: Buffer.from("png"),
+          mask: Buffer.from("mask"),
+          prompt: "Add a hat",
+        }),
+      ).rejects.toThrow('Model "test-edit-model" does not support masks');
+    });
+
+    it("routes variations to models that support them", async () => {
+      const adapter = createEditAdapter([editSpec]);
+      const namespace = new ImageNamespace([adapter], "test");
+
+      await namespace.variations({ model: "test-edit-model", image: Buffer.from("png"), n: 2 });
+
+      expect(adapter.generateImageVariations).toHaveBeenCalledWith({
+        model: "test-edit-model",
+        image: Buffer.from("png"),
+        n: 2,
+      });
+    });
+
+    it("rejects variations for models without variation support", async () => {
+      const adapter = createEditAdapter([mockImageSpec]);
+      const namespace = new ImageNamespace([adapter], "test");
+
+      await expect(
+        namespace.variations({ model: "test-image-model", image: Buffer.from("png") }),
+      ).rejects.toThrow('Model "test-image-model" does not support image variations');
+    });
+
+    it("throws when no provider supports the model", async () => {
+      const namespace = new ImageNamespace([createEditAdapter([editSpec])], "test");
+
+      await expect(
+        namespace.edit({ model: "unknown", image: Buffer.from("png"), prompt: "Add a hat" }),
+      ).rejects.toThrow('No provider supports image generation for model "unknown"');
+    });
+  });
+
   describe("listModels()", () => {
     it("returns empty array when no adapters have image models", () => {
       const adapter = createMockAdapter({ providerId: "test" });
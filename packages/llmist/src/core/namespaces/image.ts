@@ -1,7 +1,7 @@
 /**
  * Image Generation Namespace
  *
- * Provides image generation methods.
+ * Provides image generation, editing and variation methods.
  *
  * @example
  * ```typescript
@@ -16,14 +16,23 @@
  *
  * console.log(result.images[0].url);
  * console.log("Cost:", result.cost);
+ *
+ * const edited = await llmist.image.edit({
+ *   model: "gpt-image-1",
+ *   image: fs.readFileSync("room.png"),
+ *   mask: fs.readFileSync("room-mask.png"),
+ *   prompt: "Add a sunlit indoor lounge area with a pool",
+ * });
  * ```
  */
 
 import type { ProviderAdapter } from "../../providers/provider.js";
 import type {
+  ImageEditOptions,
   ImageGenerationOptions,
   ImageGenerationResult,
   ImageModelSpec,
+  ImageVariationOptions,
 } from "../media-types.js";
 
 export class ImageNamespace {
@@ -56,6 +65,60 @@ export class ImageNamespace {
     return adapter.generateImage(options);
   }
 
+  /**
+   * Edit existing image(s) from a text prompt.
+   *
+   * Pass a `mask` to repaint only its transparent areas (inpainting).
+   *
+   * @param options - Image edit options
+   * @returns Promise resolving to the edited images and cost
+   * @throws Error if the model doesn't support editing, or masks when one is given
+   */
+  async edit(options: ImageEditOptions): Promise<ImageGenerationResult> {
+    const { adapter, spec } = this.resolveImageModel(options.model);
+
+    // Adapters without a model catalog (e.g. mocks) are trusted to handle the call
+    if (!adapter.editImage || (spec && !spec.features?.editing)) {
+      throw new Error(
+        `Model "${options.model}" does not support image editing. ` +
+          `Models with editing: ${this.listModels()
+            .filter((m) => m.features?.editing)
+            .map((m) => m.modelId)
+            .join(", ")}`,
+      );
+    }
+    if (options.mask && spec && !spec.features?.masking) {
+      throw new Error(
+        `Model "${options.model}" does not support masks. Describe the area to change in the prompt instead.`,
+      );
+    }
+
+    return adapter.editImage(options);
+  }
+
+  /**
+   * Create variations of an existing image.
+   *
+   * @param options - Image variation options
+   * @returns Promise resolving to the variations and cost
+   * @throws Error if the model doesn't support variations
+   */
+  async variations(options: ImageVariationOptions): Promise<ImageGenerationResult> {
+    const { adapter, spec } = this.resolveImageModel(options.model);
+
+    if (!adapter.generateImageVariations || (spec && !spec.features?.variations)) {
+      throw new Error(
+        `Model "${options.model}" does not support image variations. ` +
+          `Models with variations: ${this.listModels()
+            .filter((m) => m.features?.variations)
+            .map((m) => m.modelId)
+            .join(", ")}`,
+      );
+    }
+
+    return adapter.generateImageVariations(options);
+  }
+
   /**
    * List all available image generation models.
    */
@@ -76,6 +139,23 @@ export class ImageNamespace {
     return this.findImageAdapter(modelId) !== undefined;
   }
 
+  private resolveImageModel(modelId: string): {
+    adapter: ProviderAdapter;
+    spec: ImageModelSpec | undefined;
+  } {
+    const adapter = this.findImageAdapter(modelId);
+    if (!adapter) {
+      throw new Error(
+        `No provider supports image generation for model "${modelId}". ` +
+          `Available image models: ${this.listModels()
+            .map((m) => m.modelId)
+            .join(", ")}`,
+      );
+    }
+    const spec = adapter.getImageModelSpecs?.().find((m) => m.modelId === modelId);
+    return { adapter, spec };
+  }
+
   private findImageAdapter(modelId: string): ProviderAdapter | undefined {
     return this.adapters.find((adapter) => adapter.supportsImageGeneration?.(modelId) ?? false);
   }
@@ -5,6 +5,7 @@
  */
 
 import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
 import type { LLMist } from "../client.js";
 import { TextNamespace } from "./text.js";
 
@@ -21,6 +22,7 @@ function createMockClient(chunks: Array<{ text: string }>): LLMist {
 
   return {
     stream: vi.fn(mockStream),
+    supportsStructuredOutput: vi.fn(() => true),
   } as unknown as LLMist;
 }
 
@@ -251,4 +253,40 @@ describe("TextNamespace", () => {
       expect(chunks).toEqual([]);
     });
   });
+
+  describe("generateObject()", () => {
+    it("returns the validated object from the client's stream", async () => {
+      const client = createMockClient([{ text: '{"answer": 42}' }]);
+      const namespace = new TextNamespace(client);
+
+      const result = await namespace.generateObject(
+        "What is the answer?",
+        z.object({ answer: z.number() }),
+      );
+
+      expect(result).toEqual({ answer: 42 });
+      expect(client.stream).toHaveBeenCalledWith(
+        expect.objectContaining({
+          responseFormat: expect.objectContaining({ type: "json_schema" }),
+        }),
+      );
+    });
+  });
+
+  describe("streamObject()", () => {
+    it("yields partial objects", async () => {
+      const client = createMockClient([{ text: '{"answer": "4' }, { text: '2"}' }]);
+      const namespace = new TextNamespace(client);
+
+      const partials: unknown[] = [];
+      for await (const partial of namespace.streamObject(
+        "What is the answer?",
+        z.object({ answer: z.string() }),
+      )) {
+        partials.push(partial);
+      }
+
+      expect(partials).toEqual([{ answer: "4" }, { answer: "42" }]);
+    });
+  });
 });
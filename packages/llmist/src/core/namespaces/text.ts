@@ -15,11 +15,24 @@
  * for await (const chunk of llmist.text.stream("Tell me a story")) {
  *   process.stdout.write(chunk);
  * }
+ *
+ * // Structured output
+ * const person = await llmist.text.generateObject(
+ *   "Invent a fictional person",
+ *   z.object({ name: z.string(), age: z.number() }),
+ * );
  * ```
  */
 
+import type { ZodType, z } from "zod";
 import type { LLMist } from "../client.js";
 import { complete, stream, type TextGenerationOptions } from "../quick-methods.js";
+import {
+  type DeepPartial,
+  generateObject,
+  type ObjectGenerationOptions,
+  streamObject,
+} from "../structured-output.js";
 
 export class TextNamespace {
   constructor(private readonly client: LLMist) {}
@@ -45,4 +58,42 @@ export class TextNamespace {
   stream(prompt: string, options?: TextGenerationOptions): AsyncGenerator<string> {
     return stream(this.client, prompt, options);
   }
+
+  /**
+   * Generate an object matching a Zod schema.
+   *
+   * Uses the provider's native structured output when available, otherwise
+   * schema instructions in the prompt. Invalid output is repaired by
+   * re-prompting with the validation errors.
+   *
+   * @param prompt - User prompt
+   * @param schema - Zod schema the result must satisfy
+   * @param options - Optional configuration
+   * @returns The validated object
+   * @throws StructuredOutputError if the output stays invalid after all repair attempts
+   */
+  async generateObject<TSchema extends ZodType>(
+    prompt: string,
+    schema: TSchema,
+    options?: ObjectGenerationOptions,
+  ): Promise<z.infer<TSchema>> {
+    return generateObject(this.client, prompt, schema, options);
+  }
+
+  /**
+   * Stream progressively parsed partial objects matching a Zod schema.
+   * The last yielded value is the validated object.
+   *
+   * @param prompt - User prompt
+   * @param schema - Zod schema the final result must satisfy
+   * @param options - Optional configuration
+   * @returns Async generator yielding partial objects
+   */
+  streamObject<TSchema extends ZodType>(
+    prompt: string,
+    schema: TSchema,
+    options?: ObjectGenerationOptions,
+  ): AsyncGenerator<DeepPartial<z.infer<TSchema>>> {
+    return streamObject(this.client, prompt, schema, options);
+  }
 }
@@ -0,0 +1,106 @@
+/**
+ * Tests for TokensNamespace
+ *
+ * Verifies routing to provider token counting and the local tokenizer fallback.
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import type { ProviderAdapter } from "../../providers/provider.js";
+import type { LLMMessage } from "../messages.js";
+import type { ModelSpec } from "../model-catalog.js";
+import { ModelRegistry } from "../model-registry.js";
+import { ModelIdentifierParser } from "../options.js";
+import { TokensNamespace } from "./tokens.js";
+
+const messages: LLMMessage[] = [{ role: "user", content: "Hello world" }];
+
+function createMockAdapter(
+  providerId: string,
+  countTokens?: ProviderAdapter["countTokens"],
+): ProviderAdapter {
+  return {
+    providerId,
+    supports: (descriptor) => descriptor.provider === providerId,
+    stream: () => (async function* () {})(),
+    countTokens,
+  };
+}
+
+function createNamespace(adapters: ProviderAdapter[], specs: ModelSpec[] = []): TokensNamespace {
+  const registry = new ModelRegistry();
+  for (const spec of specs) {
+    registry.registerModel(spec);
+  }
+  return new TokensNamespace(adapters, new ModelIdentifierParser("openai"), registry);
+}
+
+describe("TokensNamespace", () => {
+  describe("count()", () => {
+    it("uses the provider's token counting with the model spec", async () => {
+      const countTokens = vi.fn(async () => 42);
+      const spec = { provider: "test", modelId: "test-model", tokenizer: "claude" } as ModelSpec;
+      const namespace = createNamespace([createMockAdapter("test", countTokens)], [spec]);
+
+      const count = await namespace.count(messages, "test:test-model");
+
+      expect(count).toBe(42);
+      expect(countTokens).toHaveBeenCalledWith(
+        messages,
+        { provider: "test", name: "test-model" },
+        spec,
+      );
+    });
+
+    it("uses the local tokenizer when the adapter cannot count tokens", async () => {
+      const namespace = createNamespace([createMockAdapter("test")]);
+
+      expect(await namespace.count(messages, "test:some-model")).toBe(2);
+    });
+
+    it("counts locally when the request has credentials for the provider", async () => {
+      const countTokens = vi.fn(async () => 42);
+      const namespace = createNamespace([createMockAdapter("test", countTokens)]);
+
+      const withKey = await namespace.count(messages, "test:some-model", {
+        test: { apiKey: "tenant-key" },
+      });
+      const otherKey = await namespace.count(messages, "test:some-model", {
+        other: { apiKey: "tenant-key" },
+      });
+
+      expect(withKey).toBe(2);
+      expect(otherKey).toBe(42);
+      expect(countTokens).toHaveBeenCalledTimes(1);
+    });
+
+    it("throws when no adapter supports the provider", async () => {
+      const namespace = createNamespace([createMockAdapter("test")]);
+
+      await expect(namespace.count(messages, "other:model")).rejects.toThrow(
+        "No adapter registered for provider other",
+      );
+    });
+  });
+
+  describe("countLocal()", () => {
+    it("counts offline without calling the provider", () => {
+      const countTokens = vi.fn(async () => 42);
+      const namespace = createNamespace([createMockAdapter("test", countTokens)]);
+
+      expect(namespace.countLocal(messages, "test:gpt-5")).toBe(2);
+      expect(countTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("tokenizerFor()", () => {
+    it("resolves the tokenizer from the model spec, name or provider", () => {
+      const spec = { provider: "test", modelId: "house-model", tokenizer: "llama" } as ModelSpec;
+      const namespace = createNamespace([], [spec]);
+
+      expect(namespace.tokenizerFor("test:house-model")).toBe("llama");
+      expect(namespace.tokenizerFor("openrouter:anthropic/claude-sonnet-4-5")).toBe("claude");
+      expect(namespace.tokenizerFor("gemini:custom")).toBe("gemini");
+      expect(namespace.tokenizerFor("gpt-5")).toBe("o200k_base");
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tokens Namespace
+ *
+ * Counts input tokens for messages — for context window checks, compaction
+ * thresholds and cost estimates before a request is sent.
+ *
+ * @example
+ * ```typescript
+ * const llmist = new LLMist();
+ * const messages = [{ role: "user" as const, content: "Summarize this report..." }];
+ *
+ * // Provider-native count when the provider has one, local tokenizer otherwise
+ * const tokens = await llmist.tokens.count(messages, "anthropic:claude-sonnet-4-5");
+ *
+ * // Offline: bundled tokenizer only, no network
+ * const approx = llmist.tokens.countLocal(messages, "anthropic:claude-sonnet-4-5");
+ * ```
+ */
+
+import type { ProviderAdapter } from "../../providers/provider.js";
+import type { LLMMessage } from "../messages.js";
+import type { ModelSpec } from "../model-catalog.js";
+import type { ModelRegistry } from "../model-registry.js";
+import type { ModelDescriptor, ModelIdentifierParser, ProviderCredentialsMap } from "../options.js";
+import { countTokensLocally, resolveTokenizer, type TokenizerName } from "../tokenizer.js";
+
+export class TokensNamespace {
+  constructor(
+    private readonly adapters: ProviderAdapter[],
+    private readonly parser: ModelIdentifierParser,
+    private readonly modelRegistry: ModelRegistry,
+  ) {}
+
+  /**
+   * Count input tokens for messages sent to a model.
+   *
+   * Uses the provider's own counting (token counting APIs, server tokenizers,
+   * tiktoken for OpenAI) when the adapter has it; adapters fall back to the
+   * local tokenizer when their API is unavailable.
+   *
+   * Provider counting runs on the client's own key, so with `credentials` for
+   * the model's provider the local tokenizer is used instead.
+   *
+   * @param messages - Messages to count
+   * @param model - Model identifier (e.g., "openai:gpt-5", "anthropic:claude-sonnet-4-5")
+   * @param credentials - Per-request credentials the counted request will be made with
+   * @returns Promise resolving to the input token count
+   * @throws Error if no adapter is registered for the model's provider
+   */
+  async count(
+    messages: LLMMessage[],
+    model: string,
+    credentials?: ProviderCredentialsMap,
+  ): Promise<number> {
+    const { descriptor, spec } = this.resolve(model);
+    const adapter = this.adapters.find((item) => item.supports(descriptor));
+    if (!adapter) {
+      throw new Error(`No adapter registered for provider ${descriptor.provider}`);
+    }
+
+    if (adapter.countTokens && credentials?.[descriptor.provider] === undefined) {
+      return adapter.countTokens(messages, descriptor, spec);
+    }
+    return countTokensLocally(messages, resolveTokenizer(descriptor, spec));
+  }
+
+  /**
+   * Count input tokens with the bundled tokenizer for the model, offline.
+   * Exact for OpenAI models, approximate for other families.
+   */
+  countLocal(messages: LLMMessage[], model: string): number {
+    const { descriptor, spec } = this.resolve(model);
+    return countTokensLocally(messages, resolveTokenizer(descriptor, spec));
+  }
+
+  /** The local tokenizer used for a model (`ModelSpec.tokenizer` or inferred). */
+  tokenizerFor(model: string): TokenizerName {
+    const { descriptor, spec } = this.resolve(model);
+    return resolveTokenizer(descriptor, spec);
+  }
+
+  private resolve(model: string): { descriptor: ModelDescriptor; spec?: ModelSpec } {
+    const descriptor = this.parser.parse(model);
+    return { descriptor, spec: this.modelRegistry.getModelSpec(descriptor.name) };
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Tests for TranscriptionNamespace
+ *
+ * Verifies transcription routing to providers, size limits and model listing.
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import type { ProviderAdapter } from "../../providers/provider.js";
+import type {
+  TranscriptionModelSpec,
+  TranscriptionOptions,
+  TranscriptionResult,
+} from "../media-types.js";
+import { TranscriptionNamespace } from "./transcription.js";
+
+const mockTranscriptionSpec: TranscriptionModelSpec = {
+  provider: "test",
+  modelId: "test-stt",
+  displayName: "Test Transcription Model",
+  pricing: { perMinute: 0.006 },
+  maxFileSizeBytes: 10,
+};
+
+/**
+ * Creates a mock provider adapter that echoes the audio length as the transcript.
+ */
+function createMockAdapter(opts: {
+  providerId: string;
+  transcriptionModels?: TranscriptionModelSpec[];
+}): ProviderAdapter & {
+  transcribe: ReturnType<typeof vi.fn>;
+} {
+  const { providerId, transcriptionModels = [] } = opts;
+
+  return {
+    providerId,
+    supports: () => false,
+    stream: () => (async function* () {})(),
+    supportsTranscription: (modelId: string) =>
+      transcriptionModels.some((m) => m.modelId === modelId),
+    getTranscriptionModelSpecs: () => transcriptionModels,
+    transcribe: vi.fn(
+      async (options: TranscriptionOptions): Promise<TranscriptionResult> => ({
+        text: `${options.audio.byteLength} bytes`,
+        model: options.model,
+        usage: { durationSeconds: 60 },
+        cost: 0.006,
+      }),
+    ),
+  };
+}
+
+describe("TranscriptionNamespace", () => {
+  describe("transcribe()", () => {
+    it("routes to the provider that supports the model", async () => {
+      const adapter = createMockAdapter({
+        providerId: "test",
+        transcriptionModels: [mockTranscriptionSpec],
+      });
+      const namespace = new TranscriptionNamespace([adapter]);
+      const options = {
+        model: "test-stt",
+        audio: Buffer.from("audio"),
+        language: "en",
+        timestamps: "segment" as const,
+      };
+
+      const result = await namespace.transcribe(options);
+
+      expect(adapter.transcribe).toHaveBeenCalledWith(options);
+      expect(result).toEqual({
+        text: "5 bytes",
+        model: "test-stt",
+        usage: { durationSeconds: 60 },
+        cost: 0.006,
+      });
+    });
+
+    it("rejects audio larger than the model's upload limit", async () => {
+      const adapter = createMockAdapter({
+        providerId: "test",
+        transcriptionModels: [mockTranscriptionSpec],
+      });
+      const namespace = new TranscriptionNamespace([adapter]);
+
+      await expect(
+        namespace.transcribe({ model: "test-stt", audio: Buffer.alloc(11) }),
+      ).rejects.toThrow("Split the audio into shorter parts");
+      expect(adapter.transcribe).not.toHaveBeenCalled();
+    });
+
+    it("throws with available models when no provider supports the model", async () => {
+      const adapter = createMockAdapter({
+        providerId: "test",
+        transcriptionModels: [mockTranscriptionSpec],
+      });
+      const namespace = new TranscriptionNamespace([adapter]);
+
+      await expect(
+        namespace.transcribe({ model: "unknown-stt", audio: Buffer.from("audio") }),
+      ).rejects.toThrow(
+        'No provider supports transcription for model "unknown-stt". Available transcription models: test-stt',
+      );
+    });
+  });
+
+  describe("listModels()", () => {
+    it("combines transcription models from all providers", () => {
+      const namespace = new TranscriptionNamespace([
+        createMockAdapter({ providerId: "a", transcriptionModels: [mockTranscriptionSpec] }),
+        createMockAdapter({
+          providerId: "b",
+          transcriptionModels: [{ ...mockTranscriptionSpec, provider: "b", modelId: "b-stt" }],
+        }),
+        {
+          providerId: "c",
+          supports: () => false,
+          stream: () => (async function* () {})(),
+        },
+      ]);
+
+      expect(namespace.listModels().map((m) => m.modelId)).toEqual(["test-stt", "b-stt"]);
+    });
+  });
+
+  describe("supportsModel()", () => {
+    it("checks provider support for the model", () => {
+      const namespace = new TranscriptionNamespace([
+        createMockAdapter({ providerId: "test", transcriptionModels: [mockTranscriptionSpec] }),
+      ]);
+
+      expect(namespace.supportsModel("test-stt")).toBe(true);
+      expect(namespace.supportsModel("gpt-4o")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Transcription Namespace
+ *
+ * Provides speech-to-text methods, the reverse of `SpeechNamespace`.
+ *
+ * @example
+ * ```typescript
+ * const llmist = new LLMist();
+ *
+ * const result = await llmist.transcription.transcribe({
+ *   model: "whisper-1",
+ *   audio: fs.readFileSync("meeting.mp3"),
+ *   language: "en",
+ *   timestamps: "segment",
+ * });
+ *
+ * console.log(result.text);
+ * fs.writeFileSync("meeting.srt", formatSubtitles(result.segments ?? [], "srt"));
+ * ```
+ */
+
+import type { ProviderAdapter } from "../../providers/provider.js";
+import type {
+  TranscriptionModelSpec,
+  TranscriptionOptions,
+  TranscriptionResult,
+} from "../media-types.js";
+
+export class TranscriptionNamespace {
+  constructor(private readonly adapters: ProviderAdapter[]) {}
+
+  /**
+   * Transcribe audio to text.
+   *
+   * @param options - Transcription options
+   * @returns Promise resolving to the transcript with optional timestamps and cost
+   * @throws Error if no provider supports the model, or the audio exceeds the model's size limit
+   */
+  async transcribe(options: TranscriptionOptions): Promise<TranscriptionResult> {
+    const modelId = options.model;
+
+    const adapter = this.findTranscriptionAdapter(modelId);
+    if (!adapter || !adapter.transcribe) {
+      throw new Error(
+        `No provider supports transcription for model "${modelId}". ` +
+          `Available transcription models: ${this.listModels()
+            .map((m) => m.modelId)
+            .join(", ")}`,
+      );
+    }
+
+    const spec = adapter.getTranscriptionModelSpecs?.().find((m) => m.modelId === modelId);
+    if (spec && options.audio.byteLength > spec.maxFileSizeBytes) {
+      const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+      throw new Error(
+        `Audio is ${toMB(options.audio.byteLength)} MB, but "${modelId}" accepts at most ` +
+          `${toMB(spec.maxFileSizeBytes)} MB per request. Split the audio into shorter parts.`,
+      );
+    }
+
+    return adapter.transcribe(options);
+  }
+
+  /**
+   * List all available transcription models.
+   */
+  listModels(): TranscriptionModelSpec[] {
+    const models: TranscriptionModelSpec[] = [];
+    for (const adapter of this.adapters) {
+      if (adapter.getTranscriptionModelSpecs) {
+        models.push(...adapter.getTranscriptionModelSpecs());
+      }
+    }
+    return models;
+  }
+
+  /**
+   * Check if a model is supported for transcription.
+   */
+  supportsModel(modelId: string): boolean {
+    return this.findTranscriptionAdapter(modelId) !== undefined;
+  }
+
+  private findTranscriptionAdapter(modelId: string): ProviderAdapter | undefined {
+    return this.adapters.find((adapter) => adapter.supportsTranscription?.(modelId) ?? false);
+  }
+}
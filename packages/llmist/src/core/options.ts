@@ -1,4 +1,5 @@
 import type { LLMMessage } from "./messages.js";
+import type { ServerRateLimits } from "./rate-limit.js";
 
 // =============================================================================
 // Reasoning / Thinking Types
@@ -73,7 +74,13 @@ export type CachingScope = "system" | "conversation";
  * - **Anthropic**: Automatic ephemeral caching via `cache_control` markers (always-on by default).
  *   Use `enabled: false` to disable markers and opt out of caching.
  * - **Gemini**: Explicit cache lifecycle via `caches.create()`. Requires `scope` and `ttl`.
- * - **OpenAI**: Server-side automatic caching (no-op, but respects the unified API).
+ * - **OpenAI**: Server-side automatic caching. `key` is sent as `prompt_cache_key` to route
+ *   requests sharing a prefix to the same cache.
+ * - **OpenRouter**: `cache_control` breakpoints for providers that need them (Anthropic, Gemini).
+ *   Use `enabled: false` to disable them.
+ *
+ * How well caching works is reported per call as `CacheStats`
+ * (`ObserveLLMCompleteContext.cache`, `ExecutionTree.getTotalCacheStats()`).
  */
 export interface CachingConfig {
   /** Whether context caching is enabled */
@@ -88,6 +95,88 @@ export interface CachingConfig {
   ttl?: string;
   /** Minimum token count for content to be eligible for caching (Gemini default: 32768) */
   minTokenThreshold?: number;
+  /** Cache routing key (OpenAI `prompt_cache_key`), e.g. a conversation or tenant ID */
+  key?: string;
+}
+
+/**
+ * API credentials for one provider, used instead of the adapter's own key.
+ */
+export interface ProviderCredentials {
+  /** API key the request is made (and billed) with */
+  apiKey: string;
+}
+
+/**
+ * Per-request credentials keyed by provider ID, e.g.
+ * `{ openai: { apiKey: tenant.openaiKey }, anthropic: { apiKey: tenant.anthropicKey } }`.
+ *
+ * Keying by provider keeps each key with its provider when a request falls back
+ * to another model. Providers without an entry use their own key (or key pool).
+ * Providers that don't authenticate with API keys (Bedrock, Vertex AI) reject
+ * requests with credentials for them.
+ */
+export type ProviderCredentialsMap = Record<string, ProviderCredentials>;
+
+/**
+ * Request JSON output conforming to a JSON Schema.
+ *
+ * Provider mapping:
+ * - **OpenAI** (and OpenAI-compatible servers): `response_format: { type: "json_schema" }`
+ * - **Gemini**: `responseMimeType: "application/json"` with `responseJsonSchema`
+ * - **Anthropic**: a single forced tool whose input is the schema; the tool input
+ *   is streamed back as text
+ *
+ * Most callers should use `llmist.text.generateObject()` instead, which also
+ * handles providers without native support.
+ */
+export interface JsonSchemaResponseFormat {
+  type: "json_schema";
+  /** JSON Schema the response must conform to */
+  schema: Record<string, unknown>;
+  /** Schema name reported to the provider (letters, digits, `_` and `-`; default: "response") */
+  name?: string;
+  /** Optional description of the expected output */
+  description?: string;
+}
+
+export type ResponseFormat = "text" | JsonSchemaResponseFormat;
+
+/**
+ * A function the model may call natively instead of writing gadget blocks.
+ *
+ * Provider mapping:
+ * - **OpenAI** (and OpenAI-compatible servers): `tools: [{ type: "function" }]`
+ * - **Anthropic**: `tools` with `input_schema`
+ * - **Gemini**: `functionDeclarations` with `parametersJsonSchema`
+ *
+ * The agent builds these from gadget schemas when the gadget transport is
+ * `"native"` (see `AgentBuilder.withGadgetTransport()`).
+ */
+export interface ToolDefinition {
+  /** Function name (the gadget name) */
+  name: string;
+  /** What the function does */
+  description: string;
+  /** JSON Schema of the function arguments (an object schema) */
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Incremental piece of a native tool call, as streamed by the provider.
+ *
+ * The first delta of a call carries its `id` and `name`; later deltas with the
+ * same `index` append to its JSON `argumentsDelta`.
+ */
+export interface ToolCallDelta {
+  /** Position of the call within the response; groups deltas of the same call */
+  index: number;
+  /** Provider-assigned call ID (first delta only) */
+  id?: string;
+  /** Function name (first delta only) */
+  name?: string;
+  /** Next fragment of the JSON-encoded arguments */
+  argumentsDelta?: string;
 }
 
 export interface LLMGenerationOptions {
@@ -97,7 +186,15 @@ export interface LLMGenerationOptions {
   temperature?: number;
   topP?: number;
   stopSequences?: string[];
-  responseFormat?: "text";
+  responseFormat?: ResponseFormat;
+  /** Functions the model may call natively (ignored by providers without tool support) */
+  tools?: ToolDefinition[];
+  /**
+   * Models to switch to, in order, when the request fails with a retryable
+   * error before any output was streamed. Defaults to `LLMistOptions.fallbacks`;
+   * pass `[]` to disable fallbacks for this request.
+   */
+  fallbackModels?: string[];
   metadata?: Record<string, unknown>;
   extra?: Record<string, unknown>;
   /**
@@ -139,6 +236,8 @@ export interface LLMGenerationOptions {
   reasoning?: ReasoningConfig;
   /** Context caching configuration for supported providers */
   caching?: CachingConfig;
+  /** Credentials to make this request with instead of the adapter's own key */
+  credentials?: ProviderCredentialsMap;
 }
 
 export interface TokenUsage {
@@ -169,6 +268,10 @@ export interface LLMStreamChunk {
   rawEvent?: unknown;
   /** Thinking/reasoning content from reasoning models */
   thinking?: ThinkingChunk;
+  /** Native tool call fragments (only when `tools` were sent) */
+  toolCalls?: ToolCallDelta[];
+  /** Rate limit quotas from the response headers (first chunk, for providers that report them) */
+  rateLimits?: ServerRateLimits;
 }
 
 export interface LLMStream extends AsyncIterable<LLMStreamChunk> {}
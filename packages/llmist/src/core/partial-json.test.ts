@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { extractJSONText, parseJSONDocument, parsePartialJSON } from "./partial-json.js";
+
+describe("parsePartialJSON", () => {
+  it("parses complete documents", () => {
+    expect(parsePartialJSON('{"a": 1, "b": [true, null, "x"]}')).toEqual({
+      a: 1,
+      b: [true, null, "x"],
+    });
+  });
+
+  it("keeps unterminated strings", () => {
+    expect(parsePartialJSON('{"title": "Ham')).toEqual({ title: "Ham" });
+    expect(parsePartialJSON('["one", "tw')).toEqual(["one", "tw"]);
+  });
+
+  it("drops keys without values and values that may still grow", () => {
+    expect(parsePartialJSON('{"a": "x", "b')).toEqual({ a: "x" });
+    expect(parsePartialJSON('{"a": "x", "b":')).toEqual({ a: "x" });
+    expect(parsePartialJSON('{"a": "x", "n": 12')).toEqual({ a: "x" });
+    expect(parsePartialJSON('{"a": "x", "ok": tr')).toEqual({ a: "x" });
+  });
+
+  it("parses nested containers that are still open", () => {
+    expect(parsePartialJSON('{"items": [{"name": "a"}, {"name": "b')).toEqual({
+      items: [{ name: "a" }, { name: "b" }],
+    });
+  });
+
+  it("handles escapes, including cut-off ones", () => {
+    expect(parsePartialJSON('{"s": "line\\nnext \\u00e9"}')).toEqual({ s: "line\nnext é" });
+    expect(parsePartialJSON('{"s": "quote \\')).toEqual({ s: "quote " });
+    expect(parsePartialJSON('{"s": "\\u00')).toEqual({ s: "" });
+  });
+
+  it("returns undefined before any value arrives", () => {
+    expect(parsePartialJSON("")).toBeUndefined();
+    expect(parsePartialJSON("  ")).toBeUndefined();
+  });
+
+  it("throws on text that is not JSON", () => {
+    expect(() => parsePartialJSON("{oops}")).toThrow(SyntaxError);
+    expect(() => parsePartialJSON("hello")).toThrow(SyntaxError);
+  });
+});
+
+describe("parseJSONDocument", () => {
+  it("parses complete documents and ignores trailing text", () => {
+    expect(parseJSONDocument('{"a": 1} Hope this helps!')).toEqual({ a: 1 });
+    expect(parseJSONDocument("42")).toBe(42);
+  });
+
+  it("rejects truncated documents", () => {
+    expect(() => parseJSONDocument('{"a": "x"')).toThrow("Unexpected end of JSON input");
+    expect(() => parseJSONDocument('{"a": "x')).toThrow("Unexpected end of JSON input");
+  });
+});
+
+describe("extractJSONText", () => {
+  it("strips code fences and leading prose", () => {
+    expect(extractJSONText('```json\n{"a": 1}\n```')).toBe('{"a": 1}\n');
+    expect(extractJSONText('Here you go: {"a": 1}')).toBe('{"a": 1}');
+  });
+
+  it("handles an unterminated fence while streaming", () => {
+    expect(extractJSONText('```json\n{"a": ')).toBe('{"a": ');
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Tolerant JSON parsing for streamed model output.
+ *
+ * `parsePartialJSON()` parses a JSON document that may be cut off at any point
+ * and returns the value it describes so far. Unterminated strings are kept as
+ * they are; keys without a value, and numbers or literals that may still grow,
+ * are left out until they are complete.
+ *
+ * @example
+ * ```typescript
+ * parsePartialJSON('{"title": "Ham');            // { title: "Ham" }
+ * parsePartialJSON('{"tags": ["a", "b"], "n": 1'); // { tags: ["a", "b"] }
+ * ```
+ *
+ * @module core/partial-json
+ */
+
+/** Marker for a value that was cut off before it could be used. */
+const INCOMPLETE = Symbol("incomplete");
+
+type ParseResult = unknown | typeof INCOMPLETE;
+
+class PartialJSONParser {
+  private pos = 0;
+  /** Set when the text ends before the top-level value is closed. */
+  truncated = false;
+
+  constructor(private readonly text: string) {}
+
+  parse(): unknown {
+    this.skipWhitespace();
+    const value = this.parseValue();
+    return value === INCOMPLETE ? undefined : value;
+  }
+
+  private parseValue(): ParseResult {
+    this.skipWhitespace();
+    if (this.atEnd()) return this.cutOff(INCOMPLETE);
+
+    const char = this.text[this.pos];
+    if (char === "{") return this.parseObject();
+    if (char === "[") return this.parseArray();
+    if (char === '"') return this.parseString().value;
+    if (char === "-" || (char >= "0" && char <= "9")) return this.parseNumber();
+    return this.parseLiteral();
+  }
+
+  private parseObject(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.pos++; // {
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd()) return this.cutOff(result);
+      if (this.text[this.pos] === "}") {
+        this.pos++;
+        return result;
+      }
+      if (this.text[this.pos] === ",") {
+        this.pos++;
+        continue;
+      }
+      if (this.text[this.pos] !== '"') {
+        throw new SyntaxError(`Unexpected character "${this.text[this.pos]}" at ${this.pos}`);
+      }
+
+      const key = this.parseString();
+      if (!key.complete) return result;
+
+      this.skipWhitespace();
+      if (this.atEnd()) return this.cutOff(result);
+      if (this.text[this.pos] !== ":") {
+        throw new SyntaxError(`Expected ":" at ${this.pos}`);
+      }
+      this.pos++;
+
+      const value = this.parseValue();
+      if (value === INCOMPLETE) return result;
+      result[key.value] = value;
+    }
+  }
+
+  private parseArray(): unknown[] {
+    const result: unknown[] = [];
+    this.pos++; // [
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd()) return this.cutOff(result);
+      if (this.text[this.pos] === "]") {
+        this.pos++;
+        return result;
+      }
+      if (this.text[this.pos] === ",") {
+        this.pos++;
+        continue;
+      }
+
+      const value = this.parseValue();
+      if (value === INCOMPLETE) return result;
+      result.push(value);
+    }
+  }
+
+  private parseString(): { value: string; complete: boolean } {
+    this.pos++; // opening quote
+    let value = "";
+
+    while (!this.atEnd()) {
+      const char = this.text[this.pos];
+      if (char === '"') {
+        this.pos++;
+        return { value, complete: true };
+      }
+      if (char === "\\") {
+        const escaped = this.readEscape();
+        if (escaped === undefined) break;
+        value += escaped;
+        continue;
+      }
+      value += char;
+      this.pos++;
+    }
+
+    this.pos = this.text.length;
+    return this.cutOff({ value, complete: false });
+  }
+
+  /** Read an escape sequence; returns undefined when it is cut off. */
+  private readEscape(): string | undefined {
+    const next = this.text[this.pos + 1];
+    if (next === undefined) return undefined;
+
+    if (next === "u") {
+      const hex = this.text.slice(this.pos + 2, this.pos + 6);
+      if (hex.length < 4) return undefined;
+      this.pos += 6;
+      return String.fromCharCode(Number.parseInt(hex, 16));
+    }
+
+    this.pos += 2;
+    return ESCAPES[next] ?? next;
+  }
+
+  private parseNumber(): ParseResult {
+    const match = /^-?\d*(?:\.\d*)?(?:[eE][+-]?\d*)?/.exec(this.text.slice(this.pos));
+    const raw = match?.[0] ?? "";
+    this.pos += raw.length;
+    // A number at the very end may still be growing
+    if (this.atEnd()) return this.cutOff(INCOMPLETE);
+    const value = Number(raw);
+    if (raw.length === 0 || Number.isNaN(value)) {
+      throw new SyntaxError(`Invalid number at ${this.pos - raw.length}`);
+    }
+    return value;
+  }
+
+  private parseLiteral(): ParseResult {
+    for (const [literal, value] of LITERALS) {
+      const rest = this.text.slice(this.pos, this.pos + literal.length);
+      if (rest === literal) {
+        this.pos += literal.length;
+        return value;
+      }
+      if (literal.startsWith(rest) && this.pos + rest.length === this.text.length) {
+        this.pos = this.text.length;
+        return this.cutOff(INCOMPLETE);
+      }
+    }
+    throw new SyntaxError(`Unexpected character "${this.text[this.pos]}" at ${this.pos}`);
+  }
+
+  private cutOff<T>(value: T): T {
+    this.truncated = true;
+    return value;
+  }
+
+  private skipWhitespace(): void {
+    while (!this.atEnd() && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.text.length;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+const LITERALS: Array<[string, unknown]> = [
+  ["true", true],
+  ["false", false],
+  ["null", null],
+];
+
+/**
+ * Parse a possibly incomplete JSON document.
+ *
+ * @param text - JSON text, possibly cut off mid-value
+ * @returns The value parsed so far, or undefined when nothing usable has arrived yet
+ * @throws SyntaxError if the text is not a prefix of valid JSON
+ */
+export function parsePartialJSON(text: string): unknown {
+  return new PartialJSONParser(text).parse();
+}
+
+/**
+ * Parse a complete JSON document, ignoring any text after it.
+ *
+ * @throws SyntaxError if the text is not valid JSON or ends before the document is closed
+ */
+export function parseJSONDocument(text: string): unknown {
+  // The trailing newline lets a top-level number terminate
+  const parser = new PartialJSONParser(`${text}\n`);
+  const value = parser.parse();
+  if (parser.truncated || value === undefined) {
+    throw new SyntaxError("Unexpected end of JSON input");
+  }
+  return value;
+}
+
+/**
+ * Extract the JSON document from model output.
+ *
+ * Models asked for JSON without native support sometimes wrap it in a
+ * markdown code fence or add a sentence around it. This strips the fence and
+ * any text before the first `{` or `[`. Trailing text after a complete
+ * document is ignored by the parsers.
+ */
+export function extractJSONText(text: string): string {
+  const fenced = /```(?:json)?\s*\n?([\s\S]*?)(?:```|$)/.exec(text);
+  const body = fenced ? fenced[1] : text;
+  const start = body.search(/[{[]/);
+  return start === -1 ? body.trim() : body.slice(start);
+}
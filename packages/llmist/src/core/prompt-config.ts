@@ -119,6 +119,15 @@ export const DEFAULT_HINTS = {
   parallelGadgetsHint: "Tip: You can call multiple gadgets in a single response for efficiency.",
 
   iterationProgressHint: "[Iteration {iteration}/{maxIterations}] Plan your actions accordingly.",
+
+  planCreateHint:
+    "Before working on the task, call Plan with the steps you will take to complete it.",
+
+  planReviseHint:
+    "The plan needs revising. Call Plan with the remaining steps, or UpdatePlan to adjust it, before continuing.",
+
+  planProgressHint:
+    "Work through the plan in order. Call UpdatePlan when you start or finish a task.",
 } as const;
 
 /**
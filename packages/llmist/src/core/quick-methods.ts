@@ -19,6 +19,7 @@
 import type { LLMist } from "./client.js";
 import { LLMMessageBuilder } from "./messages.js";
 import { resolveModel } from "./model-shortcuts.js";
+import type { ProviderCredentialsMap } from "./options.js";
 
 /**
  * Options for text generation methods (complete/stream).
@@ -35,6 +36,9 @@ export interface TextGenerationOptions {
 
   /** Max tokens to generate */
   maxTokens?: number;
+
+  /** API keys to make the call with, keyed by provider (see `LLMGenerationOptions.credentials`) */
+  credentials?: ProviderCredentialsMap;
 }
 
 /**
@@ -71,6 +75,7 @@ export async function complete(
     messages: builder.build(),
     temperature: options.temperature,
     maxTokens: options.maxTokens,
+    credentials: options.credentials,
   })) {
     fullResponse += chunk.text;
   }
@@ -113,6 +118,7 @@ export async function* stream(
     messages: builder.build(),
     temperature: options.temperature,
     maxTokens: options.maxTokens,
+    credentials: options.credentials,
   })) {
     yield chunk.text;
   }
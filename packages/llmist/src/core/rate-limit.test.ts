@@ -443,4 +443,76 @@ describe("RateLimitTracker", () => {
       expect(stats.triggeredBy?.tpm).toBeDefined();
     });
   });
+
+  describe("server-reported quotas", () => {
+    it("waits for the reset when a quota is within the safety margin", () => {
+      tracker = new RateLimitTracker({ enabled: true, safetyMargin: 0.9 });
+
+      tracker.recordServerLimits({ tokens: { limit: 6000, remaining: 500, resetMs: 7660 } });
+
+      expect(tracker.getRequiredDelayMs()).toBe(7660);
+      expect(tracker.isApproachingLimit()).toBe(true);
+      expect(tracker.getUsageStats().triggeredBy?.server).toEqual({
+        tokens: { limit: 6000, remaining: 500, resetMs: 7660 },
+      });
+    });
+
+    it("does not throttle while the quota has headroom", () => {
+      tracker = new RateLimitTracker({ enabled: true, safetyMargin: 0.9 });
+
+      tracker.recordServerLimits({ requests: { limit: 14_400, remaining: 14_000, resetMs: 6000 } });
+
+      expect(tracker.getRequiredDelayMs()).toBe(0);
+      expect(tracker.getUsageStats().server?.requests?.remaining).toBe(14_000);
+    });
+
+    it("throttles on exhausted quotas of unknown size", () => {
+      tracker = new RateLimitTracker({ enabled: true });
+
+      tracker.recordServerLimits({ requests: { remaining: 1, resetMs: 2000 } });
+      expect(tracker.getRequiredDelayMs()).toBe(0);
+
+      // The reservation counts against the quota until the next response reports it
+      tracker.reserveRequest();
+      expect(tracker.getRequiredDelayMs()).toBe(2000);
+    });
+
+    it("forgets quotas once their window resets", () => {
+      tracker = new RateLimitTracker({ enabled: true });
+
+      tracker.recordServerLimits({ tokens: { remaining: 0, resetMs: 1000 } });
+      vi.advanceTimersByTime(1000);
+
+      expect(tracker.getRequiredDelayMs()).toBe(0);
+      expect(tracker.getUsageStats().server).toBeUndefined();
+    });
+
+    it("ignores quotas without a reset time and when disabled", () => {
+      tracker = new RateLimitTracker({ enabled: true });
+      tracker.recordServerLimits({ tokens: { remaining: 0 } });
+      expect(tracker.getRequiredDelayMs()).toBe(0);
+
+      tracker = new RateLimitTracker();
+      tracker.recordServerLimits({ tokens: { remaining: 0, resetMs: 1000 } });
+      expect(tracker.getRequiredDelayMs()).toBe(0);
+    });
+
+    it("combines with configured limits, using the longest delay", () => {
+      tracker = new RateLimitTracker({ requestsPerMinute: 1 });
+
+      tracker.recordUsage(10, 10);
+      tracker.recordServerLimits({ tokens: { remaining: 0, resetMs: 90_000 } });
+
+      expect(tracker.getRequiredDelayMs()).toBe(90_000);
+    });
+
+    it("clears server quotas on reset", () => {
+      tracker = new RateLimitTracker({ enabled: true });
+      tracker.recordServerLimits({ tokens: { remaining: 0, resetMs: 1000 } });
+
+      tracker.reset();
+
+      expect(tracker.getRequiredDelayMs()).toBe(0);
+    });
+  });
 });
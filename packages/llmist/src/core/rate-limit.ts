@@ -110,6 +110,31 @@ export function resolveRateLimitConfig(config?: RateLimitConfig): ResolvedRateLi
   };
 }
 
+/**
+ * A quota reported by the provider in response headers.
+ */
+export interface ServerQuota {
+  /** Size of the quota window (e.g., requests per day), when reported */
+  limit?: number;
+  /** Units left in the current window */
+  remaining: number;
+  /** Milliseconds until the window replenishes, when reported */
+  resetMs?: number;
+}
+
+/**
+ * Rate limit quotas the provider reported with a response
+ * (e.g., `x-ratelimit-remaining-tokens`).
+ *
+ * Providers that expose them attach them to the first stream chunk as
+ * `LLMStreamChunk.rateLimits`; the agent feeds them to
+ * {@link RateLimitTracker.recordServerLimits}.
+ */
+export interface ServerRateLimits {
+  requests?: ServerQuota;
+  tokens?: ServerQuota;
+}
+
 /**
  * Information about a triggered rate limit.
  */
@@ -141,7 +166,11 @@ export interface RateLimitStats {
     rpm?: TriggeredLimitInfo;
     tpm?: TriggeredLimitInfo;
     daily?: TriggeredLimitInfo;
+    /** Server-reported quotas that are (nearly) exhausted */
+    server?: ServerRateLimits;
   };
+  /** Latest server-reported quotas that have not reset yet */
+  server?: ServerRateLimits;
 }
 
 /**
@@ -152,6 +181,17 @@ interface TokenUsageEntry {
   tokens: number;
 }
 
+/**
+ * Server quota with an absolute reset time.
+ */
+interface TrackedServerQuota {
+  limit?: number;
+  remaining: number;
+  resetAt?: number;
+}
+
+type TrackedServerQuotas = { [K in keyof ServerRateLimits]: TrackedServerQuota };
+
 /**
  * Tracks API usage and calculates required delays for proactive rate limiting.
  *
@@ -193,6 +233,9 @@ export class RateLimitTracker {
   /** Count of pending reservations (for backward compatibility) */
   private pendingReservations = 0;
 
+  /** Latest quotas reported by the provider */
+  private serverQuotas: TrackedServerQuotas = {};
+
   constructor(config?: RateLimitConfig) {
     this.config = resolveRateLimitConfig(config);
     this.dailyResetDate = this.getCurrentDateUTC();
@@ -232,6 +275,30 @@ export class RateLimitTracker {
     this.pruneOldEntries(now);
   }
 
+  /**
+   * Record the quotas a provider reported with its latest response.
+   *
+   * Server quotas are authoritative: they include usage from other processes
+   * sharing the API key, which the sliding windows cannot see. When a quota's
+   * remaining units drop to the safety margin, requests wait until it resets.
+   * Quotas without a reset time are only reported, never waited on.
+   *
+   * @param limits - Quotas parsed from the provider's response headers
+   */
+  recordServerLimits(limits: ServerRateLimits): void {
+    const now = Date.now();
+    for (const kind of ["requests", "tokens"] as const) {
+      const quota = limits[kind];
+      if (quota) {
+        this.serverQuotas[kind] = {
+          limit: quota.limit,
+          remaining: quota.remaining,
+          resetAt: quota.resetMs !== undefined ? now + quota.resetMs : undefined,
+        };
+      }
+    }
+  }
+
   /**
    * Calculate the delay needed before the next request.
    *
@@ -272,6 +339,11 @@ export class RateLimitTracker {
       }
     }
 
+    // Check server-reported quotas
+    for (const quota of Object.values(this.getExhaustedServerQuotas(now))) {
+      maxDelay = Math.max(maxDelay, (quota.resetAt ?? now) - now);
+    }
+
     return Math.ceil(maxDelay);
   }
 
@@ -315,7 +387,7 @@ export class RateLimitTracker {
       }
     }
 
-    return false;
+    return Object.keys(this.getExhaustedServerQuotas(now)).length > 0;
   }
 
   /**
@@ -367,6 +439,13 @@ export class RateLimitTracker {
       }
     }
 
+    const exhausted = this.toServerRateLimits(this.getExhaustedServerQuotas(now), now);
+    if (exhausted) {
+      triggeredBy.server = exhausted;
+    }
+
+    const server = this.toServerRateLimits(this.getActiveServerQuotas(now), now);
+
     return {
       rpm: currentRpm,
       tpm: currentTpm,
@@ -374,6 +453,7 @@ export class RateLimitTracker {
       isApproachingLimit: this.isApproachingLimit(),
       requiredDelayMs: this.getRequiredDelayMs(),
       triggeredBy: Object.keys(triggeredBy).length > 0 ? triggeredBy : undefined,
+      ...(server ? { server } : {}),
     };
   }
 
@@ -387,6 +467,7 @@ export class RateLimitTracker {
     this.dailyTokens = 0;
     this.dailyResetDate = this.getCurrentDateUTC();
     this.pendingReservations = 0;
+    this.serverQuotas = {};
   }
 
   /**
@@ -429,6 +510,12 @@ export class RateLimitTracker {
     const now = Date.now();
     this.requestTimestamps.push(now);
     this.pendingReservations++;
+
+    // Count the request against the server quota until the next response reports it
+    const requests = this.serverQuotas.requests;
+    if (requests && requests.remaining > 0) {
+      requests.remaining--;
+    }
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -486,6 +573,60 @@ export class RateLimitTracker {
     return Math.max(0, delay);
   }
 
+  /**
+   * Server quotas whose reset time has not passed yet.
+   */
+  private getActiveServerQuotas(now: number): TrackedServerQuotas {
+    const active: TrackedServerQuotas = {};
+    for (const kind of ["requests", "tokens"] as const) {
+      const quota = this.serverQuotas[kind];
+      if (quota && (quota.resetAt === undefined || quota.resetAt > now)) {
+        active[kind] = quota;
+      } else {
+        delete this.serverQuotas[kind];
+      }
+    }
+    return active;
+  }
+
+  /**
+   * Active server quotas with a reset time whose remaining units are within
+   * the safety margin (or used up, when the quota size is unknown).
+   */
+  private getExhaustedServerQuotas(now: number): TrackedServerQuotas {
+    const exhausted: TrackedServerQuotas = {};
+    if (!this.config.enabled) {
+      return exhausted;
+    }
+
+    for (const [kind, quota] of Object.entries(this.getActiveServerQuotas(now))) {
+      if (quota.resetAt === undefined) continue;
+      const reserve = quota.limit !== undefined ? quota.limit * (1 - this.config.safetyMargin) : 0;
+      if (quota.remaining <= reserve) {
+        exhausted[kind as keyof ServerRateLimits] = quota;
+      }
+    }
+    return exhausted;
+  }
+
+  /**
+   * Convert tracked quotas back to relative reset times for reporting.
+   */
+  private toServerRateLimits(
+    quotas: TrackedServerQuotas,
+    now: number,
+  ): ServerRateLimits | undefined {
+    const limits: ServerRateLimits = {};
+    for (const [kind, quota] of Object.entries(quotas)) {
+      limits[kind as keyof ServerRateLimits] = {
+        ...(quota.limit !== undefined ? { limit: quota.limit } : {}),
+        remaining: quota.remaining,
+        ...(quota.resetAt !== undefined ? { resetMs: quota.resetAt - now } : {}),
+      };
+    }
+    return Object.keys(limits).length > 0 ? limits : undefined;
+  }
+
   /**
    * Remove entries older than 1 minute from the sliding window.
    */
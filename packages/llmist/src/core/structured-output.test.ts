@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import type { LLMist } from "./client.js";
+import type { LLMGenerationOptions } from "./options.js";
+import { generateObject, StructuredOutputError, streamObject } from "./structured-output.js";
+
+/**
+ * Creates a mock client that answers each stream() call with the next response,
+ * split into the given chunks.
+ */
+function createMockClient(responses: string[][], options: { native?: boolean } = {}) {
+  let call = 0;
+  const stream = vi.fn(async function* (_options: LLMGenerationOptions) {
+    for (const text of responses[call++] ?? []) {
+      yield { text };
+    }
+  });
+
+  return {
+    stream,
+    supportsStructuredOutput: vi.fn(() => options.native ?? true),
+  } as unknown as LLMist & { stream: typeof stream };
+}
+
+const personSchema = z.object({
+  name: z.string(),
+  age: z.number(),
+});
+
+describe("generateObject", () => {
+  it("requests native structured output when the provider supports it", async () => {
+    const client = createMockClient([['{"name": "Ada", "age": 36}']]);
+
+    const person = await generateObject(client, "Invent a person", personSchema, {
+      model: "openai:gpt-4o",
+      schemaName: "person",
+    });
+
+    expect(person).toEqual({ name: "Ada", age: 36 });
+    const request = client.stream.mock.calls[0][0];
+    expect(request.responseFormat).toMatchObject({
+      type: "json_schema",
+      name: "person",
+      schema: { type: "object", required: ["name", "age"] },
+    });
+    expect(request.responseFormat).not.toHaveProperty("schema.$schema");
+    expect(request.messages).toEqual([{ role: "user", content: "Invent a person" }]);
+  });
+
+  it("describes the schema in the prompt when native support is missing", async () => {
+    const client = createMockClient([['```json\n{"name": "Ada", "age": 36}\n```']], {
+      native: false,
+    });
+
+    const person = await generateObject(client, "Invent a person", personSchema, {
+      model: "huggingface:some-model",
+      systemPrompt: "You are creative.",
+    });
+
+    expect(person).toEqual({ name: "Ada", age: 36 });
+    const request = client.stream.mock.calls[0][0];
+    expect(request.responseFormat).toBeUndefined();
+    expect(request.messages[0]).toEqual({ role: "system", content: "You are creative." });
+    expect(request.messages[1].role).toBe("system");
+    expect(request.messages[1].content).toContain('"required"');
+  });
+
+  it("honors an explicit mode over provider support", async () => {
+    const client = createMockClient([['{"name": "Ada", "age": 36}']], { native: true });
+
+    await generateObject(client, "Invent a person", personSchema, { mode: "prompt" });
+
+    expect(client.stream.mock.calls[0][0].responseFormat).toBeUndefined();
+    expect(client.supportsStructuredOutput).not.toHaveBeenCalled();
+  });
+
+  it("repairs invalid output by re-prompting with the validation errors", async () => {
+    const client = createMockClient([
+      ['{"name": "Ada", "age": "36"}'],
+      ['{"name": "Ada", "age": 36}'],
+    ]);
+
+    const person = await generateObject(client, "Invent a person", personSchema);
+
+    expect(person).toEqual({ name: "Ada", age: 36 });
+    expect(client.stream).toHaveBeenCalledTimes(2);
+    const repair = client.stream.mock.calls[1][0];
+    expect(repair.messages.at(-2)).toEqual({
+      role: "assistant",
+      content: '{"name": "Ada", "age": "36"}',
+    });
+    expect(repair.messages.at(-1)?.content).toContain("age:");
+    expect(repair.responseFormat).toBeDefined();
+  });
+
+  it("throws StructuredOutputError when repair attempts are exhausted", async () => {
+    const client = createMockClient([["not json"], ['{"name": "Ada"']]);
+
+    const error = await generateObject(client, "Invent a person", personSchema).catch(
+      (err: unknown) => err,
+    );
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error).toMatchObject({ attempts: 2, text: '{"name": "Ada"' });
+    expect((error as StructuredOutputError).issues[0]).toContain("not valid JSON");
+  });
+
+  it("does not repair when maxRepairAttempts is 0", async () => {
+    const client = createMockClient([['{"name": 1}']]);
+
+    await expect(
+      generateObject(client, "Invent a person", personSchema, { maxRepairAttempts: 0 }),
+    ).rejects.toThrow(StructuredOutputError);
+    expect(client.stream).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("streamObject", () => {
+  it("yields progressively parsed partial objects, then the validated object", async () => {
+    const client = createMockClient([['{"name": "A', 'da", "a', 'ge": 3', "6}"]]);
+
+    const partials: unknown[] = [];
+    for await (const partial of streamObject(client, "Invent a person", personSchema)) {
+      partials.push(partial);
+    }
+
+    expect(partials).toEqual([{ name: "A" }, { name: "Ada" }, { name: "Ada", age: 36 }]);
+  });
+
+  it("yields the repaired object when the streamed output is invalid", async () => {
+    const client = createMockClient([['{"name": "Ada"}'], ['{"name": "Ada", "age": 36}']]);
+
+    const partials: unknown[] = [];
+    for await (const partial of streamObject(client, "Invent a person", personSchema)) {
+      partials.push(partial);
+    }
+
+    expect(partials).toEqual([{ name: "Ada" }, { name: "Ada", age: 36 }]);
+  });
+});
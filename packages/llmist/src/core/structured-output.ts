@@ -0,0 +1,318 @@
+/**
+ * Structured output: typed, validated objects from a Zod schema.
+ *
+ * Providers with native support receive the schema as a
+ * `responseFormat: { type: "json_schema" }` request. Everywhere else the
+ * schema is described in the system prompt. In both modes the response is
+ * validated against the schema, and invalid output is sent back to the model
+ * with the validation errors for repair.
+ *
+ * @example
+ * ```typescript
+ * const recipe = await llmist.text.generateObject(
+ *   "A simple pancake recipe",
+ *   z.object({ title: z.string(), steps: z.array(z.string()) }),
+ * );
+ *
+ * for await (const partial of llmist.text.streamObject("A pancake recipe", schema)) {
+ *   console.log(partial.steps?.length ?? 0, "steps so far");
+ * }
+ * ```
+ *
+ * @module core/structured-output
+ */
+
+import type { ZodType, z } from "zod";
+import { schemaToJSONSchema } from "../gadgets/schema-to-json.js";
+import type { LLMist } from "./client.js";
+import { type LLMMessage, LLMMessageBuilder } from "./messages.js";
+import { resolveModel } from "./model-shortcuts.js";
+import type { JsonSchemaResponseFormat } from "./options.js";
+import { extractJSONText, parseJSONDocument, parsePartialJSON } from "./partial-json.js";
+import type { TextGenerationOptions } from "./quick-methods.js";
+
+/**
+ * Options for `generateObject()` and `streamObject()`.
+ */
+export interface ObjectGenerationOptions extends TextGenerationOptions {
+  /** Schema name reported to the provider (default: "response") */
+  schemaName?: string;
+
+  /** Description of the expected output, sent alongside the schema */
+  schemaDescription?: string;
+
+  /**
+   * How to request structured output:
+   * - `"auto"` (default): native when the provider supports it, prompt otherwise
+   * - `"native"`: always send `responseFormat: { type: "json_schema" }`
+   * - `"prompt"`: always describe the schema in the system prompt
+   */
+  mode?: "auto" | "native" | "prompt";
+
+  /** Follow-up requests allowed after invalid output (default: 1) */
+  maxRepairAttempts?: number;
+}
+
+/**
+ * Recursively optional version of a type, describing a partially streamed object.
+ */
+export type DeepPartial<T> = T extends readonly (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * Thrown when the model does not produce output matching the schema,
+ * even after the allowed repair attempts.
+ */
+export class StructuredOutputError extends Error {
+  /** Raw text of the last response */
+  readonly text: string;
+  /** Human-readable validation or parse problems of the last response */
+  readonly issues: string[];
+  /** Number of requests made, including repair attempts */
+  readonly attempts: number;
+
+  constructor(params: { text: string; issues: string[]; attempts: number }) {
+    super(
+      `Model output did not match the schema after ${params.attempts} attempt(s): ${params.issues.join("; ")}`,
+    );
+    this.name = "StructuredOutputError";
+    this.text = params.text;
+    this.issues = params.issues;
+    this.attempts = params.attempts;
+  }
+}
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 1;
+
+/** Everything needed to issue (and repeat) a structured output request. */
+interface ObjectRequest {
+  model: string;
+  messages: LLMMessage[];
+  responseFormat?: JsonSchemaResponseFormat;
+}
+
+type ValidationResult<T> = { success: true; data: T } | { success: false; issues: string[] };
+
+/**
+ * Generate an object matching a Zod schema.
+ *
+ * @param client - LLMist client instance
+ * @param prompt - User prompt
+ * @param schema - Zod schema the result must satisfy
+ * @param options - Optional configuration
+ * @returns The validated object
+ * @throws StructuredOutputError if the output stays invalid after all repair attempts
+ */
+export async function generateObject<TSchema extends ZodType>(
+  client: LLMist,
+  prompt: string,
+  schema: TSchema,
+  options: ObjectGenerationOptions = {},
+): Promise<z.infer<TSchema>> {
+  const request = buildObjectRequest(client, prompt, schema, options);
+  const text = await collectText(client, request, options);
+  return validateWithRepair(client, request, schema, text, options);
+}
+
+/**
+ * Stream progressively parsed partial objects matching a Zod schema.
+ *
+ * Each yielded value is the object parsed so far; it is not validated until
+ * the stream ends. The last yielded value is the validated object (after a
+ * repair request if the streamed output was invalid).
+ *
+ * @param client - LLMist client instance
+ * @param prompt - User prompt
+ * @param schema - Zod schema the final result must satisfy
+ * @param options - Optional configuration
+ * @returns Async generator yielding partial objects, then the validated object
+ * @throws StructuredOutputError if the output stays invalid after all repair attempts
+ */
+export async function* streamObject<TSchema extends ZodType>(
+  client: LLMist,
+  prompt: string,
+  schema: TSchema,
+  options: ObjectGenerationOptions = {},
+): AsyncGenerator<DeepPartial<z.infer<TSchema>>> {
+  const request = buildObjectRequest(client, prompt, schema, options);
+
+  let text = "";
+  let lastSnapshot: string | undefined;
+  for await (const chunk of client.stream({
+    ...request,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+  })) {
+    if (!chunk.text) continue;
+    text += chunk.text;
+
+    const partial = tryParsePartial(text);
+    if (partial === undefined) continue;
+
+    // Only yield when the parsed object actually changed
+    const snapshot = JSON.stringify(partial);
+    if (snapshot !== lastSnapshot) {
+      lastSnapshot = snapshot;
+      yield partial as DeepPartial<z.infer<TSchema>>;
+    }
+  }
+
+  const result = await validateWithRepair(client, request, schema, text, options);
+  if (JSON.stringify(result) !== lastSnapshot) {
+    yield result as DeepPartial<z.infer<TSchema>>;
+  }
+}
+
+function buildObjectRequest(
+  client: LLMist,
+  prompt: string,
+  schema: ZodType,
+  options: ObjectGenerationOptions,
+): ObjectRequest {
+  const model = resolveModel(options.model ?? "gpt-5-nano");
+  const jsonSchema = toResponseJsonSchema(schema);
+  const mode = options.mode ?? "auto";
+  const native = mode === "native" || (mode === "auto" && client.supportsStructuredOutput(model));
+
+  const builder = new LLMMessageBuilder();
+  if (options.systemPrompt) {
+    builder.addSystem(options.systemPrompt);
+  }
+  if (!native) {
+    builder.addSystem(formatSchemaInstructions(jsonSchema, options.schemaDescription));
+  }
+  builder.addUser(prompt);
+
+  return {
+    model,
+    messages: builder.build(),
+    ...(native
+      ? {
+          responseFormat: {
+            type: "json_schema" as const,
+            schema: jsonSchema,
+            name: options.schemaName ?? "response",
+            ...(options.schemaDescription ? { description: options.schemaDescription } : {}),
+          },
+        }
+      : {}),
+  };
+}
+
+async function validateWithRepair<TSchema extends ZodType>(
+  client: LLMist,
+  request: ObjectRequest,
+  schema: TSchema,
+  initialText: string,
+  options: ObjectGenerationOptions,
+): Promise<z.infer<TSchema>> {
+  const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  let messages = request.messages;
+  let text = initialText;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = validateText(schema, text);
+    if (result.success) {
+      return result.data;
+    }
+    if (attempt >= maxRepairAttempts) {
+      throw new StructuredOutputError({ text, issues: result.issues, attempts: attempt + 1 });
+    }
+
+    messages = [
+      ...messages,
+      { role: "assistant", content: text },
+      { role: "user", content: formatRepairInstructions(result.issues) },
+    ];
+    text = await collectText(client, { ...request, messages }, options);
+  }
+}
+
+/**
+ * Parse text as JSON (a fenced code block is unwrapped) and validate it
+ * against a schema. Problems are returned as human-readable issues.
+ */
+export function validateText<TSchema extends ZodType>(
+  schema: TSchema,
+  text: string,
+): ValidationResult<z.infer<TSchema>> {
+  let value: unknown;
+  try {
+    value = parseJSONDocument(extractJSONText(text));
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : error}`],
+    };
+  }
+
+  const parsed = schema.safeParse(value);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+  return {
+    success: false,
+    issues: parsed.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+    ),
+  };
+}
+
+async function collectText(
+  client: LLMist,
+  request: ObjectRequest,
+  options: ObjectGenerationOptions,
+): Promise<string> {
+  let text = "";
+  for await (const chunk of client.stream({
+    ...request,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+  })) {
+    text += chunk.text;
+  }
+  return text;
+}
+
+function tryParsePartial(text: string): unknown {
+  try {
+    return parsePartialJSON(extractJSONText(text));
+  } catch {
+    // Not JSON (yet) - the final validation reports the problem
+    return undefined;
+  }
+}
+
+/**
+ * Convert a Zod schema to the JSON Schema sent to providers.
+ * The `$schema` keyword is dropped since several providers reject it.
+ */
+function toResponseJsonSchema(schema: ZodType): Record<string, unknown> {
+  const { $schema: _ignored, ...jsonSchema } = schemaToJSONSchema(schema);
+  return jsonSchema;
+}
+
+function formatSchemaInstructions(
+  jsonSchema: Record<string, unknown>,
+  description: string | undefined,
+): string {
+  return [
+    "Respond with a single JSON value that conforms to the JSON Schema below.",
+    "Output only the JSON: no prose, no markdown code fences.",
+    ...(description ? ["", `The value describes: ${description}`] : []),
+    "",
+    JSON.stringify(jsonSchema, null, 2),
+  ].join("\n");
+}
+
+function formatRepairInstructions(issues: string[]): string {
+  return [
+    "Your previous response did not match the required JSON Schema:",
+    ...issues.map((issue) => `- ${issue}`),
+    "",
+    "Respond again with only the corrected JSON.",
+  ].join("\n");
+}
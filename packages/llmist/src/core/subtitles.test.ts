@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { formatSubtitles, formatSubtitleTimestamp } from "./subtitles.js";
+
+const segments = [
+  { start: 0, end: 2.5, text: "Hello there." },
+  { start: 3661.25, end: 3663, text: "An hour later." },
+];
+
+describe("formatSubtitleTimestamp", () => {
+  it("uses a comma for SRT and a dot for VTT", () => {
+    expect(formatSubtitleTimestamp(3661.25, "srt")).toBe("01:01:01,250");
+    expect(formatSubtitleTimestamp(3661.25, "vtt")).toBe("01:01:01.250");
+  });
+
+  it("rounds to milliseconds and clamps negatives to zero", () => {
+    expect(formatSubtitleTimestamp(1.2345, "srt")).toBe("00:00:01,235");
+    expect(formatSubtitleTimestamp(-1, "srt")).toBe("00:00:00,000");
+  });
+});
+
+describe("formatSubtitles", () => {
+  it("formats numbered SRT cues", () => {
+    expect(formatSubtitles(segments, "srt")).toBe(
+      "1\n00:00:00,000 --> 00:00:02,500\nHello there.\n\n" +
+        "2\n01:01:01,250 --> 01:01:03,000\nAn hour later.\n",
+    );
+  });
+
+  it("formats WebVTT with a header", () => {
+    expect(formatSubtitles(segments, "vtt")).toBe(
+      "WEBVTT\n\n" +
+        "00:00:00.000 --> 00:00:02.500\nHello there.\n\n" +
+        "01:01:01.250 --> 01:01:03.000\nAn hour later.\n",
+    );
+  });
+
+  it("returns only the header for VTT without segments", () => {
+    expect(formatSubtitles([], "vtt")).toBe("WEBVTT\n\n");
+    expect(formatSubtitles([], "srt")).toBe("");
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Subtitle formatting for transcription segments.
+ *
+ * Converts `TranscriptionSegment[]` (times in seconds) to SubRip (SRT) or
+ * WebVTT text.
+ *
+ * @module core/subtitles
+ */
+
+import type { TranscriptionSegment } from "./media-types.js";
+
+/**
+ * Supported subtitle formats.
+ */
+export type SubtitleFormat = "srt" | "vtt";
+
+/**
+ * Format seconds as a subtitle timestamp: `HH:MM:SS,mmm` (SRT) or `HH:MM:SS.mmm` (VTT).
+ */
+export function formatSubtitleTimestamp(seconds: number, format: SubtitleFormat): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+  const separator = format === "srt" ? "," : ".";
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Format transcription segments as SRT or WebVTT subtitles.
+ *
+ * @param segments - Segments with start/end times in seconds
+ * @param format - "srt" or "vtt"
+ * @returns Subtitle file content
+ *
+ * @example
+ * ```typescript
+ * const result = await llmist.transcription.transcribe({ model: "whisper-1", audio, timestamps: "segment" });
+ * fs.writeFileSync("talk.vtt", formatSubtitles(result.segments ?? [], "vtt"));
+ * ```
+ */
+export function formatSubtitles(segments: TranscriptionSegment[], format: SubtitleFormat): string {
+  const cues = segments.map((segment, index) => {
+    const timing = `${formatSubtitleTimestamp(segment.start, format)} --> ${formatSubtitleTimestamp(segment.end, format)}`;
+    return format === "srt"
+      ? `${index + 1}\n${timing}\n${segment.text}\n`
+      : `${timing}\n${segment.text}\n`;
+  });
+
+  return format === "srt" ? cues.join("\n") : `WEBVTT\n\n${cues.join("\n")}`;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest";
+import { FALLBACK_CHARS_PER_TOKEN } from "../providers/constants.js";
+import type { ImageContentPart } from "./input-content.js";
+import type { LLMMessage } from "./messages.js";
+import type { ModelSpec } from "./model-catalog.js";
+import { countTokensLocally, resolveTokenizer } from "./tokenizer.js";
+
+vi.mock("tiktoken", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("tiktoken")>();
+  return { ...actual, get_encoding: vi.fn(actual.get_encoding) };
+});
+
+const image: ImageContentPart = {
+  type: "image",
+  source: { type: "url", url: "https://example.com/img.jpg" },
+};
+
+describe("resolveTokenizer", () => {
+  it("prefers the tokenizer declared on the model spec", () => {
+    const spec = { tokenizer: "llama" } as ModelSpec;
+    expect(resolveTokenizer({ provider: "openai", name: "gpt-5" }, spec)).toBe("llama");
+  });
+
+  it("infers the tokenizer from the model name", () => {
+    expect(resolveTokenizer({ provider: "openai", name: "gpt-5" })).toBe("o200k_base");
+    expect(resolveTokenizer({ provider: "openai", name: "gpt-4o" })).toBe("o200k_base");
+    expect(resolveTokenizer({ provider: "openai", name: "gpt-4-turbo" })).toBe("cl100k_base");
+    expect(resolveTokenizer({ provider: "openai", name: "gpt-3.5-turbo" })).toBe("cl100k_base");
+    expect(resolveTokenizer({ provider: "huggingface", name: "meta-llama/Llama-3.3-70B" })).toBe(
+      "llama",
+    );
+  });
+
+  it("matches the family after an OpenRouter vendor prefix", () => {
+    expect(resolveTokenizer({ provider: "openrouter", name: "anthropic/claude-sonnet-4-5" })).toBe(
+      "claude",
+    );
+    expect(resolveTokenizer({ provider: "openrouter", name: "mistralai/mixtral-8x7b" })).toBe(
+      "mistral",
+    );
+  });
+
+  it("falls back to the provider, then to o200k_base", () => {
+    expect(resolveTokenizer({ provider: "bedrock", name: "anthropic.v2" })).toBe("claude");
+    expect(resolveTokenizer({ provider: "vertex", name: "custom-model" })).toBe("gemini");
+    expect(resolveTokenizer({ provider: "deepseek", name: "deepseek-chat" })).toBe("o200k_base");
+  });
+});
+
+describe("countTokensLocally", () => {
+  const messages: LLMMessage[] = [
+    { role: "system", content: "You are helpful." }, // 4 tokens
+    { role: "user", content: "Hello world" }, // 2 tokens
+    { role: "assistant", content: "Hi there!" }, // 3 tokens
+  ];
+
+  it("counts text with the OpenAI encoding", () => {
+    expect(countTokensLocally(messages, "o200k_base")).toBe(9);
+  });
+
+  it("scales approximate family tokenizers", () => {
+    const base = countTokensLocally(messages, "cl100k_base");
+    expect(countTokensLocally(messages, "claude")).toBe(Math.ceil(base * 1.15));
+    expect(countTokensLocally(messages, "mistral")).toBe(Math.ceil(base * 1.1));
+  });
+
+  it("adds a flat rate per media part", () => {
+    const withImage: LLMMessage[] = [
+      { role: "user", content: [{ type: "text", text: "Hello world" }, image] },
+    ];
+    expect(countTokensLocally(withImage, "o200k_base")).toBe(2 + 765);
+    expect(countTokensLocally(withImage, "gemini")).toBe(2 + 258);
+    expect(countTokensLocally(withImage, "llama")).toBe(2);
+  });
+
+  it("skips empty messages", () => {
+    expect(countTokensLocally([], "o200k_base")).toBe(0);
+    expect(countTokensLocally([{ role: "user", content: "" }], "claude")).toBe(0);
+  });
+
+  it("counts characters for the characters tokenizer", () => {
+    expect(countTokensLocally(messages, "characters")).toBe(
+      Math.ceil("You are helpful.Hello worldHi there!".length / FALLBACK_CHARS_PER_TOKEN),
+    );
+  });
+
+  it("loads each encoding once", async () => {
+    // Fresh modules, so no encoding is cached yet
+    vi.resetModules();
+    const tiktoken = await import("tiktoken");
+    vi.mocked(tiktoken.get_encoding).mockClear();
+    const tokenizer = await import("./tokenizer.js");
+
+    tokenizer.countTokensLocally(messages, "claude");
+    tokenizer.countTextTokensLocally("Hello world", "llama");
+
+    expect(vi.mocked(tiktoken.get_encoding).mock.calls).toEqual([["cl100k_base"]]);
+  });
+
+  it("falls back to characters when tiktoken cannot load", async () => {
+    vi.resetModules();
+    const tiktoken = await import("tiktoken");
+    vi.mocked(tiktoken.get_encoding).mockImplementationOnce(() => {
+      throw new Error("tiktoken unavailable");
+    });
+    const tokenizer = await import("./tokenizer.js");
+
+    const text = "Hello world";
+    expect(tokenizer.countTokensLocally([{ role: "user", content: text }], "claude")).toBe(
+      Math.ceil(text.length / FALLBACK_CHARS_PER_TOKEN),
+    );
+  });
+});
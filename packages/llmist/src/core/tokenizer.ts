@@ -0,0 +1,169 @@
+/**
+ * Local (offline) token counting.
+ *
+ * Provider token counting APIs are exact but need a network round trip and
+ * are missing for many models. This module counts tokens in-process with the
+ * bundled tiktoken BPE encodings:
+ * - OpenAI models use their real encoding (`o200k_base` or `cl100k_base`)
+ * - other model families use the closest bundled encoding, scaled by how many
+ *   tokens their own tokenizer produces relative to it (approximate)
+ *
+ * Media parts are counted at a flat per-item rate. When tiktoken cannot be
+ * loaded, text falls back to `FALLBACK_CHARS_PER_TOKEN`.
+ *
+ * The tokenizer for a model comes from `ModelSpec.tokenizer` when set, and is
+ * otherwise inferred from the model name and provider ({@link resolveTokenizer}).
+ *
+ * @module core/tokenizer
+ */
+
+import { get_encoding, type Tiktoken } from "tiktoken";
+import { FALLBACK_CHARS_PER_TOKEN } from "../providers/constants.js";
+import type { LLMMessage } from "./messages.js";
+import { extractMessageText, normalizeMessageContent } from "./messages.js";
+import type { ModelSpec } from "./model-catalog.js";
+import type { ModelDescriptor } from "./options.js";
+
+/**
+ * Local tokenizers.
+ *
+ * - `o200k_base` / `cl100k_base`: exact OpenAI BPE encodings
+ * - `claude`, `gemini`, `llama`, `mistral`: approximations for those families
+ * - `characters`: character-count estimate, no BPE
+ */
+export type TokenizerName =
+  | "o200k_base"
+  | "cl100k_base"
+  | "claude"
+  | "gemini"
+  | "llama"
+  | "mistral"
+  | "characters";
+
+interface TokenizerDefinition {
+  /** Bundled BPE encoding text is counted with (null: characters only) */
+  encoding: "o200k_base" | "cl100k_base" | null;
+  /** Family tokens per encoding token (approximate) */
+  scale: number;
+  /** Flat tokens per image part */
+  imageTokens: number;
+  /** Flat tokens per audio part */
+  audioTokens: number;
+}
+
+/**
+ * Approximation table. Scales compare each family's tokenizer to the bundled
+ * encoding on mixed English, code and JSON; media rates follow the providers'
+ * documented defaults (OpenAI low-detail images, Anthropic ~1000 per image,
+ * Gemini 258 per image or audio clip).
+ */
+const TOKENIZERS: Record<TokenizerName, TokenizerDefinition> = {
+  o200k_base: { encoding: "o200k_base", scale: 1, imageTokens: 765, audioTokens: 0 },
+  cl100k_base: { encoding: "cl100k_base", scale: 1, imageTokens: 765, audioTokens: 0 },
+  claude: { encoding: "cl100k_base", scale: 1.15, imageTokens: 1000, audioTokens: 0 },
+  gemini: { encoding: "o200k_base", scale: 1, imageTokens: 258, audioTokens: 258 },
+  llama: { encoding: "cl100k_base", scale: 1, imageTokens: 0, audioTokens: 0 },
+  mistral: { encoding: "cl100k_base", scale: 1.1, imageTokens: 0, audioTokens: 0 },
+  characters: { encoding: null, scale: 1, imageTokens: 0, audioTokens: 0 },
+};
+
+/** Loaded BPE encodings, kept for the life of the process. */
+const encodings = new Map<string, Tiktoken>();
+
+/** Tokenizers inferred from model names (after any `vendor/` prefix). */
+const MODEL_NAME_TOKENIZERS: Array<[RegExp, TokenizerName]> = [
+  [/^gpt-(?:3\.5|4(?:$|-))/, "cl100k_base"],
+  [/claude/, "claude"],
+  [/gemini|gemma/, "gemini"],
+  [/llama/, "llama"],
+  [/mistral|mixtral|codestral|ministral|magistral|devstral|pixtral/, "mistral"],
+];
+
+/** Tokenizers for providers whose model names don't say the family. */
+const PROVIDER_TOKENIZERS: Record<string, TokenizerName> = {
+  anthropic: "claude",
+  bedrock: "claude",
+  gemini: "gemini",
+  vertex: "gemini",
+  mistral: "mistral",
+};
+
+/**
+ * Pick the local tokenizer for a model.
+ *
+ * `spec.tokenizer` wins; otherwise the model name is matched against known
+ * families (so `openrouter:anthropic/claude-...` counts as Claude), then the
+ * provider, defaulting to `o200k_base`.
+ */
+export function resolveTokenizer(descriptor: ModelDescriptor, spec?: ModelSpec): TokenizerName {
+  if (spec?.tokenizer) return spec.tokenizer;
+
+  const name = descriptor.name.toLowerCase().replace(/^.*\//, "");
+  for (const [pattern, tokenizer] of MODEL_NAME_TOKENIZERS) {
+    if (pattern.test(name)) return tokenizer;
+  }
+  return PROVIDER_TOKENIZERS[descriptor.provider] ?? "o200k_base";
+}
+
+/**
+ * Count input tokens for messages without calling a provider.
+ *
+ * @param messages - Messages to count
+ * @param tokenizer - Tokenizer to count with (see {@link resolveTokenizer})
+ * @returns Estimated input token count
+ */
+export function countTokensLocally(messages: LLMMessage[], tokenizer: TokenizerName): number {
+  const definition = TOKENIZERS[tokenizer];
+  const texts: string[] = [];
+  let mediaTokens = 0;
+
+  for (const message of messages) {
+    if (!message.content) continue;
+    for (const part of normalizeMessageContent(message.content)) {
+      if (part.type === "text") {
+        texts.push(part.text);
+      } else if (part.type === "image") {
+        mediaTokens += definition.imageTokens;
+      } else if (part.type === "audio") {
+        mediaTokens += definition.audioTokens;
+      } else {
+        texts.push(extractMessageText([part]));
+      }
+    }
+  }
+
+  return countTextTokens(texts, definition) + mediaTokens;
+}
+
+/**
+ * Count the tokens of a plain text without calling a provider.
+ *
+ * @param text - Text to count
+ * @param tokenizer - Tokenizer to count with (see {@link resolveTokenizer})
+ * @returns Estimated token count
+ */
+export function countTextTokensLocally(text: string, tokenizer: TokenizerName): number {
+  return countTextTokens([text], TOKENIZERS[tokenizer]);
+}
+
+function countTextTokens(texts: string[], definition: TokenizerDefinition): number {
+  if (definition.encoding) {
+    try {
+      let encoding = encodings.get(definition.encoding);
+      if (!encoding) {
+        encoding = get_encoding(definition.encoding);
+        encodings.set(definition.encoding, encoding);
+      }
+      let tokens = 0;
+      for (const text of texts) {
+        tokens += encoding.encode(text).length;
+      }
+      return Math.ceil(tokens * definition.scale);
+    } catch {
+      // tiktoken unavailable (e.g., no WASM support): estimate from characters
+    }
+  }
+
+  const chars = texts.reduce((total, text) => total + text.length, 0);
+  return Math.ceil(chars / FALLBACK_CHARS_PER_TOKEN);
+}
@@ -9,6 +9,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { LLMist } from "../core/client.js";
 import type { ModelRegistry } from "../core/model-registry.js";
 import type { LLMGenerationOptions, LLMStreamChunk } from "../core/options.js";
+import type { ResearchEvent, ResearchJob, ResearchResult } from "../research/types.js";
 import { CostReportingLLMistWrapper } from "./cost-reporting-client.js";
 
 /**
@@ -517,6 +518,36 @@ describe("CostReportingLLMistWrapper", () => {
     });
   });
 
+  describe("image.edit() and image.variations()", () => {
+    it("reports cost from edits and variations", async () => {
+      const editResult = {
+        images: [{ b64Json: "ZWRpdGVk" }],
+        model: "gpt-image-1",
+        usage: { imagesGenerated: 1, size: "1024x1024", quality: "low" },
+        cost: 0.0187,
+      };
+      const mockClient = {
+        modelRegistry: createMockClient([]).modelRegistry,
+        stream: createMockClient([]).stream,
+        image: {
+          edit: vi.fn(async () => editResult),
+          variations: vi.fn(async () => ({ ...editResult, cost: 0.02 })),
+        },
+      } as unknown as LLMist;
+      const wrapper = new CostReportingLLMistWrapper(mockClient, reportCost);
+
+      const edited = await wrapper.image.edit({
+        model: "gpt-image-1",
+        image: Buffer.from("png"),
+        prompt: "Add a hat",
+      });
+      await wrapper.image.variations({ model: "dall-e-2", image: Buffer.from("png") });
+
+      expect(edited).toBe(editResult);
+      expect(reportedCosts).toEqual([0.0187, 0.02]);
+    });
+  });
+
   describe("speech.generate()", () => {
     it("reports cost from speech generation", async () => {
       const mockClient = {
@@ -660,4 +691,226 @@ describe("CostReportingLLMistWrapper", () => {
       });
     });
   });
+
+  describe("transcription.transcribe()", () => {
+    const createTranscriptionClient = (cost: number | undefined) =>
+      ({
+        modelRegistry: createMockClient([]).modelRegistry,
+        stream: createMockClient([]).stream,
+        transcription: {
+          transcribe: vi.fn(async () => ({
+            text: "Hello",
+            model: "whisper-1",
+            usage: { durationSeconds: 60 },
+            cost,
+          })),
+        },
+      }) as unknown as LLMist;
+
+    it("reports cost from transcription", async () => {
+      const wrapper = new CostReportingLLMistWrapper(createTranscriptionClient(0.006), reportCost);
+
+      const result = await wrapper.transcription.transcribe({
+        model: "whisper-1",
+        audio: Buffer.from("audio"),
+      });
+
+      expect(result.text).toBe("Hello");
+      expect(reportedCosts).toEqual([0.006]);
+    });
+
+    it("does not report cost when cost is undefined", async () => {
+      const wrapper = new CostReportingLLMistWrapper(
+        createTranscriptionClient(undefined),
+        reportCost,
+      );
+
+      await wrapper.transcription.transcribe({ model: "whisper-1", audio: Buffer.from("audio") });
+
+      expect(reportedCosts).toEqual([]);
+    });
+  });
+
+  describe("embeddings.create()", () => {
+    const createEmbeddingClient = (cost: number | undefined) =>
+      ({
+        modelRegistry: createMockClient([]).modelRegistry,
+        stream: createMockClient([]).stream,
+        embeddings: {
+          create: vi.fn(async () => ({
+            embeddings: [[0.1, 0.2]],
+            model: "text-embedding-3-small",
+            dimensions: 2,
+            usage: { inputTokens: 500 },
+            cost,
+          })),
+        },
+      }) as unknown as LLMist;
+
+    it("reports cost from embeddings", async () => {
+      const wrapper = new CostReportingLLMistWrapper(createEmbeddingClient(0.00001), reportCost);
+
+      const result = await wrapper.embeddings.create({
+        model: "text-embedding-3-small",
+        input: "Hello",
+      });
+
+      expect(result.embeddings).toEqual([[0.1, 0.2]]);
+      expect(reportedCosts).toEqual([0.00001]);
+    });
+
+    it("does not report cost when cost is zero or undefined", async () => {
+      for (const cost of [0, undefined]) {
+        const wrapper = new CostReportingLLMistWrapper(createEmbeddingClient(cost), reportCost);
+        await wrapper.embeddings.create({ model: "BAAI/bge-m3", input: "Hello" });
+      }
+
+      expect(reportedCosts).toEqual([]);
+    });
+  });
+
+  describe("research", () => {
+    const createResearchClient = (costUSD: number | undefined) => {
+      const events: ResearchEvent[] = [
+        { type: "created", jobId: "job-1" },
+        { type: "text", delta: "Report." },
+        { type: "done", result: { status: "completed", report: "" } },
+      ];
+      const result = {
+        jobId: "job-1",
+        provider: "openai",
+        model: "gpt-5.5-pro",
+        status: "completed",
+        report: "Report.",
+        citations: [],
+        usage: { costUSD },
+      } as unknown as ResearchResult;
+      const createJob = (): ResearchJob =>
+        ({
+          jobId: "job-1",
+          provider: "openai",
+          model: "gpt-5.5-pro",
+          events: () =>
+            (async function* () {
+              yield* events;
+            })(),
+          result: vi.fn(async () => result),
+        }) as unknown as ResearchJob;
+
+      return {
+        modelRegistry: createMockClient([]).modelRegistry,
+        stream: createMockClient([]).stream,
+        research: { start: vi.fn(createJob), attach: vi.fn(createJob) },
+      } as unknown as LLMist;
+    };
+
+    it("reports cost once when the event stream completes", async () => {
+      const wrapper = new CostReportingLLMistWrapper(createResearchClient(1.25), reportCost);
+
+      const job = wrapper.research.start({ model: "openai:gpt-5.5-pro", query: "q" });
+      const types: string[] = [];
+      for await (const event of job) {
+        types.push(event.type);
+      }
+      await job.result();
+
+      expect(types).toEqual(["created", "text", "done"]);
+      expect(job.jobId).toBe("job-1");
+      expect(reportedCosts).toEqual([1.25]);
+    });
+
+    it("does not report cost when the consumer stops early", async () => {
+      const wrapper = new CostReportingLLMistWrapper(createResearchClient(1.25), reportCost);
+
+      const job = wrapper.research.attach({
+        provider: "openai",
+        model: "gpt-5.5-pro",
+        jobId: "job-1",
+      });
+      for await (const event of job) {
+        if (event.type === "created") break;
+      }
+
+      expect(reportedCosts).toEqual([]);
+    });
+
+    it("does not report cost when cost is undefined", async () => {
+      const wrapper = new CostReportingLLMistWrapper(createResearchClient(undefined), reportCost);
+
+      await wrapper.research.start({ model: "openai:gpt-5.5-pro", query: "q" }).result();
+
+      expect(reportedCosts).toEqual([]);
+    });
+  });
+
+  describe("credentials", () => {
+    const credentials = { anthropic: { apiKey: "tenant-key" } };
+
+    const createRecordingClient = () => {
+      const stream = vi.fn((_options: LLMGenerationOptions) =>
+        (async function* () {
+          yield { text: "ok", usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } };
+        })(),
+      );
+      return { client: { ...createMockClient([]), stream } as unknown as LLMist, stream };
+    };
+
+    it("makes text calls with the wrapper's credentials", async () => {
+      const { client, stream } = createRecordingClient();
+      const wrapper = new CostReportingLLMistWrapper(client, reportCost, credentials);
+
+      await wrapper.complete("Test");
+      for await (const _text of wrapper.streamText("Test")) {
+        // Consume
+      }
+      for await (const _chunk of wrapper.stream({ model: "haiku", messages: [] })) {
+        // Consume
+      }
+
+      expect(stream).toHaveBeenCalledTimes(3);
+      for (const [options] of stream.mock.calls) {
+        expect(options.credentials).toBe(credentials);
+      }
+    });
+
+    it("keeps credentials passed with the call", async () => {
+      const { client, stream } = createRecordingClient();
+      const wrapper = new CostReportingLLMistWrapper(client, reportCost, credentials);
+      const own = { openai: { apiKey: "call-key" } };
+
+      await wrapper.complete("Test", { credentials: own });
+      for await (const _chunk of wrapper.stream({
+        model: "haiku",
+        messages: [],
+        credentials: own,
+      })) {
+        // Consume
+      }
+
+      expect(stream.mock.calls.map(([options]) => options.credentials)).toEqual([own, own]);
+    });
+
+    it("rejects media and research calls that would use the client's key", async () => {
+      const client = {
+        ...createMockClient([]),
+        image: { generate: vi.fn() },
+        embeddings: { create: vi.fn() },
+        research: { start: vi.fn() },
+      } as unknown as LLMist;
+      const wrapper = new CostReportingLLMistWrapper(client, reportCost, credentials);
+
+      await expect(wrapper.image.generate({ model: "dall-e-3", prompt: "cat" })).rejects.toThrow(
+        "ctx.llmist image generation does not support per-request credentials",
+      );
+      await expect(
+        wrapper.embeddings.create({ model: "text-embedding-3-small", input: "Hello" }),
+      ).rejects.toThrow("ctx.llmist embeddings does not support per-request credentials");
+      expect(() => wrapper.research.start({ model: "openai:gpt-5.5-pro", query: "q" })).toThrow(
+        "ctx.llmist research does not support per-request credentials",
+      );
+      expect(client.image.generate).not.toHaveBeenCalled();
+      expect(client.embeddings.create).not.toHaveBeenCalled();
+      expect(client.research.start).not.toHaveBeenCalled();
+    });
+  });
 });
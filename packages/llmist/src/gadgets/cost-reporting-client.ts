@@ -10,19 +10,41 @@
 
 import type { LLMist } from "../core/client.js";
 import type {
+  EmbeddingOptions,
+  EmbeddingResult,
+  ImageEditOptions,
   ImageGenerationOptions,
   ImageGenerationResult,
+  ImageVariationOptions,
   SpeechGenerationOptions,
   SpeechGenerationResult,
+  TranscriptionOptions,
+  TranscriptionResult,
 } from "../core/media-types.js";
 import type { ModelRegistry } from "../core/model-registry.js";
 import { resolveModel } from "../core/model-shortcuts.js";
-import type { LLMGenerationOptions, LLMStream, LLMStreamChunk } from "../core/options.js";
+import type {
+  LLMGenerationOptions,
+  LLMStream,
+  LLMStreamChunk,
+  ProviderCredentialsMap,
+} from "../core/options.js";
 import type { TextGenerationOptions } from "../core/quick-methods.js";
 import type {
+  ResearchEvent,
+  ResearchJob,
+  ResearchJobRef,
+  ResearchOptions,
+  ResearchResult,
+  ResearchStatus,
+} from "../research/types.js";
+import type {
+  CostReportingEmbeddingNamespace,
   CostReportingImageNamespace,
   CostReportingLLMist,
+  CostReportingResearchNamespace,
   CostReportingSpeechNamespace,
+  CostReportingTranscriptionNamespace,
 } from "./types.js";
 
 /**
@@ -36,6 +58,11 @@ export type CostReporter = (amount: number) => void;
  * This wrapper intercepts all LLM calls, tracks token usage from responses,
  * calculates costs using ModelRegistry, and reports them via the callback.
  *
+ * With `credentials`, text calls are made with those keys unless the call
+ * brings its own. The image, speech, transcription, embeddings and research
+ * namespaces cannot take per-request keys, so they throw instead of billing
+ * the client's own key.
+ *
  * @example
  * ```typescript
  * let totalCost = 0;
@@ -51,15 +78,43 @@ export type CostReporter = (amount: number) => void;
 export class CostReportingLLMistWrapper implements CostReportingLLMist {
   readonly image: CostReportingImageNamespace;
   readonly speech: CostReportingSpeechNamespace;
+  readonly transcription: CostReportingTranscriptionNamespace;
+  readonly embeddings: CostReportingEmbeddingNamespace;
+  readonly research: CostReportingResearchNamespace;
 
   constructor(
     private readonly client: LLMist,
     private readonly reportCost: CostReporter,
+    private readonly credentials?: ProviderCredentialsMap,
   ) {
     // Initialize image namespace with cost reporting
+    const reportImageCost = (result: ImageGenerationResult): ImageGenerationResult => {
+      // Report cost if available in the result
+      if (result.cost !== undefined && result.cost > 0) {
+        this.reportCost(result.cost);
+      }
+      return result;
+    };
     this.image = {
       generate: async (options: ImageGenerationOptions): Promise<ImageGenerationResult> => {
-        const result = await this.client.image.generate(options);
+        this.assertNoCredentials("image generation");
+        return reportImageCost(await this.client.image.generate(options));
+      },
+      edit: async (options: ImageEditOptions): Promise<ImageGenerationResult> => {
+        this.assertNoCredentials("image generation");
+        return reportImageCost(await this.client.image.edit(options));
+      },
+      variations: async (options: ImageVariationOptions): Promise<ImageGenerationResult> => {
+        this.assertNoCredentials("image generation");
+        return reportImageCost(await this.client.image.variations(options));
+      },
+    };
+
+    // Initialize speech namespace with cost reporting
+    this.speech = {
+      generate: async (options: SpeechGenerationOptions): Promise<SpeechGenerationResult> => {
+        this.assertNoCredentials("speech generation");
+        const result = await this.client.speech.generate(options);
         // Report cost if available in the result
         if (result.cost !== undefined && result.cost > 0) {
           this.reportCost(result.cost);
@@ -68,10 +123,11 @@ export class CostReportingLLMistWrapper implements CostReportingLLMist {
       },
     };
 
-    // Initialize speech namespace with cost reporting
-    this.speech = {
-      generate: async (options: SpeechGenerationOptions): Promise<SpeechGenerationResult> => {
-        const result = await this.client.speech.generate(options);
+    // Initialize transcription namespace with cost reporting
+    this.transcription = {
+      transcribe: async (options: TranscriptionOptions): Promise<TranscriptionResult> => {
+        this.assertNoCredentials("transcription");
+        const result = await this.client.transcription.transcribe(options);
         // Report cost if available in the result
         if (result.cost !== undefined && result.cost > 0) {
           this.reportCost(result.cost);
@@ -79,6 +135,31 @@ export class CostReportingLLMistWrapper implements CostReportingLLMist {
         return result;
       },
     };
+
+    // Initialize embeddings namespace with cost reporting
+    this.embeddings = {
+      create: async (options: EmbeddingOptions): Promise<EmbeddingResult> => {
+        this.assertNoCredentials("embeddings");
+        const result = await this.client.embeddings.create(options);
+        // Report cost if available in the result
+        if (result.cost !== undefined && result.cost > 0) {
+          this.reportCost(result.cost);
+        }
+        return result;
+      },
+    };
+
+    // Initialize research namespace: jobs report their cost once they finish
+    this.research = {
+      start: (options: ResearchOptions): ResearchJob => {
+        this.assertNoCredentials("research");
+        return new CostReportingResearchJob(this.client.research.start(options), this.reportCost);
+      },
+      attach: (ref: ResearchJobRef): ResearchJob => {
+        this.assertNoCredentials("research");
+        return new CostReportingResearchJob(this.client.research.attach(ref), this.reportCost);
+      },
+    };
   }
 
   /**
@@ -118,6 +199,7 @@ export class CostReportingLLMistWrapper implements CostReportingLLMist {
       messages,
       temperature: options?.temperature,
       maxTokens: options?.maxTokens,
+      credentials: options?.credentials ?? this.credentials,
     })) {
       result += chunk.text ?? "";
       if (chunk.usage) {
@@ -170,6 +252,7 @@ export class CostReportingLLMistWrapper implements CostReportingLLMist {
         messages,
         temperature: options?.temperature,
         maxTokens: options?.maxTokens,
+        credentials: options?.credentials ?? this.credentials,
       })) {
         if (chunk.text) {
           yield chunk.text;
@@ -211,7 +294,10 @@ export class CostReportingLLMistWrapper implements CostReportingLLMist {
    * Creates a wrapped stream that tracks usage and reports costs on completion.
    */
   private createCostReportingStream(options: LLMGenerationOptions): LLMStream {
-    const innerStream = this.client.stream(options);
+    const innerStream = this.client.stream({
+      ...options,
+      credentials: options.credentials ?? this.credentials,
+    });
     const reportCostFromUsage = this.reportCostFromUsage.bind(this);
     const model = options.model;
 
@@ -278,4 +364,88 @@ export class CostReportingLLMistWrapper implements CostReportingLLMist {
       this.reportCost(estimate.totalCost);
     }
   }
+
+  /**
+   * Throw for calls that would be made with the client's own key while the
+   * wrapper has per-request credentials.
+   */
+  private assertNoCredentials(feature: string): void {
+    if (this.credentials) {
+      throw new Error(
+        `ctx.llmist ${feature} does not support per-request credentials and would bill the client's own key`,
+      );
+    }
+  }
+}
+
+/**
+ * Research job wrapper that reports the run's cost exactly once, when the
+ * event stream runs to completion or `result()` resolves. Consumers that stop
+ * iterating early (e.g. to collect a background job later) report nothing.
+ */
+class CostReportingResearchJob implements ResearchJob {
+  private reported = false;
+
+  constructor(
+    private readonly job: ResearchJob,
+    private readonly reportCost: CostReporter,
+  ) {}
+
+  get jobId(): string | null {
+    return this.job.jobId;
+  }
+
+  get provider(): string {
+    return this.job.provider;
+  }
+
+  get model(): string {
+    return this.job.model;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ResearchEvent> {
+    return this.events()[Symbol.asyncIterator]();
+  }
+
+  events(): AsyncIterable<ResearchEvent> {
+    // Called eagerly so a second consumption throws synchronously, as on the inner job.
+    return this.reportWhenDrained(this.job.events());
+  }
+
+  async result(): Promise<ResearchResult> {
+    const result = await this.job.result();
+    this.report(result);
+    return result;
+  }
+
+  status(): Promise<ResearchStatus> {
+    return this.job.status();
+  }
+
+  cancel(): Promise<void> {
+    return this.job.cancel();
+  }
+
+  toRef(): ResearchJobRef {
+    return this.job.toRef();
+  }
+
+  private async *reportWhenDrained(
+    events: AsyncIterable<ResearchEvent>,
+  ): AsyncGenerator<ResearchEvent> {
+    yield* events;
+    try {
+      this.report(await this.job.result());
+    } catch {
+      // Failed runs (timeout, abort) have no final usage to report.
+    }
+  }
+
+  private report(result: ResearchResult): void {
+    const cost = result.usage.costUSD;
+    if (!this.reported && cost !== undefined && cost > 0) {
+      this.reported = true;
+      this.reportCost(cost);
+    }
+  }
 }
@@ -1,3 +1,5 @@
+import type { ExecutionTree } from "../core/execution-tree.js";
+
 /**
  * Signal that a gadget throws to indicate task completion and agent termination.
  *
@@ -40,8 +42,9 @@ export class TaskCompletionSignal extends Error {
  * 3. Return the user's answer as the gadget's result
  * 4. Continue the loop with the answer added to conversation history
  *
- * If no callback is provided, the loop will yield a `human_input_required` event
- * and the caller must handle it externally.
+ * With `AgentBuilder.withSuspendOnHumanInput()` the agent yields a
+ * `human_input_required` event instead and ends the run with a `suspended`
+ * event; `AgentBuilder.resumeWithAnswer()` continues it once the answer is known.
  *
  * @example
  * ```typescript
@@ -182,3 +185,52 @@ export class BudgetPricingUnavailableError extends Error {
     this.budget = budget;
   }
 }
+
+/**
+ * Exception thrown when the agent refuses an LLM call because its worst-case
+ * cost exceeds the remaining budget (see `BudgetPolicy`).
+ *
+ * Carries the execution tree as it was when the call was refused, so the work
+ * done so far (results, cost, tokens) can still be inspected.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await LLMist.createAgent()
+ *     .withModel("opus")
+ *     .withBudget(0.5, { onExceed: "refuse" })
+ *     .askAndCollect("...");
+ * } catch (error) {
+ *   if (error instanceof BudgetExceededError) {
+ *     console.log(`Stopped at $${error.totalCost.toFixed(4)}`, error.tree.getNodeCount());
+ *   }
+ * }
+ * ```
+ */
+export class BudgetExceededError extends Error {
+  public readonly budget: number;
+  public readonly totalCost: number;
+  public readonly model: string;
+  public readonly estimatedCost: number;
+  public readonly tree: ExecutionTree;
+
+  constructor(options: {
+    budget: number;
+    totalCost: number;
+    model: string;
+    estimatedCost: number;
+    tree: ExecutionTree;
+  }) {
+    super(
+      `Budget of $${options.budget.toFixed(2)} would be exceeded: the next call to ` +
+        `"${options.model}" could cost up to $${options.estimatedCost.toFixed(4)} but only ` +
+        `$${Math.max(0, options.budget - options.totalCost).toFixed(4)} remains.`,
+    );
+    this.name = "BudgetExceededError";
+    this.budget = options.budget;
+    this.totalCost = options.totalCost;
+    this.model = options.model;
+    this.estimatedCost = options.estimatedCost;
+    this.tree = options.tree;
+  }
+}
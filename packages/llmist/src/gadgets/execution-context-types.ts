@@ -11,16 +11,23 @@ import type { ILogObj, Logger } from "tslog";
 import type { Observers } from "../agent/hooks.js";
 import type { ExecutionTree, NodeId } from "../core/execution-tree.js";
 import type {
+  EmbeddingOptions,
+  EmbeddingResult,
+  ImageEditOptions,
   ImageGenerationOptions,
   ImageGenerationResult,
+  ImageVariationOptions,
   SpeechGenerationOptions,
   SpeechGenerationResult,
+  TranscriptionOptions,
+  TranscriptionResult,
 } from "../core/media-types.js";
 import type { ModelRegistry } from "../core/model-registry.js";
-import type { LLMGenerationOptions, LLMStream } from "../core/options.js";
+import type { LLMGenerationOptions, LLMStream, ProviderCredentialsMap } from "../core/options.js";
 import type { TextGenerationOptions } from "../core/quick-methods.js";
 import type { RateLimitTracker } from "../core/rate-limit.js";
 import type { ResolvedRetryConfig } from "../core/retry.js";
+import type { ResearchJob, ResearchJobRef, ResearchOptions } from "../research/types.js";
 import type { AgentContextConfig, SubagentConfigMap } from "./subagent-config-types.js";
 
 export type { AgentContextConfig, SubagentConfigMap };
@@ -38,6 +45,18 @@ export interface CostReportingImageNamespace {
    * Costs are automatically reported to the execution context.
    */
   generate(options: ImageGenerationOptions): Promise<ImageGenerationResult>;
+
+  /**
+   * Edit existing image(s) from a text prompt, optionally with a mask.
+   * Costs are automatically reported to the execution context.
+   */
+  edit(options: ImageEditOptions): Promise<ImageGenerationResult>;
+
+  /**
+   * Create variations of an existing image.
+   * Costs are automatically reported to the execution context.
+   */
+  variations(options: ImageVariationOptions): Promise<ImageGenerationResult>;
 }
 
 /**
@@ -51,6 +70,45 @@ export interface CostReportingSpeechNamespace {
   generate(options: SpeechGenerationOptions): Promise<SpeechGenerationResult>;
 }
 
+/**
+ * Transcription namespace with automatic cost reporting.
+ */
+export interface CostReportingTranscriptionNamespace {
+  /**
+   * Transcribe audio to text.
+   * Costs are automatically reported to the execution context.
+   */
+  transcribe(options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+/**
+ * Embeddings namespace with automatic cost reporting.
+ */
+export interface CostReportingEmbeddingNamespace {
+  /**
+   * Embed one or more texts.
+   * Costs are automatically reported to the execution context.
+   */
+  create(options: EmbeddingOptions): Promise<EmbeddingResult>;
+}
+
+/**
+ * Research namespace with automatic cost reporting.
+ */
+export interface CostReportingResearchNamespace {
+  /**
+   * Start a deep research run.
+   * The run's cost is reported once it finishes.
+   */
+  start(options: ResearchOptions): ResearchJob;
+
+  /**
+   * Re-attach to a background research job.
+   * The run's cost is reported once it finishes.
+   */
+  attach(ref: ResearchJobRef): ResearchJob;
+}
+
 /**
  * LLMist client interface for use within gadgets.
  *
@@ -104,6 +162,24 @@ export interface CostReportingLLMist {
    * Costs are reported based on input length and model pricing.
    */
   readonly speech: CostReportingSpeechNamespace;
+
+  /**
+   * Transcription with automatic cost reporting.
+   * Costs are reported based on audio duration and per-minute model pricing.
+   */
+  readonly transcription: CostReportingTranscriptionNamespace;
+
+  /**
+   * Embeddings with automatic cost reporting.
+   * Costs are reported based on input tokens and model pricing.
+   */
+  readonly embeddings: CostReportingEmbeddingNamespace;
+
+  /**
+   * Deep research with automatic cost reporting.
+   * Costs are reported from the finished run's token and search usage.
+   */
+  readonly research: CostReportingResearchNamespace;
 }
 
 /**
@@ -171,6 +247,10 @@ export interface ExecutionContext {
    * All LLM calls made through this client will have their costs
    * automatically tracked and included in the gadget's total cost.
    *
+   * When the agent has per-request credentials, text calls are made with
+   * them; the media and research namespaces throw, since they can only use
+   * the client's own key.
+   *
    * This property is optional - it will be `undefined` if:
    * - The gadget is executed via CLI `gadget run` command
    * - The gadget is tested directly without agent context
@@ -574,6 +654,15 @@ export interface ExecutionContext {
    * ```
    */
   retryConfig?: ResolvedRetryConfig;
+
+  /**
+   * Per-request provider credentials of the parent agent
+   * (see `AgentBuilder.withCredentials()`).
+   *
+   * Inherited via `withParentContext(ctx)`, so subagents make their calls
+   * with (and bill) the same keys as the parent.
+   */
+  credentials?: ProviderCredentialsMap;
 }
 
 /**
@@ -37,6 +37,12 @@ export interface GadgetExecutionResult {
    * `AbstractGadget.stickyResult` by the executor.
    */
   stickyResult?: boolean;
+  /**
+   * Question of a gadget that asked for human input while the agent suspends
+   * on human input. Such a result has neither `result` nor `error`: the answer
+   * becomes its result when the agent is resumed.
+   */
+  humanInputQuestion?: string;
 }
 
 /**
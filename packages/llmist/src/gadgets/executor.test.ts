@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
 import { z } from "zod";
 import {
   AskUserGadget,
@@ -587,6 +587,28 @@ describe("GadgetExecutor", () => {
       expect(result.result).toBeUndefined();
     });
 
+    it("returns the question without asking the callback in suspend mode", async () => {
+      const mockCallback = vi.fn();
+      const suspendingExecutor = new GadgetExecutor({
+        registry,
+        requestHumanInput: mockCallback,
+        suspendOnHumanInput: true,
+      });
+      registry.registerByClass(new AskUserGadget());
+
+      const result = await suspendingExecutor.execute({
+        gadgetName: "AskUser",
+        invocationId: "ask-5",
+        parametersRaw: '{"question": "Deploy now?"}',
+        parameters: { question: "Deploy now?" },
+      });
+
+      expect(result).toMatchObject({ invocationId: "ask-5", humanInputQuestion: "Deploy now?" });
+      expect(result.result).toBeUndefined();
+      expect(result.error).toBeUndefined();
+      expect(mockCallback).not.toHaveBeenCalled();
+    });
+
     it("handles async callback correctly", async () => {
       const mockCallback = async (question: string): Promise<string> => {
         // Simulate async user input (e.g., waiting for UI response)
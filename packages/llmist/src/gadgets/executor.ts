@@ -7,6 +7,7 @@ import type { Observers } from "../agent/hooks.js";
 import { LLMist } from "../core/client.js";
 import { GADGET_ARG_PREFIX } from "../core/constants.js";
 import { ExecutionTree, type NodeId } from "../core/execution-tree.js";
+import type { ProviderCredentialsMap } from "../core/options.js";
 import type { RateLimitTracker } from "../core/rate-limit.js";
 import type { ResolvedRetryConfig } from "../core/retry.js";
 import { createLogger } from "../logging/logger.js";
@@ -64,6 +65,12 @@ export interface GadgetExecutorOptions {
   /** Optional callback to request human input during gadget execution */
   requestHumanInput?: (question: string) => Promise<string>;
 
+  /**
+   * Return a pending result (`humanInputQuestion`) instead of asking
+   * `requestHumanInput`, so the agent can suspend until the answer arrives
+   */
+  suspendOnHumanInput?: boolean;
+
   /** Logger instance; defaults to a new "llmist:executor" logger if omitted */
   logger?: Logger<ILogObj>;
 
@@ -113,11 +120,15 @@ export interface GadgetExecutorOptions {
 
   /** Shared retry config for consistent backoff behavior across subagents */
   retryConfig?: ResolvedRetryConfig;
+
+  /** Per-request provider credentials inherited by subagents */
+  credentials?: ProviderCredentialsMap;
 }
 
 export class GadgetExecutor {
   private readonly registry: GadgetRegistry;
   private readonly requestHumanInput?: (question: string) => Promise<string>;
+  private readonly suspendOnHumanInput: boolean;
   private readonly defaultGadgetTimeoutMs?: number;
   private readonly client?: LLMist;
   private readonly mediaStore?: MediaStore;
@@ -130,6 +141,7 @@ export class GadgetExecutor {
   private readonly currentObservers?: Observers;
   private readonly rateLimitTracker?: RateLimitTracker;
   private readonly retryConfig?: ResolvedRetryConfig;
+  private readonly credentials?: ProviderCredentialsMap;
   private readonly logger: Logger<ILogObj>;
   private readonly errorFormatter: GadgetExecutionErrorFormatter;
   private readonly argPrefix: string;
@@ -137,6 +149,7 @@ export class GadgetExecutor {
   constructor(options: GadgetExecutorOptions) {
     this.registry = options.registry;
     this.requestHumanInput = options.requestHumanInput;
+    this.suspendOnHumanInput = options.suspendOnHumanInput ?? false;
     this.defaultGadgetTimeoutMs = options.defaultGadgetTimeoutMs;
     this.client = options.client;
     this.mediaStore = options.mediaStore;
@@ -149,6 +162,7 @@ export class GadgetExecutor {
     this.currentObservers = options.currentObservers;
     this.rateLimitTracker = options.rateLimitTracker;
     this.retryConfig = options.retryConfig;
+    this.credentials = options.credentials;
     this.logger = options.logger ?? createLogger({ name: "llmist:executor" });
     this.errorFormatter = new GadgetExecutionErrorFormatter(options.errorFormatterOptions);
     this.argPrefix = options.errorFormatterOptions?.argPrefix ?? GADGET_ARG_PREFIX;
@@ -354,7 +368,9 @@ export class GadgetExecutor {
 
       const ctx: ExecutionContext = {
         reportCost,
-        llmist: this.client ? new CostReportingLLMistWrapper(this.client, reportCost) : undefined,
+        llmist: this.client
+          ? new CostReportingLLMistWrapper(this.client, reportCost, this.credentials)
+          : undefined,
         signal: abortController.signal,
         agentConfig: this.agentConfig,
         subagentConfig: this.subagentConfig,
@@ -378,6 +394,8 @@ export class GadgetExecutor {
         rateLimitTracker: this.rateLimitTracker,
         // Shared retry config for consistent backoff behavior across subagents
         retryConfig: this.retryConfig,
+        // Tenant credentials so subagents bill the same keys
+        credentials: this.credentials,
       };
 
       // Execute gadget (handle both sync and async)
@@ -526,6 +544,17 @@ export class GadgetExecutor {
           question,
         });
 
+        // In suspend mode the answer arrives when the agent is resumed
+        if (this.suspendOnHumanInput) {
+          return {
+            gadgetName: call.gadgetName,
+            invocationId: call.invocationId,
+            parameters: validatedParameters,
+            humanInputQuestion: question,
+            executionTimeMs: Date.now() - startTime,
+          };
+        }
+
         // If callback is provided, call it and wait for answer
         if (this.requestHumanInput) {
           try {
@@ -10,6 +10,7 @@ import {
   getErrorMessage,
   resultWithAudio,
   resultWithFile,
+  resultWithGeneratedImages,
   resultWithImage,
   resultWithImages,
   resultWithMedia,
@@ -376,6 +377,45 @@ describe("resultWithImages", () => {
   });
 });
 
+describe("resultWithGeneratedImages", () => {
+  const generated = {
+    images: [
+      { b64Json: TINY_PNG.toString("base64"), revisedPrompt: "A red fox" },
+      { url: "https://example.com/fox.png" },
+    ],
+    model: "gpt-image-1",
+    usage: { imagesGenerated: 2, size: "1024x1024", quality: "low" },
+    cost: 0.02,
+  };
+
+  it("converts base64 images to media and skips URL-only images", () => {
+    const result = resultWithGeneratedImages("Generated a fox", generated);
+
+    expect(result.result).toBe("Generated a fox");
+    expect(result.media).toHaveLength(1);
+    expect(result.media![0].mimeType).toBe("image/png");
+    expect(result.media![0].description).toBe("A red fox");
+    expect(result.media![0].metadata).toEqual({ model: "gpt-image-1", size: "1024x1024" });
+  });
+
+  it("does not report the generation cost unless given", () => {
+    expect(resultWithGeneratedImages("Fox", generated).cost).toBeUndefined();
+    expect(resultWithGeneratedImages("Fox", generated, { cost: 0.02 }).cost).toBe(0.02);
+  });
+
+  it("uses the given description over the revised prompt", () => {
+    const result = resultWithGeneratedImages("Fox", generated, { description: "Fox sketch" });
+
+    expect(result.media![0].description).toBe("Fox sketch");
+  });
+
+  it("throws when no image has base64 data", () => {
+    expect(() =>
+      resultWithGeneratedImages("Fox", { ...generated, images: [{ url: "https://x.test/a.png" }] }),
+    ).toThrow('Request responseFormat: "b64_json"');
+  });
+});
+
 describe("resultWithAudio", () => {
   it("creates result with single audio from MP3", () => {
     const result = resultWithAudio("Audio generated", TINY_MP3);
@@ -40,6 +40,7 @@
  */
 
 import { detectAudioMimeType, detectImageMimeType } from "../core/input-content.js";
+import type { ImageGenerationResult } from "../core/media-types.js";
 import type {
   ExecutionContext,
   GadgetExecuteResultWithMedia,
@@ -337,6 +338,64 @@ export function resultWithImages(
   return { result, media, cost };
 }
 
+/**
+ * Options for resultWithGeneratedImages helper.
+ */
+export interface GeneratedImagesOptions {
+  /** Description for every image (defaults to the model's revised prompt, if any) */
+  description?: string;
+  /** Cost in USD. Omit for images from `ctx.llmist`, which reports cost already. */
+  cost?: number;
+}
+
+/**
+ * Create a result from an `image.generate()`, `image.edit()` or
+ * `image.variations()` response, so the images are saved to the MediaStore.
+ *
+ * Only base64 images can be stored. DALL-E models return URLs unless
+ * `responseFormat: "b64_json"` is requested.
+ *
+ * @param result - Text result string
+ * @param generated - Result from the image namespace
+ * @param options - Optional description and cost
+ * @returns A GadgetExecuteResultWithMedia
+ * @throws Error if the result contains no base64 image data
+ *
+ * @example
+ * ```typescript
+ * const edited = await ctx.llmist.image.edit({
+ *   model: "gpt-image-1",
+ *   image: original,
+ *   prompt: "Replace the sky with a sunset",
+ * });
+ * return resultWithGeneratedImages("Edited the photo", edited);
+ * ```
+ */
+export function resultWithGeneratedImages(
+  result: string,
+  generated: ImageGenerationResult,
+  options?: GeneratedImagesOptions,
+): GadgetExecuteResultWithMedia {
+  const images: ImageItem[] = [];
+  for (const image of generated.images) {
+    if (!image.b64Json) continue;
+    images.push({
+      data: Buffer.from(image.b64Json, "base64"),
+      description: options?.description ?? image.revisedPrompt,
+      metadata: { model: generated.model, size: generated.usage.size },
+    });
+  }
+
+  if (images.length === 0) {
+    throw new Error(
+      `resultWithGeneratedImages: the ${generated.model} result has no base64 image data. ` +
+        'Request responseFormat: "b64_json".',
+    );
+  }
+
+  return resultWithImages(result, images, options?.cost);
+}
+
 /**
  * Options for resultWithAudio helper.
  */
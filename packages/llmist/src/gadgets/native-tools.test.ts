@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { collectSyncEvents } from "../../../testing/src/helpers.js";
+import { createGadget } from "./create-gadget.js";
+import { AbstractGadget } from "./gadget.js";
+import { gadgetToToolDefinition, NativeToolCallParser } from "./native-tools.js";
+import { resetGlobalInvocationCounter } from "./parser.js";
+
+describe("gadgetToToolDefinition", () => {
+  it("converts the gadget schema to a JSON Schema tool definition", () => {
+    const gadget = createGadget({
+      name: "Search",
+      description: "Search the web",
+      schema: z.object({ query: z.string().describe("Search terms") }),
+      execute: () => "",
+    });
+
+    const tool = gadgetToToolDefinition(gadget);
+
+    expect(tool).toMatchObject({
+      name: "Search",
+      description: "Search the web",
+      parameters: {
+        type: "object",
+        properties: { query: { type: "string", description: "Search terms" } },
+        required: ["query"],
+      },
+    });
+    expect(tool.parameters).not.toHaveProperty("$schema");
+  });
+
+  it("uses an empty object schema for gadgets without parameters", () => {
+    class Now extends AbstractGadget {
+      description = "Current time";
+      execute(): string {
+        return "";
+      }
+    }
+
+    expect(gadgetToToolDefinition(new Now()).parameters).toEqual({
+      type: "object",
+      properties: {},
+    });
+  });
+});
+
+describe("NativeToolCallParser", () => {
+  let parser: NativeToolCallParser;
+
+  beforeEach(() => {
+    resetGlobalInvocationCounter();
+    parser = new NativeToolCallParser();
+  });
+
+  it("emits a gadget_call when the stream ends", () => {
+    collectSyncEvents(
+      parser.feed([{ index: 0, id: "call_1", name: "Search", argumentsDelta: '{"query":' }]),
+    );
+    collectSyncEvents(parser.feed([{ index: 0, argumentsDelta: ' "llmist"}' }]));
+
+    const events = collectSyncEvents(parser.finalize());
+
+    expect(events.at(-1)).toEqual({
+      type: "gadget_call",
+      call: {
+        gadgetName: "Search",
+        invocationId: "call_1",
+        parametersRaw: '{"query": "llmist"}',
+        parameters: { query: "llmist" },
+        parseError: undefined,
+        dependencies: [],
+      },
+    });
+  });
+
+  it("completes a call as soon as the next call starts", () => {
+    collectSyncEvents(parser.feed([{ index: 0, id: "a", name: "First", argumentsDelta: "{}" }]));
+
+    const events = collectSyncEvents(parser.feed([{ index: 1, id: "b", name: "Second" }]));
+
+    expect(events).toEqual([expect.objectContaining({ type: "gadget_call" })]);
+    expect(events[0].type === "gadget_call" && events[0].call.invocationId).toBe("a");
+  });
+
+  it("emits argument partials with leaf field paths", () => {
+    const events = collectSyncEvents(
+      parser.feed([
+        {
+          index: 0,
+          id: "call_1",
+          name: "Write",
+          argumentsDelta: '{"path": "a.txt", "options": {"tags": ["x", "y',
+        },
+      ]),
+    );
+
+    expect(
+      events.map(
+        (e) => e.type === "gadget_args_partial" && [e.fieldPath, e.value, e.isFieldComplete],
+      ),
+    ).toEqual([
+      ["path", "a.txt", true],
+      ["options/tags/0", "x", true],
+      ["options/tags/1", "y", false],
+    ]);
+  });
+
+  it("generates an invocation ID when the provider sends none", () => {
+    collectSyncEvents(parser.feed([{ index: 0, name: "Now", argumentsDelta: "{}" }]));
+
+    const [event] = collectSyncEvents(parser.finalize());
+
+    expect(event.type === "gadget_call" && event.call.invocationId).toBe("gadget_1");
+  });
+
+  it("treats empty arguments as an empty object", () => {
+    collectSyncEvents(parser.feed([{ index: 0, id: "call_1", name: "Now" }]));
+
+    const [event] = collectSyncEvents(parser.finalize());
+
+    expect(event.type === "gadget_call" && event.call.parameters).toEqual({});
+  });
+
+  it("reports malformed arguments as a parse error", () => {
+    collectSyncEvents(
+      parser.feed([{ index: 0, id: "call_1", name: "Search", argumentsDelta: '{"query": ' }]),
+    );
+
+    const [event] = collectSyncEvents(parser.finalize());
+
+    expect(event.type === "gadget_call" && event.call).toMatchObject({
+      parameters: undefined,
+      parseError: "Unexpected end of JSON input",
+    });
+  });
+});
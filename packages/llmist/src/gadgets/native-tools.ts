@@ -0,0 +1,203 @@
+/**
+ * Native function-calling transport for gadgets.
+ *
+ * Instead of teaching the model the block format, gadgets can be sent as
+ * provider tool definitions. The provider streams tool calls back as
+ * `toolCalls` chunks, which {@link NativeToolCallParser} turns into the same
+ * `gadget_args_partial` and `gadget_call` events the block parser emits, so
+ * dispatch, dependencies and hooks work unchanged.
+ *
+ * @module gadgets/native-tools
+ */
+
+import type { ToolCallDelta, ToolDefinition } from "../core/options.js";
+import { parseJSONDocument, parsePartialJSON } from "../core/partial-json.js";
+import type { AbstractGadget } from "./gadget.js";
+import { nextInvocationId } from "./parser.js";
+import { schemaToJSONSchema } from "./schema-to-json.js";
+import type { StreamEvent } from "./types.js";
+
+/**
+ * How gadget calls travel between the model and the agent:
+ * - `"block"` (default): gadgets are described in the system prompt and called
+ *   with `!!!GADGET_START` blocks in the response text
+ * - `"native"`: gadgets are sent as provider tool definitions and called with
+ *   native tool calls
+ * - `"auto"`: native when the provider supports tool calling for the model,
+ *   block otherwise
+ */
+export type GadgetTransport = "block" | "native" | "auto";
+
+/**
+ * Convert a gadget into a native tool definition.
+ * The `$schema` keyword is dropped since several providers reject it.
+ */
+export function gadgetToToolDefinition(gadget: AbstractGadget): ToolDefinition {
+  const parameters = gadget.parameterSchema
+    ? schemaToJSONSchema(gadget.parameterSchema)
+    : { type: "object", properties: {} };
+  const { $schema: _ignored, ...jsonSchema } = parameters;
+
+  return {
+    name: gadget.name ?? gadget.constructor.name,
+    description: gadget.description,
+    parameters: jsonSchema,
+  };
+}
+
+/** A native tool call being streamed. */
+interface NativeCallState {
+  gadgetName: string;
+  invocationId: string;
+  argumentsRaw: string;
+  /** fieldPath -> value already emitted (drives delta + de-dup). */
+  emittedFields: Map<string, string>;
+  /** fieldPaths already emitted as complete (avoid re-emitting completion). */
+  completedFields: Set<string>;
+}
+
+/**
+ * Parser for native tool call deltas.
+ *
+ * A call is complete once a delta for a later call arrives, or when the
+ * stream ends (`finalize()`). Completed calls are emitted as `gadget_call`
+ * events in the order the model made them; native calls have no dependencies.
+ *
+ * Argument partials use the leaf paths of the arguments parsed so far
+ * (`"title"`, `"config/timeout"`, `"items/0"`); non-string values are
+ * reported as JSON text.
+ */
+export class NativeToolCallParser {
+  private readonly calls = new Map<number, NativeCallState>();
+
+  *feed(deltas: ToolCallDelta[]): Generator<StreamEvent> {
+    for (const delta of deltas) {
+      // A delta for a later call means every earlier call is complete
+      for (const index of [...this.calls.keys()]) {
+        if (index < delta.index) {
+          yield* this.complete(index);
+        }
+      }
+
+      let state = this.calls.get(delta.index);
+      if (!state) {
+        state = {
+          gadgetName: delta.name ?? "",
+          invocationId: delta.id ?? nextInvocationId(),
+          argumentsRaw: "",
+          emittedFields: new Map(),
+          completedFields: new Set(),
+        };
+        this.calls.set(delta.index, state);
+      } else if (delta.name && !state.gadgetName) {
+        state.gadgetName = delta.name;
+      }
+
+      if (delta.argumentsDelta) {
+        state.argumentsRaw += delta.argumentsDelta;
+        yield* this.emitArgPartials(state, parsePartialArguments(state.argumentsRaw), false);
+      }
+    }
+  }
+
+  /** Complete all calls still open at the end of the stream. */
+  *finalize(): Generator<StreamEvent> {
+    for (const index of [...this.calls.keys()].sort((a, b) => a - b)) {
+      yield* this.complete(index);
+    }
+  }
+
+  private *complete(index: number): Generator<StreamEvent> {
+    const state = this.calls.get(index);
+    if (!state) return;
+    this.calls.delete(index);
+
+    // Providers send "" for calls without arguments
+    const parametersRaw = state.argumentsRaw.trim() || "{}";
+    let parameters: Record<string, unknown> | undefined;
+    let parseError: string | undefined;
+    try {
+      const value = parseJSONDocument(parametersRaw);
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new SyntaxError("Tool arguments must be a JSON object");
+      }
+      parameters = value as Record<string, unknown>;
+    } catch (error) {
+      parseError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (parameters) {
+      yield* this.emitArgPartials(state, parameters, true);
+    }
+
+    yield {
+      type: "gadget_call",
+      call: {
+        gadgetName: state.gadgetName,
+        invocationId: state.invocationId,
+        parametersRaw,
+        parameters,
+        parseError,
+        dependencies: [],
+      },
+    };
+  }
+
+  private *emitArgPartials(
+    state: NativeCallState,
+    args: Record<string, unknown> | undefined,
+    callComplete: boolean,
+  ): Generator<StreamEvent> {
+    if (!args) return;
+
+    const fields = flattenFields(args);
+    for (const [position, [fieldPath, value]] of fields.entries()) {
+      // Arguments stream in order, so only the last field can still grow
+      const fieldComplete = callComplete || position < fields.length - 1;
+      const previous = state.emittedFields.get(fieldPath);
+      const changed = value !== previous;
+      const newlyComplete = fieldComplete && !state.completedFields.has(fieldPath);
+      if (!changed && !newlyComplete) continue;
+
+      const delta =
+        previous === undefined || !value.startsWith(previous)
+          ? value
+          : value.slice(previous.length);
+      state.emittedFields.set(fieldPath, value);
+      if (fieldComplete) state.completedFields.add(fieldPath);
+
+      yield {
+        type: "gadget_args_partial",
+        invocationId: state.invocationId,
+        gadgetName: state.gadgetName,
+        fieldPath,
+        value,
+        delta,
+        isFieldComplete: fieldComplete,
+      };
+    }
+  }
+}
+
+function parsePartialArguments(text: string): Record<string, unknown> | undefined {
+  try {
+    const value = parsePartialJSON(text);
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : undefined;
+  } catch {
+    // Malformed arguments - reported as a parse error when the call completes
+    return undefined;
+  }
+}
+
+/** Flatten an arguments object into `[fieldPath, value]` leaf pairs, in order. */
+function flattenFields(value: unknown, prefix = ""): Array<[string, string]> {
+  if (typeof value === "object" && value !== null) {
+    const entries = Array.isArray(value)
+      ? value.map((item, index) => [String(index), item] as const)
+      : Object.entries(value);
+    return entries.flatMap(([key, item]) => flattenFields(item, prefix ? `${prefix}/${key}` : key));
+  }
+  return prefix ? [[prefix, typeof value === "string" ? value : JSON.stringify(value)]] : [];
+}
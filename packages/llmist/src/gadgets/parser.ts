@@ -45,6 +45,15 @@ export function resetGlobalInvocationCounter(): void {
   globalInvocationCounter = 0;
 }
 
+/**
+ * Generate the next auto invocation ID (`gadget_1`, `gadget_2`, ...).
+ * Shared with the native tool call parser so IDs never collide.
+ * @internal
+ */
+export function nextInvocationId(): string {
+  return `gadget_${++globalInvocationCounter}`;
+}
+
 /**
  * Tracks the single in-progress (trailing) gadget while its block streams, so we
  * can emit progressive argument partials with a stable invocationId and per-field
@@ -131,7 +140,7 @@ export class GadgetCallParser {
       // Just name: GadgetName
       return {
         gadgetName: parts[0],
-        invocationId: `gadget_${++globalInvocationCounter}`,
+        invocationId: nextInvocationId(),
         dependencies: [],
       };
     } else if (parts.length === 2) {
@@ -7,8 +7,10 @@
  * @module
  */
 
+import type { AgentCheckpoint } from "../agent/checkpoint.js";
 import type { CompactionEvent } from "../agent/compaction/config.js";
 import type { TokenUsage } from "../core/options.js";
+import type { ServerRateLimits } from "../core/rate-limit.js";
 import type { GadgetExecutionResult, ParsedGadgetCall } from "./execution-result-types.js";
 
 export type { GadgetExecutionResult, ParsedGadgetCall };
@@ -25,6 +27,41 @@ export interface GadgetSkippedEvent {
   failedDependencyError: string;
 }
 
+/**
+ * A gadget's request for human input, made by throwing
+ * `HumanInputRequiredException`.
+ */
+export interface HumanInputRequest {
+  /** Question (or approval prompt) for the human */
+  question: string;
+  gadgetName: string;
+  invocationId: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Gadgets of an LLM response that wait for human input. Only produced when the
+ * agent suspends on human input instead of asking a callback.
+ */
+export interface GadgetSuspension {
+  /** Requests awaiting an answer, in the order they were made */
+  requests: HumanInputRequest[];
+  /** Gadget calls that depend on the requests, directly or through each other */
+  deferredCalls: ParsedGadgetCall[];
+}
+
+/**
+ * Final event of a run that suspended to wait for human input. Pass the token
+ * and the answer to `AgentBuilder.resumeWithAnswer()` to continue the run.
+ */
+export interface AgentSuspendedEvent {
+  type: "suspended";
+  /** Checkpoint to resume from; plain JSON data */
+  token: AgentCheckpoint;
+  /** The request the answer is for */
+  request: HumanInputRequest;
+}
+
 /**
  * Emitted repeatedly while a gadget call is still streaming, surfacing the
  * GROWING RAW value of one argument field BEFORE the gadget block terminates.
@@ -79,6 +116,10 @@ export interface StreamCompletionEvent {
   shouldBreakLoop: boolean;
   /** Accumulated thinking/reasoning content from reasoning models */
   thinkingContent?: string;
+  /** Rate limit quotas the provider reported with the response */
+  rateLimits?: ServerRateLimits;
+  /** Gadgets waiting for human input, when the agent suspends on it */
+  suspension?: GadgetSuspension;
 }
 
 // Stream chunk with text or gadget metadata
@@ -89,7 +130,8 @@ export type StreamEvent =
   | GadgetArgsPartialEvent
   | { type: "gadget_result"; result: GadgetExecutionResult }
   | GadgetSkippedEvent
-  | { type: "human_input_required"; question: string; gadgetName: string; invocationId: string }
+  | ({ type: "human_input_required" } & HumanInputRequest)
   | { type: "compaction"; event: CompactionEvent }
   | { type: "llm_response_end"; finishReason: string | null; usage?: TokenUsage }
+  | AgentSuspendedEvent
   | StreamCompletionEvent;
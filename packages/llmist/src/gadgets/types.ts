@@ -17,9 +17,12 @@
  */
 
 export type {
+  CostReportingEmbeddingNamespace,
   CostReportingImageNamespace,
   CostReportingLLMist,
+  CostReportingResearchNamespace,
   CostReportingSpeechNamespace,
+  CostReportingTranscriptionNamespace,
   ExecutionContext,
   HostExports,
 } from "./execution-context-types.js";
@@ -39,8 +42,11 @@ export type {
   StoredMedia,
 } from "./media-types.js";
 export type {
+  AgentSuspendedEvent,
   GadgetArgsPartialEvent,
   GadgetSkippedEvent,
+  GadgetSuspension,
+  HumanInputRequest,
   StreamCompletionEvent,
   StreamEvent,
 } from "./stream-event-types.js";
@@ -3,9 +3,30 @@
 export { z } from "zod";
 // Agent class (for type references)
 export { Agent } from "./agent/agent.js";
+// Pre-flight budget enforcement (see AgentBuilder.withBudget)
+export type {
+  BudgetDecision,
+  BudgetEstimate,
+  BudgetExceedAction,
+  BudgetPolicy,
+} from "./agent/budget-guard.js";
+export { BudgetGuard } from "./agent/budget-guard.js";
 // Syntactic sugar: Agent builder and event handlers
 export type { HistoryMessage } from "./agent/builder.js";
 export { AgentBuilder } from "./agent/builder.js";
+// Agent checkpoints (see Agent.checkpoint and AgentBuilder.resumeFrom)
+export type {
+  AgentCheckpoint,
+  CheckpointGadgetOutput,
+  CheckpointingConfig,
+  CheckpointStore,
+  CheckpointSuspension,
+} from "./agent/checkpoint.js";
+export {
+  AGENT_CHECKPOINT_VERSION,
+  FileCheckpointStore,
+  InMemoryCheckpointStore,
+} from "./agent/checkpoint.js";
 export type { EventHandlers } from "./agent/event-handlers.js";
 export { collectEvents, collectText, runWithHandlers } from "./agent/event-handlers.js";
 // File-based logging for debugging and auditing
@@ -60,6 +81,7 @@ export type {
   LLMErrorControllerContext,
   MessageInterceptorContext,
   MessageTurn,
+  ObserveBudgetWarningContext,
   ObserveChunkContext,
   ObserveCompactionContext,
   ObserveGadgetArgsPartialContext,
@@ -69,6 +91,8 @@ export type {
   ObserveLLMCallContext,
   ObserveLLMCompleteContext,
   ObserveLLMErrorContext,
+  ObserveModelFallbackContext,
+  ObserveOutputValidationContext,
   ObserveRateLimitThrottleContext,
   ObserveRetryAttemptContext,
   Observers,
@@ -77,6 +101,7 @@ export type {
   // Gadget output limit configuration
   OutputLimitConfig,
   ParallelGadgetHintOptions,
+  PlanHintOptions,
   // Gadget prefix configuration
   PrefixConfig,
   ResolvedCompactionConfig,
@@ -104,10 +129,75 @@ export {
   HybridStrategy,
   iterationProgressHint,
   parallelGadgetHint,
+  planHint,
   SlidingWindowStrategy,
   StreamProcessor,
   SummarizationStrategy,
 } from "./agent/index.js";
+// Rule-based model routing (see HookPresets.modelRouter)
+export type {
+  ModelRoute,
+  ModelRouterOptions,
+  RoutingDecision,
+  RoutingFeature,
+  RoutingRequest,
+} from "./agent/model-router.js";
+export { ModelRouter } from "./agent/model-router.js";
+// Output validation (see AgentBuilder.withOutputValidator)
+export type {
+  OutputCheckResult,
+  OutputValidationConfig,
+  OutputValidationResult,
+  OutputValidator,
+  OutputValidatorFn,
+  OutputValidatorOptions,
+} from "./agent/output-validation.js";
+export {
+  DEFAULT_MAX_OUTPUT_REPAIRS,
+  OutputMissingError,
+  OutputValidationError,
+  validateOutput,
+} from "./agent/output-validation.js";
+// Planning mode (see AgentBuilder.withPlanning)
+export type {
+  PlanEdit,
+  PlanningConfig,
+  PlanningOptions,
+  PlanSnapshot,
+  PlanTaskDraft,
+  PlanTaskUpdate,
+} from "./agent/planning.js";
+export {
+  AgentPlan,
+  createPlanningGadgets,
+  createPlanningHooks,
+  PLAN_GADGET_NAME,
+  UPDATE_PLAN_GADGET_NAME,
+} from "./agent/planning.js";
+// Batch API
+export type {
+  BatchJob,
+  BatchJobRef,
+  BatchRequest,
+  BatchRequestCounts,
+  BatchResultItem,
+  BatchStatus,
+  BatchStatusSnapshot,
+  BatchSubmitOptions,
+  BatchWaitOptions,
+} from "./batch/index.js";
+export {
+  BATCH_TERMINAL_STATUSES,
+  BatchNamespace,
+  BatchNotReadyError,
+  BatchNotSupportedError,
+  BatchTimeoutError,
+  BatchValidationError,
+  estimateBatchCost,
+} from "./batch/index.js";
+// Prompt cache statistics
+export type { CachePricing, CacheStats, CacheUsage } from "./core/cache-stats.js";
+export { CACHE_BYTES_PER_TOKEN, computeCacheStats, mergeCacheStats } from "./core/cache-stats.js";
 export type { LLMistOptions } from "./core/client.js";
 export { LLMist } from "./core/client.js";
 // Constants for gadget block format parsing
@@ -133,10 +223,13 @@ export type {
   HumanInputRequiredEvent,
   LLMCallCompleteEvent,
   LLMCallErrorEvent,
+  LLMCallFallbackEvent,
   LLMCallStartEvent,
   LLMCallStreamEvent,
   LLMEvent,
   LLMResponseEndEvent,
+  OutputValidationEvent,
+  PlanUpdatedEvent,
   StreamCompleteEvent,
   TextEvent,
   ThinkingEvent,
@@ -159,10 +252,16 @@ export type {
   CompleteLLMCallParams,
   ExecutionNode,
   ExecutionNodeType,
+  ExecutionTreeSnapshot,
   GadgetNode,
   GadgetState,
+  LLMCallFallback,
   LLMCallNode,
+  LLMCallOutputValidation,
   NodeId,
+  PlanNode,
+  PlanTask,
+  PlanTaskStatus,
 } from "./core/execution-tree.js";
 export { ExecutionTree } from "./core/execution-tree.js";
 // Input content types for multimodal messages
@@ -177,6 +276,8 @@ export type {
   ImageSource,
   ImageUrlSource,
   TextContentPart,
+  ToolCallContentPart,
+  ToolResultContentPart,
 } from "./core/input-content.js";
 export {
   audioFromBase64,
@@ -190,18 +291,35 @@ export {
   isDataUrl,
   isImagePart,
   isTextPart,
+  isToolCallPart,
+  isToolResultPart,
   parseDataUrl,
   text,
   toBase64,
+  toolCall,
+  toolResult,
 } from "./core/input-content.js";
-// Media generation types (image, speech)
+// Media generation types (image, speech), transcription and embeddings
 export type {
+  EmbeddingModelSpec,
+  EmbeddingOptions,
+  EmbeddingResult,
+  EmbeddingUsage,
+  ImageEditOptions,
   ImageGenerationOptions,
   ImageGenerationResult,
   ImageModelSpec,
+  ImageVariationOptions,
   SpeechGenerationOptions,
   SpeechGenerationResult,
   SpeechModelSpec,
+  TranscriptionModelSpec,
+  TranscriptionOptions,
+  TranscriptionResult,
+  TranscriptionSegment,
+  TranscriptionTimestamps,
+  TranscriptionUsage,
+  TranscriptionWord,
 } from "./core/media-types.js";
 export type { LLMMessage, MessageContent, MessageRole } from "./core/messages.js";
 export { extractMessageText, LLMMessageBuilder, normalizeMessageContent } from "./core/messages.js";
@@ -223,22 +341,31 @@ export {
   resolveModel,
   stripProviderPrefix,
 } from "./core/model-shortcuts.js";
+// Token counting namespace (llmist.tokens)
+export { TokensNamespace } from "./core/namespaces/tokens.js";
 // Vision namespace for one-shot image analysis
 export type { VisionAnalyzeOptions, VisionAnalyzeResult } from "./core/namespaces/vision.js";
 export type {
   CachingConfig,
   CachingScope,
+  JsonSchemaResponseFormat,
   LLMGenerationOptions,
   LLMStream,
   LLMStreamChunk,
   ModelDescriptor,
+  ProviderCredentials,
+  ProviderCredentialsMap,
   ProviderIdentifier,
   ReasoningConfig,
   ReasoningEffort,
+  ResponseFormat,
   ThinkingChunk,
   TokenUsage,
+  ToolCallDelta,
+  ToolDefinition,
 } from "./core/options.js";
 export { ModelIdentifierParser } from "./core/options.js";
+export { parsePartialJSON } from "./core/partial-json.js";
 export type {
   HintContext,
   HintTemplate,
@@ -260,6 +387,8 @@ export type {
   RateLimitConfig,
   RateLimitStats,
   ResolvedRateLimitConfig,
+  ServerQuota,
+  ServerRateLimits,
   TriggeredLimitInfo,
 } from "./core/rate-limit.js";
 export {
@@ -282,11 +411,27 @@ export {
   parseRetryAfterHeader,
   resolveRetryConfig,
 } from "./core/retry.js";
+// Structured output (Zod schema -> validated object)
+export type { DeepPartial, ObjectGenerationOptions } from "./core/structured-output.js";
+export {
+  generateObject,
+  StructuredOutputError,
+  streamObject,
+} from "./core/structured-output.js";
+export {
+  formatSubtitles,
+  formatSubtitleTimestamp,
+  type SubtitleFormat,
+} from "./core/subtitles.js";
+// Local token counting (offline tokenizers)
+export type { TokenizerName } from "./core/tokenizer.js";
+export { countTokensLocally, resolveTokenizer } from "./core/tokenizer.js";
 export type { CreateGadgetConfig } from "./gadgets/create-gadget.js";
 export { createGadget } from "./gadgets/create-gadget.js";
 // Gadget infrastructure
 export {
   AbortException,
+  BudgetExceededError,
   BudgetPricingUnavailableError,
   HumanInputRequiredException,
   TaskCompletionSignal,
@@ -304,11 +449,14 @@ export {
   getErrorMessage,
   resultWithAudio,
   resultWithFile,
+  resultWithGeneratedImages,
   resultWithImage,
   resultWithImages,
   resultWithMedia,
   withErrorHandling,
 } from "./gadgets/helpers.js";
+export type { GadgetTransport } from "./gadgets/native-tools.js";
+export { gadgetToToolDefinition, NativeToolCallParser } from "./gadgets/native-tools.js";
 // Gadget output viewer (for custom output store integration)
 export { createGadgetOutputViewer } from "./gadgets/output-viewer.js";
 export { GadgetCallParser } from "./gadgets/parser.js";
@@ -318,6 +466,7 @@ export { GadgetRegistry } from "./gadgets/registry.js";
 export type { GadgetConfig } from "./gadgets/typed-gadget.js";
 export { Gadget } from "./gadgets/typed-gadget.js";
 export type {
+  AgentSuspendedEvent,
   CostReportingLLMist,
   ExecutionContext,
   GadgetArgsPartialEvent,
@@ -329,8 +478,10 @@ export type {
   GadgetExecutionResult,
   GadgetMediaOutput,
   GadgetSkippedEvent,
+  GadgetSuspension,
   // Host exports for external gadgets
   HostExports,
+  HumanInputRequest,
   MediaKind,
   MediaMetadata,
   ParsedGadgetCall,
@@ -390,11 +541,17 @@ export type {
   ResearchEvent,
   ResearchJob,
   ResearchJobRef,
+  ResearchJobRegistryOptions,
   ResearchModelMetadata,
   ResearchModelSpec,
   ResearchOptions,
+  ResearchPage,
   ResearchPricing,
+  ResearchRegistryEntry,
+  ResearchRegistryProgress,
   ResearchResult,
+  ResearchSearchProvider,
+  ResearchSearchResult,
   ResearchStatus,
   ResearchStatusSnapshot,
   ResearchToolConfig,
@@ -403,16 +560,26 @@ export type {
 } from "./research/index.js";
 // Deep research (experimental — spec 002)
 export {
+  CitationCollector,
+  createDeepResearchGadget,
+  createResearchGadgets,
+  DEEP_RESEARCH_GADGET_NAME,
+  deepResearch,
   estimateResearchCost,
+  fetchPageText,
+  getDefaultResearchRegistryDir,
   RESEARCH_DATA_SOURCE_TOOL_TYPES,
+  RESEARCH_DEFAULT_MODEL,
   ResearchDeprecatedModelError,
   ResearchJobNotResumableError,
+  ResearchJobRegistry,
   ResearchNamespace,
   ResearchNotPollableError,
   ResearchNotSupportedError,
   ResearchResultCollector,
   ResearchStreamConsumedError,
   ResearchTimeoutError,
+  ResearchTreeRecorder,
   ResearchValidationError,
 } from "./research/index.js";
 
@@ -482,6 +649,30 @@ export { validateAndApplyDefaults, validateGadgetParams } from "./gadgets/valida
 export type { LoggerOptions } from "./logging/logger.js";
 export { createLogger, defaultLogger } from "./logging/logger.js";
 // ============================================================================
+// Long-term Memory (see AgentBuilder.withMemory)
+// ============================================================================
+export type {
+  MemoryConfig,
+  MemoryEmbedder,
+  MemoryEntry,
+  MemoryMatch,
+  MemoryOptions,
+  MemoryScope,
+  MemoryStore,
+  MemoryStoreOptions,
+  RecallOptions,
+} from "./memory/index.js";
+export {
+  createMemoryEmbedder,
+  createMemoryGadgets,
+  createMemoryRecallController,
+  DEFAULT_MEMORY_MAX_TOKENS,
+  DEFAULT_MEMORY_RECALL_LIMIT,
+  FileMemoryStore,
+  InMemoryMemoryStore,
+  MEMORY_FILE_VERSION,
+} from "./memory/index.js";
+// ============================================================================
 // Package Manifest Types
 // ============================================================================
 export type {
@@ -504,12 +695,53 @@ export {
   AnthropicMessagesProvider,
   createAnthropicProviderFromEnv,
 } from "./providers/anthropic.js";
+// Cloud-hosted Claude (AWS Bedrock) and Gemini (Vertex AI)
+export type { AwsCredentials } from "./providers/aws-sigv4.js";
+// Azure OpenAI (deployment-based OpenAI models)
+export type { AzureOpenAIConfig } from "./providers/azure.js";
+export {
+  AzureOpenAIProvider,
+  createAzureOpenAIClient,
+  createAzureOpenAIProviderFromEnv,
+  DEFAULT_AZURE_OPENAI_API_VERSION,
+  parseAzureDeployments,
+} from "./providers/azure.js";
+export type { BedrockConfig } from "./providers/bedrock.js";
+export { BedrockAnthropicProvider, createBedrockProviderFromEnv } from "./providers/bedrock.js";
+export { BEDROCK_MODELS, toBedrockModelId } from "./providers/bedrock-models.js";
+// Fast-inference providers (Groq, Cerebras) and Mistral (EU data residency)
+export { CerebrasProvider, createCerebrasProviderFromEnv } from "./providers/cerebras.js";
+// Declarative OpenAI-compatible providers (vLLM, LM Studio, gateways, ...)
+export type {
+  CustomOpenAICompatibleConfig,
+  CustomProviderConfig,
+  CustomProviderModel,
+} from "./providers/custom-provider.js";
+export {
+  CustomOpenAICompatibleProvider,
+  createCustomProvider,
+} from "./providers/custom-provider.js";
 export { discoverProviderAdapters } from "./providers/discovery.js";
 export { createGeminiProviderFromEnv, GeminiGenerativeProvider } from "./providers/gemini.js";
+export { createGroqProviderFromEnv, GroqProvider } from "./providers/groq.js";
 export {
   createHuggingFaceProviderFromEnv,
   HuggingFaceProvider,
 } from "./providers/huggingface.js";
+// Key pools: several API keys per provider with per-key rate limit tracking
+export type { KeyLease, KeyPoolConfig, KeySelectionStrategy } from "./providers/key-pool.js";
+export { DEFAULT_KEY_COOLDOWN_MS, KeyPool } from "./providers/key-pool.js";
+// Local model servers (Ollama, llama.cpp) with runtime model discovery
+export type { LlamaCppConfig } from "./providers/llamacpp.js";
+export { createLlamaCppProviderFromEnv, LlamaCppProvider } from "./providers/llamacpp.js";
+export type { LocalModelInfo, LocalProviderConfig } from "./providers/local-provider.js";
+export {
+  LocalOpenAICompatibleProvider,
+  LocalServerHTTPError,
+} from "./providers/local-provider.js";
+export { createMistralProviderFromEnv, MistralProvider } from "./providers/mistral.js";
+export type { OllamaConfig } from "./providers/ollama.js";
+export { createOllamaProviderFromEnv, OllamaProvider } from "./providers/ollama.js";
 export { createOpenAIProviderFromEnv, OpenAIChatProvider } from "./providers/openai.js";
 // OpenAI-compatible base class for meta-providers (HuggingFace, OpenRouter, etc.)
 export type { OpenAICompatibleConfig } from "./providers/openai-compatible-provider.js";
@@ -521,6 +753,13 @@ export {
   OpenRouterProvider,
 } from "./providers/openrouter.js";
 export type { ProviderAdapter } from "./providers/provider.js";
+export { parseRateLimitHeaders, parseResetDuration } from "./providers/rate-limit-headers.js";
+export type { VertexConfig } from "./providers/vertex.js";
+export {
+  createVertexClient,
+  createVertexProviderFromEnv,
+  VertexGeminiProvider,
+} from "./providers/vertex.js";
 // ============================================================================
 // Session Management
 // ============================================================================
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryGadgets } from "./gadgets.js";
+import { InMemoryMemoryStore } from "./store.js";
+
+const scope = { project: "/repo", user: "alice" };
+
+function memoryGadgets(store = new InMemoryMemoryStore()) {
+  const [remember, recall, forget] = createMemoryGadgets(store, scope);
+  return { store, remember, recall, forget };
+}
+
+describe("createMemoryGadgets", () => {
+  it("creates the Remember, Recall and Forget gadgets", () => {
+    const { remember, recall, forget } = memoryGadgets();
+
+    expect([remember.name, recall.name, forget.name]).toEqual(["Remember", "Recall", "Forget"]);
+  });
+
+  it("remembers in the configured scope", async () => {
+    const { store, remember } = memoryGadgets();
+
+    expect(await remember.execute({ key: "runner", content: "vitest" })).toBe(
+      'Remembered "runner"',
+    );
+    expect(await store.get(scope, "runner")).toMatchObject({ content: "vitest" });
+    expect(await store.get({ project: "/repo" }, "runner")).toBeUndefined();
+  });
+
+  it("recalls matching memories", async () => {
+    const { store, recall } = memoryGadgets();
+    await store.set(scope, "runner", "Tests run with vitest");
+
+    expect(await recall.execute({ query: "vitest" })).toBe("- [runner] Tests run with vitest");
+    expect(await recall.execute({ query: "deployment" })).toBe(
+      'No memories found for "deployment"',
+    );
+  });
+
+  it("forgets memories by key", async () => {
+    const { store, forget } = memoryGadgets();
+    await store.set(scope, "runner", "vitest");
+
+    expect(await forget.execute({ key: "runner" })).toBe('Forgot "runner"');
+    expect(await forget.execute({ key: "runner" })).toBe('No memory with key "runner"');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Remember, Recall and Forget gadgets — give the LLM explicit access to its
+ * long-term memory.
+ *
+ * @module memory/gadgets
+ */
+
+import { z } from "zod";
+import { createGadget } from "../gadgets/create-gadget.js";
+import type { AbstractGadget } from "../gadgets/gadget.js";
+import type { MemoryScope, MemoryStore } from "./types.js";
+
+/**
+ * Create the memory gadgets for a store. All of them read and write the
+ * memories of `scope`.
+ */
+export function createMemoryGadgets(store: MemoryStore, scope: MemoryScope = {}): AbstractGadget[] {
+  const remember = createGadget({
+    name: "Remember",
+    description:
+      "Store a fact in long-term memory so it is available in later conversations. " +
+      "Storing under an existing key replaces that memory.",
+    schema: z.object({
+      key: z.string().min(1).describe("Short, descriptive key, e.g. 'preferred-test-runner'"),
+      content: z.string().min(1).describe("The fact to remember"),
+    }),
+    examples: [
+      {
+        params: { key: "preferred-test-runner", content: "The project uses vitest, not jest." },
+        comment: "Remember a project convention",
+      },
+    ],
+    execute: async ({ key, content }) => {
+      await store.set(scope, key, content);
+      return `Remembered "${key}"`;
+    },
+  });
+
+  const recall = createGadget({
+    name: "Recall",
+    description: "Search long-term memory for facts relevant to a query.",
+    schema: z.object({
+      query: z.string().min(1).describe("What to search for"),
+      limit: z.number().int().min(1).optional().describe("Maximum memories to return (default: 5)"),
+    }),
+    execute: async ({ query, limit }) => {
+      const matches = await store.recall(scope, query, { limit });
+      if (matches.length === 0) {
+        return `No memories found for "${query}"`;
+      }
+      return formatMemories(matches.map((match) => match.entry));
+    },
+  });
+
+  const forget = createGadget({
+    name: "Forget",
+    description: "Delete a memory that is wrong or no longer relevant.",
+    schema: z.object({
+      key: z.string().min(1).describe("Key of the memory to delete"),
+    }),
+    execute: async ({ key }) =>
+      (await store.delete(scope, key)) ? `Forgot "${key}"` : `No memory with key "${key}"`,
+  });
+
+  return [remember, recall, forget];
+}
+
+/** Format memories as a list of `- [key] content` lines. */
+export function formatMemories(entries: Array<{ key: string; content: string }>): string {
+  return entries.map((entry) => `- [${entry.key}] ${entry.content}`).join("\n");
+}
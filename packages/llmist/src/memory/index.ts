@@ -0,0 +1,33 @@
+/**
+ * Long-term memory — facts an agent keeps across runs.
+ *
+ * A {@link MemoryStore} holds memories per project/user scope. Agents
+ * configured with `AgentBuilder.withMemory()` get Remember, Recall and Forget
+ * gadgets, and by default recall relevant memories before each LLM call.
+ *
+ * @module memory
+ */
+
+export { createMemoryGadgets, formatMemories } from "./gadgets.js";
+export {
+  createMemoryRecallController,
+  DEFAULT_MEMORY_MAX_TOKENS,
+  DEFAULT_MEMORY_RECALL_LIMIT,
+} from "./recall.js";
+export type { MemoryStoreOptions } from "./store.js";
+export {
+  createMemoryEmbedder,
+  FileMemoryStore,
+  InMemoryMemoryStore,
+  MEMORY_FILE_VERSION,
+} from "./store.js";
+export type {
+  MemoryConfig,
+  MemoryEmbedder,
+  MemoryEntry,
+  MemoryMatch,
+  MemoryOptions,
+  MemoryScope,
+  MemoryStore,
+  RecallOptions,
+} from "./types.js";
@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from "vitest";
+import { AgentBuilder } from "../agent/builder.js";
+import type { LLMCallControllerContext } from "../agent/hooks.js";
+import type { LLMist } from "../core/client.js";
+import type { LLMMessage } from "../core/messages.js";
+import { createMemoryRecallController } from "./recall.js";
+import { InMemoryMemoryStore } from "./store.js";
+import type { MemoryStore } from "./types.js";
+
+const scope = { project: "/repo" };
+
+function context(messages: LLMMessage[]): LLMCallControllerContext {
+  return {
+    iteration: 0,
+    maxIterations: 10,
+    totalCost: 0,
+    options: { model: "test:model", messages },
+    logger: { warn: vi.fn() },
+  } as unknown as LLMCallControllerContext;
+}
+
+async function storeWith(memories: Record<string, string>): Promise<InMemoryMemoryStore> {
+  const store = new InMemoryMemoryStore();
+  for (const [key, content] of Object.entries(memories)) {
+    await store.set(scope, key, content);
+  }
+  return store;
+}
+
+function injected(messages: LLMMessage[] | undefined): string | undefined {
+  const last = messages?.at(-1);
+  return typeof last?.content === "string" ? last.content : undefined;
+}
+
+describe("createMemoryRecallController", () => {
+  it("appends the memories relevant to the latest user message", async () => {
+    const store = await storeWith({ runner: "Tests run with vitest", style: "Use biome" });
+    const controller = createMemoryRecallController({ store, scope });
+
+    const result = await controller(context([{ role: "user", content: "Fix the vitest setup" }]));
+
+    expect(result.action).toBe("proceed");
+    const messages = result.action === "proceed" ? result.modifiedOptions?.messages : undefined;
+    expect(messages).toHaveLength(2);
+    expect(injected(messages)).toBe(
+      "Relevant memories from earlier conversations:\n- [runner] Tests run with vitest",
+    );
+  });
+
+  it("queries with the user's message, not gadget results or hints", async () => {
+    const store = await storeWith({ runner: "Tests run with vitest" });
+    const recall = vi.spyOn(store, "recall");
+    const controller = createMemoryRecallController({ store, scope });
+
+    await controller(
+      context([
+        { role: "user", content: "Fix the vitest setup" },
+        { role: "assistant", content: "!!!GADGET_START:ReadFile:1" },
+        { role: "user", content: "Result (1): file contents" },
+        { role: "user", content: "[System Hint] Current plan (0/2 done)" },
+      ]),
+    );
+
+    expect(recall).toHaveBeenCalledWith(scope, "Fix the vitest setup", { limit: 10 });
+  });
+
+  it("injects only as many memories as fit the token budget", async () => {
+    const store = await storeWith({
+      short: "vitest",
+      long: `vitest ${"lorem ipsum dolor sit amet ".repeat(50)}`,
+    });
+    const controller = createMemoryRecallController({ store, scope, maxTokens: 30 });
+
+    const result = await controller(context([{ role: "user", content: "vitest" }]));
+
+    const messages = result.action === "proceed" ? result.modifiedOptions?.messages : undefined;
+    expect(injected(messages)).toContain("[short]");
+    expect(injected(messages)).not.toContain("[long]");
+  });
+
+  it("leaves the request alone without matches", async () => {
+    const controller = createMemoryRecallController({ store: await storeWith({}), scope });
+
+    expect(await controller(context([{ role: "user", content: "Hello" }]))).toEqual({
+      action: "proceed",
+    });
+  });
+
+  it("respects a skip of the existing controller", async () => {
+    const store = await storeWith({ runner: "vitest" });
+    const recall = vi.spyOn(store, "recall");
+    const skip = { action: "skip" as const, syntheticResponse: "cached" };
+    const controller = createMemoryRecallController({ store, scope }, async () => skip);
+
+    expect(await controller(context([{ role: "user", content: "vitest" }]))).toBe(skip);
+    expect(recall).not.toHaveBeenCalled();
+  });
+
+  it("proceeds without memories when the store fails", async () => {
+    const store = {
+      recall: vi.fn().mockRejectedValue(new Error("disk gone")),
+    } as unknown as MemoryStore;
+    const ctx = context([{ role: "user", content: "vitest" }]);
+
+    const result = await createMemoryRecallController({ store, scope })(ctx);
+
+    expect(result).toEqual({ action: "proceed" });
+    expect(ctx.logger.warn).toHaveBeenCalled();
+  });
+});
+
+describe("AgentBuilder.withMemory", () => {
+  function createClient(): LLMist {
+    return {
+      stream: vi.fn(async function* () {
+        yield { text: "Done." };
+      }),
+      modelRegistry: { getModelLimits: vi.fn().mockReturnValue({ maxOutputTokens: 4096 }) },
+    } as unknown as LLMist;
+  }
+
+  async function requestMessages(builder: AgentBuilder, client: LLMist): Promise<LLMMessage[]> {
+    for await (const _event of builder.ask("Fix the vitest setup").run()) {
+      // drain
+    }
+    return vi.mocked(client.stream).mock.calls[0][0].messages;
+  }
+
+  it("registers the memory gadgets and recalls before the trailing message", async () => {
+    const client = createClient();
+    const store = await storeWith({ runner: "Tests run with vitest" });
+    const builder = new AgentBuilder(client)
+      .withModel("test:model")
+      .withMemory(store, { scope })
+      .withTrailingMessage("Be brief.");
+
+    const messages = await requestMessages(builder, client);
+
+    const contents = messages.map((message) => message.content);
+    expect(contents.at(-2)).toContain("- [runner] Tests run with vitest");
+    expect(contents.at(-1)).toBe("Be brief.");
+    expect(String(contents[0])).toContain("Remember");
+  });
+
+  it("only adds the gadgets without autoRecall", async () => {
+    const client = createClient();
+    const store = await storeWith({ runner: "Tests run with vitest" });
+    const builder = new AgentBuilder(client)
+      .withModel("test:model")
+      .withMemory(store, { scope, autoRecall: false });
+
+    const messages = await requestMessages(builder, client);
+
+    expect(messages.at(-1)?.content).toBe("Fix the vitest setup");
+  });
+});
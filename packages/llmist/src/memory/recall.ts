@@ -0,0 +1,101 @@
+/**
+ * Automatic recall: before each LLM call, look up the memories relevant to
+ * the latest user message and append them to the request as an ephemeral
+ * user message. The message is not added to the conversation history.
+ *
+ * @module memory/recall
+ */
+
+import { SYSTEM_HINT_PREFIX } from "../agent/hints.js";
+import type { BeforeLLMCallAction, LLMCallControllerContext } from "../agent/hooks.js";
+import { type LLMMessage, normalizeMessageContent } from "../core/messages.js";
+import { countTextTokensLocally } from "../core/tokenizer.js";
+import { formatMemories } from "./gadgets.js";
+import type { MemoryConfig, MemoryMatch } from "./types.js";
+
+/** Token budget of recalled memories when none is configured. */
+export const DEFAULT_MEMORY_MAX_TOKENS = 1000;
+
+/** Memories recalled per LLM call when no limit is configured. */
+export const DEFAULT_MEMORY_RECALL_LIMIT = 10;
+
+const MEMORY_HEADER = "Relevant memories from earlier conversations:";
+
+type BeforeLLMCallController = (ctx: LLMCallControllerContext) => Promise<BeforeLLMCallAction>;
+
+/**
+ * Create a `beforeLLMCall` controller that injects recalled memories.
+ *
+ * @param config - Memory store and options
+ * @param existing - Controller to run first; its skip is respected
+ */
+export function createMemoryRecallController(
+  config: MemoryConfig,
+  existing?: BeforeLLMCallController,
+): BeforeLLMCallController {
+  const maxTokens = config.maxTokens ?? DEFAULT_MEMORY_MAX_TOKENS;
+
+  return async (ctx) => {
+    const result: BeforeLLMCallAction = existing ? await existing(ctx) : { action: "proceed" };
+    if (result.action === "skip") {
+      return result;
+    }
+
+    const messages = [...(result.modifiedOptions?.messages || ctx.options.messages)];
+    const query = latestUserText(messages);
+    if (!query) {
+      return result;
+    }
+
+    let matches: MemoryMatch[];
+    try {
+      matches = await config.store.recall(config.scope ?? {}, query, {
+        limit: config.recallLimit ?? DEFAULT_MEMORY_RECALL_LIMIT,
+      });
+    } catch (error) {
+      // Memory is an aid: a failing store must not stop the agent
+      ctx.logger.warn("Failed to recall memories", { error });
+      return result;
+    }
+
+    // Best matches first, as many as fit the token budget. Each line is
+    // counted once, plus one token for its line break.
+    let tokens = countTextTokensLocally(MEMORY_HEADER, "o200k_base");
+    const lines: string[] = [];
+    for (const match of matches) {
+      const line = formatMemories([match.entry]);
+      tokens += countTextTokensLocally(line, "o200k_base") + 1;
+      if (tokens > maxTokens) {
+        break;
+      }
+      lines.push(line);
+    }
+    if (lines.length === 0) {
+      return result;
+    }
+
+    messages.push({ role: "user", content: `${MEMORY_HEADER}\n${lines.join("\n")}` });
+    return {
+      action: "proceed",
+      modifiedOptions: { ...result.modifiedOptions, messages },
+    };
+  };
+}
+
+/**
+ * Text of the latest user message that is not a gadget result or a hint.
+ */
+function latestUserText(messages: LLMMessage[]): string | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role !== "user") continue;
+    const text = normalizeMessageContent(message.content)
+      .flatMap((part) => (part.type === "text" ? [part.text] : []))
+      .join("\n")
+      .trim();
+    if (text && !text.startsWith("Result (") && !text.startsWith(SYSTEM_HINT_PREFIX)) {
+      return text;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,137 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FileMemoryStore, InMemoryMemoryStore } from "./store.js";
+import type { MemoryEmbedder } from "./types.js";
+
+const project = { project: "/repo" };
+
+/** Embeds texts as [mentions "test", mentions "deploy"]. */
+const embed: MemoryEmbedder = async (texts) =>
+  texts.map((text) => [Number(text.includes("test")), Number(text.includes("deploy"))]);
+
+describe("InMemoryMemoryStore", () => {
+  it("stores, replaces and deletes memories by key", async () => {
+    const store = new InMemoryMemoryStore();
+
+    const first = await store.set(project, "runner", "jest");
+    const second = await store.set(project, "runner", "vitest");
+
+    expect(await store.get(project, "runner")).toMatchObject({
+      content: "vitest",
+      createdAt: first.createdAt,
+    });
+    expect(second.updatedAt >= first.updatedAt).toBe(true);
+    expect(await store.delete(project, "runner")).toBe(true);
+    expect(await store.delete(project, "runner")).toBe(false);
+    expect(await store.get(project, "runner")).toBeUndefined();
+  });
+
+  it("keeps scopes apart", async () => {
+    const store = new InMemoryMemoryStore();
+    await store.set({ project: "/a" }, "name", "A");
+    await store.set({ project: "/a", user: "alice" }, "name", "Alice in A");
+    await store.set({ project: "/b" }, "name", "B");
+
+    expect((await store.list({ project: "/a" })).map((entry) => entry.content)).toEqual(["A"]);
+    expect(await store.get({ project: "/a", user: "alice" }, "name")).toMatchObject({
+      content: "Alice in A",
+    });
+    expect(await store.recall({ project: "/b" }, "name")).toHaveLength(1);
+    expect(await store.list({})).toEqual([]);
+  });
+
+  it("recalls memories by shared words, best match first", async () => {
+    const store = new InMemoryMemoryStore();
+    await store.set(project, "deploy", "Deploys go through the staging cluster first");
+    await store.set(project, "tests", "Run tests with vitest");
+    await store.set(project, "style", "Use biome for formatting");
+
+    const matches = await store.recall(project, "How do I run the tests with vitest?");
+
+    expect(matches.map((match) => match.entry.key)).toEqual(["tests"]);
+    expect(matches[0].score).toBeGreaterThan(0);
+  });
+
+  it("applies limit and minScore", async () => {
+    const store = new InMemoryMemoryStore();
+    await store.set(project, "a", "alpha beta");
+    await store.set(project, "b", "alpha");
+
+    expect(await store.recall(project, "alpha beta", { limit: 1 })).toHaveLength(1);
+    expect(
+      (await store.recall(project, "alpha beta", { minScore: 0.75 })).map((m) => m.entry.key),
+    ).toEqual(["a"]);
+  });
+
+  it("recalls by embedding similarity when given an embedder", async () => {
+    const spy = vi.fn(embed);
+    const store = new InMemoryMemoryStore({ embed: spy });
+    await store.set(project, "ci", "The test suite runs on every push");
+    await store.set(project, "release", "We deploy on Fridays");
+
+    const matches = await store.recall(project, "test");
+
+    expect(matches.map((match) => match.entry.key)).toEqual(["ci"]);
+    expect(matches[0].score).toBeCloseTo(1);
+    // One call per stored memory, one for the query
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+
+  it("returns copies of stored memories", async () => {
+    const store = new InMemoryMemoryStore();
+    const entry = await store.set(project, "k", "v");
+    entry.content = "changed";
+
+    expect((await store.get(project, "k"))?.content).toBe("v");
+  });
+});
+
+describe("FileMemoryStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "llmist-memory-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("persists memories across store instances", async () => {
+    const path = join(dir, "nested", "memory.json");
+    await new FileMemoryStore(path).set(project, "runner", "vitest");
+
+    const reopened = new FileMemoryStore(path);
+
+    expect(await reopened.get(project, "runner")).toMatchObject({ content: "vitest" });
+    expect(await readdir(join(dir, "nested"))).toEqual(["memory.json"]);
+  });
+
+  it("writes concurrent changes without losing any", async () => {
+    const path = join(dir, "memory.json");
+    const store = new FileMemoryStore(path);
+
+    await Promise.all(["a", "b", "c"].map((key) => store.set(project, key, key)));
+    await store.delete(project, "b");
+
+    const saved = JSON.parse(await readFile(path, "utf-8"));
+    expect(saved.memories.map((entry: { key: string }) => entry.key).sort()).toEqual(["a", "c"]);
+  });
+
+  it("starts empty without a file", async () => {
+    const store = new FileMemoryStore(join(dir, "missing.json"));
+
+    expect(await store.list(project)).toEqual([]);
+  });
+
+  it("rejects files of other versions", async () => {
+    const path = join(dir, "memory.json");
+    await writeFile(path, JSON.stringify({ version: 99, memories: [] }));
+
+    await expect(new FileMemoryStore(path).list(project)).rejects.toThrow(
+      "Unsupported memory file version 99",
+    );
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Built-in memory stores.
+ *
+ * Without an embedder, recall ranks memories by the share of query words
+ * they contain. With one, memories are embedded when stored and recall ranks
+ * them by cosine similarity to the embedded query.
+ *
+ * ```typescript
+ * const store = new FileMemoryStore(".llmist/memory.json", {
+ *   embed: createMemoryEmbedder(client, "text-embedding-3-small"),
+ * });
+ * ```
+ *
+ * @module memory/store
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { LLMist } from "../core/client.js";
+import type {
+  MemoryEmbedder,
+  MemoryEntry,
+  MemoryMatch,
+  MemoryScope,
+  MemoryStore,
+  RecallOptions,
+} from "./types.js";
+
+/** Version of the memory file format written by this release. */
+export const MEMORY_FILE_VERSION = 1;
+
+/** Memories returned by recall when no limit is given. */
+const DEFAULT_RECALL_LIMIT = 5;
+
+/**
+ * Options of the built-in memory stores.
+ */
+export interface MemoryStoreOptions {
+  /** Embed memories for semantic recall (default: keyword recall) */
+  embed?: MemoryEmbedder;
+}
+
+/**
+ * Create a {@link MemoryEmbedder} that embeds with a model of the client.
+ */
+export function createMemoryEmbedder(client: LLMist, model: string): MemoryEmbedder {
+  return async (texts) => (await client.embeddings.create({ model, input: texts })).embeddings;
+}
+
+/**
+ * Memory store that keeps memories in memory, e.g. for tests or for agents
+ * that share memories within one process.
+ */
+export class InMemoryMemoryStore implements MemoryStore {
+  protected readonly entries = new Map<string, MemoryEntry>();
+  private readonly embed?: MemoryEmbedder;
+
+  constructor(options: MemoryStoreOptions = {}) {
+    this.embed = options.embed;
+  }
+
+  async set(scope: MemoryScope, key: string, content: string): Promise<MemoryEntry> {
+    const id = entryId(scope, key);
+    const now = new Date().toISOString();
+    const entry: MemoryEntry = {
+      key,
+      content,
+      scope: { ...scope },
+      createdAt: this.entries.get(id)?.createdAt ?? now,
+      updatedAt: now,
+    };
+    if (this.embed) {
+      [entry.embedding] = await this.embed([embeddingText(entry)]);
+    }
+    this.entries.set(id, entry);
+    return structuredClone(entry);
+  }
+
+  async get(scope: MemoryScope, key: string): Promise<MemoryEntry | undefined> {
+    const entry = this.entries.get(entryId(scope, key));
+    return entry ? structuredClone(entry) : undefined;
+  }
+
+  async delete(scope: MemoryScope, key: string): Promise<boolean> {
+    return this.entries.delete(entryId(scope, key));
+  }
+
+  async list(scope: MemoryScope): Promise<MemoryEntry[]> {
+    return this.inScope(scope)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((entry) => structuredClone(entry));
+  }
+
+  async recall(
+    scope: MemoryScope,
+    query: string,
+    options: RecallOptions = {},
+  ): Promise<MemoryMatch[]> {
+    const entries = this.inScope(scope);
+    if (entries.length === 0) return [];
+
+    const scores = this.embed
+      ? await this.semanticScores(entries, query, this.embed)
+      : keywordScores(entries, query);
+    const minScore = options.minScore ?? Number.EPSILON;
+
+    return entries
+      .map((entry, index) => ({ entry: structuredClone(entry), score: scores[index] }))
+      .filter((match) => match.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? DEFAULT_RECALL_LIMIT);
+  }
+
+  private inScope(scope: MemoryScope): MemoryEntry[] {
+    const prefix = entryId(scope, "");
+    return [...this.entries].filter(([id]) => id.startsWith(prefix)).map(([, entry]) => entry);
+  }
+
+  private async semanticScores(
+    entries: MemoryEntry[],
+    query: string,
+    embed: MemoryEmbedder,
+  ): Promise<number[]> {
+    // Memories stored before the embedder was configured are embedded once here
+    const missing = entries.filter((entry) => !entry.embedding);
+    const vectors = await embed([query, ...missing.map(embeddingText)]);
+    missing.forEach((entry, index) => {
+      entry.embedding = vectors[index + 1];
+    });
+    return entries.map((entry) => Math.max(0, cosineSimilarity(vectors[0], entry.embedding ?? [])));
+  }
+}
+
+/**
+ * Memory store that keeps all memories in one JSON file. The file is read on
+ * first use and replaced atomically after each change, so a crash while
+ * saving leaves the previous memories intact.
+ */
+export class FileMemoryStore extends InMemoryMemoryStore {
+  private loading?: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly path: string,
+    options: MemoryStoreOptions = {},
+  ) {
+    super(options);
+  }
+
+  async set(scope: MemoryScope, key: string, content: string): Promise<MemoryEntry> {
+    await this.load();
+    const entry = await super.set(scope, key, content);
+    await this.save();
+    return entry;
+  }
+
+  async get(scope: MemoryScope, key: string): Promise<MemoryEntry | undefined> {
+    await this.load();
+    return super.get(scope, key);
+  }
+
+  async delete(scope: MemoryScope, key: string): Promise<boolean> {
+    await this.load();
+    const deleted = await super.delete(scope, key);
+    if (deleted) await this.save();
+    return deleted;
+  }
+
+  async list(scope: MemoryScope): Promise<MemoryEntry[]> {
+    await this.load();
+    return super.list(scope);
+  }
+
+  async recall(scope: MemoryScope, query: string, options?: RecallOptions): Promise<MemoryMatch[]> {
+    await this.load();
+    return super.recall(scope, query, options);
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.readFile();
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(this.path, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+    const data = JSON.parse(content) as { version?: unknown; memories?: MemoryEntry[] };
+    if (data.version !== MEMORY_FILE_VERSION) {
+      throw new Error(
+        `Unsupported memory file version ${String(data.version)} in ${this.path} (supported: ${MEMORY_FILE_VERSION})`,
+      );
+    }
+    for (const entry of data.memories ?? []) {
+      this.entries.set(entryId(entry.scope, entry.key), entry);
+    }
+  }
+
+  private save(): Promise<void> {
+    // Chain writes so concurrent changes can't interleave their renames
+    this.saving = this.saving
+      .catch(() => {})
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        const tmpPath = `${this.path}.tmp`;
+        const memories = [...this.entries.values()];
+        await writeFile(tmpPath, JSON.stringify({ version: MEMORY_FILE_VERSION, memories }));
+        await rename(tmpPath, this.path);
+      });
+    return this.saving;
+  }
+}
+
+function entryId(scope: MemoryScope, key: string): string {
+  return `${JSON.stringify([scope.project ?? null, scope.user ?? null])}${key}`;
+}
+
+function embeddingText(entry: MemoryEntry): string {
+  return `${entry.key}\n${entry.content}`;
+}
+
+/** Common English words that say nothing about what a memory is about. */
+const STOPWORDS = new Set(
+  (
+    "the and for are but not you your all any can had has have her him his how its let may " +
+    "our out she that this them then there they was were what when where which who why will " +
+    "with would from into about does did should could just also some than too very"
+  ).split(" "),
+);
+
+function words(text: string): Set<string> {
+  const all = text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? [];
+  return new Set(all.filter((word) => !STOPWORDS.has(word)));
+}
+
+/** Share of the query's words that appear in each memory. */
+function keywordScores(entries: MemoryEntry[], query: string): number[] {
+  const queryWords = words(query);
+  if (queryWords.size === 0) return entries.map(() => 0);
+  return entries.map((entry) => {
+    const entryWords = words(embeddingText(entry));
+    let hits = 0;
+    for (const word of queryWords) {
+      if (entryWords.has(word)) hits++;
+    }
+    return hits / queryWords.size;
+  });
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
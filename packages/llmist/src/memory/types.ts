@@ -0,0 +1,100 @@
+/**
+ * Long-term memory types.
+ *
+ * @module memory/types
+ */
+
+/**
+ * Who a memory belongs to. Stores only return memories whose scope matches
+ * exactly, so memories of one project (or user) never leak into another.
+ */
+export interface MemoryScope {
+  /** Project the memory belongs to, e.g. a repository path */
+  project?: string;
+  /** User the memory belongs to */
+  user?: string;
+}
+
+/**
+ * A remembered piece of information. Plain JSON data.
+ */
+export interface MemoryEntry {
+  /** Key the memory is stored under, unique within its scope */
+  key: string;
+  /** What to remember */
+  content: string;
+  /** Scope the memory belongs to */
+  scope: MemoryScope;
+  /** When the memory was first stored (ISO 8601) */
+  createdAt: string;
+  /** When the memory was last changed (ISO 8601) */
+  updatedAt: string;
+  /** Embedding of `key` and `content`, when the store embeds memories */
+  embedding?: number[];
+}
+
+/**
+ * A memory found by {@link MemoryStore.recall}.
+ */
+export interface MemoryMatch {
+  entry: MemoryEntry;
+  /** Relevance to the query, from 0 (unrelated) to 1 */
+  score: number;
+}
+
+/**
+ * Options for {@link MemoryStore.recall}.
+ */
+export interface RecallOptions {
+  /** Maximum memories to return (default: 5) */
+  limit?: number;
+  /** Minimum score of returned memories (default: just above 0) */
+  minScore?: number;
+}
+
+/**
+ * Where an agent keeps its long-term memories: key/value access plus
+ * recall of the memories most relevant to a query.
+ */
+export interface MemoryStore {
+  /** Store a memory, replacing any memory with the same key in the scope. */
+  set(scope: MemoryScope, key: string, content: string): Promise<MemoryEntry>;
+  /** Get a memory. Returns `undefined` when there is none. */
+  get(scope: MemoryScope, key: string): Promise<MemoryEntry | undefined>;
+  /** Delete a memory. Returns whether there was one. */
+  delete(scope: MemoryScope, key: string): Promise<boolean>;
+  /** All memories of a scope, oldest first. */
+  list(scope: MemoryScope): Promise<MemoryEntry[]>;
+  /** Memories of a scope most relevant to `query`, best match first. */
+  recall(scope: MemoryScope, query: string, options?: RecallOptions): Promise<MemoryMatch[]>;
+}
+
+/**
+ * Turns texts into embedding vectors, one per text in input order.
+ * Enables semantic recall in the built-in stores.
+ */
+export type MemoryEmbedder = (texts: string[]) => Promise<number[][]>;
+
+/**
+ * Memory of an agent, configured with `AgentBuilder.withMemory()`.
+ */
+export interface MemoryOptions {
+  /** Scope the agent reads and writes memories in (default: unscoped) */
+  scope?: MemoryScope;
+  /**
+   * Inject the memories relevant to the latest user message before each
+   * LLM call (default: true). The Recall gadget is available either way.
+   */
+  autoRecall?: boolean;
+  /** Token budget of the injected memories (default: 1000) */
+  maxTokens?: number;
+  /** Maximum memories to inject (default: 10) */
+  recallLimit?: number;
+}
+
+/**
+ * Memory store of an agent with its options.
+ */
+export interface MemoryConfig extends MemoryOptions {
+  store: MemoryStore;
+}
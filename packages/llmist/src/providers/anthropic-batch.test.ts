@@ -0,0 +1,181 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import type { MessageBatch } from "@anthropic-ai/sdk/resources/messages/batches";
+import { describe, expect, it, vi } from "vitest";
+import { BatchValidationError } from "../batch/errors.js";
+import { AnthropicMessagesProvider } from "./anthropic.js";
+import {
+  parseAnthropicBatchResult,
+  submitAnthropicBatch,
+  toAnthropicBatchSnapshot,
+} from "./anthropic-batch.js";
+
+function messageBatch(overrides: Partial<MessageBatch> = {}): MessageBatch {
+  return {
+    id: "msgbatch_1",
+    type: "message_batch",
+    processing_status: "ended",
+    request_counts: { processing: 0, succeeded: 3, errored: 1, expired: 1, canceled: 0 },
+    created_at: "2026-01-01T00:00:00Z",
+    ended_at: "2026-01-01T02:00:00Z",
+    expires_at: "2026-01-02T00:00:00Z",
+    archived_at: null,
+    cancel_initiated_at: null,
+    results_url: "https://example.com/results",
+    ...overrides,
+  };
+}
+
+function succeeded(id: string, content: unknown[]) {
+  return {
+    custom_id: id,
+    result: {
+      type: "succeeded",
+      message: {
+        id: "msg_1",
+        type: "message",
+        role: "assistant",
+        model: "claude-haiku-4-5",
+        content,
+        stop_reason: "end_turn",
+        stop_sequence: null,
+        usage: {
+          input_tokens: 10,
+          output_tokens: 5,
+          cache_read_input_tokens: 20,
+          cache_creation_input_tokens: 30,
+        },
+      },
+    },
+  } as never;
+}
+
+function fakeClient() {
+  return {
+    messages: {
+      batches: {
+        create: vi.fn(async () => messageBatch({ processing_status: "in_progress" })),
+      },
+    },
+  };
+}
+
+describe("submitAnthropicBatch", () => {
+  it("creates the batch with custom ids", async () => {
+    const client = fakeClient();
+    const params = { model: "claude-haiku-4-5", max_tokens: 10, messages: [] };
+
+    const batchId = await submitAnthropicBatch(client as unknown as Anthropic, [
+      { id: "a", params },
+    ]);
+
+    expect(batchId).toBe("msgbatch_1");
+    expect(client.messages.batches.create).toHaveBeenCalledWith(
+      { requests: [{ custom_id: "a", params }] },
+      undefined,
+    );
+  });
+
+  it("rejects ids Anthropic would refuse", async () => {
+    const client = fakeClient();
+    await expect(
+      submitAnthropicBatch(client as unknown as Anthropic, [
+        { id: "has space", params: { model: "m", max_tokens: 1, messages: [] } },
+      ]),
+    ).rejects.toBeInstanceOf(BatchValidationError);
+    expect(client.messages.batches.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("toAnthropicBatchSnapshot", () => {
+  it("maps an ended batch to completed with folded failure counts", () => {
+    expect(toAnthropicBatchSnapshot(messageBatch())).toEqual({
+      status: "completed",
+      counts: { total: 5, succeeded: 3, failed: 2 },
+      createdAt: "2026-01-01T00:00:00Z",
+      endedAt: "2026-01-01T02:00:00Z",
+    });
+  });
+
+  it("maps cancellation states", () => {
+    expect(
+      toAnthropicBatchSnapshot(messageBatch({ processing_status: "canceling", ended_at: null }))
+        .status,
+    ).toBe("cancelling");
+    expect(
+      toAnthropicBatchSnapshot(messageBatch({ cancel_initiated_at: "2026-01-01T01:00:00Z" }))
+        .status,
+    ).toBe("cancelled");
+  });
+});
+
+describe("parseAnthropicBatchResult", () => {
+  it("normalizes text and cache-aware usage", () => {
+    const item = parseAnthropicBatchResult(
+      succeeded("a", [
+        { type: "text", text: "Hello ", citations: null },
+        { type: "text", text: "world", citations: null },
+      ]),
+    );
+    expect(item).toMatchObject({
+      id: "a",
+      status: "succeeded",
+      text: "Hello world",
+      finishReason: "end_turn",
+      usage: {
+        inputTokens: 60,
+        outputTokens: 5,
+        totalTokens: 65,
+        cachedInputTokens: 20,
+        cacheCreationInputTokens: 30,
+      },
+    });
+  });
+
+  it("returns structured output as JSON text", () => {
+    const item = parseAnthropicBatchResult(
+      succeeded("a", [
+        { type: "tool_use", id: "t1", name: "structured_output", input: { label: "spam" } },
+      ]),
+    );
+    expect(JSON.parse(item.text)).toEqual({ label: "spam" });
+  });
+
+  it("normalizes errored, canceled and expired results", () => {
+    const errored = parseAnthropicBatchResult({
+      custom_id: "b",
+      result: {
+        type: "errored",
+        error: { type: "error", error: { type: "invalid_request_error", message: "Too long" } },
+      },
+    } as never);
+    expect(errored).toMatchObject({
+      status: "failed",
+      error: { message: "Too long", code: "invalid_request_error" },
+    });
+
+    for (const type of ["canceled", "expired"] as const) {
+      const item = parseAnthropicBatchResult({ custom_id: "c", result: { type } });
+      expect(item).toMatchObject({ status: "failed", error: { code: type } });
+    }
+  });
+});
+
+describe("AnthropicMessagesProvider batch support", () => {
+  it("submits non-streaming Messages params", async () => {
+    const client = fakeClient();
+    const provider = new AnthropicMessagesProvider(client);
+    expect(provider.supportsBatch("claude-haiku-4-5")).toBe(true);
+
+    await provider.submitBatch(
+      [{ id: "a", messages: [{ role: "user", content: "hi" }], maxTokens: 20 }],
+      { provider: "anthropic", name: "claude-haiku-4-5" },
+    );
+
+    const [[body]] = client.messages.batches.create.mock.calls as unknown as [
+      [{ requests: Array<{ custom_id: string; params: Record<string, unknown> }> }],
+    ];
+    expect(body.requests[0].custom_id).toBe("a");
+    expect(body.requests[0].params).toMatchObject({ model: "claude-haiku-4-5", max_tokens: 20 });
+    expect(body.requests[0].params).not.toHaveProperty("stream");
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Anthropic Message Batches API client.
+ *
+ * Requests are sent inline as Messages API params keyed by `custom_id`.
+ * Anthropic reports a coarse `processing_status` (`in_progress | canceling |
+ * ended`) plus per-request counts, and streams results as JSONL once the batch
+ * has ended.
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import type { MessageCreateParamsNonStreaming } from "@anthropic-ai/sdk/resources/messages";
+import type {
+  MessageBatch,
+  MessageBatchIndividualResponse,
+} from "@anthropic-ai/sdk/resources/messages/batches";
+import { BatchValidationError } from "../batch/errors.js";
+import type {
+  BatchJobRef,
+  BatchResultItem,
+  BatchStatus,
+  BatchStatusSnapshot,
+} from "../batch/types.js";
+import { ANTHROPIC_STRUCTURED_OUTPUT_TOOL } from "./constants.js";
+
+/** Anthropic's constraint on `custom_id`. */
+const ANTHROPIC_BATCH_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Creates the batch.
+ *
+ * @param requests - Messages API params keyed by request id
+ * @returns The batch id
+ */
+export async function submitAnthropicBatch(
+  client: Anthropic,
+  requests: Array<{ id: string; params: MessageCreateParamsNonStreaming }>,
+  signal?: AbortSignal,
+): Promise<string> {
+  for (const { id } of requests) {
+    if (!ANTHROPIC_BATCH_ID_PATTERN.test(id)) {
+      throw new BatchValidationError(
+        `Anthropic batch request ids must be 1-64 letters, digits, "_" or "-", got "${id}".`,
+      );
+    }
+  }
+
+  const batch = await client.messages.batches.create(
+    { requests: requests.map(({ id, params }) => ({ custom_id: id, params })) },
+    signal ? { signal } : undefined,
+  );
+  return batch.id;
+}
+
+/** Maps Anthropic's processing status to the normalized batch status. */
+function toBatchStatus(batch: MessageBatch): BatchStatus {
+  switch (batch.processing_status) {
+    case "in_progress":
+      return "in_progress";
+    case "canceling":
+      return "cancelling";
+    case "ended":
+      return batch.cancel_initiated_at ? "cancelled" : "completed";
+  }
+}
+
+export function toAnthropicBatchSnapshot(batch: MessageBatch): BatchStatusSnapshot {
+  const counts = batch.request_counts;
+  const failed = counts.errored + counts.expired + counts.canceled;
+  return {
+    status: toBatchStatus(batch),
+    counts: {
+      total: counts.processing + counts.succeeded + failed,
+      succeeded: counts.succeeded,
+      failed,
+    },
+    createdAt: batch.created_at,
+    endedAt: batch.ended_at ?? undefined,
+  };
+}
+
+export async function getAnthropicBatchStatus(
+  client: Anthropic,
+  ref: BatchJobRef,
+): Promise<BatchStatusSnapshot> {
+  return toAnthropicBatchSnapshot(await client.messages.batches.retrieve(ref.batchId));
+}
+
+/** Normalizes one result entry. */
+export function parseAnthropicBatchResult(entry: MessageBatchIndividualResponse): BatchResultItem {
+  const result = entry.result;
+  switch (result.type) {
+    case "succeeded": {
+      const message = result.message;
+      const usage = message.usage;
+      const cachedInputTokens = usage.cache_read_input_tokens ?? 0;
+      const cacheCreationInputTokens = usage.cache_creation_input_tokens ?? 0;
+      // Total input tokens includes uncached + cached reads + cache writes
+      const inputTokens = usage.input_tokens + cachedInputTokens + cacheCreationInputTokens;
+      return {
+        id: entry.custom_id,
+        status: "succeeded",
+        // Structured output arrives as the forced tool's input
+        text: message.content
+          .map((block) =>
+            block.type === "text"
+              ? block.text
+              : block.type === "tool_use" && block.name === ANTHROPIC_STRUCTURED_OUTPUT_TOOL
+                ? JSON.stringify(block.input)
+                : "",
+          )
+          .join(""),
+        finishReason: message.stop_reason,
+        usage: {
+          inputTokens,
+          outputTokens: usage.output_tokens,
+          totalTokens: inputTokens + usage.output_tokens,
+          cachedInputTokens,
+          cacheCreationInputTokens,
+        },
+        raw: entry,
+      };
+    }
+    case "errored":
+      return {
+        id: entry.custom_id,
+        status: "failed",
+        text: "",
+        error: { message: result.error.error.message, code: result.error.error.type },
+        raw: entry,
+      };
+    case "canceled":
+      return {
+        id: entry.custom_id,
+        status: "failed",
+        text: "",
+        error: { message: "Request was cancelled before it was processed.", code: "canceled" },
+        raw: entry,
+      };
+    case "expired":
+      return {
+        id: entry.custom_id,
+        status: "failed",
+        text: "",
+        error: { message: "Request expired before it was processed.", code: "expired" },
+        raw: entry,
+      };
+  }
+}
+
+export async function* getAnthropicBatchResults(
+  client: Anthropic,
+  ref: BatchJobRef,
+): AsyncGenerator<BatchResultItem> {
+  for await (const entry of await client.messages.batches.results(ref.batchId)) {
+    yield parseAnthropicBatchResult(entry);
+  }
+}
+
+export async function cancelAnthropicBatch(client: Anthropic, ref: BatchJobRef): Promise<void> {
+  await client.messages.batches.cancel(ref.batchId);
+}
@@ -19,6 +19,8 @@ export const ANTHROPIC_MODELS: ModelSpec[] = [
       output: 15.0,
       cachedInput: 0.3,
       cacheWriteInput: 3.75,
+      batchInput: 1.5,
+      batchOutput: 7.5,
     },
     knowledgeCutoff: "2025-01",
     features: {
@@ -44,6 +46,8 @@ export const ANTHROPIC_MODELS: ModelSpec[] = [
       output: 5.0,
       cachedInput: 0.1,
       cacheWriteInput: 1.25,
+      batchInput: 0.5,
+      batchOutput: 2.5,
     },
     knowledgeCutoff: "2025-02",
     features: {
@@ -70,6 +74,8 @@ export const ANTHROPIC_MODELS: ModelSpec[] = [
       output: 15.0,
       cachedInput: 0.3,
       cacheWriteInput: 3.75,
+      batchInput: 1.5,
+      batchOutput: 7.5,
     },
     knowledgeCutoff: "2025-03",
     features: {
@@ -95,6 +101,8 @@ export const ANTHROPIC_MODELS: ModelSpec[] = [
       output: 15.0,
       cachedInput: 0.3,
       cacheWriteInput: 3.75,
+      batchInput: 1.5,
+      batchOutput: 7.5,
     },
     knowledgeCutoff: "2024-11",
     features: {
@@ -120,6 +128,8 @@ export const ANTHROPIC_MODELS: ModelSpec[] = [
       output: 75.0,
       cachedInput: 1.5,
       cacheWriteInput: 18.75,
+      batchInput: 7.5,
+      batchOutput: 37.5,
     },
     knowledgeCutoff: "2025-01",
     features: {
@@ -145,6 +155,8 @@ export const ANTHROPIC_MODELS: ModelSpec[] = [
       output: 75.0,
       cachedInput: 1.5,
       cacheWriteInput: 18.75,
+      batchInput: 7.5,
+      batchOutput: 37.5,
     },
     knowledgeCutoff: "2025-03",
     features: {
@@ -169,6 +181,8 @@ export const ANTHROPIC_MODELS: ModelSpec[] = [
       output: 4.0,
       cachedInput: 0.08,
       cacheWriteInput: 1.0,
+      batchInput: 0.4,
+      batchOutput: 2.0,
     },
     knowledgeCutoff: "2024-07",
     features: {
@@ -193,6 +207,8 @@ export const ANTHROPIC_MODELS: ModelSpec[] = [
       output: 1.25,
       cachedInput: 0.025,
       cacheWriteInput: 0.3125,
+      batchInput: 0.125,
+      batchOutput: 0.625,
     },
     knowledgeCutoff: "2023-08",
     features: {
@@ -218,6 +234,8 @@ export const ANTHROPIC_MODELS: ModelSpec[] = [
       output: 25.0,
       cachedInput: 0.5,
       cacheWriteInput: 6.25,
+      batchInput: 2.5,
+      batchOutput: 12.5,
     },
     knowledgeCutoff: "2025-03",
     features: {
@@ -245,6 +263,8 @@ export const ANTHROPIC_MODELS: ModelSpec[] = [
       output: 5.0,
       cachedInput: 0.1,
       cacheWriteInput: 1.25,
+      batchInput: 0.5,
+      batchOutput: 2.5,
     },
     knowledgeCutoff: "2025-02",
     features: {
@@ -270,6 +290,8 @@ export const ANTHROPIC_MODELS: ModelSpec[] = [
       output: 15.0,
       cachedInput: 0.3,
       cacheWriteInput: 3.75,
+      batchInput: 1.5,
+      batchOutput: 7.5,
     },
     knowledgeCutoff: "2025-01",
     features: {
@@ -295,6 +317,8 @@ export const ANTHROPIC_MODELS: ModelSpec[] = [
       output: 25.0,
       cachedInput: 0.5,
       cacheWriteInput: 6.25,
+      batchInput: 2.5,
+      batchOutput: 12.5,
     },
     knowledgeCutoff: "2025-03",
     features: {
@@ -2,7 +2,12 @@ import type Anthropic from "@anthropic-ai/sdk";
 import { describe, expect, it, vi } from "vitest";
 
 import { isAbortError } from "../core/errors.js";
-import type { AudioContentPart, ImageContentPart } from "../core/input-content.js";
+import {
+  type AudioContentPart,
+  type ImageContentPart,
+  toolCall,
+  toolResult,
+} from "../core/input-content.js";
 import { isRetryableError } from "../core/retry.js";
 import { AnthropicMessagesProvider } from "./anthropic.js";
 
@@ -196,6 +201,172 @@ describe("AnthropicMessagesProvider", () => {
     });
   });
 
+  describe("structured output", () => {
+    const schema = { type: "object", properties: { name: { type: "string" } }, required: ["name"] };
+
+    it("forces a single tool whose input schema is the response schema", async () => {
+      const createSpy = vi.fn().mockReturnValue((async function* () {})());
+      const mockClient = { messages: { create: createSpy } } as unknown as Anthropic;
+      const provider = new AnthropicMessagesProvider(mockClient);
+
+      await provider
+        .stream(
+          {
+            model: "claude-3",
+            messages: [{ role: "user" as const, content: "Invent a person" }],
+            responseFormat: { type: "json_schema", schema },
+            reasoning: { enabled: true },
+          },
+          { provider: "anthropic", name: "claude-3" },
+        )
+        .next();
+
+      const payload = createSpy.mock.calls[0]?.[0] as Record<string, unknown>;
+      expect(payload.tools).toEqual([
+        expect.objectContaining({ name: "structured_output", input_schema: schema }),
+      ]);
+      expect(payload.tool_choice).toEqual({ type: "tool", name: "structured_output" });
+      // Forced tool use is incompatible with extended thinking
+      expect(payload).not.toHaveProperty("thinking");
+    });
+
+    it("streams tool input JSON as text", async () => {
+      const mockStream = (async function* () {
+        yield {
+          type: "content_block_delta",
+          delta: { type: "input_json_delta", partial_json: '{"name": ' },
+        };
+        yield {
+          type: "content_block_delta",
+          delta: { type: "input_json_delta", partial_json: '"Ada"}' },
+        };
+      })();
+      const mockClient = {
+        messages: { create: vi.fn().mockReturnValue(mockStream) },
+      } as unknown as Anthropic;
+      const provider = new AnthropicMessagesProvider(mockClient);
+
+      let text = "";
+      for await (const chunk of provider.stream(
+        {
+          model: "claude-3",
+          messages: [{ role: "user" as const, content: "Invent a person" }],
+          responseFormat: { type: "json_schema", schema },
+        },
+        { provider: "anthropic", name: "claude-3" },
+      )) {
+        text += chunk.text;
+      }
+
+      expect(text).toBe('{"name": "Ada"}');
+    });
+  });
+
+  describe("native tools", () => {
+    it("maps tool definitions without forcing a tool", async () => {
+      const createSpy = vi.fn().mockReturnValue((async function* () {})());
+      const mockClient = { messages: { create: createSpy } } as unknown as Anthropic;
+      const provider = new AnthropicMessagesProvider(mockClient);
+      const parameters = { type: "object", properties: { query: { type: "string" } } };
+
+      await provider
+        .stream(
+          {
+            model: "claude-3",
+            messages: [{ role: "user" as const, content: "Find llmist" }],
+            tools: [{ name: "Search", description: "Search the web", parameters }],
+          },
+          { provider: "anthropic", name: "claude-3" },
+        )
+        .next();
+
+      const payload = createSpy.mock.calls[0]?.[0] as Record<string, unknown>;
+      expect(payload.tools).toEqual([
+        { name: "Search", description: "Search the web", input_schema: parameters },
+      ]);
+      expect(payload).not.toHaveProperty("tool_choice");
+    });
+
+    it("yields tool_use blocks as tool call deltas", async () => {
+      const mockStream = (async function* () {
+        yield { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } };
+        yield {
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "text_delta", text: "Searching." },
+        };
+        yield {
+          type: "content_block_start",
+          index: 1,
+          content_block: { type: "tool_use", id: "toolu_1", name: "Search", input: {} },
+        };
+        yield {
+          type: "content_block_delta",
+          index: 1,
+          delta: { type: "input_json_delta", partial_json: '{"query": "llmist"}' },
+        };
+      })();
+      const mockClient = {
+        messages: { create: vi.fn().mockReturnValue(mockStream) },
+      } as unknown as Anthropic;
+      const provider = new AnthropicMessagesProvider(mockClient);
+
+      let text = "";
+      const toolCalls = [];
+      for await (const chunk of provider.stream(
+        { model: "claude-3", messages: [{ role: "user" as const, content: "Find llmist" }] },
+        { provider: "anthropic", name: "claude-3" },
+      )) {
+        text += chunk.text;
+        if (chunk.toolCalls) toolCalls.push(...chunk.toolCalls);
+      }
+
+      expect(text).toBe("Searching.");
+      expect(toolCalls).toEqual([
+        { index: 1, id: "toolu_1", name: "Search" },
+        { index: 1, argumentsDelta: '{"query": "llmist"}' },
+      ]);
+    });
+
+    it("sends recorded tool calls and results as tool_use and tool_result blocks", async () => {
+      const createSpy = vi.fn().mockReturnValue((async function* () {})());
+      const mockClient = { messages: { create: createSpy } } as unknown as Anthropic;
+      const provider = new AnthropicMessagesProvider(mockClient);
+
+      await provider
+        .stream(
+          {
+            model: "claude-3",
+            messages: [
+              { role: "user" as const, content: "Find llmist" },
+              {
+                role: "assistant" as const,
+                content: [toolCall("toolu_1", "Search", { query: "llmist" })],
+              },
+              { role: "user" as const, content: [toolResult("toolu_1", "Search", "Found it")] },
+            ],
+            caching: { enabled: false },
+          },
+          { provider: "anthropic", name: "claude-3" },
+        )
+        .next();
+
+      const payload = createSpy.mock.calls[0]?.[0] as Anthropic.MessageCreateParams;
+      expect(payload.messages.slice(1)).toEqual([
+        {
+          role: "assistant",
+          content: [
+            { type: "tool_use", id: "toolu_1", name: "Search", input: { query: "llmist" } },
+          ],
+        },
+        {
+          role: "user",
+          content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "Found it" }],
+        },
+      ]);
+    });
+  });
+
   describe("stream wrapping", () => {
     it("extracts text from content_block_delta events", async () => {
       const mockStream = (async function* () {
@@ -614,7 +785,7 @@ describe("AnthropicMessagesProvider", () => {
       );
     });
 
-    it("uses fallback estimation when API fails", async () => {
+    it("uses the local claude tokenizer when API fails", async () => {
       const mockCountTokens = vi.fn().mockRejectedValue(new Error("API error"));
 
       const mockClient = {
@@ -626,12 +797,12 @@ describe("AnthropicMessagesProvider", () => {
       const provider = new AnthropicMessagesProvider(mockClient);
 
       const count = await provider.countTokens(
-        [{ role: "user" as const, content: "Hello world" }], // "Hello world" = 11 chars
+        [{ role: "user" as const, content: "Hello world" }],
         { provider: "anthropic", name: "claude-3-5-sonnet-20241022" },
       );
 
-      // Fallback: 11 chars / 2 = 5.5, ceil = 6
-      expect(count).toBe(6);
+      // Local claude tokenizer: 2 cl100k tokens × 1.15 = 2.3, ceil = 3
+      expect(count).toBe(3);
     });
 
     it("handles empty content with defensive checks", async () => {
@@ -1492,8 +1663,8 @@ describe("AnthropicMessagesProvider", () => {
         { provider: "anthropic", name: "claude-3-5-sonnet-20241022" },
       );
 
-      // "What is in this image?" = 22 chars => ceil(22/2) = 11 text tokens + 1000 image tokens
-      expect(count).toBe(1011);
+      // "What is in this image?" = 6 cl100k tokens => ceil(6 × 1.15) = 7 text tokens + 1000 image tokens
+      expect(count).toBe(1007);
     });
   });
 });
@@ -2,10 +2,19 @@ import Anthropic from "@anthropic-ai/sdk";
 import type {
   ContentBlockParam,
   ImageBlockParam,
+  MessageCreateParamsNonStreaming,
   MessageCreateParamsStreaming,
   MessageStreamEvent,
   TextBlockParam,
+  ToolResultBlockParam,
+  ToolUseBlockParam,
 } from "@anthropic-ai/sdk/resources/messages";
+import type {
+  BatchJobRef,
+  BatchRequest,
+  BatchResultItem,
+  BatchStatusSnapshot,
+} from "../batch/types.js";
 import type { ContentPart, ImageContentPart, ImageMimeType } from "../core/input-content.js";
 import type { LLMMessage, MessageContent } from "../core/messages.js";
 import { extractMessageText, normalizeMessageContent } from "../core/messages.js";
@@ -17,9 +26,19 @@ import type {
   ReasoningConfig,
   ReasoningEffort,
 } from "../core/options.js";
+import { countTokensLocally, resolveTokenizer } from "../core/tokenizer.js";
+import {
+  cancelAnthropicBatch,
+  getAnthropicBatchResults,
+  getAnthropicBatchStatus,
+  submitAnthropicBatch,
+} from "./anthropic-batch.js";
 import { ANTHROPIC_MODELS } from "./anthropic-models.js";
 import { BaseProviderAdapter } from "./base-provider.js";
-import { ANTHROPIC_DEFAULT_MAX_OUTPUT_TOKENS, FALLBACK_CHARS_PER_TOKEN } from "./constants.js";
+import {
+  ANTHROPIC_DEFAULT_MAX_OUTPUT_TOKENS,
+  ANTHROPIC_STRUCTURED_OUTPUT_TOOL,
+} from "./constants.js";
 import { createProviderFromEnv } from "./utils.js";
 
 /** Maps llmist reasoning effort levels to Anthropic thinking budget_tokens */
@@ -46,7 +65,7 @@ function resolveAnthropicThinking(
 }
 
 export class AnthropicMessagesProvider extends BaseProviderAdapter {
-  readonly providerId = "anthropic" as const;
+  readonly providerId: string = "anthropic";
 
   supports(descriptor: ModelDescriptor): boolean {
     return descriptor.provider === this.providerId;
@@ -56,6 +75,14 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
     return ANTHROPIC_MODELS;
   }
 
+  supportsStructuredOutput(_descriptor: ModelDescriptor, _spec?: ModelSpec): boolean {
+    return true;
+  }
+
+  supportsNativeTools(_descriptor: ModelDescriptor, _spec?: ModelSpec): boolean {
+    return true;
+  }
+
   // =========================================================================
   // Image Generation (Not Supported)
   // =========================================================================
@@ -84,6 +111,46 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
     );
   }
 
+  // =========================================================================
+  // Batch API
+  // =========================================================================
+
+  supportsBatch(modelId: string): boolean {
+    return ANTHROPIC_MODELS.some(
+      (spec) => spec.modelId === modelId && spec.pricing.batchInput !== undefined,
+    );
+  }
+
+  submitBatch(
+    requests: BatchRequest[],
+    descriptor: ModelDescriptor,
+    spec?: ModelSpec,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const params = requests.map(({ id, model: _model, ...options }) => {
+      const { stream: _stream, ...rest } = this.buildApiRequest(
+        { ...options, model: descriptor.name },
+        descriptor,
+        spec,
+        this.prepareMessages(options.messages),
+      );
+      return { id, params: rest as MessageCreateParamsNonStreaming };
+    });
+    return submitAnthropicBatch(this.client as Anthropic, params, signal);
+  }
+
+  getBatchStatus(ref: BatchJobRef): Promise<BatchStatusSnapshot> {
+    return getAnthropicBatchStatus(this.client as Anthropic, ref);
+  }
+
+  getBatchResults(ref: BatchJobRef): AsyncIterable<BatchResultItem> {
+    return getAnthropicBatchResults(this.client as Anthropic, ref);
+  }
+
+  cancelBatch(ref: BatchJobRef): Promise<void> {
+    return cancelAnthropicBatch(this.client as Anthropic, ref);
+  }
+
   protected buildApiRequest(
     options: LLMGenerationOptions,
     descriptor: ModelDescriptor,
@@ -136,8 +203,15 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
     // Use model's max from the passed spec, or fall back to the default constant
     const defaultMaxTokens = spec?.maxOutputTokens ?? ANTHROPIC_DEFAULT_MAX_OUTPUT_TOKENS;
 
+    // Structured output forces a single tool call whose input is the schema.
+    // Anthropic rejects forced tool use together with extended thinking.
+    const structured =
+      options.responseFormat && options.responseFormat !== "text"
+        ? options.responseFormat
+        : undefined;
+
     // Resolve thinking configuration from reasoning config
-    const thinking = resolveAnthropicThinking(options.reasoning);
+    const thinking = structured ? undefined : resolveAnthropicThinking(options.reasoning);
 
     // Anthropic forbids temperature when thinking is enabled
     const temperature = thinking ? undefined : options.temperature;
@@ -152,6 +226,26 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
       stop_sequences: options.stopSequences,
       stream: true,
       ...(thinking ? { thinking } : {}),
+      ...(structured
+        ? {
+            tools: [
+              {
+                name: ANTHROPIC_STRUCTURED_OUTPUT_TOOL,
+                description: structured.description ?? "Respond with the requested data.",
+                input_schema: structured.schema as Anthropic.Tool.InputSchema,
+              },
+            ],
+            tool_choice: { type: "tool" as const, name: ANTHROPIC_STRUCTURED_OUTPUT_TOOL },
+          }
+        : options.tools && options.tools.length > 0
+          ? {
+              tools: options.tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+              })),
+            }
+          : {}),
       ...options.extra,
     };
 
@@ -160,7 +254,8 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
 
   /**
    * Convert llmist content to Anthropic's content block format.
-   * Handles text, images (base64 only), and applies cache_control.
+   * Handles text, images (base64 only), native tool calls and results,
+   * and applies cache_control.
    */
   private convertToAnthropicContent(
     content: MessageContent,
@@ -185,6 +280,25 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
         return this.convertImagePart(part, cacheControl);
       }
 
+      if (part.type === "tool_call") {
+        return {
+          type: "tool_use" as const,
+          id: part.id,
+          name: part.name,
+          input: part.arguments,
+          ...cacheControl,
+        } as ToolUseBlockParam;
+      }
+
+      if (part.type === "tool_result") {
+        return {
+          type: "tool_result" as const,
+          tool_use_id: part.toolCallId,
+          content: part.content,
+          ...cacheControl,
+        } as ToolResultBlockParam;
+      }
+
       if (part.type === "audio") {
         throw new Error(
           "Anthropic does not support audio input. Use Google Gemini for audio processing.",
@@ -222,8 +336,11 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
   protected async executeStreamRequest(
     payload: MessageCreateParamsStreaming,
     signal?: AbortSignal,
+    apiKey?: string,
   ): Promise<AsyncIterable<MessageStreamEvent>> {
-    const client = this.client as Anthropic;
+    const client = apiKey
+      ? (this.client as Anthropic).withOptions({ apiKey })
+      : (this.client as Anthropic);
     // Pass abort signal to SDK via request options
     const stream = await client.messages.create(payload, signal ? { signal } : undefined);
     return stream as unknown as AsyncIterable<MessageStreamEvent>;
@@ -234,6 +351,8 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
     let inputTokens = 0;
     let cachedInputTokens = 0;
     let cacheCreationInputTokens = 0;
+    // Content block indexes of native tool calls (all other tool input is structured output)
+    const toolCallBlocks = new Set<number>();
 
     for await (const event of stream) {
       // Track and yield input tokens from message_start event
@@ -274,6 +393,14 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
           yield { text: "", thinking: { content: "", type: "redacted" }, rawEvent: event };
           continue;
         }
+        if (block.type === "tool_use") {
+          const { id, name } = event.content_block as { id: string; name: string };
+          if (name !== ANTHROPIC_STRUCTURED_OUTPUT_TOOL) {
+            toolCallBlocks.add(event.index);
+            yield { text: "", toolCalls: [{ index: event.index, id, name }], rawEvent: event };
+          }
+          continue;
+        }
       }
 
       if (event.type === "content_block_delta") {
@@ -298,6 +425,20 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
           yield { text: (delta as { text?: string }).text ?? "", rawEvent: event };
           continue;
         }
+        // Tool input JSON is either a native tool call or structured output (streamed as text)
+        if (delta.type === "input_json_delta") {
+          const partialJson = (delta as { partial_json?: string }).partial_json ?? "";
+          if (toolCallBlocks.has(event.index)) {
+            yield {
+              text: "",
+              toolCalls: [{ index: event.index, argumentsDelta: partialJson }],
+              rawEvent: event,
+            };
+          } else {
+            yield { text: partialJson, rawEvent: event };
+          }
+          continue;
+        }
         continue;
       }
 
@@ -339,10 +480,10 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
    *
    * @param messages - The messages to count tokens for
    * @param descriptor - Model descriptor containing the model name
-   * @param _spec - Optional model specification (currently unused)
+   * @param spec - Optional model specification (selects the fallback tokenizer)
    * @returns Promise resolving to the estimated input token count
    *
-   * @throws Never throws - falls back to character-based estimation (4 chars/token) on error
+   * @throws Never throws - falls back to the local tokenizer on error
    *
    * @example
    * ```typescript
@@ -355,7 +496,7 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
   async countTokens(
     messages: LLMMessage[],
     descriptor: ModelDescriptor,
-    _spec?: ModelSpec,
+    spec?: ModelSpec,
   ): Promise<number> {
     const client = this.client as Anthropic;
 
@@ -392,26 +533,21 @@ export class AnthropicMessagesProvider extends BaseProviderAdapter {
         `Token counting failed for ${descriptor.name}, using fallback estimation:`,
         error,
       );
-      // Fallback to rough estimation if API fails
-      // For multimodal, extract text and estimate; images add ~1000 tokens
-      let totalChars = 0;
-      let imageCount = 0;
-      for (const msg of messages) {
-        const parts = normalizeMessageContent(msg.content);
-        for (const part of parts) {
-          if (part.type === "text") {
-            totalChars += part.text.length;
-          } else if (part.type === "image") {
-            imageCount++;
-          }
-        }
-      }
-      // Anthropic charges ~1000 tokens per image (rough estimate).
-      // Source: https://docs.anthropic.com/en/docs/build-with-claude/vision
-      // Actual cost depends on image size, but this provides a reasonable fallback.
-      return Math.ceil(totalChars / FALLBACK_CHARS_PER_TOKEN) + imageCount * 1000;
+      return this.estimateTokens(messages, descriptor, spec);
     }
   }
+
+  /**
+   * Offline token estimate with the local Claude tokenizer, used when the
+   * token counting API is unavailable. Images add ~1000 tokens each.
+   */
+  protected estimateTokens(
+    messages: LLMMessage[],
+    descriptor: ModelDescriptor,
+    spec?: ModelSpec,
+  ): number {
+    return countTokensLocally(messages, resolveTokenizer(descriptor, spec));
+  }
 }
 
 export function createAnthropicProviderFromEnv(): AnthropicMessagesProvider | null {
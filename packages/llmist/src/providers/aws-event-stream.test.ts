@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { decodeAwsEventStream, encodeAwsEventStreamMessage } from "./aws-event-stream.js";
+
+function streamOf(...chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>) {
+  const messages = [];
+  for await (const message of decodeAwsEventStream(body)) {
+    messages.push({ headers: message.headers, payload: new TextDecoder().decode(message.payload) });
+  }
+  return messages;
+}
+
+const encoder = new TextEncoder();
+
+describe("decodeAwsEventStream", () => {
+  it("decodes frames split across chunks", async () => {
+    const first = encodeAwsEventStreamMessage({ ":event-type": "chunk" }, encoder.encode("one"));
+    const second = encodeAwsEventStreamMessage({ ":event-type": "chunk" }, encoder.encode("two"));
+    const bytes = new Uint8Array([...first, ...second]);
+
+    const messages = await collect(
+      streamOf(bytes.subarray(0, 5), bytes.subarray(5, 40), bytes.subarray(40)),
+    );
+
+    expect(messages).toEqual([
+      { headers: { ":event-type": "chunk" }, payload: "one" },
+      { headers: { ":event-type": "chunk" }, payload: "two" },
+    ]);
+  });
+
+  it("rejects corrupted frames", async () => {
+    const frame = encodeAwsEventStreamMessage({}, encoder.encode("data"));
+    frame[frame.length - 6] ^= 0xff;
+
+    await expect(collect(streamOf(frame))).rejects.toThrow("message CRC mismatch");
+  });
+
+  it("rejects a truncated stream", async () => {
+    const frame = encodeAwsEventStreamMessage({}, encoder.encode("data"));
+
+    await expect(collect(streamOf(frame.subarray(0, frame.length - 1)))).rejects.toThrow(
+      "ended in the middle of a frame",
+    );
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * AWS event stream encoding (`application/vnd.amazon.eventstream`).
+ *
+ * Streaming AWS APIs such as Bedrock's `InvokeModelWithResponseStream` send
+ * binary frames instead of server-sent events. Each frame is:
+ *
+ * ```
+ * total length (4) | headers length (4) | prelude CRC (4) | headers | payload | message CRC (4)
+ * ```
+ *
+ * @module providers/aws-event-stream
+ */
+
+/**
+ * A decoded event stream frame.
+ */
+export interface AwsEventStreamMessage {
+  /** String-valued headers (e.g., `:event-type`, `:message-type`) */
+  headers: Record<string, string>;
+  payload: Uint8Array;
+}
+
+const PRELUDE_LENGTH = 12;
+const CRC_LENGTH = 4;
+const STRING_HEADER_TYPE = 7;
+
+/** Byte lengths of fixed-size header value types, by type code. */
+const FIXED_HEADER_VALUE_LENGTHS: Record<number, number> = {
+  0: 0, // true
+  1: 0, // false
+  2: 1, // byte
+  3: 2, // short
+  4: 4, // integer
+  5: 8, // long
+  8: 8, // timestamp
+  9: 16, // uuid
+};
+
+/**
+ * Decode a binary event stream into frames.
+ *
+ * @throws Error when a frame is truncated or fails its CRC check
+ */
+export async function* decodeAwsEventStream(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<AwsEventStreamMessage> {
+  const reader = body.getReader();
+  let buffer: Uint8Array = new Uint8Array(0);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer = concat(buffer, value);
+
+      while (buffer.length >= PRELUDE_LENGTH) {
+        const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+        const totalLength = view.getUint32(0);
+        if (buffer.length < totalLength) break;
+
+        yield decodeFrame(buffer.subarray(0, totalLength));
+        buffer = buffer.subarray(totalLength);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (buffer.length > 0) {
+    throw new Error("AWS event stream ended in the middle of a frame");
+  }
+}
+
+/**
+ * Encode a frame with string headers.
+ * Used to build event stream responses for local test servers.
+ */
+export function encodeAwsEventStreamMessage(
+  headers: Record<string, string>,
+  payload: Uint8Array,
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const headerBytes = concat(
+    ...Object.entries(headers).map(([name, value]) => {
+      const nameBytes = encoder.encode(name);
+      const valueBytes = encoder.encode(value);
+      const header = new Uint8Array(1 + nameBytes.length + 1 + 2 + valueBytes.length);
+      const view = new DataView(header.buffer);
+      header[0] = nameBytes.length;
+      header.set(nameBytes, 1);
+      header[1 + nameBytes.length] = STRING_HEADER_TYPE;
+      view.setUint16(2 + nameBytes.length, valueBytes.length);
+      header.set(valueBytes, 4 + nameBytes.length);
+      return header;
+    }),
+  );
+
+  const totalLength = PRELUDE_LENGTH + headerBytes.length + payload.length + CRC_LENGTH;
+  const frame = new Uint8Array(totalLength);
+  const view = new DataView(frame.buffer);
+  view.setUint32(0, totalLength);
+  view.setUint32(4, headerBytes.length);
+  view.setUint32(8, crc32(frame.subarray(0, 8)));
+  frame.set(headerBytes, PRELUDE_LENGTH);
+  frame.set(payload, PRELUDE_LENGTH + headerBytes.length);
+  view.setUint32(totalLength - CRC_LENGTH, crc32(frame.subarray(0, totalLength - CRC_LENGTH)));
+  return frame;
+}
+
+function decodeFrame(frame: Uint8Array): AwsEventStreamMessage {
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const headersLength = view.getUint32(4);
+
+  if (view.getUint32(8) !== crc32(frame.subarray(0, 8))) {
+    throw new Error("AWS event stream prelude CRC mismatch");
+  }
+  if (
+    view.getUint32(frame.length - CRC_LENGTH) !==
+    crc32(frame.subarray(0, frame.length - CRC_LENGTH))
+  ) {
+    throw new Error("AWS event stream message CRC mismatch");
+  }
+
+  const headersEnd = PRELUDE_LENGTH + headersLength;
+  return {
+    headers: decodeHeaders(frame.subarray(PRELUDE_LENGTH, headersEnd)),
+    payload: frame.subarray(headersEnd, frame.length - CRC_LENGTH),
+  };
+}
+
+function decodeHeaders(bytes: Uint8Array): Record<string, string> {
+  const decoder = new TextDecoder();
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headers: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const nameLength = bytes[offset];
+    const name = decoder.decode(bytes.subarray(offset + 1, offset + 1 + nameLength));
+    offset += 1 + nameLength;
+    const type = bytes[offset];
+    offset += 1;
+
+    if (type === STRING_HEADER_TYPE || type === 6) {
+      // String or byte array: 2-byte length prefix
+      const length = view.getUint16(offset);
+      if (type === STRING_HEADER_TYPE) {
+        headers[name] = decoder.decode(bytes.subarray(offset + 2, offset + 2 + length));
+      }
+      offset += 2 + length;
+    } else if (type in FIXED_HEADER_VALUE_LENGTHS) {
+      offset += FIXED_HEADER_VALUE_LENGTHS[type];
+    } else {
+      throw new Error(`Unknown AWS event stream header type ${type}`);
+    }
+  }
+
+  return headers;
+}
+
+function concat(...chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+let crcTable: Uint32Array | undefined;
+
+/** CRC-32 (IEEE), as used by the event stream framing. */
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
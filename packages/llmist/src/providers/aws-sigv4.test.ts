@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { readAwsCredentialsFromEnv, signAwsRequest } from "./aws-sigv4.js";
+
+// Test vector from the AWS Signature Version 4 test suite ("get-vanilla")
+const credentials = {
+  accessKeyId: "AKIDEXAMPLE",
+  secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+};
+const date = new Date("2015-08-30T12:36:00Z");
+
+describe("signAwsRequest", () => {
+  it("matches the AWS test suite signature", () => {
+    const headers = signAwsRequest(
+      { method: "GET", url: "https://example.amazonaws.com/" },
+      { credentials, region: "us-east-1", service: "service", date },
+    );
+
+    expect(headers).toEqual({
+      host: "example.amazonaws.com",
+      "x-amz-date": "20150830T123600Z",
+      authorization:
+        "AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, " +
+        "SignedHeaders=host;x-amz-date, " +
+        "Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31",
+    });
+  });
+
+  it("signs request headers and the session token", () => {
+    const headers = signAwsRequest(
+      {
+        method: "POST",
+        url: "https://bedrock-runtime.us-east-1.amazonaws.com/model/a%3A0/invoke",
+        headers: { "Content-Type": "application/json" },
+        body: "{}",
+      },
+      {
+        credentials: { ...credentials, sessionToken: "token" },
+        region: "us-east-1",
+        service: "bedrock",
+        date,
+      },
+    );
+
+    expect(headers["content-type"]).toBe("application/json");
+    expect(headers["x-amz-security-token"]).toBe("token");
+    expect(headers.authorization).toContain(
+      "SignedHeaders=content-type;host;x-amz-date;x-amz-security-token",
+    );
+  });
+});
+
+describe("readAwsCredentialsFromEnv", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reads the key pair and session token", () => {
+    vi.stubEnv("AWS_ACCESS_KEY_ID", "AKID");
+    vi.stubEnv("AWS_SECRET_ACCESS_KEY", "secret");
+    vi.stubEnv("AWS_SESSION_TOKEN", "token");
+
+    expect(readAwsCredentialsFromEnv()).toEqual({
+      accessKeyId: "AKID",
+      secretAccessKey: "secret",
+      sessionToken: "token",
+    });
+  });
+
+  it("returns undefined without a secret key", () => {
+    vi.stubEnv("AWS_ACCESS_KEY_ID", "AKID");
+    vi.stubEnv("AWS_SECRET_ACCESS_KEY", "");
+
+    expect(readAwsCredentialsFromEnv()).toBeUndefined();
+  });
+});
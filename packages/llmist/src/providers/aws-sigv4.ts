@@ -0,0 +1,157 @@
+/**
+ * AWS Signature Version 4 request signing and credential discovery.
+ *
+ * Implements just enough of SigV4 to sign JSON requests to AWS service
+ * endpoints (Bedrock Runtime), so the AWS SDK is not needed.
+ *
+ * @see https://docs.aws.amazon.com/IAM/latest/UserGuide/reference_sigv.html
+ * @module providers/aws-sigv4
+ */
+
+import { createHash, createHmac } from "node:crypto";
+import { isNonEmpty, readEnvVar } from "./utils.js";
+
+/**
+ * AWS credentials used to sign requests.
+ */
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Session token of temporary (STS) credentials */
+  sessionToken?: string;
+}
+
+/**
+ * A request to sign.
+ */
+export interface AwsSignableRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Signing parameters.
+ */
+export interface AwsSigningOptions {
+  credentials: AwsCredentials;
+  region: string;
+  /** Signing name of the service (e.g., "bedrock") */
+  service: string;
+  /** Signing time (defaults to now) */
+  date?: Date;
+}
+
+/**
+ * Read AWS credentials from the standard environment variables
+ * (`AWS_ACCESS_KEY_ID`, `AWS_SECRET_ACCESS_KEY`, `AWS_SESSION_TOKEN`).
+ *
+ * @returns Credentials, or undefined when the key pair is not set
+ */
+export function readAwsCredentialsFromEnv(): AwsCredentials | undefined {
+  const accessKeyId = readEnvVar("AWS_ACCESS_KEY_ID");
+  const secretAccessKey = readEnvVar("AWS_SECRET_ACCESS_KEY");
+  if (!isNonEmpty(accessKeyId) || !isNonEmpty(secretAccessKey)) {
+    return undefined;
+  }
+
+  const sessionToken = readEnvVar("AWS_SESSION_TOKEN");
+  return {
+    accessKeyId: accessKeyId.trim(),
+    secretAccessKey: secretAccessKey.trim(),
+    ...(isNonEmpty(sessionToken) ? { sessionToken: sessionToken.trim() } : {}),
+  };
+}
+
+/**
+ * Sign a request with AWS Signature Version 4.
+ *
+ * @returns The request headers plus `host`, `x-amz-date`, `authorization`
+ * and (for temporary credentials) `x-amz-security-token`
+ */
+export function signAwsRequest(
+  request: AwsSignableRequest,
+  options: AwsSigningOptions,
+): Record<string, string> {
+  const { credentials, region, service } = options;
+  const url = new URL(request.url);
+  const amzDate = toAmzDate(options.date ?? new Date());
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers ?? {})) {
+    headers[name.toLowerCase()] = value.trim();
+  }
+  headers.host = url.host;
+  headers["x-amz-date"] = amzDate;
+  if (credentials.sessionToken) {
+    headers["x-amz-security-token"] = credentials.sessionToken;
+  }
+
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames.map((name) => `${name}:${headers[name]}\n`).join("");
+  const signedHeaders = signedHeaderNames.join(";");
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalPath(url.pathname),
+    canonicalQuery(url.searchParams),
+    canonicalHeaders,
+    signedHeaders,
+    sha256Hex(request.body ?? ""),
+  ].join("\n");
+
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+  const signingKey = [dateStamp, region, service, "aws4_request"].reduce<Buffer | string>(
+    (key, part) => hmac(key, part),
+    `AWS4${credentials.secretAccessKey}`,
+  );
+  const signature = hmac(signingKey, stringToSign).toString("hex");
+
+  headers.authorization =
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
+
+/** Format a date as `YYYYMMDDTHHMMSSZ`. */
+function toAmzDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[:-]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Canonical URI: every path segment URI-encoded once more, as all
+ * services except S3 expect (e.g., `v1%3A0` is signed as `v1%253A0`).
+ */
+function canonicalPath(pathname: string): string {
+  return pathname.split("/").map(encodeRfc3986).join("/") || "/";
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+  return [...params.entries()]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function sha256Hex(data: string): string {
+  return createHash("sha256").update(data, "utf8").digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac("sha256", key).update(data, "utf8").digest();
+}
@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LLMStreamChunk } from "../core/options.js";
+import {
+  AzureOpenAIProvider,
+  createAzureOpenAIClient,
+  createAzureOpenAIProviderFromEnv,
+  DEFAULT_AZURE_OPENAI_API_VERSION,
+  parseAzureDeployments,
+} from "./azure.js";
+import { OPENAI_MODELS } from "./openai-models.js";
+
+const endpoint = "http://localhost:8089";
+
+function createFetchStub() {
+  const chunks = [
+    { choices: [{ index: 0, delta: { content: "Hello" } }] },
+    {
+      choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
+      usage: { prompt_tokens: 9, completion_tokens: 1, total_tokens: 10 },
+    },
+  ];
+  const body = `${chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("")}data: [DONE]\n\n`;
+  return vi.fn(
+    async (_input: string | URL | Request, _init?: RequestInit) =>
+      new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } }),
+  );
+}
+
+async function collect(provider: AzureOpenAIProvider, deployment: string) {
+  const chunks: LLMStreamChunk[] = [];
+  const stream = provider.stream(
+    { model: `azure:${deployment}`, messages: [{ role: "user", content: "Hi" }] },
+    { provider: "azure", name: deployment },
+  );
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe("AzureOpenAIProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends requests to the deployment with the API version and api-key header", async () => {
+    const fetchStub = createFetchStub();
+    vi.stubGlobal("fetch", fetchStub);
+    const provider = new AzureOpenAIProvider(
+      createAzureOpenAIClient({ endpoint, apiKey: "azure-key" }),
+      { "prod-chat": "gpt-4o" },
+    );
+
+    const chunks = await collect(provider, "prod-chat");
+
+    expect(chunks.map((chunk) => chunk.text).join("")).toBe("Hello");
+    expect(chunks.at(-1)?.usage).toMatchObject({ inputTokens: 9, outputTokens: 1 });
+
+    const [url, init] = fetchStub.mock.calls[0];
+    expect(String(url)).toBe(
+      `${endpoint}/openai/deployments/prod-chat/chat/completions?api-version=${DEFAULT_AZURE_OPENAI_API_VERSION}`,
+    );
+    const headers = new Headers(init?.headers);
+    expect(headers.get("api-key")).toBe("azure-key");
+    expect(headers.get("authorization")).toBeNull();
+  });
+
+  it("authenticates with a bearer token from the token provider", async () => {
+    const fetchStub = createFetchStub();
+    vi.stubGlobal("fetch", fetchStub);
+    const provider = new AzureOpenAIProvider(
+      createAzureOpenAIClient({
+        endpoint,
+        apiVersion: "2025-04-01-preview",
+        azureADTokenProvider: async () => "entra-token",
+      }),
+    );
+
+    await collect(provider, "gpt-4o");
+
+    const [url, init] = fetchStub.mock.calls[0];
+    expect(String(url)).toContain("api-version=2025-04-01-preview");
+    const headers = new Headers(init?.headers);
+    expect(headers.get("authorization")).toBe("Bearer entra-token");
+    expect(headers.get("api-key")).toBeNull();
+  });
+
+  it("maps deployment names to OpenAI catalog entries", () => {
+    const provider = new AzureOpenAIProvider(
+      createAzureOpenAIClient({ endpoint, apiKey: "azure-key" }),
+      { "prod-chat": "gpt-4o", unknown: "not-a-model" },
+    );
+    const gpt4o = OPENAI_MODELS.find((spec) => spec.modelId === "gpt-4o");
+
+    const specs = provider.getModelSpecs();
+    const deployment = specs.find((spec) => spec.modelId === "prod-chat");
+
+    expect(deployment).toMatchObject({
+      provider: "azure",
+      pricing: gpt4o?.pricing,
+      contextWindow: gpt4o?.contextWindow,
+    });
+    expect(specs.some((spec) => spec.modelId === "unknown")).toBe(false);
+    expect(specs.every((spec) => spec.provider === "azure")).toBe(true);
+    expect(provider.resolveModelId("prod-chat")).toBe("gpt-4o");
+    expect(provider.resolveModelId("gpt-4o-mini")).toBe("gpt-4o-mini");
+  });
+
+  it("supports the 'azure' provider only, without media or research models", () => {
+    const provider = new AzureOpenAIProvider(
+      createAzureOpenAIClient({ endpoint, apiKey: "azure-key" }),
+    );
+
+    expect(provider.supports({ provider: "azure", name: "prod-chat" })).toBe(true);
+    expect(provider.supports({ provider: "openai", name: "gpt-4o" })).toBe(false);
+    expect(provider.getImageModelSpecs()).toEqual([]);
+    expect(provider.getSpeechModelSpecs()).toEqual([]);
+    expect(provider.getResearchModelSpecs()).toEqual([]);
+  });
+});
+
+describe("parseAzureDeployments", () => {
+  it("parses deployment=model pairs and skips malformed entries", () => {
+    expect(parseAzureDeployments(" prod-chat = gpt-4o ,cheap=gpt-4o-mini,broken,=gpt-4o")).toEqual({
+      "prod-chat": "gpt-4o",
+      cheap: "gpt-4o-mini",
+    });
+  });
+});
+
+describe("createAzureOpenAIProviderFromEnv", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("returns null without an endpoint", () => {
+    vi.stubEnv("AZURE_OPENAI_ENDPOINT", "");
+    vi.stubEnv("AZURE_OPENAI_API_KEY", "azure-key");
+
+    expect(createAzureOpenAIProviderFromEnv()).toBeNull();
+  });
+
+  it("reads the deployment map", () => {
+    vi.stubEnv("AZURE_OPENAI_ENDPOINT", endpoint);
+    vi.stubEnv("AZURE_OPENAI_API_KEY", "azure-key");
+    vi.stubEnv("AZURE_OPENAI_DEPLOYMENTS", "prod-chat=gpt-4o");
+
+    const provider = createAzureOpenAIProviderFromEnv();
+
+    expect(provider?.providerId).toBe("azure");
+    expect(provider?.resolveModelId("prod-chat")).toBe("gpt-4o");
+  });
+});
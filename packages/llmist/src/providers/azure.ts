@@ -0,0 +1,211 @@
+/**
+ * Azure OpenAI Provider Adapter
+ *
+ * Azure OpenAI serves OpenAI models through deployments: requests name a
+ * deployment (chosen when the model was deployed) instead of a model ID, and
+ * every request carries an `api-version` query parameter. The `AzureOpenAI`
+ * client of the OpenAI SDK handles the URL scheme, so this adapter reuses
+ * {@link OpenAIChatProvider} and maps deployment names to the OpenAI catalog
+ * for pricing, context windows and tokenization.
+ *
+ * Environment variables:
+ * - AZURE_OPENAI_ENDPOINT (required) - Resource endpoint, e.g. `https://my-resource.openai.azure.com`
+ * - AZURE_OPENAI_API_KEY (key auth) or AZURE_OPENAI_AD_TOKEN (Microsoft Entra ID bearer auth)
+ * - AZURE_OPENAI_API_VERSION or OPENAI_API_VERSION (optional) - API version (default: "2024-10-21")
+ * - AZURE_OPENAI_DEPLOYMENTS (optional) - Deployment-to-model map, e.g. `prod-chat=gpt-4o,cheap=gpt-4o-mini`
+ *
+ * Model naming format: deployment name.
+ * Examples:
+ * - azure:prod-chat
+ * - azure:gpt-4o (deployments named after their model need no mapping)
+ *
+ * @see https://learn.microsoft.com/en-us/azure/ai-services/openai/reference
+ */
+
+import { AzureOpenAI } from "openai";
+import type {
+  EmbeddingModelSpec,
+  ImageModelSpec,
+  SpeechModelSpec,
+  TranscriptionModelSpec,
+} from "../core/media-types.js";
+import type { LLMMessage } from "../core/messages.js";
+import type { ModelSpec } from "../core/model-catalog.js";
+import type { ModelDescriptor } from "../core/options.js";
+import type { ResearchModelSpec } from "../research/model-spec.js";
+import { OpenAIChatProvider } from "./openai.js";
+import { OPENAI_MODELS } from "./openai-models.js";
+import { isNonEmpty, readEnvVar } from "./utils.js";
+
+/** API version used when none is configured (latest GA data-plane version) */
+export const DEFAULT_AZURE_OPENAI_API_VERSION = "2024-10-21";
+
+/**
+ * Configuration for the Azure OpenAI client.
+ */
+export interface AzureOpenAIConfig {
+  /** Resource endpoint, e.g. `https://my-resource.openai.azure.com` */
+  endpoint: string;
+  /** API key, sent in the `api-key` header */
+  apiKey?: string;
+  /**
+   * Microsoft Entra ID token provider, sent as `Authorization: Bearer`.
+   * Called before every request, so it can refresh expiring tokens.
+   */
+  azureADTokenProvider?: () => Promise<string>;
+  /** Data-plane API version (default: {@link DEFAULT_AZURE_OPENAI_API_VERSION}) */
+  apiVersion?: string;
+}
+
+/**
+ * Create an `AzureOpenAI` client. Exactly one of `apiKey` and
+ * `azureADTokenProvider` must be given.
+ */
+export function createAzureOpenAIClient(config: AzureOpenAIConfig): AzureOpenAI {
+  return new AzureOpenAI({
+    endpoint: config.endpoint,
+    apiVersion: config.apiVersion ?? DEFAULT_AZURE_OPENAI_API_VERSION,
+    ...(config.azureADTokenProvider
+      ? { azureADTokenProvider: config.azureADTokenProvider }
+      : { apiKey: config.apiKey }),
+    // llmist handles retries at application level
+    maxRetries: 0,
+  });
+}
+
+export class AzureOpenAIProvider extends OpenAIChatProvider {
+  readonly providerId = "azure";
+
+  /**
+   * @param client - Azure OpenAI client
+   * @param deployments - Deployment name to OpenAI model ID (e.g. `{ "prod-chat": "gpt-4o" }`).
+   *   Deployments named after an OpenAI model need no entry.
+   */
+  constructor(
+    client: AzureOpenAI,
+    private readonly deployments: Record<string, string> = {},
+  ) {
+    super(client);
+  }
+
+  /**
+   * Catalog entries for the mapped deployments, followed by the OpenAI
+   * catalog under its own model IDs for deployments named after their model.
+   */
+  getModelSpecs(): ModelSpec[] {
+    const mapped = Object.entries(this.deployments).flatMap(([deployment, modelId]) => {
+      const spec = OPENAI_MODELS.find((model) => model.modelId === modelId);
+      return spec ? [{ ...spec, provider: "azure", modelId: deployment }] : [];
+    });
+    const named = OPENAI_MODELS.filter((spec) => !(spec.modelId in this.deployments)).map(
+      (spec) => ({ ...spec, provider: "azure" }),
+    );
+    return [...mapped, ...named];
+  }
+
+  /**
+   * Resolve a deployment name to the OpenAI model it serves.
+   */
+  resolveModelId(deployment: string): string {
+    return this.deployments[deployment] ?? deployment;
+  }
+
+  /**
+   * Count with the tokenizer of the deployed model.
+   */
+  async countTokens(
+    messages: LLMMessage[],
+    descriptor: ModelDescriptor,
+    spec?: ModelSpec,
+  ): Promise<number> {
+    return super.countTokens(
+      messages,
+      { ...descriptor, name: this.resolveModelId(descriptor.name) },
+      spec,
+    );
+  }
+
+  // Image, speech, transcription, embedding and deep research models are deployed separately on Azure
+  // and are not mapped by this adapter. Azure batches need dedicated "global batch" deployments.
+
+  getImageModelSpecs(): ImageModelSpec[] {
+    return [];
+  }
+
+  supportsImageGeneration(_modelId: string): boolean {
+    return false;
+  }
+
+  getSpeechModelSpecs(): SpeechModelSpec[] {
+    return [];
+  }
+
+  supportsSpeechGeneration(_modelId: string): boolean {
+    return false;
+  }
+
+  getTranscriptionModelSpecs(): TranscriptionModelSpec[] {
+    return [];
+  }
+
+  supportsTranscription(_modelId: string): boolean {
+    return false;
+  }
+
+  getEmbeddingModelSpecs(): EmbeddingModelSpec[] {
+    return [];
+  }
+
+  supportsEmbeddings(_modelId: string): boolean {
+    return false;
+  }
+
+  getResearchModelSpecs(): ResearchModelSpec[] {
+    return [];
+  }
+
+  supportsResearch(_modelId: string): boolean {
+    return false;
+  }
+
+  supportsBatch(_modelId: string): boolean {
+    return false;
+  }
+}
+
+/**
+ * Parse a deployment map of the form `deployment=model,deployment=model`.
+ */
+export function parseAzureDeployments(value: string): Record<string, string> {
+  const deployments: Record<string, string> = {};
+  for (const entry of value.split(",")) {
+    const [deployment, modelId] = entry.split("=").map((part) => part.trim());
+    if (deployment && modelId) {
+      deployments[deployment] = modelId;
+    }
+  }
+  return deployments;
+}
+
+export function createAzureOpenAIProviderFromEnv(): AzureOpenAIProvider | null {
+  const endpoint = readEnvVar("AZURE_OPENAI_ENDPOINT");
+  const apiKey = readEnvVar("AZURE_OPENAI_API_KEY");
+  const adToken = readEnvVar("AZURE_OPENAI_AD_TOKEN");
+  if (!isNonEmpty(endpoint) || (!isNonEmpty(apiKey) && !isNonEmpty(adToken))) {
+    return null;
+  }
+
+  const apiVersion = readEnvVar("AZURE_OPENAI_API_VERSION") ?? readEnvVar("OPENAI_API_VERSION");
+  const deployments = readEnvVar("AZURE_OPENAI_DEPLOYMENTS");
+  const client = createAzureOpenAIClient({
+    endpoint: endpoint.trim(),
+    ...(isNonEmpty(apiKey)
+      ? { apiKey: apiKey.trim() }
+      : { azureADTokenProvider: async () => (adToken as string).trim() }),
+    ...(isNonEmpty(apiVersion) ? { apiVersion: apiVersion.trim() } : {}),
+  });
+  return new AzureOpenAIProvider(
+    client,
+    isNonEmpty(deployments) ? parseAzureDeployments(deployments) : {},
+  );
+}
@@ -3,6 +3,7 @@ import type { LLMMessage } from "../core/messages.js";
 import type { ModelSpec } from "../core/model-catalog.js";
 import type { LLMGenerationOptions, LLMStreamChunk, ModelDescriptor } from "../core/options.js";
 import { BaseProviderAdapter } from "./base-provider.js";
+import { KeyPool } from "./key-pool.js";
 
 /**
  * Concrete test implementation of BaseProviderAdapter.
@@ -19,6 +20,8 @@ class TestProviderAdapter extends BaseProviderAdapter {
 
   public lastPayload: unknown = null;
   public lastPreparedMessages: LLMMessage[] = [];
+  public apiKeys: Array<string | undefined> = [];
+  public requestError?: Error;
 
   // Configurable response chunks
   private responseChunks: LLMStreamChunk[] = [{ type: "text", text: "Hello, world!" }];
@@ -53,8 +56,14 @@ class TestProviderAdapter extends BaseProviderAdapter {
     return this.lastPayload;
   }
 
-  protected async executeStreamRequest(_payload: unknown): Promise<AsyncIterable<unknown>> {
+  protected async executeStreamRequest(
+    _payload: unknown,
+    _signal?: AbortSignal,
+    apiKey?: string,
+  ): Promise<AsyncIterable<unknown>> {
     this.executeStreamCalled = true;
+    this.apiKeys.push(apiKey);
+    if (this.requestError) throw this.requestError;
     const chunks = this.responseChunks;
     return {
       async *[Symbol.asyncIterator]() {
@@ -102,6 +111,23 @@ class TransformingProviderAdapter extends TestProviderAdapter {
   }
 }
 
+/**
+ * Provider that authenticates without API keys (like Bedrock and Vertex AI).
+ */
+class KeylessProviderAdapter extends TestProviderAdapter {
+  protected acceptsApiKeys(): boolean {
+    return false;
+  }
+}
+
+async function collect(stream: AsyncIterable<LLMStreamChunk>): Promise<LLMStreamChunk[]> {
+  const chunks: LLMStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
 describe("BaseProviderAdapter", () => {
   describe("stream (Template Method)", () => {
     it("should call all four steps in order", async () => {
@@ -393,4 +419,94 @@ describe("BaseProviderAdapter", () => {
       }
     });
   });
+
+  describe("credentials and key pools", () => {
+    const descriptor: ModelDescriptor = { provider: "test", name: "model" };
+    const messages: LLMMessage[] = [{ role: "user", content: "Hi" }];
+
+    it("uses the client's own key by default", async () => {
+      const adapter = new TestProviderAdapter(null);
+
+      await collect(adapter.stream({ model: "test:model", messages }, descriptor));
+
+      expect(adapter.apiKeys).toEqual([undefined]);
+    });
+
+    it("uses the request's credentials for its provider", async () => {
+      const adapter = new TestProviderAdapter(null);
+      adapter.useKeyPool(new KeyPool({ keys: ["pooled"] }));
+
+      await collect(
+        adapter.stream(
+          {
+            model: "test:model",
+            messages,
+            credentials: { other: { apiKey: "other-key" }, test: { apiKey: "tenant-key" } },
+          },
+          descriptor,
+        ),
+      );
+
+      expect(adapter.apiKeys).toEqual(["tenant-key"]);
+    });
+
+    it("rotates over the keys of its pool", async () => {
+      const adapter = new TestProviderAdapter(null);
+      adapter.useKeyPool(new KeyPool({ keys: ["a", "b"] }));
+
+      for (let i = 0; i < 3; i++) {
+        await collect(adapter.stream({ model: "test:model", messages }, descriptor));
+      }
+
+      expect(adapter.apiKeys).toEqual(["a", "b", "a"]);
+    });
+
+    it("records usage and rate limits on the pooled key instead of passing them on", async () => {
+      const adapter = new TestProviderAdapter(null);
+      const pool = new KeyPool({ keys: ["a", "b"] });
+      adapter.useKeyPool(pool);
+      adapter.setResponseChunks([
+        { text: "", rateLimits: { requests: { limit: 100, remaining: 0, resetMs: 30_000 } } },
+        { text: "Hi", usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } },
+      ]);
+
+      const chunks = await collect(adapter.stream({ model: "test:model", messages }, descriptor));
+
+      expect(chunks.some((chunk) => chunk.rateLimits)).toBe(false);
+      const [a, b] = pool.getStats();
+      expect(a).toMatchObject({ rpm: 1, tpm: 15 });
+      expect(a.requiredDelayMs).toBeGreaterThan(0);
+      expect(b).toMatchObject({ rpm: 0, requiredDelayMs: 0 });
+    });
+
+    it("rests a pooled key after a rate limit error", async () => {
+      const adapter = new TestProviderAdapter(null);
+      const pool = new KeyPool({ keys: ["a", "b"] });
+      adapter.useKeyPool(pool);
+      adapter.requestError = Object.assign(new Error("Too many requests"), { status: 429 });
+
+      await expect(
+        collect(adapter.stream({ model: "test:model", messages }, descriptor)),
+      ).rejects.toThrow("Too many requests");
+
+      expect(pool.getStats()[0].requiredDelayMs).toBeGreaterThan(0);
+    });
+
+    it("rejects credentials and key pools for providers without API keys", async () => {
+      const adapter = new KeylessProviderAdapter(null);
+
+      expect(() => adapter.useKeyPool(new KeyPool({ keys: ["a"] }))).toThrow(
+        "does not support key pools",
+      );
+      await expect(
+        collect(
+          adapter.stream(
+            { model: "test:model", messages, credentials: { test: { apiKey: "tenant-key" } } },
+            descriptor,
+          ),
+        ),
+      ).rejects.toThrow("does not support per-request credentials");
+      expect(adapter.apiKeys).toEqual([]);
+    });
+  });
 });
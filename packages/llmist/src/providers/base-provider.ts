@@ -10,16 +10,27 @@
  * 2. Build the request payload (provider-specific formatting)
  * 3. Execute the stream request (call the provider's SDK)
  * 4. Wrap the stream (transform provider-specific chunks into universal format)
+ *
+ * Step 3 receives the API key to use instead of the client's own, when the
+ * request carries credentials for this provider or the adapter has a key pool.
  */
 
-import type { LLMMessage } from "../core/messages.js";
+import { type LLMMessage, replaceUnpairedToolParts } from "../core/messages.js";
 import type { ModelSpec } from "../core/model-catalog.js";
-import type { LLMGenerationOptions, LLMStream, ModelDescriptor } from "../core/options.js";
+import type {
+  LLMGenerationOptions,
+  LLMStream,
+  ModelDescriptor,
+  TokenUsage,
+} from "../core/options.js";
+import type { KeyLease, KeyPool } from "./key-pool.js";
 import type { ProviderAdapter } from "./provider.js";
 
 export abstract class BaseProviderAdapter implements ProviderAdapter {
   abstract readonly providerId: string;
 
+  private keyPool?: KeyPool;
+
   constructor(protected readonly client: unknown) {}
 
   abstract supports(descriptor: ModelDescriptor): boolean;
@@ -45,16 +56,92 @@ export abstract class BaseProviderAdapter implements ProviderAdapter {
     // Step 2: Build the provider-specific request payload
     const payload = this.buildApiRequest(options, descriptor, spec, preparedMessages);
 
-    // Step 3: Execute the stream request using the provider's SDK (with optional abort signal)
-    const rawStream = await this.executeStreamRequest(payload, options.signal);
+    // Steps 3 and 4: Execute the stream request using the provider's SDK (with optional
+    // abort signal and API key), then normalize it into the universal format
+    yield* this.streamWithCredentials(options, (apiKey) =>
+      this.executeStreamRequest(payload, options.signal, apiKey),
+    );
+  }
+
+  /**
+   * Spread requests without their own credentials over the keys of `pool`.
+   */
+  useKeyPool(pool: KeyPool): void {
+    this.assertAcceptsApiKeys("key pools");
+    this.keyPool = pool;
+  }
+
+  /**
+   * Whether requests can be made with an API key other than the client's.
+   * Providers that authenticate otherwise (e.g., AWS or Google Cloud
+   * credentials) return false and reject credentials and key pools.
+   */
+  protected acceptsApiKeys(): boolean {
+    return true;
+  }
+
+  /**
+   * Whether a request is made with the client's own key: it has no credentials
+   * for this provider and the adapter has no key pool.
+   */
+  protected usesClientKey(options: LLMGenerationOptions): boolean {
+    return options.credentials?.[this.providerId] === undefined && !this.keyPool;
+  }
+
+  /**
+   * Run a stream request with the API key for this request and normalize its
+   * stream. The key is the request's own credentials for this provider, else
+   * the next key of the key pool, else undefined (the client's own key).
+   *
+   * Pooled keys get the request's usage and rate limits recorded. Their rate
+   * limits are not passed on as `rateLimits` chunks: they describe one key of
+   * the pool, not the provider.
+   */
+  protected async *streamWithCredentials(
+    options: LLMGenerationOptions,
+    execute: (apiKey: string | undefined) => Promise<AsyncIterable<unknown>>,
+  ): LLMStream {
+    const requestKey = options.credentials?.[this.providerId]?.apiKey;
+    if (requestKey !== undefined) {
+      this.assertAcceptsApiKeys("per-request credentials");
+      yield* this.normalizeProviderStream(await execute(requestKey));
+      return;
+    }
 
-    // Step 4: Normalize provider-specific stream into universal format
-    yield* this.normalizeProviderStream(rawStream);
+    if (!this.keyPool) {
+      yield* this.normalizeProviderStream(await execute(undefined));
+      return;
+    }
+
+    const lease: KeyLease = this.keyPool.acquire();
+    let usage: TokenUsage | undefined;
+    let failed = false;
+    try {
+      const rawStream = await execute(lease.apiKey);
+      for await (const chunk of this.normalizeProviderStream(rawStream)) {
+        if (chunk.usage) usage = chunk.usage;
+        if (chunk.rateLimits) {
+          lease.recordServerLimits(chunk.rateLimits);
+          const { rateLimits: _rateLimits, ...rest } = chunk;
+          yield rest;
+          continue;
+        }
+        yield chunk;
+      }
+    } catch (error) {
+      failed = true;
+      lease.fail(error);
+      throw error;
+    } finally {
+      // Also settles the lease when the consumer stops reading early
+      if (!failed) lease.complete(usage);
+    }
   }
 
   /**
    * Prepare messages for the request.
-   * Default implementation returns messages unchanged.
+   * Default implementation turns native tool calls and results without their
+   * counterpart into text (see `replaceUnpairedToolParts`).
    * Override this to implement provider-specific message transformations
    * (e.g., Gemini's consecutive message merging, Anthropic's system message extraction).
    *
@@ -62,7 +149,7 @@ export abstract class BaseProviderAdapter implements ProviderAdapter {
    * @returns Prepared messages
    */
   protected prepareMessages(messages: LLMMessage[]): LLMMessage[] {
-    return messages;
+    return replaceUnpairedToolParts(messages);
   }
 
   /**
@@ -88,11 +175,13 @@ export abstract class BaseProviderAdapter implements ProviderAdapter {
    *
    * @param payload - The provider-specific payload
    * @param signal - Optional abort signal for cancelling the request
+   * @param apiKey - API key to use instead of the client's own, when set
    * @returns An async iterable of provider-specific chunks
    */
   protected abstract executeStreamRequest(
     payload: unknown,
     signal?: AbortSignal,
+    apiKey?: string,
   ): Promise<AsyncIterable<unknown>>;
 
   /**
@@ -103,4 +192,12 @@ export abstract class BaseProviderAdapter implements ProviderAdapter {
    * @returns Universal LLMStream
    */
   protected abstract normalizeProviderStream(rawStream: AsyncIterable<unknown>): LLMStream;
+
+  private assertAcceptsApiKeys(feature: string): void {
+    if (!this.acceptsApiKeys()) {
+      throw new Error(
+        `Provider ${this.providerId} does not authenticate with API keys and does not support ${feature}`,
+      );
+    }
+  }
 }
@@ -0,0 +1,41 @@
+/**
+ * AWS Bedrock Model Specifications
+ *
+ * Claude models on Bedrock, derived from the Anthropic catalog so pricing and
+ * limits stay in sync. Each dated Anthropic model ID maps to the Bedrock
+ * model ID (`anthropic.<id>-v1:0`) and its cross-region inference profiles
+ * (`us.anthropic.<id>-v1:0`, ...).
+ */
+
+import type { ModelSpec } from "../core/model-catalog.js";
+import { ANTHROPIC_MODELS } from "./anthropic-models.js";
+
+/** Geography prefixes of Bedrock cross-region inference profiles. */
+const INFERENCE_PROFILE_PREFIXES = ["us", "eu", "apac", "global"];
+
+/** Bedrock only serves dated model versions (e.g., claude-sonnet-4-5-20250929). */
+const DATED_MODEL_ID = /-\d{8}$/;
+
+/**
+ * Map an Anthropic model ID to its Bedrock model ID.
+ *
+ * @example
+ * toBedrockModelId("claude-sonnet-4-5-20250929")
+ * // => "anthropic.claude-sonnet-4-5-20250929-v1:0"
+ */
+export function toBedrockModelId(anthropicModelId: string): string {
+  return `anthropic.${anthropicModelId}-v1:0`;
+}
+
+export const BEDROCK_MODELS: ModelSpec[] = ANTHROPIC_MODELS.filter((spec) =>
+  DATED_MODEL_ID.test(spec.modelId),
+).flatMap((spec) => {
+  const modelId = toBedrockModelId(spec.modelId);
+  return [modelId, ...INFERENCE_PROFILE_PREFIXES.map((prefix) => `${prefix}.${modelId}`)].map(
+    (bedrockModelId) => ({
+      ...spec,
+      provider: "bedrock",
+      modelId: bedrockModelId,
+    }),
+  );
+});
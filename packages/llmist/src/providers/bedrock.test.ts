@@ -0,0 +1,207 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LLMStreamChunk } from "../core/options.js";
+import { ANTHROPIC_MODELS } from "./anthropic-models.js";
+import { encodeAwsEventStreamMessage } from "./aws-event-stream.js";
+import { BedrockAnthropicProvider, createBedrockProviderFromEnv } from "./bedrock.js";
+import { BEDROCK_MODELS, toBedrockModelId } from "./bedrock-models.js";
+
+const credentials = { accessKeyId: "AKID", secretAccessKey: "secret" };
+const endpoint = "http://localhost:4566";
+const modelId = "anthropic.claude-sonnet-4-5-20250929-v1:0";
+
+/** Encode Anthropic stream events as Bedrock `chunk` frames. */
+function eventStream(...events: unknown[]): Uint8Array {
+  const frames = events.map((event) =>
+    encodeAwsEventStreamMessage(
+      { ":event-type": "chunk", ":message-type": "event", ":content-type": "application/json" },
+      new TextEncoder().encode(
+        JSON.stringify({ bytes: Buffer.from(JSON.stringify(event)).toString("base64") }),
+      ),
+    ),
+  );
+  return new Uint8Array(frames.flatMap((frame) => [...frame]));
+}
+
+function createFetchStub(response: Response) {
+  return vi.fn(async (_input: string | URL | Request, _init?: RequestInit) => response);
+}
+
+async function collect(provider: BedrockAnthropicProvider): Promise<LLMStreamChunk[]> {
+  const chunks: LLMStreamChunk[] = [];
+  const stream = provider.stream(
+    {
+      model: `bedrock:${modelId}`,
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+      ],
+      maxTokens: 100,
+    },
+    { provider: "bedrock", name: modelId },
+  );
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe("BedrockAnthropicProvider", () => {
+  it("supports the 'bedrock' provider only", () => {
+    const provider = new BedrockAnthropicProvider({ region: "us-east-1", credentials });
+
+    expect(provider.supports({ provider: "bedrock", name: modelId })).toBe(true);
+    expect(provider.supports({ provider: "anthropic", name: "claude-sonnet-4-5" })).toBe(false);
+  });
+
+  it("sends a signed Anthropic Messages request and streams the response", async () => {
+    const fetchStub = createFetchStub(
+      new Response(
+        eventStream(
+          {
+            type: "message_start",
+            message: { usage: { input_tokens: 12, output_tokens: 0 } },
+          },
+          { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hello" } },
+          {
+            type: "message_delta",
+            delta: { stop_reason: "end_turn" },
+            usage: { output_tokens: 3 },
+          },
+        ),
+        { status: 200, headers: { "Content-Type": "application/vnd.amazon.eventstream" } },
+      ),
+    );
+    const provider = new BedrockAnthropicProvider({
+      region: "us-east-1",
+      credentials,
+      endpoint,
+      fetch: fetchStub,
+    });
+
+    const chunks = await collect(provider);
+
+    expect(chunks.map((chunk) => chunk.text).join("")).toBe("Hello");
+    expect(chunks.at(-1)).toMatchObject({
+      finishReason: "end_turn",
+      usage: { inputTokens: 12, outputTokens: 3 },
+    });
+
+    const [url, init] = fetchStub.mock.calls[0];
+    expect(url).toBe(
+      `${endpoint}/model/anthropic.claude-sonnet-4-5-20250929-v1%3A0/invoke-with-response-stream`,
+    );
+    const headers = init?.headers as Record<string, string>;
+    expect(headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKID\/\d{8}\/us-east-1\/bedrock\/aws4_request, /,
+    );
+    expect(headers).not.toHaveProperty("host");
+    const body = JSON.parse(init?.body as string);
+    expect(body).toMatchObject({
+      anthropic_version: "bedrock-2023-05-31",
+      max_tokens: 100,
+      messages: [{ role: "user" }],
+      system: [{ type: "text", text: "Be brief." }],
+    });
+    expect(body).not.toHaveProperty("model");
+    expect(body).not.toHaveProperty("stream");
+  });
+
+  it("surfaces HTTP errors with their status", async () => {
+    const provider = new BedrockAnthropicProvider({
+      region: "us-east-1",
+      credentials,
+      endpoint,
+      fetch: createFetchStub(
+        new Response(JSON.stringify({ message: "Too many requests" }), { status: 429 }),
+      ),
+    });
+
+    await expect(collect(provider)).rejects.toMatchObject({
+      message: "Bedrock request failed with HTTP 429: Too many requests",
+      status: 429,
+    });
+  });
+
+  it("maps stream exceptions to HTTP statuses", async () => {
+    const exception = encodeAwsEventStreamMessage(
+      { ":message-type": "exception", ":exception-type": "throttlingException" },
+      new TextEncoder().encode(JSON.stringify({ message: "Rate exceeded" })),
+    );
+    const provider = new BedrockAnthropicProvider({
+      region: "us-east-1",
+      credentials,
+      endpoint,
+      fetch: createFetchStub(new Response(exception, { status: 200 })),
+    });
+
+    await expect(collect(provider)).rejects.toMatchObject({
+      message: "Bedrock throttlingException: Rate exceeded",
+      status: 429,
+    });
+  });
+
+  it("estimates tokens without calling the API", async () => {
+    const fetchStub = createFetchStub(new Response(null));
+    const provider = new BedrockAnthropicProvider({
+      region: "us-east-1",
+      credentials,
+      fetch: fetchStub,
+    });
+
+    const count = await provider.countTokens([{ role: "user", content: "x".repeat(40) }], {
+      provider: "bedrock",
+      name: modelId,
+    });
+
+    expect(count).toBeGreaterThan(0);
+    expect(fetchStub).not.toHaveBeenCalled();
+  });
+});
+
+describe("BEDROCK_MODELS", () => {
+  it("carries Anthropic pricing and limits over to Bedrock model IDs", () => {
+    const anthropic = ANTHROPIC_MODELS.find(
+      (spec) => spec.modelId === "claude-sonnet-4-5-20250929",
+    );
+    const bedrock = BEDROCK_MODELS.filter((spec) => spec.displayName === anthropic?.displayName);
+
+    expect(bedrock.map((spec) => spec.modelId)).toEqual(
+      expect.arrayContaining([modelId, `us.${modelId}`, `global.${modelId}`]),
+    );
+    expect(bedrock[0]).toMatchObject({
+      provider: "bedrock",
+      pricing: anthropic?.pricing,
+      contextWindow: anthropic?.contextWindow,
+      maxOutputTokens: anthropic?.maxOutputTokens,
+    });
+  });
+
+  it("only includes dated model versions", () => {
+    expect(BEDROCK_MODELS.map((spec) => spec.modelId)).not.toContain(
+      toBedrockModelId("claude-sonnet-4-5"),
+    );
+  });
+});
+
+describe("createBedrockProviderFromEnv", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("returns null without a region", () => {
+    vi.stubEnv("AWS_ACCESS_KEY_ID", "AKID");
+    vi.stubEnv("AWS_SECRET_ACCESS_KEY", "secret");
+    vi.stubEnv("AWS_REGION", "");
+    vi.stubEnv("AWS_DEFAULT_REGION", "");
+
+    expect(createBedrockProviderFromEnv()).toBeNull();
+  });
+
+  it("creates a provider from AWS credentials and region", () => {
+    vi.stubEnv("AWS_ACCESS_KEY_ID", "AKID");
+    vi.stubEnv("AWS_SECRET_ACCESS_KEY", "secret");
+    vi.stubEnv("AWS_REGION", "eu-west-1");
+
+    expect(createBedrockProviderFromEnv()?.providerId).toBe("bedrock");
+  });
+});
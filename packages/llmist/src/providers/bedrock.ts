@@ -0,0 +1,201 @@
+/**
+ * AWS Bedrock Provider Adapter
+ *
+ * Runs Claude models through Amazon Bedrock. Bedrock accepts the Anthropic
+ * Messages request format and streams Anthropic events, so message
+ * conversion, reasoning, tools and structured output are shared with
+ * {@link AnthropicMessagesProvider}. Only the transport differs: requests are
+ * signed with AWS SigV4 and responses arrive as an AWS event stream.
+ *
+ * Environment variables:
+ * - AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY (required) - IAM credentials
+ * - AWS_SESSION_TOKEN (optional) - Session token of temporary credentials
+ * - AWS_REGION or AWS_DEFAULT_REGION (required) - Bedrock region
+ * - AWS_ENDPOINT_URL_BEDROCK_RUNTIME (optional) - Endpoint override (VPC endpoint, local stub)
+ *
+ * Model naming format: Bedrock model ID or cross-region inference profile ID.
+ * Examples:
+ * - bedrock:anthropic.claude-sonnet-4-5-20250929-v1:0
+ * - bedrock:us.anthropic.claude-haiku-4-5-20251001-v1:0
+ *
+ * @see https://docs.aws.amazon.com/bedrock/latest/userguide/model-parameters-anthropic-claude-messages.html
+ */
+
+import type {
+  MessageCreateParamsStreaming,
+  MessageStreamEvent,
+} from "@anthropic-ai/sdk/resources/messages";
+import type { LLMMessage } from "../core/messages.js";
+import type { ModelSpec } from "../core/model-catalog.js";
+import type { ModelDescriptor } from "../core/options.js";
+import { AnthropicMessagesProvider } from "./anthropic.js";
+import { decodeAwsEventStream } from "./aws-event-stream.js";
+import { type AwsCredentials, readAwsCredentialsFromEnv, signAwsRequest } from "./aws-sigv4.js";
+import { BEDROCK_MODELS } from "./bedrock-models.js";
+import { isNonEmpty, readEnvVar } from "./utils.js";
+
+/** API version sent in the body of Anthropic requests on Bedrock */
+const BEDROCK_ANTHROPIC_VERSION = "bedrock-2023-05-31";
+
+/** HTTP status equivalents of Bedrock stream exceptions, so retries treat them alike */
+const EXCEPTION_STATUS: Record<string, number> = {
+  throttlingException: 429,
+  serviceUnavailableException: 503,
+  internalServerException: 500,
+  modelStreamErrorException: 500,
+};
+
+/**
+ * Configuration for the Bedrock provider.
+ */
+export interface BedrockConfig {
+  /** AWS region (e.g., "us-east-1") */
+  region: string;
+  /** Credentials used to sign requests */
+  credentials: AwsCredentials;
+  /** Endpoint URL (defaults to `https://bedrock-runtime.<region>.amazonaws.com`) */
+  endpoint?: string;
+  /** Custom fetch implementation (for proxies or tests) */
+  fetch?: typeof fetch;
+}
+
+export class BedrockAnthropicProvider extends AnthropicMessagesProvider {
+  readonly providerId = "bedrock";
+
+  constructor(private readonly config: BedrockConfig) {
+    // Requests are made over fetch, there is no SDK client
+    super(undefined);
+  }
+
+  getModelSpecs() {
+    return BEDROCK_MODELS;
+  }
+
+  // Requests are signed with AWS credentials, not API keys
+
+  protected acceptsApiKeys(): boolean {
+    return false;
+  }
+
+  // Bedrock batch inference reads from and writes to S3, which this adapter doesn't manage
+
+  supportsBatch(_modelId: string): boolean {
+    return false;
+  }
+
+  protected async executeStreamRequest(
+    payload: MessageCreateParamsStreaming,
+    signal?: AbortSignal,
+  ): Promise<AsyncIterable<MessageStreamEvent>> {
+    // The model goes in the path and streaming is implied by the endpoint
+    const { model, stream: _stream, ...params } = payload;
+    const url = `${this.endpoint}/model/${encodeURIComponent(model)}/invoke-with-response-stream`;
+    const body = JSON.stringify({ ...params, anthropic_version: BEDROCK_ANTHROPIC_VERSION });
+
+    const headers = signAwsRequest(
+      {
+        method: "POST",
+        url,
+        headers: {
+          "content-type": "application/json",
+          accept: "application/vnd.amazon.eventstream",
+        },
+        body,
+      },
+      { credentials: this.config.credentials, region: this.config.region, service: "bedrock" },
+    );
+    // fetch sets the host header itself
+    const { host: _host, ...requestHeaders } = headers;
+
+    const fetchImpl = this.config.fetch ?? fetch;
+    const response = await fetchImpl(url, {
+      method: "POST",
+      headers: requestHeaders,
+      body,
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const text = await response.text();
+      throw bedrockError(
+        `Bedrock request failed with HTTP ${response.status}: ${readErrorMessage(text)}`,
+        response.status,
+      );
+    }
+
+    return this.decodeEvents(response.body);
+  }
+
+  /**
+   * Bedrock has no token counting endpoint for all regions and models,
+   * so counts are estimated with the local Claude tokenizer.
+   */
+  async countTokens(
+    messages: LLMMessage[],
+    descriptor: ModelDescriptor,
+    spec?: ModelSpec,
+  ): Promise<number> {
+    return this.estimateTokens(messages, descriptor, spec);
+  }
+
+  private get endpoint(): string {
+    const endpoint =
+      this.config.endpoint ?? `https://bedrock-runtime.${this.config.region}.amazonaws.com`;
+    return endpoint.replace(/\/+$/, "");
+  }
+
+  /** Unwrap the Anthropic events carried in the event stream's `chunk` frames. */
+  private async *decodeEvents(
+    body: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<MessageStreamEvent> {
+    const decoder = new TextDecoder();
+
+    for await (const message of decodeAwsEventStream(body)) {
+      const payload = JSON.parse(decoder.decode(message.payload)) as {
+        bytes?: string;
+        message?: string;
+      };
+
+      if (message.headers[":message-type"] === "exception") {
+        const exceptionType = message.headers[":exception-type"] ?? "unknownException";
+        throw bedrockError(
+          `Bedrock ${exceptionType}: ${payload.message ?? "stream failed"}`,
+          EXCEPTION_STATUS[exceptionType] ?? 400,
+        );
+      }
+
+      if (message.headers[":event-type"] === "chunk" && payload.bytes) {
+        yield JSON.parse(Buffer.from(payload.bytes, "base64").toString("utf8"));
+      }
+    }
+  }
+}
+
+/** Error carrying an HTTP status, so retry logic can classify it. */
+function bedrockError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+function readErrorMessage(text: string): string {
+  try {
+    const parsed = JSON.parse(text) as { message?: string; Message?: string };
+    return parsed.message ?? parsed.Message ?? text;
+  } catch {
+    return text;
+  }
+}
+
+export function createBedrockProviderFromEnv(): BedrockAnthropicProvider | null {
+  const credentials = readAwsCredentialsFromEnv();
+  const region = readEnvVar("AWS_REGION") ?? readEnvVar("AWS_DEFAULT_REGION");
+  if (!credentials || !isNonEmpty(region)) {
+    return null;
+  }
+
+  const endpoint = readEnvVar("AWS_ENDPOINT_URL_BEDROCK_RUNTIME");
+  return new BedrockAnthropicProvider({
+    region: region.trim(),
+    credentials,
+    ...(isNonEmpty(endpoint) ? { endpoint: endpoint.trim() } : {}),
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * Cerebras Model Specifications
+ *
+ * Model data for open-weight models served on Cerebras Inference (wafer-scale
+ * hardware), with their specifications, pricing (developer tier) and
+ * capabilities. Cerebras offers the highest output speeds available, which
+ * suits latency-sensitive subagents.
+ *
+ * Pricing source: https://www.cerebras.ai/pricing
+ * Last updated: 2025-12-20
+ */
+
+import type { ModelSpec } from "../core/model-catalog.js";
+
+export const CEREBRAS_MODELS: ModelSpec[] = [
+  {
+    provider: "cerebras",
+    modelId: "gpt-oss-120b",
+    displayName: "GPT-OSS 120B (Cerebras)",
+    contextWindow: 131_072,
+    maxOutputTokens: 40_960,
+    pricing: {
+      input: 0.35,
+      output: 0.75,
+    },
+    knowledgeCutoff: "2024-06",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      reasoning: true,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "GPT-OSS",
+      releaseDate: "2025-08-05",
+      notes: "OpenAI's open-weight reasoning model at ~3000 tokens/s.",
+    },
+  },
+  {
+    provider: "cerebras",
+    modelId: "qwen-3-235b-a22b-instruct-2507",
+    displayName: "Qwen3 235B Instruct (Cerebras)",
+    contextWindow: 131_072,
+    maxOutputTokens: 40_960,
+    pricing: {
+      input: 0.6,
+      output: 1.2,
+    },
+    knowledgeCutoff: "2025-04",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Qwen3",
+      releaseDate: "2025-07-21",
+      notes: "Large mixture-of-experts model without thinking mode.",
+    },
+  },
+  {
+    provider: "cerebras",
+    modelId: "qwen-3-32b",
+    displayName: "Qwen3 32B (Cerebras)",
+    contextWindow: 131_072,
+    maxOutputTokens: 40_960,
+    pricing: {
+      input: 0.4,
+      output: 0.8,
+    },
+    knowledgeCutoff: "2024-12",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      reasoning: true,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Qwen3",
+      releaseDate: "2025-04-29",
+      notes: "Hybrid reasoning model.",
+    },
+  },
+  {
+    provider: "cerebras",
+    modelId: "llama-3.3-70b",
+    displayName: "Llama 3.3 70B (Cerebras)",
+    contextWindow: 131_072,
+    maxOutputTokens: 65_536,
+    pricing: {
+      input: 0.85,
+      output: 1.2,
+    },
+    knowledgeCutoff: "2023-12",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Llama 3",
+      releaseDate: "2024-12-06",
+      notes: "General-purpose model with reliable tool calling.",
+    },
+  },
+  {
+    provider: "cerebras",
+    modelId: "llama3.1-8b",
+    displayName: "Llama 3.1 8B (Cerebras)",
+    contextWindow: 32_768,
+    maxOutputTokens: 8192,
+    pricing: {
+      input: 0.1,
+      output: 0.1,
+    },
+    knowledgeCutoff: "2023-12",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Llama 3",
+      releaseDate: "2024-07-23",
+      notes: "Cheapest model on Cerebras, for classification and extraction.",
+    },
+  },
+];
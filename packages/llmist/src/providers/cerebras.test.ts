@@ -0,0 +1,77 @@
+import OpenAI from "openai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LLMStreamChunk } from "../core/options.js";
+import { CerebrasProvider, createCerebrasProviderFromEnv } from "./cerebras.js";
+import { CEREBRAS_MODELS } from "./cerebras-models.js";
+
+function createFetchStub(headers: Record<string, string> = {}) {
+  const chunk = {
+    choices: [{ index: 0, delta: { content: "Fast" }, finish_reason: "stop" }],
+    usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+  };
+  return vi.fn(
+    async (_input: string | URL | Request, _init?: RequestInit) =>
+      new Response(`data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`, {
+        status: 200,
+        headers: { "Content-Type": "text/event-stream", ...headers },
+      }),
+  );
+}
+
+describe("CerebrasProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reports daily request and per-minute token quotas", async () => {
+    const fetchStub = createFetchStub({
+      "x-ratelimit-limit-requests-day": "14400",
+      "x-ratelimit-remaining-requests-day": "14399",
+      "x-ratelimit-reset-requests-day": "3600",
+      "x-ratelimit-limit-tokens-minute": "60000",
+      "x-ratelimit-remaining-tokens-minute": "59996",
+      "x-ratelimit-reset-tokens-minute": "30.5",
+    });
+    const provider = new CerebrasProvider(
+      new OpenAI({ apiKey: "test", baseURL: "http://localhost/v1", fetch: fetchStub }),
+    );
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of provider.stream(
+      {
+        model: "gpt-oss-120b",
+        messages: [{ role: "user", content: "Go" }],
+        reasoning: { enabled: true, effort: "low" },
+      },
+      { provider: "cerebras", name: "gpt-oss-120b" },
+    )) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks[0].rateLimits).toEqual({
+      requests: { limit: 14_400, remaining: 14_399, resetMs: 3_600_000 },
+      tokens: { limit: 60_000, remaining: 59_996, resetMs: 30_500 },
+    });
+    expect(chunks.map((chunk) => chunk.text).join("")).toBe("Fast");
+
+    const body = JSON.parse(fetchStub.mock.calls[0][1]?.body as string);
+    expect(body).not.toHaveProperty("stream_options");
+    expect(body.reasoning_effort).toBe("low");
+  });
+
+  it("catalogs Cerebras models with pricing", () => {
+    expect(CEREBRAS_MODELS.every((spec) => spec.provider === "cerebras")).toBe(true);
+    for (const spec of CEREBRAS_MODELS) {
+      expect(spec.maxOutputTokens).toBeLessThanOrEqual(spec.contextWindow);
+      expect(spec.pricing.output).toBeGreaterThanOrEqual(spec.pricing.input);
+    }
+  });
+
+  it("is created from CEREBRAS_API_KEY", () => {
+    vi.stubEnv("CEREBRAS_API_KEY", "");
+    expect(createCerebrasProviderFromEnv()).toBeNull();
+
+    vi.stubEnv("CEREBRAS_API_KEY", "csk-test");
+    expect(createCerebrasProviderFromEnv()?.providerId).toBe("cerebras");
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Cerebras Provider Adapter
+ *
+ * Runs open-weight models on Cerebras Inference, which has the highest
+ * output speeds available. The chat completions API is OpenAI-compatible.
+ *
+ * Environment variables:
+ * - CEREBRAS_API_KEY (required) - Your Cerebras API key
+ *
+ * Model naming format: Cerebras model ID.
+ * Examples:
+ * - cerebras:gpt-oss-120b
+ * - cerebras:llama-3.3-70b
+ *
+ * Rate limit headers (`x-ratelimit-*-requests-day`, `x-ratelimit-*-tokens-minute`)
+ * are reported to proactive throttling (see `RateLimitTracker.recordServerLimits`).
+ *
+ * @see https://inference-docs.cerebras.ai/api-reference/chat-completions
+ */
+
+import type OpenAI from "openai";
+import type { LLMMessage } from "../core/messages.js";
+import type { ModelSpec } from "../core/model-catalog.js";
+import type { LLMGenerationOptions, ModelDescriptor, ReasoningEffort } from "../core/options.js";
+import { CEREBRAS_MODELS } from "./cerebras-models.js";
+import {
+  createOpenAICompatibleProviderFromEnv,
+  type OpenAICompatibleConfig,
+  OpenAICompatibleProvider,
+} from "./openai-compatible-provider.js";
+
+/** Maps llmist reasoning effort levels to Cerebras' `reasoning_effort` for GPT-OSS */
+const CEREBRAS_EFFORT_MAP: Record<ReasoningEffort, string> = {
+  none: "low",
+  low: "low",
+  medium: "medium",
+  high: "high",
+  maximum: "high",
+};
+
+export class CerebrasProvider extends OpenAICompatibleProvider {
+  readonly providerId = "cerebras" as const;
+  protected readonly readsRateLimitHeaders = true;
+
+  constructor(client: OpenAI, config: OpenAICompatibleConfig = {}) {
+    super(client, config);
+  }
+
+  getModelSpecs(): ModelSpec[] {
+    return CEREBRAS_MODELS;
+  }
+
+  /**
+   * Cerebras reports usage on the final chunk unprompted, so `stream_options`
+   * is dropped. GPT-OSS gets `reasoning_effort` when reasoning is configured.
+   */
+  protected buildApiRequest(
+    options: LLMGenerationOptions,
+    descriptor: ModelDescriptor,
+    spec: ModelSpec | undefined,
+    messages: LLMMessage[],
+  ): Parameters<OpenAI["chat"]["completions"]["create"]>[0] {
+    const request = super.buildApiRequest(options, descriptor, spec, messages);
+    const { stream_options: _streamOptions, ...rest } = request as unknown as Record<
+      string,
+      unknown
+    >;
+
+    if (options.reasoning?.enabled && descriptor.name.startsWith("gpt-oss")) {
+      rest.reasoning_effort = CEREBRAS_EFFORT_MAP[options.reasoning.effort ?? "medium"];
+    }
+
+    return rest as unknown as Parameters<OpenAI["chat"]["completions"]["create"]>[0];
+  }
+}
+
+export function createCerebrasProviderFromEnv(): CerebrasProvider | null {
+  return createOpenAICompatibleProviderFromEnv(
+    "CEREBRAS_API_KEY",
+    "https://api.cerebras.ai/v1",
+    CerebrasProvider,
+    () => ({}),
+  );
+}
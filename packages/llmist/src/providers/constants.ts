@@ -22,6 +22,20 @@
  */
 export const ANTHROPIC_DEFAULT_MAX_OUTPUT_TOKENS = 4096;
 
+/** Name of the forced tool Anthropic requests use to emulate JSON Schema output */
+export const ANTHROPIC_STRUCTURED_OUTPUT_TOOL = "structured_output";
+
+/**
+ * Thought signature sent with Gemini function calls replayed from history.
+ *
+ * Rationale: Gemini 3 models reject function calls in history without the
+ * signature they were returned with. Gadget calls are recorded without it,
+ * so they carry the value Google documents for calls it did not generate.
+ *
+ * Reference: https://ai.google.dev/gemini-api/docs/thought-signatures
+ */
+export const GEMINI_SKIP_THOUGHT_SIGNATURE = "skip_thought_signature_validator";
+
 /**
  * Character-to-token ratio for fallback token estimation.
  *
@@ -82,3 +96,14 @@ export const OPENAI_REPLY_PRIMING_TOKENS = 2;
  * Reference: https://github.com/openai/openai-cookbook/blob/main/examples/How_to_count_tokens_with_tiktoken.ipynb
  */
 export const OPENAI_NAME_FIELD_OVERHEAD_TOKENS = 1;
+
+/**
+ * Instruction used to create image variations with prompt-driven edit models.
+ *
+ * Rationale: Only DALL-E 2 has a dedicated variations endpoint. GPT Image and
+ * Gemini image models produce variations through a regular edit, so they need
+ * a prompt that asks for the same subject and style with different details.
+ * Caller guidance is appended after this text.
+ */
+export const IMAGE_VARIATION_PROMPT =
+  "Create a variation of this image. Keep its subject, composition and style, but change the details.";
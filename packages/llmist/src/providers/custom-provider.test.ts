@@ -0,0 +1,197 @@
+import type OpenAI from "openai";
+import type { ChatCompletionCreateParams } from "openai/resources/chat/completions";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LLMMessage } from "../core/messages.js";
+import type { LLMGenerationOptions, ModelDescriptor } from "../core/options.js";
+import {
+  CUSTOM_PROVIDER_DEFAULT_CONTEXT_WINDOW,
+  CustomOpenAICompatibleProvider,
+  createCustomProvider,
+  toCustomModelSpec,
+} from "./custom-provider.js";
+
+describe("toCustomModelSpec", () => {
+  it("should fill defaults for a minimal declaration", () => {
+    const spec = toCustomModelSpec("mygateway", { modelId: "llama-70b" });
+
+    expect(spec).toEqual({
+      provider: "mygateway",
+      modelId: "llama-70b",
+      displayName: "llama-70b",
+      contextWindow: CUSTOM_PROVIDER_DEFAULT_CONTEXT_WINDOW,
+      maxOutputTokens: 4096,
+      pricing: { input: 0, output: 0 },
+      knowledgeCutoff: "unknown",
+      features: { streaming: true, functionCalling: false, vision: false },
+    });
+  });
+
+  it("should keep declared pricing, limits and features", () => {
+    const spec = toCustomModelSpec("mygateway", {
+      modelId: "llama-70b",
+      displayName: "Llama 70B",
+      contextWindow: 32_000,
+      maxOutputTokens: 8_000,
+      pricing: { input: 0.6, output: 0.8 },
+      features: { vision: true },
+    });
+
+    expect(spec.displayName).toBe("Llama 70B");
+    expect(spec.contextWindow).toBe(32_000);
+    expect(spec.maxOutputTokens).toBe(8_000);
+    expect(spec.pricing).toEqual({ input: 0.6, output: 0.8 });
+    expect(spec.features.vision).toBe(true);
+    expect(spec.features.streaming).toBe(true);
+  });
+});
+
+/** Protected members exercised directly by these tests. */
+interface ProviderInternals {
+  getCustomHeaders(): Record<string, string>;
+  buildApiRequest(
+    options: LLMGenerationOptions,
+    descriptor: ModelDescriptor,
+    spec: undefined,
+    messages: LLMMessage[],
+  ): ChatCompletionCreateParams;
+}
+
+describe("CustomOpenAICompatibleProvider", () => {
+  const mockClient = {} as OpenAI;
+
+  it("should use the configured provider id", () => {
+    const provider = new CustomOpenAICompatibleProvider(mockClient, { providerId: "vllm" });
+
+    expect(provider.providerId).toBe("vllm");
+    expect(provider.supports({ provider: "vllm", name: "any-model" })).toBe(true);
+    expect(provider.supports({ provider: "openai", name: "gpt-4o" })).toBe(false);
+  });
+
+  it("should expose declared models as specs", () => {
+    const provider = new CustomOpenAICompatibleProvider(mockClient, {
+      providerId: "vllm",
+      models: [{ modelId: "qwen-72b" }, { modelId: "llama-70b" }],
+    });
+
+    expect(provider.getModelSpecs().map((spec) => spec.modelId)).toEqual(["qwen-72b", "llama-70b"]);
+  });
+
+  it("should send configured headers", () => {
+    const provider = new CustomOpenAICompatibleProvider(mockClient, {
+      providerId: "gw",
+      customHeaders: { "X-Team": "search" },
+    });
+
+    expect((provider as unknown as ProviderInternals).getCustomHeaders()).toEqual({
+      "X-Team": "search",
+    });
+  });
+
+  it("should build OpenAI chat requests with the bare model name", () => {
+    const provider = new CustomOpenAICompatibleProvider(mockClient, { providerId: "gw" });
+    const messages: LLMMessage[] = [{ role: "user", content: "Hi" }];
+
+    const request = (provider as unknown as ProviderInternals).buildApiRequest(
+      { model: "gw:llama-70b", messages, maxTokens: 50 },
+      { provider: "gw", name: "llama-70b" },
+      undefined,
+      messages,
+    );
+
+    expect(request).toMatchObject({ model: "llama-70b", max_tokens: 50, stream: true });
+  });
+});
+
+describe("createCustomProvider", () => {
+  const ENV_KEY = "LLMIST_TEST_GATEWAY_KEY";
+
+  function createFetchStub() {
+    const body = `data: ${JSON.stringify({
+      choices: [{ index: 0, delta: { content: "Hi" }, finish_reason: "stop" }],
+    })}\n\ndata: [DONE]\n\n`;
+    return vi.fn(
+      async (_input: string | URL | Request, _init?: RequestInit) =>
+        new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } }),
+    );
+  }
+
+  // The SDK picks up the global fetch when the client is created
+  let fetchStub = createFetchStub();
+  beforeEach(() => {
+    fetchStub = createFetchStub();
+    vi.stubGlobal("fetch", fetchStub);
+  });
+
+  /** Stream one request and return the Authorization header it was sent with. */
+  async function authorizationOf(provider: CustomOpenAICompatibleProvider): Promise<string | null> {
+    const stream = provider.stream(
+      { model: `${provider.providerId}:llama-70b`, messages: [{ role: "user", content: "Hi" }] },
+      { provider: provider.providerId, name: "llama-70b" },
+    );
+    for await (const _chunk of stream) {
+      // drain
+    }
+    const [url, init] = fetchStub.mock.calls[0];
+    expect(String(url)).toMatch(/\/chat\/completions$/);
+    return new Headers(init?.headers).get("authorization");
+  }
+
+  afterEach(() => {
+    delete process.env[ENV_KEY];
+    vi.unstubAllGlobals();
+  });
+
+  it("should read the API key from apiKeyEnv when a request is made", async () => {
+    const provider = createCustomProvider({
+      providerId: "gw",
+      baseURL: "https://gw.example.com/v1",
+      apiKeyEnv: ENV_KEY,
+    });
+    process.env[ENV_KEY] = " gw-secret ";
+
+    expect(await authorizationOf(provider)).toBe("Bearer gw-secret");
+  });
+
+  it("should prefer an explicit apiKey over apiKeyEnv", async () => {
+    process.env[ENV_KEY] = "from-env";
+
+    const provider = createCustomProvider({
+      providerId: "gw",
+      baseURL: "https://gw.example.com/v1",
+      apiKey: "explicit",
+      apiKeyEnv: ENV_KEY,
+    });
+
+    expect(await authorizationOf(provider)).toBe("Bearer explicit");
+  });
+
+  it("should allow keyless servers", async () => {
+    const provider = createCustomProvider({
+      providerId: "lmstudio",
+      baseURL: "http://localhost:1234/v1",
+    });
+
+    expect(await authorizationOf(provider)).toBe("Bearer not-needed");
+  });
+
+  it("should fail requests, not creation, when apiKeyEnv names an unset variable", async () => {
+    const provider = createCustomProvider({
+      providerId: "gw",
+      baseURL: "https://gw.example.com/v1",
+      apiKeyEnv: ENV_KEY,
+    });
+
+    await expect(authorizationOf(provider)).rejects.toThrow(
+      `environment variable ${ENV_KEY} is not set`,
+    );
+  });
+
+  it("should reject invalid provider ids and missing base URLs", () => {
+    expect(() => createCustomProvider({ providerId: "a:b", baseURL: "http://x/v1" })).toThrow(
+      'without ":"',
+    );
+    expect(() => createCustomProvider({ providerId: "gw", baseURL: "" })).toThrow(
+      "requires a baseURL",
+    );
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Custom OpenAI-Compatible Provider
+ *
+ * Concrete adapter for any server that speaks the OpenAI chat completions API:
+ * vLLM, LM Studio, Together, Fireworks, in-house gateways, and so on.
+ * Unlike OpenRouter and HuggingFace, it needs no code — it is fully described
+ * by a {@link CustomProviderConfig}, which can come from `LLMistOptions` or
+ * from the CLI's `[providers.<name>]` TOML blocks.
+ *
+ * Declared models are registered in the model registry with their pricing,
+ * so cost tracking works for `mygateway:llama-70b` like any built-in model.
+ * Undeclared model names are still passed through to the server.
+ *
+ * @example
+ * ```typescript
+ * const client = new LLMist({
+ *   customProviders: [{
+ *     providerId: "mygateway",
+ *     baseURL: "https://llm.internal.example.com/v1",
+ *     apiKeyEnv: "MYGATEWAY_API_KEY",
+ *     models: [{ modelId: "llama-70b", pricing: { input: 0.6, output: 0.8 } }],
+ *   }],
+ * });
+ * ```
+ */
+
+import OpenAI, { type ClientOptions } from "openai";
+import type { ModelFeatures, ModelPricing, ModelSpec } from "../core/model-catalog.js";
+import {
+  type OpenAICompatibleConfig,
+  OpenAICompatibleProvider,
+} from "./openai-compatible-provider.js";
+import { isNonEmpty, readEnvVar } from "./utils.js";
+
+/** Context window assumed for declared models that do not specify one. */
+export const CUSTOM_PROVIDER_DEFAULT_CONTEXT_WINDOW = 128_000;
+
+/** Max output tokens assumed for declared models that do not specify one. */
+export const CUSTOM_PROVIDER_DEFAULT_MAX_OUTPUT_TOKENS = 4_096;
+
+/**
+ * A model served by a custom provider.
+ * Only `modelId` is required; everything else falls back to conservative defaults.
+ */
+export interface CustomProviderModel {
+  /** Model identifier sent to the server (the part after `providerId:`) */
+  modelId: string;
+  /** Human-readable display name (defaults to modelId) */
+  displayName?: string;
+  /** Maximum context window size in tokens (default: 128,000) */
+  contextWindow?: number;
+  /** Maximum output tokens per request (default: 4,096) */
+  maxOutputTokens?: number;
+  /** Pricing per 1M tokens in USD (default: free) */
+  pricing?: ModelPricing;
+  /** Supported features (default: streaming only) */
+  features?: Partial<ModelFeatures>;
+}
+
+/**
+ * Declarative description of an OpenAI-compatible provider.
+ */
+export interface CustomProviderConfig {
+  /** Provider prefix used in model identifiers (e.g., "mygateway" for "mygateway:llama-70b") */
+  providerId: string;
+  /** Base URL of the OpenAI-compatible API, including the version path (e.g., ".../v1") */
+  baseURL: string;
+  /** API key. Takes precedence over `apiKeyEnv`. */
+  apiKey?: string;
+  /** Name of the environment variable holding the API key */
+  apiKeyEnv?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Models served by this provider, registered with their pricing */
+  models?: CustomProviderModel[];
+  /** Request timeout in milliseconds (default: 120,000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Runtime configuration of a {@link CustomOpenAICompatibleProvider}.
+ */
+export interface CustomOpenAICompatibleConfig extends OpenAICompatibleConfig {
+  /** Provider prefix used in model identifiers */
+  providerId: string;
+  /** Models served by this provider */
+  models?: CustomProviderModel[];
+}
+
+/**
+ * Convert a declared custom model into a full model spec.
+ */
+export function toCustomModelSpec(providerId: string, model: CustomProviderModel): ModelSpec {
+  return {
+    provider: providerId,
+    modelId: model.modelId,
+    displayName: model.displayName ?? model.modelId,
+    contextWindow: model.contextWindow ?? CUSTOM_PROVIDER_DEFAULT_CONTEXT_WINDOW,
+    maxOutputTokens: model.maxOutputTokens ?? CUSTOM_PROVIDER_DEFAULT_MAX_OUTPUT_TOKENS,
+    pricing: model.pricing ?? { input: 0, output: 0 },
+    knowledgeCutoff: "unknown",
+    features: {
+      streaming: true,
+      functionCalling: false,
+      vision: false,
+      ...model.features,
+    },
+  };
+}
+
+export class CustomOpenAICompatibleProvider extends OpenAICompatibleProvider<CustomOpenAICompatibleConfig> {
+  readonly providerId: string;
+  private readonly modelSpecs: ModelSpec[];
+
+  constructor(client: OpenAI, config: CustomOpenAICompatibleConfig) {
+    super(client, config);
+    this.providerId = config.providerId;
+    this.modelSpecs = (config.models ?? []).map((model) =>
+      toCustomModelSpec(config.providerId, model),
+    );
+  }
+
+  getModelSpecs(): ModelSpec[] {
+    return this.modelSpecs;
+  }
+}
+
+/**
+ * Create a custom OpenAI-compatible provider from a declarative config.
+ *
+ * The API key is `apiKey`, else the `apiKeyEnv` environment variable, read
+ * before each request so an unset variable only fails calls to this provider.
+ * Servers that need no key (vLLM, LM Studio) may omit both.
+ *
+ * @throws Error if the config is invalid
+ */
+export function createCustomProvider(config: CustomProviderConfig): CustomOpenAICompatibleProvider {
+  if (!isNonEmpty(config.providerId) || config.providerId.includes(":")) {
+    throw new Error(
+      `Custom provider id must be a non-empty string without ":" (got "${config.providerId}")`,
+    );
+  }
+  if (!isNonEmpty(config.baseURL)) {
+    throw new Error(`Custom provider "${config.providerId}" requires a baseURL`);
+  }
+
+  // The SDK requires a key; keyless servers ignore the placeholder
+  let apiKey: ClientOptions["apiKey"] = config.apiKey?.trim() || "not-needed";
+  const { apiKeyEnv } = config;
+  if (!isNonEmpty(config.apiKey) && apiKeyEnv) {
+    apiKey = async () => {
+      const key = readEnvVar(apiKeyEnv);
+      if (!isNonEmpty(key)) {
+        throw new Error(
+          `Custom provider "${config.providerId}": environment variable ${apiKeyEnv} is not set`,
+        );
+      }
+      return key.trim();
+    };
+  }
+
+  const client = new OpenAI({
+    apiKey,
+    baseURL: config.baseURL,
+    timeout: config.timeoutMs ?? 120_000, // 2 minute timeout
+    maxRetries: 0, // Disable SDK retries - llmist handles all retries at application level
+  });
+
+  return new CustomOpenAICompatibleProvider(client, {
+    providerId: config.providerId,
+    models: config.models,
+    customHeaders: config.headers,
+  });
+}
@@ -1,4 +1,4 @@
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { discoverProviderAdapters } from "./discovery.js";
 
@@ -9,6 +9,10 @@ const ORIGINAL_ENV = {
   HF_TOKEN: process.env.HF_TOKEN,
   HUGGING_FACE_API_KEY: process.env.HUGGING_FACE_API_KEY,
   OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
+  OLLAMA_HOST: process.env.OLLAMA_HOST,
+  LLAMACPP_BASE_URL: process.env.LLAMACPP_BASE_URL,
+  AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
+  GOOGLE_CLOUD_PROJECT: process.env.GOOGLE_CLOUD_PROJECT,
 };
 
 function clearKeys() {
@@ -18,6 +22,10 @@ function clearKeys() {
   delete process.env.HF_TOKEN;
   delete process.env.HUGGING_FACE_API_KEY;
   delete process.env.OPENROUTER_API_KEY;
+  delete process.env.OLLAMA_HOST;
+  delete process.env.LLAMACPP_BASE_URL;
+  delete process.env.AWS_ACCESS_KEY_ID;
+  delete process.env.GOOGLE_CLOUD_PROJECT;
 }
 
 describe("discoverProviderAdapters", () => {
@@ -61,6 +69,30 @@ describe("discoverProviderAdapters", () => {
     } else {
       delete process.env.OPENROUTER_API_KEY;
     }
+
+    if (ORIGINAL_ENV.OLLAMA_HOST !== undefined) {
+      process.env.OLLAMA_HOST = ORIGINAL_ENV.OLLAMA_HOST;
+    } else {
+      delete process.env.OLLAMA_HOST;
+    }
+
+    if (ORIGINAL_ENV.LLAMACPP_BASE_URL !== undefined) {
+      process.env.LLAMACPP_BASE_URL = ORIGINAL_ENV.LLAMACPP_BASE_URL;
+    } else {
+      delete process.env.LLAMACPP_BASE_URL;
+    }
+
+    if (ORIGINAL_ENV.AWS_ACCESS_KEY_ID !== undefined) {
+      process.env.AWS_ACCESS_KEY_ID = ORIGINAL_ENV.AWS_ACCESS_KEY_ID;
+    } else {
+      delete process.env.AWS_ACCESS_KEY_ID;
+    }
+
+    if (ORIGINAL_ENV.GOOGLE_CLOUD_PROJECT !== undefined) {
+      process.env.GOOGLE_CLOUD_PROJECT = ORIGINAL_ENV.GOOGLE_CLOUD_PROJECT;
+    } else {
+      delete process.env.GOOGLE_CLOUD_PROJECT;
+    }
   });
 
   it("returns empty array when no keys are present", () => {
@@ -86,4 +118,40 @@ describe("discoverProviderAdapters", () => {
     expect(providerIds).toContain("anthropic");
     expect(providerIds).toContain("gemini");
   });
+
+  it("discovers local model servers from OLLAMA_HOST and LLAMACPP_BASE_URL", () => {
+    process.env.OLLAMA_HOST = "127.0.0.1:11434";
+    process.env.LLAMACPP_BASE_URL = "http://localhost:8080";
+
+    const providerIds = discoverProviderAdapters().map((adapter) => adapter.providerId);
+
+    expect(providerIds).toEqual(["ollama", "llamacpp"]);
+  });
+
+  it("discovers Bedrock and Vertex AI from cloud credentials", () => {
+    vi.stubEnv("AWS_ACCESS_KEY_ID", "AKID");
+    vi.stubEnv("AWS_SECRET_ACCESS_KEY", "secret");
+    vi.stubEnv("AWS_REGION", "us-east-1");
+    vi.stubEnv("GOOGLE_CLOUD_PROJECT", "my-project");
+    vi.stubEnv("GOOGLE_APPLICATION_CREDENTIALS", "/tmp/service-account.json");
+
+    const providerIds = discoverProviderAdapters().map((adapter) => adapter.providerId);
+    vi.unstubAllEnvs();
+
+    expect(providerIds).toEqual(["bedrock", "vertex"]);
+  });
+
+  it("discovers Azure OpenAI with key or bearer auth", () => {
+    vi.stubEnv("AZURE_OPENAI_ENDPOINT", "https://my-resource.openai.azure.com");
+    vi.stubEnv("AZURE_OPENAI_API_KEY", "");
+    vi.stubEnv("AZURE_OPENAI_AD_TOKEN", "");
+    const withoutCredentials = discoverProviderAdapters().map((adapter) => adapter.providerId);
+
+    vi.stubEnv("AZURE_OPENAI_AD_TOKEN", "entra-token");
+    const providerIds = discoverProviderAdapters().map((adapter) => adapter.providerId);
+    vi.unstubAllEnvs();
+
+    expect(withoutCredentials).toEqual([]);
+    expect(providerIds).toEqual(["azure"]);
+  });
 });
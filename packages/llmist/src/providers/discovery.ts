@@ -1,18 +1,34 @@
 import { createAnthropicProviderFromEnv } from "./anthropic.js";
+import { createAzureOpenAIProviderFromEnv } from "./azure.js";
+import { createBedrockProviderFromEnv } from "./bedrock.js";
+import { createCerebrasProviderFromEnv } from "./cerebras.js";
 import { createGeminiProviderFromEnv } from "./gemini.js";
+import { createGroqProviderFromEnv } from "./groq.js";
 import { createHuggingFaceProviderFromEnv } from "./huggingface.js";
+import { createLlamaCppProviderFromEnv } from "./llamacpp.js";
+import { createMistralProviderFromEnv } from "./mistral.js";
+import { createOllamaProviderFromEnv } from "./ollama.js";
 import { createOpenAIProviderFromEnv } from "./openai.js";
 import { createOpenRouterProviderFromEnv } from "./openrouter.js";
 import type { ProviderAdapter } from "./provider.js";
+import { createVertexProviderFromEnv } from "./vertex.js";
 
 export type ProviderDiscoverer = () => ProviderAdapter | null | undefined;
 
 const DISCOVERERS: ProviderDiscoverer[] = [
   createOpenAIProviderFromEnv,
+  createAzureOpenAIProviderFromEnv,
   createAnthropicProviderFromEnv,
   createGeminiProviderFromEnv,
+  createBedrockProviderFromEnv,
+  createVertexProviderFromEnv,
   createHuggingFaceProviderFromEnv,
   createOpenRouterProviderFromEnv,
+  createMistralProviderFromEnv,
+  createGroqProviderFromEnv,
+  createCerebrasProviderFromEnv,
+  createOllamaProviderFromEnv,
+  createLlamaCppProviderFromEnv,
 ];
 
 export function discoverProviderAdapters(): ProviderAdapter[] {
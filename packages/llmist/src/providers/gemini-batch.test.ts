@@ -0,0 +1,160 @@
+import type { BatchJob, GoogleGenAI, InlinedResponse } from "@google/genai";
+import { describe, expect, it, vi } from "vitest";
+import type { BatchResultItem } from "../batch/types.js";
+import { GeminiGenerativeProvider } from "./gemini.js";
+import {
+  getGeminiBatchResults,
+  parseGeminiBatchResponse,
+  submitGeminiBatch,
+  toGeminiBatchSnapshot,
+} from "./gemini-batch.js";
+
+const REF = { provider: "gemini", model: "gemini-2.5-flash", batchId: "batches/123" };
+
+function response(text: string, id?: string): InlinedResponse {
+  return {
+    metadata: id ? { llmist_id: id } : undefined,
+    response: {
+      candidates: [
+        {
+          content: {
+            role: "model",
+            parts: [{ text: "thinking...", thought: true }, { text }],
+          },
+          finishReason: "STOP",
+        },
+      ],
+      usageMetadata: {
+        promptTokenCount: 10,
+        candidatesTokenCount: 5,
+        totalTokenCount: 15,
+        thoughtsTokenCount: 2,
+      },
+    },
+  } as InlinedResponse;
+}
+
+function fakeClient(
+  job: BatchJob = { name: "batches/123", state: "JOB_STATE_PENDING" } as BatchJob,
+) {
+  return {
+    batches: {
+      create: vi.fn(async () => job),
+      get: vi.fn(async () => job),
+      cancel: vi.fn(async () => {}),
+    },
+  };
+}
+
+async function drain(iterable: AsyncIterable<BatchResultItem>): Promise<BatchResultItem[]> {
+  const items: BatchResultItem[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe("submitGeminiBatch", () => {
+  it("sends inline requests tagged with their ids", async () => {
+    const client = fakeClient();
+
+    const name = await submitGeminiBatch(client as unknown as GoogleGenAI, "gemini-2.5-flash", [
+      { id: "a", request: { contents: [{ role: "user", parts: [{ text: "hi" }] }] } },
+    ]);
+
+    expect(name).toBe("batches/123");
+    expect(client.batches.create).toHaveBeenCalledWith({
+      model: "gemini-2.5-flash",
+      src: [
+        {
+          contents: [{ role: "user", parts: [{ text: "hi" }] }],
+          metadata: { llmist_id: "a" },
+        },
+      ],
+      config: { displayName: "llmist-gemini-2.5-flash" },
+    });
+  });
+});
+
+describe("toGeminiBatchSnapshot", () => {
+  it.each([
+    ["JOB_STATE_PENDING", "validating"],
+    ["JOB_STATE_RUNNING", "in_progress"],
+    ["JOB_STATE_SUCCEEDED", "completed"],
+    ["JOB_STATE_FAILED", "failed"],
+    ["JOB_STATE_CANCELLING", "cancelling"],
+    ["JOB_STATE_CANCELLED", "cancelled"],
+    ["JOB_STATE_EXPIRED", "expired"],
+  ])("maps %s to %s", (state, status) => {
+    expect(toGeminiBatchSnapshot({ state } as BatchJob).status).toBe(status);
+  });
+
+  it("parses completion stats", () => {
+    const snapshot = toGeminiBatchSnapshot({
+      state: "JOB_STATE_RUNNING",
+      completionStats: { successfulCount: "3", failedCount: "1", incompleteCount: "2" },
+    } as BatchJob);
+    expect(snapshot.counts).toEqual({ total: 6, succeeded: 3, failed: 1 });
+  });
+});
+
+describe("parseGeminiBatchResponse", () => {
+  it("skips thought parts and maps usage", () => {
+    expect(parseGeminiBatchResponse(response("Answer", "a"), 0)).toMatchObject({
+      id: "a",
+      status: "succeeded",
+      text: "Answer",
+      finishReason: "STOP",
+      usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15, reasoningTokens: 2 },
+    });
+  });
+
+  it("normalizes per-request errors", () => {
+    const item = parseGeminiBatchResponse(
+      { metadata: { llmist_id: "b" }, error: { code: 400, message: "Bad" } } as InlinedResponse,
+      1,
+    );
+    expect(item).toMatchObject({
+      id: "b",
+      status: "failed",
+      error: { message: "Bad", code: "400" },
+    });
+  });
+});
+
+describe("getGeminiBatchResults", () => {
+  it("yields inlined responses, falling back to the index as id", async () => {
+    const client = fakeClient({
+      name: "batches/123",
+      state: "JOB_STATE_SUCCEEDED",
+      dest: { inlinedResponses: [response("one", "a"), response("two")] },
+    } as BatchJob);
+
+    const items = await drain(getGeminiBatchResults(client as unknown as GoogleGenAI, REF));
+
+    expect(items.map((item) => [item.id, item.text])).toEqual([
+      ["a", "one"],
+      ["1", "two"],
+    ]);
+  });
+});
+
+describe("GeminiGenerativeProvider batch support", () => {
+  it("submits generateContent requests for the model", async () => {
+    const client = fakeClient();
+    const provider = new GeminiGenerativeProvider(client);
+    expect(provider.supportsBatch("gemini-2.5-flash")).toBe(true);
+
+    await provider.submitBatch(
+      [{ id: "a", messages: [{ role: "user", content: "hi" }], maxTokens: 20 }],
+      { provider: "gemini", name: "gemini-2.5-flash" },
+    );
+
+    const [[params]] = client.batches.create.mock.calls as unknown as [
+      [{ model: string; src: Array<{ contents: unknown; config: Record<string, unknown> }> }],
+    ];
+    expect(params.model).toBe("gemini-2.5-flash");
+    expect(params.src[0].contents).toEqual([{ role: "user", parts: [{ text: "hi" }] }]);
+    expect(params.src[0].config).toMatchObject({ maxOutputTokens: 20 });
+  });
+});
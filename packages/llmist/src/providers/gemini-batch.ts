@@ -0,0 +1,172 @@
+/**
+ * Gemini Batch Mode client (`client.batches.*`).
+ *
+ * Requests are sent inline as generateContent requests, each tagged with the
+ * llmist request id in `metadata`. Gemini reports a `JobState` for the whole
+ * batch and returns the responses inline (in submission order) once the job
+ * has finished.
+ */
+
+import type {
+  BatchJob as GeminiBatchJob,
+  GenerateContentResponse,
+  GoogleGenAI,
+  InlinedRequest,
+  InlinedResponse,
+} from "@google/genai";
+import type {
+  BatchJobRef,
+  BatchResultItem,
+  BatchStatus,
+  BatchStatusSnapshot,
+} from "../batch/types.js";
+import type { TokenUsage } from "../core/options.js";
+
+/** Metadata key carrying the llmist request id through the batch. */
+const GEMINI_BATCH_ID_METADATA_KEY = "llmist_id";
+
+/** Maps Gemini `JobState` values to the normalized batch status. */
+const GEMINI_BATCH_STATUS: Record<string, BatchStatus> = {
+  JOB_STATE_UNSPECIFIED: "validating",
+  JOB_STATE_QUEUED: "validating",
+  JOB_STATE_PENDING: "validating",
+  JOB_STATE_RUNNING: "in_progress",
+  JOB_STATE_UPDATING: "in_progress",
+  JOB_STATE_PAUSED: "in_progress",
+  JOB_STATE_SUCCEEDED: "completed",
+  JOB_STATE_PARTIALLY_SUCCEEDED: "completed",
+  JOB_STATE_FAILED: "failed",
+  JOB_STATE_CANCELLING: "cancelling",
+  JOB_STATE_CANCELLED: "cancelled",
+  JOB_STATE_EXPIRED: "expired",
+};
+
+/**
+ * Creates the batch.
+ *
+ * @param requests - generateContent requests keyed by request id
+ * @returns The batch resource name (e.g. "batches/123")
+ */
+export async function submitGeminiBatch(
+  client: GoogleGenAI,
+  model: string,
+  requests: Array<{ id: string; request: Omit<InlinedRequest, "model" | "metadata"> }>,
+  signal?: AbortSignal,
+): Promise<string> {
+  const job = await client.batches.create({
+    model,
+    src: requests.map(({ id, request }) => ({
+      ...request,
+      metadata: { [GEMINI_BATCH_ID_METADATA_KEY]: id },
+    })),
+    config: {
+      displayName: `llmist-${model}`,
+      ...(signal ? { abortSignal: signal } : {}),
+    },
+  });
+  if (!job.name) {
+    throw new Error("Gemini did not return a batch name.");
+  }
+  return job.name;
+}
+
+/** Parses one of Gemini's int64-as-string counters. */
+function toCount(value: string | undefined): number {
+  return value ? Number.parseInt(value, 10) : 0;
+}
+
+export function toGeminiBatchSnapshot(job: GeminiBatchJob): BatchStatusSnapshot {
+  const stats = job.completionStats;
+  const counts = stats
+    ? {
+        total:
+          toCount(stats.successfulCount) +
+          toCount(stats.failedCount) +
+          Math.max(toCount(stats.incompleteCount), 0),
+        succeeded: toCount(stats.successfulCount),
+        failed: toCount(stats.failedCount),
+      }
+    : undefined;
+
+  return {
+    status: GEMINI_BATCH_STATUS[job.state ?? "JOB_STATE_UNSPECIFIED"] ?? "in_progress",
+    counts,
+    createdAt: job.createTime,
+    endedAt: job.endTime,
+    error: job.error?.message,
+  };
+}
+
+export async function getGeminiBatchStatus(
+  client: GoogleGenAI,
+  ref: BatchJobRef,
+): Promise<BatchStatusSnapshot> {
+  return toGeminiBatchSnapshot(await client.batches.get({ name: ref.batchId }));
+}
+
+/** Extracts the completion text, skipping thought parts. */
+function extractText(response: GenerateContentResponse): string {
+  return (response.candidates?.[0]?.content?.parts ?? [])
+    .filter((part) => !part.thought)
+    .map((part) => part.text ?? "")
+    .join("");
+}
+
+function toTokenUsage(response: GenerateContentResponse): TokenUsage | undefined {
+  const usage = response.usageMetadata;
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    inputTokens: usage.promptTokenCount ?? 0,
+    outputTokens: usage.candidatesTokenCount ?? 0,
+    totalTokens: usage.totalTokenCount ?? 0,
+    cachedInputTokens: usage.cachedContentTokenCount ?? 0,
+    reasoningTokens: usage.thoughtsTokenCount,
+  };
+}
+
+/**
+ * Normalizes one inlined response.
+ *
+ * @param index - Position in the batch, used as the id when metadata is missing
+ */
+export function parseGeminiBatchResponse(entry: InlinedResponse, index: number): BatchResultItem {
+  const id = entry.metadata?.[GEMINI_BATCH_ID_METADATA_KEY] ?? String(index);
+  if (entry.error || !entry.response) {
+    return {
+      id,
+      status: "failed",
+      text: "",
+      error: {
+        message: entry.error?.message ?? "Request returned no response.",
+        code: entry.error?.code === undefined ? undefined : String(entry.error.code),
+      },
+      raw: entry,
+    };
+  }
+
+  return {
+    id,
+    status: "succeeded",
+    text: extractText(entry.response),
+    finishReason: entry.response.candidates?.[0]?.finishReason ?? null,
+    usage: toTokenUsage(entry.response),
+    raw: entry,
+  };
+}
+
+export async function* getGeminiBatchResults(
+  client: GoogleGenAI,
+  ref: BatchJobRef,
+): AsyncGenerator<BatchResultItem> {
+  const job = await client.batches.get({ name: ref.batchId });
+  const responses = job.dest?.inlinedResponses ?? [];
+  for (const [index, entry] of responses.entries()) {
+    yield parseGeminiBatchResponse(entry, index);
+  }
+}
+
+export async function cancelGeminiBatch(client: GoogleGenAI, ref: BatchJobRef): Promise<void> {
+  await client.batches.cancel({ name: ref.batchId });
+}
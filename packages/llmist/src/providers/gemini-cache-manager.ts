@@ -18,13 +18,23 @@ import { createHash } from "node:crypto";
 import { FunctionCallingConfigMode, type GoogleGenAI } from "@google/genai";
 import type { CachingConfig, CachingScope } from "../core/options.js";
 
+/**
+ * Gemini content part - text, inline data (images/audio), or a function call
+ * or response.
+ */
+export type GeminiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: { name: string; args: Record<string, unknown> }; thoughtSignature: string }
+  | { functionResponse: { name: string; response: Record<string, unknown> } };
+
 /**
  * A Gemini content object (role + parts).
  * Matches the format used by GeminiGenerativeProvider.
  */
 export type GeminiCacheContent = {
   role: string;
-  parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }>;
+  parts: GeminiPart[];
 };
 
 /**
@@ -231,6 +241,8 @@ export class GeminiCacheManager {
         } else if ("inlineData" in part) {
           hash.update(part.inlineData.mimeType);
           hash.update(part.inlineData.data);
+        } else {
+          hash.update(JSON.stringify(part));
         }
       }
     }
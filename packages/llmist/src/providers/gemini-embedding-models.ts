@@ -0,0 +1,66 @@
+/**
+ * Gemini Embedding Model Catalog
+ *
+ * Pricing as of December 2025:
+ * - gemini-embedding-001: $0.15 per 1M input tokens
+ *
+ * The Gemini API doesn't report token usage for embeddings, so costs are
+ * estimated from input length (see `FALLBACK_CHARS_PER_TOKEN`).
+ *
+ * @see https://ai.google.dev/gemini-api/docs/embeddings
+ */
+
+import type { EmbeddingModelSpec } from "../core/media-types.js";
+
+/**
+ * Gemini Embedding Model Specifications
+ */
+export const geminiEmbeddingModels: EmbeddingModelSpec[] = [
+  {
+    provider: "gemini",
+    modelId: "gemini-embedding-001",
+    displayName: "Gemini Embedding",
+    pricing: {
+      input: 0.15,
+    },
+    // Matryoshka embeddings: 768 and 1536 are recommended shorter sizes
+    dimensions: 3072,
+    maxInputTokens: 2048,
+    maxBatchSize: 100,
+    features: {
+      customDimensions: true,
+      languages: 100,
+    },
+  },
+];
+
+/**
+ * Get embedding model spec by model ID.
+ */
+export function getGeminiEmbeddingModelSpec(modelId: string): EmbeddingModelSpec | undefined {
+  return geminiEmbeddingModels.find((m) => m.modelId === modelId);
+}
+
+/**
+ * Check if a model ID is a Gemini embedding model.
+ */
+export function isGeminiEmbeddingModel(modelId: string): boolean {
+  return geminiEmbeddingModels.some((m) => m.modelId === modelId);
+}
+
+/**
+ * Calculate cost for an embedding request.
+ *
+ * @param modelId - The model ID
+ * @param inputTokens - Number of input tokens
+ * @returns Cost in USD, or undefined if model not found
+ */
+export function calculateGeminiEmbeddingCost(
+  modelId: string,
+  inputTokens: number,
+): number | undefined {
+  const spec = getGeminiEmbeddingModelSpec(modelId);
+  if (!spec) return undefined;
+
+  return (inputTokens / 1_000_000) * spec.pricing.input;
+}
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
   calculateGeminiImageCost,
+  calculateGeminiImageEditCost,
   geminiImageModels,
   getGeminiImageModelSpec,
   IMAGEN4_ASPECT_RATIOS,
@@ -197,5 +198,16 @@ describe("geminiImageModels", () => {
         expect(cost).toBeUndefined();
       });
     });
+
+    describe("calculateGeminiImageEditCost", () => {
+      it("adds the per-input-image charge to the output cost", () => {
+        const cost = calculateGeminiImageEditCost("gemini-2.5-flash-image", "1:1", 1, 3);
+        expect(cost).toBeCloseTo(0.039 + 3 * 0.0004);
+      });
+
+      it("returns undefined for an unknown model", () => {
+        expect(calculateGeminiImageEditCost("unknown-model")).toBeUndefined();
+      });
+    });
   });
 });
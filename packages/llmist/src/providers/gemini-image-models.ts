@@ -12,6 +12,11 @@
  * - gemini-2.5-flash-image: $0.039 per output image
  * - gemini-3-pro-image-preview: ~$0.134 per 1K/2K image, $0.24 per 4K
  *
+ * Gemini native image models also edit images and create variations. Each
+ * source image adds input tokens:
+ * - gemini-2.5-flash-image: ~$0.0004 per source image (1290 tokens at $0.30 per 1M)
+ * - gemini-3-pro-image-preview: ~$0.0011 per source image (560 tokens at $2 per 1M)
+ *
  * @see https://ai.google.dev/gemini-api/docs/pricing
  * @see https://ai.google.dev/gemini-api/docs/imagen
  */
@@ -108,6 +113,7 @@ export const geminiImageModels: ImageModelSpec[] = [
     displayName: "Gemini 2.5 Flash Image",
     pricing: {
       perImage: 0.039,
+      perInputImage: 0.0004,
     },
     supportedSizes: [...GEMINI_IMAGE_ASPECT_RATIOS],
     maxImages: 1,
@@ -115,6 +121,8 @@ export const geminiImageModels: ImageModelSpec[] = [
     features: {
       conversational: true,
       textRendering: true,
+      editing: true,
+      variations: true,
     },
   },
   {
@@ -123,6 +131,7 @@ export const geminiImageModels: ImageModelSpec[] = [
     displayName: "Gemini 2.5 Flash Image (Preview)",
     pricing: {
       perImage: 0.039,
+      perInputImage: 0.0004,
     },
     supportedSizes: [...GEMINI_IMAGE_ASPECT_RATIOS],
     maxImages: 1,
@@ -130,6 +139,8 @@ export const geminiImageModels: ImageModelSpec[] = [
     features: {
       conversational: true,
       textRendering: true,
+      editing: true,
+      variations: true,
     },
   },
   {
@@ -144,6 +155,7 @@ export const geminiImageModels: ImageModelSpec[] = [
         "2K": 0.134,
         "4K": 0.24,
       },
+      perInputImage: 0.0011,
     },
     supportedSizes: ["1K", "2K", "4K"],
     maxImages: 1,
@@ -151,6 +163,8 @@ export const geminiImageModels: ImageModelSpec[] = [
     features: {
       conversational: true,
       textRendering: true,
+      editing: true,
+      variations: true,
     },
   },
   // Alias: nano-banana-pro-preview is gemini-3-pro-image-preview
@@ -164,6 +178,7 @@ export const geminiImageModels: ImageModelSpec[] = [
         "2K": 0.134,
         "4K": 0.24,
       },
+      perInputImage: 0.0011,
     },
     supportedSizes: ["1K", "2K", "4K"],
     maxImages: 1,
@@ -171,6 +186,8 @@ export const geminiImageModels: ImageModelSpec[] = [
     features: {
       conversational: true,
       textRendering: true,
+      editing: true,
+      variations: true,
     },
   },
 ];
@@ -216,3 +233,25 @@ export function calculateGeminiImageCost(modelId: string, size = "1:1", n = 1):
 
   return undefined;
 }
+
+/**
+ * Calculate cost for an image edit or variation.
+ *
+ * @param modelId - The model ID
+ * @param size - Output size (for models with size-based pricing)
+ * @param n - Number of output images
+ * @param inputImages - Number of source images sent
+ * @returns Cost in USD, or undefined if model not found
+ */
+export function calculateGeminiImageEditCost(
+  modelId: string,
+  size = "1:1",
+  n = 1,
+  inputImages = 1,
+): number | undefined {
+  const outputCost = calculateGeminiImageCost(modelId, size, n);
+  if (outputCost === undefined) return undefined;
+
+  const perInputImage = getGeminiImageModelSpec(modelId)?.pricing.perInputImage ?? 0;
+  return outputCost + perInputImage * inputImages;
+}
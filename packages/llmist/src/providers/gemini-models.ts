@@ -22,6 +22,8 @@ export const GEMINI_MODELS: ModelSpec[] = [
       input: 2.0, // $2.00 for prompts <= 200k, $4.00 for > 200k (using lower tier)
       output: 12.0, // $12.00 for prompts <= 200k, $18.00 for > 200k
       cachedInput: 0.2, // $0.20 for prompts <= 200k
+      batchInput: 1.0,
+      batchOutput: 6.0,
     },
     knowledgeCutoff: "2025-01",
     features: {
@@ -50,6 +52,8 @@ export const GEMINI_MODELS: ModelSpec[] = [
       input: 0.5, // $0.50 for text/image/video
       output: 3.0,
       cachedInput: 0.05,
+      batchInput: 0.25,
+      batchOutput: 1.5,
     },
     knowledgeCutoff: "2025-01",
     features: {
@@ -77,6 +81,8 @@ export const GEMINI_MODELS: ModelSpec[] = [
       input: 1.25, // $1.25 for prompts <= 200k, $2.50 for > 200k
       output: 10.0, // $10.00 for prompts <= 200k, $15.00 for > 200k
       cachedInput: 0.125, // $0.125 for prompts <= 200k
+      batchInput: 0.625,
+      batchOutput: 5.0,
     },
     knowledgeCutoff: "2025-01",
     features: {
@@ -104,6 +110,8 @@ export const GEMINI_MODELS: ModelSpec[] = [
       input: 0.3, // $0.30 for text/image/video, $1.00 for audio
       output: 2.5,
       cachedInput: 0.03, // $0.03 for text/image/video
+      batchInput: 0.15,
+      batchOutput: 1.25,
     },
     knowledgeCutoff: "2025-01",
     features: {
@@ -131,6 +139,8 @@ export const GEMINI_MODELS: ModelSpec[] = [
       input: 0.1, // $0.10 for text/image/video, $0.30 for audio
       output: 0.4,
       cachedInput: 0.01, // $0.01 for text/image/video
+      batchInput: 0.05,
+      batchOutput: 0.2,
     },
     knowledgeCutoff: "2025-01",
     features: {
@@ -157,6 +167,8 @@ export const GEMINI_MODELS: ModelSpec[] = [
       input: 0.1, // $0.10 for text/image/video, $0.70 for audio
       output: 0.4,
       cachedInput: 0.025, // $0.025 for text/image/video
+      batchInput: 0.05,
+      batchOutput: 0.2,
     },
     knowledgeCutoff: "2024-08",
     features: {
@@ -182,6 +194,8 @@ export const GEMINI_MODELS: ModelSpec[] = [
       input: 0.075,
       output: 0.3,
       // No context caching available for 2.0-flash-lite
+      batchInput: 0.0375,
+      batchOutput: 0.15,
     },
     knowledgeCutoff: "2024-08",
     features: {
@@ -0,0 +1,93 @@
+/**
+ * Gemini Transcription Model Catalog
+ *
+ * Gemini transcribes through audio understanding: the audio is sent inline to
+ * a multimodal model with a transcription instruction.
+ *
+ * Gemini bills audio at 32 tokens per second. Per-minute prices are
+ * approximations of audio input (1,920 tokens/min) plus ~200 output tokens/min:
+ * - gemini-2.5-flash: $1.00/1M audio input + $2.50/1M output ≈ $0.0024/min
+ * - gemini-2.5-flash-lite: $0.30/1M audio input + $0.40/1M output ≈ $0.00066/min
+ *
+ * Segment timestamps are requested as structured JSON output. Word
+ * timestamps are not supported.
+ *
+ * @see https://ai.google.dev/gemini-api/docs/audio
+ */
+
+import type { TranscriptionModelSpec } from "../core/media-types.js";
+
+/** Gemini bills audio input at 32 tokens per second */
+export const GEMINI_AUDIO_TOKENS_PER_SECOND = 32;
+
+/** Maximum inline request size (20 MB) */
+const GEMINI_INLINE_MAX_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Gemini Transcription Model Specifications
+ */
+export const geminiTranscriptionModels: TranscriptionModelSpec[] = [
+  {
+    provider: "gemini",
+    modelId: "gemini-2.5-flash",
+    displayName: "Gemini 2.5 Flash (Transcription)",
+    pricing: {
+      perMinute: 0.0024,
+    },
+    maxFileSizeBytes: GEMINI_INLINE_MAX_BYTES,
+    features: {
+      timestamps: true,
+      wordTimestamps: false,
+      prompt: true,
+    },
+  },
+  {
+    provider: "gemini",
+    modelId: "gemini-2.5-flash-lite",
+    displayName: "Gemini 2.5 Flash-Lite (Transcription)",
+    pricing: {
+      perMinute: 0.00066,
+    },
+    maxFileSizeBytes: GEMINI_INLINE_MAX_BYTES,
+    features: {
+      timestamps: true,
+      wordTimestamps: false,
+      prompt: true,
+    },
+  },
+];
+
+/**
+ * Get transcription model spec by model ID.
+ */
+export function getGeminiTranscriptionModelSpec(
+  modelId: string,
+): TranscriptionModelSpec | undefined {
+  return geminiTranscriptionModels.find((m) => m.modelId === modelId);
+}
+
+/**
+ * Check if a model ID is a Gemini transcription model.
+ */
+export function isGeminiTranscriptionModel(modelId: string): boolean {
+  return geminiTranscriptionModels.some((m) => m.modelId === modelId);
+}
+
+/**
+ * Calculate cost for a transcription.
+ *
+ * @param modelId - The model ID
+ * @param durationSeconds - Duration of the audio in seconds
+ * @returns Cost in USD, or undefined if model or duration is unknown
+ */
+export function calculateGeminiTranscriptionCost(
+  modelId: string,
+  durationSeconds: number | undefined,
+): number | undefined {
+  const spec = getGeminiTranscriptionModelSpec(modelId);
+  if (!spec || spec.pricing.perMinute === undefined || durationSeconds === undefined) {
+    return undefined;
+  }
+
+  return (durationSeconds / 60) * spec.pricing.perMinute;
+}
@@ -1,9 +1,25 @@
 import type { GoogleGenAI } from "@google/genai";
 import { describe, expect, it, vi } from "vitest";
 
+import { toolCall, toolResult } from "../core/input-content.js";
+import type { LLMMessage } from "../core/messages.js";
+import type { LLMGenerationOptions, LLMStream, ModelDescriptor } from "../core/options.js";
+import { FALLBACK_CHARS_PER_TOKEN } from "./constants.js";
 import { GeminiGenerativeProvider } from "./gemini.js";
+import { calculateGeminiEmbeddingCost } from "./gemini-embedding-models.js";
 import { calculateGeminiImageCost } from "./gemini-image-models.js";
 import { calculateGeminiSpeechCost } from "./gemini-speech-models.js";
+import { calculateGeminiTranscriptionCost } from "./gemini-transcription-models.js";
+
+interface ProviderInternals {
+  normalizeProviderStream(iterable: AsyncIterable<unknown>): LLMStream;
+  buildApiRequest(
+    options: LLMGenerationOptions,
+    descriptor: ModelDescriptor,
+    spec: undefined,
+    messages: LLMMessage[],
+  ): { model: string; config: Record<string, unknown> };
+}
 
 describe("GeminiGenerativeProvider", () => {
   const createClient = () => {
@@ -333,7 +349,7 @@ describe("GeminiGenerativeProvider", () => {
       );
     });
 
-    it("uses fallback estimation when API fails", async () => {
+    it("uses the local gemini tokenizer when API fails", async () => {
       const mockCountTokens = vi.fn().mockRejectedValue(new Error("API error"));
 
       const mockClient = {
@@ -345,12 +361,12 @@ describe("GeminiGenerativeProvider", () => {
       const provider = new GeminiGenerativeProvider(mockClient);
 
       const count = await provider.countTokens(
-        [{ role: "user" as const, content: "Hello world" }], // "Hello world" = 11 chars
+        [{ role: "user" as const, content: "Hello world" }],
         { provider: "gemini", name: "gemini-1.5-pro" },
       );
 
-      // Fallback: 11 chars / 2 = 5.5, ceil = 6
-      expect(count).toBe(6);
+      // "Hello world" = 2 tokens
+      expect(count).toBe(2);
     });
 
     it("handles empty content with defensive checks", async () => {
@@ -435,7 +451,7 @@ describe("GeminiGenerativeProvider", () => {
       expect(count).toBe(0);
     });
 
-    it("handles multimodal content with images in fallback estimation", async () => {
+    it("handles multimodal content with images in local estimation", async () => {
       const mockCountTokens = vi.fn().mockRejectedValue(new Error("API error"));
 
       const mockClient = {
@@ -454,7 +470,7 @@ describe("GeminiGenerativeProvider", () => {
           {
             role: "user" as const,
             content: [
-              { type: "text" as const, text: "What is this?" }, // 13 chars
+              { type: "text" as const, text: "What is this?" }, // 4 tokens
               {
                 type: "image" as const,
                 source: { type: "base64" as const, mediaType: "image/png", data: "abc123" },
@@ -465,8 +481,8 @@ describe("GeminiGenerativeProvider", () => {
         { provider: "gemini", name: "gemini-1.5-pro" },
       );
 
-      // 13 chars / 2 = 6.5 → 7 tokens + 258 tokens for image = 265
-      expect(count).toBe(265);
+      // 4 text tokens + 258 tokens for image = 262
+      expect(count).toBe(262);
 
       warnSpy.mockRestore();
     });
@@ -492,7 +508,7 @@ describe("GeminiGenerativeProvider", () => {
       expect(mockCountTokens).not.toHaveBeenCalled();
     });
 
-    it("handles audio content in fallback estimation", async () => {
+    it("handles audio content in local estimation", async () => {
       const mockCountTokens = vi.fn().mockRejectedValue(new Error("API error"));
 
       const mockClient = {
@@ -511,7 +527,7 @@ describe("GeminiGenerativeProvider", () => {
           {
             role: "user" as const,
             content: [
-              { type: "text" as const, text: "What do you hear?" }, // 17 chars
+              { type: "text" as const, text: "What do you hear?" }, // 5 tokens
               {
                 type: "audio" as const,
                 source: {
@@ -526,8 +542,8 @@ describe("GeminiGenerativeProvider", () => {
         { provider: "gemini", name: "gemini-1.5-pro" },
       );
 
-      // 17 chars / 2 = 8.5 → 9 tokens + 258 tokens for audio = 267
-      expect(count).toBe(267);
+      // 5 text tokens + 258 tokens for audio = 263
+      expect(count).toBe(263);
 
       warnSpy.mockRestore();
     });
@@ -582,6 +598,43 @@ describe("GeminiGenerativeProvider", () => {
       );
     });
 
+    it("should convert recorded tool calls and results to function parts", async () => {
+      const { client, generateContentStream } = createClient();
+      const provider = new GeminiGenerativeProvider(client);
+
+      await provider
+        .stream(
+          {
+            model: "gemini-1.5-flash",
+            messages: [
+              {
+                role: "assistant" as const,
+                content: [toolCall("call_1", "Search", { query: "llmist" })],
+              },
+              { role: "user" as const, content: [toolResult("call_1", "Search", "Found it")] },
+            ],
+          },
+          { provider: "gemini", name: "gemini-1.5-flash" },
+        )
+        .next();
+
+      expect(generateContentStream.mock.calls[0]?.[0].contents).toEqual([
+        {
+          role: "model",
+          parts: [
+            {
+              functionCall: { name: "Search", args: { query: "llmist" } },
+              thoughtSignature: "skip_thought_signature_validator",
+            },
+          ],
+        },
+        {
+          role: "user",
+          parts: [{ functionResponse: { name: "Search", response: { output: "Found it" } } }],
+        },
+      ]);
+    });
+
     it("should convert audio content to Gemini inlineData format", async () => {
       const { client, generateContentStream } = createClient();
       const provider = new GeminiGenerativeProvider(client);
@@ -725,6 +778,40 @@ describe("GeminiGenerativeProvider", () => {
     });
   });
 
+  describe("per-request credentials", () => {
+    it("sends the request's API key and skips the client's context cache", async () => {
+      const stream = (async function* () {})();
+      const generateContentStream = vi.fn().mockResolvedValue(stream);
+      const cacheCreate = vi.fn();
+      const client = {
+        models: { generateContentStream },
+        caches: { create: cacheCreate, delete: vi.fn() },
+      } as unknown as GoogleGenAI;
+
+      const provider = new GeminiGenerativeProvider(client);
+
+      await provider
+        .stream(
+          {
+            model: "gemini-2.5-flash",
+            messages: [
+              { role: "system" as const, content: "x".repeat(200_000) },
+              { role: "user" as const, content: "Question" },
+            ],
+            caching: { enabled: true, scope: "system" as const },
+            credentials: { gemini: { apiKey: "tenant-key" } },
+          },
+          { provider: "gemini", name: "gemini-2.5-flash" },
+        )
+        .next();
+
+      expect(cacheCreate).not.toHaveBeenCalled();
+      const callArgs = generateContentStream.mock.calls[0][0];
+      expect(callArgs.config.httpOptions).toEqual({ headers: { "x-goog-api-key": "tenant-key" } });
+      expect(callArgs.config.cachedContent).toBeUndefined();
+    });
+  });
+
   describe("caching integration", () => {
     it("includes cachedContent in config when cache manager returns a name", async () => {
       const stream = (async function* () {})();
@@ -910,6 +997,39 @@ describe("GeminiGenerativeProvider", () => {
       expect(chunks[1].text).toBe(" world");
     });
 
+    it("should yield function calls as numbered tool call deltas", async () => {
+      const { client } = createClient();
+      const provider = new GeminiGenerativeProvider(client);
+
+      async function* mockStream() {
+        yield {
+          candidates: [
+            {
+              content: {
+                parts: [
+                  { functionCall: { name: "Search", args: { query: "llmist" } } },
+                  { functionCall: { id: "fc_2", name: "Now", args: {} } },
+                ],
+              },
+            },
+          ],
+        };
+      }
+
+      const toolCalls = [];
+      const stream = (provider as unknown as ProviderInternals).normalizeProviderStream(
+        mockStream(),
+      );
+      for await (const chunk of stream) {
+        if (chunk.toolCalls) toolCalls.push(...chunk.toolCalls);
+      }
+
+      expect(toolCalls).toEqual([
+        { index: 0, name: "Search", argumentsDelta: '{"query":"llmist"}' },
+        { index: 1, id: "fc_2", name: "Now", argumentsDelta: "{}" },
+      ]);
+    });
+
     it("should extract finishReason and usage from final chunk", async () => {
       const { client } = createClient();
       const provider = new GeminiGenerativeProvider(client);
@@ -1725,6 +1845,54 @@ describe("GeminiGenerativeProvider", () => {
     });
   });
 
+  describe("editImage", () => {
+    const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const imageResponse = {
+      candidates: [
+        { content: { parts: [{ inlineData: { mimeType: "image/png", data: "edited" } }] } },
+      ],
+    };
+
+    it("sends source images before the prompt and adds input image cost", async () => {
+      const generateContent = vi.fn().mockResolvedValue(imageResponse);
+      const client = { models: { generateContent } } as unknown as GoogleGenAI;
+      const provider = new GeminiGenerativeProvider(client);
+
+      const result = await provider.editImage({
+        model: "gemini-2.5-flash-image",
+        image: [PNG_BYTES, PNG_BYTES],
+        prompt: "Put the cat from the second image on the sofa",
+      });
+
+      const parts = generateContent.mock.calls[0][0].contents[0].parts;
+      expect(parts).toHaveLength(3);
+      expect(parts[0].inlineData).toEqual({
+        mimeType: "image/png",
+        data: PNG_BYTES.toString("base64"),
+      });
+      expect(parts[2]).toEqual({ text: "Put the cat from the second image on the sofa" });
+      expect(result.images).toEqual([{ b64Json: "edited" }]);
+      // $0.039 output image + 2 × $0.0004 source images
+      expect(result.cost).toBeCloseTo(0.0398);
+    });
+
+    it("creates variations as prompted edits", async () => {
+      const generateContent = vi.fn().mockResolvedValue(imageResponse);
+      const client = { models: { generateContent } } as unknown as GoogleGenAI;
+      const provider = new GeminiGenerativeProvider(client);
+
+      await provider.generateImageVariations({
+        model: "gemini-2.5-flash-image",
+        image: PNG_BYTES,
+        prompt: "Autumn colors",
+      });
+
+      const parts = generateContent.mock.calls[0][0].contents[0].parts;
+      expect(parts[1].text).toContain("Create a variation of this image");
+      expect(parts[1].text).toContain("Autumn colors");
+    });
+  });
+
   // =========================================================================
   // buildApiRequest Tests
   // =========================================================================
@@ -1784,6 +1952,64 @@ describe("GeminiGenerativeProvider", () => {
       const userContent = result.contents.find((c: { role: string }) => c.role === "user");
       expect(userContent).toBeDefined();
     });
+
+    it("maps json_schema response format to a JSON response schema", () => {
+      const { client } = createClient();
+      const provider = new GeminiGenerativeProvider(client);
+      const schema = {
+        type: "object",
+        properties: { name: { type: "string" } },
+        required: ["name"],
+      };
+
+      const messages: LLMMessage[] = [{ role: "user", content: "Invent a person" }];
+
+      const result = (provider as unknown as ProviderInternals).buildApiRequest(
+        {
+          model: "gemini:gemini-2.5-flash",
+          messages,
+          responseFormat: { type: "json_schema", schema },
+        },
+        { provider: "gemini", name: "gemini-2.5-flash" },
+        undefined,
+        messages,
+      );
+
+      expect(result.config).toMatchObject({
+        responseMimeType: "application/json",
+        responseJsonSchema: schema,
+      });
+    });
+
+    it("maps tool definitions to function declarations", () => {
+      const { client } = createClient();
+      const provider = new GeminiGenerativeProvider(client);
+      const parameters = { type: "object", properties: { query: { type: "string" } } };
+
+      const messages: LLMMessage[] = [{ role: "user", content: "Find llmist" }];
+
+      const result = (provider as unknown as ProviderInternals).buildApiRequest(
+        {
+          model: "gemini:gemini-2.5-flash",
+          messages,
+          tools: [{ name: "Search", description: "Search the web", parameters }],
+        },
+        { provider: "gemini", name: "gemini-2.5-flash" },
+        undefined,
+        messages,
+      );
+
+      expect(result.config.tools).toEqual([
+        {
+          functionDeclarations: [
+            { name: "Search", description: "Search the web", parametersJsonSchema: parameters },
+          ],
+        },
+      ]);
+      expect(result.config).toMatchObject({
+        toolConfig: { functionCallingConfig: { mode: "AUTO" } },
+      });
+    });
   });
 
   // =========================================================================
@@ -2169,4 +2395,167 @@ describe("GeminiGenerativeProvider", () => {
       });
     });
   });
+
+  // =========================================================================
+  // Transcription Tests
+  // =========================================================================
+
+  describe("transcribe", () => {
+    const MP3_BYTES = Buffer.from([0x49, 0x44, 0x33, 0x04, 0x00, 0x00]);
+
+    it("sends inline audio and prices by audio token duration", async () => {
+      const generateContent = vi.fn().mockResolvedValue({
+        text: " Hello there. \n",
+        usageMetadata: {
+          promptTokensDetails: [
+            { modality: "TEXT", tokenCount: 40 },
+            { modality: "AUDIO", tokenCount: 1920 },
+          ],
+        },
+      });
+      const client = { models: { generateContent } } as unknown as GoogleGenAI;
+      const provider = new GeminiGenerativeProvider(client);
+
+      const result = await provider.transcribe({
+        model: "gemini-2.5-flash",
+        audio: MP3_BYTES,
+        language: "en",
+      });
+
+      const request = generateContent.mock.calls[0][0];
+      expect(request.contents[0].parts[0].inlineData).toEqual({
+        mimeType: "audio/mp3",
+        data: MP3_BYTES.toString("base64"),
+      });
+      expect(request.config).toBeUndefined();
+      expect(result.text).toBe("Hello there.");
+      // 1920 tokens / 32 tokens per second
+      expect(result.usage.durationSeconds).toBe(60);
+      expect(result.cost).toBeCloseTo(
+        calculateGeminiTranscriptionCost("gemini-2.5-flash", 60) ?? 0,
+      );
+    });
+
+    it("requests a JSON schema and parses segments for timestamps", async () => {
+      const generateContent = vi.fn().mockResolvedValue({
+        text: JSON.stringify({
+          language: "en",
+          segments: [
+            { start: 0, end: 2, text: " Hello. " },
+            { start: 2, end: 4, text: "Goodbye." },
+          ],
+        }),
+      });
+      const client = { models: { generateContent } } as unknown as GoogleGenAI;
+      const provider = new GeminiGenerativeProvider(client);
+
+      const result = await provider.transcribe({
+        model: "gemini-2.5-flash",
+        audio: MP3_BYTES,
+        timestamps: "segment",
+        durationSeconds: 4,
+      });
+
+      expect(generateContent.mock.calls[0][0].config.responseMimeType).toBe("application/json");
+      expect(result.segments).toEqual([
+        { start: 0, end: 2, text: "Hello." },
+        { start: 2, end: 4, text: "Goodbye." },
+      ]);
+      expect(result.text).toBe("Hello. Goodbye.");
+      expect(result.language).toBe("en");
+      expect(result.usage.durationSeconds).toBe(4);
+    });
+
+    it("throws on an invalid timestamped transcript", async () => {
+      const generateContent = vi.fn().mockResolvedValue({ text: "not json" });
+      const client = { models: { generateContent } } as unknown as GoogleGenAI;
+      const provider = new GeminiGenerativeProvider(client);
+
+      await expect(
+        provider.transcribe({ model: "gemini-2.5-flash", audio: MP3_BYTES, timestamps: "segment" }),
+      ).rejects.toThrow("Gemini returned an invalid timestamped transcript");
+    });
+
+    it("rejects word timestamps", async () => {
+      const provider = new GeminiGenerativeProvider({} as GoogleGenAI);
+
+      await expect(
+        provider.transcribe({ model: "gemini-2.5-flash", audio: MP3_BYTES, timestamps: "word" }),
+      ).rejects.toThrow("does not return word timestamps");
+    });
+  });
+
+  // =========================================================================
+  // Embeddings Tests
+  // =========================================================================
+
+  describe("generateEmbeddings", () => {
+    it("embeds each input as separate content with outputDimensionality", async () => {
+      const embedContent = vi.fn().mockResolvedValue({
+        embeddings: [{ values: [0.1, 0.2] }, { values: [0.3, 0.4] }],
+      });
+      const client = { models: { embedContent } } as unknown as GoogleGenAI;
+      const provider = new GeminiGenerativeProvider(client);
+
+      const result = await provider.generateEmbeddings({
+        model: "gemini-embedding-001",
+        input: ["first", "second"],
+        dimensions: 768,
+      });
+
+      expect(embedContent).toHaveBeenCalledWith({
+        model: "gemini-embedding-001",
+        contents: ["first", "second"],
+        config: { outputDimensionality: 768 },
+      });
+      expect(result.embeddings).toEqual([
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ]);
+      expect(result.dimensions).toBe(2);
+      // The Gemini API doesn't report tokens, so usage is estimated from length
+      const expectedTokens = Math.ceil(11 / FALLBACK_CHARS_PER_TOKEN);
+      expect(result.usage.inputTokens).toBe(expectedTokens);
+      expect(result.cost).toBeCloseTo(
+        calculateGeminiEmbeddingCost("gemini-embedding-001", expectedTokens) ?? 0,
+        10,
+      );
+    });
+
+    it("uses token counts when reported (Vertex AI)", async () => {
+      const embedContent = vi.fn().mockResolvedValue({
+        embeddings: [
+          { values: [1], statistics: { tokenCount: 3 } },
+          { values: [2], statistics: { tokenCount: 4 } },
+        ],
+      });
+      const client = { models: { embedContent } } as unknown as GoogleGenAI;
+      const provider = new GeminiGenerativeProvider(client);
+
+      const result = await provider.generateEmbeddings({
+        model: "gemini-embedding-001",
+        input: ["a", "b"],
+      });
+
+      expect(embedContent.mock.calls[0][0].config).toBeUndefined();
+      expect(result.usage.inputTokens).toBe(7);
+    });
+
+    it("throws when the embedding count doesn't match the inputs", async () => {
+      const embedContent = vi.fn().mockResolvedValue({ embeddings: [{ values: [1] }] });
+      const client = { models: { embedContent } } as unknown as GoogleGenAI;
+      const provider = new GeminiGenerativeProvider(client);
+
+      await expect(
+        provider.generateEmbeddings({ model: "gemini-embedding-001", input: ["a", "b"] }),
+      ).rejects.toThrow("Gemini returned 1 embeddings for 2 inputs");
+    });
+
+    it("supports only cataloged embedding models", () => {
+      const provider = new GeminiGenerativeProvider({} as GoogleGenAI);
+
+      expect(provider.supportsEmbeddings("gemini-embedding-001")).toBe(true);
+      expect(provider.supportsEmbeddings("gemini-2.5-flash")).toBe(false);
+    });
+  });
 });
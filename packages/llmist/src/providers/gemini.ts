@@ -1,12 +1,38 @@
-import { FunctionCallingConfigMode, GoogleGenAI, Modality } from "@google/genai";
-import type { ContentPart } from "../core/input-content.js";
+import {
+  FunctionCallingConfigMode,
+  type GenerateContentConfig,
+  GoogleGenAI,
+  MediaModality,
+  Modality,
+} from "@google/genai";
+import type {
+  BatchJobRef,
+  BatchRequest,
+  BatchResultItem,
+  BatchStatusSnapshot,
+} from "../batch/types.js";
+import {
+  type ContentPart,
+  detectAudioMimeType,
+  detectImageMimeType,
+  toBase64,
+} from "../core/input-content.js";
 import type {
+  EmbeddingModelSpec,
+  EmbeddingOptions,
+  EmbeddingResult,
+  ImageEditOptions,
   ImageGenerationOptions,
   ImageGenerationResult,
   ImageModelSpec,
+  ImageVariationOptions,
   SpeechGenerationOptions,
   SpeechGenerationResult,
   SpeechModelSpec,
+  TranscriptionModelSpec,
+  TranscriptionOptions,
+  TranscriptionResult,
+  TranscriptionSegment,
 } from "../core/media-types.js";
 import type { LLMMessage, MessageContent } from "../core/messages.js";
 import { extractMessageText, normalizeMessageContent } from "../core/messages.js";
@@ -19,6 +45,7 @@ import type {
   ReasoningConfig,
   ReasoningEffort,
 } from "../core/options.js";
+import { countTokensLocally, resolveTokenizer } from "../core/tokenizer.js";
 import type { ResearchModelSpec } from "../research/model-spec.js";
 import type {
   ResearchEvent,
@@ -27,10 +54,27 @@ import type {
   ResearchStatusSnapshot,
 } from "../research/types.js";
 import { BaseProviderAdapter } from "./base-provider.js";
-import { FALLBACK_CHARS_PER_TOKEN } from "./constants.js";
-import { GeminiCacheManager } from "./gemini-cache-manager.js";
+import {
+  FALLBACK_CHARS_PER_TOKEN,
+  GEMINI_SKIP_THOUGHT_SIGNATURE,
+  IMAGE_VARIATION_PROMPT,
+} from "./constants.js";
+import {
+  cancelGeminiBatch,
+  getGeminiBatchResults,
+  getGeminiBatchStatus,
+  submitGeminiBatch,
+} from "./gemini-batch.js";
+import { GeminiCacheManager, type GeminiPart } from "./gemini-cache-manager.js";
+import {
+  calculateGeminiEmbeddingCost,
+  geminiEmbeddingModels,
+  getGeminiEmbeddingModelSpec,
+  isGeminiEmbeddingModel,
+} from "./gemini-embedding-models.js";
 import {
   calculateGeminiImageCost,
+  calculateGeminiImageEditCost,
   geminiImageModels,
   getGeminiImageModelSpec,
   isGeminiImageModel,
@@ -49,13 +93,14 @@ import {
   getGeminiSpeechModelSpec,
   isGeminiSpeechModel,
 } from "./gemini-speech-models.js";
+import {
+  calculateGeminiTranscriptionCost,
+  GEMINI_AUDIO_TOKENS_PER_SECOND,
+  geminiTranscriptionModels,
+  isGeminiTranscriptionModel,
+} from "./gemini-transcription-models.js";
 import { createProviderFromEnv } from "./utils.js";
 
-/**
- * Gemini content part - can be text or inline data (images/audio).
- */
-type GeminiPart = { text: string } | { inlineData: { mimeType: string; data: string } };
-
 /**
  * Gemini content with role and multimodal parts.
  */
@@ -68,7 +113,12 @@ type GeminiChunk = {
   text?: () => string;
   candidates?: Array<{
     content?: {
-      parts?: Array<{ text?: string; thought?: boolean; thoughtSignature?: string }>;
+      parts?: Array<{
+        text?: string;
+        thought?: boolean;
+        thoughtSignature?: string;
+        functionCall?: { id?: string; name?: string; args?: Record<string, unknown> };
+      }>;
     };
     finishReason?: string;
   }>;
@@ -199,8 +249,48 @@ function wrapPcmInWav(
   return buffer;
 }
 
+/** JSON Schema for transcripts with segment timestamps */
+const GEMINI_TRANSCRIPT_SCHEMA = {
+  type: "object",
+  properties: {
+    language: { type: "string", description: "ISO-639-1 code of the spoken language" },
+    segments: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          start: { type: "number", description: "Start time in seconds" },
+          end: { type: "number", description: "End time in seconds" },
+          text: { type: "string" },
+        },
+        required: ["start", "end", "text"],
+      },
+    },
+  },
+  required: ["segments"],
+};
+
+/**
+ * Build the transcription instruction sent alongside the audio.
+ */
+function buildTranscriptionInstruction(options: TranscriptionOptions): string {
+  const lines = ["Generate a verbatim transcript of the speech in this audio."];
+  if (options.language) {
+    lines.push(`The speech is in the language with ISO-639-1 code "${options.language}".`);
+  }
+  if (options.prompt) {
+    lines.push(`Context (names and vocabulary that may occur): ${options.prompt}`);
+  }
+  lines.push(
+    options.timestamps
+      ? "Split the transcript into segments of one sentence or phrase, with start and end times in seconds from the beginning of the audio."
+      : "Output only the transcript text.",
+  );
+  return lines.join("\n");
+}
+
 export class GeminiGenerativeProvider extends BaseProviderAdapter {
-  readonly providerId = "gemini" as const;
+  readonly providerId: string = "gemini";
   private readonly cacheManager: GeminiCacheManager;
 
   constructor(client: unknown) {
@@ -216,6 +306,14 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
     return GEMINI_MODELS;
   }
 
+  supportsStructuredOutput(_descriptor: ModelDescriptor, _spec?: ModelSpec): boolean {
+    return true;
+  }
+
+  supportsNativeTools(_descriptor: ModelDescriptor, spec?: ModelSpec): boolean {
+    return spec?.features.functionCalling !== false;
+  }
+
   /**
    * Override the base stream method to inject cache logic.
    *
@@ -238,7 +336,10 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
     let cacheName: string | null = null;
     let cachedContentCount = 0;
 
-    if (cachingConfig?.enabled) {
+    // Tool declarations would have to live inside the cache resource too,
+    // so requests with native tools are sent uncached. Cache resources belong to
+    // the client's key, so requests made with other keys are sent uncached too.
+    if (cachingConfig?.enabled && !options.tools?.length && this.usesClientKey(options)) {
       // Find the index of the last user message in contents
       let lastUserIndex = -1;
       for (let i = contents.length - 1; i >= 0; i--) {
@@ -271,8 +372,9 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
       cachedContentCount,
     );
 
-    const rawStream = await this.executeStreamRequest(payload, options.signal);
-    yield* this.normalizeProviderStream(rawStream);
+    yield* this.streamWithCredentials(options, (apiKey) =>
+      this.executeStreamRequest(payload, options.signal, apiKey),
+    );
   }
 
   // =========================================================================
@@ -328,9 +430,71 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
       };
     }
     // Use native Gemini image generation for gemini-* models
-    const response = await client.models.generateContent({
+    const images = await this.generateNativeImages(options.model, [{ text: options.prompt }]);
+    const cost = calculateGeminiImageCost(options.model, aspectRatio, images.length);
+
+    return {
+      images,
       model: options.model,
-      contents: [{ role: "user", parts: [{ text: options.prompt }] }],
+      usage: {
+        imagesGenerated: images.length,
+        size: aspectRatio,
+        quality: "standard",
+      },
+      cost,
+    };
+  }
+
+  async editImage(options: ImageEditOptions): Promise<ImageGenerationResult> {
+    const spec = getGeminiImageModelSpec(options.model);
+    const aspectRatio = options.size ?? spec?.defaultSize ?? "1:1";
+    const sources = Array.isArray(options.image) ? options.image : [options.image];
+
+    // Native image models edit conversationally: source images followed by the instruction
+    const images = await this.generateNativeImages(options.model, [
+      ...sources.map((data) => ({
+        inlineData: {
+          mimeType: detectImageMimeType(data) ?? "image/png",
+          data: toBase64(data),
+        },
+      })),
+      { text: options.prompt },
+    ]);
+
+    return {
+      images,
+      model: options.model,
+      usage: {
+        imagesGenerated: images.length,
+        size: aspectRatio,
+        quality: "standard",
+      },
+      cost: calculateGeminiImageEditCost(options.model, aspectRatio, images.length, sources.length),
+    };
+  }
+
+  async generateImageVariations(options: ImageVariationOptions): Promise<ImageGenerationResult> {
+    return this.editImage({
+      model: options.model,
+      image: options.image,
+      prompt: options.prompt
+        ? `${IMAGE_VARIATION_PROMPT}\n\n${options.prompt}`
+        : IMAGE_VARIATION_PROMPT,
+      size: options.size,
+    });
+  }
+
+  /**
+   * Run a native Gemini image model and collect the inline images it returns.
+   */
+  private async generateNativeImages(
+    model: string,
+    parts: GeminiPart[],
+  ): Promise<Array<{ b64Json?: string; url?: string }>> {
+    const client = this.client as GoogleGenAI;
+    const response = await client.models.generateContent({
+      model,
+      contents: [{ role: "user", parts }],
       config: {
         responseModalities: [Modality.IMAGE, Modality.TEXT],
       },
@@ -348,19 +512,7 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
         }
       }
     }
-
-    const cost = calculateGeminiImageCost(options.model, aspectRatio, images.length);
-
-    return {
-      images,
-      model: options.model,
-      usage: {
-        imagesGenerated: images.length,
-        size: aspectRatio,
-        quality: "standard",
-      },
-      cost,
-    };
+    return images;
   }
 
   // =========================================================================
@@ -440,6 +592,132 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
     };
   }
 
+  // =========================================================================
+  // Transcription (audio understanding)
+  // =========================================================================
+
+  getTranscriptionModelSpecs(): TranscriptionModelSpec[] {
+    return geminiTranscriptionModels;
+  }
+
+  supportsTranscription(modelId: string): boolean {
+    return isGeminiTranscriptionModel(modelId);
+  }
+
+  async transcribe(options: TranscriptionOptions): Promise<TranscriptionResult> {
+    const client = this.client as GoogleGenAI;
+
+    if (options.timestamps === "word") {
+      throw new Error(
+        `Model "${options.model}" does not return word timestamps. Use "segment" timestamps or whisper-1.`,
+      );
+    }
+
+    const mimeType = options.mimeType ?? detectAudioMimeType(options.audio) ?? "audio/mpeg";
+    const response = await client.models.generateContent({
+      model: options.model,
+      contents: [
+        {
+          role: "user",
+          parts: [
+            { inlineData: { mimeType, data: toBase64(options.audio) } },
+            { text: buildTranscriptionInstruction(options) },
+          ],
+        },
+      ],
+      config: options.timestamps
+        ? { responseMimeType: "application/json", responseJsonSchema: GEMINI_TRANSCRIPT_SCHEMA }
+        : undefined,
+    });
+
+    // Audio is billed at a fixed token rate, so the token count gives the duration
+    const audioTokens = response.usageMetadata?.promptTokensDetails?.find(
+      (detail) => detail.modality === MediaModality.AUDIO,
+    )?.tokenCount;
+    const durationSeconds =
+      audioTokens !== undefined
+        ? audioTokens / GEMINI_AUDIO_TOKENS_PER_SECOND
+        : options.durationSeconds;
+
+    const output = response.text ?? "";
+    let text = output.trim();
+    let language = options.language;
+    let segments: TranscriptionSegment[] | undefined;
+
+    if (options.timestamps) {
+      let parsed: { language?: string; segments?: TranscriptionSegment[] };
+      try {
+        parsed = JSON.parse(output);
+      } catch {
+        throw new Error(
+          `Gemini returned an invalid timestamped transcript: ${output.slice(0, 200)}`,
+        );
+      }
+      segments = (parsed.segments ?? []).map(({ start, end, text }) => ({
+        start,
+        end,
+        text: text.trim(),
+      }));
+      text = segments.map((segment) => segment.text).join(" ");
+      language = language ?? parsed.language;
+    }
+
+    return {
+      text,
+      model: options.model,
+      language,
+      segments,
+      usage: { durationSeconds },
+      cost: calculateGeminiTranscriptionCost(options.model, durationSeconds),
+    };
+  }
+
+  // =========================================================================
+  // Embeddings
+  // =========================================================================
+
+  getEmbeddingModelSpecs(): EmbeddingModelSpec[] {
+    return geminiEmbeddingModels;
+  }
+
+  supportsEmbeddings(modelId: string): boolean {
+    return isGeminiEmbeddingModel(modelId);
+  }
+
+  async generateEmbeddings(options: EmbeddingOptions): Promise<EmbeddingResult> {
+    const client = this.client as GoogleGenAI;
+    const spec = getGeminiEmbeddingModelSpec(options.model);
+    const inputs = Array.isArray(options.input) ? options.input : [options.input];
+
+    const response = await client.models.embedContent({
+      model: options.model,
+      contents: inputs,
+      config:
+        options.dimensions !== undefined ? { outputDimensionality: options.dimensions } : undefined,
+    });
+
+    const embeddings = (response.embeddings ?? []).map((embedding) => embedding.values ?? []);
+    if (embeddings.length !== inputs.length) {
+      throw new Error(
+        `Gemini returned ${embeddings.length} embeddings for ${inputs.length} inputs`,
+      );
+    }
+
+    // Vertex AI reports token counts per input; the Gemini API doesn't
+    const reportedTokens = (response.embeddings ?? []).map((e) => e.statistics?.tokenCount);
+    const inputTokens = reportedTokens.every((count) => count !== undefined)
+      ? reportedTokens.reduce<number>((sum, count) => sum + (count ?? 0), 0)
+      : Math.ceil(inputs.reduce((sum, input) => sum + input.length, 0) / FALLBACK_CHARS_PER_TOKEN);
+
+    return {
+      embeddings,
+      model: options.model,
+      dimensions: embeddings[0]?.length ?? options.dimensions ?? spec?.dimensions ?? 0,
+      usage: { inputTokens },
+      cost: calculateGeminiEmbeddingCost(options.model, inputTokens),
+    };
+  }
+
   // =========================================================================
   // Deep Research (Interactions API)
   // =========================================================================
@@ -472,6 +750,50 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
     return cancelGeminiResearch(this.client as GoogleGenAI, ref);
   }
 
+  // =========================================================================
+  // Batch Mode
+  // =========================================================================
+
+  supportsBatch(modelId: string): boolean {
+    return GEMINI_MODELS.some(
+      (spec) => spec.modelId === modelId && spec.pricing.batchInput !== undefined,
+    );
+  }
+
+  /**
+   * Batch requests bypass context caching: the cache resource would have to
+   * outlive the batch, which may run for up to 24 hours.
+   */
+  submitBatch(
+    requests: BatchRequest[],
+    descriptor: ModelDescriptor,
+    spec?: ModelSpec,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const inlined = requests.map(({ id, model: _model, ...options }) => {
+      const { contents, config } = this.buildApiRequest(
+        { ...options, model: descriptor.name },
+        descriptor,
+        spec,
+        this.prepareMessages(options.messages),
+      );
+      return { id, request: { contents, config: config as GenerateContentConfig } };
+    });
+    return submitGeminiBatch(this.client as GoogleGenAI, descriptor.name, inlined, signal);
+  }
+
+  getBatchStatus(ref: BatchJobRef): Promise<BatchStatusSnapshot> {
+    return getGeminiBatchStatus(this.client as GoogleGenAI, ref);
+  }
+
+  getBatchResults(ref: BatchJobRef): AsyncIterable<BatchResultItem> {
+    return getGeminiBatchResults(this.client as GoogleGenAI, ref);
+  }
+
+  cancelBatch(ref: BatchJobRef): Promise<void> {
+    return cancelGeminiBatch(this.client as GoogleGenAI, ref);
+  }
+
   protected buildApiRequest(
     options: LLMGenerationOptions,
     descriptor: ModelDescriptor,
@@ -523,13 +845,30 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
       // Gemini rejects requests that include both cachedContent and toolConfig.
       ...(cacheName
         ? { cachedContent: cacheName }
-        : {
-            toolConfig: {
-              functionCallingConfig: {
-                mode: FunctionCallingConfigMode.NONE,
+        : options.tools?.length
+          ? {
+              tools: [
+                {
+                  functionDeclarations: options.tools.map((tool) => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parametersJsonSchema: tool.parameters,
+                  })),
+                },
+              ],
+              toolConfig: {
+                functionCallingConfig: {
+                  mode: FunctionCallingConfigMode.AUTO,
+                },
               },
-            },
-          }),
+            }
+          : {
+              toolConfig: {
+                functionCallingConfig: {
+                  mode: FunctionCallingConfigMode.NONE,
+                },
+              },
+            }),
       ...(thinkingConfig ?? {}),
       ...options.extra,
     };
@@ -548,14 +887,17 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
       config: Record<string, unknown>;
     },
     signal?: AbortSignal,
+    apiKey?: string,
   ): Promise<AsyncIterable<GeminiChunk>> {
     const client = this.client as GoogleGenAI;
-    // Gemini SDK uses abortSignal in the config object
+    // Gemini SDK uses abortSignal in the config object. The SDK only adds its own
+    // key header when the request doesn't set one.
     const streamResponse = await client.models.generateContentStream({
       ...payload,
       config: {
         ...payload.config,
         ...(signal ? { abortSignal: signal } : {}),
+        ...(apiKey ? { httpOptions: { headers: { "x-goog-api-key": apiKey } } } : {}),
       },
     });
     return streamResponse as unknown as AsyncIterable<GeminiChunk>;
@@ -644,7 +986,8 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
 
   /**
    * Convert llmist content to Gemini's part format.
-   * Handles text, images, and audio (Gemini supports all three).
+   * Handles text, images, and audio (Gemini supports all three), and native
+   * tool calls and results as function calls and responses.
    */
   private convertToGeminiParts(content: MessageContent): GeminiPart[] {
     const parts = normalizeMessageContent(content);
@@ -677,6 +1020,17 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
         };
       }
 
+      if (part.type === "tool_call") {
+        return {
+          functionCall: { name: part.name, args: part.arguments },
+          thoughtSignature: GEMINI_SKIP_THOUGHT_SIGNATURE,
+        };
+      }
+
+      if (part.type === "tool_result") {
+        return { functionResponse: { name: part.name, response: { output: part.content } } };
+      }
+
       throw new Error(`Unsupported content type: ${(part as ContentPart).type}`);
     });
   }
@@ -700,11 +1054,19 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
       config.stopSequences = options.stopSequences;
     }
 
+    // responseJsonSchema takes standard JSON Schema, unlike responseSchema's OpenAPI subset
+    if (options.responseFormat && options.responseFormat !== "text") {
+      config.responseMimeType = "application/json";
+      config.responseJsonSchema = options.responseFormat.schema;
+    }
+
     return Object.keys(config).length > 0 ? config : null;
   }
 
   protected async *normalizeProviderStream(iterable: AsyncIterable<unknown>): LLMStream {
     const stream = iterable as AsyncIterable<GeminiChunk>;
+    // Gemini sends each function call whole, so every call gets the next index
+    let toolCallIndex = 0;
     for await (const chunk of stream) {
       // Extract thinking and regular text from parts
       const { text, thinkingText, thinkingSignature } = this.extractTextAndThinking(chunk);
@@ -726,6 +1088,16 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
         yield { text, rawEvent: chunk };
       }
 
+      const toolCalls = this.extractFunctionCalls(chunk).map((call) => ({
+        index: toolCallIndex++,
+        ...(call.id ? { id: call.id } : {}),
+        name: call.name ?? "",
+        argumentsDelta: JSON.stringify(call.args ?? {}),
+      }));
+      if (toolCalls.length > 0) {
+        yield { text: "", toolCalls, rawEvent: chunk };
+      }
+
       const finishReason = this.extractFinishReason(chunk);
       const usage = this.extractUsage(chunk);
 
@@ -768,6 +1140,16 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
     return { text, thinkingText, thinkingSignature };
   }
 
+  private extractFunctionCalls(
+    chunk: GeminiChunk,
+  ): Array<{ id?: string; name?: string; args?: Record<string, unknown> }> {
+    return (chunk?.candidates ?? []).flatMap((candidate) =>
+      (candidate.content?.parts ?? []).flatMap((part) =>
+        part.functionCall ? [part.functionCall] : [],
+      ),
+    );
+  }
+
   private extractFinishReason(chunk: GeminiChunk): string | null {
     const candidate = chunk?.candidates?.find((item) => item.finishReason);
     return candidate?.finishReason ?? null;
@@ -800,10 +1182,10 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
    *
    * @param messages - The messages to count tokens for
    * @param descriptor - Model descriptor containing the model name
-   * @param _spec - Optional model specification (currently unused)
+   * @param spec - Optional model specification (selects the fallback tokenizer)
    * @returns Promise resolving to the estimated input token count
    *
-   * @throws Never throws - falls back to character-based estimation (4 chars/token) on error
+   * @throws Never throws - falls back to the local tokenizer on error
    *
    * @example
    * ```typescript
@@ -816,7 +1198,7 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
   async countTokens(
     messages: LLMMessage[],
     descriptor: ModelDescriptor,
-    _spec?: ModelSpec,
+    spec?: ModelSpec,
   ): Promise<number> {
     const client = this.client as GoogleGenAI;
 
@@ -844,24 +1226,9 @@ export class GeminiGenerativeProvider extends BaseProviderAdapter {
         `Token counting failed for ${descriptor.name}, using fallback estimation:`,
         error,
       );
-      // Fallback to rough estimation if API fails
-      // For multimodal, extract text and estimate; images/audio add tokens
-      let totalChars = 0;
-      let mediaCount = 0;
-      for (const msg of messages) {
-        const parts = normalizeMessageContent(msg.content);
-        for (const part of parts) {
-          if (part.type === "text") {
-            totalChars += part.text.length;
-          } else if (part.type === "image" || part.type === "audio") {
-            mediaCount++;
-          }
-        }
-      }
-      // Gemini charges ~258 tokens per image/audio (for standard size).
-      // Source: https://ai.google.dev/gemini-api/docs/tokens
-      // Actual cost varies by media type and dimensions.
-      return Math.ceil(totalChars / FALLBACK_CHARS_PER_TOKEN) + mediaCount * 258;
+      // Fallback to the local Gemini tokenizer if the API fails
+      // (~258 tokens per image/audio part, see https://ai.google.dev/gemini-api/docs/tokens)
+      return countTokensLocally(messages, resolveTokenizer(descriptor, spec));
     }
   }
 }
@@ -0,0 +1,207 @@
+/**
+ * Groq Model Specifications
+ *
+ * Model data for open-weight models served on Groq's LPU inference platform,
+ * with their specifications, pricing (on-demand tier) and capabilities.
+ * Groq trades model choice for very low latency, which suits short,
+ * latency-sensitive calls such as subagents and routing.
+ *
+ * Model IDs use Groq's naming, including the vendor prefix where Groq has one.
+ *
+ * Pricing source: https://groq.com/pricing
+ * Last updated: 2025-12-20
+ */
+
+import type { ModelSpec } from "../core/model-catalog.js";
+
+export const GROQ_MODELS: ModelSpec[] = [
+  // OpenAI open-weight models
+  {
+    provider: "groq",
+    modelId: "openai/gpt-oss-120b",
+    displayName: "GPT-OSS 120B (Groq)",
+    contextWindow: 131_072,
+    maxOutputTokens: 65_536,
+    pricing: {
+      input: 0.15,
+      output: 0.6,
+    },
+    knowledgeCutoff: "2024-06",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      reasoning: true,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "GPT-OSS",
+      releaseDate: "2025-08-05",
+      notes: "OpenAI's open-weight reasoning model at ~500 tokens/s.",
+    },
+  },
+  {
+    provider: "groq",
+    modelId: "openai/gpt-oss-20b",
+    displayName: "GPT-OSS 20B (Groq)",
+    contextWindow: 131_072,
+    maxOutputTokens: 65_536,
+    pricing: {
+      input: 0.075,
+      output: 0.3,
+    },
+    knowledgeCutoff: "2024-06",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      reasoning: true,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "GPT-OSS",
+      releaseDate: "2025-08-05",
+      notes: "Small open-weight reasoning model at ~1000 tokens/s.",
+    },
+  },
+
+  // Meta Llama models
+  {
+    provider: "groq",
+    modelId: "llama-3.3-70b-versatile",
+    displayName: "Llama 3.3 70B (Groq)",
+    contextWindow: 131_072,
+    maxOutputTokens: 32_768,
+    pricing: {
+      input: 0.59,
+      output: 0.79,
+    },
+    knowledgeCutoff: "2023-12",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+    },
+    metadata: {
+      family: "Llama 3",
+      releaseDate: "2024-12-06",
+      notes: "General-purpose model with reliable tool calling.",
+    },
+  },
+  {
+    provider: "groq",
+    modelId: "llama-3.1-8b-instant",
+    displayName: "Llama 3.1 8B Instant (Groq)",
+    contextWindow: 131_072,
+    maxOutputTokens: 131_072,
+    pricing: {
+      input: 0.05,
+      output: 0.08,
+    },
+    knowledgeCutoff: "2023-12",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+    },
+    metadata: {
+      family: "Llama 3",
+      releaseDate: "2024-07-23",
+      notes: "Cheapest and fastest model on Groq, for classification and extraction.",
+    },
+  },
+  {
+    provider: "groq",
+    modelId: "meta-llama/llama-4-maverick-17b-128e-instruct",
+    displayName: "Llama 4 Maverick (Groq)",
+    contextWindow: 131_072,
+    maxOutputTokens: 8192,
+    pricing: {
+      input: 0.2,
+      output: 0.6,
+    },
+    knowledgeCutoff: "2024-08",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: true,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Llama 4",
+      releaseDate: "2025-04-05",
+      notes: "Mixture-of-experts multimodal model (preview on Groq).",
+    },
+  },
+  {
+    provider: "groq",
+    modelId: "meta-llama/llama-4-scout-17b-16e-instruct",
+    displayName: "Llama 4 Scout (Groq)",
+    contextWindow: 131_072,
+    maxOutputTokens: 8192,
+    pricing: {
+      input: 0.11,
+      output: 0.34,
+    },
+    knowledgeCutoff: "2024-08",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: true,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Llama 4",
+      releaseDate: "2025-04-05",
+      notes: "Smaller Llama 4 multimodal model (preview on Groq).",
+    },
+  },
+
+  // Other open-weight models
+  {
+    provider: "groq",
+    modelId: "qwen/qwen3-32b",
+    displayName: "Qwen3 32B (Groq)",
+    contextWindow: 131_072,
+    maxOutputTokens: 40_960,
+    pricing: {
+      input: 0.29,
+      output: 0.59,
+    },
+    knowledgeCutoff: "2024-12",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      reasoning: true,
+    },
+    metadata: {
+      family: "Qwen3",
+      releaseDate: "2025-04-29",
+      notes: "Hybrid reasoning model (preview on Groq).",
+    },
+  },
+  {
+    provider: "groq",
+    modelId: "moonshotai/kimi-k2-instruct-0905",
+    displayName: "Kimi K2 (Groq)",
+    contextWindow: 262_144,
+    maxOutputTokens: 16_384,
+    pricing: {
+      input: 1.0,
+      output: 3.0,
+    },
+    knowledgeCutoff: "2025-06",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Kimi K2",
+      releaseDate: "2025-09-05",
+      notes: "Agentic coding model with 256K context (preview on Groq).",
+    },
+  },
+];
@@ -0,0 +1,110 @@
+import OpenAI from "openai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LLMGenerationOptions, LLMStreamChunk } from "../core/options.js";
+import { createGroqProviderFromEnv, GroqProvider } from "./groq.js";
+import { GROQ_MODELS } from "./groq-models.js";
+
+function createFetchStub(headers: Record<string, string> = {}) {
+  const chunks = [
+    { choices: [{ index: 0, delta: { content: "Hi" } }] },
+    {
+      choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
+      usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+    },
+  ];
+  const body = `${chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("")}data: [DONE]\n\n`;
+  return vi.fn(
+    async (_input: string | URL | Request, _init?: RequestInit) =>
+      new Response(body, {
+        status: 200,
+        headers: { "Content-Type": "text/event-stream", ...headers },
+      }),
+  );
+}
+
+function createProvider(fetchStub: ReturnType<typeof createFetchStub>): GroqProvider {
+  return new GroqProvider(
+    new OpenAI({ apiKey: "test", baseURL: "http://localhost/openai/v1", fetch: fetchStub }),
+  );
+}
+
+async function collect(provider: GroqProvider, options: Partial<LLMGenerationOptions> = {}) {
+  const chunks: LLMStreamChunk[] = [];
+  const model = options.model ?? "llama-3.3-70b-versatile";
+  for await (const chunk of provider.stream(
+    { model, messages: [{ role: "user", content: "Hello" }], ...options },
+    { provider: "groq", name: model },
+  )) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe("GroqProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reports rate limit headers on the first chunk", async () => {
+    const provider = createProvider(
+      createFetchStub({
+        "x-ratelimit-limit-requests": "14400",
+        "x-ratelimit-remaining-requests": "14399",
+        "x-ratelimit-reset-requests": "6s",
+        "x-ratelimit-limit-tokens": "6000",
+        "x-ratelimit-remaining-tokens": "5990",
+        "x-ratelimit-reset-tokens": "100ms",
+      }),
+    );
+
+    const chunks = await collect(provider);
+
+    expect(chunks[0]).toEqual({
+      text: "",
+      rateLimits: {
+        requests: { limit: 14_400, remaining: 14_399, resetMs: 6000 },
+        tokens: { limit: 6000, remaining: 5990, resetMs: 100 },
+      },
+    });
+    expect(chunks.map((chunk) => chunk.text).join("")).toBe("Hi");
+    expect(chunks.at(-1)?.usage).toMatchObject({ inputTokens: 5, outputTokens: 1 });
+  });
+
+  it("streams without a rate limit chunk when headers are absent", async () => {
+    const chunks = await collect(createProvider(createFetchStub()));
+
+    expect(chunks.some((chunk) => chunk.rateLimits)).toBe(false);
+  });
+
+  it("sends reasoning_effort for GPT-OSS models only", async () => {
+    const fetchStub = createFetchStub();
+    const provider = createProvider(fetchStub);
+
+    await collect(provider, {
+      model: "openai/gpt-oss-120b",
+      reasoning: { enabled: true, effort: "maximum" },
+    });
+    await collect(provider, { reasoning: { enabled: true, effort: "high" } });
+
+    const bodies = fetchStub.mock.calls.map(([, init]) => JSON.parse(init?.body as string));
+    expect(bodies[0].reasoning_effort).toBe("high");
+    expect(bodies[1]).not.toHaveProperty("reasoning_effort");
+  });
+
+  it("catalogs Groq models with pricing", () => {
+    expect(GROQ_MODELS.every((spec) => spec.provider === "groq")).toBe(true);
+    expect(GROQ_MODELS.map((spec) => spec.modelId)).toContain("llama-3.1-8b-instant");
+    for (const spec of GROQ_MODELS) {
+      expect(spec.maxOutputTokens).toBeLessThanOrEqual(spec.contextWindow);
+      expect(spec.pricing.output).toBeGreaterThanOrEqual(spec.pricing.input);
+    }
+  });
+
+  it("is created from GROQ_API_KEY", () => {
+    vi.stubEnv("GROQ_API_KEY", "");
+    expect(createGroqProviderFromEnv()).toBeNull();
+
+    vi.stubEnv("GROQ_API_KEY", "gsk_test");
+    expect(createGroqProviderFromEnv()?.providerId).toBe("groq");
+  });
+});
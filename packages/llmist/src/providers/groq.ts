@@ -0,0 +1,81 @@
+/**
+ * Groq Provider Adapter
+ *
+ * Runs open-weight models on Groq's LPU inference platform, which has very
+ * low latency. The chat completions API is OpenAI-compatible.
+ *
+ * Environment variables:
+ * - GROQ_API_KEY (required) - Your Groq API key
+ *
+ * Model naming format: Groq model ID.
+ * Examples:
+ * - groq:llama-3.3-70b-versatile
+ * - groq:openai/gpt-oss-120b
+ *
+ * Rate limit headers (`x-ratelimit-*-requests` per day, `x-ratelimit-*-tokens`
+ * per minute) are reported to proactive throttling
+ * (see `RateLimitTracker.recordServerLimits`).
+ *
+ * @see https://console.groq.com/docs/api-reference
+ */
+
+import type OpenAI from "openai";
+import type { LLMMessage } from "../core/messages.js";
+import type { ModelSpec } from "../core/model-catalog.js";
+import type { LLMGenerationOptions, ModelDescriptor, ReasoningEffort } from "../core/options.js";
+import { GROQ_MODELS } from "./groq-models.js";
+import {
+  createOpenAICompatibleProviderFromEnv,
+  type OpenAICompatibleConfig,
+  OpenAICompatibleProvider,
+} from "./openai-compatible-provider.js";
+
+/** Maps llmist reasoning effort levels to Groq's `reasoning_effort` for GPT-OSS models */
+const GROQ_EFFORT_MAP: Record<ReasoningEffort, string> = {
+  none: "low",
+  low: "low",
+  medium: "medium",
+  high: "high",
+  maximum: "high",
+};
+
+export class GroqProvider extends OpenAICompatibleProvider {
+  readonly providerId = "groq" as const;
+  protected readonly readsRateLimitHeaders = true;
+
+  constructor(client: OpenAI, config: OpenAICompatibleConfig = {}) {
+    super(client, config);
+  }
+
+  getModelSpecs(): ModelSpec[] {
+    return GROQ_MODELS;
+  }
+
+  /**
+   * Add `reasoning_effort` for GPT-OSS models when reasoning is configured.
+   */
+  protected buildApiRequest(
+    options: LLMGenerationOptions,
+    descriptor: ModelDescriptor,
+    spec: ModelSpec | undefined,
+    messages: LLMMessage[],
+  ): Parameters<OpenAI["chat"]["completions"]["create"]>[0] {
+    const request = super.buildApiRequest(options, descriptor, spec, messages);
+
+    if (options.reasoning?.enabled && descriptor.name.startsWith("openai/gpt-oss")) {
+      const requestObj = request as unknown as Record<string, unknown>;
+      requestObj.reasoning_effort = GROQ_EFFORT_MAP[options.reasoning.effort ?? "medium"];
+    }
+
+    return request;
+  }
+}
+
+export function createGroqProviderFromEnv(): GroqProvider | null {
+  return createOpenAICompatibleProviderFromEnv(
+    "GROQ_API_KEY",
+    "https://api.groq.com/openai/v1",
+    GroqProvider,
+    () => ({}),
+  );
+}
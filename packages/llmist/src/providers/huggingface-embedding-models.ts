@@ -0,0 +1,83 @@
+/**
+ * Hugging Face Embedding Model Catalog
+ *
+ * Sentence-embedding models served by HF Inference (feature-extraction task).
+ *
+ * Pricing: Free tier via serverless inference (router.huggingface.co), so
+ * costs are reported as 0. Dedicated endpoints are billed per hour:
+ * https://huggingface.co/pricing#endpoints
+ *
+ * @see https://huggingface.co/docs/inference-providers/tasks/feature-extraction
+ */
+
+import type { EmbeddingModelSpec } from "../core/media-types.js";
+
+/**
+ * Hugging Face Embedding Model Specifications
+ */
+export const huggingfaceEmbeddingModels: EmbeddingModelSpec[] = [
+  {
+    provider: "huggingface",
+    modelId: "sentence-transformers/all-MiniLM-L6-v2",
+    displayName: "all-MiniLM-L6-v2",
+    pricing: {
+      input: 0,
+    },
+    dimensions: 384,
+    maxInputTokens: 256,
+    maxBatchSize: 64,
+  },
+  {
+    provider: "huggingface",
+    modelId: "BAAI/bge-large-en-v1.5",
+    displayName: "BGE Large EN v1.5",
+    pricing: {
+      input: 0,
+    },
+    dimensions: 1024,
+    maxInputTokens: 512,
+    maxBatchSize: 64,
+  },
+  {
+    provider: "huggingface",
+    modelId: "BAAI/bge-m3",
+    displayName: "BGE M3",
+    pricing: {
+      input: 0,
+    },
+    dimensions: 1024,
+    maxInputTokens: 8192,
+    maxBatchSize: 32,
+    features: {
+      languages: 100,
+    },
+  },
+  {
+    provider: "huggingface",
+    modelId: "intfloat/multilingual-e5-large",
+    displayName: "Multilingual E5 Large",
+    pricing: {
+      input: 0,
+    },
+    dimensions: 1024,
+    maxInputTokens: 512,
+    maxBatchSize: 64,
+    features: {
+      languages: 94,
+    },
+  },
+];
+
+/**
+ * Get embedding model spec by model ID.
+ */
+export function getHuggingFaceEmbeddingModelSpec(modelId: string): EmbeddingModelSpec | undefined {
+  return huggingfaceEmbeddingModels.find((m) => m.modelId === modelId);
+}
+
+/**
+ * Check if a model ID is a Hugging Face embedding model.
+ */
+export function isHuggingFaceEmbeddingModel(modelId: string): boolean {
+  return huggingfaceEmbeddingModels.some((m) => m.modelId === modelId);
+}
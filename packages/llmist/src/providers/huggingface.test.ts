@@ -3,6 +3,7 @@ import type { ChatCompletionChunk } from "openai/resources/chat/completions";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { LLMMessage } from "../core/messages.js";
 import type { ModelDescriptor } from "../core/options.js";
+import { FALLBACK_CHARS_PER_TOKEN } from "./constants.js";
 import { createHuggingFaceProviderFromEnv, HuggingFaceProvider } from "./huggingface.js";
 
 describe("HuggingFaceProvider", () => {
@@ -424,6 +425,77 @@ describe("HuggingFaceProvider", () => {
       expect(enhanced).toBe(error);
     });
   });
+
+  describe("embeddings", () => {
+    it("calls the feature-extraction task on serverless inference", async () => {
+      const post = vi.fn().mockResolvedValue([
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ]);
+      const mockClient = { baseURL: "https://router.huggingface.co/v1", post } as unknown as OpenAI;
+      const provider = new HuggingFaceProvider(mockClient);
+
+      const result = await provider.generateEmbeddings({
+        model: "BAAI/bge-m3",
+        input: ["hello", "world"],
+      });
+
+      expect(post).toHaveBeenCalledWith(
+        "https://router.huggingface.co/hf-inference/models/BAAI/bge-m3/pipeline/feature-extraction",
+        { body: { inputs: ["hello", "world"] } },
+      );
+      expect(result.embeddings).toEqual([
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ]);
+      expect(result.dimensions).toBe(2);
+      expect(result.usage.inputTokens).toBe(Math.ceil(10 / FALLBACK_CHARS_PER_TOKEN));
+      expect(result.cost).toBe(0);
+    });
+
+    it("uses the OpenAI-compatible embeddings route on dedicated endpoints", async () => {
+      const create = vi.fn().mockResolvedValue({
+        data: [
+          { index: 1, embedding: [2] },
+          { index: 0, embedding: [1] },
+        ],
+      });
+      const mockClient = { embeddings: { create } } as unknown as OpenAI;
+      const provider = new HuggingFaceProvider(mockClient, { endpointType: "dedicated" });
+
+      const result = await provider.generateEmbeddings({
+        model: "BAAI/bge-large-en-v1.5",
+        input: ["a", "b"],
+      });
+
+      expect(create).toHaveBeenCalledWith({
+        model: "BAAI/bge-large-en-v1.5",
+        input: ["a", "b"],
+        encoding_format: "float",
+      });
+      expect(result.embeddings).toEqual([[1], [2]]);
+    });
+
+    it("rejects token-level (unpooled) outputs", async () => {
+      const post = vi.fn().mockResolvedValue([[[0.1], [0.2]]]);
+      const mockClient = { baseURL: "https://router.huggingface.co/v1", post } as unknown as OpenAI;
+      const provider = new HuggingFaceProvider(mockClient);
+
+      await expect(
+        provider.generateEmbeddings({ model: "BAAI/bge-m3", input: ["hello"] }),
+      ).rejects.toThrow("did not return one pooled embedding per input");
+    });
+
+    it("supports only cataloged embedding models", () => {
+      const provider = new HuggingFaceProvider({} as OpenAI);
+
+      expect(provider.supportsEmbeddings("sentence-transformers/all-MiniLM-L6-v2")).toBe(true);
+      expect(provider.supportsEmbeddings("meta-llama/Llama-3.1-8B-Instruct")).toBe(false);
+      expect(provider.getEmbeddingModelSpecs().every((s) => s.provider === "huggingface")).toBe(
+        true,
+      );
+    });
+  });
 });
 
 describe("createHuggingFaceProviderFromEnv", () => {
@@ -16,9 +16,16 @@
  */
 
 import OpenAI from "openai";
+import type { EmbeddingModelSpec, EmbeddingOptions, EmbeddingResult } from "../core/media-types.js";
 import type { LLMMessage } from "../core/messages.js";
 import type { ModelSpec } from "../core/model-catalog.js";
 import type { LLMGenerationOptions, ModelDescriptor } from "../core/options.js";
+import { FALLBACK_CHARS_PER_TOKEN } from "./constants.js";
+import {
+  getHuggingFaceEmbeddingModelSpec,
+  huggingfaceEmbeddingModels,
+  isHuggingFaceEmbeddingModel,
+} from "./huggingface-embedding-models.js";
 import { HUGGINGFACE_MODELS } from "./huggingface-models.js";
 import {
   type OpenAICompatibleConfig,
@@ -74,6 +81,70 @@ export class HuggingFaceProvider extends OpenAICompatibleProvider<HuggingFaceCon
     return request;
   }
 
+  // =========================================================================
+  // Embeddings
+  // =========================================================================
+
+  getEmbeddingModelSpecs(): EmbeddingModelSpec[] {
+    return huggingfaceEmbeddingModels;
+  }
+
+  supportsEmbeddings(modelId: string): boolean {
+    return isHuggingFaceEmbeddingModel(modelId);
+  }
+
+  /**
+   * Serverless inference uses the HF Inference feature-extraction task;
+   * dedicated endpoints (Text Embeddings Inference) use the OpenAI-compatible
+   * embeddings route. Token usage is estimated, as neither route reports it.
+   */
+  async generateEmbeddings(options: EmbeddingOptions): Promise<EmbeddingResult> {
+    const client = this.client as OpenAI;
+    const spec = getHuggingFaceEmbeddingModelSpec(options.model);
+    const inputs = Array.isArray(options.input) ? options.input : [options.input];
+
+    let embeddings: number[][];
+    try {
+      if (this.config.endpointType === "dedicated") {
+        const response = await client.embeddings.create({
+          model: options.model,
+          input: inputs,
+          encoding_format: "float",
+        });
+        embeddings = [...response.data]
+          .sort((a, b) => a.index - b.index)
+          .map((item) => item.embedding);
+      } else {
+        const origin = new URL(client.baseURL).origin;
+        embeddings = await client.post<number[][]>(
+          `${origin}/hf-inference/models/${options.model}/pipeline/feature-extraction`,
+          { body: { inputs } },
+        );
+      }
+    } catch (error) {
+      throw this.enhanceError(error);
+    }
+
+    if (embeddings.length !== inputs.length || Array.isArray(embeddings[0]?.[0])) {
+      throw new Error(
+        `HF model "${options.model}" did not return one pooled embedding per input. ` +
+          "Use a sentence-embedding model.",
+      );
+    }
+
+    const inputTokens = Math.ceil(
+      inputs.reduce((sum, input) => sum + input.length, 0) / FALLBACK_CHARS_PER_TOKEN,
+    );
+
+    return {
+      embeddings,
+      model: options.model,
+      dimensions: embeddings[0]?.length ?? spec?.dimensions ?? 0,
+      usage: { inputTokens },
+      cost: spec ? (inputTokens / 1_000_000) * spec.pricing.input : undefined,
+    };
+  }
+
   /**
    * Enhance error messages with HuggingFace-specific guidance.
    */
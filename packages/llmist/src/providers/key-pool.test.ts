@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_KEY_COOLDOWN_MS, KeyPool } from "./key-pool.js";
+
+function rateLimitError(headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error("429 Too Many Requests"), { status: 429, headers });
+}
+
+describe("KeyPool", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("requires at least one key", () => {
+    expect(() => new KeyPool({ keys: [] })).toThrow("at least one API key");
+  });
+
+  describe("round-robin", () => {
+    it("hands out the keys in turn", () => {
+      const pool = new KeyPool({ keys: ["a", "b", "c"] });
+
+      const keys = Array.from({ length: 4 }, () => pool.acquire().apiKey);
+
+      expect(keys).toEqual(["a", "b", "c", "a"]);
+    });
+
+    it("skips a key that hit a rate limit until it resets", () => {
+      const pool = new KeyPool({ keys: ["a", "b"] });
+      pool.acquire().fail(rateLimitError({ "retry-after": "10" }));
+
+      expect(pool.acquire().apiKey).toBe("b");
+      expect(pool.acquire().apiKey).toBe("b");
+
+      vi.advanceTimersByTime(10_000);
+      expect(pool.acquire().apiKey).toBe("a");
+    });
+
+    it("rests a key for the default cooldown without a Retry-After hint", () => {
+      const pool = new KeyPool({ keys: ["a", "b"] });
+      pool.acquire().fail(rateLimitError());
+
+      expect(pool.getStats()[0].requiredDelayMs).toBe(DEFAULT_KEY_COOLDOWN_MS);
+    });
+
+    it("does not rest a key after other errors", () => {
+      const pool = new KeyPool({ keys: ["a", "b"] });
+      pool.acquire().fail(new Error("400 Bad Request"));
+
+      expect(pool.getStats()[0]).toMatchObject({ rpm: 1, requiredDelayMs: 0 });
+    });
+
+    it("skips a key whose reported quota is used up", () => {
+      const pool = new KeyPool({ keys: ["a", "b"] });
+      const lease = pool.acquire();
+      lease.recordServerLimits({ tokens: { limit: 1000, remaining: 0, resetMs: 5_000 } });
+      lease.complete({ inputTokens: 10, outputTokens: 5, totalTokens: 15 });
+
+      expect(pool.acquire().apiKey).toBe("b");
+      expect(pool.acquire().apiKey).toBe("b");
+    });
+
+    it("uses the key that frees up first when all are throttled", () => {
+      const pool = new KeyPool({ keys: ["a", "b"] });
+      pool.acquire().fail(rateLimitError({ "retry-after": "30" }));
+      pool.acquire().fail(rateLimitError({ "retry-after": "5" }));
+
+      expect(pool.acquire().apiKey).toBe("b");
+    });
+  });
+
+  describe("least-throttled", () => {
+    it("picks the key with the least recent usage", () => {
+      const pool = new KeyPool({ keys: ["a", "b"], strategy: "least-throttled" });
+      pool.acquire().complete({ inputTokens: 1000, outputTokens: 0, totalTokens: 1000 });
+      pool.acquire().complete({ inputTokens: 10, outputTokens: 0, totalTokens: 10 });
+
+      expect(pool.acquire().apiKey).toBe("b");
+    });
+
+    it("honors the configured limits of each key", () => {
+      const pool = new KeyPool({
+        keys: ["a", "b"],
+        strategy: "least-throttled",
+        rateLimits: { requestsPerMinute: 1, safetyMargin: 1 },
+      });
+      pool.acquire().complete();
+
+      const stats = pool.getStats();
+      expect(stats[0].requiredDelayMs).toBeGreaterThan(0);
+      expect(stats[1].requiredDelayMs).toBe(0);
+      expect(pool.acquire().apiKey).toBe("b");
+    });
+  });
+
+  it("reports usage per key without the keys", () => {
+    const pool = new KeyPool({ keys: ["secret-a", "secret-b"] });
+    pool.acquire().complete({ inputTokens: 100, outputTokens: 50, totalTokens: 150 });
+
+    const stats = pool.getStats();
+
+    expect(pool.size).toBe(2);
+    expect(stats.map((entry) => entry.tpm)).toEqual([150, 0]);
+    expect(JSON.stringify(stats)).not.toContain("secret");
+  });
+});
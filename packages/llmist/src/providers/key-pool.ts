@@ -0,0 +1,174 @@
+/**
+ * Key Pool
+ *
+ * Spreads the requests of one provider adapter over several API keys. Each
+ * key has its own {@link RateLimitTracker}: the rate limits the provider
+ * reports for a key (and its 429 errors) only throttle that key, so one
+ * exhausted key doesn't hold up requests that another key can serve.
+ *
+ * Keys are picked by strategy:
+ * - `"round-robin"` (default): keys in turn, skipping keys that are throttled
+ * - `"least-throttled"`: the key with the shortest wait, then the fewest
+ *   requests and tokens in the last minute
+ *
+ * When every key is throttled, the key that frees up first is used.
+ *
+ * ```typescript
+ * const client = new LLMist({
+ *   keyPools: {
+ *     openai: { keys: [process.env.OPENAI_KEY_A!, process.env.OPENAI_KEY_B!] },
+ *   },
+ * });
+ * ```
+ */
+
+import type { TokenUsage } from "../core/options.js";
+import {
+  type RateLimitConfig,
+  type RateLimitStats,
+  RateLimitTracker,
+  type ServerRateLimits,
+} from "../core/rate-limit.js";
+import { extractRetryAfterMs } from "../core/retry.js";
+
+/** How a key pool picks the key for the next request. */
+export type KeySelectionStrategy = "round-robin" | "least-throttled";
+
+/** How long a key rests after a rate limit error without a Retry-After hint. */
+export const DEFAULT_KEY_COOLDOWN_MS = 60_000;
+
+/**
+ * Configuration of a provider's key pool.
+ */
+export interface KeyPoolConfig {
+  /** API keys to spread requests over */
+  keys: string[];
+  /** How the next key is picked (default: `"round-robin"`) */
+  strategy?: KeySelectionStrategy;
+  /** Proactive limits of each key, e.g. the tier of its account */
+  rateLimits?: RateLimitConfig;
+}
+
+/**
+ * One request's use of a pooled key. Report the outcome of the request so
+ * the key's tracker stays accurate.
+ */
+export interface KeyLease {
+  /** API key to make the request with */
+  readonly apiKey: string;
+  /** Position of the key in {@link KeyPoolConfig.keys} */
+  readonly index: number;
+  /** Record the rate limits the provider reported for the key */
+  recordServerLimits(limits: ServerRateLimits): void;
+  /** Record the token usage of the finished request */
+  complete(usage?: TokenUsage): void;
+  /** Record a failed request; rate limit errors rest the key until its limit resets */
+  fail(error: unknown): void;
+}
+
+/**
+ * API keys of one provider with a rate limit tracker per key.
+ */
+export class KeyPool {
+  readonly strategy: KeySelectionStrategy;
+  private readonly keys: string[];
+  private readonly trackers: RateLimitTracker[];
+  private nextIndex = 0;
+
+  constructor(config: KeyPoolConfig) {
+    if (config.keys.length === 0) {
+      throw new Error("A key pool needs at least one API key");
+    }
+    this.keys = [...config.keys];
+    this.strategy = config.strategy ?? "round-robin";
+    // Always enabled so server-reported limits are honored without configured limits
+    this.trackers = this.keys.map(
+      () => new RateLimitTracker({ ...config.rateLimits, enabled: true }),
+    );
+  }
+
+  /** Number of keys in the pool. */
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Pick the key for the next request and count the request against it.
+   */
+  acquire(): KeyLease {
+    const index = this.select();
+    this.nextIndex = (index + 1) % this.keys.length;
+
+    const tracker = this.trackers[index];
+    tracker.reserveRequest();
+    return {
+      apiKey: this.keys[index],
+      index,
+      recordServerLimits: (limits) => tracker.recordServerLimits(limits),
+      complete: (usage) => tracker.recordUsage(usage?.inputTokens ?? 0, usage?.outputTokens ?? 0),
+      fail: (error) => {
+        // Settle the reservation: the request counts, its tokens are unknown
+        tracker.recordUsage(0, 0);
+        if (isRateLimitError(error)) {
+          const resetMs =
+            (error instanceof Error ? extractRetryAfterMs(error) : null) ?? DEFAULT_KEY_COOLDOWN_MS;
+          tracker.recordServerLimits({ requests: { remaining: 0, resetMs } });
+        }
+      },
+    };
+  }
+
+  /**
+   * Usage of each key, in the order of {@link KeyPoolConfig.keys}.
+   * Keys themselves are not included.
+   */
+  getStats(): RateLimitStats[] {
+    return this.trackers.map((tracker) => tracker.getUsageStats());
+  }
+
+  private select(): number {
+    const delays = this.trackers.map((tracker) => tracker.getRequiredDelayMs());
+
+    if (this.strategy === "round-robin") {
+      for (let offset = 0; offset < this.keys.length; offset++) {
+        const index = (this.nextIndex + offset) % this.keys.length;
+        if (delays[index] === 0) return index;
+      }
+      return indexOfMin(delays);
+    }
+
+    const stats = this.trackers.map((tracker) => tracker.getUsageStats());
+    let best = 0;
+    for (let index = 1; index < this.keys.length; index++) {
+      const [a, b] = [stats[index], stats[best]];
+      const better =
+        delays[index] !== delays[best]
+          ? delays[index] < delays[best]
+          : a.rpm !== b.rpm
+            ? a.rpm < b.rpm
+            : a.tpm < b.tpm;
+      if (better) best = index;
+    }
+    return best;
+  }
+}
+
+function indexOfMin(values: number[]): number {
+  return values.reduce((best, value, index) => (value < values[best] ? index : best), 0);
+}
+
+/**
+ * Whether an error is the provider rejecting the key's rate (HTTP 429 or a
+ * quota error).
+ */
+function isRateLimitError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if ((error as { status?: unknown }).status === 429) return true;
+  const message = error.message.toLowerCase();
+  return (
+    message.includes("429") ||
+    message.includes("rate limit") ||
+    message.includes("rate_limit") ||
+    message.includes("resource_exhausted")
+  );
+}
@@ -0,0 +1,152 @@
+import type OpenAI from "openai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LLMMessage } from "../core/messages.js";
+import { createLlamaCppProviderFromEnv, LlamaCppProvider } from "./llamacpp.js";
+
+/**
+ * Build a fetch stub that serves JSON responses keyed by request path.
+ * Paths without a route respond with 404.
+ */
+function createFetchStub(routes: Record<string, unknown>) {
+  return vi.fn(async (input: string | URL | Request, _init?: RequestInit) => {
+    const path = new URL(String(input)).pathname;
+    if (!(path in routes)) {
+      return new Response("not found", { status: 404 });
+    }
+    return new Response(JSON.stringify(routes[path]), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  });
+}
+
+const mockClient = {} as OpenAI;
+const serverURL = "http://localhost:8080";
+
+/** Protected members checked by the env factory tests. */
+interface ProviderInternals {
+  client: OpenAI;
+  config: { serverURL: string };
+}
+
+describe("LlamaCppProvider", () => {
+  it("should support the 'llamacpp' provider", () => {
+    const provider = new LlamaCppProvider(mockClient, { serverURL });
+    expect(provider.supports({ provider: "llamacpp", name: "model.gguf" })).toBe(true);
+    expect(provider.supports({ provider: "ollama", name: "model.gguf" })).toBe(false);
+  });
+
+  describe("discoverModelSpecs", () => {
+    it("should prefer the server slot context from /props", async () => {
+      const fetchStub = createFetchStub({
+        "/v1/models": { data: [{ id: "qwen2.5-7b.gguf", meta: { n_ctx_train: 32768 } }] },
+        "/props": { default_generation_settings: { n_ctx: 16384 } },
+      });
+      const provider = new LlamaCppProvider(mockClient, { serverURL, fetch: fetchStub });
+
+      const [spec] = await provider.discoverModelSpecs();
+
+      expect(spec).toMatchObject({
+        provider: "llamacpp",
+        modelId: "qwen2.5-7b.gguf",
+        contextWindow: 16384,
+        pricing: { input: 0, output: 0 },
+      });
+    });
+
+    it("should fall back to the training context when /props is disabled", async () => {
+      const fetchStub = createFetchStub({
+        "/v1/models": { data: [{ id: "qwen2.5-7b.gguf", meta: { n_ctx_train: 32768 } }] },
+      });
+      const provider = new LlamaCppProvider(mockClient, { serverURL, fetch: fetchStub });
+
+      const [spec] = await provider.discoverModelSpecs();
+
+      expect(spec.contextWindow).toBe(32768);
+    });
+
+    it("should send the API key as a bearer token", async () => {
+      const fetchStub = createFetchStub({ "/v1/models": { data: [] }, "/props": {} });
+      const provider = new LlamaCppProvider(mockClient, {
+        serverURL,
+        apiKey: "secret",
+        fetch: fetchStub,
+      });
+
+      await provider.discoverModelSpecs();
+
+      const [, init] = fetchStub.mock.calls[0];
+      expect((init?.headers as Record<string, string>).Authorization).toBe("Bearer secret");
+    });
+  });
+
+  describe("countTokens", () => {
+    const messages: LLMMessage[] = [{ role: "user", content: "Count me" }];
+
+    it("should count tokens through /tokenize", async () => {
+      const fetchStub = createFetchStub({ "/tokenize": { tokens: [10, 20, 30] } });
+      const provider = new LlamaCppProvider(mockClient, { serverURL, fetch: fetchStub });
+
+      const count = await provider.countTokens(messages, {
+        provider: "llamacpp",
+        name: "model.gguf",
+      });
+
+      expect(count).toBe(3);
+      const [url, init] = fetchStub.mock.calls[0];
+      expect(url).toBe("http://localhost:8080/tokenize");
+      expect(JSON.parse(String(init?.body))).toEqual({ content: "Count me" });
+    });
+
+    it("should fall back to local estimation when the server fails", async () => {
+      const fetchStub = vi.fn().mockRejectedValue(new Error("connect ECONNREFUSED"));
+      const provider = new LlamaCppProvider(mockClient, { serverURL, fetch: fetchStub });
+
+      const count = await provider.countTokens(messages, {
+        provider: "llamacpp",
+        name: "model.gguf",
+      });
+
+      expect(count).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe("createLlamaCppProviderFromEnv", () => {
+  const originalEnv = {
+    LLAMACPP_BASE_URL: process.env.LLAMACPP_BASE_URL,
+    LLAMACPP_API_KEY: process.env.LLAMACPP_API_KEY,
+  };
+
+  beforeEach(() => {
+    delete process.env.LLAMACPP_BASE_URL;
+    delete process.env.LLAMACPP_API_KEY;
+  });
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value !== undefined) {
+        process.env[key] = value;
+      } else {
+        delete process.env[key];
+      }
+    }
+  });
+
+  it("should return null when LLAMACPP_BASE_URL is not set", () => {
+    expect(createLlamaCppProviderFromEnv()).toBeNull();
+  });
+
+  it("should accept a base URL with a trailing /v1", () => {
+    process.env.LLAMACPP_BASE_URL = "http://gpu-box:8080/v1/";
+    process.env.LLAMACPP_API_KEY = "secret";
+
+    const provider = createLlamaCppProviderFromEnv();
+
+    expect(provider).toBeInstanceOf(LlamaCppProvider);
+    const { client, config } = provider as unknown as ProviderInternals;
+    expect(client.baseURL).toBe("http://gpu-box:8080/v1");
+    expect(client.apiKey).toBe("secret");
+    expect(config.serverURL).toBe("http://gpu-box:8080");
+  });
+});
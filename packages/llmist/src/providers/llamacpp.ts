@@ -0,0 +1,154 @@
+/**
+ * llama.cpp Server Provider Adapter
+ *
+ * Runs agents against a model served by llama.cpp's `llama-server`.
+ * Chat streaming uses the server's OpenAI-compatible `/v1/chat/completions`
+ * endpoint; token counting uses the native `/tokenize` endpoint.
+ *
+ * Environment variables:
+ * - LLAMACPP_BASE_URL (required) - Server address, e.g. "http://localhost:8080"
+ * - LLAMACPP_API_KEY (optional) - Key passed to `llama-server --api-key`
+ *
+ * A llama.cpp server hosts the model(s) it was started with; use the id
+ * reported by `/v1/models` (usually the GGUF file name):
+ * - llamacpp:qwen2.5-7b-instruct-q4_k_m.gguf
+ *
+ * @see https://github.com/ggml-org/llama.cpp/tree/master/tools/server
+ */
+
+import OpenAI from "openai";
+import {
+  type LocalModelInfo,
+  LocalOpenAICompatibleProvider,
+  type LocalProviderConfig,
+  normalizeServerURL,
+} from "./local-provider.js";
+import { isNonEmpty, readEnvVar } from "./utils.js";
+
+/** Response shape of `GET /v1/models`. */
+interface LlamaCppModelsResponse {
+  data?: Array<{
+    id: string;
+    meta?: { n_ctx_train?: number };
+  }>;
+}
+
+/** Response shape of `GET /props` (only the fields we read). */
+interface LlamaCppPropsResponse {
+  default_generation_settings?: { n_ctx?: number };
+}
+
+/** Response shape of `POST /tokenize`. */
+interface LlamaCppTokenizeResponse {
+  tokens?: unknown[];
+}
+
+/**
+ * Configuration for llama.cpp provider.
+ */
+export interface LlamaCppConfig extends LocalProviderConfig {}
+
+export class LlamaCppProvider extends LocalOpenAICompatibleProvider<LlamaCppConfig> {
+  readonly providerId = "llamacpp" as const;
+
+  /**
+   * List loaded models via `/v1/models`.
+   *
+   * The context window is the server's configured slot size from `/props`
+   * (what requests are actually limited to), falling back to the model's
+   * training context.
+   */
+  protected async listLocalModels(): Promise<LocalModelInfo[]> {
+    const models = await this.requestJSON<LlamaCppModelsResponse>("/v1/models");
+    const serverContext = await this.readServerContext();
+
+    return (models.data ?? []).map((model) => ({
+      id: model.id,
+      contextWindow: serverContext ?? model.meta?.n_ctx_train,
+    }));
+  }
+
+  /**
+   * Tokenize via `/tokenize`. The server always uses its loaded model,
+   * so the model argument is not sent.
+   */
+  protected async tokenize(_model: string, text: string): Promise<number | undefined> {
+    const response = await this.requestJSON<LlamaCppTokenizeResponse>("/tokenize", {
+      content: text,
+    });
+    return response.tokens?.length;
+  }
+
+  /**
+   * Enhance error messages with llama.cpp-specific guidance.
+   */
+  protected enhanceError(error: unknown): Error {
+    if (!(error instanceof Error)) {
+      return new Error(String(error));
+    }
+
+    const message = error.message.toLowerCase();
+
+    if (message.includes("econnrefused") || message.includes("connection error")) {
+      return new Error(
+        `llama.cpp: Cannot reach server at ${this.config.serverURL}. ` +
+          `Check that llama-server is running and LLAMACPP_BASE_URL is correct.\n` +
+          `Original error: ${error.message}`,
+      );
+    }
+
+    if (message.includes("401") || message.includes("unauthorized")) {
+      return new Error(
+        `llama.cpp: Authentication failed. Set LLAMACPP_API_KEY to the server's --api-key value.\n` +
+          `Original error: ${error.message}`,
+      );
+    }
+
+    return error;
+  }
+
+  private async readServerContext(): Promise<number | undefined> {
+    try {
+      const props = await this.requestJSON<LlamaCppPropsResponse>("/props");
+      return props.default_generation_settings?.n_ctx;
+    } catch {
+      // /props may be disabled - fall back to the model's training context
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Create a llama.cpp provider from environment variables.
+ *
+ * Environment variables:
+ * - LLAMACPP_BASE_URL (required) - Server address; a trailing `/v1` is accepted
+ * - LLAMACPP_API_KEY (optional) - API key if the server requires one
+ *
+ * @returns LlamaCppProvider instance or null if LLAMACPP_BASE_URL is not set
+ *
+ * @example
+ * ```bash
+ * export LLAMACPP_BASE_URL="http://localhost:8080"
+ * ```
+ */
+export function createLlamaCppProviderFromEnv(): LlamaCppProvider | null {
+  const baseUrl = readEnvVar("LLAMACPP_BASE_URL");
+
+  if (!isNonEmpty(baseUrl)) {
+    return null;
+  }
+
+  const serverURL = normalizeServerURL(baseUrl);
+  const apiKey = readEnvVar("LLAMACPP_API_KEY")?.trim() || undefined;
+
+  const client = new OpenAI({
+    // llama-server only checks the key when started with --api-key
+    apiKey: apiKey ?? "llamacpp",
+    baseURL: `${serverURL}/v1`,
+    timeout: 600_000, // 10 minute timeout - local generation on CPU can be slow
+    maxRetries: 0, // Disable SDK retries - llmist handles all retries at application level
+  });
+
+  return new LlamaCppProvider(client, { serverURL, apiKey });
+}
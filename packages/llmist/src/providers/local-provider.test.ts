@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  createLocalModelSpec,
+  LOCAL_DEFAULT_CONTEXT_WINDOW,
+  normalizeServerURL,
+} from "./local-provider.js";
+
+describe("normalizeServerURL", () => {
+  it("should add an http scheme to bare host:port values", () => {
+    expect(normalizeServerURL("127.0.0.1:11434")).toBe("http://127.0.0.1:11434");
+  });
+
+  it("should keep explicit schemes", () => {
+    expect(normalizeServerURL("https://ollama.internal")).toBe("https://ollama.internal");
+  });
+
+  it("should strip trailing slashes and a /v1 suffix", () => {
+    expect(normalizeServerURL(" http://localhost:8080/v1/ ")).toBe("http://localhost:8080");
+  });
+});
+
+describe("createLocalModelSpec", () => {
+  it("should create a zero-priced spec", () => {
+    const spec = createLocalModelSpec("ollama", { id: "llama3.1:8b", parameterSize: "8.0B" });
+
+    expect(spec).toMatchObject({
+      provider: "ollama",
+      modelId: "llama3.1:8b",
+      displayName: "llama3.1:8b",
+      contextWindow: LOCAL_DEFAULT_CONTEXT_WINDOW,
+      pricing: { input: 0, output: 0 },
+      features: { streaming: true },
+    });
+    expect(spec.metadata?.notes).toBe("Locally hosted model, 8.0B");
+  });
+
+  it("should cap max output tokens to small context windows", () => {
+    const spec = createLocalModelSpec("llamacpp", { id: "tiny.gguf", contextWindow: 2048 });
+
+    expect(spec.contextWindow).toBe(2048);
+    expect(spec.maxOutputTokens).toBe(2048);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Local Model Server Base Class
+ *
+ * Base class for self-hosted inference servers that expose an OpenAI-compatible
+ * `/v1/chat/completions` endpoint alongside their own native management API.
+ * Examples include:
+ * - Ollama (ollama.com)
+ * - llama.cpp `llama-server`
+ *
+ * On top of the OpenAI-compatible streaming inherited from
+ * {@link OpenAICompatibleProvider}, this class adds:
+ * - Runtime model discovery (locally pulled/loaded models, zero pricing)
+ * - Token counting through the server's tokenize endpoint, so compaction
+ *   and budgets stay accurate without network access
+ *
+ * Subclasses implement:
+ * - providerId
+ * - listLocalModels() for the server-specific model listing endpoint
+ * - tokenize() for the server-specific tokenize endpoint
+ */
+
+import type { LLMMessage } from "../core/messages.js";
+import { extractMessageText, normalizeMessageContent } from "../core/messages.js";
+import type { ModelSpec } from "../core/model-catalog.js";
+import type { ModelDescriptor } from "../core/options.js";
+import { createLogger } from "../logging/logger.js";
+import {
+  type OpenAICompatibleConfig,
+  OpenAICompatibleProvider,
+} from "./openai-compatible-provider.js";
+
+/** Logger for local model server debugging */
+const logger = createLogger({ name: "local-provider" });
+
+/** Context window assumed when the server does not report one. */
+export const LOCAL_DEFAULT_CONTEXT_WINDOW = 8_192;
+
+/** Max output tokens assumed when the server does not report one. */
+export const LOCAL_DEFAULT_MAX_OUTPUT_TOKENS = 4_096;
+
+/**
+ * Configuration for local model server providers.
+ */
+export interface LocalProviderConfig extends OpenAICompatibleConfig {
+  /**
+   * Server root URL without the `/v1` suffix (e.g., "http://localhost:11434").
+   * Used for the native model listing and tokenize endpoints.
+   */
+  serverURL: string;
+
+  /**
+   * Optional API key for servers started with authentication enabled.
+   * Sent as a bearer token on native endpoint requests.
+   */
+  apiKey?: string;
+
+  /**
+   * Context window to assume for models whose metadata does not report one.
+   * @default 8192
+   */
+  defaultContextWindow?: number;
+
+  /**
+   * Fetch implementation used for native endpoints.
+   * Defaults to the global `fetch`; override for testing or custom transports.
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * A model reported by a local server's listing endpoint.
+ */
+export interface LocalModelInfo {
+  /** Model identifier as accepted by the chat completions endpoint */
+  id: string;
+  /** Context window reported by the server, when available */
+  contextWindow?: number;
+  /** Model family (e.g., "llama", "qwen2") */
+  family?: string;
+  /** Parameter size label (e.g., "8B") */
+  parameterSize?: string;
+}
+
+/**
+ * Build a zero-priced model spec for a locally hosted model.
+ *
+ * Local inference has no per-token cost, so pricing is zero and cost
+ * tracking reports $0 while token counts are still recorded.
+ */
+export function createLocalModelSpec(
+  provider: string,
+  info: LocalModelInfo,
+  defaultContextWindow = LOCAL_DEFAULT_CONTEXT_WINDOW,
+): ModelSpec {
+  const contextWindow = info.contextWindow ?? defaultContextWindow;
+  const notes = ["Locally hosted model", info.parameterSize].filter(Boolean).join(", ");
+
+  return {
+    provider,
+    modelId: info.id,
+    displayName: info.id,
+    contextWindow,
+    maxOutputTokens: Math.min(LOCAL_DEFAULT_MAX_OUTPUT_TOKENS, contextWindow),
+    pricing: { input: 0, output: 0 },
+    knowledgeCutoff: "unknown",
+    features: {
+      streaming: true,
+      functionCalling: false,
+      vision: false,
+    },
+    metadata: {
+      ...(info.family ? { family: info.family } : {}),
+      notes,
+    },
+  };
+}
+
+/**
+ * Normalize a server address from an environment variable into a root URL.
+ *
+ * Accepts bare `host:port` values (as used by `OLLAMA_HOST`), adds an
+ * `http://` scheme when missing, and strips trailing slashes and `/v1`.
+ */
+export function normalizeServerURL(value: string): string {
+  let url = value.trim();
+  if (!/^https?:\/\//i.test(url)) {
+    url = `http://${url}`;
+  }
+  url = url.replace(/\/+$/, "");
+  return url.replace(/\/v1$/, "");
+}
+
+/**
+ * Thrown by native endpoint calls when the server responds with a non-2xx
+ * status.
+ */
+export class LocalServerHTTPError extends Error {
+  /** HTTP status of the response */
+  readonly status: number;
+
+  constructor(providerId: string, path: string, status: number) {
+    super(`${providerId} ${path} failed with HTTP ${status}`);
+    this.name = "LocalServerHTTPError";
+    this.status = status;
+  }
+}
+
+/**
+ * Abstract base class for local model servers with OpenAI-compatible chat APIs.
+ */
+export abstract class LocalOpenAICompatibleProvider<
+  TConfig extends LocalProviderConfig = LocalProviderConfig,
+> extends OpenAICompatibleProvider<TConfig> {
+  private discoveredSpecs: ModelSpec[] = [];
+
+  /**
+   * Return the models discovered so far.
+   * Empty until {@link discoverModelSpecs} has completed.
+   */
+  getModelSpecs(): ModelSpec[] {
+    return this.discoveredSpecs;
+  }
+
+  /**
+   * Ollama and llama-server both constrain generation to a JSON Schema
+   * given in `response_format`, whatever model is loaded.
+   */
+  supportsStructuredOutput(_descriptor: ModelDescriptor, _spec?: ModelSpec): boolean {
+    return true;
+  }
+
+  /**
+   * List the models available on the server as zero-priced model specs.
+   * Called by LLMist at startup; results are registered in the model registry.
+   */
+  async discoverModelSpecs(): Promise<ModelSpec[]> {
+    const models = await this.listLocalModels();
+    this.discoveredSpecs = models.map((info) =>
+      createLocalModelSpec(this.providerId, info, this.config.defaultContextWindow),
+    );
+    logger.debug("Discovered local models", {
+      provider: this.providerId,
+      models: this.discoveredSpecs.map((spec) => spec.modelId),
+    });
+    return this.discoveredSpecs;
+  }
+
+  /**
+   * Count tokens using the server's tokenize endpoint.
+   *
+   * Message text is tokenized with the model actually loaded on the server,
+   * so counts match what the server will see. Falls back to the inherited
+   * tiktoken estimation when the endpoint is unavailable.
+   */
+  async countTokens(
+    messages: LLMMessage[],
+    descriptor: ModelDescriptor,
+    spec?: ModelSpec,
+  ): Promise<number> {
+    if (!messages || messages.length === 0) return 0;
+
+    const text = messages
+      .flatMap((msg) => normalizeMessageContent(msg.content))
+      .map((part) => extractMessageText([part]))
+      .filter((part) => part.length > 0)
+      .join("\n");
+
+    try {
+      const count = await this.tokenize(descriptor.name, text);
+      if (count !== undefined) {
+        return count;
+      }
+    } catch (error) {
+      logger.debug("Server tokenization failed, using fallback estimation", {
+        provider: this.providerId,
+        model: descriptor.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return super.countTokens(messages, descriptor, spec);
+  }
+
+  /**
+   * List models available on the server.
+   */
+  protected abstract listLocalModels(): Promise<LocalModelInfo[]>;
+
+  /**
+   * Tokenize text with the given model on the server.
+   * @returns Token count, or undefined when the server cannot tokenize
+   */
+  protected abstract tokenize(model: string, text: string): Promise<number | undefined>;
+
+  /**
+   * Call a native (non-OpenAI) JSON endpoint on the server.
+   *
+   * @param path - Path relative to the server root (e.g., "/api/tags")
+   * @param body - Optional JSON body; sends a POST when provided, GET otherwise
+   * @throws LocalServerHTTPError when the server responds with a non-2xx status
+   */
+  protected async requestJSON<T>(path: string, body?: unknown): Promise<T> {
+    const fetchImpl = this.config.fetch ?? fetch;
+    const headers: Record<string, string> = { ...this.getCustomHeaders() };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    const response = await fetchImpl(`${this.config.serverURL}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers,
+      ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+    });
+
+    if (!response.ok) {
+      throw new LocalServerHTTPError(this.providerId, path, response.status);
+    }
+
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Mistral Model Specifications
+ *
+ * Model data for Mistral AI's hosted models (La Plateforme), with their
+ * specifications, pricing and capabilities. Models are served from the EU.
+ *
+ * Model IDs are pinned versions, so pricing stays correct when `*-latest`
+ * aliases move to a new release.
+ *
+ * Pricing source: https://mistral.ai/pricing#api-pricing
+ * Last updated: 2025-12-20
+ */
+
+import type { ModelSpec } from "../core/model-catalog.js";
+
+export const MISTRAL_MODELS: ModelSpec[] = [
+  // Premier models
+  {
+    provider: "mistral",
+    modelId: "mistral-large-2411",
+    displayName: "Mistral Large 2.1",
+    contextWindow: 131_072,
+    maxOutputTokens: 131_072,
+    pricing: {
+      input: 2.0,
+      output: 6.0,
+    },
+    knowledgeCutoff: "2024-11",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Mistral Large",
+      releaseDate: "2024-11-18",
+      notes: "Flagship model for complex reasoning and multilingual tasks.",
+    },
+  },
+  {
+    provider: "mistral",
+    modelId: "mistral-medium-2505",
+    displayName: "Mistral Medium 3",
+    contextWindow: 131_072,
+    maxOutputTokens: 131_072,
+    pricing: {
+      input: 0.4,
+      output: 2.0,
+    },
+    knowledgeCutoff: "2025-05",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: true,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Mistral Medium",
+      releaseDate: "2025-05-07",
+      notes: "Frontier-class multimodal model at a fraction of the price.",
+    },
+  },
+  {
+    provider: "mistral",
+    modelId: "codestral-2508",
+    displayName: "Codestral",
+    contextWindow: 262_144,
+    maxOutputTokens: 262_144,
+    pricing: {
+      input: 0.3,
+      output: 0.9,
+    },
+    knowledgeCutoff: "2025-08",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Codestral",
+      releaseDate: "2025-07-30",
+      notes: "Coding model with fill-in-the-middle support.",
+    },
+  },
+  {
+    provider: "mistral",
+    modelId: "pixtral-large-2411",
+    displayName: "Pixtral Large",
+    contextWindow: 131_072,
+    maxOutputTokens: 131_072,
+    pricing: {
+      input: 2.0,
+      output: 6.0,
+    },
+    knowledgeCutoff: "2024-11",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: true,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Pixtral",
+      releaseDate: "2024-11-18",
+      notes: "Multimodal model built on Mistral Large 2.",
+    },
+  },
+
+  // Small models
+  {
+    provider: "mistral",
+    modelId: "mistral-small-2506",
+    displayName: "Mistral Small 3.2",
+    contextWindow: 131_072,
+    maxOutputTokens: 131_072,
+    pricing: {
+      input: 0.1,
+      output: 0.3,
+    },
+    knowledgeCutoff: "2025-06",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: true,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Mistral Small",
+      releaseDate: "2025-06-20",
+      notes: "Fast, low-cost multimodal model. Good default for subagents.",
+    },
+  },
+  {
+    provider: "mistral",
+    modelId: "ministral-8b-2410",
+    displayName: "Ministral 8B",
+    contextWindow: 131_072,
+    maxOutputTokens: 131_072,
+    pricing: {
+      input: 0.1,
+      output: 0.1,
+    },
+    knowledgeCutoff: "2024-10",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Ministral",
+      releaseDate: "2024-10-16",
+      notes: "Edge model for low-latency, high-volume tasks.",
+    },
+  },
+  {
+    provider: "mistral",
+    modelId: "ministral-3b-2410",
+    displayName: "Ministral 3B",
+    contextWindow: 131_072,
+    maxOutputTokens: 131_072,
+    pricing: {
+      input: 0.04,
+      output: 0.04,
+    },
+    knowledgeCutoff: "2024-10",
+    features: {
+      streaming: true,
+      functionCalling: true,
+      vision: false,
+      structuredOutputs: true,
+    },
+    metadata: {
+      family: "Ministral",
+      releaseDate: "2024-10-16",
+      notes: "Smallest Mistral model, for classification and routing.",
+    },
+  },
+];
@@ -0,0 +1,70 @@
+import OpenAI from "openai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LLMStreamChunk } from "../core/options.js";
+import { createMistralProviderFromEnv, MistralProvider } from "./mistral.js";
+import { MISTRAL_MODELS } from "./mistral-models.js";
+
+function createFetchStub(headers: Record<string, string> = {}) {
+  const chunk = {
+    choices: [{ index: 0, delta: { content: "Bonjour" }, finish_reason: "stop" }],
+    usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 },
+  };
+  return vi.fn(
+    async (_input: string | URL | Request, _init?: RequestInit) =>
+      new Response(`data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`, {
+        status: 200,
+        headers: { "Content-Type": "text/event-stream", ...headers },
+      }),
+  );
+}
+
+describe("MistralProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("omits stream_options and reports token quotas", async () => {
+    const fetchStub = createFetchStub({
+      "x-ratelimit-limit-tokens-minute": "500000",
+      "x-ratelimit-remaining-tokens-minute": "499994",
+      "x-ratelimit-limit-tokens-month": "1000000000",
+      "x-ratelimit-remaining-tokens-month": "999999994",
+    });
+    const provider = new MistralProvider(
+      new OpenAI({ apiKey: "test", baseURL: "http://localhost/v1", fetch: fetchStub }),
+    );
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of provider.stream(
+      { model: "mistral-small-2506", messages: [{ role: "user", content: "Salut" }] },
+      { provider: "mistral", name: "mistral-small-2506" },
+    )) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks[0].rateLimits).toEqual({ tokens: { limit: 500_000, remaining: 499_994 } });
+    expect(chunks.map((chunk) => chunk.text).join("")).toBe("Bonjour");
+    expect(chunks.at(-1)?.usage).toMatchObject({ inputTokens: 4, outputTokens: 2 });
+
+    const body = JSON.parse(fetchStub.mock.calls[0][1]?.body as string);
+    expect(body).not.toHaveProperty("stream_options");
+    expect(body).toMatchObject({ model: "mistral-small-2506", stream: true });
+  });
+
+  it("catalogs pinned Mistral models with pricing", () => {
+    expect(MISTRAL_MODELS.every((spec) => spec.provider === "mistral")).toBe(true);
+    expect(MISTRAL_MODELS.every((spec) => !spec.modelId.endsWith("-latest"))).toBe(true);
+    for (const spec of MISTRAL_MODELS) {
+      expect(spec.maxOutputTokens).toBeLessThanOrEqual(spec.contextWindow);
+      expect(spec.pricing.output).toBeGreaterThanOrEqual(spec.pricing.input);
+    }
+  });
+
+  it("is created from MISTRAL_API_KEY", () => {
+    vi.stubEnv("MISTRAL_API_KEY", "");
+    expect(createMistralProviderFromEnv()).toBeNull();
+
+    vi.stubEnv("MISTRAL_API_KEY", "test");
+    expect(createMistralProviderFromEnv()?.providerId).toBe("mistral");
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Mistral AI Provider Adapter
+ *
+ * Runs Mistral's hosted models (La Plateforme). Requests are processed in
+ * the EU, which makes Mistral the provider of choice for EU data residency.
+ * The chat completions API is OpenAI-compatible.
+ *
+ * Environment variables:
+ * - MISTRAL_API_KEY (required) - Your Mistral API key
+ *
+ * Model naming format: pinned Mistral model ID. `-latest` aliases work too,
+ * but are not in the catalog, so their cost is not tracked.
+ * Examples:
+ * - mistral:mistral-large-2411
+ * - mistral:mistral-small-2506
+ *
+ * Rate limit headers are reported to proactive throttling
+ * (see `RateLimitTracker.recordServerLimits`).
+ *
+ * @see https://docs.mistral.ai/api/
+ */
+
+import type OpenAI from "openai";
+import type { LLMMessage } from "../core/messages.js";
+import type { ModelSpec } from "../core/model-catalog.js";
+import type { LLMGenerationOptions, ModelDescriptor } from "../core/options.js";
+import { MISTRAL_MODELS } from "./mistral-models.js";
+import {
+  createOpenAICompatibleProviderFromEnv,
+  type OpenAICompatibleConfig,
+  OpenAICompatibleProvider,
+} from "./openai-compatible-provider.js";
+
+export class MistralProvider extends OpenAICompatibleProvider {
+  readonly providerId = "mistral" as const;
+  protected readonly readsRateLimitHeaders = true;
+
+  constructor(client: OpenAI, config: OpenAICompatibleConfig = {}) {
+    super(client, config);
+  }
+
+  getModelSpecs(): ModelSpec[] {
+    return MISTRAL_MODELS;
+  }
+
+  /**
+   * Mistral reports usage on the final chunk unprompted and rejects the
+   * OpenAI-only `stream_options` parameter.
+   */
+  protected buildApiRequest(
+    options: LLMGenerationOptions,
+    descriptor: ModelDescriptor,
+    spec: ModelSpec | undefined,
+    messages: LLMMessage[],
+  ): Parameters<OpenAI["chat"]["completions"]["create"]>[0] {
+    const request = super.buildApiRequest(options, descriptor, spec, messages);
+    const { stream_options: _streamOptions, ...rest } = request as unknown as Record<
+      string,
+      unknown
+    >;
+    return rest as unknown as Parameters<OpenAI["chat"]["completions"]["create"]>[0];
+  }
+}
+
+export function createMistralProviderFromEnv(): MistralProvider | null {
+  return createOpenAICompatibleProviderFromEnv(
+    "MISTRAL_API_KEY",
+    "https://api.mistral.ai/v1",
+    MistralProvider,
+    () => ({}),
+  );
+}
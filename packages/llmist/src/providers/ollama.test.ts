@@ -0,0 +1,202 @@
+import type OpenAI from "openai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LLMMessage } from "../core/messages.js";
+import { createOllamaProviderFromEnv, OllamaProvider } from "./ollama.js";
+
+/**
+ * Build a fetch stub that serves JSON responses keyed by request path.
+ * Paths without a route respond with 404.
+ */
+function createFetchStub(routes: Record<string, unknown>) {
+  return vi.fn(async (input: string | URL | Request, _init?: RequestInit) => {
+    const path = new URL(String(input)).pathname;
+    if (!(path in routes)) {
+      return new Response("not found", { status: 404 });
+    }
+    return new Response(JSON.stringify(routes[path]), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  });
+}
+
+const mockClient = {} as OpenAI;
+const serverURL = "http://localhost:11434";
+
+/** Protected members exercised directly by these tests. */
+interface ProviderInternals {
+  client: OpenAI;
+  config: { serverURL: string };
+  enhanceError(error: unknown): Error;
+}
+
+function internals(provider: OllamaProvider | null): ProviderInternals {
+  return provider as unknown as ProviderInternals;
+}
+
+describe("OllamaProvider", () => {
+  describe("supports", () => {
+    it("should support the 'ollama' provider", () => {
+      const provider = new OllamaProvider(mockClient, { serverURL });
+      expect(provider.supports({ provider: "ollama", name: "llama3.1:8b" })).toBe(true);
+      expect(provider.supports({ provider: "openai", name: "gpt-4o" })).toBe(false);
+    });
+  });
+
+  describe("discoverModelSpecs", () => {
+    it("should list pulled models with zero pricing and context length from /api/show", async () => {
+      const fetchStub = createFetchStub({
+        "/api/tags": {
+          models: [
+            { name: "llama3.1:8b", details: { family: "llama", parameter_size: "8.0B" } },
+            { name: "qwen2.5-coder:32b", details: { family: "qwen2" } },
+          ],
+        },
+        "/api/show": { model_info: { "llama.context_length": 131072 } },
+      });
+      const provider = new OllamaProvider(mockClient, { serverURL, fetch: fetchStub });
+
+      const specs = await provider.discoverModelSpecs();
+
+      expect(specs.map((spec) => spec.modelId)).toEqual(["llama3.1:8b", "qwen2.5-coder:32b"]);
+      expect(specs[0]).toMatchObject({
+        provider: "ollama",
+        contextWindow: 131072,
+        pricing: { input: 0, output: 0 },
+        metadata: { family: "llama" },
+      });
+      expect(provider.getModelSpecs()).toEqual(specs);
+      expect(fetchStub).toHaveBeenCalledWith(
+        "http://localhost:11434/api/show",
+        expect.objectContaining({ method: "POST", body: JSON.stringify({ model: "llama3.1:8b" }) }),
+      );
+    });
+
+    it("should use the default context window when /api/show is unavailable", async () => {
+      const fetchStub = createFetchStub({ "/api/tags": { models: [{ name: "phi3" }] } });
+      const provider = new OllamaProvider(mockClient, {
+        serverURL,
+        fetch: fetchStub,
+        defaultContextWindow: 4096,
+      });
+
+      const [spec] = await provider.discoverModelSpecs();
+
+      expect(spec.contextWindow).toBe(4096);
+    });
+
+    it("should reject when the server is unreachable", async () => {
+      const fetchStub = vi.fn().mockRejectedValue(new Error("connect ECONNREFUSED"));
+      const provider = new OllamaProvider(mockClient, { serverURL, fetch: fetchStub });
+
+      await expect(provider.discoverModelSpecs()).rejects.toThrow("ECONNREFUSED");
+      expect(provider.getModelSpecs()).toEqual([]);
+    });
+  });
+
+  describe("countTokens", () => {
+    const messages: LLMMessage[] = [
+      { role: "system", content: "You are helpful." },
+      { role: "user", content: "Hello there" },
+    ];
+
+    it("should count tokens through /api/tokenize", async () => {
+      const fetchStub = createFetchStub({ "/api/tokenize": { tokens: [1, 2, 3, 4, 5, 6, 7] } });
+      const provider = new OllamaProvider(mockClient, { serverURL, fetch: fetchStub });
+
+      const count = await provider.countTokens(messages, {
+        provider: "ollama",
+        name: "llama3.1:8b",
+      });
+
+      expect(count).toBe(7);
+      const [, init] = fetchStub.mock.calls[0];
+      expect(JSON.parse(String(init?.body))).toEqual({
+        model: "llama3.1:8b",
+        content: "You are helpful.\nHello there",
+      });
+    });
+
+    it("should fall back to local estimation and stop asking when tokenize is missing", async () => {
+      const fetchStub = createFetchStub({});
+      const provider = new OllamaProvider(mockClient, { serverURL, fetch: fetchStub });
+      const descriptor = { provider: "ollama", name: "llama3.1:8b" };
+
+      const first = await provider.countTokens(messages, descriptor);
+      const second = await provider.countTokens(messages, descriptor);
+
+      expect(first).toBeGreaterThan(0);
+      expect(second).toBe(first);
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep asking after a tokenize failure other than 404", async () => {
+      const fetchStub = vi
+        .fn<(input: string | URL | Request, init?: RequestInit) => Promise<Response>>()
+        .mockResolvedValueOnce(new Response("overloaded", { status: 503 }))
+        .mockResolvedValueOnce(Response.json({ tokens: [1, 2, 3] }));
+      const provider = new OllamaProvider(mockClient, { serverURL, fetch: fetchStub });
+      const descriptor = { provider: "ollama", name: "llama3.1:8b" };
+
+      const first = await provider.countTokens(messages, descriptor);
+      const second = await provider.countTokens(messages, descriptor);
+
+      expect(first).toBeGreaterThan(0);
+      expect(second).toBe(3);
+      expect(fetchStub).toHaveBeenCalledTimes(2);
+    });
+
+    it("should return 0 for empty messages without calling the server", async () => {
+      const fetchStub = createFetchStub({});
+      const provider = new OllamaProvider(mockClient, { serverURL, fetch: fetchStub });
+
+      expect(await provider.countTokens([], { provider: "ollama", name: "llama3.1:8b" })).toBe(0);
+      expect(fetchStub).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("enhanceError", () => {
+    it("should explain connection failures", () => {
+      const provider = new OllamaProvider(mockClient, { serverURL });
+      const error = internals(provider).enhanceError(new Error("Connection error."));
+      expect(error.message).toContain("ollama serve");
+    });
+
+    it("should suggest pulling missing models", () => {
+      const provider = new OllamaProvider(mockClient, { serverURL });
+      const error = internals(provider).enhanceError(new Error("404 model 'x' not found"));
+      expect(error.message).toContain("ollama pull");
+    });
+  });
+});
+
+describe("createOllamaProviderFromEnv", () => {
+  const originalHost = process.env.OLLAMA_HOST;
+
+  beforeEach(() => {
+    delete process.env.OLLAMA_HOST;
+  });
+
+  afterEach(() => {
+    if (originalHost !== undefined) {
+      process.env.OLLAMA_HOST = originalHost;
+    } else {
+      delete process.env.OLLAMA_HOST;
+    }
+  });
+
+  it("should return null when OLLAMA_HOST is not set", () => {
+    expect(createOllamaProviderFromEnv()).toBeNull();
+  });
+
+  it("should accept a bare host:port and point the client at /v1", () => {
+    process.env.OLLAMA_HOST = "127.0.0.1:11434";
+
+    const provider = createOllamaProviderFromEnv();
+
+    expect(provider).toBeInstanceOf(OllamaProvider);
+    const { client, config } = internals(provider);
+    expect(client.baseURL).toBe("http://127.0.0.1:11434/v1");
+    expect(config.serverURL).toBe("http://127.0.0.1:11434");
+  });
+});
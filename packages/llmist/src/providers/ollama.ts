@@ -0,0 +1,176 @@
+/**
+ * Ollama Provider Adapter
+ *
+ * Runs agents against models hosted on a local (or LAN) Ollama server.
+ * Chat streaming uses Ollama's OpenAI-compatible `/v1/chat/completions`
+ * endpoint; model discovery and token counting use the native `/api/*` API.
+ *
+ * Environment variables:
+ * - OLLAMA_HOST (required) - Server address, e.g. "127.0.0.1:11434" or "http://gpu-box:11434"
+ *
+ * Model naming format: the Ollama model tag, including its variant.
+ * Examples:
+ * - ollama:llama3.1:8b
+ * - ollama:qwen2.5-coder:32b
+ *
+ * @see https://github.com/ollama/ollama/blob/main/docs/api.md
+ */
+
+import OpenAI from "openai";
+import {
+  type LocalModelInfo,
+  LocalOpenAICompatibleProvider,
+  type LocalProviderConfig,
+  LocalServerHTTPError,
+  normalizeServerURL,
+} from "./local-provider.js";
+import { isNonEmpty, readEnvVar } from "./utils.js";
+
+/** Response shape of `GET /api/tags`. */
+interface OllamaTagsResponse {
+  models?: Array<{
+    name: string;
+    details?: { family?: string; parameter_size?: string };
+  }>;
+}
+
+/** Response shape of `POST /api/show` (only the fields we read). */
+interface OllamaShowResponse {
+  model_info?: Record<string, unknown>;
+}
+
+/** Response shape of `POST /api/tokenize`. */
+interface OllamaTokenizeResponse {
+  tokens?: number[];
+}
+
+/**
+ * Configuration for Ollama provider.
+ */
+export interface OllamaConfig extends LocalProviderConfig {}
+
+export class OllamaProvider extends LocalOpenAICompatibleProvider<OllamaConfig> {
+  readonly providerId = "ollama" as const;
+
+  /** Set once the server reports that it has no tokenize endpoint. */
+  private tokenizeUnsupported = false;
+
+  /**
+   * List pulled models via `/api/tags`, reading each model's context
+   * length from `/api/show` when available.
+   */
+  protected async listLocalModels(): Promise<LocalModelInfo[]> {
+    const tags = await this.requestJSON<OllamaTagsResponse>("/api/tags");
+
+    return Promise.all(
+      (tags.models ?? []).map(async (model) => ({
+        id: model.name,
+        family: model.details?.family,
+        parameterSize: model.details?.parameter_size,
+        contextWindow: await this.readContextLength(model.name),
+      })),
+    );
+  }
+
+  /**
+   * Tokenize via `/api/tokenize`.
+   *
+   * Ollama builds without this endpoint respond with 404; after that the
+   * provider stops asking and counts are estimated locally. Other failures
+   * only fall back for the current count.
+   */
+  protected async tokenize(model: string, text: string): Promise<number | undefined> {
+    if (this.tokenizeUnsupported) {
+      return undefined;
+    }
+
+    try {
+      const response = await this.requestJSON<OllamaTokenizeResponse>("/api/tokenize", {
+        model,
+        content: text,
+      });
+      return response.tokens?.length;
+    } catch (error) {
+      if (error instanceof LocalServerHTTPError && error.status === 404) {
+        this.tokenizeUnsupported = true;
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Enhance error messages with Ollama-specific guidance.
+   */
+  protected enhanceError(error: unknown): Error {
+    if (!(error instanceof Error)) {
+      return new Error(String(error));
+    }
+
+    const message = error.message.toLowerCase();
+
+    if (message.includes("econnrefused") || message.includes("connection error")) {
+      return new Error(
+        `Ollama: Cannot reach server at ${this.config.serverURL}. ` +
+          `Check that 'ollama serve' is running and OLLAMA_HOST is correct.\n` +
+          `Original error: ${error.message}`,
+      );
+    }
+
+    if (message.includes("404") || message.includes("not found")) {
+      return new Error(
+        `Ollama: Model not found. Pull it first with 'ollama pull <model>'.\n` +
+          `Original error: ${error.message}`,
+      );
+    }
+
+    return error;
+  }
+
+  private async readContextLength(model: string): Promise<number | undefined> {
+    try {
+      const show = await this.requestJSON<OllamaShowResponse>("/api/show", { model });
+      for (const [key, value] of Object.entries(show.model_info ?? {})) {
+        if (key.endsWith(".context_length") && typeof value === "number") {
+          return value;
+        }
+      }
+    } catch {
+      // Older servers or restricted models - fall back to the default context window
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Create an Ollama provider from environment variables.
+ *
+ * Environment variables:
+ * - OLLAMA_HOST (required) - Server address; a missing scheme defaults to http://
+ *
+ * @returns OllamaProvider instance or null if OLLAMA_HOST is not set
+ *
+ * @example
+ * ```bash
+ * export OLLAMA_HOST="127.0.0.1:11434"
+ * ```
+ */
+export function createOllamaProviderFromEnv(): OllamaProvider | null {
+  const host = readEnvVar("OLLAMA_HOST");
+
+  if (!isNonEmpty(host)) {
+    return null;
+  }
+
+  const serverURL = normalizeServerURL(host);
+
+  const client = new OpenAI({
+    // Ollama ignores the key, but the SDK requires one
+    apiKey: "ollama",
+    baseURL: `${serverURL}/v1`,
+    timeout: 600_000, // 10 minute timeout - first request may load the model into memory
+    maxRetries: 0, // Disable SDK retries - llmist handles all retries at application level
+  });
+
+  return new OllamaProvider(client, { serverURL });
+}
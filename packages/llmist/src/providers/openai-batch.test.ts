@@ -0,0 +1,221 @@
+import type OpenAI from "openai";
+import type { Batch } from "openai/resources/batches";
+import { describe, expect, it, vi } from "vitest";
+import type { BatchResultItem } from "../batch/types.js";
+import { OpenAIChatProvider } from "./openai.js";
+import {
+  getOpenAIBatchResults,
+  parseOpenAIBatchLine,
+  submitOpenAIBatch,
+  toOpenAIBatchSnapshot,
+} from "./openai-batch.js";
+
+const REF = { provider: "openai", model: "gpt-5-mini", batchId: "batch_1" };
+
+function batch(overrides: Partial<Batch> = {}): Batch {
+  return {
+    id: "batch_1",
+    object: "batch",
+    endpoint: "/v1/chat/completions",
+    input_file_id: "file_in",
+    completion_window: "24h",
+    status: "completed",
+    created_at: 1_767_225_600,
+    completed_at: 1_767_229_200,
+    request_counts: { total: 3, completed: 2, failed: 1 },
+    output_file_id: "file_out",
+    error_file_id: "file_err",
+    ...overrides,
+  } as Batch;
+}
+
+function completionLine(id: string, text: string) {
+  return {
+    custom_id: id,
+    response: {
+      status_code: 200,
+      body: {
+        id: `chatcmpl-${id}`,
+        object: "chat.completion",
+        created: 0,
+        model: "gpt-5-mini",
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: text, refusal: null },
+            finish_reason: "stop",
+            logprobs: null,
+          },
+        ],
+        usage: {
+          prompt_tokens: 10,
+          completion_tokens: 5,
+          total_tokens: 15,
+          prompt_tokens_details: { cached_tokens: 4 },
+        },
+      },
+    },
+    error: null,
+  };
+}
+
+function fakeClient(files: Record<string, string> = {}) {
+  return {
+    files: {
+      create: vi.fn(async () => ({ id: "file_in" })),
+      content: vi.fn(async (id: string) => ({ text: async () => files[id] ?? "" })),
+    },
+    batches: {
+      create: vi.fn(async () => batch({ status: "validating" })),
+      retrieve: vi.fn(async () => batch()),
+      cancel: vi.fn(async () => batch({ status: "cancelling" })),
+    },
+  };
+}
+
+async function drain(iterable: AsyncIterable<BatchResultItem>): Promise<BatchResultItem[]> {
+  const items: BatchResultItem[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe("submitOpenAIBatch", () => {
+  it("uploads JSONL and creates a 24h chat completions batch", async () => {
+    const client = fakeClient();
+
+    const batchId = await submitOpenAIBatch(client as unknown as OpenAI, [
+      { id: "a", body: { model: "gpt-5-mini", messages: [] } },
+      { id: "b", body: { model: "gpt-5-mini", messages: [] } },
+    ]);
+
+    expect(batchId).toBe("batch_1");
+    const [[upload]] = client.files.create.mock.calls as unknown as [
+      [{ file: File; purpose: string }],
+    ];
+    expect(upload.purpose).toBe("batch");
+    const lines = (await upload.file.text()).split("\n").map((line) => JSON.parse(line));
+    expect(lines).toEqual([
+      {
+        custom_id: "a",
+        method: "POST",
+        url: "/v1/chat/completions",
+        body: { model: "gpt-5-mini", messages: [] },
+      },
+      {
+        custom_id: "b",
+        method: "POST",
+        url: "/v1/chat/completions",
+        body: { model: "gpt-5-mini", messages: [] },
+      },
+    ]);
+    expect(client.batches.create).toHaveBeenCalledWith(
+      { input_file_id: "file_in", endpoint: "/v1/chat/completions", completion_window: "24h" },
+      undefined,
+    );
+  });
+});
+
+describe("toOpenAIBatchSnapshot", () => {
+  it("maps counts and timestamps", () => {
+    expect(toOpenAIBatchSnapshot(batch())).toEqual({
+      status: "completed",
+      counts: { total: 3, succeeded: 2, failed: 1 },
+      createdAt: "2026-01-01T00:00:00.000Z",
+      endedAt: "2026-01-01T01:00:00.000Z",
+      error: undefined,
+    });
+  });
+
+  it("surfaces validation errors", () => {
+    const snapshot = toOpenAIBatchSnapshot(
+      batch({
+        status: "failed",
+        errors: { object: "list", data: [{ message: "Invalid model" }] },
+      }),
+    );
+    expect(snapshot.status).toBe("failed");
+    expect(snapshot.error).toBe("Invalid model");
+  });
+});
+
+describe("parseOpenAIBatchLine", () => {
+  it("normalizes a successful completion", () => {
+    const item = parseOpenAIBatchLine(completionLine("a", "hello") as never);
+    expect(item).toMatchObject({
+      id: "a",
+      status: "succeeded",
+      text: "hello",
+      finishReason: "stop",
+      usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15, cachedInputTokens: 4 },
+    });
+  });
+
+  it("normalizes an error response body", () => {
+    const item = parseOpenAIBatchLine({
+      custom_id: "b",
+      response: {
+        status_code: 400,
+        body: { error: { message: "Bad request", code: "invalid_request" } },
+      },
+      error: null,
+    });
+    expect(item).toMatchObject({
+      id: "b",
+      status: "failed",
+      error: { message: "Bad request", code: "invalid_request" },
+    });
+  });
+
+  it("normalizes a line-level error", () => {
+    const item = parseOpenAIBatchLine({
+      custom_id: "c",
+      response: null,
+      error: { message: "Expired", code: "batch_expired" },
+    });
+    expect(item.error).toEqual({ message: "Expired", code: "batch_expired" });
+  });
+});
+
+describe("getOpenAIBatchResults", () => {
+  it("reads the output file then the error file", async () => {
+    const client = fakeClient({
+      file_out: `${JSON.stringify(completionLine("a", "one"))}\n${JSON.stringify(completionLine("b", "two"))}\n`,
+      file_err: JSON.stringify({ custom_id: "c", response: null, error: { message: "Expired" } }),
+    });
+
+    const items = await drain(getOpenAIBatchResults(client as unknown as OpenAI, REF));
+
+    expect(items.map((item) => [item.id, item.status])).toEqual([
+      ["a", "succeeded"],
+      ["b", "succeeded"],
+      ["c", "failed"],
+    ]);
+  });
+});
+
+describe("OpenAIChatProvider batch support", () => {
+  it("supports models with batch pricing", () => {
+    const provider = new OpenAIChatProvider(fakeClient());
+    expect(provider.supportsBatch("gpt-5-mini")).toBe(true);
+    expect(provider.supportsBatch("gpt-5-pro")).toBe(false);
+  });
+
+  it("submits Chat Completions bodies without streaming flags", async () => {
+    const client = fakeClient();
+    const provider = new OpenAIChatProvider(client);
+
+    await provider.submitBatch(
+      [{ id: "a", messages: [{ role: "user", content: "hi" }], maxTokens: 20 }],
+      { provider: "openai", name: "gpt-5-mini" },
+    );
+
+    const [[upload]] = client.files.create.mock.calls as unknown as [[{ file: File }]];
+    const line = JSON.parse(await upload.file.text());
+    expect(line.body.model).toBe("gpt-5-mini");
+    expect(line.body.messages).toEqual([{ role: "user", content: "hi" }]);
+    expect(line.body).not.toHaveProperty("stream");
+    expect(line.body).not.toHaveProperty("stream_options");
+  });
+});
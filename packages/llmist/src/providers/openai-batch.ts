@@ -0,0 +1,160 @@
+/**
+ * OpenAI Batch API client.
+ *
+ * Requests are uploaded as a JSONL file of Chat Completions bodies
+ * (`purpose: "batch"`), processed within the 24h completion window, and
+ * returned as an output file (successes) plus an error file (failures), each
+ * line keyed by `custom_id`.
+ */
+
+import type OpenAI from "openai";
+import { toFile } from "openai";
+import type { Batch } from "openai/resources/batches";
+import type { ChatCompletion } from "openai/resources/chat/completions";
+import { OPENAI_BATCH_COMPLETION_WINDOW } from "../batch/constants.js";
+import type { BatchJobRef, BatchResultItem, BatchStatusSnapshot } from "../batch/types.js";
+import type { TokenUsage } from "../core/options.js";
+
+/** Endpoint every batch line targets. */
+const OPENAI_BATCH_ENDPOINT = "/v1/chat/completions";
+
+/** One line of an OpenAI batch output or error file. */
+interface OpenAIBatchOutputLine {
+  custom_id: string;
+  response: {
+    status_code: number;
+    body: ChatCompletion | { error?: { message?: string; code?: string } };
+  } | null;
+  error: { message?: string; code?: string } | null;
+}
+
+/** Converts a unix timestamp in seconds to ISO, when set. */
+function toIsoTime(seconds: number | undefined): string | undefined {
+  return seconds === undefined ? undefined : new Date(seconds * 1000).toISOString();
+}
+
+/** Extracts llmist token usage from a Chat Completions response. */
+function toTokenUsage(usage: ChatCompletion["usage"]): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+    cachedInputTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens,
+  };
+}
+
+/**
+ * Uploads the request bodies and creates the batch.
+ *
+ * @param bodies - Chat Completions request bodies keyed by request id
+ * @returns The batch id
+ */
+export async function submitOpenAIBatch(
+  client: OpenAI,
+  bodies: Array<{ id: string; body: Record<string, unknown> }>,
+  signal?: AbortSignal,
+): Promise<string> {
+  const jsonl = bodies
+    .map(({ id, body }) =>
+      JSON.stringify({ custom_id: id, method: "POST", url: OPENAI_BATCH_ENDPOINT, body }),
+    )
+    .join("\n");
+  const requestOptions = signal ? { signal } : undefined;
+
+  const file = await client.files.create(
+    {
+      file: await toFile(Buffer.from(jsonl), "batch.jsonl", { type: "application/jsonl" }),
+      purpose: "batch",
+    },
+    requestOptions,
+  );
+  const batch = await client.batches.create(
+    {
+      input_file_id: file.id,
+      endpoint: OPENAI_BATCH_ENDPOINT,
+      completion_window: OPENAI_BATCH_COMPLETION_WINDOW,
+    },
+    requestOptions,
+  );
+  return batch.id;
+}
+
+/** Maps an OpenAI batch object to a status snapshot (statuses map one-to-one). */
+export function toOpenAIBatchSnapshot(batch: Batch): BatchStatusSnapshot {
+  const counts = batch.request_counts;
+  return {
+    status: batch.status,
+    counts: counts
+      ? { total: counts.total, succeeded: counts.completed, failed: counts.failed }
+      : undefined,
+    createdAt: toIsoTime(batch.created_at),
+    endedAt: toIsoTime(
+      batch.completed_at ?? batch.failed_at ?? batch.expired_at ?? batch.cancelled_at,
+    ),
+    error: batch.errors?.data?.[0]?.message,
+  };
+}
+
+export async function getOpenAIBatchStatus(
+  client: OpenAI,
+  ref: BatchJobRef,
+): Promise<BatchStatusSnapshot> {
+  return toOpenAIBatchSnapshot(await client.batches.retrieve(ref.batchId));
+}
+
+/** Normalizes one output/error file line. */
+export function parseOpenAIBatchLine(line: OpenAIBatchOutputLine): BatchResultItem {
+  const response = line.response;
+  if (response && response.status_code === 200 && "choices" in response.body) {
+    const completion = response.body;
+    const choice = completion.choices[0];
+    return {
+      id: line.custom_id,
+      status: "succeeded",
+      text: choice?.message.content ?? "",
+      finishReason: choice?.finish_reason,
+      usage: toTokenUsage(completion.usage),
+      raw: line,
+    };
+  }
+
+  const bodyError = response && !("choices" in response.body) ? response.body.error : undefined;
+  const error = line.error ?? bodyError;
+  return {
+    id: line.custom_id,
+    status: "failed",
+    text: "",
+    error: {
+      message: error?.message ?? `Request failed with status ${response?.status_code ?? "unknown"}`,
+      code: error?.code,
+    },
+    raw: line,
+  };
+}
+
+/** Streams results from the output file, then failures from the error file. */
+export async function* getOpenAIBatchResults(
+  client: OpenAI,
+  ref: BatchJobRef,
+): AsyncGenerator<BatchResultItem> {
+  const batch = await client.batches.retrieve(ref.batchId);
+  for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+    if (!fileId) {
+      continue;
+    }
+    const content = await (await client.files.content(fileId)).text();
+    for (const line of content.split("\n")) {
+      if (line.trim()) {
+        yield parseOpenAIBatchLine(JSON.parse(line) as OpenAIBatchOutputLine);
+      }
+    }
+  }
+}
+
+export async function cancelOpenAIBatch(client: OpenAI, ref: BatchJobRef): Promise<void> {
+  await client.batches.cancel(ref.batchId);
+}
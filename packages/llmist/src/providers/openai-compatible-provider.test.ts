@@ -1,11 +1,13 @@
 import type OpenAI from "openai";
-import type { ChatCompletionChunk } from "openai/resources/chat/completions";
-import { get_encoding } from "tiktoken";
+import type {
+  ChatCompletionChunk,
+  ChatCompletionCreateParams,
+} from "openai/resources/chat/completions";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { ContentPart, ImageContentPart } from "../core/input-content.js";
 import type { LLMMessage } from "../core/messages.js";
 import type { ModelSpec } from "../core/model-catalog.js";
-import type { ModelDescriptor } from "../core/options.js";
+import type { LLMGenerationOptions, ModelDescriptor } from "../core/options.js";
 import { FALLBACK_CHARS_PER_TOKEN } from "./constants.js";
 import {
   createOpenAICompatibleProviderFromEnv,
@@ -45,6 +47,15 @@ class TestOpenAICompatibleProvider extends OpenAICompatibleProvider<OpenAICompat
   }
 }
 
+interface ProviderInternals {
+  buildApiRequest(
+    options: LLMGenerationOptions,
+    descriptor: ModelDescriptor,
+    spec: undefined,
+    messages: LLMMessage[],
+  ): ChatCompletionCreateParams;
+}
+
 /**
  * A provider without an alias — used to test alias-less behaviour.
  */
@@ -492,6 +503,43 @@ describe("OpenAICompatibleProvider", () => {
       const headers = (provider as any).getCustomHeaders();
       expect(headers).toEqual({ "X-Custom": "value" });
     });
+
+    it("should map json_schema response format to response_format", () => {
+      const provider = new TestOpenAICompatibleProvider(mockClient, {});
+      const messages: LLMMessage[] = [{ role: "user", content: "Hi" }];
+      const descriptor: ModelDescriptor = { provider: "testprovider", name: "my-model" };
+      const schema = { type: "object", properties: { ok: { type: "boolean" } } };
+
+      const request = (provider as unknown as ProviderInternals).buildApiRequest(
+        {
+          model: "testprovider:my-model",
+          messages,
+          responseFormat: { type: "json_schema", schema },
+        },
+        descriptor,
+        undefined,
+        messages,
+      );
+      expect(request.response_format).toEqual({
+        type: "json_schema",
+        json_schema: { name: "response", schema, strict: false },
+      });
+    });
+  });
+
+  describe("supportsStructuredOutput()", () => {
+    const descriptor: ModelDescriptor = { provider: "testprovider", name: "my-model" };
+
+    it("should only report support when the model spec declares it", () => {
+      const provider = new TestOpenAICompatibleProvider(mockClient, {});
+      const spec = { features: { structuredOutputs: true } } as ModelSpec;
+
+      expect(provider.supportsStructuredOutput(descriptor, spec)).toBe(true);
+      expect(provider.supportsStructuredOutput(descriptor, { features: {} } as ModelSpec)).toBe(
+        false,
+      );
+      expect(provider.supportsStructuredOutput(descriptor)).toBe(false);
+    });
   });
 
   // --------------------------------------------------------------------------
@@ -766,6 +814,29 @@ describe("OpenAICompatibleProvider", () => {
   describe("countTokens()", () => {
     const descriptor: ModelDescriptor = { provider: "testprovider", name: "test-model" };
 
+    /**
+     * Provider from fresh modules whose first tiktoken load throws, since
+     * loaded encodings are cached for the life of the module.
+     */
+    async function createProviderWithoutTiktoken() {
+      vi.resetModules();
+      const tiktoken = await import("tiktoken");
+      vi.mocked(tiktoken.get_encoding).mockImplementationOnce(() => {
+        throw new Error("tiktoken unavailable in this environment");
+      });
+      const fresh = await import("./openai-compatible-provider.js");
+
+      class FreshTestProvider extends fresh.OpenAICompatibleProvider<OpenAICompatibleConfig> {
+        readonly providerId = "testprovider" as const;
+
+        getModelSpecs(): ModelSpec[] {
+          return [];
+        }
+      }
+
+      return new FreshTestProvider(mockClient, {});
+    }
+
     it("should use tiktoken o200k_base encoding for text", async () => {
       const provider = new TestOpenAICompatibleProvider(mockClient, {});
       const messages: LLMMessage[] = [
@@ -814,7 +885,7 @@ describe("OpenAICompatibleProvider", () => {
       expect(count).toBe(0);
     });
 
-    it("should ignore image parts in token count", async () => {
+    it("should count image parts at a flat per-image rate", async () => {
       const provider = new TestOpenAICompatibleProvider(mockClient, {});
       const textOnly: LLMMessage[] = [{ role: "user", content: "Describe: " }];
       const withImage: LLMMessage[] = [
@@ -832,8 +903,8 @@ describe("OpenAICompatibleProvider", () => {
 
       const textCount = await provider.countTokens(textOnly, descriptor);
       const imageCount = await provider.countTokens(withImage, descriptor);
-      // Image parts should not add to the text token count
-      expect(imageCount).toBe(textCount);
+      // o200k_base counts each image at the low-detail rate
+      expect(imageCount).toBe(textCount + 765);
     });
 
     it("should produce more accurate counts than old chars/4 estimate for JSON-heavy content", async () => {
@@ -857,12 +928,7 @@ describe("OpenAICompatibleProvider", () => {
     });
 
     it("should fall back to char-based estimation when tiktoken throws", async () => {
-      // Make get_encoding throw for this one call only
-      vi.mocked(get_encoding).mockImplementationOnce(() => {
-        throw new Error("tiktoken unavailable in this environment");
-      });
-
-      const provider = new TestOpenAICompatibleProvider(mockClient, {});
+      const provider = await createProviderWithoutTiktoken();
       // "Hello world" = 11 chars → ceil(11 / FALLBACK_CHARS_PER_TOKEN)
       const text = "Hello world";
       const messages: LLMMessage[] = [{ role: "user", content: text }];
@@ -872,11 +938,7 @@ describe("OpenAICompatibleProvider", () => {
     });
 
     it("should sum chars across multiple messages in the fallback path", async () => {
-      vi.mocked(get_encoding).mockImplementationOnce(() => {
-        throw new Error("tiktoken unavailable");
-      });
-
-      const provider = new TestOpenAICompatibleProvider(mockClient, {});
+      const provider = await createProviderWithoutTiktoken();
       const messages: LLMMessage[] = [
         { role: "user", content: "Hello" }, // 5 chars
         { role: "assistant", content: "World!" }, // 6 chars
@@ -887,12 +949,8 @@ describe("OpenAICompatibleProvider", () => {
       expect(count).toBe(Math.ceil(11 / FALLBACK_CHARS_PER_TOKEN));
     });
 
-    it("should ignore image parts in the fallback path", async () => {
-      vi.mocked(get_encoding).mockImplementationOnce(() => {
-        throw new Error("tiktoken unavailable");
-      });
-
-      const provider = new TestOpenAICompatibleProvider(mockClient, {});
+    it("should still count image parts in the fallback path", async () => {
+      const provider = await createProviderWithoutTiktoken();
       const text = "Describe this";
       const messages: LLMMessage[] = [
         {
@@ -908,7 +966,7 @@ describe("OpenAICompatibleProvider", () => {
       ];
 
       const count = await provider.countTokens(messages, descriptor);
-      expect(count).toBe(Math.ceil(text.length / FALLBACK_CHARS_PER_TOKEN));
+      expect(count).toBe(Math.ceil(text.length / FALLBACK_CHARS_PER_TOKEN) + 765);
     });
   });
 
@@ -22,6 +22,7 @@
  * - getCustomHeaders() for provider-specific headers
  * - enhanceError() for provider-specific error messages
  * - buildProviderSpecificParams() for provider-specific request options
+ * - readsRateLimitHeaders to report server quotas from `x-ratelimit-*` headers
  */
 
 import OpenAI from "openai";
@@ -30,14 +31,21 @@ import type {
   ChatCompletionContentPart,
   ChatCompletionMessageParam,
 } from "openai/resources/chat/completions";
-import { get_encoding } from "tiktoken";
 import type { ContentPart, ImageContentPart } from "../core/input-content.js";
 import type { LLMMessage, MessageContent } from "../core/messages.js";
-import { extractMessageText, normalizeMessageContent } from "../core/messages.js";
+import { extractMessageText } from "../core/messages.js";
 import type { ModelSpec } from "../core/model-catalog.js";
 import type { LLMGenerationOptions, LLMStream, ModelDescriptor } from "../core/options.js";
+import type { ServerRateLimits } from "../core/rate-limit.js";
+import { countTokensLocally, resolveTokenizer } from "../core/tokenizer.js";
 import { BaseProviderAdapter } from "./base-provider.js";
-import { FALLBACK_CHARS_PER_TOKEN } from "./constants.js";
+import { parseRateLimitHeaders } from "./rate-limit-headers.js";
+import {
+  fromOpenAIToolCallDeltas,
+  toOpenAIChatMessages,
+  toOpenAIResponseFormat,
+  toOpenAITools,
+} from "./utils.js";
 
 const ROLE_MAP: Record<LLMMessage["role"], "system" | "user" | "assistant"> = {
   system: "system",
@@ -45,6 +53,9 @@ const ROLE_MAP: Record<LLMMessage["role"], "system" | "user" | "assistant"> = {
   assistant: "assistant",
 };
 
+/** Server quotas read from the response headers of each stream */
+const streamRateLimits = new WeakMap<object, ServerRateLimits>();
+
 /**
  * Base configuration for OpenAI-compatible providers.
  * Subclasses can extend this with provider-specific options.
@@ -89,6 +100,12 @@ export abstract class OpenAICompatibleProvider<
    */
   protected readonly providerAlias?: string;
 
+  /**
+   * Whether the API reports quotas in `x-ratelimit-*` response headers.
+   * When set, they are emitted as `rateLimits` on the first stream chunk.
+   */
+  protected readonly readsRateLimitHeaders: boolean = false;
+
   protected readonly config: TConfig;
 
   constructor(client: OpenAI, config: TConfig) {
@@ -113,6 +130,22 @@ export abstract class OpenAICompatibleProvider<
    */
   abstract getModelSpecs(): ModelSpec[];
 
+  /**
+   * Support for `response_format: json_schema` varies by upstream model,
+   * so it is only assumed when the model spec declares it.
+   */
+  supportsStructuredOutput(_descriptor: ModelDescriptor, spec?: ModelSpec): boolean {
+    return spec?.features.structuredOutputs === true;
+  }
+
+  /**
+   * Tool calling also varies by upstream model (and server), so it is only
+   * assumed when the model spec declares function calling.
+   */
+  supportsNativeTools(_descriptor: ModelDescriptor, spec?: ModelSpec): boolean {
+    return spec?.features.functionCalling === true;
+  }
+
   /**
    * Get custom headers to include in requests.
    * Override in subclasses for provider-specific headers.
@@ -151,12 +184,14 @@ export abstract class OpenAICompatibleProvider<
     _spec: ModelSpec | undefined,
     messages: LLMMessage[],
   ): Parameters<OpenAI["chat"]["completions"]["create"]>[0] {
-    const { maxTokens, temperature, topP, stopSequences, extra } = options;
+    const { maxTokens, temperature, topP, stopSequences, extra, responseFormat, tools } = options;
 
     // Build base request
     const request: Record<string, unknown> = {
       model: descriptor.name,
-      messages: messages.map((message) => this.convertMessage(message)),
+      messages: messages.flatMap((message) =>
+        toOpenAIChatMessages(message, (converted) => this.convertMessage(converted)),
+      ),
       stream: true,
       stream_options: { include_usage: true },
     };
@@ -174,6 +209,14 @@ export abstract class OpenAICompatibleProvider<
     if (stopSequences) {
       request.stop = stopSequences;
     }
+    const responseFormatParam = toOpenAIResponseFormat(responseFormat);
+    if (responseFormatParam) {
+      request.response_format = responseFormatParam;
+    }
+    const toolsParam = toOpenAITools(tools);
+    if (toolsParam) {
+      request.tools = toolsParam;
+    }
 
     // Add provider-specific parameters
     const providerParams = this.buildProviderSpecificParams(extra as Record<string, unknown>);
@@ -290,8 +333,11 @@ export abstract class OpenAICompatibleProvider<
   protected async executeStreamRequest(
     payload: Parameters<OpenAI["chat"]["completions"]["create"]>[0],
     signal?: AbortSignal,
+    apiKey?: string,
   ): Promise<AsyncIterable<ChatCompletionChunk>> {
-    const client = this.client as OpenAI;
+    const client = apiKey
+      ? (this.client as OpenAI).withOptions({ apiKey })
+      : (this.client as OpenAI);
 
     // Get custom headers from subclass
     const headers = this.getCustomHeaders();
@@ -305,10 +351,19 @@ export abstract class OpenAICompatibleProvider<
     }
 
     try {
-      const stream = await client.chat.completions.create(
+      const request = client.chat.completions.create(
         payload,
         Object.keys(requestOptions).length > 0 ? requestOptions : undefined,
       );
+      if (this.readsRateLimitHeaders) {
+        const { data: stream, response } = await request.withResponse();
+        const rateLimits = parseRateLimitHeaders(response.headers);
+        if (rateLimits) {
+          streamRateLimits.set(stream, rateLimits);
+        }
+        return stream as unknown as AsyncIterable<ChatCompletionChunk>;
+      }
+      const stream = await request;
       return stream as unknown as AsyncIterable<ChatCompletionChunk>;
     } catch (error) {
       // Use subclass-specific error enhancement
@@ -319,12 +374,22 @@ export abstract class OpenAICompatibleProvider<
   protected async *normalizeProviderStream(iterable: AsyncIterable<unknown>): LLMStream {
     const stream = iterable as AsyncIterable<ChatCompletionChunk>;
 
+    const rateLimits = streamRateLimits.get(stream);
+    if (rateLimits) {
+      yield { text: "", rateLimits };
+    }
+
     for await (const chunk of stream) {
       const text = chunk.choices.map((choice) => choice.delta?.content ?? "").join("");
       if (text) {
         yield { text, rawEvent: chunk };
       }
 
+      const toolCalls = fromOpenAIToolCallDeltas(chunk.choices);
+      if (toolCalls) {
+        yield { text: "", toolCalls, rawEvent: chunk };
+      }
+
       const finishReason = chunk.choices.find((choice) => choice.finish_reason)?.finish_reason;
 
       // Extract token usage if available (typically in the final chunk)
@@ -351,54 +416,22 @@ export abstract class OpenAICompatibleProvider<
   }
 
   /**
-   * Count tokens using tiktoken o200k_base encoding.
+   * Count tokens with the local tokenizer for the served model.
    *
-   * While o200k_base isn't model-exact for non-OpenAI models routed through
-   * meta-providers like OpenRouter, BPE tokenizers with 200K vocab produce
-   * counts within 10-20% of true values — far better than the character-based
-   * fallback which can be off by 250% for JSON/code-heavy content.
-   *
-   * Falls back to character-based estimation if tiktoken fails.
+   * Meta-providers like OpenRouter route to many model families, so the
+   * tokenizer comes from `spec.tokenizer` or the model name (Claude, Gemini,
+   * Llama, Mistral, ...), defaulting to tiktoken o200k_base. BPE counts land
+   * within 10-20% of true values for non-OpenAI models — far better than the
+   * character-based estimate, which can be off by 250% for JSON/code-heavy
+   * content and is only used when tiktoken fails to load.
    */
   async countTokens(
     messages: LLMMessage[],
     descriptor: ModelDescriptor,
-    _spec?: ModelSpec,
+    spec?: ModelSpec,
   ): Promise<number> {
     if (!messages || messages.length === 0) return 0;
-
-    try {
-      const encoding = get_encoding("o200k_base");
-      try {
-        let tokenCount = 0;
-        for (const msg of messages) {
-          const parts = normalizeMessageContent(msg.content);
-          for (const part of parts) {
-            if (part.type === "text") {
-              tokenCount += encoding.encode(part.text).length;
-            }
-          }
-        }
-        return tokenCount;
-      } finally {
-        encoding.free();
-      }
-    } catch (error) {
-      console.warn(
-        `Token counting with tiktoken failed for ${descriptor.name}, using fallback estimation:`,
-        error,
-      );
-      let totalChars = 0;
-      for (const msg of messages) {
-        const parts = normalizeMessageContent(msg.content);
-        for (const part of parts) {
-          if (part.type === "text") {
-            totalChars += part.text.length;
-          }
-        }
-      }
-      return Math.ceil(totalChars / FALLBACK_CHARS_PER_TOKEN);
-    }
+    return countTokensLocally(messages, resolveTokenizer(descriptor, spec));
   }
 }
 
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateOpenAIEmbeddingCost,
+  getOpenAIEmbeddingModelSpec,
+  isOpenAIEmbeddingModel,
+  openaiEmbeddingModels,
+} from "./openai-embedding-models.js";
+
+describe("openaiEmbeddingModels", () => {
+  it("has valid specifications for every model", () => {
+    for (const spec of openaiEmbeddingModels) {
+      expect(spec.provider).toBe("openai");
+      expect(spec.dimensions).toBeGreaterThan(0);
+      expect(spec.maxBatchSize).toBeGreaterThan(0);
+      expect(spec.pricing.input).toBeGreaterThan(0);
+    }
+  });
+
+  it("looks up models by ID", () => {
+    expect(getOpenAIEmbeddingModelSpec("text-embedding-3-large")?.dimensions).toBe(3072);
+    expect(isOpenAIEmbeddingModel("text-embedding-3-small")).toBe(true);
+    expect(isOpenAIEmbeddingModel("gpt-4o")).toBe(false);
+  });
+
+  it("calculates cost per 1M input tokens", () => {
+    expect(calculateOpenAIEmbeddingCost("text-embedding-3-small", 1_000_000)).toBeCloseTo(0.02);
+    expect(calculateOpenAIEmbeddingCost("text-embedding-3-large", 500_000)).toBeCloseTo(0.065);
+    expect(calculateOpenAIEmbeddingCost("unknown", 1000)).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * OpenAI Embedding Model Catalog
+ *
+ * Pricing as of December 2025:
+ * - text-embedding-3-small: $0.02 per 1M tokens
+ * - text-embedding-3-large: $0.13 per 1M tokens
+ * - text-embedding-ada-002: $0.10 per 1M tokens
+ *
+ * @see https://platform.openai.com/docs/guides/embeddings
+ */
+
+import type { EmbeddingModelSpec } from "../core/media-types.js";
+
+/**
+ * OpenAI Embedding Model Specifications
+ */
+export const openaiEmbeddingModels: EmbeddingModelSpec[] = [
+  {
+    provider: "openai",
+    modelId: "text-embedding-3-small",
+    displayName: "Text Embedding 3 Small",
+    pricing: {
+      input: 0.02,
+    },
+    dimensions: 1536,
+    maxInputTokens: 8191,
+    maxBatchSize: 2048,
+    features: {
+      customDimensions: true,
+    },
+  },
+  {
+    provider: "openai",
+    modelId: "text-embedding-3-large",
+    displayName: "Text Embedding 3 Large",
+    pricing: {
+      input: 0.13,
+    },
+    dimensions: 3072,
+    maxInputTokens: 8191,
+    maxBatchSize: 2048,
+    features: {
+      customDimensions: true,
+    },
+  },
+  {
+    provider: "openai",
+    modelId: "text-embedding-ada-002",
+    displayName: "Text Embedding Ada 002",
+    pricing: {
+      input: 0.1,
+    },
+    dimensions: 1536,
+    maxInputTokens: 8191,
+    maxBatchSize: 2048,
+    features: {
+      customDimensions: false,
+    },
+  },
+];
+
+/**
+ * Get embedding model spec by model ID.
+ */
+export function getOpenAIEmbeddingModelSpec(modelId: string): EmbeddingModelSpec | undefined {
+  return openaiEmbeddingModels.find((m) => m.modelId === modelId);
+}
+
+/**
+ * Check if a model ID is an OpenAI embedding model.
+ */
+export function isOpenAIEmbeddingModel(modelId: string): boolean {
+  return openaiEmbeddingModels.some((m) => m.modelId === modelId);
+}
+
+/**
+ * Calculate cost for an embedding request.
+ *
+ * @param modelId - The model ID
+ * @param inputTokens - Number of input tokens
+ * @returns Cost in USD, or undefined if model not found
+ */
+export function calculateOpenAIEmbeddingCost(
+  modelId: string,
+  inputTokens: number,
+): number | undefined {
+  const spec = getOpenAIEmbeddingModelSpec(modelId);
+  if (!spec) return undefined;
+
+  return (inputTokens / 1_000_000) * spec.pricing.input;
+}
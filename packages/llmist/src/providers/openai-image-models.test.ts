@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
   calculateOpenAIImageCost,
+  calculateOpenAIImageEditCost,
   DALLE2_SIZES,
   DALLE3_QUALITIES,
   DALLE3_SIZES,
@@ -235,5 +236,22 @@ describe("openaiImageModels", () => {
         });
       });
     });
+
+    describe("calculateOpenAIImageEditCost", () => {
+      it("adds the per-input-image charge to the output cost", () => {
+        const output = calculateOpenAIImageCost("gpt-image-1", "1024x1024", "medium");
+        const cost = calculateOpenAIImageEditCost("gpt-image-1", "1024x1024", "medium", 1, 2);
+        expect(cost).toBeCloseTo(output! + 2 * 0.0077);
+      });
+
+      it("charges only the output for models without input pricing", () => {
+        const cost = calculateOpenAIImageEditCost("dall-e-2", "512x512");
+        expect(cost).toBeCloseTo(0.018);
+      });
+
+      it("returns undefined for an unknown model", () => {
+        expect(calculateOpenAIImageEditCost("unknown-model", "1024x1024")).toBeUndefined();
+      });
+    });
   });
 });
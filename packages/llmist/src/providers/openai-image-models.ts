@@ -32,6 +32,12 @@
  * - 512x512: $0.018
  * - 1024x1024: $0.020
  *
+ * Edits and variations are billed like generation, plus image input tokens for
+ * each source image on GPT Image models (~765 tokens per 1024x1024 image):
+ * - GPT Image 1.5: ~$0.006 per source image ($8 per 1M image input tokens)
+ * - GPT Image 1: ~$0.0077 per source image ($10 per 1M)
+ * - GPT Image 1 Mini: ~$0.0019 per source image ($2.50 per 1M)
+ *
  * @see https://platform.openai.com/docs/guides/images
  */
 
@@ -83,6 +89,7 @@ export const openaiImageModels: ImageModelSpec[] = [
         "1536x1024": { low: 0.012, medium: 0.045, high: 0.195 },
         "1920x1080": { low: 0.016, medium: 0.06, high: 0.26 },
       },
+      perInputImage: 0.006,
     },
     supportedSizes: [...GPT_IMAGE_SIZES],
     supportedQualities: [...GPT_IMAGE_QUALITIES],
@@ -93,6 +100,8 @@ export const openaiImageModels: ImageModelSpec[] = [
       textRendering: true,
       transparency: true,
       editing: true,
+      masking: true,
+      variations: true,
     },
   },
   // GPT Image 1 Family (previous gen)
@@ -106,6 +115,7 @@ export const openaiImageModels: ImageModelSpec[] = [
         "1024x1536": { low: 0.016, medium: 0.06, high: 0.25 },
         "1536x1024": { low: 0.016, medium: 0.06, high: 0.25 },
       },
+      perInputImage: 0.0077,
     },
     supportedSizes: ["1024x1024", "1024x1536", "1536x1024"],
     supportedQualities: [...GPT_IMAGE_QUALITIES],
@@ -115,6 +125,9 @@ export const openaiImageModels: ImageModelSpec[] = [
     features: {
       textRendering: true,
       transparency: true,
+      editing: true,
+      masking: true,
+      variations: true,
     },
   },
   {
@@ -127,6 +140,7 @@ export const openaiImageModels: ImageModelSpec[] = [
         "1024x1536": { low: 0.0075, medium: 0.03, high: 0.078 },
         "1536x1024": { low: 0.0075, medium: 0.03, high: 0.078 },
       },
+      perInputImage: 0.0019,
     },
     supportedSizes: ["1024x1024", "1024x1536", "1536x1024"],
     supportedQualities: [...GPT_IMAGE_QUALITIES],
@@ -136,6 +150,9 @@ export const openaiImageModels: ImageModelSpec[] = [
     features: {
       textRendering: true,
       transparency: true,
+      editing: true,
+      masking: true,
+      variations: true,
     },
   },
   // Sora Video Generation Models
@@ -215,6 +232,11 @@ export const openaiImageModels: ImageModelSpec[] = [
     supportedSizes: [...DALLE2_SIZES],
     maxImages: 10,
     defaultSize: "1024x1024",
+    features: {
+      editing: true,
+      masking: true,
+      variations: true,
+    },
   },
 ];
 
@@ -267,3 +289,30 @@ export function calculateOpenAIImageCost(
 
   return pricePerImage * n;
 }
+
+/**
+ * Calculate cost for an image edit or variation.
+ *
+ * Output images are priced like generation; GPT Image models add the
+ * approximate input cost of each source image.
+ *
+ * @param modelId - The model ID
+ * @param size - Output image size
+ * @param quality - Quality level
+ * @param n - Number of output images
+ * @param inputImages - Number of source images sent
+ * @returns Cost in USD, or undefined if model or size not found
+ */
+export function calculateOpenAIImageEditCost(
+  modelId: string,
+  size: string,
+  quality = "standard",
+  n = 1,
+  inputImages = 1,
+): number | undefined {
+  const outputCost = calculateOpenAIImageCost(modelId, size, quality, n);
+  if (outputCost === undefined) return undefined;
+
+  const perInputImage = getOpenAIImageModelSpec(modelId)?.pricing.perInputImage ?? 0;
+  return outputCost + perInputImage * inputImages;
+}
@@ -22,6 +22,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 1.25,
       output: 10.0,
       cachedInput: 0.125,
+      batchInput: 0.625,
+      batchOutput: 5.0,
     },
     knowledgeCutoff: "2025-03-31",
     features: {
@@ -76,6 +78,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 1.25,
       output: 10.0,
       cachedInput: 0.125,
+      batchInput: 0.625,
+      batchOutput: 5.0,
     },
     knowledgeCutoff: "2024-09-30",
     features: {
@@ -155,6 +159,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 1.25,
       output: 10.0,
       cachedInput: 0.125,
+      batchInput: 0.625,
+      batchOutput: 5.0,
     },
     knowledgeCutoff: "2024-09-30",
     features: {
@@ -207,6 +213,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 0.25,
       output: 2.0,
       cachedInput: 0.025,
+      batchInput: 0.125,
+      batchOutput: 1.0,
     },
     knowledgeCutoff: "2024-06-01",
     features: {
@@ -232,6 +240,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 0.05,
       output: 0.4,
       cachedInput: 0.005,
+      batchInput: 0.025,
+      batchOutput: 0.2,
     },
     knowledgeCutoff: "2024-05-31",
     features: {
@@ -284,6 +294,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 2.0,
       output: 8.0,
       cachedInput: 0.5,
+      batchInput: 1.0,
+      batchOutput: 4.0,
     },
     knowledgeCutoff: "2024-04-01",
     features: {
@@ -308,6 +320,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 0.4,
       output: 1.6,
       cachedInput: 0.1,
+      batchInput: 0.2,
+      batchOutput: 0.8,
     },
     knowledgeCutoff: "2024-04-01",
     features: {
@@ -332,6 +346,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 0.1,
       output: 0.4,
       cachedInput: 0.025,
+      batchInput: 0.05,
+      batchOutput: 0.2,
     },
     knowledgeCutoff: "2024-04-01",
     features: {
@@ -358,6 +374,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 2.5,
       output: 10.0,
       cachedInput: 1.25,
+      batchInput: 1.25,
+      batchOutput: 5.0,
     },
     knowledgeCutoff: "2024-04-01",
     features: {
@@ -382,6 +400,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 0.15,
       output: 0.6,
       cachedInput: 0.075,
+      batchInput: 0.075,
+      batchOutput: 0.3,
     },
     knowledgeCutoff: "2024-04-01",
     features: {
@@ -408,6 +428,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 15.0,
       output: 60.0,
       cachedInput: 7.5,
+      batchInput: 7.5,
+      batchOutput: 30.0,
     },
     knowledgeCutoff: "2024-12-01",
     features: {
@@ -457,6 +479,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 2.0,
       output: 8.0,
       cachedInput: 0.5,
+      batchInput: 1.0,
+      batchOutput: 4.0,
     },
     knowledgeCutoff: "2025-01-01",
     features: {
@@ -482,6 +506,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 1.1,
       output: 4.4,
       cachedInput: 0.275,
+      batchInput: 0.55,
+      batchOutput: 2.2,
     },
     knowledgeCutoff: "2025-04-01",
     features: {
@@ -508,6 +534,8 @@ export const OPENAI_MODELS: ModelSpec[] = [
       input: 1.1,
       output: 4.4,
       cachedInput: 0.55,
+      batchInput: 0.55,
+      batchOutput: 2.2,
     },
     knowledgeCutoff: "2025-01-01",
     features: {
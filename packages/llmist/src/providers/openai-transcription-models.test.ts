@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateOpenAITranscriptionCost,
+  getOpenAITranscriptionModelSpec,
+  isOpenAITranscriptionModel,
+  openaiTranscriptionModels,
+} from "./openai-transcription-models.js";
+
+describe("openaiTranscriptionModels", () => {
+  it("has valid specifications for every model", () => {
+    for (const spec of openaiTranscriptionModels) {
+      expect(spec.provider).toBe("openai");
+      expect(spec.pricing.perMinute).toBeGreaterThan(0);
+      expect(spec.maxFileSizeBytes).toBe(25 * 1024 * 1024);
+    }
+  });
+
+  it("looks up models by ID", () => {
+    expect(getOpenAITranscriptionModelSpec("whisper-1")?.features?.wordTimestamps).toBe(true);
+    expect(isOpenAITranscriptionModel("gpt-4o-transcribe")).toBe(true);
+    expect(isOpenAITranscriptionModel("tts-1")).toBe(false);
+  });
+
+  it("calculates cost per minute of audio", () => {
+    expect(calculateOpenAITranscriptionCost("whisper-1", 600)).toBeCloseTo(0.06);
+    expect(calculateOpenAITranscriptionCost("gpt-4o-mini-transcribe", 90)).toBeCloseTo(0.0045);
+    expect(calculateOpenAITranscriptionCost("whisper-1", undefined)).toBeUndefined();
+    expect(calculateOpenAITranscriptionCost("unknown", 60)).toBeUndefined();
+  });
+});
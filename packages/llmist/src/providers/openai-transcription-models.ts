@@ -0,0 +1,101 @@
+/**
+ * OpenAI Transcription (Speech-to-Text) Model Catalog
+ *
+ * Pricing as of December 2025:
+ * - whisper-1: $0.006 per minute
+ * - gpt-4o-transcribe: ~$0.006 per minute ($6/1M audio input tokens)
+ * - gpt-4o-mini-transcribe: ~$0.003 per minute ($3/1M audio input tokens)
+ *
+ * Only whisper-1 returns timestamps (`verbose_json`); the gpt-4o models are
+ * more accurate but return text only.
+ *
+ * @see https://platform.openai.com/docs/guides/speech-to-text
+ */
+
+import type { TranscriptionModelSpec } from "../core/media-types.js";
+
+/** Maximum upload size for the transcriptions endpoint (25 MB) */
+const OPENAI_TRANSCRIPTION_MAX_BYTES = 25 * 1024 * 1024;
+
+/**
+ * OpenAI Transcription Model Specifications
+ */
+export const openaiTranscriptionModels: TranscriptionModelSpec[] = [
+  {
+    provider: "openai",
+    modelId: "whisper-1",
+    displayName: "Whisper",
+    pricing: {
+      perMinute: 0.006,
+    },
+    maxFileSizeBytes: OPENAI_TRANSCRIPTION_MAX_BYTES,
+    features: {
+      timestamps: true,
+      wordTimestamps: true,
+      prompt: true,
+    },
+  },
+  {
+    provider: "openai",
+    modelId: "gpt-4o-transcribe",
+    displayName: "GPT-4o Transcribe",
+    pricing: {
+      perMinute: 0.006,
+    },
+    maxFileSizeBytes: OPENAI_TRANSCRIPTION_MAX_BYTES,
+    features: {
+      timestamps: false,
+      wordTimestamps: false,
+      prompt: true,
+    },
+  },
+  {
+    provider: "openai",
+    modelId: "gpt-4o-mini-transcribe",
+    displayName: "GPT-4o Mini Transcribe",
+    pricing: {
+      perMinute: 0.003,
+    },
+    maxFileSizeBytes: OPENAI_TRANSCRIPTION_MAX_BYTES,
+    features: {
+      timestamps: false,
+      wordTimestamps: false,
+      prompt: true,
+    },
+  },
+];
+
+/**
+ * Get transcription model spec by model ID.
+ */
+export function getOpenAITranscriptionModelSpec(
+  modelId: string,
+): TranscriptionModelSpec | undefined {
+  return openaiTranscriptionModels.find((m) => m.modelId === modelId);
+}
+
+/**
+ * Check if a model ID is an OpenAI transcription model.
+ */
+export function isOpenAITranscriptionModel(modelId: string): boolean {
+  return openaiTranscriptionModels.some((m) => m.modelId === modelId);
+}
+
+/**
+ * Calculate cost for a transcription.
+ *
+ * @param modelId - The model ID
+ * @param durationSeconds - Duration of the audio in seconds
+ * @returns Cost in USD, or undefined if model or duration is unknown
+ */
+export function calculateOpenAITranscriptionCost(
+  modelId: string,
+  durationSeconds: number | undefined,
+): number | undefined {
+  const spec = getOpenAITranscriptionModelSpec(modelId);
+  if (!spec || spec.pricing.perMinute === undefined || durationSeconds === undefined) {
+    return undefined;
+  }
+
+  return (durationSeconds / 60) * spec.pricing.perMinute;
+}
@@ -1,9 +1,12 @@
 import type OpenAI from "openai";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { imageFromUrl, toolCall, toolResult } from "../core/input-content.js";
 import { FALLBACK_CHARS_PER_TOKEN } from "./constants.js";
 import { createOpenAIProviderFromEnv, OpenAIChatProvider } from "./openai.js";
+import { openaiEmbeddingModels } from "./openai-embedding-models.js";
 import { openaiImageModels } from "./openai-image-models.js";
 import { openaiSpeechModels } from "./openai-speech-models.js";
+import { openaiTranscriptionModels } from "./openai-transcription-models.js";
 
 describe("OpenAIChatProvider", () => {
   describe("supports", () => {
@@ -103,6 +106,31 @@ describe("OpenAIChatProvider", () => {
       );
     });
 
+    it("sends the caching key as prompt_cache_key", async () => {
+      const createSpy = vi.fn().mockResolvedValue((async function* () {})());
+      const mockClient = {
+        chat: { completions: { create: createSpy } },
+      } as unknown as OpenAI;
+      const provider = new OpenAIChatProvider(mockClient);
+      const messages = [{ role: "user" as const, content: "Test" }];
+
+      await provider
+        .stream(
+          { model: "gpt-4", messages, caching: { enabled: true, key: "session-42" } },
+          { provider: "openai", name: "gpt-4" },
+        )
+        .next();
+      await provider
+        .stream(
+          { model: "gpt-4", messages, caching: { enabled: false, key: "session-42" } },
+          { provider: "openai", name: "gpt-4" },
+        )
+        .next();
+
+      expect(createSpy.mock.calls[0][0]).toMatchObject({ prompt_cache_key: "session-42" });
+      expect(createSpy.mock.calls[1][0]).not.toHaveProperty("prompt_cache_key");
+    });
+
     it("omits temperature when the model does not support it", async () => {
       const createSpy = vi.fn().mockResolvedValue((async function* () {})());
 
@@ -316,6 +344,35 @@ describe("OpenAIChatProvider", () => {
     });
   });
 
+  describe("per-request credentials", () => {
+    it("makes the request with a client for the request's API key", async () => {
+      const ownCreate = vi.fn().mockResolvedValue((async function* () {})());
+      const tenantCreate = vi.fn().mockResolvedValue((async function* () {})());
+      const withOptions = vi.fn(() => ({ chat: { completions: { create: tenantCreate } } }));
+      const mockClient = {
+        chat: { completions: { create: ownCreate } },
+        withOptions,
+      } as unknown as OpenAI;
+
+      const provider = new OpenAIChatProvider(mockClient);
+
+      await provider
+        .stream(
+          {
+            model: "gpt-4",
+            messages: [{ role: "user" as const, content: "Test" }],
+            credentials: { openai: { apiKey: "sk-tenant" } },
+          },
+          { provider: "openai", name: "gpt-4" },
+        )
+        .next();
+
+      expect(withOptions).toHaveBeenCalledWith({ apiKey: "sk-tenant" });
+      expect(tenantCreate).toHaveBeenCalledTimes(1);
+      expect(ownCreate).not.toHaveBeenCalled();
+    });
+  });
+
   describe("countTokens", () => {
     it("counts tokens for simple messages", async () => {
       const mockClient = {} as OpenAI;
@@ -576,6 +633,53 @@ describe("OpenAIChatProvider", () => {
       );
     });
 
+    it("should send recorded tool calls and results as tool_calls and tool messages", async () => {
+      const createSpy = vi.fn().mockResolvedValue((async function* () {})());
+      const mockClient = { chat: { completions: { create: createSpy } } } as unknown as OpenAI;
+      const provider = new OpenAIChatProvider(mockClient);
+      const image = imageFromUrl("https://example.com/screenshot.png");
+
+      await provider
+        .stream(
+          {
+            model: "gpt-4o",
+            messages: [
+              {
+                role: "assistant" as const,
+                content: [toolCall("call_1", "Screenshot", { page: 1 })],
+              },
+              {
+                role: "user" as const,
+                content: [toolResult("call_1", "Screenshot", "Captured"), image],
+              },
+            ],
+          },
+          { provider: "openai", name: "gpt-4o" },
+        )
+        .next();
+
+      expect(createSpy.mock.calls[0]?.[0].messages).toEqual([
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "Screenshot", arguments: '{"page":1}' },
+            },
+          ],
+        },
+        { role: "tool", tool_call_id: "call_1", content: "Captured" },
+        {
+          role: "user",
+          content: [
+            { type: "image_url", image_url: { url: "https://example.com/screenshot.png" } },
+          ],
+        },
+      ]);
+    });
+
     it("should throw error for audio content", async () => {
       const createSpy = vi.fn().mockResolvedValue((async function* () {})());
 
@@ -1006,6 +1110,102 @@ describe("OpenAIChatProvider", () => {
         expect(callArgs).toHaveProperty("size", "1024x1024");
       });
     });
+
+    describe("editImage", () => {
+      const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+      it("uploads images and mask for GPT Image and adds input image cost", async () => {
+        const editSpy = vi.fn().mockResolvedValue({ data: [{ b64_json: "ZWRpdGVk" }] });
+        const provider = new OpenAIChatProvider({
+          images: { edit: editSpy },
+        } as unknown as OpenAI);
+
+        const result = await provider.editImage({
+          model: "gpt-image-1",
+          image: [PNG_BYTES, PNG_BYTES],
+          mask: PNG_BYTES,
+          prompt: "Add a flamingo to the pool",
+          quality: "low",
+        });
+
+        const request = editSpy.mock.calls[0][0];
+        expect(request.image).toHaveLength(2);
+        expect(request.image[0].name).toBe("image-1.png");
+        expect(request.mask.name).toBe("mask.png");
+        expect(request.quality).toBe("low");
+        expect(request).not.toHaveProperty("response_format");
+        expect(result.images).toEqual([
+          { url: undefined, b64Json: "ZWRpdGVk", revisedPrompt: undefined },
+        ]);
+        // $0.011 low 1024x1024 output + 2 × $0.0077 source images
+        expect(result.cost).toBeCloseTo(0.0264);
+      });
+
+      it("sends a single image with response_format for DALL-E 2", async () => {
+        const editSpy = vi.fn().mockResolvedValue({ data: [{ url: "https://example.com/e.png" }] });
+        const provider = new OpenAIChatProvider({
+          images: { edit: editSpy },
+        } as unknown as OpenAI);
+
+        const result = await provider.editImage({
+          model: "dall-e-2",
+          image: PNG_BYTES,
+          prompt: "Add a hat",
+          size: "512x512",
+        });
+
+        const request = editSpy.mock.calls[0][0];
+        expect(Array.isArray(request.image)).toBe(false);
+        expect(request.response_format).toBe("url");
+        expect(request).not.toHaveProperty("quality");
+        expect(result.cost).toBeCloseTo(0.018);
+      });
+    });
+
+    describe("generateImageVariations", () => {
+      const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+      it("uses the variations endpoint for DALL-E 2", async () => {
+        const createVariation = vi.fn().mockResolvedValue({
+          data: [{ url: "https://example.com/1.png" }, { url: "https://example.com/2.png" }],
+        });
+        const provider = new OpenAIChatProvider({
+          images: { createVariation },
+        } as unknown as OpenAI);
+
+        const result = await provider.generateImageVariations({
+          model: "dall-e-2",
+          image: PNG_BYTES,
+          n: 2,
+        });
+
+        expect(createVariation.mock.calls[0][0]).toMatchObject({
+          model: "dall-e-2",
+          n: 2,
+          size: "1024x1024",
+          response_format: "url",
+        });
+        expect(result.images).toHaveLength(2);
+        expect(result.cost).toBeCloseTo(0.04);
+      });
+
+      it("uses a prompted edit for GPT Image", async () => {
+        const editSpy = vi.fn().mockResolvedValue({ data: [{ b64_json: "dmFy" }] });
+        const provider = new OpenAIChatProvider({
+          images: { edit: editSpy },
+        } as unknown as OpenAI);
+
+        await provider.generateImageVariations({
+          model: "gpt-image-1",
+          image: PNG_BYTES,
+          prompt: "In winter",
+        });
+
+        expect(editSpy.mock.calls[0][0].prompt).toMatch(
+          /^Create a variation of this image.*\n\nIn winter$/s,
+        );
+      });
+    });
   });
 
   describe("speech generation", () => {
@@ -1523,6 +1723,144 @@ describe("OpenAIChatProvider", () => {
     });
   });
 
+  describe("structured output", () => {
+    const schema = { type: "object", properties: { name: { type: "string" } }, required: ["name"] };
+
+    it("maps json_schema response format to response_format", async () => {
+      const createSpy = vi.fn().mockResolvedValue((async function* () {})());
+      const mockClient = { chat: { completions: { create: createSpy } } } as unknown as OpenAI;
+      const provider = new OpenAIChatProvider(mockClient);
+
+      await provider
+        .stream(
+          {
+            model: "gpt-4o",
+            messages: [{ role: "user" as const, content: "Invent a person" }],
+            responseFormat: { type: "json_schema", schema, name: "person" },
+          },
+          { provider: "openai", name: "gpt-4o" },
+        )
+        .next();
+
+      expect(createSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "person", schema, strict: false },
+          },
+        }),
+        undefined,
+      );
+    });
+
+    it("omits response_format for text output", async () => {
+      const createSpy = vi.fn().mockResolvedValue((async function* () {})());
+      const mockClient = { chat: { completions: { create: createSpy } } } as unknown as OpenAI;
+      const provider = new OpenAIChatProvider(mockClient);
+
+      await provider
+        .stream(
+          {
+            model: "gpt-4o",
+            messages: [{ role: "user" as const, content: "Hi" }],
+            responseFormat: "text",
+          },
+          { provider: "openai", name: "gpt-4o" },
+        )
+        .next();
+
+      const payload = createSpy.mock.calls[0]?.[0] as Record<string, unknown>;
+      expect(payload).not.toHaveProperty("response_format");
+    });
+
+    it("supports structured output natively", () => {
+      const provider = new OpenAIChatProvider({} as OpenAI);
+      expect(provider.supportsStructuredOutput({ provider: "openai", name: "gpt-4o" })).toBe(true);
+    });
+  });
+
+  describe("native tools", () => {
+    const tool = {
+      name: "Search",
+      description: "Search the web",
+      parameters: { type: "object", properties: { query: { type: "string" } } },
+    };
+
+    it("maps tool definitions to function tools", async () => {
+      const createSpy = vi.fn().mockResolvedValue((async function* () {})());
+      const mockClient = { chat: { completions: { create: createSpy } } } as unknown as OpenAI;
+      const provider = new OpenAIChatProvider(mockClient);
+
+      await provider
+        .stream(
+          {
+            model: "gpt-4o",
+            messages: [{ role: "user" as const, content: "Find llmist" }],
+            tools: [tool],
+          },
+          { provider: "openai", name: "gpt-4o" },
+        )
+        .next();
+
+      expect(createSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tools: [
+            {
+              type: "function",
+              function: {
+                name: "Search",
+                description: "Search the web",
+                parameters: tool.parameters,
+              },
+            },
+          ],
+        }),
+        undefined,
+      );
+    });
+
+    it("yields tool call deltas", async () => {
+      const mockStream = (async function* () {
+        yield {
+          choices: [
+            {
+              delta: {
+                tool_calls: [
+                  { index: 0, id: "call_1", function: { name: "Search", arguments: "" } },
+                ],
+              },
+            },
+          ],
+        };
+        yield {
+          choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"q' } }] } }],
+        };
+      })();
+      const mockClient = {
+        chat: { completions: { create: vi.fn().mockResolvedValue(mockStream) } },
+      } as unknown as OpenAI;
+      const provider = new OpenAIChatProvider(mockClient);
+
+      const toolCalls = [];
+      for await (const chunk of provider.stream(
+        { model: "gpt-4o", messages: [{ role: "user" as const, content: "Find llmist" }] },
+        { provider: "openai", name: "gpt-4o" },
+      )) {
+        if (chunk.toolCalls) toolCalls.push(...chunk.toolCalls);
+      }
+
+      expect(toolCalls).toEqual([
+        { index: 0, id: "call_1", name: "Search" },
+        { index: 0, argumentsDelta: '{"q' },
+      ]);
+    });
+
+    it("supports native tools", () => {
+      const provider = new OpenAIChatProvider({} as OpenAI);
+      expect(provider.supportsNativeTools({ provider: "openai", name: "gpt-4o" })).toBe(true);
+    });
+  });
+
   describe("countTokens with multimodal content", () => {
     it("counts tokens for messages with text and image parts", async () => {
       const mockClient = {} as OpenAI;
@@ -1754,6 +2092,164 @@ describe("OpenAIChatProvider", () => {
       expect(fallbackEstimate).toBeGreaterThanOrEqual(tiktokenCount);
     });
   });
+
+  describe("transcription", () => {
+    const MP3_BYTES = Buffer.from([0x49, 0x44, 0x33, 0x04, 0x00, 0x00]);
+
+    it("returns model specs and support for transcription models", () => {
+      const provider = new OpenAIChatProvider({} as OpenAI);
+
+      expect(provider.getTranscriptionModelSpecs()).toBe(openaiTranscriptionModels);
+      expect(provider.supportsTranscription("whisper-1")).toBe(true);
+      expect(provider.supportsTranscription("tts-1")).toBe(false);
+    });
+
+    it("requests verbose_json from whisper-1 and prices by reported duration", async () => {
+      const create = vi.fn().mockResolvedValue({
+        text: "Hello there. General Kenobi.",
+        language: "english",
+        duration: 120,
+        segments: [
+          { start: 0, end: 1.5, text: " Hello there." },
+          { start: 1.5, end: 3, text: " General Kenobi." },
+        ],
+        words: [{ start: 0, end: 0.5, word: "Hello" }],
+      });
+      const provider = new OpenAIChatProvider({
+        audio: { transcriptions: { create } },
+      } as unknown as OpenAI);
+
+      const result = await provider.transcribe({
+        model: "whisper-1",
+        audio: MP3_BYTES,
+        language: "en",
+        timestamps: "word",
+      });
+
+      const request = create.mock.calls[0][0];
+      expect(request.response_format).toBe("verbose_json");
+      expect(request.timestamp_granularities).toEqual(["word", "segment"]);
+      expect(request.language).toBe("en");
+      expect(request.file.name).toBe("audio.mp3");
+      expect(result.segments).toEqual([
+        { start: 0, end: 1.5, text: "Hello there." },
+        { start: 1.5, end: 3, text: "General Kenobi." },
+      ]);
+      expect(result.words).toEqual([{ start: 0, end: 0.5, word: "Hello" }]);
+      expect(result.language).toBe("english");
+      expect(result.usage.durationSeconds).toBe(120);
+      // $0.006 per minute
+      expect(result.cost).toBeCloseTo(0.012);
+    });
+
+    it("uses json for gpt-4o-transcribe and prices by usage duration", async () => {
+      const create = vi.fn().mockResolvedValue({
+        text: "Hello",
+        usage: { type: "duration", seconds: 30 },
+      });
+      const provider = new OpenAIChatProvider({
+        audio: { transcriptions: { create } },
+      } as unknown as OpenAI);
+
+      const result = await provider.transcribe({
+        model: "gpt-4o-mini-transcribe",
+        audio: MP3_BYTES,
+      });
+
+      expect(create.mock.calls[0][0].response_format).toBe("json");
+      expect(result.text).toBe("Hello");
+      expect(result.segments).toBeUndefined();
+      expect(result.usage.durationSeconds).toBe(30);
+      // $0.003 per minute
+      expect(result.cost).toBeCloseTo(0.0015);
+    });
+
+    it("falls back to the caller's duration when usage has none", async () => {
+      const create = vi.fn().mockResolvedValue({ text: "Hello" });
+      const provider = new OpenAIChatProvider({
+        audio: { transcriptions: { create } },
+      } as unknown as OpenAI);
+
+      const result = await provider.transcribe({
+        model: "gpt-4o-transcribe",
+        audio: MP3_BYTES,
+        durationSeconds: 60,
+      });
+
+      expect(result.usage.durationSeconds).toBe(60);
+      expect(result.cost).toBeCloseTo(0.006);
+    });
+
+    it("rejects timestamps for models that cannot return them", async () => {
+      const provider = new OpenAIChatProvider({} as OpenAI);
+
+      await expect(
+        provider.transcribe({
+          model: "gpt-4o-transcribe",
+          audio: MP3_BYTES,
+          timestamps: "segment",
+        }),
+      ).rejects.toThrow('Model "gpt-4o-transcribe" does not return timestamps');
+    });
+  });
+
+  describe("embeddings", () => {
+    it("returns model specs and support for embedding models", () => {
+      const provider = new OpenAIChatProvider({} as OpenAI);
+
+      expect(provider.getEmbeddingModelSpecs()).toBe(openaiEmbeddingModels);
+      expect(provider.supportsEmbeddings("text-embedding-3-small")).toBe(true);
+      expect(provider.supportsEmbeddings("gpt-4o")).toBe(false);
+    });
+
+    it("embeds inputs in index order and reports cost from usage", async () => {
+      const create = vi.fn().mockResolvedValue({
+        data: [
+          { index: 1, embedding: [0.3, 0.4] },
+          { index: 0, embedding: [0.1, 0.2] },
+        ],
+        usage: { prompt_tokens: 1000, total_tokens: 1000 },
+      });
+      const provider = new OpenAIChatProvider({ embeddings: { create } } as unknown as OpenAI);
+
+      const result = await provider.generateEmbeddings({
+        model: "text-embedding-3-small",
+        input: ["first", "second"],
+        dimensions: 2,
+      });
+
+      expect(create).toHaveBeenCalledWith({
+        model: "text-embedding-3-small",
+        input: ["first", "second"],
+        encoding_format: "float",
+        dimensions: 2,
+      });
+      expect(result.embeddings).toEqual([
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ]);
+      expect(result.dimensions).toBe(2);
+      expect(result.usage.inputTokens).toBe(1000);
+      // $0.02 per 1M tokens
+      expect(result.cost).toBeCloseTo(0.00002, 10);
+    });
+
+    it("omits dimensions for models without shortened embeddings", async () => {
+      const create = vi.fn().mockResolvedValue({
+        data: [{ index: 0, embedding: [0.1] }],
+        usage: { prompt_tokens: 1, total_tokens: 1 },
+      });
+      const provider = new OpenAIChatProvider({ embeddings: { create } } as unknown as OpenAI);
+
+      await provider.generateEmbeddings({
+        model: "text-embedding-ada-002",
+        input: ["text"],
+        dimensions: 256,
+      });
+
+      expect(create.mock.calls[0][0]).not.toHaveProperty("dimensions");
+    });
+  });
 });
 
 describe("createOpenAIProviderFromEnv", () => {
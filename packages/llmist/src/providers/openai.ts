@@ -1,18 +1,39 @@
-import OpenAI from "openai";
+import OpenAI, { toFile } from "openai";
 import type {
   ChatCompletionChunk,
   ChatCompletionContentPart,
   ChatCompletionMessageParam,
 } from "openai/resources/chat/completions";
 import { encoding_for_model, type TiktokenModel } from "tiktoken";
-import type { ContentPart, ImageContentPart } from "../core/input-content.js";
 import type {
+  BatchJobRef,
+  BatchRequest,
+  BatchResultItem,
+  BatchStatusSnapshot,
+} from "../batch/types.js";
+import {
+  type AudioMimeType,
+  type ContentPart,
+  detectAudioMimeType,
+  detectImageMimeType,
+  type ImageContentPart,
+  type ImageMimeType,
+} from "../core/input-content.js";
+import type {
+  EmbeddingModelSpec,
+  EmbeddingOptions,
+  EmbeddingResult,
+  ImageEditOptions,
   ImageGenerationOptions,
   ImageGenerationResult,
   ImageModelSpec,
+  ImageVariationOptions,
   SpeechGenerationOptions,
   SpeechGenerationResult,
   SpeechModelSpec,
+  TranscriptionModelSpec,
+  TranscriptionOptions,
+  TranscriptionResult,
 } from "../core/media-types.js";
 import type { LLMMessage, MessageContent } from "../core/messages.js";
 import { extractMessageText, normalizeMessageContent } from "../core/messages.js";
@@ -33,12 +54,26 @@ import type {
 import { BaseProviderAdapter } from "./base-provider.js";
 import {
   FALLBACK_CHARS_PER_TOKEN,
+  IMAGE_VARIATION_PROMPT,
   OPENAI_MESSAGE_OVERHEAD_TOKENS,
   OPENAI_NAME_FIELD_OVERHEAD_TOKENS,
   OPENAI_REPLY_PRIMING_TOKENS,
 } from "./constants.js";
+import {
+  cancelOpenAIBatch,
+  getOpenAIBatchResults,
+  getOpenAIBatchStatus,
+  submitOpenAIBatch,
+} from "./openai-batch.js";
+import {
+  calculateOpenAIEmbeddingCost,
+  getOpenAIEmbeddingModelSpec,
+  isOpenAIEmbeddingModel,
+  openaiEmbeddingModels,
+} from "./openai-embedding-models.js";
 import {
   calculateOpenAIImageCost,
+  calculateOpenAIImageEditCost,
   getOpenAIImageModelSpec,
   isOpenAIImageModel,
   openaiImageModels,
@@ -61,7 +96,19 @@ import {
   isOpenAISpeechModel,
   openaiSpeechModels,
 } from "./openai-speech-models.js";
-import { createProviderFromEnv } from "./utils.js";
+import {
+  calculateOpenAITranscriptionCost,
+  getOpenAITranscriptionModelSpec,
+  isOpenAITranscriptionModel,
+  openaiTranscriptionModels,
+} from "./openai-transcription-models.js";
+import {
+  createProviderFromEnv,
+  fromOpenAIToolCallDeltas,
+  toOpenAIChatMessages,
+  toOpenAIResponseFormat,
+  toOpenAITools,
+} from "./utils.js";
 
 const ROLE_MAP: Record<LLMMessage["role"], "system" | "user" | "assistant"> = {
   system: "system",
@@ -96,8 +143,32 @@ function sanitizeExtra(
   return Object.fromEntries(Object.entries(extra).filter(([key]) => key !== "temperature"));
 }
 
+/** File extensions for image edit uploads */
+const IMAGE_FILE_EXTENSIONS: Record<ImageMimeType, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+/** Wraps raw image data in an upload with a name and type matching its format */
+function toImageUpload(data: Buffer | Uint8Array, name: string) {
+  const mimeType = detectImageMimeType(data) ?? "image/png";
+  return toFile(data, `${name}.${IMAGE_FILE_EXTENSIONS[mimeType]}`, { type: mimeType });
+}
+
+/** File extensions for transcription uploads (the API detects the format from the name) */
+const AUDIO_FILE_EXTENSIONS: Record<AudioMimeType, string> = {
+  "audio/mp3": "mp3",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/flac": "flac",
+};
+
 export class OpenAIChatProvider extends BaseProviderAdapter {
-  readonly providerId = "openai" as const;
+  readonly providerId: string = "openai";
 
   supports(descriptor: ModelDescriptor): boolean {
     return descriptor.provider === this.providerId;
@@ -107,6 +178,21 @@ export class OpenAIChatProvider extends BaseProviderAdapter {
     return OPENAI_MODELS;
   }
 
+  /**
+   * All cataloged chat models support JSON Schema output; uncataloged
+   * (newer) models are assumed to support it too.
+   */
+  supportsStructuredOutput(_descriptor: ModelDescriptor, spec?: ModelSpec): boolean {
+    return spec?.features.structuredOutputs !== false;
+  }
+
+  /**
+   * Chat models support function calling unless the catalog says otherwise.
+   */
+  supportsNativeTools(_descriptor: ModelDescriptor, spec?: ModelSpec): boolean {
+    return spec?.features.functionCalling !== false;
+  }
+
   // =========================================================================
   // Image Generation
   // =========================================================================
@@ -180,6 +266,92 @@ export class OpenAIChatProvider extends BaseProviderAdapter {
     };
   }
 
+  async editImage(options: ImageEditOptions): Promise<ImageGenerationResult> {
+    const client = this.client as OpenAI;
+    const spec = getOpenAIImageModelSpec(options.model);
+    const sources = Array.isArray(options.image) ? options.image : [options.image];
+
+    const size = options.size ?? spec?.defaultSize ?? "1024x1024";
+    const quality = options.quality ?? spec?.defaultQuality ?? "standard";
+    const n = options.n ?? 1;
+    const isGptImage = options.model.startsWith("gpt-image");
+
+    const uploads = await Promise.all(
+      sources.map((data, index) => toImageUpload(data, `image-${index + 1}`)),
+    );
+
+    // GPT Image always returns base64 and takes low/medium/high quality;
+    // DALL-E 2 has no quality setting but supports response_format
+    const response = await client.images.edit({
+      model: options.model,
+      image: uploads.length === 1 ? uploads[0] : uploads,
+      mask: options.mask ? await toImageUpload(options.mask, "mask") : undefined,
+      prompt: options.prompt,
+      size: size as "256x256" | "512x512" | "1024x1024" | "1536x1024" | "1024x1536" | "auto",
+      n,
+      ...(isGptImage
+        ? { quality: quality as "low" | "medium" | "high" }
+        : { response_format: options.responseFormat ?? "url" }),
+    });
+
+    const images = response.data ?? [];
+
+    return {
+      images: images.map((img) => ({
+        url: img.url,
+        b64Json: img.b64_json,
+        revisedPrompt: img.revised_prompt,
+      })),
+      model: options.model,
+      usage: {
+        imagesGenerated: images.length,
+        size,
+        quality,
+      },
+      cost: calculateOpenAIImageEditCost(options.model, size, quality, n, sources.length),
+    };
+  }
+
+  async generateImageVariations(options: ImageVariationOptions): Promise<ImageGenerationResult> {
+    // GPT Image has no variations endpoint, so variations are prompted edits
+    if (options.model !== "dall-e-2") {
+      return this.editImage({
+        model: options.model,
+        image: options.image,
+        prompt: options.prompt
+          ? `${IMAGE_VARIATION_PROMPT}\n\n${options.prompt}`
+          : IMAGE_VARIATION_PROMPT,
+        size: options.size,
+        n: options.n,
+      });
+    }
+
+    const client = this.client as OpenAI;
+    const size = options.size ?? "1024x1024";
+    const n = options.n ?? 1;
+
+    const response = await client.images.createVariation({
+      model: options.model,
+      image: await toImageUpload(options.image, "image"),
+      size: size as "256x256" | "512x512" | "1024x1024",
+      n,
+      response_format: options.responseFormat ?? "url",
+    });
+
+    const images = response.data ?? [];
+
+    return {
+      images: images.map((img) => ({ url: img.url, b64Json: img.b64_json })),
+      model: options.model,
+      usage: {
+        imagesGenerated: images.length,
+        size,
+        quality: "standard",
+      },
+      cost: calculateOpenAIImageCost(options.model, size, "standard", n),
+    };
+  }
+
   // =========================================================================
   // Speech Generation
   // =========================================================================
@@ -221,6 +393,123 @@ export class OpenAIChatProvider extends BaseProviderAdapter {
     };
   }
 
+  // =========================================================================
+  // Transcription
+  // =========================================================================
+
+  getTranscriptionModelSpecs(): TranscriptionModelSpec[] {
+    return openaiTranscriptionModels;
+  }
+
+  supportsTranscription(modelId: string): boolean {
+    return isOpenAITranscriptionModel(modelId);
+  }
+
+  async transcribe(options: TranscriptionOptions): Promise<TranscriptionResult> {
+    const client = this.client as OpenAI;
+    const spec = getOpenAITranscriptionModelSpec(options.model);
+
+    if (options.timestamps && spec?.features?.timestamps === false) {
+      throw new Error(
+        `Model "${options.model}" does not return timestamps. Use whisper-1 for timestamps.`,
+      );
+    }
+
+    const mimeType = options.mimeType ?? detectAudioMimeType(options.audio) ?? "audio/mpeg";
+    const file = await toFile(options.audio, `audio.${AUDIO_FILE_EXTENSIONS[mimeType]}`, {
+      type: mimeType,
+    });
+
+    // whisper-1 always uses verbose_json, which reports the duration for pricing
+    if (spec?.features?.timestamps) {
+      const response = await client.audio.transcriptions.create({
+        model: options.model,
+        file,
+        language: options.language,
+        prompt: options.prompt,
+        response_format: "verbose_json",
+        timestamp_granularities:
+          options.timestamps === "word"
+            ? ["word", "segment"]
+            : options.timestamps === "segment"
+              ? ["segment"]
+              : undefined,
+      });
+
+      return {
+        text: response.text,
+        model: options.model,
+        language: response.language,
+        segments: options.timestamps
+          ? response.segments?.map(({ start, end, text }) => ({ start, end, text: text.trim() }))
+          : undefined,
+        words: options.timestamps === "word" ? response.words : undefined,
+        usage: { durationSeconds: response.duration },
+        cost: calculateOpenAITranscriptionCost(options.model, response.duration),
+      };
+    }
+
+    const response = await client.audio.transcriptions.create({
+      model: options.model,
+      file,
+      language: options.language,
+      prompt: options.prompt,
+      response_format: "json",
+    });
+
+    const durationSeconds =
+      response.usage?.type === "duration" ? response.usage.seconds : options.durationSeconds;
+
+    return {
+      text: response.text,
+      model: options.model,
+      language: options.language,
+      usage: { durationSeconds },
+      cost: calculateOpenAITranscriptionCost(options.model, durationSeconds),
+    };
+  }
+
+  // =========================================================================
+  // Embeddings
+  // =========================================================================
+
+  getEmbeddingModelSpecs(): EmbeddingModelSpec[] {
+    return openaiEmbeddingModels;
+  }
+
+  supportsEmbeddings(modelId: string): boolean {
+    return isOpenAIEmbeddingModel(modelId);
+  }
+
+  async generateEmbeddings(options: EmbeddingOptions): Promise<EmbeddingResult> {
+    const client = this.client as OpenAI;
+    const spec = getOpenAIEmbeddingModelSpec(options.model);
+
+    // Only text-embedding-3 models accept the dimensions parameter
+    const response = await client.embeddings.create({
+      model: options.model,
+      input: options.input,
+      encoding_format: "float",
+      ...(options.dimensions !== undefined && spec?.features?.customDimensions !== false
+        ? { dimensions: options.dimensions }
+        : {}),
+    });
+
+    // Sort by index: the API doesn't guarantee input order
+    const embeddings = [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+    const inputTokens = response.usage.prompt_tokens;
+
+    return {
+      embeddings,
+      model: options.model,
+      dimensions: embeddings[0]?.length ?? options.dimensions ?? spec?.dimensions ?? 0,
+      usage: { inputTokens },
+      cost: calculateOpenAIEmbeddingCost(options.model, inputTokens),
+    };
+  }
+
   // =========================================================================
   // Deep Research (Responses API)
   // =========================================================================
@@ -258,13 +547,67 @@ export class OpenAIChatProvider extends BaseProviderAdapter {
     return cancelOpenAIResearch(this.client as OpenAI, ref);
   }
 
+  // =========================================================================
+  // Batch API
+  // =========================================================================
+
+  supportsBatch(modelId: string): boolean {
+    return OPENAI_MODELS.some(
+      (spec) => spec.modelId === modelId && spec.pricing.batchInput !== undefined,
+    );
+  }
+
+  submitBatch(
+    requests: BatchRequest[],
+    descriptor: ModelDescriptor,
+    spec?: ModelSpec,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const bodies = requests.map(({ id, model: _model, ...options }) => {
+      const {
+        stream: _stream,
+        stream_options: _streamOptions,
+        ...body
+      } = this.buildApiRequest(
+        { ...options, model: descriptor.name },
+        descriptor,
+        spec,
+        this.prepareMessages(options.messages),
+      );
+      return { id, body };
+    });
+    return submitOpenAIBatch(this.client as OpenAI, bodies, signal);
+  }
+
+  getBatchStatus(ref: BatchJobRef): Promise<BatchStatusSnapshot> {
+    return getOpenAIBatchStatus(this.client as OpenAI, ref);
+  }
+
+  getBatchResults(ref: BatchJobRef): AsyncIterable<BatchResultItem> {
+    return getOpenAIBatchResults(this.client as OpenAI, ref);
+  }
+
+  cancelBatch(ref: BatchJobRef): Promise<void> {
+    return cancelOpenAIBatch(this.client as OpenAI, ref);
+  }
+
   protected buildApiRequest(
     options: LLMGenerationOptions,
     descriptor: ModelDescriptor,
     spec: ModelSpec | undefined,
     messages: LLMMessage[],
   ): Parameters<OpenAI["chat"]["completions"]["create"]>[0] {
-    const { maxTokens, temperature, topP, stopSequences, extra, reasoning } = options;
+    const {
+      maxTokens,
+      temperature,
+      topP,
+      stopSequences,
+      extra,
+      reasoning,
+      responseFormat,
+      tools,
+      caching,
+    } = options;
 
     // Use spec metadata to determine temperature support, defaulting to true if spec is unavailable
     const supportsTemperature = spec?.metadata?.supportsTemperature !== false;
@@ -281,9 +624,16 @@ export class OpenAIChatProvider extends BaseProviderAdapter {
           }
         : {};
 
+    const responseFormatParam = toOpenAIResponseFormat(responseFormat);
+    const toolsParam = toOpenAITools(tools);
+    // OpenAI caches prompt prefixes automatically; the key only improves routing
+    const promptCacheKey = caching?.enabled !== false ? caching?.key : undefined;
+
     return {
       model: descriptor.name,
-      messages: messages.map((message) => this.convertToOpenAIMessage(message)),
+      messages: messages.flatMap((message) =>
+        toOpenAIChatMessages(message, (converted) => this.convertToOpenAIMessage(converted)),
+      ),
       // Only set max_completion_tokens if explicitly provided
       // Otherwise let the API use "as much as fits" in the context window
       ...(maxTokens !== undefined ? { max_completion_tokens: maxTokens } : {}),
@@ -292,6 +642,9 @@ export class OpenAIChatProvider extends BaseProviderAdapter {
       stream: true,
       stream_options: { include_usage: true },
       ...reasoningParam,
+      ...(responseFormatParam ? { response_format: responseFormatParam } : {}),
+      ...(toolsParam ? { tools: toolsParam } : {}),
+      ...(promptCacheKey ? { prompt_cache_key: promptCacheKey } : {}),
       ...(sanitizedExtra ?? {}),
       ...(shouldIncludeTemperature ? { temperature } : {}),
     };
@@ -390,8 +743,11 @@ export class OpenAIChatProvider extends BaseProviderAdapter {
   protected async executeStreamRequest(
     payload: Parameters<OpenAI["chat"]["completions"]["create"]>[0],
     signal?: AbortSignal,
+    apiKey?: string,
   ): Promise<AsyncIterable<ChatCompletionChunk>> {
-    const client = this.client as OpenAI;
+    const client = apiKey
+      ? (this.client as OpenAI).withOptions({ apiKey })
+      : (this.client as OpenAI);
     // Pass abort signal to SDK via request options
     const stream = await client.chat.completions.create(payload, signal ? { signal } : undefined);
     return stream as unknown as AsyncIterable<ChatCompletionChunk>;
@@ -405,6 +761,11 @@ export class OpenAIChatProvider extends BaseProviderAdapter {
         yield { text, rawEvent: chunk };
       }
 
+      const toolCalls = fromOpenAIToolCallDeltas(chunk.choices);
+      if (toolCalls) {
+        yield { text: "", toolCalls, rawEvent: chunk };
+      }
+
       const finishReason = chunk.choices.find((choice) => choice.finish_reason)?.finish_reason;
 
       // Extract token usage if available (typically in the final chunk)
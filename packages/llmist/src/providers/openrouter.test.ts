@@ -702,13 +702,13 @@ describe("OpenRouterProvider", () => {
   });
 
   describe("countTokens (inherited)", () => {
-    it("should estimate tokens using character count", async () => {
+    it("should estimate tokens with the tokenizer of the routed model family", async () => {
       const mockClient = {} as OpenAI;
       const provider = new OpenRouterProvider(mockClient, {});
 
       const messages: LLMMessage[] = [
-        { role: "user", content: "Hello" }, // 5 chars
-        { role: "assistant", content: "Hi there!" }, // 9 chars
+        { role: "user", content: "Hello" }, // 1 token
+        { role: "assistant", content: "Hi there!" }, // 3 tokens
       ];
 
       const count = await provider.countTokens(messages, {
@@ -716,8 +716,8 @@ describe("OpenRouterProvider", () => {
         name: "anthropic/claude-sonnet-4-5",
       });
 
-      // (5 + 9) / 4 = 3.5 → 4 tokens (rounded up)
-      expect(count).toBe(4);
+      // Claude tokenizer: 4 cl100k tokens × 1.15 = 4.6 → 5 tokens (rounded up)
+      expect(count).toBe(5);
     });
   });
 
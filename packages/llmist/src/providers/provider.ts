@@ -1,10 +1,24 @@
 import type {
+  BatchJobRef,
+  BatchRequest,
+  BatchResultItem,
+  BatchStatusSnapshot,
+} from "../batch/types.js";
+import type {
+  EmbeddingModelSpec,
+  EmbeddingOptions,
+  EmbeddingResult,
+  ImageEditOptions,
   ImageGenerationOptions,
   ImageGenerationResult,
   ImageModelSpec,
+  ImageVariationOptions,
   SpeechGenerationOptions,
   SpeechGenerationResult,
   SpeechModelSpec,
+  TranscriptionModelSpec,
+  TranscriptionOptions,
+  TranscriptionResult,
 } from "../core/media-types.js";
 import type { LLMMessage } from "../core/messages.js";
 import type { ModelSpec } from "../core/model-catalog.js";
@@ -16,6 +30,7 @@ import type {
   ResearchOptions,
   ResearchStatusSnapshot,
 } from "../research/types.js";
+import type { KeyPool } from "./key-pool.js";
 
 export interface ProviderAdapter {
   readonly providerId: string;
@@ -44,6 +59,33 @@ export interface ProviderAdapter {
    */
   getModelSpecs?(): ModelSpec[];
 
+  /**
+   * Spread requests over the keys of a key pool (see `LLMistOptions.keyPools`).
+   * Requests with their own `credentials` for this provider bypass the pool.
+   */
+  useKeyPool?(pool: KeyPool): void;
+
+  /**
+   * Optionally discover models at runtime (e.g., models pulled on a local server).
+   * Called once when the client is created; resolved specs are registered in the
+   * model registry alongside the static catalog from `getModelSpecs()`.
+   */
+  discoverModelSpecs?(): Promise<ModelSpec[]>;
+
+  /**
+   * Check whether `responseFormat: { type: "json_schema" }` is honored natively
+   * for a model. When false (or not implemented), structured output falls back
+   * to schema instructions in the prompt plus validation and repair.
+   */
+  supportsStructuredOutput?(descriptor: ModelDescriptor, spec?: ModelSpec): boolean;
+
+  /**
+   * Check whether `tools` are sent to the model and native tool calls are
+   * streamed back as `toolCalls` chunks. Used by the `"auto"` gadget transport;
+   * when false (or not implemented), gadgets use the block format.
+   */
+  supportsNativeTools?(descriptor: ModelDescriptor, spec?: ModelSpec): boolean;
+
   /**
    * Count tokens in messages before making an API call.
    * Uses provider-specific native token counting methods.
@@ -81,6 +123,22 @@ export interface ProviderAdapter {
    */
   generateImage?(options: ImageGenerationOptions): Promise<ImageGenerationResult>;
 
+  /**
+   * Edit existing image(s) from a text prompt, optionally restricted by a mask.
+   * Only called for models whose spec has `features.editing`.
+   * @param options - Image edit options
+   * @returns Promise resolving to the edited images and cost
+   */
+  editImage?(options: ImageEditOptions): Promise<ImageGenerationResult>;
+
+  /**
+   * Create variations of an existing image.
+   * Only called for models whose spec has `features.variations`.
+   * @param options - Image variation options
+   * @returns Promise resolving to the variations and cost
+   */
+  generateImageVariations?(options: ImageVariationOptions): Promise<ImageGenerationResult>;
+
   // =========================================================================
   // Speech Generation (optional)
   // =========================================================================
@@ -104,6 +162,54 @@ export interface ProviderAdapter {
    */
   generateSpeech?(options: SpeechGenerationOptions): Promise<SpeechGenerationResult>;
 
+  // =========================================================================
+  // Transcription (optional)
+  // =========================================================================
+
+  /**
+   * Get transcription (speech-to-text) model specifications for this provider.
+   * Returns undefined if the provider doesn't support transcription.
+   */
+  getTranscriptionModelSpecs?(): TranscriptionModelSpec[];
+
+  /**
+   * Check if this provider supports transcription for a given model.
+   * @param modelId - Model identifier (e.g., "whisper-1", "gpt-4o-transcribe")
+   */
+  supportsTranscription?(modelId: string): boolean;
+
+  /**
+   * Transcribe audio to text.
+   * @param options - Transcription options
+   * @returns Promise resolving to the transcript with optional timestamps and cost
+   */
+  transcribe?(options: TranscriptionOptions): Promise<TranscriptionResult>;
+
+  // =========================================================================
+  // Embeddings (optional)
+  // =========================================================================
+
+  /**
+   * Get embedding model specifications for this provider.
+   * Returns undefined if the provider doesn't support embeddings.
+   */
+  getEmbeddingModelSpecs?(): EmbeddingModelSpec[];
+
+  /**
+   * Check if this provider supports embeddings for a given model.
+   * @param modelId - Model identifier (e.g., "text-embedding-3-small")
+   */
+  supportsEmbeddings?(modelId: string): boolean;
+
+  /**
+   * Embed a single batch of texts.
+   * Inputs arrive as an array no larger than the model's `maxBatchSize`;
+   * batching is handled by `EmbeddingNamespace`.
+   * @param options - Embedding options
+   * @returns Promise resolving to the embeddings, usage and cost
+   */
+  generateEmbeddings?(options: EmbeddingOptions): Promise<EmbeddingResult>;
+
   // =========================================================================
   // Deep Research (optional)
   // =========================================================================
@@ -154,4 +260,42 @@ export interface ProviderAdapter {
 
   /** Cancel a background research job server-side. */
   cancelResearch?(ref: ResearchJobRef): Promise<void>;
+
+  // =========================================================================
+  // Batch API (optional)
+  // =========================================================================
+
+  /**
+   * Check if this provider can run a model through its Batch API.
+   * @param modelId - Model identifier (unprefixed)
+   */
+  supportsBatch?(modelId: string): boolean;
+
+  /**
+   * Upload a batch of requests.
+   *
+   * @param requests - Requests (validated by the namespace: non-empty, unique ids, one model)
+   * @param descriptor - Parsed model descriptor shared by all requests
+   * @param spec - Catalog spec when the model is cataloged
+   * @param signal - Aborts the upload
+   * @returns The server-side batch id
+   */
+  submitBatch?(
+    requests: BatchRequest[],
+    descriptor: ModelDescriptor,
+    spec?: ModelSpec,
+    signal?: AbortSignal,
+  ): Promise<string>;
+
+  /** One-shot status poll for a batch. */
+  getBatchStatus?(ref: BatchJobRef): Promise<BatchStatusSnapshot>;
+
+  /**
+   * Per-request results of a finished batch. Cost is added by the namespace
+   * from catalog batch pricing when the provider leaves it unset.
+   */
+  getBatchResults?(ref: BatchJobRef): AsyncIterable<BatchResultItem>;
+
+  /** Cancel a batch server-side. */
+  cancelBatch?(ref: BatchJobRef): Promise<void>;
 }
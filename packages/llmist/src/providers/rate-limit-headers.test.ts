@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { parseRateLimitHeaders, parseResetDuration } from "./rate-limit-headers.js";
+
+describe("parseResetDuration", () => {
+  it.each([
+    ["2m59.56s", 179_560],
+    ["7.66s", 7660],
+    ["250ms", 250],
+    ["1h2m3s", 3_723_000],
+    ["12.5", 12_500],
+    ["0", 0],
+  ])("parses %s", (value, expected) => {
+    expect(parseResetDuration(value)).toBe(expected);
+  });
+
+  it.each(["soon", "2 minutes", "5d", ""])("rejects %j", (value) => {
+    expect(parseResetDuration(value)).toBeUndefined();
+  });
+});
+
+describe("parseRateLimitHeaders", () => {
+  it("parses OpenAI/Groq-style headers", () => {
+    const headers = new Headers({
+      "x-ratelimit-limit-requests": "14400",
+      "x-ratelimit-remaining-requests": "14370",
+      "x-ratelimit-reset-requests": "2m59.56s",
+      "x-ratelimit-limit-tokens": "18000",
+      "x-ratelimit-remaining-tokens": "17997",
+      "x-ratelimit-reset-tokens": "7.66s",
+    });
+
+    expect(parseRateLimitHeaders(headers)).toEqual({
+      requests: { limit: 14_400, remaining: 14_370, resetMs: 179_560 },
+      tokens: { limit: 18_000, remaining: 17_997, resetMs: 7660 },
+    });
+  });
+
+  it("parses Cerebras-style headers with windowed names and reset seconds", () => {
+    const headers = new Headers({
+      "x-ratelimit-limit-requests-day": "14400",
+      "x-ratelimit-remaining-requests-day": "14399",
+      "x-ratelimit-reset-requests-day": "33011.38",
+      "x-ratelimit-limit-tokens-minute": "60000",
+      "x-ratelimit-remaining-tokens-minute": "59000",
+      "x-ratelimit-reset-tokens-minute": "11.38",
+    });
+
+    expect(parseRateLimitHeaders(headers)).toEqual({
+      requests: { limit: 14_400, remaining: 14_399, resetMs: 33_011_380 },
+      tokens: { limit: 60_000, remaining: 59_000, resetMs: 11_380 },
+    });
+  });
+
+  it("parses Mistral's token quota headers", () => {
+    const headers = new Headers({
+      "ratelimitbysize-limit": "500000",
+      "ratelimitbysize-remaining": "499000",
+      "ratelimitbysize-reset": "42",
+    });
+
+    expect(parseRateLimitHeaders(headers)).toEqual({
+      tokens: { limit: 500_000, remaining: 499_000, resetMs: 42_000 },
+    });
+  });
+
+  it("prefers the per-minute window and tolerates missing limits and resets", () => {
+    const headers = new Headers({
+      "x-ratelimit-remaining-tokens-minute": "1200",
+      "x-ratelimit-limit-tokens-month": "1000000000",
+      "x-ratelimit-remaining-tokens-month": "999000000",
+    });
+
+    expect(parseRateLimitHeaders(headers)).toEqual({ tokens: { remaining: 1200 } });
+  });
+
+  it("returns undefined without rate limit headers", () => {
+    expect(
+      parseRateLimitHeaders(new Headers({ "content-type": "text/event-stream" })),
+    ).toBeUndefined();
+    expect(
+      parseRateLimitHeaders(new Headers({ "x-ratelimit-remaining-requests": "n/a" })),
+    ).toBeUndefined();
+  });
+});
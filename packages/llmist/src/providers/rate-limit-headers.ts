@@ -0,0 +1,110 @@
+/**
+ * Parsing of rate limit response headers.
+ *
+ * Providers report their remaining quotas in `x-ratelimit-*` headers, with
+ * slightly different names and formats:
+ * - OpenAI, Groq: `x-ratelimit-remaining-requests`, reset as a duration (`"2m59.56s"`)
+ * - Cerebras: `x-ratelimit-remaining-tokens-minute`, reset in seconds (`"12.5"`)
+ * - Mistral: `x-ratelimit-remaining-tokens-minute`, or `ratelimitbysize-*` for tokens
+ *
+ * @module providers/rate-limit-headers
+ */
+
+import type { ServerQuota, ServerRateLimits } from "../core/rate-limit.js";
+
+/**
+ * Header name suffixes per quota, most specific window first.
+ * `x-ratelimit-{limit,remaining,reset}-<suffix>`
+ */
+const QUOTA_SUFFIXES: Record<keyof ServerRateLimits, string[]> = {
+  requests: ["requests", "requests-minute", "req-minute", "requests-day"],
+  tokens: ["tokens", "tokens-minute"],
+};
+
+/**
+ * Parse rate limit headers into server quotas.
+ *
+ * @param headers - Response headers
+ * @returns The reported quotas, or undefined when the response has none
+ */
+export function parseRateLimitHeaders(headers: Headers): ServerRateLimits | undefined {
+  const limits: ServerRateLimits = {};
+
+  for (const [kind, suffixes] of Object.entries(QUOTA_SUFFIXES)) {
+    for (const suffix of suffixes) {
+      const quota = readQuota(
+        headers,
+        `x-ratelimit-limit-${suffix}`,
+        `x-ratelimit-remaining-${suffix}`,
+        `x-ratelimit-reset-${suffix}`,
+      );
+      if (quota) {
+        limits[kind as keyof ServerRateLimits] = quota;
+        break;
+      }
+    }
+  }
+
+  limits.tokens ??= readQuota(
+    headers,
+    "ratelimitbysize-limit",
+    "ratelimitbysize-remaining",
+    "ratelimitbysize-reset",
+  );
+  if (!limits.tokens) {
+    delete limits.tokens;
+  }
+
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+/**
+ * Parse a reset header: plain seconds (`"12.5"`) or a duration
+ * (`"1h2m3s"`, `"2m59.56s"`, `"250ms"`).
+ *
+ * @returns Milliseconds, or undefined when the value is not recognized
+ */
+export function parseResetDuration(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+
+  const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+  const parts = [...trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0 || parts.map((part) => part[0]).join("") !== trimmed) {
+    return undefined;
+  }
+  return Math.round(
+    parts.reduce((total, [, amount, unit]) => total + Number(amount) * units[unit], 0),
+  );
+}
+
+function readQuota(
+  headers: Headers,
+  limitHeader: string,
+  remainingHeader: string,
+  resetHeader: string,
+): ServerQuota | undefined {
+  const remaining = readNumber(headers.get(remainingHeader));
+  if (remaining === undefined) {
+    return undefined;
+  }
+
+  const limit = readNumber(headers.get(limitHeader));
+  const reset = headers.get(resetHeader);
+  const resetMs = reset !== null ? parseResetDuration(reset) : undefined;
+  return {
+    ...(limit !== undefined ? { limit } : {}),
+    remaining,
+    ...(resetMs !== undefined ? { resetMs } : {}),
+  };
+}
+
+function readNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
@@ -2,6 +2,11 @@
  * Common utility functions shared across provider implementations
  */
 
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { isToolCallPart, isToolResultPart } from "../core/input-content.js";
+import { extractMessageText, type LLMMessage, normalizeMessageContent } from "../core/messages.js";
+import type { ResponseFormat, ToolCallDelta, ToolDefinition } from "../core/options.js";
+
 /**
  * Safely read an environment variable
  * @param key - The environment variable key to read
@@ -50,3 +55,130 @@ export function createProviderFromEnv<TClient, TProvider>(
 
   return new ProviderClass(client);
 }
+
+/**
+ * Build the OpenAI chat completions `response_format` parameter
+ * (also understood by most OpenAI-compatible servers).
+ * @param format - Requested response format
+ * @returns The `response_format` value, or undefined for plain text
+ */
+export function toOpenAIResponseFormat(format: ResponseFormat | undefined):
+  | {
+      type: "json_schema";
+      json_schema: {
+        name: string;
+        description?: string;
+        schema: Record<string, unknown>;
+        strict: boolean;
+      };
+    }
+  | undefined {
+  if (!format || format === "text") {
+    return undefined;
+  }
+  return {
+    type: "json_schema",
+    json_schema: {
+      name: format.name ?? "response",
+      ...(format.description ? { description: format.description } : {}),
+      schema: format.schema,
+      // Strict mode rejects optional properties, which Zod schemas commonly have;
+      // llmist validates the result against the schema instead
+      strict: false,
+    },
+  };
+}
+
+/**
+ * Build the OpenAI chat completions `tools` parameter
+ * (also understood by most OpenAI-compatible servers).
+ * @param tools - Native tool definitions
+ * @returns The `tools` value, or undefined when there are none
+ */
+export function toOpenAITools(tools: ToolDefinition[] | undefined):
+  | Array<{
+      type: "function";
+      function: { name: string; description: string; parameters: Record<string, unknown> };
+    }>
+  | undefined {
+  if (!tools || tools.length === 0) {
+    return undefined;
+  }
+  return tools.map((tool) => ({
+    type: "function" as const,
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+/**
+ * Convert the `delta.tool_calls` entries of an OpenAI stream chunk.
+ * @param choices - Chunk choices
+ * @returns Tool call deltas, or undefined when the chunk has none
+ */
+export function fromOpenAIToolCallDeltas(
+  choices: Array<{
+    delta?: {
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+  }>,
+): ToolCallDelta[] | undefined {
+  const deltas: ToolCallDelta[] = [];
+  for (const choice of choices) {
+    for (const call of choice.delta?.tool_calls ?? []) {
+      deltas.push({
+        index: call.index,
+        ...(call.id ? { id: call.id } : {}),
+        ...(call.function?.name ? { name: call.function.name } : {}),
+        ...(call.function?.arguments ? { argumentsDelta: call.function.arguments } : {}),
+      });
+    }
+  }
+  return deltas.length > 0 ? deltas : undefined;
+}
+
+/**
+ * Convert a message to OpenAI chat messages, with native tool parts in
+ * OpenAI's format: tool calls become the assistant message's `tool_calls`,
+ * tool results become `tool` messages. The other parts of a tool result
+ * message (e.g. images) follow in a message of their own, since `tool`
+ * messages are text only.
+ * @param message - Message to convert
+ * @param convert - Converts a message without tool parts
+ * @returns The chat messages
+ */
+export function toOpenAIChatMessages(
+  message: LLMMessage,
+  convert: (message: LLMMessage) => ChatCompletionMessageParam,
+): ChatCompletionMessageParam[] {
+  const parts = normalizeMessageContent(message.content);
+  const toolCalls = parts.filter(isToolCallPart);
+  const toolResults = parts.filter(isToolResultPart);
+  if (toolCalls.length === 0 && toolResults.length === 0) {
+    return [convert(message)];
+  }
+
+  const rest = parts.filter((part) => !isToolCallPart(part) && !isToolResultPart(part));
+  const messages: ChatCompletionMessageParam[] = toolResults.map((part) => ({
+    role: "tool" as const,
+    tool_call_id: part.toolCallId,
+    content: part.content,
+  }));
+  if (toolCalls.length > 0) {
+    messages.push({
+      role: "assistant",
+      content: extractMessageText(rest) || null,
+      tool_calls: toolCalls.map((part) => ({
+        id: part.id,
+        type: "function" as const,
+        function: { name: part.name, arguments: JSON.stringify(part.arguments) },
+      })),
+    });
+  } else if (rest.length > 0) {
+    messages.push(convert({ ...message, content: rest }));
+  }
+  return messages;
+}
@@ -0,0 +1,108 @@
+import type { GoogleGenAIOptions } from "@google/genai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LLMStreamChunk } from "../core/options.js";
+import { createVertexClient, createVertexProviderFromEnv, VertexGeminiProvider } from "./vertex.js";
+
+const baseUrl = "http://localhost:8085";
+
+type AuthClient = NonNullable<NonNullable<GoogleGenAIOptions["googleAuthOptions"]>["authClient"]>;
+
+/** Auth client stand-in so no Google credentials are needed. */
+const authClient = {
+  getRequestHeaders: async () => new Headers({ Authorization: "Bearer test-token" }),
+} as unknown as AuthClient;
+
+function sseResponse(...events: unknown[]): Response {
+  const body = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("");
+  return new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+}
+
+function createProvider(location?: string): VertexGeminiProvider {
+  return new VertexGeminiProvider(
+    createVertexClient({
+      project: "my-project",
+      ...(location ? { location } : {}),
+      baseUrl,
+      googleAuthOptions: { authClient },
+    }),
+  );
+}
+
+describe("VertexGeminiProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("streams Gemini responses from the Vertex AI endpoint", async () => {
+    const fetchStub = vi.fn(async (_input: string | URL | Request, _init?: RequestInit) =>
+      sseResponse(
+        { candidates: [{ content: { role: "model", parts: [{ text: "Hello" }] } }] },
+        {
+          candidates: [
+            { content: { role: "model", parts: [{ text: "!" }] }, finishReason: "STOP" },
+          ],
+          usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 2, totalTokenCount: 10 },
+        },
+      ),
+    );
+    vi.stubGlobal("fetch", fetchStub);
+
+    const chunks: LLMStreamChunk[] = [];
+    const stream = createProvider("europe-west4").stream(
+      { model: "vertex:gemini-2.5-flash", messages: [{ role: "user", content: "Hi" }] },
+      { provider: "vertex", name: "gemini-2.5-flash" },
+    );
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((chunk) => chunk.text).join("")).toBe("Hello!");
+    expect(chunks.at(-1)?.usage).toMatchObject({ inputTokens: 8, outputTokens: 2 });
+
+    const [url, init] = fetchStub.mock.calls[0];
+    expect(String(url)).toContain(
+      "/projects/my-project/locations/europe-west4/publishers/google/models/gemini-2.5-flash:streamGenerateContent",
+    );
+    expect(String(url)).toMatch(/^http:\/\/localhost:8085\//);
+    expect(new Headers(init?.headers).get("authorization")).toBe("Bearer test-token");
+  });
+
+  it("lists the Gemini catalog under the 'vertex' provider", () => {
+    const provider = createProvider();
+    const specs = provider.getModelSpecs();
+
+    expect(specs.length).toBeGreaterThan(0);
+    expect(specs.every((spec) => spec.provider === "vertex")).toBe(true);
+    expect(specs.map((spec) => spec.modelId)).toContain("gemini-2.5-flash");
+    expect(provider.supports({ provider: "vertex", name: "gemini-2.5-flash" })).toBe(true);
+    expect(provider.supports({ provider: "gemini", name: "gemini-2.5-flash" })).toBe(false);
+  });
+
+  it("does not offer deep research", () => {
+    const provider = createProvider();
+
+    expect(provider.getResearchModelSpecs()).toEqual([]);
+    expect(provider.supportsResearch("deep-research-pro-preview-12-2025")).toBe(false);
+  });
+});
+
+describe("createVertexProviderFromEnv", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("requires a project and service account credentials", () => {
+    vi.stubEnv("GOOGLE_CLOUD_PROJECT", "my-project");
+    vi.stubEnv("GOOGLE_APPLICATION_CREDENTIALS", "");
+
+    expect(createVertexProviderFromEnv()).toBeNull();
+  });
+
+  it("creates a provider from Google Cloud environment variables", () => {
+    vi.stubEnv("GOOGLE_CLOUD_PROJECT", "my-project");
+    vi.stubEnv("GOOGLE_APPLICATION_CREDENTIALS", "/tmp/service-account.json");
+
+    expect(createVertexProviderFromEnv()?.providerId).toBe("vertex");
+  });
+});
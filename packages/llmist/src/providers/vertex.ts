@@ -0,0 +1,110 @@
+/**
+ * Google Vertex AI Provider Adapter
+ *
+ * Runs Gemini models through Vertex AI. The `@google/genai` SDK speaks both
+ * the Gemini API and Vertex AI, so this adapter reuses
+ * {@link GeminiGenerativeProvider} with a client in Vertex mode, which
+ * authenticates with Google Cloud credentials (service account or
+ * application default credentials) instead of an API key.
+ *
+ * Environment variables:
+ * - GOOGLE_CLOUD_PROJECT (required) - Google Cloud project ID
+ * - GOOGLE_APPLICATION_CREDENTIALS (required) - Path to a service account key file
+ * - GOOGLE_CLOUD_LOCATION (optional) - Vertex AI location (default: "us-central1")
+ * - GOOGLE_VERTEX_BASE_URL (optional) - Endpoint override (private endpoint, local stub)
+ *
+ * Model naming format: Gemini model ID, as in the Gemini catalog.
+ * Examples:
+ * - vertex:gemini-2.5-pro
+ * - vertex:gemini-2.5-flash
+ *
+ * @see https://cloud.google.com/vertex-ai/generative-ai/docs/start/quickstarts/quickstart-multimodal
+ */
+
+import { GoogleGenAI, type GoogleGenAIOptions } from "@google/genai";
+import type { ResearchModelSpec } from "../research/model-spec.js";
+import { GeminiGenerativeProvider } from "./gemini.js";
+import { GEMINI_MODELS } from "./gemini-models.js";
+import { isNonEmpty, readEnvVar } from "./utils.js";
+
+/** Location used when GOOGLE_CLOUD_LOCATION is not set */
+const DEFAULT_VERTEX_LOCATION = "us-central1";
+
+/** Gemini models served by Vertex AI, with the same pricing and limits. */
+const VERTEX_MODELS = GEMINI_MODELS.map((spec) => ({ ...spec, provider: "vertex" }));
+
+/**
+ * Configuration for the Vertex AI provider.
+ */
+export interface VertexConfig {
+  /** Google Cloud project ID */
+  project: string;
+  /** Vertex AI location (default: "us-central1") */
+  location?: string;
+  /**
+   * Options for google-auth-library (e.g., `keyFilename`, `credentials`).
+   * Defaults to application default credentials.
+   */
+  googleAuthOptions?: GoogleGenAIOptions["googleAuthOptions"];
+  /** Endpoint URL (defaults to `https://<location>-aiplatform.googleapis.com`) */
+  baseUrl?: string;
+}
+
+/**
+ * Create a `@google/genai` client for Vertex AI.
+ */
+export function createVertexClient(config: VertexConfig): GoogleGenAI {
+  return new GoogleGenAI({
+    vertexai: true,
+    project: config.project,
+    location: config.location ?? DEFAULT_VERTEX_LOCATION,
+    ...(config.googleAuthOptions ? { googleAuthOptions: config.googleAuthOptions } : {}),
+    ...(config.baseUrl ? { httpOptions: { baseUrl: config.baseUrl } } : {}),
+  });
+}
+
+export class VertexGeminiProvider extends GeminiGenerativeProvider {
+  readonly providerId = "vertex";
+
+  getModelSpecs() {
+    return VERTEX_MODELS;
+  }
+
+  // Requests are authorized with Google Cloud credentials, not API keys
+
+  protected acceptsApiKeys(): boolean {
+    return false;
+  }
+
+  // Deep research runs on the Gemini API's Interactions API, which Vertex AI does not offer
+
+  getResearchModelSpecs(): ResearchModelSpec[] {
+    return [];
+  }
+
+  supportsResearch(_agentId: string): boolean {
+    return false;
+  }
+
+  // Vertex AI batch prediction reads from Cloud Storage or BigQuery, not inline requests
+
+  supportsBatch(_modelId: string): boolean {
+    return false;
+  }
+}
+
+export function createVertexProviderFromEnv(): VertexGeminiProvider | null {
+  const project = readEnvVar("GOOGLE_CLOUD_PROJECT");
+  const credentialsFile = readEnvVar("GOOGLE_APPLICATION_CREDENTIALS");
+  if (!isNonEmpty(project) || !isNonEmpty(credentialsFile)) {
+    return null;
+  }
+
+  const location = readEnvVar("GOOGLE_CLOUD_LOCATION");
+  const client = createVertexClient({
+    project: project.trim(),
+    ...(isNonEmpty(location) ? { location: location.trim() } : {}),
+    googleAuthOptions: { keyFilename: credentialsFile.trim() },
+  });
+  return new VertexGeminiProvider(client);
+}
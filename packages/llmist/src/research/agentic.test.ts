@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockAdapter, getMockManager, mockLLM } from "../../../testing/src/index.js";
+import { LLMist } from "../core/client.js";
+import { ResearchNotSupportedError, ResearchValidationError } from "./errors.js";
+import type { ResearchEvent } from "./types.js";
+import type { ResearchSearchProvider } from "./web-search.js";
+
+const REPORT =
+  "Solid-state cells are in pilot production [Lab A](https://a.example/cells). Costs remain high.";
+
+/** Client whose only provider is a text model without a research API. */
+function createClient(researchSearch?: ResearchSearchProvider): LLMist {
+  const adapter = createMockAdapter();
+  adapter.supportsResearch = () => false;
+  return new LLMist({
+    adapters: [adapter],
+    autoDiscoverProviders: false,
+    defaultProvider: "mock",
+    researchSearch,
+  });
+}
+
+function createSearch(): ResearchSearchProvider {
+  return {
+    search: vi.fn(async () => [
+      { url: "https://a.example/cells", title: "Lab A", snippet: "Pilot lines..." },
+      { url: "https://b.example", title: "B" },
+    ]),
+    fetchPage: vi.fn(async (url: string) => ({ url, title: "Lab A", text: "Pilot production." })),
+  };
+}
+
+describe("agentic research", () => {
+  beforeEach(() => {
+    getMockManager().clear();
+  });
+
+  afterEach(() => {
+    getMockManager().clear();
+  });
+
+  it("researches with an agent and produces the native event shapes", async () => {
+    mockLLM()
+      .forAnyModel()
+      .returnsSequence([
+        {
+          text: "Searching first.",
+          gadgetCalls: [
+            { gadgetName: "WebSearch", parameters: { query: "solid-state batteries" } },
+          ],
+        },
+        {
+          text: "",
+          gadgetCalls: [{ gadgetName: "OpenPage", parameters: { url: "https://a.example/cells" } }],
+        },
+        { text: REPORT },
+      ])
+      .register();
+    const search = createSearch();
+    const client = createClient(search);
+
+    const job = client.research.start({ model: "mock:sonnet", query: "solid-state batteries" });
+    const events: ResearchEvent[] = [];
+    for await (const event of job) {
+      events.push(event);
+    }
+    const result = await job.result();
+
+    expect(events[0]).toEqual({ type: "created", jobId: null });
+    expect(events.filter((event) => event.type === "search")).toEqual([
+      { type: "search", action: "search", status: "started", query: "solid-state batteries" },
+      { type: "search", action: "search", status: "completed", query: "solid-state batteries" },
+      { type: "search", action: "open_page", status: "started", url: "https://a.example/cells" },
+      { type: "search", action: "open_page", status: "completed", url: "https://a.example/cells" },
+    ]);
+    expect(events).toContainEqual({ type: "thinking", delta: "Searching first." });
+    expect(job.provider).toBe("mock");
+    expect(result).toMatchObject({
+      jobId: null,
+      status: "completed",
+      report: REPORT,
+      citations: [
+        {
+          url: "https://a.example/cells",
+          title: "Lab A",
+          startIndex: REPORT.indexOf("[Lab A]"),
+          endIndex: REPORT.indexOf(". Costs"),
+        },
+      ],
+    });
+    expect(result.usage.searches).toBe(1);
+    expect(search.search).toHaveBeenCalledWith("solid-state batteries", expect.anything());
+  });
+
+  it("stops calling the search provider once the tool budget is spent", async () => {
+    mockLLM()
+      .forAnyModel()
+      .returnsSequence([
+        {
+          text: "",
+          gadgetCalls: [
+            { gadgetName: "WebSearch", parameters: { query: "one" } },
+            { gadgetName: "WebSearch", parameters: { query: "two" } },
+          ],
+        },
+        { text: "Report." },
+      ])
+      .register();
+    const search = createSearch();
+
+    const result = await createClient(search)
+      .research.start({ model: "mock:sonnet", query: "q", maxToolCalls: 1 })
+      .result();
+
+    expect(search.search).toHaveBeenCalledTimes(1);
+    expect(result.report).toBe("Report.");
+  });
+
+  it("rejects options that need a native research API", () => {
+    const client = createClient(createSearch());
+
+    expect(() =>
+      client.research.start({ model: "mock:sonnet", query: "q", background: true }),
+    ).toThrow(ResearchValidationError);
+    expect(() =>
+      client.research.start({
+        model: "mock:sonnet",
+        query: "q",
+        tools: [{ type: "code_interpreter" }],
+      }),
+    ).toThrow('only accepts the "web_search" tool');
+  });
+
+  it("requires a web search provider", () => {
+    const client = createClient();
+
+    expect(client.research.supportsModel("mock:sonnet")).toBe(false);
+    expect(() => client.research.start({ model: "mock:sonnet", query: "q" })).toThrow(
+      ResearchNotSupportedError,
+    );
+    expect(createClient(createSearch()).research.supportsModel("mock:sonnet")).toBe(true);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Agentic research — `client.research` for providers without a native
+ * research API (Anthropic, OpenRouter, Bedrock, local models, ...).
+ *
+ * The run is an llmist agent on the requested model with two gadgets,
+ * `WebSearch` and `OpenPage`, backed by the client's
+ * {@link ResearchSearchProvider}. Its activity is normalized into the same
+ * {@link ResearchEvent} stream native providers produce:
+ * - gadget calls become `search` events
+ * - text the model writes alongside tool calls becomes `thinking`
+ * - the final answer becomes the report (`text`), with citations from
+ *   {@link CitationCollector} and token usage/cost from the agent's tree
+ *
+ * Runs happen in-process: there is no server-side job, so `created` carries
+ * `jobId: null` and runs cannot be backgrounded or re-attached.
+ */
+
+import { AgentBuilder } from "../agent/builder.js";
+import type { LLMist } from "../core/client.js";
+import type { ModelDescriptor } from "../core/options.js";
+import { CitationCollector } from "./citation-collector.js";
+import {
+  AGENTIC_RESEARCH_DEFAULT_MAX_TOOL_CALLS,
+  AGENTIC_RESEARCH_MAX_ITERATIONS,
+} from "./constants.js";
+import { ResearchValidationError } from "./errors.js";
+import type { ResearchBackend } from "./job.js";
+import type { ResearchEvent, ResearchOptions } from "./types.js";
+import { createResearchGadgets, type ResearchSearchProvider } from "./web-search.js";
+
+/** Instructions for the research agent; `ResearchOptions.systemPrompt` is appended. */
+const AGENTIC_RESEARCH_SYSTEM_PROMPT = `You are a meticulous research analyst.
+Research the user's question on the web before answering:
+- Use WebSearch to find sources and OpenPage to read the most relevant ones.
+- Prefer primary and recent sources; cross-check important claims.
+- Stop searching once you can answer well, or when told the tool limit is reached.
+Then write the final report as your reply, without calling any tools.
+The report is markdown. Cite every sourced claim with an inline link to the page it came from, e.g. [Agency report](https://example.com/report).`;
+
+/**
+ * Reject options agentic research cannot honor, before anything runs.
+ * Only `web_search` tools are accepted (they are what the run provides).
+ */
+export function validateAgenticResearchOptions(options: ResearchOptions): void {
+  if (options.background) {
+    throw new ResearchValidationError(
+      `Model "${options.model}" researches in-process (no native research API) and cannot run as a background job.`,
+    );
+  }
+  if (options.previousJobId) {
+    throw new ResearchValidationError(
+      `Model "${options.model}" researches in-process and does not support follow-up runs (previousJobId).`,
+    );
+  }
+  const unsupported = options.tools?.find((tool) => tool.type !== "web_search");
+  if (unsupported) {
+    throw new ResearchValidationError(
+      `Model "${options.model}" researches in-process and only accepts the "web_search" tool, not "${unsupported.type}".`,
+    );
+  }
+}
+
+/**
+ * Runs agentic research for a client. One instance per client; each run gets
+ * its own gadgets, citation collector and agent.
+ */
+export class AgenticResearch {
+  constructor(
+    private readonly client: LLMist,
+    readonly search?: ResearchSearchProvider,
+  ) {}
+
+  /** A job backend running on the given provider's text models. */
+  backendFor(providerId: string): ResearchBackend {
+    return {
+      providerId,
+      startResearch: (options, descriptor) => this.run(options, descriptor),
+    };
+  }
+
+  private async *run(
+    options: ResearchOptions,
+    descriptor: ModelDescriptor,
+  ): AsyncGenerator<ResearchEvent> {
+    if (!this.search) {
+      throw new ResearchValidationError("Agentic research requires a researchSearch provider.");
+    }
+
+    yield { type: "created", jobId: null };
+    yield { type: "status", status: "in_progress" };
+
+    const pending: ResearchEvent[] = [];
+    const sources = new CitationCollector();
+    let searches = 0;
+    const gadgets = createResearchGadgets({
+      provider: this.search,
+      sources,
+      emit: (event) => {
+        if (event.type === "search" && event.action === "search" && event.status === "started") {
+          searches += 1;
+        }
+        pending.push(event);
+      },
+      maxToolCalls: options.maxToolCalls ?? AGENTIC_RESEARCH_DEFAULT_MAX_TOOL_CALLS,
+      signal: options.signal,
+    });
+
+    const builder = new AgentBuilder(this.client)
+      .withModel(`${descriptor.provider}:${descriptor.name}`)
+      .withSystem(
+        options.systemPrompt
+          ? `${AGENTIC_RESEARCH_SYSTEM_PROMPT}\n\n${options.systemPrompt}`
+          : AGENTIC_RESEARCH_SYSTEM_PROMPT,
+      )
+      .withGadgets(...gadgets)
+      .withGadgetTransport("auto")
+      .withMaxIterations(AGENTIC_RESEARCH_MAX_ITERATIONS);
+    if (options.signal) builder.withSignal(options.signal);
+    if (options.reasoning) builder.withReasoning(options.reasoning);
+    const agent = builder.ask(options.query);
+
+    // Text is only known to be the report once its iteration completes
+    // without gadget calls; until then it is buffered per iteration.
+    let iterationText = "";
+    let report = "";
+
+    for await (const event of agent.run()) {
+      if (event.type === "text") {
+        iterationText += event.content;
+      } else if (event.type === "stream_complete") {
+        const text = iterationText.trim();
+        if (event.didExecuteGadgets) {
+          if (text) yield { type: "thinking", delta: text };
+        } else {
+          report = text;
+        }
+        iterationText = "";
+      }
+      yield* pending.splice(0);
+    }
+
+    yield { type: "phase", phase: "writing" };
+    yield { type: "text", delta: report };
+    for (const citation of sources.extract(report)) {
+      yield { type: "citation", citation };
+    }
+
+    const tree = agent.getTree();
+    const tokens = tree.getTotalTokens();
+    yield {
+      type: "usage",
+      usage: {
+        inputTokens: tokens.input,
+        outputTokens: tokens.output,
+        totalTokens: tokens.input + tokens.output,
+        cachedInputTokens: tokens.cached || undefined,
+        searches,
+        costUSD: tree.getTotalCost() || undefined,
+      },
+    };
+    yield {
+      type: "done",
+      result: { status: report ? "completed" : "incomplete", report: "" },
+    };
+  }
+}
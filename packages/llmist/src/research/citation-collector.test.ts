@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { CitationCollector } from "./citation-collector.js";
+
+describe("CitationCollector", () => {
+  it("turns links to seen sources into citations with offsets", () => {
+    const collector = new CitationCollector();
+    collector.addSource("https://a.example/page/", "Page A");
+    const report = "Claim [a](https://a.example/page#intro). Made up [b](https://b.example).";
+
+    expect(collector.extract(report)).toEqual([
+      { url: "https://a.example/page/", title: "Page A", startIndex: 6, endIndex: 39 },
+    ]);
+  });
+
+  it("falls back to opened pages when the report has no usable links", () => {
+    const collector = new CitationCollector();
+    collector.addSource("https://a.example", "A");
+    collector.addSource("https://b.example");
+    collector.addSource("https://b.example", undefined, { opened: true });
+
+    expect(collector.extract("No links here.")).toEqual([{ url: "https://b.example" }]);
+    expect(collector.size).toBe(2);
+  });
+});
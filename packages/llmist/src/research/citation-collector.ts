@@ -0,0 +1,74 @@
+/**
+ * Citation collector for agentic research.
+ *
+ * The research agent is asked to cite sources as inline markdown links. The
+ * collector records every source the agent actually saw (search results and
+ * opened pages) and turns the links in the final report into
+ * {@link ResearchCitation}s with character offsets — the same shape native
+ * research providers return. Links to pages the agent never saw are not
+ * treated as citations.
+ */
+
+import type { ResearchCitation } from "./types.js";
+
+/** Inline markdown link: `[text](https://...)`. */
+const MARKDOWN_LINK = /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+interface Source {
+  url: string;
+  title?: string;
+  opened: boolean;
+}
+
+/** Comparison key for a URL: no fragment, no trailing slash. */
+function urlKey(url: string): string {
+  return url.replace(/#.*$/, "").replace(/\/+$/, "");
+}
+
+export class CitationCollector {
+  private readonly sources = new Map<string, Source>();
+
+  /** Record a source the agent has seen. Later titles fill in missing ones. */
+  addSource(url: string, title?: string, options: { opened?: boolean } = {}): void {
+    const key = urlKey(url);
+    const existing = this.sources.get(key);
+    this.sources.set(key, {
+      url: existing?.url ?? url,
+      title: existing?.title ?? title,
+      opened: (existing?.opened ?? false) || (options.opened ?? false),
+    });
+  }
+
+  /** Number of distinct sources seen. */
+  get size(): number {
+    return this.sources.size;
+  }
+
+  /**
+   * Citations for a report. Each link to a seen source becomes a citation
+   * spanning the link. Without any such link, the opened pages are returned
+   * without offsets.
+   */
+  extract(report: string): ResearchCitation[] {
+    const citations: ResearchCitation[] = [];
+    for (const match of report.matchAll(MARKDOWN_LINK)) {
+      const source = this.sources.get(urlKey(match[2]));
+      if (!source) continue;
+      const startIndex = match.index ?? 0;
+      citations.push({
+        url: source.url,
+        title: source.title ?? match[1],
+        startIndex,
+        endIndex: startIndex + match[0].length,
+      });
+    }
+    if (citations.length > 0) {
+      return citations;
+    }
+    return [...this.sources.values()]
+      .filter((source) => source.opened)
+      .map((source) =>
+        source.title ? { url: source.url, title: source.title } : { url: source.url },
+      );
+  }
+}
@@ -5,6 +5,13 @@
  * deliberately generous — research runs take minutes to an hour.
  */
 
+/**
+ * Default research model for the `DeepResearch` gadget and `llmist research`.
+ * The durable OpenAI research path (the o3/o4-mini deep research models are
+ * shut down).
+ */
+export const RESEARCH_DEFAULT_MODEL = "openai:gpt-5.5-pro";
+
 /**
  * Default client-side time budget for a research run.
  * 1 hour — OpenAI's documented SDK timeout recommendation for synchronous
@@ -63,3 +70,31 @@ export const SEARCHES_PER_THOUSAND = 1_000;
 
 /** Milliseconds per day (shutdown-window arithmetic). */
 export const MS_PER_DAY = 86_400_000;
+
+/**
+ * Minimum interval between registry writes while a research stream is
+ * running. Cursor and streamed text are persisted together, so a resume from
+ * the saved cursor never loses text — at most this much progress is replayed.
+ */
+export const RESEARCH_REGISTRY_FLUSH_INTERVAL_MS = 2_000;
+
+/** Bytes of randomness in local registry ids (rendered as hex). */
+export const RESEARCH_REGISTRY_ID_BYTES = 4;
+
+/**
+ * Default cap on web searches and page visits in an agentic research run
+ * (providers without a native research API). `maxToolCalls` overrides it.
+ */
+export const AGENTIC_RESEARCH_DEFAULT_MAX_TOOL_CALLS = 30;
+
+/**
+ * Agent iteration limit for agentic research. Leaves headroom over the tool
+ * budget for the model to write the report after the budget is spent.
+ */
+export const AGENTIC_RESEARCH_MAX_ITERATIONS = 50;
+
+/** Results requested per `WebSearch` call in agentic research. */
+export const AGENTIC_RESEARCH_SEARCH_RESULTS = 8;
+
+/** Characters of page text returned per `OpenPage` call in agentic research. */
+export const AGENTIC_RESEARCH_PAGE_MAX_CHARS = 20_000;
@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from "vitest";
+import { ExecutionTree, type GadgetNode } from "../core/execution-tree.js";
+import type { ExecutionContext, GadgetExecuteResultWithMedia } from "../gadgets/types.js";
+import type { ProviderAdapter } from "../providers/provider.js";
+import { createDeepResearchGadget, DEEP_RESEARCH_GADGET_NAME } from "./gadget.js";
+import { ResearchJobImpl } from "./job.js";
+import type { ResearchEvent, ResearchJobRef, ResearchOptions } from "./types.js";
+
+const EVENTS: ResearchEvent[] = [
+  { type: "created", jobId: "job-1", cursor: "0" },
+  { type: "status", status: "in_progress", cursor: "1" },
+  { type: "search", action: "search", status: "started", query: "batteries", cursor: "2" },
+  { type: "search", action: "search", status: "completed", cursor: "3" },
+  {
+    type: "search",
+    action: "open_page",
+    status: "completed",
+    url: "https://a.example",
+    cursor: "4",
+  },
+  { type: "text", delta: "Prototypes exist.", cursor: "5" },
+  { type: "citation", citation: { url: "https://a.example", title: "A" }, cursor: "6" },
+  { type: "done", result: { status: "completed", report: "" }, cursor: "7" },
+];
+
+/** Adapter that plays EVENTS on start and replays events after the cursor on resume. */
+function fakeAdapter(events: ResearchEvent[] = EVENTS): ProviderAdapter {
+  async function* emit(script: ResearchEvent[]): AsyncGenerator<ResearchEvent> {
+    yield* script;
+  }
+  return {
+    providerId: "fake",
+    supports: () => true,
+    stream: () => {
+      throw new Error("not used");
+    },
+    supportsResearch: () => true,
+    startResearch: () => emit(events),
+    resumeResearch: (ref: ResearchJobRef) =>
+      emit(events.filter((event) => Number(event.cursor) > Number(ref.cursor ?? -1))),
+  } as unknown as ProviderAdapter;
+}
+
+/** Execution context whose `ctx.llmist.research` runs fake jobs, with a tree node for the gadget. */
+function createContext(
+  options: {
+    events?: ResearchEvent[];
+    subagentConfig?: Record<string, Record<string, unknown>>;
+  } = {},
+) {
+  const descriptor = { provider: "fake", name: "fake-research" };
+  const start = vi.fn(
+    (researchOptions: ResearchOptions) =>
+      new ResearchJobImpl({
+        adapter: fakeAdapter(options.events),
+        descriptor,
+        options: researchOptions,
+      }),
+  );
+  const attach = vi.fn(
+    (ref: ResearchJobRef) =>
+      new ResearchJobImpl({ adapter: fakeAdapter(options.events), descriptor, resumeFrom: ref }),
+  );
+  const tree = new ExecutionTree();
+  const node = tree.addGadget({
+    invocationId: "gc_1",
+    name: DEEP_RESEARCH_GADGET_NAME,
+    parameters: {},
+  });
+  const ctx = {
+    llmist: { research: { start, attach } },
+    signal: new AbortController().signal,
+    subagentConfig: options.subagentConfig,
+    tree,
+    nodeId: node.id,
+    invocationId: "gc_1",
+  } as unknown as ExecutionContext;
+  return { ctx, tree, node, start, attach };
+}
+
+describe("DeepResearch gadget", () => {
+  it("waits for the report and attaches citations as JSON media", async () => {
+    const { ctx } = createContext();
+    const gadget = createDeepResearchGadget();
+
+    const output = (await gadget.execute(
+      { query: "solid-state batteries", wait: true },
+      ctx,
+    )) as GadgetExecuteResultWithMedia;
+
+    expect(output.result).toBe(
+      "Research completed with 1 citations. Citations are attached as JSON.\n\nPrototypes exist.",
+    );
+    const [media] = output.media ?? [];
+    expect(media).toMatchObject({
+      kind: "file",
+      mimeType: "application/json",
+      fileName: "research-citations-job-1.json",
+      metadata: { jobId: "job-1", citations: [{ url: "https://a.example", title: "A" }] },
+    });
+    expect(JSON.parse(Buffer.from(media.data, "base64").toString())).toEqual({
+      query: "solid-state batteries",
+      citations: [{ url: "https://a.example", title: "A" }],
+    });
+  });
+
+  it("records searches and page visits as child nodes", async () => {
+    const { ctx, tree, node } = createContext();
+
+    await createDeepResearchGadget().execute({ query: "batteries", wait: true }, ctx);
+
+    const children = tree.getChildren(node.id) as GadgetNode[];
+    expect(children.map((child) => [child.name, child.state, child.parameters])).toEqual([
+      ["WebSearch", "completed", { query: "batteries" }],
+      ["OpenPage", "completed", { url: "https://a.example" }],
+    ]);
+  });
+
+  it("resolves the model from subagent config", async () => {
+    const { ctx, start } = createContext({
+      subagentConfig: { DeepResearch: { model: "fake:other-research", maxToolCalls: 5 } },
+    });
+
+    await createDeepResearchGadget({ model: "fake:fake-research" }).execute(
+      { query: "batteries", wait: true },
+      ctx,
+    );
+
+    expect(start).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "fake:other-research", maxToolCalls: 5 }),
+    );
+  });
+
+  it("starts in the background and collects the full report later", async () => {
+    const { ctx, start, attach } = createContext();
+    const gadget = createDeepResearchGadget();
+
+    const started = await gadget.execute({ query: "batteries", wait: false }, ctx);
+
+    expect(started).toContain('Call DeepResearch with jobId "job-1"');
+    expect(start).toHaveBeenCalledWith(expect.objectContaining({ background: true }));
+
+    const output = (await gadget.execute(
+      { jobId: "job-1", wait: true },
+      ctx,
+    )) as GadgetExecuteResultWithMedia;
+
+    expect(attach).toHaveBeenCalledWith(
+      expect.objectContaining({ jobId: "job-1", cursor: undefined }),
+    );
+    expect(output.result).toContain("Prototypes exist.");
+    await expect(gadget.execute({ jobId: "job-1", wait: true }, ctx)).rejects.toThrow(
+      'Unknown research job "job-1"',
+    );
+  });
+
+  it("fails when the run does not complete", async () => {
+    const { ctx, tree, node } = createContext({
+      events: [
+        { type: "created", jobId: "job-2", cursor: "0" },
+        { type: "search", action: "search", status: "started", query: "q", cursor: "1" },
+        { type: "error", error: { message: "quota exceeded", retryable: false }, cursor: "2" },
+        { type: "done", result: { status: "failed", report: "" }, cursor: "3" },
+      ],
+    });
+
+    await expect(
+      createDeepResearchGadget().execute({ query: "batteries", wait: true }, ctx),
+    ).rejects.toThrow("Research failed: quota exceeded");
+    const [search] = tree.getChildren(node.id) as GadgetNode[];
+    expect(search).toMatchObject({ state: "failed", error: "quota exceeded" });
+  });
+
+  it("requires an LLMist client", async () => {
+    await expect(
+      createDeepResearchGadget().execute({ query: "batteries", wait: true }),
+    ).rejects.toThrow("requires an LLMist client");
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * DeepResearch gadget — lets an agent run deep research through `ctx.llmist`.
+ *
+ * The gadget either waits for the cited report, or (with `wait: false`)
+ * starts a background job and returns its id right away so the agent can
+ * keep working and collect the report in a later call. While a run streams,
+ * its searches and tool calls appear as child nodes of the gadget in the
+ * execution tree, and its cost is reported through the cost-reporting client.
+ *
+ * The report is the gadget's text result; citations are attached as a JSON
+ * media output (and in the media metadata) instead of being flattened into
+ * the text.
+ *
+ * @module research/gadget
+ *
+ * @example
+ * ```typescript
+ * const agent = LLMist.createAgent()
+ *   .withModel("sonnet")
+ *   .withGadgets(createDeepResearchGadget({ model: "gemini:deep-research-preview-04-2026" }))
+ *   .ask("Write a market brief on solid-state batteries");
+ * ```
+ */
+
+import { z } from "zod";
+import { createGadget } from "../gadgets/create-gadget.js";
+import type { AbstractGadget } from "../gadgets/gadget.js";
+import { createMediaOutput, resultWithMedia } from "../gadgets/helpers.js";
+import type { ExecutionContext, GadgetExecuteResultWithMedia } from "../gadgets/types.js";
+import { resolveValue } from "../utils/config-resolver.js";
+import { RESEARCH_DEFAULT_MODEL, RESEARCH_DEFAULT_TIMEOUT_MS } from "./constants.js";
+import { ResearchTreeRecorder } from "./tree-recorder.js";
+import type { ResearchJob, ResearchJobRef } from "./types.js";
+
+/** Name of the DeepResearch gadget (also its `[subagents.*]` config key). */
+export const DEEP_RESEARCH_GADGET_NAME = "DeepResearch";
+
+/**
+ * Configuration for {@link createDeepResearchGadget}.
+ * `model` and `maxToolCalls` can be overridden per agent via
+ * `[subagents.DeepResearch]` config.
+ */
+export interface DeepResearchGadgetConfig {
+  /** Research model or agent (default: {@link RESEARCH_DEFAULT_MODEL}). */
+  model?: string;
+  /** Cap on built-in tool calls per run (cost control). */
+  maxToolCalls?: number;
+  /** System-level guidance applied to every run. */
+  systemPrompt?: string;
+}
+
+/** A background job started by this gadget instance, awaiting collection. */
+interface PendingResearch {
+  ref: ResearchJobRef;
+  query: string;
+}
+
+/**
+ * Streams a job to completion, mirroring progress into the execution tree,
+ * and packages the report with its citations.
+ */
+async function collectReport(
+  job: ResearchJob,
+  query: string,
+  ctx: ExecutionContext,
+): Promise<GadgetExecuteResultWithMedia | string> {
+  const recorder =
+    ctx.tree && ctx.nodeId
+      ? new ResearchTreeRecorder(ctx.tree, ctx.nodeId, `${ctx.invocationId ?? ctx.nodeId}_research`)
+      : undefined;
+
+  let streamError: string | undefined;
+  try {
+    for await (const event of job) {
+      recorder?.ingest(event);
+      if (event.type === "error") {
+        streamError = event.error.message;
+      }
+    }
+  } catch (error) {
+    recorder?.finish(error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+  recorder?.finish(streamError);
+
+  const result = await job.result();
+  if (result.status !== "completed") {
+    throw new Error(`Research ${result.status}${streamError ? `: ${streamError}` : ""}`);
+  }
+
+  const summary =
+    `Research completed with ${result.citations.length} citations` +
+    (result.usage.costUSD !== undefined ? ` ($${result.usage.costUSD.toFixed(4)})` : "") +
+    ". Citations are attached as JSON.";
+  const text = `${summary}\n\n${result.report}`;
+  if (result.citations.length === 0) {
+    return text;
+  }
+
+  const citations = createMediaOutput(
+    "file",
+    Buffer.from(JSON.stringify({ query, citations: result.citations }, null, 2)),
+    "application/json",
+    {
+      description: `Citations for: ${query.slice(0, 50)}${query.length > 50 ? "..." : ""}`,
+      fileName: `research-citations-${result.jobId ?? "run"}.json`,
+      metadata: {
+        jobId: result.jobId,
+        provider: result.provider,
+        model: result.model,
+        citations: result.citations,
+      },
+    },
+  );
+  return resultWithMedia(text, [citations]);
+}
+
+/**
+ * Create a DeepResearch gadget.
+ *
+ * Background jobs started with `wait: false` are tracked by the returned
+ * instance; collect them with the same instance.
+ *
+ * @param config - Default model, tool-call cap and system prompt
+ * @returns A DeepResearch gadget
+ */
+export function createDeepResearchGadget(config: DeepResearchGadgetConfig = {}): AbstractGadget {
+  const pending = new Map<string, PendingResearch>();
+
+  return createGadget({
+    name: DEEP_RESEARCH_GADGET_NAME,
+    description:
+      "Run a deep research job: a long-running web research agent that returns a cited report. " +
+      "Runs take minutes. Set wait=false to start it in the background and keep working, " +
+      "then call again with the returned jobId to collect the report.",
+    schema: z.object({
+      query: z
+        .string()
+        .optional()
+        .describe("The research question or brief (required unless collecting a jobId)"),
+      jobId: z
+        .string()
+        .optional()
+        .describe("Id of a background job started earlier with wait=false, to collect its report"),
+      wait: z
+        .boolean()
+        .default(true)
+        .describe("Wait for the report (true) or start in the background and return a jobId"),
+    }),
+    examples: [
+      {
+        comment: "Research and wait for the cited report",
+        params: { query: "Current state of solid-state battery manufacturing", wait: true },
+      },
+      {
+        comment: "Start in the background and keep working",
+        params: { query: "EU battery regulation changes since 2025", wait: false },
+        output:
+          'Research started in the background (job resp_abc123). Call DeepResearch with jobId "resp_abc123" to collect the report.',
+      },
+      {
+        comment: "Collect a background job",
+        params: { jobId: "resp_abc123", wait: true },
+      },
+    ],
+    timeoutMs: RESEARCH_DEFAULT_TIMEOUT_MS,
+    execute: async ({ query, jobId, wait }, ctx) => {
+      const research = ctx?.llmist?.research;
+      if (!ctx || !research) {
+        throw new Error("DeepResearch requires an LLMist client in the execution context.");
+      }
+
+      if (jobId) {
+        const entry = pending.get(jobId);
+        if (!entry) {
+          throw new Error(
+            `Unknown research job "${jobId}". Only jobs started by DeepResearch with wait=false can be collected.`,
+          );
+        }
+        const output = await collectReport(research.attach(entry.ref), entry.query, ctx);
+        pending.delete(jobId);
+        return output;
+      }
+
+      if (!query?.trim()) {
+        throw new Error("Provide a query to start research, or a jobId to collect a job.");
+      }
+      const job = research.start({
+        model: resolveValue(ctx, DEEP_RESEARCH_GADGET_NAME, {
+          subagentKey: "model",
+          defaultValue: config.model ?? RESEARCH_DEFAULT_MODEL,
+        }),
+        query,
+        systemPrompt: config.systemPrompt,
+        maxToolCalls: resolveValue(ctx, DEEP_RESEARCH_GADGET_NAME, {
+          subagentKey: "maxToolCalls",
+          defaultValue: config.maxToolCalls,
+        }),
+        background: wait ? undefined : true,
+        signal: ctx.signal,
+      });
+
+      if (wait) {
+        return collectReport(job, query, ctx);
+      }
+
+      // Only the job id is needed; the run continues server-side.
+      for await (const event of job) {
+        if (event.type === "created") break;
+      }
+      if (job.jobId === null) {
+        throw new Error(
+          `Research model "${job.model}" cannot run in the background. Use wait=true.`,
+        );
+      }
+      // Without a cursor, collecting replays the run from the start so the
+      // report is complete.
+      pending.set(job.jobId, { ref: { ...job.toRef(), cursor: undefined }, query });
+      return `Research started in the background (job ${job.jobId}). Call DeepResearch with jobId "${job.jobId}" to collect the report.`;
+    },
+  });
+}
+
+/**
+ * Default DeepResearch gadget instance.
+ * Use createDeepResearchGadget() for custom configuration.
+ */
+export const deepResearch = createDeepResearchGadget();
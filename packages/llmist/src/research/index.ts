@@ -4,6 +4,8 @@
  * @experimental Until all v1 provider tracks land (spec 002-deep-research).
  */
 
+export { AgenticResearch, validateAgenticResearchOptions } from "./agentic.js";
+export { CitationCollector } from "./citation-collector.js";
 export { ResearchResultCollector } from "./collector.js";
 export * from "./constants.js";
 export { estimateResearchCost } from "./cost.js";
@@ -16,6 +18,9 @@ export {
   ResearchTimeoutError,
   ResearchValidationError,
 } from "./errors.js";
+export type { DeepResearchGadgetConfig } from "./gadget.js";
+export { createDeepResearchGadget, DEEP_RESEARCH_GADGET_NAME, deepResearch } from "./gadget.js";
+export type { ResearchBackend } from "./job.js";
 export { ResearchJobImpl } from "./job.js";
 export type {
   ResearchCapabilities,
@@ -24,6 +29,13 @@ export type {
   ResearchPricing,
 } from "./model-spec.js";
 export { ResearchNamespace } from "./namespace.js";
+export type {
+  ResearchJobRegistryOptions,
+  ResearchRegistryEntry,
+  ResearchRegistryProgress,
+} from "./registry.js";
+export { getDefaultResearchRegistryDir, ResearchJobRegistry } from "./registry.js";
+export { ResearchTreeRecorder } from "./tree-recorder.js";
 export type {
   ResearchCitation,
   ResearchDoneInfo,
@@ -40,3 +52,5 @@ export type {
   ResearchUsage,
 } from "./types.js";
 export { RESEARCH_DATA_SOURCE_TOOL_TYPES } from "./types.js";
+export type { ResearchPage, ResearchSearchProvider, ResearchSearchResult } from "./web-search.js";
+export { createResearchGadgets, fetchPageText } from "./web-search.js";
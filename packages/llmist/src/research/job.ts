@@ -33,8 +33,17 @@ import type {
   ResearchStatus,
 } from "./types.js";
 
+/**
+ * The research surface of a provider adapter that a job drives. Agentic
+ * research supplies its own (see `agentic.ts`).
+ */
+export type ResearchBackend = Pick<
+  ProviderAdapter,
+  "providerId" | "startResearch" | "resumeResearch" | "getResearchStatus" | "cancelResearch"
+>;
+
 interface ResearchJobInit {
-  adapter: ProviderAdapter;
+  adapter: ResearchBackend;
   descriptor: ModelDescriptor;
   spec?: ResearchModelSpec;
   /** Present in start mode. */
@@ -46,7 +55,7 @@ interface ResearchJobInit {
 type JobState = "idle" | "streaming" | "finished";
 
 export class ResearchJobImpl implements ResearchJob {
-  private readonly adapter: ProviderAdapter;
+  private readonly adapter: ResearchBackend;
   private readonly descriptor: ModelDescriptor;
   private readonly spec?: ResearchModelSpec;
   private readonly options?: ResearchOptions;
@@ -4,13 +4,16 @@
  * Mirrors the image/speech capability namespaces: dispatches to the first
  * adapter (in priority order) that supports the model, after validating the
  * request against the model's catalog spec. Providers plug in via the
- * optional research methods on {@link ProviderAdapter}.
+ * optional research methods on {@link ProviderAdapter}. Models whose provider
+ * has no research API fall back to agentic research when the client has a
+ * web search provider (see `agentic.ts`).
  */
 
 import type { ILogObj, Logger } from "tslog";
 import type { ModelDescriptor, ModelIdentifierParser } from "../core/options.js";
 import { createLogger } from "../logging/logger.js";
 import type { ProviderAdapter } from "../providers/provider.js";
+import { type AgenticResearch, validateAgenticResearchOptions } from "./agentic.js";
 import { MS_PER_DAY, RESEARCH_SHUTDOWN_WARNING_WINDOW_DAYS } from "./constants.js";
 import {
   ResearchDeprecatedModelError,
@@ -38,6 +41,7 @@ export class ResearchNamespace {
     private readonly parser: ModelIdentifierParser,
     private readonly now: () => number = Date.now,
     logger?: Logger<ILogObj>,
+    private readonly agentic?: AgenticResearch,
   ) {
     this.logger = logger ?? createLogger({ name: "llmist:research" });
   }
@@ -50,6 +54,10 @@ export class ResearchNamespace {
     const descriptor = this.parser.parse(options.model);
     const adapter = this.findResearchAdapter(descriptor);
     if (!adapter) {
+      const textAdapter = this.findTextAdapter(descriptor);
+      if (this.agentic && textAdapter) {
+        return this.startAgentic(options, descriptor, textAdapter, this.agentic);
+      }
       throw new ResearchNotSupportedError(
         `No provider supports deep research for model "${options.model}". ` +
           `Research-capable models: ${this.describeAvailableModels()}`,
@@ -120,15 +128,43 @@ export class ResearchNamespace {
     return specs;
   }
 
-  /** Whether any registered provider supports research for this model. */
+  /**
+   * Whether research works for this model: natively, or agentically when a
+   * web search provider is configured.
+   */
   supportsModel(model: string): boolean {
     try {
-      return this.findResearchAdapter(this.parser.parse(model)) !== undefined;
+      const descriptor = this.parser.parse(model);
+      return (
+        this.findResearchAdapter(descriptor) !== undefined ||
+        (this.agentic?.search !== undefined && this.findTextAdapter(descriptor) !== undefined)
+      );
     } catch {
       return false;
     }
   }
 
+  private startAgentic(
+    options: ResearchOptions,
+    descriptor: ModelDescriptor,
+    textAdapter: ProviderAdapter,
+    agentic: AgenticResearch,
+  ): ResearchJob {
+    if (!agentic.search) {
+      throw new ResearchNotSupportedError(
+        `Model "${options.model}" has no native research API. Agentic research needs a web ` +
+          `search provider: new LLMist({ researchSearch }). ` +
+          `Native research models: ${this.describeAvailableModels()}`,
+      );
+    }
+    validateAgenticResearchOptions(options);
+    return new ResearchJobImpl({
+      adapter: agentic.backendFor(textAdapter.providerId),
+      descriptor,
+      options: { ...options, background: false },
+    });
+  }
+
   private findResearchAdapter(descriptor: ModelDescriptor): ProviderAdapter | undefined {
     return this.adapters.find(
       (adapter) =>
@@ -136,6 +172,10 @@ export class ResearchNamespace {
     );
   }
 
+  private findTextAdapter(descriptor: ModelDescriptor): ProviderAdapter | undefined {
+    return this.adapters.find((adapter) => adapter.supports(descriptor));
+  }
+
   private findAdapterByProviderId(providerId: string): ProviderAdapter | undefined {
     return this.adapters.find((adapter) => adapter.providerId === providerId);
   }
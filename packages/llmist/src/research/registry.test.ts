@@ -0,0 +1,169 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ProviderAdapter } from "../providers/provider.js";
+import { RESEARCH_REGISTRY_FLUSH_INTERVAL_MS } from "./constants.js";
+import { ResearchJobImpl } from "./job.js";
+import { ResearchJobRegistry, type ResearchRegistryEntry } from "./registry.js";
+import type { ResearchEvent, ResearchJobRef } from "./types.js";
+
+const EVENTS: ResearchEvent[] = [
+  { type: "created", jobId: "job-1", cursor: "0" },
+  { type: "status", status: "in_progress", cursor: "1" },
+  { type: "text", delta: "Solid-state ", cursor: "2" },
+  { type: "citation", citation: { url: "https://a.example", title: "A" }, cursor: "3" },
+  { type: "text", delta: "batteries are close.", cursor: "4" },
+  { type: "citation", citation: { url: "https://b.example" }, cursor: "5" },
+  { type: "done", result: { status: "completed", report: "" }, cursor: "6" },
+];
+
+/** Adapter that plays EVENTS on start and replays events after the cursor on resume. */
+function fakeAdapter(): ProviderAdapter {
+  async function* emit(events: ResearchEvent[]): AsyncGenerator<ResearchEvent> {
+    yield* events;
+  }
+  return {
+    providerId: "fake",
+    supports: () => true,
+    stream: () => {
+      throw new Error("not used");
+    },
+    supportsResearch: () => true,
+    startResearch: () => emit(EVENTS),
+    resumeResearch: (ref: ResearchJobRef) =>
+      emit(EVENTS.filter((event) => Number(event.cursor) > Number(ref.cursor ?? -1))),
+  } as unknown as ProviderAdapter;
+}
+
+function startJob(): ResearchJobImpl {
+  return new ResearchJobImpl({
+    adapter: fakeAdapter(),
+    descriptor: { provider: "fake", name: "fake-research" },
+    options: { model: "fake:fake-research", query: "q" },
+  });
+}
+
+/** Clock that advances past the flush interval on every read. */
+function steppingClock(): () => number {
+  let time = Date.parse("2026-01-01T00:00:00Z");
+  return () => {
+    time += RESEARCH_REGISTRY_FLUSH_INTERVAL_MS;
+    return time;
+  };
+}
+
+describe("ResearchJobRegistry", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "llmist-research-registry-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("records the final result of a tracked run", async () => {
+    const registry = new ResearchJobRegistry({ dir });
+    const entry = await registry.create({ model: "fake:fake-research", query: "q" });
+
+    const seen: ResearchEvent[] = [];
+    for await (const event of registry.track(entry, startJob())) {
+      seen.push(event);
+    }
+
+    expect(seen).toHaveLength(EVENTS.length);
+    const saved = await registry.get(entry.id);
+    expect(saved?.status).toBe("completed");
+    expect(saved?.ref).toMatchObject({ provider: "fake", jobId: "job-1", cursor: "6" });
+    expect(saved?.progress).toBeUndefined();
+    expect(saved?.result?.report).toBe("Solid-state batteries are close.");
+    expect(saved?.result?.citations.map((c) => c.url)).toEqual([
+      "https://a.example",
+      "https://b.example",
+    ]);
+    expect(saved?.result).not.toHaveProperty("raw");
+  });
+
+  it("resumes after a disconnect without losing streamed text", async () => {
+    const registry = new ResearchJobRegistry({ dir, now: steppingClock() });
+    const entry = await registry.create({ model: "fake:fake-research", query: "q" });
+
+    // Consumer goes away after the first citation.
+    for await (const event of registry.track(entry, startJob())) {
+      if (event.type === "citation") break;
+    }
+
+    const interrupted = (await registry.get(entry.id)) as ResearchRegistryEntry;
+    expect(interrupted.status).toBe("in_progress");
+    expect(interrupted.ref?.cursor).toBe("3");
+    expect(interrupted.progress?.report).toBe("Solid-state ");
+
+    const resumed = new ResearchJobImpl({
+      adapter: fakeAdapter(),
+      descriptor: { provider: "fake", name: "fake-research" },
+      resumeFrom: interrupted.ref,
+    });
+    const replayed: ResearchEvent[] = [];
+    for await (const event of registry.track(interrupted, resumed)) {
+      replayed.push(event);
+    }
+
+    expect(replayed.map((event) => event.cursor)).toEqual(["4", "5", "6"]);
+    const saved = await registry.get(entry.id);
+    expect(saved?.result?.report).toBe("Solid-state batteries are close.");
+    expect(saved?.result?.citations).toHaveLength(2);
+  });
+
+  it("prefers a wholesale report from the done event", async () => {
+    const registry = new ResearchJobRegistry({ dir });
+    const entry = await registry.create({ model: "fake:fake-research", query: "q" });
+    entry.progress = { report: "partial", citations: [] };
+    const job = new ResearchJobImpl({
+      adapter: {
+        ...fakeAdapter(),
+        startResearch: async function* () {
+          yield { type: "created", jobId: "job-2" } satisfies ResearchEvent;
+          yield {
+            type: "done",
+            result: { status: "completed", report: "Full report." },
+          } satisfies ResearchEvent;
+        },
+      } as unknown as ProviderAdapter,
+      descriptor: { provider: "fake", name: "fake-research" },
+      options: { model: "fake:fake-research", query: "q" },
+    });
+
+    for await (const _event of registry.track(entry, job)) {
+      // drain
+    }
+
+    expect((await registry.get(entry.id))?.result?.report).toBe("Full report.");
+  });
+
+  it("lists entries newest first and removes them", async () => {
+    const clock = steppingClock();
+    const registry = new ResearchJobRegistry({ dir, now: clock });
+    const first = await registry.create({ model: "m", query: "first" });
+    const second = await registry.create({ model: "m", query: "second" });
+    await writeFile(join(dir, "garbage.json"), "{not json");
+
+    expect((await registry.list()).map((entry) => entry.query)).toEqual(["second", "first"]);
+
+    await registry.remove(first.id);
+    expect((await registry.list()).map((entry) => entry.id)).toEqual([second.id]);
+    expect(await registry.get(first.id)).toBeUndefined();
+    expect((await readdir(dir)).some((file) => file.endsWith(".tmp"))).toBe(false);
+  });
+
+  it("returns an empty list when the directory does not exist", async () => {
+    const registry = new ResearchJobRegistry({ dir: join(dir, "missing") });
+    expect(await registry.list()).toEqual([]);
+  });
+
+  it("rejects ids that are not plain file names", async () => {
+    const registry = new ResearchJobRegistry({ dir });
+    await expect(registry.get("../secrets")).rejects.toThrow("Invalid research registry id");
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Local research job registry.
+ *
+ * `ResearchJobRef`s are serializable but the library never stores them — the
+ * registry does that for callers who want jobs to outlive the process: one
+ * JSON file per run under `~/.llmist/research/`, holding the query, the latest
+ * ref (with stream cursor), the report text streamed so far and, once the run
+ * ends, the final {@link ResearchResult}.
+ *
+ * Cursor and partial report are always written together, so re-attaching from
+ * the saved cursor and appending to the saved text reconstructs the full
+ * report even after a hard disconnect.
+ *
+ * @example
+ * ```typescript
+ * const registry = new ResearchJobRegistry();
+ * const job = client.research.start({ model, query });
+ * const entry = await registry.create({ model, query });
+ *
+ * for await (const event of registry.track(entry, job)) {
+ *   if (event.type === "text") process.stdout.write(event.delta);
+ * }
+ *
+ * // Later, in another process
+ * const saved = await registry.get(entry.id);
+ * const resumed = client.research.attach(saved.ref);
+ * for await (const event of registry.track(saved, resumed)) { ... }
+ * ```
+ */
+
+import { randomBytes } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { RESEARCH_REGISTRY_FLUSH_INTERVAL_MS, RESEARCH_REGISTRY_ID_BYTES } from "./constants.js";
+import type {
+  ResearchCitation,
+  ResearchEvent,
+  ResearchJob,
+  ResearchJobRef,
+  ResearchResult,
+  ResearchStatus,
+} from "./types.js";
+
+/** Report text and citations streamed so far, up to `ref.cursor`. */
+export interface ResearchRegistryProgress {
+  report: string;
+  citations: ResearchCitation[];
+}
+
+/** A research run recorded in the registry. */
+export interface ResearchRegistryEntry {
+  /** Local registry id (not the provider's job id). */
+  id: string;
+  /** Model identifier as requested (e.g. "openai:o3-deep-research"). */
+  model: string;
+  query: string;
+  status: ResearchStatus;
+  /** Latest job ref; absent until the provider assigns a job id. */
+  ref?: ResearchJobRef;
+  /** Streamed progress; dropped once `result` is recorded. */
+  progress?: ResearchRegistryProgress;
+  /** Final result (without the provider's raw payload). */
+  result?: ResearchResult;
+  /** Last error seen while streaming, if any. */
+  error?: string;
+  /** ISO timestamps. */
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ResearchJobRegistryOptions {
+  /** Storage directory. Defaults to `~/.llmist/research`. */
+  dir?: string;
+  /** Clock (tests). */
+  now?: () => number;
+}
+
+/** Default registry directory: `~/.llmist/research`. */
+export function getDefaultResearchRegistryDir(): string {
+  return join(homedir(), ".llmist", "research");
+}
+
+/** Identity key for citation deduplication (matches the collector). */
+function citationKey(citation: ResearchCitation): string {
+  return `${citation.url}#${citation.startIndex ?? ""}`;
+}
+
+function mergeCitations(...lists: ResearchCitation[][]): ResearchCitation[] {
+  const merged = new Map<string, ResearchCitation>();
+  for (const citation of lists.flat()) {
+    if (!merged.has(citationKey(citation))) {
+      merged.set(citationKey(citation), citation);
+    }
+  }
+  return [...merged.values()];
+}
+
+export class ResearchJobRegistry {
+  readonly dir: string;
+  private readonly now: () => number;
+
+  constructor(options: ResearchJobRegistryOptions = {}) {
+    this.dir = options.dir ?? getDefaultResearchRegistryDir();
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Record a new run before its stream opens. */
+  async create(init: { model: string; query: string }): Promise<ResearchRegistryEntry> {
+    const timestamp = new Date(this.now()).toISOString();
+    const entry: ResearchRegistryEntry = {
+      id: randomBytes(RESEARCH_REGISTRY_ID_BYTES).toString("hex"),
+      model: init.model,
+      query: init.query,
+      status: "queued",
+      progress: { report: "", citations: [] },
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    await this.save(entry);
+    return entry;
+  }
+
+  /** Look up an entry by id. Returns `undefined` when unknown. */
+  async get(id: string): Promise<ResearchRegistryEntry | undefined> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(id), "utf-8")) as ResearchRegistryEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /** All entries, newest first. Unreadable files are skipped. */
+  async list(): Promise<ResearchRegistryEntry[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: ResearchRegistryEntry[] = [];
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      try {
+        entries.push(JSON.parse(await readFile(join(this.dir, file), "utf-8")));
+      } catch {
+        // Partially written or foreign file — ignore.
+      }
+    }
+    return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /** Persist an entry (atomically replaces any previous version). */
+  async save(entry: ResearchRegistryEntry): Promise<void> {
+    entry.updatedAt = new Date(this.now()).toISOString();
+    await mkdir(this.dir, { recursive: true });
+    const path = this.pathFor(entry.id);
+    const tmpPath = `${path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(entry, null, 2));
+    await rename(tmpPath, path);
+  }
+
+  /** Delete an entry. No-op when unknown. */
+  async remove(id: string): Promise<void> {
+    await rm(this.pathFor(id), { force: true });
+  }
+
+  /**
+   * Pass-through event stream that records the job's progress in `entry`.
+   *
+   * Persists on job creation, status changes and errors immediately, and
+   * cursor/text progress at most every {@link RESEARCH_REGISTRY_FLUSH_INTERVAL_MS}.
+   * When the stream ends the final result is recorded; when it throws (abort,
+   * timeout) the latest ref is saved so the run can be re-attached, and the
+   * error is rethrown.
+   *
+   * For an attached job, `entry.progress` must hold the text streamed up to
+   * `entry.ref.cursor` — which is exactly what a previous `track` saved.
+   */
+  async *track(entry: ResearchRegistryEntry, job: ResearchJob): AsyncGenerator<ResearchEvent> {
+    const progress = entry.progress ?? { report: "", citations: [] };
+    entry.progress = progress;
+    let wholesaleReport = false;
+    let lastFlush = this.now();
+    let completed = false;
+
+    try {
+      for await (const event of job.events()) {
+        let flushNow = false;
+        switch (event.type) {
+          case "created":
+            flushNow = true;
+            break;
+          case "status":
+            entry.status = event.status;
+            flushNow = true;
+            break;
+          case "text":
+            progress.report += event.delta;
+            break;
+          case "citation":
+            progress.citations = mergeCitations(progress.citations, [event.citation]);
+            break;
+          case "error":
+            entry.error = event.error.message;
+            flushNow = true;
+            break;
+          case "done":
+            entry.status = event.result.status;
+            wholesaleReport = event.result.report !== "";
+            break;
+          default:
+            break;
+        }
+
+        if (job.jobId !== null) {
+          entry.ref = job.toRef();
+        }
+        if (flushNow || this.now() - lastFlush >= RESEARCH_REGISTRY_FLUSH_INTERVAL_MS) {
+          await this.save(entry);
+          lastFlush = this.now();
+        }
+        yield event;
+      }
+
+      const { raw: _raw, ...result } = await job.result();
+      entry.result = {
+        ...result,
+        report: wholesaleReport ? result.report : progress.report,
+        citations: mergeCitations(progress.citations, result.citations),
+      };
+      entry.status = result.status;
+      entry.progress = undefined;
+      completed = true;
+    } finally {
+      if (!completed && job.jobId !== null) {
+        entry.ref = job.toRef();
+      }
+      await this.save(entry);
+    }
+  }
+
+  private pathFor(id: string): string {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid research registry id "${id}".`);
+    }
+    return join(this.dir, `${id}.json`);
+  }
+}
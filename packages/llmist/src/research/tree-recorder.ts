@@ -0,0 +1,99 @@
+/**
+ * Mirrors research activity into an {@link ExecutionTree}.
+ *
+ * Searches, page visits and tool calls reported by a research stream become
+ * child gadget nodes of the gadget running the research, so tree consumers
+ * (TUI, hooks, aggregators) show research progress the same way they show a
+ * subagent's gadget calls. Text, thinking and status events are not nodes.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new ResearchTreeRecorder(ctx.tree, ctx.nodeId, ctx.invocationId);
+ * for await (const event of job) {
+ *   recorder.ingest(event);
+ * }
+ * recorder.finish();
+ * ```
+ */
+
+import type { ExecutionTree, NodeId } from "../core/execution-tree.js";
+import type { ResearchEvent } from "./types.js";
+
+/** Child node names for `search` events, by action. */
+const SEARCH_NODE_NAMES: Record<string, string> = {
+  search: "WebSearch",
+  open_page: "OpenPage",
+  find_in_page: "FindInPage",
+};
+
+/** Child node names for `tool` events, by tool. */
+const TOOL_NODE_NAMES: Record<string, string> = {
+  code_interpreter: "CodeInterpreter",
+  file_search: "FileSearch",
+  mcp: "MCP",
+};
+
+export class ResearchTreeRecorder {
+  private counter = 0;
+  /** Started-but-not-completed node ids per node name, oldest first. */
+  private readonly open = new Map<string, NodeId[]>();
+
+  constructor(
+    private readonly tree: ExecutionTree,
+    private readonly parentId: NodeId,
+    private readonly invocationPrefix = "research",
+  ) {}
+
+  /** Record one research event. Non-activity events are ignored. */
+  ingest(event: ResearchEvent): void {
+    if (event.type === "search") {
+      const parameters: Record<string, unknown> = {};
+      if (event.query !== undefined) parameters.query = event.query;
+      if (event.url !== undefined) parameters.url = event.url;
+      this.activity(SEARCH_NODE_NAMES[event.action] ?? event.action, event.status, parameters);
+    } else if (event.type === "tool") {
+      const parameters = event.detail !== undefined ? { detail: event.detail } : {};
+      this.activity(TOOL_NODE_NAMES[event.tool] ?? event.tool, event.status, parameters);
+    }
+  }
+
+  /**
+   * Close nodes still open when the stream ends. With an error, they are
+   * marked failed; otherwise completed.
+   */
+  finish(error?: string): void {
+    for (const ids of this.open.values()) {
+      for (const id of ids) {
+        this.tree.completeGadget(id, error ? { error } : { result: "" });
+      }
+    }
+    this.open.clear();
+  }
+
+  private activity(
+    name: string,
+    status: "started" | "completed",
+    parameters: Record<string, unknown>,
+  ): void {
+    const pending = this.open.get(name) ?? [];
+    if (status === "completed" && pending.length > 0) {
+      this.tree.completeGadget(pending.shift() as NodeId, { result: "" });
+      return;
+    }
+
+    const node = this.tree.addGadget({
+      invocationId: `${this.invocationPrefix}_${++this.counter}`,
+      name,
+      parameters,
+      parentId: this.parentId,
+    });
+    this.tree.startGadget(node.id);
+    if (status === "completed") {
+      // Providers that only report completions get an instant node.
+      this.tree.completeGadget(node.id, { result: "" });
+    } else {
+      pending.push(node.id);
+      this.open.set(name, pending);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Web search for agentic research.
+ *
+ * Providers without a native research API research through an llmist agent
+ * (see `agentic.ts`). The agent searches and reads pages through two
+ * gadgets, `WebSearch` and `OpenPage`, backed by a pluggable
+ * {@link ResearchSearchProvider}: llmist ships no search engine, so wire in
+ * whichever one you use (Brave, Tavily, Exa, SearXNG, ...).
+ *
+ * @example
+ * ```typescript
+ * const client = new LLMist({
+ *   researchSearch: {
+ *     async search(query, { maxResults, signal }) {
+ *       const res = await fetch(`https://search.example/api?q=${encodeURIComponent(query)}`, { signal });
+ *       const body = await res.json();
+ *       return body.results.slice(0, maxResults).map((r) => ({ url: r.url, title: r.title, snippet: r.description }));
+ *     },
+ *   },
+ * });
+ * const job = client.research.start({ model: "sonnet", query: "State of solid-state batteries" });
+ * ```
+ */
+
+import { z } from "zod";
+import { createGadget } from "../gadgets/create-gadget.js";
+import type { AbstractGadget } from "../gadgets/gadget.js";
+import type { CitationCollector } from "./citation-collector.js";
+import { AGENTIC_RESEARCH_PAGE_MAX_CHARS, AGENTIC_RESEARCH_SEARCH_RESULTS } from "./constants.js";
+import type { ResearchEvent } from "./types.js";
+
+/** One web search hit. */
+export interface ResearchSearchResult {
+  url: string;
+  title?: string;
+  snippet?: string;
+}
+
+/** Readable text of a fetched page. */
+export interface ResearchPage {
+  url: string;
+  title?: string;
+  text: string;
+}
+
+/**
+ * Web search backend for agentic research.
+ * `fetchPage` is optional — pages are fetched and stripped to text with
+ * {@link fetchPageText} when it is omitted.
+ */
+export interface ResearchSearchProvider {
+  search(
+    query: string,
+    options: { maxResults: number; signal?: AbortSignal },
+  ): Promise<ResearchSearchResult[]>;
+  fetchPage?(url: string, options: { signal?: AbortSignal }): Promise<ResearchPage>;
+}
+
+/** Wiring between the research gadgets and the run that owns them. */
+export interface ResearchGadgetContext {
+  provider: ResearchSearchProvider;
+  /** Sources seen by the agent, for grounding citations. */
+  sources: CitationCollector;
+  /** Receives `search` progress events. */
+  emit: (event: ResearchEvent) => void;
+  /** Combined cap on searches and page visits. */
+  maxToolCalls: number;
+  signal?: AbortSignal;
+}
+
+const BUDGET_EXHAUSTED =
+  "Tool call limit reached. Write the final report now from the sources gathered so far.";
+
+/**
+ * Fetch a URL and reduce its HTML to plain text.
+ * Scripts, styles and tags are dropped and whitespace is collapsed.
+ */
+export async function fetchPageText(
+  url: string,
+  options: { signal?: AbortSignal } = {},
+): Promise<ResearchPage> {
+  const response = await fetch(url, { signal: options.signal });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} fetching ${url}`);
+  }
+  const html = await response.text();
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1]?.trim();
+  const text = html
+    .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+  return { url, title: title || undefined, text };
+}
+
+/**
+ * Create the `WebSearch` and `OpenPage` gadgets for one research run.
+ * Both share the run's tool-call budget; once it is spent they tell the
+ * model to write the report instead of calling the provider.
+ */
+export function createResearchGadgets(context: ResearchGadgetContext): AbstractGadget[] {
+  const { provider, sources, emit, signal } = context;
+  let calls = 0;
+  const withinBudget = () => ++calls <= context.maxToolCalls;
+
+  const webSearch = createGadget({
+    name: "WebSearch",
+    description:
+      "Search the web. Returns result URLs with titles and snippets. Open promising results with OpenPage.",
+    schema: z.object({
+      query: z.string().min(1).describe("Search query"),
+    }),
+    execute: async ({ query }) => {
+      if (!withinBudget()) return BUDGET_EXHAUSTED;
+
+      emit({ type: "search", action: "search", status: "started", query });
+      const results = await provider.search(query, {
+        maxResults: AGENTIC_RESEARCH_SEARCH_RESULTS,
+        signal,
+      });
+      emit({ type: "search", action: "search", status: "completed", query });
+
+      if (results.length === 0) {
+        return `No results for "${query}".`;
+      }
+      for (const result of results) {
+        sources.addSource(result.url, result.title);
+      }
+      return results
+        .map((result, index) =>
+          [
+            `${index + 1}. ${result.title ?? result.url}`,
+            `   ${result.url}`,
+            result.snippet && `   ${result.snippet}`,
+          ]
+            .filter(Boolean)
+            .join("\n"),
+        )
+        .join("\n");
+    },
+  });
+
+  const openPage = createGadget({
+    name: "OpenPage",
+    description: "Read the text of a web page.",
+    schema: z.object({
+      url: z.string().url().describe("Page URL, usually from a WebSearch result"),
+    }),
+    execute: async ({ url }) => {
+      if (!withinBudget()) return BUDGET_EXHAUSTED;
+
+      emit({ type: "search", action: "open_page", status: "started", url });
+      const page = provider.fetchPage
+        ? await provider.fetchPage(url, { signal })
+        : await fetchPageText(url, { signal });
+      emit({ type: "search", action: "open_page", status: "completed", url });
+
+      sources.addSource(url, page.title, { opened: true });
+      const text =
+        page.text.length > AGENTIC_RESEARCH_PAGE_MAX_CHARS
+          ? `${page.text.slice(0, AGENTIC_RESEARCH_PAGE_MAX_CHARS)}\n[truncated]`
+          : page.text;
+      return page.title ? `# ${page.title}\n\n${text}` : text;
+    },
+  });
+
+  return [webSearch, openPage];
+}
@@ -1,6 +1,12 @@
 import type {
+  BatchJobRef,
+  BatchRequest,
+  BatchResultItem,
+  BatchStatusSnapshot,
+  ImageEditOptions,
   ImageGenerationOptions,
   ImageGenerationResult,
+  ImageVariationOptions,
   LLMGenerationOptions,
   LLMStream,
   ModelDescriptor,
@@ -17,6 +23,7 @@ import type {
 import { getMockManager, type MockManager } from "./mock-manager.js";
 import { createMockStream } from "./mock-stream.js";
 import type {
+  MockBatchJobEntry,
   MockMatcherContext,
   MockOptions,
   MockResearchData,
@@ -149,6 +156,37 @@ export class MockProviderAdapter implements ProviderAdapter {
     return this.createImageResult(options, mockResponse);
   }
 
+  /**
+   * Edit images using registered image mocks, matched on the edit prompt.
+   *
+   * @param options - Image edit options
+   * @returns Mock image result
+   */
+  async editImage(options: ImageEditOptions): Promise<ImageGenerationResult> {
+    return this.generateImage({
+      model: options.model,
+      prompt: options.prompt,
+      size: options.size,
+      quality: options.quality,
+      n: options.n,
+    });
+  }
+
+  /**
+   * Create variations using registered image mocks, matched on the prompt (if any).
+   *
+   * @param options - Image variation options
+   * @returns Mock image result
+   */
+  async generateImageVariations(options: ImageVariationOptions): Promise<ImageGenerationResult> {
+    return this.generateImage({
+      model: options.model,
+      prompt: options.prompt ?? "",
+      size: options.size,
+      n: options.n,
+    });
+  }
+
   /**
    * Transform mock response into ImageGenerationResult format.
    *
@@ -377,6 +415,97 @@ export class MockProviderAdapter implements ProviderAdapter {
 
     yield* emitResearchEvents(events, data.failAtEvent, options.signal);
   }
+
+  // ==========================================================================
+  // Batch Support
+  // ==========================================================================
+
+  /**
+   * Simulated server-side batch store. Lives on the shared MockManager
+   * singleton, like research jobs, so refs survive across adapter/client
+   * instances; cleared by getMockManager().clear().
+   */
+  private get batchJobs(): Map<string, MockBatchJobEntry> {
+    return this.mockManager.batchJobs;
+  }
+
+  /**
+   * Check if this adapter supports batches for a given model.
+   * Always true so the mock adapter can intercept all batch submissions.
+   */
+  supportsBatch(_modelId: string): boolean {
+    return true;
+  }
+
+  /**
+   * Submit a mock batch. Each request is matched against registered mocks
+   * exactly like a `stream()` call; the batch completes immediately.
+   * Requests with no matching mock come back as failed results.
+   */
+  async submitBatch(requests: BatchRequest[], descriptor: ModelDescriptor): Promise<string> {
+    const results: BatchResultItem[] = [];
+    for (const { id, model: _model, ...options } of requests) {
+      const model = `${descriptor.provider}:${descriptor.name}`;
+      const mockResponse = await this.mockManager.findMatch({
+        model,
+        provider: descriptor.provider,
+        modelName: descriptor.name,
+        options: { ...options, model },
+        messages: options.messages,
+      });
+      results.push(
+        mockResponse
+          ? {
+              id,
+              status: "succeeded",
+              text: mockResponse.text ?? "",
+              finishReason: mockResponse.finishReason ?? "stop",
+              usage: mockResponse.usage,
+            }
+          : {
+              id,
+              status: "failed",
+              text: "",
+              error: { message: `No mock registered for batch request "${id}".` },
+            },
+      );
+    }
+
+    const batchId = this.mockManager.allocateBatchId();
+    this.batchJobs.set(batchId, { status: "completed", results });
+    return batchId;
+  }
+
+  /** Status of a mock batch, with counts derived from its results. */
+  async getBatchStatus(ref: BatchJobRef): Promise<BatchStatusSnapshot> {
+    const job = this.getBatchJob(ref);
+    const succeeded = job.results.filter((item) => item.status === "succeeded").length;
+    return {
+      status: job.status,
+      counts: {
+        total: job.results.length,
+        succeeded,
+        failed: job.results.length - succeeded,
+      },
+    };
+  }
+
+  async *getBatchResults(ref: BatchJobRef): AsyncGenerator<BatchResultItem> {
+    yield* this.getBatchJob(ref).results;
+  }
+
+  /** Cancel is recorded as a status change; results are kept. */
+  async cancelBatch(ref: BatchJobRef): Promise<void> {
+    this.getBatchJob(ref).status = "cancelled";
+  }
+
+  private getBatchJob(ref: BatchJobRef): MockBatchJobEntry {
+    const job = this.batchJobs.get(ref.batchId);
+    if (!job) {
+      throw new Error(`No mock batch "${ref.batchId}".`);
+    }
+    return job;
+  }
 }
 
 /** First `created` event's job id, or null. */
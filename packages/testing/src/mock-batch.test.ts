@@ -0,0 +1,93 @@
+/**
+ * Tests for batch mock support.
+ *
+ * Verifies:
+ * - MockProviderAdapter batch capability (submit, status, results, cancel)
+ * - Refs survive across client instances via the shared job store
+ */
+
+import type { BatchResultItem } from "llmist";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createMockClient, getMockManager, mockLLM } from "./index.js";
+
+beforeEach(() => {
+  getMockManager().clear();
+});
+
+afterEach(() => {
+  getMockManager().clear();
+});
+
+async function drain(iterable: AsyncIterable<BatchResultItem>): Promise<BatchResultItem[]> {
+  const items: BatchResultItem[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe("batch mocks", () => {
+  it("matches each request against registered mocks", async () => {
+    mockLLM()
+      .whenMessageContains("refund")
+      .returns("billing")
+      .withUsage({ inputTokens: 10, outputTokens: 1, totalTokens: 11 })
+      .register();
+    mockLLM().whenMessageContains("crash").returns("bug").register();
+
+    const client = createMockClient();
+    const job = await client.batch.submit(
+      [
+        { id: "t1", messages: [{ role: "user", content: "I want a refund" }] },
+        { id: "t2", messages: [{ role: "user", content: "The app crashes" }] },
+      ],
+      { model: "openai:gpt-5-mini" },
+    );
+
+    const snapshot = await job.wait({ pollIntervalMs: 1 });
+    expect(snapshot).toEqual({
+      status: "completed",
+      counts: { total: 2, succeeded: 2, failed: 0 },
+    });
+
+    const items = await drain(job);
+    expect(items.map((item) => [item.id, item.text])).toEqual([
+      ["t1", "billing"],
+      ["t2", "bug"],
+    ]);
+    expect(items[0].usage).toEqual({ inputTokens: 10, outputTokens: 1, totalTokens: 11 });
+  });
+
+  it("attaches from a serialized ref in a new client", async () => {
+    mockLLM().whenMessageContains("x").returns("ok").register();
+    const job = await createMockClient().batch.submit([
+      { id: "a", model: "anthropic:claude-haiku-4-5", messages: [{ role: "user", content: "x" }] },
+    ]);
+    const ref = JSON.parse(JSON.stringify(job.toRef()));
+
+    const attached = createMockClient().batch.attach(ref);
+
+    expect(attached.provider).toBe("mock");
+    expect((await drain(attached))[0].text).toBe("ok");
+  });
+
+  it("records cancellation", async () => {
+    mockLLM().whenMessageContains("x").returns("ok").register();
+    const client = createMockClient();
+    const job = await client.batch.submit(
+      [{ id: "a", messages: [{ role: "user", content: "x" }] }],
+      { model: "openai:gpt-5-mini" },
+    );
+
+    await job.cancel();
+
+    expect((await job.status()).status).toBe("cancelled");
+  });
+
+  it("throws for unknown batch ids", async () => {
+    const client = createMockClient();
+    await expect(
+      client.batch.get({ provider: "mock", model: "gpt-5-mini", batchId: "missing" }),
+    ).rejects.toThrow('No mock batch "missing"');
+  });
+});
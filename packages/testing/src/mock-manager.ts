@@ -1,6 +1,7 @@
 import { createLogger } from "llmist";
 import type { ILogObj, Logger } from "tslog";
 import type {
+  MockBatchJobEntry,
   MockMatcherContext,
   MockOptions,
   MockRegistration,
@@ -35,6 +36,19 @@ export class MockManager {
     this.researchJobCounter += 1;
     return `mock-research-job-${this.researchJobCounter}`;
   }
+
+  /**
+   * Simulated server-side batch store, shared like `researchJobs`.
+   * Entries are managed by MockProviderAdapter.
+   */
+  readonly batchJobs: Map<string, MockBatchJobEntry> = new Map();
+  private batchJobCounter = 0;
+
+  /** Allocate a unique batch id (shared store, see allocateResearchJobId). */
+  allocateBatchId(): string {
+    this.batchJobCounter += 1;
+    return `mock-batch-${this.batchJobCounter}`;
+  }
   private options: Required<MockOptions>;
   private logger: Logger<ILogObj>;
   private nextId = 1;
@@ -131,6 +145,7 @@ export class MockManager {
     this.mocks.clear();
     this.stats.clear();
     this.researchJobs.clear();
+    this.batchJobs.clear();
     this.logger.debug("Cleared all mocks");
   }
 
@@ -265,6 +265,27 @@ describe("Mock Adapter Multimodal Generation", () => {
     });
   });
 
+  describe("editImage", () => {
+    it("returns registered image mocks for edits and variations", async () => {
+      const pngBuffer = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+      mockLLM().forModel("gpt-image-1").returnsImage(pngBuffer).register();
+
+      const client = createMockClient();
+
+      const edited = await client.image.edit({
+        model: "gpt-image-1",
+        image: pngBuffer,
+        prompt: "Make it blue",
+      });
+      const variations = await client.image.variations({ model: "gpt-image-1", image: pngBuffer });
+
+      expect(edited.images[0].b64Json).toBe(pngBuffer.toString("base64"));
+      expect(variations.images).toHaveLength(1);
+      expect(edited.cost).toBe(0);
+    });
+  });
+
   describe("generateSpeech", () => {
     it("returns mock speech generation result", async () => {
       // MP3 ID3 header
@@ -1,5 +1,7 @@
 import type {
   AudioMimeType,
+  BatchResultItem,
+  BatchStatus,
   ImageMimeType,
   LLMGenerationOptions,
   LLMMessage,
@@ -107,6 +109,15 @@ export interface MockResearchJobEntry {
   terminalStatus: ResearchStatus;
 }
 
+/**
+ * A submitted mock batch — lives in MockManager's shared job store so batch
+ * refs survive across adapter/client instances.
+ */
+export interface MockBatchJobEntry {
+  status: BatchStatus;
+  results: BatchResultItem[];
+}
+
 /**
  * A mock response that will be returned when a matcher succeeds.
  */